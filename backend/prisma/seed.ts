@@ -150,6 +150,36 @@ async function main() {
     { name: 'work_logs.update', displayName: 'Edit Work Logs', resource: 'work_logs', action: 'update' },
     { name: 'work_logs.delete', displayName: 'Delete Work Logs', resource: 'work_logs', action: 'delete' },
 
+    // Leave Management (3)
+    { name: 'leave.create', displayName: 'Request Leave', resource: 'leave', action: 'create' },
+    { name: 'leave.read', displayName: 'View Leave', resource: 'leave', action: 'read' },
+    { name: 'leave.approve', displayName: 'Approve Leave', resource: 'leave', action: 'approve' },
+
+    // Shift Scheduling (4)
+    { name: 'shifts.create', displayName: 'Create Shifts', resource: 'shifts', action: 'create' },
+    { name: 'shifts.read', displayName: 'View Shifts', resource: 'shifts', action: 'read' },
+    { name: 'shifts.update', displayName: 'Edit Shifts', resource: 'shifts', action: 'update' },
+    { name: 'shifts.delete', displayName: 'Delete Shifts', resource: 'shifts', action: 'delete' },
+    { name: 'tickets.read', displayName: 'View Tickets', resource: 'tickets', action: 'read' },
+    { name: 'integrations.create', displayName: 'Create Integrations', resource: 'integrations', action: 'create' },
+    { name: 'integrations.read', displayName: 'View Integrations', resource: 'integrations', action: 'read' },
+    { name: 'integrations.update', displayName: 'Edit Integrations', resource: 'integrations', action: 'update' },
+    { name: 'integrations.delete', displayName: 'Delete Integrations', resource: 'integrations', action: 'delete' },
+    { name: 'integrations.sync', displayName: 'Sync Integrations', resource: 'integrations', action: 'sync' },
+    { name: 'custom_fields.create', displayName: 'Create Custom Fields', resource: 'custom_fields', action: 'create' },
+    { name: 'custom_fields.update', displayName: 'Edit Custom Fields', resource: 'custom_fields', action: 'update' },
+    { name: 'custom_fields.delete', displayName: 'Delete Custom Fields', resource: 'custom_fields', action: 'delete' },
+    { name: 'achievements.create', displayName: 'Create Achievements', resource: 'achievements', action: 'create' },
+    { name: 'achievements.update', displayName: 'Edit Achievements', resource: 'achievements', action: 'update' },
+    { name: 'achievements.delete', displayName: 'Delete Achievements', resource: 'achievements', action: 'delete' },
+    { name: 'knowledge_bases.create', displayName: 'Create Knowledge Bases', resource: 'knowledge_bases', action: 'create' },
+    { name: 'knowledge_bases.update', displayName: 'Edit Knowledge Bases', resource: 'knowledge_bases', action: 'update' },
+    { name: 'knowledge_bases.delete', displayName: 'Delete Knowledge Bases', resource: 'knowledge_bases', action: 'delete' },
+    { name: 'service_accounts.create', displayName: 'Create Service Accounts', resource: 'service_accounts', action: 'create' },
+    { name: 'service_accounts.read', displayName: 'View Service Accounts', resource: 'service_accounts', action: 'read' },
+    { name: 'service_accounts.update', displayName: 'Edit Service Accounts', resource: 'service_accounts', action: 'update' },
+    { name: 'service_accounts.delete', displayName: 'Delete Service Accounts', resource: 'service_accounts', action: 'delete' },
+
     // Analytics (CRUD placeholder)
     { name: 'analytics.create', displayName: 'Create Analytics', resource: 'analytics', action: 'create' },
     { name: 'analytics.read', displayName: 'View Analytics', resource: 'analytics', action: 'read' },
@@ -205,7 +235,8 @@ async function main() {
   // Ensure ADMIN has read access to core resources by default
   const defaultAdminPermissions = permissions.filter(p =>
     [
-      'users.read','projects.read','teams.read','time_sessions.read','work_logs.read','settings.read','analytics.read','organizations.read','roles.read','permissions.read'
+      'users.read','projects.read','teams.read','time_sessions.read','work_logs.read','settings.read','analytics.read','organizations.read','roles.read','permissions.read',
+      'leave.create','leave.read','leave.approve','shifts.read','tickets.read','integrations.read'
     ].includes(p.name)
   );
   for (const permission of defaultAdminPermissions) {
@@ -225,7 +256,9 @@ async function main() {
   // Ensure EMPLOYEE has basic permissions but cannot access Roles/Organizations by default
   const employeeReadPermissions = permissions.filter(p =>
     [
-      'users.read','projects.read','teams.read','time_sessions.read','work_logs.read','permissions.read'
+      'users.read','projects.read','teams.read','time_sessions.read','work_logs.read','permissions.read',
+      'leave.create','leave.read','leave.approve','shifts.create','shifts.read','shifts.update','shifts.delete',
+      'tickets.read'
     ].includes(p.name)
   );
   for (const permission of employeeReadPermissions) {
@@ -531,19 +564,42 @@ async function main() {
     },
   ];
 
+  // Seeded settings are global defaults, which organizations can override
   for (const setting of systemSettings) {
-    await prisma.systemSetting.upsert({
-      where: { key: setting.key },
-      update: {},
-      create: {
-        ...setting,
-        updatedBy: superAdminUser.id,
-      },
+    const existing = await prisma.systemSetting.findFirst({
+      where: { organizationId: null, key: setting.key },
     });
+    if (!existing) {
+      await prisma.systemSetting.create({
+        data: {
+          ...setting,
+          updatedBy: superAdminUser.id,
+        },
+      });
+    }
   }
 
   console.log('✅ System settings created');
 
+  // Create default leave types
+  console.log('🌴 Creating leave types...');
+
+  const leaveTypes = [
+    { name: 'Annual Leave', description: 'Paid annual vacation', maxDaysPerYear: 20 },
+    { name: 'Sick Leave', description: 'Paid leave for illness or medical appointments', maxDaysPerYear: 10 },
+    { name: 'Unpaid Leave', description: 'Leave without pay', maxDaysPerYear: null },
+  ];
+
+  for (const leaveType of leaveTypes) {
+    await prisma.leaveType.upsert({
+      where: { name: leaveType.name },
+      update: {},
+      create: leaveType,
+    });
+  }
+
+  console.log('✅ Leave types created');
+
   console.log('🎉 Database seeding completed successfully!');
   console.log('');
   console.log('📊 Summary:');
@@ -555,6 +611,7 @@ async function main() {
   console.log(`   - Created 2 sample projects`);
   console.log(`   - Created default development team`);
   console.log(`   - Created ${systemSettings.length} system settings`);
+  console.log(`   - Created ${leaveTypes.length} leave types`);
 }
 
 main()
@@ -564,4 +621,4 @@ main()
   })
   .finally(async () => {
     await prisma.$disconnect();
-  }); 
\ No newline at end of file
+  }); 
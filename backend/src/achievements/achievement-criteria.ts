@@ -0,0 +1,270 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const CRITERIA_METRICS = ['hours', 'count', 'streak'] as const;
+export const CRITERIA_SOURCES = ['work_logs', 'time_sessions'] as const;
+export const CRITERIA_PERIODS = [
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+  'all',
+] as const;
+
+export type CriteriaMetric = (typeof CRITERIA_METRICS)[number];
+export type CriteriaSource = (typeof CRITERIA_SOURCES)[number];
+export type CriteriaPeriod = (typeof CRITERIA_PERIODS)[number];
+
+/**
+ * A single measurable goal, e.g. 100 billable hours in a quarter:
+ * `{ metric: 'hours', source: 'work_logs', threshold: 100, period: 'quarter', filters: { isBillable: true } }`
+ */
+export interface MetricCriteria {
+  /** `hours` sums durations, `count` counts entries, `streak` counts consecutive days */
+  metric: CriteriaMetric;
+  source: CriteriaSource;
+  threshold: number;
+  /** Calendar window (UTC) the threshold must be reached in, defaults to `all`; ignored by streaks */
+  period?: CriteriaPeriod;
+  /** Streaks only: Saturdays and Sundays neither count nor break the streak */
+  skipWeekends?: boolean;
+  filters?: {
+    projectId?: string;
+    /** Work logs only */
+    isBillable?: boolean;
+    /** Work logs only, every tag must be present */
+    tags?: string[];
+  };
+}
+
+export type AchievementCriteria =
+  | MetricCriteria
+  | { all: AchievementCriteria[] }
+  | { any: AchievementCriteria[] };
+
+/** A work log or completed time session reduced to what criteria look at */
+export interface ActivityEntry {
+  startTime: Date;
+  seconds: number;
+  projectId: string;
+  isBillable?: boolean;
+  tags?: string[];
+}
+
+export type ActivityData = Record<CriteriaSource, ActivityEntry[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const invalid = (path: string, message: string) =>
+  new BadRequestException(`criteria${path} ${message}`);
+
+/**
+ * Validates stored or submitted criteria JSON and returns it typed. Throws a
+ * BadRequestException naming the offending path.
+ */
+export function parseAchievementCriteria(
+  value: unknown,
+  path = '',
+): AchievementCriteria {
+  if (!isObject(value)) {
+    throw invalid(path, 'must be an object');
+  }
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in value) {
+      const children = value[key];
+      if (!Array.isArray(children) || children.length === 0) {
+        throw invalid(`${path}.${key}`, 'must be a non-empty array');
+      }
+      const parsed = children.map((child, index) =>
+        parseAchievementCriteria(child, `${path}.${key}[${index}]`),
+      );
+      return key === 'all' ? { all: parsed } : { any: parsed };
+    }
+  }
+
+  const { metric, source, threshold, period, skipWeekends, filters } = value;
+  if (!CRITERIA_METRICS.includes(metric as CriteriaMetric)) {
+    throw invalid(
+      `${path}.metric`,
+      `must be one of ${CRITERIA_METRICS.join(', ')}`,
+    );
+  }
+  if (!CRITERIA_SOURCES.includes(source as CriteriaSource)) {
+    throw invalid(
+      `${path}.source`,
+      `must be one of ${CRITERIA_SOURCES.join(', ')}`,
+    );
+  }
+  if (typeof threshold !== 'number' || !(threshold > 0)) {
+    throw invalid(`${path}.threshold`, 'must be a positive number');
+  }
+  if (
+    period !== undefined &&
+    !CRITERIA_PERIODS.includes(period as CriteriaPeriod)
+  ) {
+    throw invalid(
+      `${path}.period`,
+      `must be one of ${CRITERIA_PERIODS.join(', ')}`,
+    );
+  }
+  if (skipWeekends !== undefined && typeof skipWeekends !== 'boolean') {
+    throw invalid(`${path}.skipWeekends`, 'must be a boolean');
+  }
+
+  const criteria: MetricCriteria = {
+    metric: metric as CriteriaMetric,
+    source: source as CriteriaSource,
+    threshold,
+    ...(period !== undefined && { period: period as CriteriaPeriod }),
+    ...(skipWeekends !== undefined && { skipWeekends }),
+  };
+
+  if (filters !== undefined) {
+    if (!isObject(filters)) {
+      throw invalid(`${path}.filters`, 'must be an object');
+    }
+    const { projectId, isBillable, tags } = filters;
+    if (projectId !== undefined && typeof projectId !== 'string') {
+      throw invalid(`${path}.filters.projectId`, 'must be a string');
+    }
+    if (isBillable !== undefined && typeof isBillable !== 'boolean') {
+      throw invalid(`${path}.filters.isBillable`, 'must be a boolean');
+    }
+    if (
+      tags !== undefined &&
+      (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))
+    ) {
+      throw invalid(`${path}.filters.tags`, 'must be an array of strings');
+    }
+    if (
+      criteria.source === 'time_sessions' &&
+      (isBillable !== undefined || tags !== undefined)
+    ) {
+      throw invalid(
+        `${path}.filters`,
+        'isBillable and tags only apply to work_logs',
+      );
+    }
+    criteria.filters = {
+      ...(projectId !== undefined && { projectId }),
+      ...(isBillable !== undefined && { isBillable }),
+      ...(tags !== undefined && { tags: tags as string[] }),
+    };
+  }
+
+  return criteria;
+}
+
+/** Sources the criteria read, so callers only load what is needed */
+export function getCriteriaSources(
+  criteria: AchievementCriteria,
+): Set<CriteriaSource> {
+  if ('all' in criteria || 'any' in criteria) {
+    const children = 'all' in criteria ? criteria.all : criteria.any;
+    return new Set(children.flatMap((child) => [...getCriteriaSources(child)]));
+  }
+  return new Set([criteria.source]);
+}
+
+export function isCriteriaMet(
+  criteria: AchievementCriteria,
+  data: ActivityData,
+): boolean {
+  if ('all' in criteria) {
+    return criteria.all.every((child) => isCriteriaMet(child, data));
+  }
+  if ('any' in criteria) {
+    return criteria.any.some((child) => isCriteriaMet(child, data));
+  }
+  return measure(criteria, data[criteria.source]) >= criteria.threshold;
+}
+
+/**
+ * Best value the entries reach for the metric: the highest total of any
+ * single period, or the longest streak of days.
+ */
+export function measure(
+  criteria: MetricCriteria,
+  entries: ActivityEntry[],
+): number {
+  const { filters = {} } = criteria;
+  const matching = entries.filter(
+    (entry) =>
+      (filters.projectId === undefined ||
+        entry.projectId === filters.projectId) &&
+      (filters.isBillable === undefined ||
+        entry.isBillable === filters.isBillable) &&
+      (filters.tags === undefined ||
+        filters.tags.every((tag) => entry.tags?.includes(tag))),
+  );
+
+  if (criteria.metric === 'streak') {
+    return longestStreak(matching, criteria.skipWeekends ?? false);
+  }
+
+  const totals = new Map<string, number>();
+  for (const entry of matching) {
+    const key = periodKey(entry.startTime, criteria.period ?? 'all');
+    const amount = criteria.metric === 'hours' ? entry.seconds / 3600 : 1;
+    totals.set(key, (totals.get(key) ?? 0) + amount);
+  }
+  return Math.max(0, ...totals.values());
+}
+
+function periodKey(date: Date, period: CriteriaPeriod): string {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (period) {
+    case 'day':
+      return date.toISOString().slice(0, 10);
+    case 'week': {
+      // Weeks start on Monday
+      const monday = new Date(
+        Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7)),
+      );
+      return monday.toISOString().slice(0, 10);
+    }
+    case 'month':
+      return `${year}-${month + 1}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(month / 3) + 1}`;
+    case 'year':
+      return `${year}`;
+    default:
+      return 'all';
+  }
+}
+
+function longestStreak(
+  entries: ActivityEntry[],
+  skipWeekends: boolean,
+): number {
+  const isWeekend = (day: number) => {
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    return weekday === 0 || weekday === 6;
+  };
+
+  const days = [
+    ...new Set(
+      entries.map((entry) => Math.floor(entry.startTime.getTime() / DAY_MS)),
+    ),
+  ]
+    .filter((day) => !skipWeekends || !isWeekend(day))
+    .sort((a, b) => a - b);
+
+  let longest = 0;
+  let current = 0;
+  let previous: number | undefined;
+  for (const day of days) {
+    let expected = previous === undefined ? day : previous + 1;
+    while (skipWeekends && isWeekend(expected)) expected++;
+    current = day === expected ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = day;
+  }
+  return longest;
+}
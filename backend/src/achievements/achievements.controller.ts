@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { AchievementsService } from './achievements.service';
+import { CreateAchievementDto } from './dto/create-achievement.dto';
+import { UpdateAchievementDto } from './dto/update-achievement.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('achievements')
+@ApiBearerAuth()
+@Controller('achievements')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class AchievementsController {
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  @Post()
+  @RequirePermissions('achievements', 'create')
+  @ApiOperation({ summary: 'Define an achievement' })
+  @ApiResponse({ status: 201, description: 'Achievement created' })
+  @ApiResponse({ status: 400, description: 'Invalid criteria' })
+  create(@Body() createAchievementDto: CreateAchievementDto) {
+    return this.achievementsService.create(createAchievementDto);
+  }
+
+  // Open to every user so they can see what can be earned
+  @Get()
+  @ApiOperation({ summary: 'List achievements' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Achievements retrieved' })
+  findAll(@Query('includeInactive') includeInactive?: string) {
+    return this.achievementsService.findAll(includeInactive === 'true');
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get the achievements I earned' })
+  @ApiResponse({ status: 200, description: 'Earned achievements retrieved' })
+  findMine(@Request() req) {
+    return this.achievementsService.findForUser(req.user.id);
+  }
+
+  @Get('users/:userId')
+  @RequirePermissions('users', 'read')
+  @ApiOperation({ summary: 'Get the achievements a user earned' })
+  @ApiResponse({ status: 200, description: 'Earned achievements retrieved' })
+  findForUser(@Param('userId') userId: string) {
+    return this.achievementsService.findForUser(userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get achievement by ID' })
+  @ApiResponse({ status: 200, description: 'Achievement retrieved' })
+  @ApiResponse({ status: 404, description: 'Achievement not found' })
+  findOne(@Param('id') id: string) {
+    return this.achievementsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('achievements', 'update')
+  @ApiOperation({ summary: 'Update an achievement' })
+  @ApiResponse({ status: 200, description: 'Achievement updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateAchievementDto: UpdateAchievementDto,
+  ) {
+    return this.achievementsService.update(id, updateAchievementDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('achievements', 'delete')
+  @ApiOperation({ summary: 'Delete an achievement and its awards' })
+  @ApiResponse({ status: 200, description: 'Achievement deleted' })
+  remove(@Param('id') id: string) {
+    return this.achievementsService.remove(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AchievementsService } from './achievements.service';
+import { AchievementsController } from './achievements.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, NotificationsModule],
+  controllers: [AchievementsController],
+  providers: [AchievementsService],
+  exports: [AchievementsService],
+})
+export class AchievementsModule {}
@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AchievementsService } from './achievements.service';
+import {
+  ActivityEntry,
+  MetricCriteria,
+  isCriteriaMet,
+  measure,
+  parseAchievementCriteria,
+} from './achievement-criteria';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+const entry = (
+  day: string,
+  hours: number,
+  overrides: Partial<ActivityEntry> = {},
+): ActivityEntry => ({
+  startTime: new Date(`${day}T09:00:00Z`),
+  seconds: hours * 3600,
+  projectId: 'project-1',
+  isBillable: true,
+  tags: [],
+  ...overrides,
+});
+
+describe('achievement criteria', () => {
+  it('should validate criteria and reject unknown metrics', () => {
+    expect(
+      parseAchievementCriteria({
+        all: [{ metric: 'count', source: 'work_logs', threshold: 5 }],
+      }),
+    ).toEqual({
+      all: [{ metric: 'count', source: 'work_logs', threshold: 5 }],
+    });
+    expect(() =>
+      parseAchievementCriteria({
+        metric: 'kudos',
+        source: 'work_logs',
+        threshold: 1,
+      }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      parseAchievementCriteria({
+        metric: 'hours',
+        source: 'time_sessions',
+        threshold: 1,
+        filters: { isBillable: true },
+      }),
+    ).toThrow('criteria.filters isBillable and tags only apply to work_logs');
+  });
+
+  it('should sum billable hours within the best quarter', () => {
+    const criteria = parseAchievementCriteria({
+      metric: 'hours',
+      source: 'work_logs',
+      threshold: 100,
+      period: 'quarter',
+      filters: { isBillable: true },
+    });
+    const entries = [
+      entry('2030-01-10', 60),
+      entry('2030-03-20', 30),
+      entry('2030-03-21', 20, { isBillable: false }),
+      entry('2030-04-02', 50),
+    ];
+
+    expect(measure(criteria as MetricCriteria, entries)).toBe(90);
+    expect(
+      isCriteriaMet(criteria, {
+        work_logs: [...entries, entry('2030-02-01', 10)],
+        time_sessions: [],
+      }),
+    ).toBe(true);
+  });
+
+  it('should find the longest streak of consecutive days', () => {
+    const entries = [
+      entry('2030-01-03', 1), // Thursday
+      entry('2030-01-04', 1),
+      entry('2030-01-04', 2),
+      entry('2030-01-07', 1), // Monday
+      entry('2030-01-08', 1),
+    ];
+
+    expect(
+      measure({ metric: 'streak', source: 'work_logs', threshold: 1 }, entries),
+    ).toBe(2);
+    expect(
+      measure(
+        {
+          metric: 'streak',
+          source: 'work_logs',
+          threshold: 1,
+          skipWeekends: true,
+        },
+        entries,
+      ),
+    ).toBe(4);
+  });
+});
+
+describe('AchievementsService', () => {
+  let service: AchievementsService;
+
+  const mockPrismaService = {
+    achievement: { findMany: jest.fn() },
+    userAchievement: { createManyAndReturn: jest.fn() },
+    workLog: { findMany: jest.fn() },
+    timeSession: { findMany: jest.fn() },
+  };
+
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const firstLog = {
+    id: 'achievement-1',
+    name: 'First steps',
+    description: 'Log your first work',
+    criteria: { metric: 'count', source: 'work_logs', threshold: 1 },
+  };
+  const marathon = {
+    id: 'achievement-2',
+    name: 'Marathon',
+    description: 'Track 10 hours with the timer',
+    criteria: { metric: 'hours', source: 'time_sessions', threshold: 10 },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AchievementsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<AchievementsService>(AchievementsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('evaluateUser', () => {
+    beforeEach(() => {
+      mockPrismaService.achievement.findMany.mockResolvedValue([
+        firstLog,
+        marathon,
+      ]);
+      mockPrismaService.workLog.findMany.mockResolvedValue([
+        {
+          startTime: new Date('2030-01-01T09:00:00Z'),
+          duration: 3600,
+          projectId: 'project-1',
+          isBillable: true,
+          tags: [],
+        },
+      ]);
+      mockPrismaService.timeSession.findMany.mockResolvedValue([
+        {
+          startTime: new Date('2030-01-01T09:00:00Z'),
+          endTime: new Date('2030-01-01T12:00:00Z'),
+          pausedDuration: 0,
+          projectId: 'project-1',
+        },
+      ]);
+    });
+
+    it('should award and announce achievements that are met', async () => {
+      mockPrismaService.userAchievement.createManyAndReturn.mockResolvedValue([
+        { achievementId: 'achievement-1' },
+      ]);
+
+      const awarded = await service.evaluateUser('user-1', 'work_log');
+
+      expect(awarded).toEqual([firstLog]);
+      expect(
+        mockPrismaService.userAchievement.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-1',
+            achievementId: 'achievement-1',
+            metadata: { trigger: 'work_log' },
+          },
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({
+          type: 'ACHIEVEMENT',
+          title: 'Achievement unlocked',
+        }),
+      );
+    });
+
+    it('should not announce awards another evaluation already made', async () => {
+      mockPrismaService.userAchievement.createManyAndReturn.mockResolvedValue(
+        [],
+      );
+
+      const awarded = await service.evaluateUser('user-1', 'nightly');
+
+      expect(awarded).toEqual([]);
+      expect(mockNotificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should skip achievements with invalid criteria', async () => {
+      mockPrismaService.achievement.findMany.mockResolvedValue([
+        { ...firstLog, criteria: { metric: 'unknown' } },
+      ]);
+
+      const awarded = await service.evaluateUser('user-1', 'nightly');
+
+      expect(awarded).toEqual([]);
+      expect(mockLoggerService.warn).toHaveBeenCalled();
+      expect(mockPrismaService.workLog.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Achievement, Prisma, TimeSessionStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateAchievementDto } from './dto/create-achievement.dto';
+import { UpdateAchievementDto } from './dto/update-achievement.dto';
+import {
+  ActivityData,
+  CriteriaSource,
+  getCriteriaSources,
+  isCriteriaMet,
+  parseAchievementCriteria,
+} from './achievement-criteria';
+
+export type EvaluationTrigger = 'work_log' | 'time_session' | 'nightly';
+
+const USER_BATCH_SIZE = 100;
+
+@Injectable()
+export class AchievementsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async findAll(includeInactive = false): Promise<Achievement[]> {
+    return this.prisma.achievement.findMany({
+      where: includeInactive ? undefined : { isActive: true },
+      orderBy: [{ points: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string): Promise<Achievement> {
+    const achievement = await this.prisma.achievement.findUnique({
+      where: { id },
+    });
+    if (!achievement) {
+      throw new NotFoundException(`Achievement with ID ${id} not found`);
+    }
+    return achievement;
+  }
+
+  async create(createAchievementDto: CreateAchievementDto) {
+    const criteria = parseAchievementCriteria(createAchievementDto.criteria);
+    return this.prisma.achievement.create({
+      data: {
+        ...createAchievementDto,
+        criteria: criteria as unknown as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  async update(id: string, updateAchievementDto: UpdateAchievementDto) {
+    await this.findOne(id);
+    const { criteria, ...data } = updateAchievementDto;
+    return this.prisma.achievement.update({
+      where: { id },
+      data: {
+        ...data,
+        // Awards already made are kept when the criteria change
+        ...(criteria && {
+          criteria: parseAchievementCriteria(
+            criteria,
+          ) as unknown as Prisma.InputJsonObject,
+        }),
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+    await this.prisma.achievement.delete({ where: { id } });
+    return { message: 'Achievement deleted successfully' };
+  }
+
+  /** Achievements earned by the user with their total points */
+  async findForUser(userId: string) {
+    const earned = await this.prisma.userAchievement.findMany({
+      where: { userId },
+      include: { achievement: true },
+      orderBy: { earnedAt: 'desc' },
+    });
+    return {
+      points: earned.reduce(
+        (total, award) => total + (award.achievement.points ?? 0),
+        0,
+      ),
+      achievements: earned,
+    };
+  }
+
+  /**
+   * Awards every active achievement whose criteria the user now meets.
+   * Achievements are only ever awarded once per user.
+   */
+  async evaluateUser(
+    userId: string,
+    trigger: EvaluationTrigger,
+  ): Promise<Achievement[]> {
+    const pending = await this.prisma.achievement.findMany({
+      where: { isActive: true, userAchievements: { none: { userId } } },
+    });
+    const candidates = pending.flatMap((achievement) => {
+      try {
+        return [
+          {
+            achievement,
+            criteria: parseAchievementCriteria(achievement.criteria),
+          },
+        ];
+      } catch (error) {
+        this.logger.warn(
+          `Skipping achievement ${achievement.id} with invalid criteria: ${(error as Error).message}`,
+        );
+        return [];
+      }
+    });
+    if (candidates.length === 0) return [];
+
+    const data = await this.loadActivity(
+      userId,
+      new Set(
+        candidates.flatMap(({ criteria }) => [...getCriteriaSources(criteria)]),
+      ),
+    );
+    const met = candidates
+      .filter(({ criteria }) => isCriteriaMet(criteria, data))
+      .map(({ achievement }) => achievement);
+    if (met.length === 0) return [];
+
+    // Concurrent evaluations may race, the unique key keeps awards single
+    const awarded = await this.prisma.userAchievement.createManyAndReturn({
+      data: met.map((achievement) => ({
+        userId,
+        achievementId: achievement.id,
+        metadata: { trigger },
+      })),
+      skipDuplicates: true,
+    });
+    const awardedIds = new Set(awarded.map((award) => award.achievementId));
+    const newlyAwarded = met.filter((achievement) =>
+      awardedIds.has(achievement.id),
+    );
+
+    for (const achievement of newlyAwarded) {
+      await this.notificationsService.notify(userId, {
+        type: 'ACHIEVEMENT',
+        title: 'Achievement unlocked',
+        message: `You earned "${achievement.name}": ${achievement.description}`,
+        data: { achievementId: achievement.id, link: '/dashboard' },
+      });
+    }
+    return newlyAwarded;
+  }
+
+  /**
+   * Evaluates the user without holding up the write that triggered it.
+   * Failures are logged so that logging work never fails on achievements.
+   */
+  scheduleEvaluation(userId: string, trigger: EvaluationTrigger): void {
+    this.evaluateUser(userId, trigger).catch((error: Error) =>
+      this.logger.error(
+        `Failed to evaluate achievements for user ${userId}`,
+        error.stack,
+      ),
+    );
+  }
+
+  /** Catches up on awards for all active users, e.g. after criteria change */
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async evaluateAllUsers(): Promise<number> {
+    let awarded = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await this.prisma.user.findMany({
+        where: { isActive: true },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: USER_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      for (const user of users) {
+        try {
+          awarded += (await this.evaluateUser(user.id, 'nightly')).length;
+        } catch (error) {
+          this.logger.error(
+            `Failed to evaluate achievements for user ${user.id}`,
+            (error as Error).stack,
+          );
+        }
+      }
+      if (users.length < USER_BATCH_SIZE) break;
+      cursor = users[users.length - 1].id;
+    }
+
+    this.logger.log(`Nightly achievement evaluation awarded ${awarded}`);
+    return awarded;
+  }
+
+  private async loadActivity(
+    userId: string,
+    sources: Set<CriteriaSource>,
+  ): Promise<ActivityData> {
+    const data: ActivityData = { work_logs: [], time_sessions: [] };
+
+    if (sources.has('work_logs')) {
+      const workLogs = await this.prisma.workLog.findMany({
+        where: { userId },
+        select: {
+          startTime: true,
+          duration: true,
+          projectId: true,
+          isBillable: true,
+          tags: true,
+        },
+      });
+      data.work_logs = workLogs.map((log) => ({
+        startTime: log.startTime,
+        seconds: log.duration,
+        projectId: log.projectId,
+        isBillable: log.isBillable ?? true,
+        tags: log.tags,
+      }));
+    }
+
+    if (sources.has('time_sessions')) {
+      const sessions = await this.prisma.timeSession.findMany({
+        where: {
+          userId,
+          status: TimeSessionStatus.COMPLETED,
+          endTime: { not: null },
+        },
+        select: {
+          startTime: true,
+          endTime: true,
+          pausedDuration: true,
+          projectId: true,
+        },
+      });
+      data.time_sessions = sessions.map((session) => ({
+        startTime: session.startTime,
+        // pausedDuration is stored in milliseconds
+        seconds: Math.max(
+          0,
+          Math.floor(
+            (session.endTime!.getTime() -
+              session.startTime.getTime() -
+              (session.pausedDuration ?? 0)) /
+              1000,
+          ),
+        ),
+        projectId: session.projectId,
+      }));
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsBoolean,
+  IsInt,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateAchievementDto {
+  @ApiProperty({ example: 'Centurion' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Log 100 billable hours in a quarter' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Icon name or emoji', example: '🏆' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  icon?: string;
+
+  @ApiProperty({
+    description:
+      'Metric criteria, or `all` / `any` lists of criteria, evaluated against work logs and time sessions',
+    example: {
+      metric: 'hours',
+      source: 'work_logs',
+      threshold: 100,
+      period: 'quarter',
+      filters: { isBillable: true },
+    },
+  })
+  @IsObject()
+  criteria: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: 'Points added to the profile',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  points?: number;
+
+  @ApiPropertyOptional({ description: 'Whether the achievement can be earned' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -201,6 +201,7 @@ describe('AnalyticsService', () => {
             { duration: 3600, isBillable: true },
             { duration: 1800, isBillable: false },
           ],
+          milestones: [],
         },
       ];
       const mockProjectProgress = [
@@ -250,6 +251,108 @@ describe('AnalyticsService', () => {
         billableHours: 1,
         efficiency: 67,
       });
+      expect(result.milestoneBurnUp).toEqual([]);
+    });
+
+    it('should compare logged hours with planned milestone hours', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-02-15T00:00:00Z'));
+      mockPrismaService.projectMember.findMany.mockResolvedValue([
+        { projectId: 'project-123' },
+      ]);
+      mockPrismaService.project.findMany.mockResolvedValue([
+        {
+          id: 'project-123',
+          name: 'Test Project',
+          code: 'TEST',
+          status: 'ACTIVE',
+          _count: { members: 3, workLogs: 3 },
+          workLogs: [
+            {
+              duration: 36000,
+              isBillable: true,
+              startTime: new Date('2024-01-10T09:00:00Z'),
+              milestoneId: 'milestone-1',
+            },
+            {
+              duration: 18000,
+              isBillable: true,
+              startTime: new Date('2024-02-05T09:00:00Z'),
+              milestoneId: 'milestone-2',
+            },
+            {
+              duration: 7200,
+              isBillable: false,
+              startTime: new Date('2024-02-12T09:00:00Z'),
+              milestoneId: null,
+            },
+          ],
+          milestones: [
+            {
+              id: 'milestone-1',
+              name: 'Design',
+              dueDate: new Date('2024-01-31T00:00:00Z'),
+              status: 'COMPLETED',
+              completedAt: new Date('2024-01-30T00:00:00Z'),
+              plannedHours: 8,
+            },
+            {
+              id: 'milestone-2',
+              name: 'Build',
+              dueDate: new Date('2024-02-10T00:00:00Z'),
+              status: 'IN_PROGRESS',
+              completedAt: null,
+              plannedHours: 20,
+            },
+            {
+              id: 'milestone-3',
+              name: 'Launch',
+              dueDate: new Date('2024-03-01T00:00:00Z'),
+              status: 'PENDING',
+              completedAt: null,
+              plannedHours: null,
+            },
+          ],
+        },
+      ]);
+      mockPrismaService.workLog.groupBy.mockResolvedValue([]);
+
+      const result = await service.getProjectAnalytics(userId, {});
+      jest.useRealTimers();
+
+      expect(result.milestoneBurnUp).toEqual([
+        expect.objectContaining({
+          projectId: 'project-123',
+          plannedHours: 28,
+          loggedHours: 17,
+          completedMilestones: 1,
+          totalMilestones: 3,
+        }),
+      ]);
+      expect(result.milestoneBurnUp[0].points).toEqual([
+        expect.objectContaining({
+          milestoneId: 'milestone-1',
+          plannedHours: 8,
+          loggedHours: 10,
+          variance: 2,
+          milestoneHours: 10,
+          isOverdue: false,
+        }),
+        expect.objectContaining({
+          milestoneId: 'milestone-2',
+          plannedHours: 28,
+          loggedHours: 15,
+          variance: -13,
+          milestoneHours: 5,
+          isOverdue: true,
+        }),
+        expect.objectContaining({
+          milestoneId: 'milestone-3',
+          plannedHours: 28,
+          loggedHours: 17,
+          milestoneHours: 0,
+          isOverdue: false,
+        }),
+      ]);
     });
   });
 
@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
+import { Milestone, Project, WorkLog } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { isMilestoneOverdue } from '../projects/milestones.service';
 
 @Injectable()
 export class AnalyticsService {
@@ -284,8 +286,13 @@ export class AnalyticsService {
             select: {
               duration: true,
               isBillable: true,
+              startTime: true,
+              milestoneId: true,
             },
           },
+          milestones: {
+            orderBy: { dueDate: 'asc' },
+          },
         },
       }),
 
@@ -339,6 +346,9 @@ export class AnalyticsService {
               : 0,
         };
       }),
+      milestoneBurnUp: projectStats
+        .filter((project) => project.milestones.length > 0)
+        .map((project) => this.buildMilestoneBurnUp(project)),
       projectProgress: await Promise.all(
         projectProgress.map(async (item) => {
           const project = await this.prisma.project.findUnique({
@@ -381,6 +391,64 @@ export class AnalyticsService {
     };
   }
 
+  /**
+   * Compares cumulative logged hours with the planned hours of each milestone
+   * at its due date. Milestones still ahead are measured against hours logged
+   * so far.
+   */
+  private buildMilestoneBurnUp(
+    project: Pick<Project, 'id' | 'name' | 'code'> & {
+      milestones: Milestone[];
+      workLogs: Pick<WorkLog, 'duration' | 'startTime' | 'milestoneId'>[];
+    },
+    now: Date = new Date(),
+  ) {
+    const toHours = (seconds: number) =>
+      Math.round((seconds / 3600) * 100) / 100;
+    let plannedTotal = 0;
+
+    const points = project.milestones.map((milestone) => {
+      plannedTotal += Number(milestone.plannedHours ?? 0);
+      const cutoff = milestone.dueDate < now ? milestone.dueDate : now;
+      const loggedSeconds = project.workLogs
+        .filter((log) => log.startTime <= cutoff)
+        .reduce((sum, log) => sum + (log.duration || 0), 0);
+      const milestoneSeconds = project.workLogs
+        .filter((log) => log.milestoneId === milestone.id)
+        .reduce((sum, log) => sum + (log.duration || 0), 0);
+      const plannedHours = Math.round(plannedTotal * 100) / 100;
+      const loggedHours = toHours(loggedSeconds);
+
+      return {
+        milestoneId: milestone.id,
+        name: milestone.name,
+        dueDate: milestone.dueDate,
+        status: milestone.status,
+        completedAt: milestone.completedAt,
+        isOverdue: isMilestoneOverdue(milestone, now),
+        plannedHours,
+        loggedHours,
+        variance: Math.round((loggedHours - plannedHours) * 100) / 100,
+        milestoneHours: toHours(milestoneSeconds),
+      };
+    });
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      projectCode: project.code,
+      plannedHours: Math.round(plannedTotal * 100) / 100,
+      loggedHours: toHours(
+        project.workLogs.reduce((sum, log) => sum + (log.duration || 0), 0),
+      ),
+      completedMilestones: project.milestones.filter(
+        (milestone) => milestone.status === 'COMPLETED',
+      ).length,
+      totalMilestones: project.milestones.length,
+      points,
+    };
+  }
+
   async getTeamAnalytics(userId: string, query: any = {}) {
     const { startDate, endDate, teamId } = query;
 
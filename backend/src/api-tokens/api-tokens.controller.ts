@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiTokensService } from './api-tokens.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { InteractiveSessionGuard } from './guards/interactive-session.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('API Tokens')
+@ApiBearerAuth()
+@Controller('api-tokens')
+@UseGuards(JwtAuthGuard, InteractiveSessionGuard)
+export class ApiTokensController {
+  constructor(private readonly apiTokensService: ApiTokensService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get your personal access tokens' })
+  @ApiResponse({ status: 200, description: 'Personal access tokens' })
+  findAll(@Request() req) {
+    return this.apiTokensService.findAll(req.user.id);
+  }
+
+  @Get('scopes')
+  @ApiOperation({ summary: 'Get the scopes you can grant to a token' })
+  @ApiResponse({ status: 200, description: 'Scopes as resource.action' })
+  getScopes(@Request() req) {
+    return this.apiTokensService.getGrantableScopes(req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a personal access token',
+    description: 'The token is only returned in this response',
+  })
+  @ApiResponse({ status: 201, description: 'Personal access token created' })
+  @ApiResponse({ status: 400, description: 'Scope you do not have' })
+  create(@Body() createApiTokenDto: CreateApiTokenDto, @Request() req) {
+    return this.apiTokensService.create(req.user.id, createApiTokenDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  @ApiResponse({ status: 200, description: 'Personal access token revoked' })
+  @ApiResponse({ status: 404, description: 'Personal access token not found' })
+  revoke(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.apiTokensService.revoke(req.user.id, id);
+  }
+}
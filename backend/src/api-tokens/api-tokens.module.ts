@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { ApiTokensController } from './api-tokens.controller';
+import { ApiTokensService } from './api-tokens.service';
+import { ServiceAccountsController } from './service-accounts.controller';
+import { ServiceAccountsService } from './service-accounts.service';
+import { ApiTokenStrategy } from './strategies/api-token.strategy';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PassportModule, PrismaModule],
+  controllers: [ApiTokensController, ServiceAccountsController],
+  providers: [ApiTokensService, ServiceAccountsService, ApiTokenStrategy],
+  exports: [ApiTokensService],
+})
+export class ApiTokensModule {}
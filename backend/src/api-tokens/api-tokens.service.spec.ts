@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiTokensService } from './api-tokens.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionService } from '../common/services/permission.service';
+
+describe('ApiTokensService', () => {
+  let service: ApiTokensService;
+
+  const mockPrismaService = {
+    apiToken: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const mockPermissionService = { getUserPermissions: jest.fn() };
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  const storedToken = (overrides = {}) => ({
+    id: 'token-1',
+    userId: 'user-1',
+    serviceAccountId: null,
+    scopes: ['work_logs.create'],
+    expiresAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    serviceAccount: null,
+    user: {
+      id: 'user-1',
+      email: 'jane@acme.com',
+      organizationId: 'org-1',
+      isActive: true,
+      userRoles: [{ role: { name: 'EMPLOYEE' } }],
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiTokensService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PermissionService, useValue: mockPermissionService },
+      ],
+    }).compile();
+
+    service = module.get<ApiTokensService>(ApiTokensService);
+
+    mockPermissionService.getUserPermissions.mockResolvedValue([
+      'work_logs.create',
+      'projects.read',
+    ]);
+    mockPrismaService.apiToken.create.mockImplementation(async ({ data }) => ({
+      id: 'token-1',
+      name: data.name,
+      prefix: data.prefix,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should return the token once and only store its hash', async () => {
+      const result = await service.create('user-1', {
+        name: 'CI',
+        scopes: ['work_logs.create', 'work_logs.create'],
+        expiresAt: '2999-01-01T00:00:00Z',
+      });
+
+      expect(result.token).toMatch(/^alz_pat_[\w-]{43}$/);
+      expect(result.prefix).toBe(result.token.slice(0, 14));
+      const { data } = mockPrismaService.apiToken.create.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          userId: 'user-1',
+          scopes: ['work_logs.create'],
+          tokenHash: sha256(result.token),
+          expiresAt: new Date('2999-01-01T00:00:00Z'),
+          createdBy: 'user-1',
+        }),
+      );
+      expect(JSON.stringify(data)).not.toContain(result.token);
+    });
+
+    it('should not grant scopes the user does not have', async () => {
+      await expect(
+        service.create('user-1', {
+          name: 'CI',
+          scopes: ['work_logs.create', 'users.delete'],
+        }),
+      ).rejects.toThrow(
+        'You can only grant scopes you have yourself: users.delete',
+      );
+      await expect(
+        service.create('user-1', {
+          name: 'CI',
+          scopes: ['projects.read'],
+          expiresAt: '2020-01-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.apiToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a token to the user it acts for', async () => {
+      mockPrismaService.apiToken.findUnique.mockResolvedValue(storedToken());
+
+      await expect(
+        service.authenticate('alz_pat_secret', '10.0.0.1'),
+      ).resolves.toEqual({
+        id: 'user-1',
+        email: 'jane@acme.com',
+        role: 'EMPLOYEE',
+        organizationId: 'org-1',
+        isActive: true,
+        apiTokenId: 'token-1',
+        serviceAccountId: null,
+        scopes: ['work_logs.create'],
+      });
+      expect(mockPrismaService.apiToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tokenHash: sha256('alz_pat_secret') },
+        }),
+      );
+      expect(mockPrismaService.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' },
+      });
+    });
+
+    it('should record the last use at most once a minute', async () => {
+      mockPrismaService.apiToken.findUnique.mockResolvedValue(
+        storedToken({ lastUsedAt: new Date(Date.now() - 5_000) }),
+      );
+
+      await service.authenticate('alz_pat_secret');
+
+      expect(mockPrismaService.apiToken.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired, revoked and unknown tokens', async () => {
+      for (const token of [
+        null,
+        storedToken({ revokedAt: new Date() }),
+        storedToken({ expiresAt: new Date(Date.now() - 1000) }),
+        storedToken({
+          serviceAccountId: 'sa-1',
+          serviceAccount: { isActive: false },
+        }),
+      ]) {
+        mockPrismaService.apiToken.findUnique.mockResolvedValue(token);
+        await expect(service.authenticate('alz_pat_secret')).resolves.toBe(
+          null,
+        );
+      }
+      expect(mockPrismaService.apiToken.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should only revoke personal tokens of the user', async () => {
+      mockPrismaService.apiToken.findFirst.mockResolvedValue(null);
+
+      await expect(service.revoke('user-2', 'token-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.apiToken.findFirst).toHaveBeenCalledWith({
+        where: { id: 'token-1', userId: 'user-2', serviceAccountId: null },
+        select: { id: true },
+      });
+      expect(mockPrismaService.apiToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
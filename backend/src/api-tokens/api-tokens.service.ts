@@ -0,0 +1,200 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionService } from '../common/services/permission.service';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+
+/** Every API token starts with this, telling it apart from JWTs */
+export const API_TOKEN_PREFIX = 'alz_';
+
+const TOKEN_TYPE_PREFIXES = {
+  personal: `${API_TOKEN_PREFIX}pat_`,
+  serviceAccount: `${API_TOKEN_PREFIX}sa_`,
+};
+
+// Random characters kept with the type prefix to recognize a token by
+const VISIBLE_SECRET_LENGTH = 6;
+
+// Last use is recorded at most once a minute per token
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export const API_TOKEN_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+/** Who a request authenticated with an API token acts as */
+export interface ApiTokenPrincipal {
+  id: string;
+  email: string;
+  role: string;
+  organizationId: string | null;
+  isActive: boolean | null;
+  apiTokenId: string;
+  serviceAccountId: string | null;
+  scopes: string[];
+}
+
+interface IssueApiTokenData {
+  userId: string;
+  serviceAccountId?: string;
+  name: string;
+  scopes: string[];
+  expiresAt?: string;
+  createdBy: string;
+}
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * Personal access tokens and the tokens of service accounts. Only a hash of
+ * each token is stored; the token itself is shown once, when it is created.
+ */
+@Injectable()
+export class ApiTokensService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  async findAll(userId: string) {
+    return this.prisma.apiToken.findMany({
+      where: { userId, serviceAccountId: null },
+      select: API_TOKEN_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async create(userId: string, createApiTokenDto: CreateApiTokenDto) {
+    await this.validateScopes(userId, createApiTokenDto.scopes);
+    return this.issue({ ...createApiTokenDto, userId, createdBy: userId });
+  }
+
+  async revoke(userId: string, id: string) {
+    const apiToken = await this.prisma.apiToken.findFirst({
+      where: { id, userId, serviceAccountId: null },
+      select: { id: true },
+    });
+    if (!apiToken) {
+      throw new NotFoundException(`API token with ID ${id} not found`);
+    }
+    await this.prisma.apiToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return { message: 'API token revoked successfully' };
+  }
+
+  /** Scopes a user can put on the tokens they create */
+  async getGrantableScopes(userId: string): Promise<string[]> {
+    const permissions = await this.permissionService.getUserPermissions(userId);
+    return permissions.sort();
+  }
+
+  /** Nobody can grant a scope they do not hold themselves */
+  async validateScopes(grantorId: string, scopes: string[]) {
+    const grantable = new Set(await this.getGrantableScopes(grantorId));
+    const missing = scopes.filter((scope) => !grantable.has(scope));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `You can only grant scopes you have yourself: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /** Creates a token; the only response that ever contains it */
+  async issue(data: IssueApiTokenData) {
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const typePrefix = data.serviceAccountId
+      ? TOKEN_TYPE_PREFIXES.serviceAccount
+      : TOKEN_TYPE_PREFIXES.personal;
+    const token = typePrefix + randomBytes(32).toString('base64url');
+
+    const apiToken = await this.prisma.apiToken.create({
+      data: {
+        userId: data.userId,
+        serviceAccountId: data.serviceAccountId,
+        name: data.name,
+        scopes: [...new Set(data.scopes)],
+        expiresAt,
+        createdBy: data.createdBy,
+        prefix: token.slice(0, typePrefix.length + VISIBLE_SECRET_LENGTH),
+        tokenHash: hashToken(token),
+      },
+      select: API_TOKEN_SELECT,
+    });
+    return { ...apiToken, token };
+  }
+
+  /**
+   * The principal of a valid token, or null when it is unknown, expired,
+   * revoked or belongs to a deactivated service account.
+   */
+  async authenticate(
+    token: string,
+    ipAddress?: string,
+  ): Promise<ApiTokenPrincipal | null> {
+    const apiToken = await this.prisma.apiToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: {
+        user: {
+          include: {
+            userRoles: { where: { isActive: true }, include: { role: true } },
+          },
+        },
+        serviceAccount: { select: { isActive: true } },
+      },
+    });
+
+    const now = new Date();
+    if (
+      !apiToken ||
+      apiToken.revokedAt ||
+      (apiToken.expiresAt && apiToken.expiresAt <= now) ||
+      apiToken.serviceAccount?.isActive === false
+    ) {
+      return null;
+    }
+
+    if (
+      !apiToken.lastUsedAt ||
+      now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await this.prisma.apiToken.update({
+        where: { id: apiToken.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress },
+      });
+    }
+
+    const { user } = apiToken;
+    return {
+      id: user.id,
+      email: user.email,
+      role: apiToken.serviceAccountId
+        ? 'SERVICE_ACCOUNT'
+        : user.userRoles[0]?.role.name || 'USER',
+      organizationId: user.organizationId,
+      isActive: user.isActive,
+      apiTokenId: apiToken.id,
+      serviceAccountId: apiToken.serviceAccountId,
+      scopes: apiToken.scopes,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const SCOPE_PATTERN = /^[a-z_]+\.[a-z_]+$/;
+
+export class CreateApiTokenDto {
+  @ApiProperty({ description: 'What the token is used for', example: 'CI' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions the token may use, as resource.action',
+    example: ['work_logs.create', 'projects.read'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @Matches(SCOPE_PATTERN, {
+    each: true,
+    message: 'each scope must be formatted as resource.action',
+  })
+  scopes: string[];
+
+  @ApiPropertyOptional({
+    description: 'When the token stops working; it never expires without one',
+    example: '2026-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,20 @@
+import { ArrayNotEmpty, IsArray, IsOptional, Matches } from 'class-validator';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateApiTokenDto, SCOPE_PATTERN } from './create-api-token.dto';
+
+export class CreateServiceAccountTokenDto extends OmitType(CreateApiTokenDto, [
+  'scopes',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'Defaults to all scopes of the service account',
+    example: ['work_logs.create'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @Matches(SCOPE_PATTERN, {
+    each: true,
+    message: 'each scope must be formatted as resource.action',
+  })
+  scopes?: string[];
+}
@@ -0,0 +1,35 @@
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SCOPE_PATTERN } from './create-api-token.dto';
+
+export class CreateServiceAccountDto {
+  @ApiProperty({ example: 'Deploy pipeline' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'Everything the service account may do, as resource.action; its tokens get a subset',
+    example: ['work_logs.create', 'projects.read'],
+  })
+  @IsArray()
+  @Matches(SCOPE_PATTERN, {
+    each: true,
+    message: 'each scope must be formatted as resource.action',
+  })
+  scopes: string[];
+}
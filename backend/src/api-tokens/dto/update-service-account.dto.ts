@@ -0,0 +1,14 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { CreateServiceAccountDto } from './create-service-account.dto';
+
+export class UpdateServiceAccountDto extends PartialType(
+  CreateServiceAccountDto,
+) {
+  @ApiPropertyOptional({
+    description: 'Deactivated service accounts cannot use their tokens',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,23 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+
+/**
+ * Keeps API tokens away from endpoints that manage credentials, so a leaked
+ * token cannot be used to mint more of them.
+ */
+@Injectable()
+export class InteractiveSessionGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+    if (user?.apiTokenId) {
+      throw new ForbiddenException(
+        'Sign in to manage API tokens; they cannot be managed with an API token',
+      );
+    }
+    return true;
+  }
+}
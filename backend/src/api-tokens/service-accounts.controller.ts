@@ -0,0 +1,138 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ServiceAccountsService } from './service-accounts.service';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { CreateServiceAccountTokenDto } from './dto/create-service-account-token.dto';
+import { InteractiveSessionGuard } from './guards/interactive-session.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('Service Accounts')
+@ApiBearerAuth()
+@Controller('service-accounts')
+@UseGuards(JwtAuthGuard, InteractiveSessionGuard, PermissionGuard)
+export class ServiceAccountsController {
+  constructor(
+    private readonly serviceAccountsService: ServiceAccountsService,
+  ) {}
+
+  @Post()
+  @RequirePermissions('service_accounts', 'create')
+  @ApiOperation({ summary: 'Create a service account' })
+  @ApiResponse({ status: 201, description: 'Service account created' })
+  @ApiResponse({ status: 400, description: 'Scope you do not have' })
+  create(
+    @Body() createServiceAccountDto: CreateServiceAccountDto,
+    @Request() req,
+  ) {
+    return this.serviceAccountsService.create(
+      createServiceAccountDto,
+      req.user.organizationId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermissions('service_accounts', 'read')
+  @ApiOperation({ summary: "Get the organization's service accounts" })
+  @ApiResponse({ status: 200, description: 'Service accounts with tokens' })
+  findAll(@Request() req) {
+    return this.serviceAccountsService.findAll(req.user.organizationId);
+  }
+
+  @Get(':id')
+  @RequirePermissions('service_accounts', 'read')
+  @ApiOperation({ summary: 'Get service account by ID' })
+  @ApiResponse({ status: 200, description: 'Service account retrieved' })
+  @ApiResponse({ status: 404, description: 'Service account not found' })
+  findOne(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.serviceAccountsService.findOne(id, req.user.organizationId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('service_accounts', 'update')
+  @ApiOperation({ summary: 'Update a service account' })
+  @ApiResponse({ status: 200, description: 'Service account updated' })
+  @ApiResponse({ status: 404, description: 'Service account not found' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateServiceAccountDto: UpdateServiceAccountDto,
+    @Request() req,
+  ) {
+    return this.serviceAccountsService.update(
+      id,
+      updateServiceAccountDto,
+      req.user.organizationId,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions('service_accounts', 'delete')
+  @ApiOperation({
+    summary: 'Deactivate a service account and revoke its tokens',
+  })
+  @ApiResponse({ status: 200, description: 'Service account deactivated' })
+  @ApiResponse({ status: 404, description: 'Service account not found' })
+  remove(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.serviceAccountsService.remove(id, req.user.organizationId);
+  }
+
+  @Post(':id/tokens')
+  @RequirePermissions('service_accounts', 'update')
+  @ApiOperation({
+    summary: 'Create a token for a service account',
+    description: 'The token is only returned in this response',
+  })
+  @ApiResponse({ status: 201, description: 'Token created' })
+  @ApiResponse({ status: 400, description: 'Scope the account does not have' })
+  createToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createTokenDto: CreateServiceAccountTokenDto,
+    @Request() req,
+  ) {
+    return this.serviceAccountsService.createToken(
+      id,
+      createTokenDto,
+      req.user.organizationId,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id/tokens/:tokenId')
+  @RequirePermissions('service_accounts', 'update')
+  @ApiOperation({ summary: 'Revoke a token of a service account' })
+  @ApiResponse({ status: 200, description: 'Token revoked' })
+  @ApiResponse({ status: 404, description: 'Token not found' })
+  revokeToken(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('tokenId', ParseUUIDPipe) tokenId: string,
+    @Request() req,
+  ) {
+    return this.serviceAccountsService.revokeToken(
+      id,
+      tokenId,
+      req.user.organizationId,
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ServiceAccountsService } from './service-accounts.service';
+import { ApiTokensService } from './api-tokens.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+
+describe('ServiceAccountsService', () => {
+  let service: ServiceAccountsService;
+
+  const mockPrismaService = {
+    serviceAccount: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    user: { update: jest.fn() },
+    apiToken: { updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const mockApiTokensService = {
+    validateScopes: jest.fn(),
+    issue: jest.fn(),
+  };
+  const mockPermissionSnapshotService = { invalidate: jest.fn() };
+
+  const serviceAccount = {
+    id: 'sa-1',
+    organizationId: 'org-1',
+    userId: 'sa-user-1',
+    name: 'Deploy pipeline',
+    scopes: ['work_logs.create', 'projects.read'],
+    isActive: true,
+    tokens: [],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ServiceAccountsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ApiTokensService, useValue: mockApiTokensService },
+        {
+          provide: PermissionSnapshotService,
+          useValue: mockPermissionSnapshotService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ServiceAccountsService>(ServiceAccountsService);
+
+    mockPrismaService.serviceAccount.findFirst.mockResolvedValue(
+      serviceAccount,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create the account with a user of its own', async () => {
+    await service.create(
+      { name: 'Deploy pipeline', scopes: ['work_logs.create'] },
+      'org-1',
+      'admin-1',
+    );
+
+    expect(mockApiTokensService.validateScopes).toHaveBeenCalledWith(
+      'admin-1',
+      ['work_logs.create'],
+    );
+    const { data } = mockPrismaService.serviceAccount.create.mock.calls[0][0];
+    expect(data).toEqual(
+      expect.objectContaining({
+        scopes: ['work_logs.create'],
+        createdBy: 'admin-1',
+        organization: { connect: { id: 'org-1' } },
+      }),
+    );
+    expect(data.user.create).toEqual(
+      expect.objectContaining({
+        email: expect.stringMatching(/@service-accounts\.invalid$/),
+        organizationId: 'org-1',
+      }),
+    );
+  });
+
+  it('should only find accounts of the requester organization', async () => {
+    mockPrismaService.serviceAccount.findFirst.mockResolvedValue(null);
+
+    await expect(service.findOne('sa-1', 'org-2')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(mockPrismaService.serviceAccount.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'sa-1', organizationId: 'org-2' },
+      }),
+    );
+  });
+
+  describe('createToken', () => {
+    it('should issue tokens as the account user with its scopes', async () => {
+      await service.createToken(
+        'sa-1',
+        { name: 'GitHub Actions' },
+        'org-1',
+        'admin-1',
+      );
+
+      expect(mockApiTokensService.issue).toHaveBeenCalledWith({
+        name: 'GitHub Actions',
+        scopes: ['work_logs.create', 'projects.read'],
+        userId: 'sa-user-1',
+        serviceAccountId: 'sa-1',
+        createdBy: 'admin-1',
+      });
+    });
+
+    it('should keep token scopes within the account scopes', async () => {
+      await expect(
+        service.createToken(
+          'sa-1',
+          { name: 'GitHub Actions', scopes: ['users.delete'] },
+          'org-1',
+          'admin-1',
+        ),
+      ).rejects.toThrow(
+        'The service account does not have these scopes: users.delete',
+      );
+
+      mockPrismaService.serviceAccount.findFirst.mockResolvedValue({
+        ...serviceAccount,
+        isActive: false,
+      });
+      await expect(
+        service.createToken(
+          'sa-1',
+          { name: 'GitHub Actions' },
+          'org-1',
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockApiTokensService.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should deactivate the account and revoke its tokens', async () => {
+    await service.remove('sa-1', 'org-1');
+
+    expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+      where: { id: 'sa-user-1' },
+      data: { isActive: false },
+    });
+    expect(mockPrismaService.apiToken.updateMany).toHaveBeenCalledWith({
+      where: { serviceAccountId: 'sa-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    expect(mockPermissionSnapshotService.invalidate).toHaveBeenCalledWith(
+      'sa-user-1',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+import { API_TOKEN_SELECT, ApiTokensService } from './api-tokens.service';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { CreateServiceAccountTokenDto } from './dto/create-service-account-token.dto';
+
+// Service account users can never receive mail or sign in interactively
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.invalid';
+
+const SERVICE_ACCOUNT_INCLUDE = {
+  tokens: {
+    where: { revokedAt: null },
+    select: API_TOKEN_SELECT,
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.ServiceAccountInclude;
+
+/**
+ * Organization-level identities for automation. Each service account acts
+ * through a user of its own, so records it creates have an author, but that
+ * user has no roles: it can do exactly what the account's scopes allow.
+ */
+@Injectable()
+export class ServiceAccountsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly apiTokensService: ApiTokensService,
+    private readonly permissionSnapshotService: PermissionSnapshotService,
+  ) {}
+
+  async create(
+    createServiceAccountDto: CreateServiceAccountDto,
+    organizationId: string,
+    createdBy: string,
+  ) {
+    const { name, description, scopes } = createServiceAccountDto;
+    await this.apiTokensService.validateScopes(createdBy, scopes);
+
+    return this.prisma.serviceAccount.create({
+      data: {
+        name,
+        description,
+        scopes: [...new Set(scopes)],
+        createdBy,
+        organization: { connect: { id: organizationId } },
+        user: {
+          create: {
+            email: `${randomUUID()}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`,
+            firstName: name,
+            lastName: 'Service Account',
+            displayName: name,
+            organizationId,
+          },
+        },
+      },
+      include: SERVICE_ACCOUNT_INCLUDE,
+    });
+  }
+
+  async findAll(organizationId: string) {
+    return this.prisma.serviceAccount.findMany({
+      where: { organizationId },
+      include: SERVICE_ACCOUNT_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string, organizationId: string) {
+    const serviceAccount = await this.prisma.serviceAccount.findFirst({
+      where: { id, organizationId },
+      include: SERVICE_ACCOUNT_INCLUDE,
+    });
+    if (!serviceAccount) {
+      throw new NotFoundException(`Service account with ID ${id} not found`);
+    }
+    return serviceAccount;
+  }
+
+  async update(
+    id: string,
+    updateServiceAccountDto: UpdateServiceAccountDto,
+    organizationId: string,
+    updatedBy: string,
+  ) {
+    const existing = await this.findOne(id, organizationId);
+    const { name, description, scopes, isActive } = updateServiceAccountDto;
+    if (scopes) {
+      await this.apiTokensService.validateScopes(updatedBy, scopes);
+    }
+
+    // Tokens keep their scopes, but can no longer use the removed ones
+    const serviceAccount = await this.prisma.serviceAccount.update({
+      where: { id },
+      data: {
+        name,
+        description,
+        scopes: scopes && [...new Set(scopes)],
+        isActive,
+        user: {
+          update: { firstName: name, displayName: name, isActive },
+        },
+      },
+      include: SERVICE_ACCOUNT_INCLUDE,
+    });
+
+    await this.permissionSnapshotService.invalidate(existing.userId);
+    return serviceAccount;
+  }
+
+  /**
+   * Deactivates the service account and revokes its tokens. Its user stays,
+   * since records it created still refer to it.
+   */
+  async remove(id: string, organizationId: string) {
+    const serviceAccount = await this.findOne(id, organizationId);
+    await this.prisma.$transaction([
+      this.prisma.serviceAccount.update({
+        where: { id },
+        data: { isActive: false },
+      }),
+      this.prisma.user.update({
+        where: { id: serviceAccount.userId },
+        data: { isActive: false },
+      }),
+      this.prisma.apiToken.updateMany({
+        where: { serviceAccountId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+    await this.permissionSnapshotService.invalidate(serviceAccount.userId);
+    return { message: 'Service account deactivated and its tokens revoked' };
+  }
+
+  async createToken(
+    id: string,
+    createTokenDto: CreateServiceAccountTokenDto,
+    organizationId: string,
+    createdBy: string,
+  ) {
+    const serviceAccount = await this.findOne(id, organizationId);
+    if (!serviceAccount.isActive) {
+      throw new BadRequestException(
+        'Activate the service account before creating tokens for it',
+      );
+    }
+
+    const scopes = createTokenDto.scopes ?? serviceAccount.scopes;
+    const missing = scopes.filter(
+      (scope) => !serviceAccount.scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `The service account does not have these scopes: ${missing.join(', ')}`,
+      );
+    }
+    if (scopes.length === 0) {
+      throw new BadRequestException('The service account has no scopes');
+    }
+
+    return this.apiTokensService.issue({
+      ...createTokenDto,
+      scopes,
+      userId: serviceAccount.userId,
+      serviceAccountId: id,
+      createdBy,
+    });
+  }
+
+  async revokeToken(id: string, tokenId: string, organizationId: string) {
+    await this.findOne(id, organizationId);
+    const { count } = await this.prisma.apiToken.updateMany({
+      where: { id: tokenId, serviceAccountId: id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`API token with ID ${tokenId} not found`);
+    }
+    return { message: 'API token revoked successfully' };
+  }
+}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiTokenStrategy } from './api-token.strategy';
+import { ApiTokensService } from '../api-tokens.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+
+describe('ApiTokenStrategy', () => {
+  let guard: JwtAuthGuard;
+
+  const mockApiTokensService = { authenticate: jest.fn() };
+  let metadata: Record<string, unknown>;
+
+  const principal = {
+    id: 'user-1',
+    email: 'jane@acme.com',
+    role: 'EMPLOYEE',
+    organizationId: 'org-1',
+    isActive: true,
+    apiTokenId: 'token-1',
+    serviceAccountId: null,
+    scopes: ['work_logs.create'],
+  };
+
+  const contextFor = (request: Record<string, unknown>) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({}),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiTokenStrategy,
+        { provide: ApiTokensService, useValue: mockApiTokensService },
+      ],
+    }).compile();
+    module.get(ApiTokenStrategy);
+
+    metadata = { permissions: { resource: 'work_logs', action: 'create' } };
+    guard = new JwtAuthGuard({
+      getAllAndOverride: (key: string) => metadata[key],
+    } as unknown as Reflector);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let JwtAuthGuard accept API tokens', async () => {
+    mockApiTokensService.authenticate.mockResolvedValue(principal);
+    const request = {
+      headers: { authorization: 'Bearer alz_pat_secret' },
+      ip: '10.0.0.1',
+    };
+
+    await expect(guard.canActivate(contextFor(request))).resolves.toBe(true);
+
+    expect(request).toEqual(expect.objectContaining({ user: principal }));
+    expect(mockApiTokensService.authenticate).toHaveBeenCalledWith(
+      'alz_pat_secret',
+      '10.0.0.1',
+    );
+  });
+
+  it('should keep API tokens off routes that require no permission', async () => {
+    mockApiTokensService.authenticate.mockResolvedValue(principal);
+    metadata = {};
+
+    await expect(
+      guard.canActivate(
+        contextFor({ headers: { authorization: 'Bearer alz_pat_secret' } }),
+      ),
+    ).rejects.toThrow(
+      new ForbiddenException('API tokens cannot be used for this endpoint'),
+    );
+  });
+
+  it('should reject invalid API tokens', async () => {
+    mockApiTokensService.authenticate.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(
+        contextFor({ headers: { authorization: 'Bearer alz_pat_revoked' } }),
+      ),
+    ).rejects.toThrow(
+      new UnauthorizedException('API token is invalid, expired or revoked'),
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport';
+import { ExtractJwt } from 'passport-jwt';
+import {
+  API_TOKEN_PREFIX,
+  ApiTokenPrincipal,
+  ApiTokensService,
+} from '../api-tokens.service';
+
+type VerifyFunction = (
+  req: Request,
+  token: string,
+  done: (error: unknown, user?: ApiTokenPrincipal | false) => void,
+) => void;
+
+const extractBearerToken = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+/** Accepts bearer tokens with the API token prefix and leaves JWTs alone */
+class BearerApiTokenStrategy extends Strategy {
+  constructor(private readonly verify: VerifyFunction) {
+    super();
+  }
+
+  authenticate(req: Request) {
+    const token = extractBearerToken(req);
+    if (!token?.startsWith(API_TOKEN_PREFIX)) {
+      return this.fail(401);
+    }
+    this.verify(req, token, (error, user) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail(401);
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiTokenStrategy extends PassportStrategy(
+  BearerApiTokenStrategy,
+  'api-token',
+) {
+  constructor(private readonly apiTokensService: ApiTokensService) {
+    super();
+  }
+
+  async validate(req: Request, token: string): Promise<ApiTokenPrincipal> {
+    const principal = await this.apiTokensService.authenticate(token, req.ip);
+    if (!principal) {
+      throw new UnauthorizedException(
+        'API token is invalid, expired or revoked',
+      );
+    }
+    return principal;
+  }
+}
@@ -22,6 +22,7 @@ import { CachingInterceptor } from './common/interceptors/caching.interceptor';
 import { IdempotencyInterceptor } from './common/interceptors/idempotency.interceptor';
 import { CacheInvalidationInterceptor } from './common/interceptors/cache-invalidation.interceptor';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AuditLogsModule } from './audit-logs/audit-logs.module';
 import { AppConfigModule } from './config/config.module';
 import { DeviceSessionsModule } from './device-sessions/device-sessions.module';
@@ -29,6 +30,22 @@ import { MetricsModule } from './metrics/metrics.module';
 // import { BullModule } from '@nestjs/bullmq';
 import { VaultModule } from './vault/vault.module';
 import { SyncModule } from './sync/sync.module';
+import { LeaveModule } from './leave/leave.module';
+import { ShiftsModule } from './shifts/shifts.module';
+import { TicketsModule } from './tickets/tickets.module';
+import { IntegrationsModule } from './integrations/integrations.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { DataExportsModule } from './data-exports/data-exports.module';
+import { DataImportsModule } from './data-imports/data-imports.module';
+import { CustomFieldsModule } from './custom-fields/custom-fields.module';
+import { KudosModule } from './kudos/kudos.module';
+import { AchievementsModule } from './achievements/achievements.module';
+import { KnowledgeBasesModule } from './knowledge-bases/knowledge-bases.module';
+import { AssistantModule } from './assistant/assistant.module';
+import { SystemSettingsModule } from './system-settings/system-settings.module';
+import { IdentityProvidersModule } from './identity-providers/identity-providers.module';
+import { ApiTokensModule } from './api-tokens/api-tokens.module';
 // import { UploadsModule } from './uploads/uploads.module';
 
 @Module({
@@ -36,6 +53,7 @@ import { SyncModule } from './sync/sync.module';
     ConfigModule.forRoot({ isGlobal: true }),
     AppConfigModule,
     ThrottlerModule.forRoot([{ ttl: 60_000, limit: 100 }]),
+    ScheduleModule.forRoot(),
     CommonModule,
     PrismaModule,
     AuthModule,
@@ -59,6 +77,22 @@ import { SyncModule } from './sync/sync.module';
     // }),
     VaultModule,
     SyncModule,
+    LeaveModule,
+    ShiftsModule,
+    TicketsModule,
+    IntegrationsModule,
+    NotificationsModule,
+    RealtimeModule,
+    DataExportsModule,
+    DataImportsModule,
+    CustomFieldsModule,
+    KudosModule,
+    AchievementsModule,
+    KnowledgeBasesModule,
+    AssistantModule,
+    SystemSettingsModule,
+    IdentityProvidersModule,
+    ApiTokensModule,
     // UploadsModule,
   ],
   controllers: [AppController],
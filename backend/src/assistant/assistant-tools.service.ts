@@ -0,0 +1,199 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionService } from '../common/services/permission.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import {
+  LlmToolCall,
+  LlmToolDefinition,
+} from './providers/llm-provider.interface';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const periodParameters = {
+  startDate: {
+    type: 'string',
+    description: 'First day to include, YYYY-MM-DD. Omit for all time.',
+  },
+  endDate: {
+    type: 'string',
+    description: 'Last day to include, YYYY-MM-DD. Omit for all time.',
+  },
+  projectCode: {
+    type: 'string',
+    description: 'Project code or name, e.g. ALZ-001. Omit for every project.',
+  },
+};
+
+interface ToolDefinition extends LlmToolDefinition {
+  permission: { resource: string; action: string };
+}
+
+/** Raised for arguments or access problems the model should be told about */
+class ToolError extends Error {}
+
+/**
+ * Tools the assistant can call. Each one runs an existing analytics query as
+ * the asking user, so answers never include data the user could not open in
+ * the app.
+ */
+@Injectable()
+export class AssistantToolsService {
+  readonly definitions: ToolDefinition[] = [
+    {
+      name: 'work_log_summary',
+      description:
+        'Total and billable hours and the number of work logs the user can see, optionally for one project and period, with per project totals.',
+      parameters: { type: 'object', properties: periodParameters },
+      permission: { resource: 'work_logs', action: 'read' },
+    },
+    {
+      name: 'time_tracking_breakdown',
+      description:
+        'Hours logged per person and per project on the projects the user belongs to, optionally for one project and period.',
+      parameters: { type: 'object', properties: periodParameters },
+      permission: { resource: 'analytics', action: 'read' },
+    },
+    {
+      name: 'project_overview',
+      description:
+        'Status, members, total and billable hours and efficiency of the projects the user belongs to.',
+      parameters: { type: 'object', properties: periodParameters },
+      permission: { resource: 'analytics', action: 'read' },
+    },
+  ];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+    private readonly dataScopeService: DataScopeService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly workLogsService: WorkLogsService,
+  ) {}
+
+  /**
+   * Runs a tool call for the user. Problems are returned as `{ error }` so
+   * the model can explain them instead of the whole request failing.
+   */
+  async execute(
+    userId: string,
+    call: LlmToolCall,
+  ): Promise<Record<string, unknown>> {
+    try {
+      const definition = this.definitions.find(
+        (tool) => tool.name === call.name,
+      );
+      if (!definition) {
+        throw new ToolError(`Unknown tool "${call.name}"`);
+      }
+
+      const { resource, action } = definition.permission;
+      const allowed = await this.permissionService.checkUserPermission(
+        userId,
+        resource,
+        action,
+      );
+      if (!allowed) {
+        throw new ToolError(
+          `You do not have the ${resource}.${action} permission needed for this`,
+        );
+      }
+
+      return await this.run(userId, call.name, call.arguments);
+    } catch (error) {
+      if (error instanceof ToolError) {
+        return { error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async run(
+    userId: string,
+    name: string,
+    args: Record<string, unknown>,
+  ) {
+    const startDate = this.parseDate(args.startDate, 'startDate');
+    const endDate = this.parseDate(args.endDate, 'endDate');
+    if (
+      args.projectCode !== undefined &&
+      typeof args.projectCode !== 'string'
+    ) {
+      throw new ToolError('projectCode must be a string');
+    }
+    const project = args.projectCode
+      ? await this.findProject(userId, args.projectCode)
+      : null;
+
+    const query = {
+      ...(startDate && { startDate: `${startDate}T00:00:00.000Z` }),
+      ...(endDate && { endDate: `${endDate}T23:59:59.999Z` }),
+      ...(project && { projectId: project.id }),
+    };
+    const context = { startDate, endDate, project };
+
+    switch (name) {
+      case 'work_log_summary':
+        return {
+          ...context,
+          ...(await this.workLogsService.getAnalytics(userId, query)),
+        };
+      case 'time_tracking_breakdown': {
+        const { projectBreakdown, userBreakdown } =
+          await this.analyticsService.getTimeTrackingAnalytics(userId, query);
+        return { ...context, projectBreakdown, userBreakdown };
+      }
+      default: {
+        const { projectStats } =
+          await this.analyticsService.getProjectAnalytics(userId, query);
+        return {
+          ...context,
+          projects: project
+            ? projectStats.filter((stat) => stat.projectId === project.id)
+            : projectStats,
+        };
+      }
+    }
+  }
+
+  private parseDate(value: unknown, name: string): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    if (
+      typeof value !== 'string' ||
+      !DATE_PATTERN.test(value) ||
+      isNaN(Date.parse(value))
+    ) {
+      throw new ToolError(`${name} must be a date formatted as YYYY-MM-DD`);
+    }
+    return value;
+  }
+
+  /** Finds a project by code or name among the projects the user can see */
+  private async findProject(userId: string, codeOrName: string) {
+    const scope = await this.dataScopeService.getAccessScopeWhereClause(
+      userId,
+      'project',
+    );
+    const project = await this.prisma.project.findFirst({
+      where: {
+        AND: [
+          scope,
+          {
+            OR: [
+              { code: { equals: codeOrName, mode: 'insensitive' } },
+              { name: { equals: codeOrName, mode: 'insensitive' } },
+            ],
+          },
+        ],
+      },
+      select: { id: true, name: true, code: true },
+    });
+    if (!project) {
+      throw new ToolError(`No project matching "${codeOrName}" was found`);
+    }
+    return project;
+  }
+}
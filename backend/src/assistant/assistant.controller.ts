@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AssistantService } from './assistant.service';
+import { CreateChatSessionDto } from './dto/create-chat-session.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Open to every user: sessions are private and each tool checks the
+// permission of the data it reads
+@ApiTags('assistant')
+@ApiBearerAuth()
+@Controller('assistant/sessions')
+@UseGuards(JwtAuthGuard)
+export class AssistantController {
+  constructor(private readonly assistantService: AssistantService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Start a conversation with the assistant' })
+  @ApiResponse({ status: 201, description: 'Chat session created' })
+  createSession(
+    @Body() createChatSessionDto: CreateChatSessionDto,
+    @Request() req,
+  ) {
+    return this.assistantService.createSession(
+      createChatSessionDto,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my conversations' })
+  @ApiResponse({ status: 200, description: 'Chat sessions retrieved' })
+  findSessions(@Request() req) {
+    return this.assistantService.findSessions(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a conversation with its messages' })
+  @ApiResponse({ status: 200, description: 'Chat session retrieved' })
+  @ApiResponse({ status: 404, description: 'Chat session not found' })
+  findSession(@Param('id') id: string, @Request() req) {
+    return this.assistantService.findSession(id, req.user.id);
+  }
+
+  @Post(':id/messages')
+  @ApiOperation({ summary: 'Ask the assistant a question' })
+  @ApiResponse({
+    status: 201,
+    description: 'Question, tool calls and answer added to the session',
+  })
+  @ApiResponse({ status: 503, description: 'LLM provider unavailable' })
+  sendMessage(
+    @Param('id') id: string,
+    @Body() sendMessageDto: SendMessageDto,
+    @Request() req,
+  ) {
+    return this.assistantService.sendMessage(id, sendMessageDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a conversation' })
+  @ApiResponse({ status: 200, description: 'Chat session deleted' })
+  removeSession(@Param('id') id: string, @Request() req) {
+    return this.assistantService.removeSession(id, req.user.id);
+  }
+}
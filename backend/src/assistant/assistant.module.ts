@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AssistantService } from './assistant.service';
+import { AssistantController } from './assistant.controller';
+import { AssistantToolsService } from './assistant-tools.service';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { StubLlmProvider } from './providers/stub-llm.provider';
+import { OpenAiLlmProvider } from './providers/openai-llm.provider';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { WorkLogsModule } from '../work-logs/work-logs.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, AnalyticsModule, WorkLogsModule],
+  controllers: [AssistantController],
+  providers: [
+    AssistantService,
+    AssistantToolsService,
+    LlmProviderRegistry,
+    StubLlmProvider,
+    OpenAiLlmProvider,
+  ],
+  exports: [AssistantService],
+})
+export class AssistantModule {}
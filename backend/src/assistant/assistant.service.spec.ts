@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { AssistantService } from './assistant.service';
+import { AssistantToolsService } from './assistant-tools.service';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import { StubLlmProvider, parsePeriod } from './providers/stub-llm.provider';
+import { OpenAiLlmProvider } from './providers/openai-llm.provider';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionService } from '../common/services/permission.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+
+describe('parsePeriod', () => {
+  const now = new Date('2030-03-13T15:00:00Z'); // Wednesday
+
+  it('should resolve relative periods to UTC dates', () => {
+    expect(parsePeriod('what did we bill last month', now)).toEqual({
+      startDate: '2030-02-01',
+      endDate: '2030-02-28',
+    });
+    expect(parsePeriod('hours last week', now)).toEqual({
+      startDate: '2030-03-04',
+      endDate: '2030-03-10',
+    });
+    expect(parsePeriod('hours in the last 7 days', now)).toEqual({
+      startDate: '2030-03-07',
+      endDate: '2030-03-13',
+    });
+    expect(parsePeriod('hours ever', now)).toBeNull();
+  });
+});
+
+describe('AssistantService', () => {
+  let service: AssistantService;
+  let stubProvider: StubLlmProvider;
+
+  const session = { id: 'session-1', userId: 'user-1', title: null };
+
+  const mockPrismaService = {
+    chatSession: { findFirst: jest.fn(), update: jest.fn() },
+    chatMessage: { create: jest.fn() },
+    project: { findFirst: jest.fn() },
+  };
+  const mockPermissionService = { checkUserPermission: jest.fn() };
+  const mockDataScopeService = {
+    getAccessScopeWhereClause: jest.fn().mockResolvedValue({}),
+  };
+  const mockWorkLogsService = { getAnalytics: jest.fn() };
+  const mockAnalyticsService = {
+    getTimeTrackingAnalytics: jest.fn(),
+    getProjectAnalytics: jest.fn(),
+  };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const ask = (content: string) =>
+    service.sendMessage('session-1', { content }, 'user-1');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AssistantService,
+        AssistantToolsService,
+        LlmProviderRegistry,
+        StubLlmProvider,
+        OpenAiLlmProvider,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PermissionService, useValue: mockPermissionService },
+        { provide: DataScopeService, useValue: mockDataScopeService },
+        { provide: WorkLogsService, useValue: mockWorkLogsService },
+        { provide: AnalyticsService, useValue: mockAnalyticsService },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<AssistantService>(AssistantService);
+    stubProvider = module.get<StubLlmProvider>(StubLlmProvider);
+
+    mockPrismaService.chatSession.findFirst.mockResolvedValue({
+      ...session,
+      messages: [],
+    });
+    mockPrismaService.chatMessage.create.mockImplementation(({ data }) =>
+      Promise.resolve(data),
+    );
+    mockPermissionService.checkUserPermission.mockResolvedValue(true);
+    mockPrismaService.project.findFirst.mockResolvedValue({
+      id: 'project-1',
+      name: 'Alignzo',
+      code: 'ALZ-001',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should answer through the work log tool and store every step', async () => {
+    mockWorkLogsService.getAnalytics.mockResolvedValue({
+      totalHours: 40,
+      totalBillableHours: 32.5,
+      totalWorkLogs: 12,
+      projectStats: [],
+    });
+
+    const messages = await ask(
+      'How many hours did my team bill to ALZ-001 last month?',
+    );
+
+    expect(mockWorkLogsService.getAnalytics).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ projectId: 'project-1' }),
+    );
+    expect(messages.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'tool',
+      'assistant',
+    ]);
+    expect(messages[1].metadata).toEqual({
+      toolCalls: [
+        expect.objectContaining({
+          name: 'work_log_summary',
+          arguments: expect.objectContaining({ projectCode: 'ALZ-001' }),
+        }),
+      ],
+    });
+    expect(messages[3].content).toContain('32.5h were billable');
+    expect(mockPrismaService.chatSession.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: expect.objectContaining({
+        title: 'How many hours did my team bill to ALZ-001 last month?',
+      }),
+    });
+  });
+
+  it('should not run tools the user lacks permission for', async () => {
+    mockPermissionService.checkUserPermission.mockResolvedValue(false);
+
+    const messages = await ask('Who worked on ALZ-001 this week?');
+
+    expect(
+      mockAnalyticsService.getTimeTrackingAnalytics,
+    ).not.toHaveBeenCalled();
+    expect(JSON.parse(messages[2].content)).toEqual({
+      error: 'You do not have the analytics.read permission needed for this',
+    });
+    expect(messages[3].content).toContain("I couldn't look that up");
+  });
+
+  it('should only look up projects in the user scope', async () => {
+    mockPrismaService.project.findFirst.mockResolvedValue(null);
+
+    const messages = await ask('How many hours were logged on SEC-9?');
+
+    expect(mockWorkLogsService.getAnalytics).not.toHaveBeenCalled();
+    expect(JSON.parse(messages[2].content)).toEqual({
+      error: 'No project matching "SEC-9" was found',
+    });
+  });
+
+  it('should send earlier messages back to the provider', async () => {
+    mockPrismaService.chatSession.findFirst.mockResolvedValue({
+      ...session,
+      title: 'Hours',
+      messages: [
+        { role: 'tool', content: '{}', metadata: { toolCallId: 'call_x' } },
+        { role: 'user', content: 'Hello', metadata: {} },
+        { role: 'assistant', content: 'Hi!', metadata: {} },
+      ],
+    });
+    const complete = jest.spyOn(stubProvider, 'complete');
+
+    await ask('What can you do?');
+
+    expect(complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [
+          { role: 'user', content: 'Hello' },
+          { role: 'assistant', content: 'Hi!' },
+          { role: 'user', content: 'What can you do?' },
+        ],
+      }),
+    );
+  });
+
+  it('should report provider failures as unavailable', async () => {
+    jest
+      .spyOn(stubProvider, 'complete')
+      .mockRejectedValue(new Error('model offline'));
+
+    await expect(ask('How many hours did I log?')).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(mockLoggerService.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ChatMessage, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { AssistantToolsService } from './assistant-tools.service';
+import { LlmProviderRegistry } from './providers/llm-provider.registry';
+import {
+  ChatRole,
+  LlmCompletion,
+  LlmMessage,
+  LlmToolCall,
+} from './providers/llm-provider.interface';
+import { CreateChatSessionDto } from './dto/create-chat-session.dto';
+import { SendMessageDto } from './dto/send-message.dto';
+
+/** Earlier messages sent back to the model with each question */
+const MAX_HISTORY = 30;
+/** Tool round trips allowed before the assistant gives up on a question */
+const MAX_TOOL_ROUNDS = 4;
+const TITLE_LENGTH = 60;
+
+interface ChatMessageMetadata {
+  toolCalls?: LlmToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+  provider?: string;
+}
+
+@Injectable()
+export class AssistantService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly toolsService: AssistantToolsService,
+    private readonly providerRegistry: LlmProviderRegistry,
+  ) {}
+
+  createSession(createChatSessionDto: CreateChatSessionDto, userId: string) {
+    return this.prisma.chatSession.create({
+      data: { userId, title: createChatSessionDto.title?.trim() || null },
+    });
+  }
+
+  findSessions(userId: string) {
+    return this.prisma.chatSession.findMany({
+      where: { userId, isActive: true },
+      include: { _count: { select: { messages: true } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  async findSession(id: string, userId: string) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id, userId, isActive: true },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!session) {
+      throw new NotFoundException(`Chat session with ID ${id} not found`);
+    }
+    return session;
+  }
+
+  async removeSession(id: string, userId: string) {
+    await this.findSession(id, userId);
+    await this.prisma.chatSession.delete({ where: { id } });
+    return { message: 'Chat session deleted successfully' };
+  }
+
+  /**
+   * Stores the question, lets the model call tools until it can answer and
+   * stores every step. Returns the messages added to the session.
+   */
+  async sendMessage(
+    sessionId: string,
+    sendMessageDto: SendMessageDto,
+    userId: string,
+  ): Promise<ChatMessage[]> {
+    const session = await this.findSession(sessionId, userId);
+    const provider = this.providerRegistry.active;
+    const history = this.toLlmMessages(session.messages.slice(-MAX_HISTORY));
+
+    const added = [
+      await this.saveMessage(sessionId, 'user', sendMessageDto.content),
+    ];
+    history.push({ role: 'user', content: sendMessageDto.content });
+
+    const tools = this.toolsService.definitions.map(
+      ({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters,
+      }),
+    );
+
+    let reply: string | null = null;
+    for (let round = 0; round < MAX_TOOL_ROUNDS && reply === null; round++) {
+      let completion: LlmCompletion;
+      try {
+        completion = await provider.complete({
+          system: this.systemPrompt(),
+          messages: history,
+          tools,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Assistant provider ${provider.name} failed for session ${sessionId}`,
+          (error as Error).stack,
+        );
+        throw new ServiceUnavailableException(
+          'The assistant is unavailable right now, please try again later',
+        );
+      }
+
+      if (completion.toolCalls.length === 0) {
+        reply = completion.content;
+        break;
+      }
+
+      added.push(
+        await this.saveMessage(sessionId, 'assistant', completion.content, {
+          toolCalls: completion.toolCalls,
+        }),
+      );
+      history.push({
+        role: 'assistant',
+        content: completion.content,
+        toolCalls: completion.toolCalls,
+      });
+
+      for (const call of completion.toolCalls) {
+        const result = JSON.stringify(
+          await this.toolsService.execute(userId, call),
+        );
+        added.push(
+          await this.saveMessage(sessionId, 'tool', result, {
+            toolCallId: call.id,
+            toolName: call.name,
+          }),
+        );
+        history.push({ role: 'tool', content: result, toolCallId: call.id });
+      }
+    }
+
+    added.push(
+      await this.saveMessage(
+        sessionId,
+        'assistant',
+        reply ?? 'Sorry, I could not work out an answer to that question.',
+        { provider: provider.name },
+      ),
+    );
+
+    await this.prisma.chatSession.update({
+      where: { id: sessionId },
+      data: {
+        title:
+          session.title ?? sendMessageDto.content.trim().slice(0, TITLE_LENGTH),
+        updatedAt: new Date(),
+      },
+    });
+
+    return added;
+  }
+
+  private saveMessage(
+    sessionId: string,
+    role: ChatRole,
+    content: string,
+    metadata: ChatMessageMetadata = {},
+  ) {
+    return this.prisma.chatMessage.create({
+      data: {
+        sessionId,
+        role,
+        content,
+        metadata: metadata as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  private toLlmMessages(messages: ChatMessage[]): LlmMessage[] {
+    const history = messages.map((message) => {
+      const metadata = (message.metadata ?? {}) as ChatMessageMetadata;
+      return {
+        role: message.role as ChatRole,
+        content: message.content,
+        ...(metadata.toolCalls && { toolCalls: metadata.toolCalls }),
+        ...(metadata.toolCallId && { toolCallId: metadata.toolCallId }),
+      };
+    });
+
+    // Tool results cut off from the call that asked for them are meaningless
+    while (history[0]?.role === 'tool') history.shift();
+    return history;
+  }
+
+  private systemPrompt(): string {
+    return [
+      'You are the Alignzo assistant. You answer questions about time tracking, work logs and projects.',
+      `Today is ${new Date().toISOString().slice(0, 10)}.`,
+      'Use the tools for every number you report and never guess figures.',
+      'Tool results only cover data the user is allowed to see; say so when a question asks for more.',
+      'Keep answers short and give hours with at most two decimals.',
+    ].join(' ');
+  }
+}
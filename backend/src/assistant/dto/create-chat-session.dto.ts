@@ -0,0 +1,13 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateChatSessionDto {
+  @ApiPropertyOptional({
+    description: 'Defaults to the first question asked',
+    example: 'Billing questions',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SendMessageDto {
+  @ApiProperty({
+    description: 'Question for the assistant',
+    example: 'How many hours did my team bill to ALZ-001 last month?',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  content: string;
+}
@@ -0,0 +1,43 @@
+export type LlmProviderName = 'stub' | 'openai';
+
+export type ChatRole = 'user' | 'assistant' | 'tool';
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LlmMessage {
+  role: ChatRole;
+  content: string;
+  /** Assistant messages that asked for tools */
+  toolCalls?: LlmToolCall[];
+  /** Tool messages answering a tool call */
+  toolCallId?: string;
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema of the tool arguments */
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmCompletionRequest {
+  system: string;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+}
+
+/** Either a final answer or a request to run tools first */
+export interface LlmCompletion {
+  content: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider, LlmProviderName } from './llm-provider.interface';
+import { StubLlmProvider } from './stub-llm.provider';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { LoggerService } from '../../common/services/logger.service';
+
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+
+  /** Provider chosen with ASSISTANT_LLM_PROVIDER, the stub by default */
+  readonly active: LlmProvider;
+
+  constructor(
+    configService: ConfigService,
+    logger: LoggerService,
+    stubProvider: StubLlmProvider,
+    openAiProvider: OpenAiLlmProvider,
+  ) {
+    for (const provider of [stubProvider, openAiProvider]) {
+      this.providers.set(provider.name, provider);
+    }
+
+    const name =
+      configService.get<string>('ASSISTANT_LLM_PROVIDER') || stubProvider.name;
+    const provider = this.providers.get(name as LlmProviderName);
+    if (!provider) {
+      logger.warn(
+        `Unknown assistant LLM provider "${name}", using the stub provider. Supported: ${Array.from(this.providers.keys()).join(', ')}`,
+      );
+    }
+    this.active = provider ?? stubProvider;
+  }
+}
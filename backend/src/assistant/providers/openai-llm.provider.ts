@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+} from './llm-provider.interface';
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        function: { name: string; arguments: string };
+      }>;
+    };
+  }>;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Talks to any OpenAI compatible chat completions API, configured with
+ * ASSISTANT_LLM_API_KEY, ASSISTANT_LLM_MODEL and ASSISTANT_LLM_BASE_URL.
+ */
+@Injectable()
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const apiKey = this.configService.get<string>('ASSISTANT_LLM_API_KEY');
+    if (!apiKey) {
+      throw new LlmProviderError('ASSISTANT_LLM_API_KEY is not configured');
+    }
+    const baseUrl = (
+      this.configService.get<string>('ASSISTANT_LLM_BASE_URL') ||
+      DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model:
+            this.configService.get<string>('ASSISTANT_LLM_MODEL') ||
+            DEFAULT_MODEL,
+          temperature: 0,
+          messages: [
+            { role: 'system', content: request.system },
+            ...request.messages.map(toChatMessage),
+          ],
+          tools: request.tools.map((tool) => ({
+            type: 'function',
+            function: tool,
+          })),
+        }),
+      });
+    } catch (error) {
+      throw new LlmProviderError(
+        `Request to ${new URL(baseUrl).host} failed: ${(error as Error).message}`,
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmProviderError(
+        `${response.status} ${response.statusText} from ${new URL(baseUrl).host}${
+          detail ? `: ${detail.slice(0, 200)}` : ''
+        }`,
+        response.status,
+      );
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const message = body.choices[0]?.message;
+    return {
+      content: message?.content ?? '',
+      toolCalls: (message?.tool_calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments),
+      })),
+    };
+  }
+}
+
+function toChatMessage(message: LlmMessage) {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function parseArguments(value: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
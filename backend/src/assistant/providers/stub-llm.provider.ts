@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmToolCall,
+} from './llm-provider.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROJECT_CODE = /\b[A-Z][A-Z0-9]*-[A-Z0-9]+\b/;
+
+interface Period {
+  startDate: string;
+  endDate: string;
+}
+
+/** The parts of the tool results the stub puts into words */
+interface ToolResult {
+  error?: string;
+  startDate?: string;
+  endDate?: string;
+  project?: { code: string } | null;
+  totalHours?: number;
+  totalBillableHours?: number;
+  totalWorkLogs?: number;
+  userBreakdown?: Array<{ userName: string; hours: number }>;
+  projects?: Array<{
+    projectCode: string;
+    projectName: string;
+    totalHours: number;
+    billableHours: number;
+    efficiency: number;
+  }>;
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const answer = (content: string): LlmCompletion => ({ content, toolCalls: [] });
+
+const hours = (value?: number) => `${value ?? 0}h`;
+
+/**
+ * Rule based provider that needs no model or network access. It recognises
+ * a handful of question shapes, calls the matching tool and phrases the tool
+ * result, so tests and offline installs get stable answers.
+ */
+@Injectable()
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub' as const;
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === 'tool') {
+      return Promise.resolve(this.summarize(request.messages));
+    }
+    return Promise.resolve(this.plan(last?.content ?? ''));
+  }
+
+  private plan(question: string): LlmCompletion {
+    const text = question.toLowerCase();
+    const name = /\b(who|each|per person|breakdown|by person|members?)\b/.test(
+      text,
+    )
+      ? 'time_tracking_breakdown'
+      : /\b(projects?|efficiency|overview|status)\b/.test(text) &&
+          !/\b(hours?|bill|billed|billable|logged)\b/.test(text)
+        ? 'project_overview'
+        : /\b(hours?|bill|billed|billable|logged|log|worked|time)\b/.test(text)
+          ? 'work_log_summary'
+          : null;
+
+    if (!name) {
+      return answer(
+        'I can answer questions about logged hours, billable time, who worked on what and how projects are doing. ' +
+          'Try "How many hours did my team bill to ALZ-001 last month?"',
+      );
+    }
+
+    const period = parsePeriod(text, new Date());
+    const projectCode = question.match(PROJECT_CODE)?.[0];
+    const call: LlmToolCall = {
+      id: `call_${name}`,
+      name,
+      arguments: {
+        ...(period && {
+          startDate: period.startDate,
+          endDate: period.endDate,
+        }),
+        ...(projectCode && { projectCode }),
+      },
+    };
+    return { content: '', toolCalls: [call] };
+  }
+
+  private summarize(messages: LlmMessage[]): LlmCompletion {
+    const calls = new Map<string, LlmToolCall>();
+    for (const message of messages) {
+      for (const call of message.toolCalls ?? []) calls.set(call.id, call);
+    }
+
+    const lines: string[] = [];
+    for (
+      let i = messages.length - 1;
+      i >= 0 && messages[i].role === 'tool';
+      i--
+    ) {
+      const call = calls.get(messages[i].toolCallId ?? '');
+      const result = JSON.parse(messages[i].content) as ToolResult;
+      lines.unshift(this.describe(call, result));
+    }
+    return answer(lines.join('\n\n'));
+  }
+
+  private describe(call: LlmToolCall | undefined, result: ToolResult): string {
+    if (result.error) {
+      return `I couldn't look that up: ${result.error}`;
+    }
+
+    const scope = [
+      result.project ? `on ${result.project.code}` : null,
+      result.startDate
+        ? `between ${result.startDate} and ${result.endDate}`
+        : 'in total',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    switch (call?.name) {
+      case 'work_log_summary':
+        return (
+          `${hours(result.totalHours)} were logged ${scope} across ${result.totalWorkLogs ?? 0} work logs, ` +
+          `of which ${hours(result.totalBillableHours)} were billable.`
+        );
+      case 'time_tracking_breakdown': {
+        const people = result.userBreakdown ?? [];
+        if (people.length === 0) return `Nobody logged time ${scope}.`;
+        return [
+          `Hours logged ${scope}:`,
+          ...people.map(
+            (person) => `- ${person.userName}: ${hours(person.hours)}`,
+          ),
+        ].join('\n');
+      }
+      case 'project_overview': {
+        const projects = result.projects ?? [];
+        if (projects.length === 0) return 'You have no projects to report on.';
+        return [
+          `Projects ${scope}:`,
+          ...projects.map(
+            (project) =>
+              `- ${project.projectCode} ${project.projectName}: ${hours(project.totalHours)} logged, ` +
+              `${hours(project.billableHours)} billable (${project.efficiency}% efficiency)`,
+          ),
+        ].join('\n');
+      }
+      default:
+        return JSON.stringify(result);
+    }
+  }
+}
+
+/** Resolves phrases like "last month" or "last 7 days" to UTC dates */
+export function parsePeriod(text: string, now: Date): Period | null {
+  const today = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const weekStart = today - ((now.getUTCDay() + 6) % 7) * DAY_MS;
+  const period = (start: number, end: number) => ({
+    startDate: formatDate(new Date(start)),
+    endDate: formatDate(new Date(end)),
+  });
+
+  const lastDays = text.match(/\b(?:last|past) (\d{1,3}) days\b/);
+  if (lastDays) {
+    const days = Number(lastDays[1]);
+    return period(today - (days - 1) * DAY_MS, today);
+  }
+  if (text.includes('yesterday')) {
+    return period(today - DAY_MS, today - DAY_MS);
+  }
+  if (text.includes('today')) return period(today, today);
+  if (text.includes('last week')) {
+    return period(weekStart - 7 * DAY_MS, weekStart - DAY_MS);
+  }
+  if (text.includes('this week')) return period(weekStart, today);
+  if (text.includes('last month')) {
+    return period(Date.UTC(year, month - 1, 1), Date.UTC(year, month, 0));
+  }
+  if (text.includes('this month')) {
+    return period(Date.UTC(year, month, 1), today);
+  }
+  if (text.includes('last year')) {
+    return period(Date.UTC(year - 1, 0, 1), Date.UTC(year - 1, 11, 31));
+  }
+  if (text.includes('this year')) {
+    return period(Date.UTC(year, 0, 1), today);
+  }
+  return null;
+}
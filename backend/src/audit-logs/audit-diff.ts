@@ -0,0 +1,35 @@
+import { Prisma } from '@prisma/client';
+import { canonicalize } from './audit-integrity.service';
+
+export interface AuditFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+const asRecord = (values: Prisma.JsonValue | null): Record<string, unknown> =>
+  values && typeof values === 'object' && !Array.isArray(values) ? values : {};
+
+/**
+ * Top-level fields that differ between the before and after snapshots of a
+ * log. Nested objects are compared whole and reported as one change.
+ */
+export function diffAuditValues(
+  oldValues: Prisma.JsonValue | null,
+  newValues: Prisma.JsonValue | null,
+): AuditFieldChange[] {
+  const before = asRecord(oldValues);
+  const after = asRecord(newValues);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .sort()
+    .filter(
+      (field) => canonicalize(before[field]) !== canonicalize(after[field]),
+    )
+    .map((field) => ({
+      field,
+      oldValue: before[field] ?? null,
+      newValue: after[field] ?? null,
+    }));
+}
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditLog, AuditOutboxStatus, DailyAuditHash } from '@prisma/client';
+import { generateKeyPairSync, verify } from 'crypto';
+import {
+  AuditIntegrityService,
+  canonicalize,
+  GENESIS_HASH,
+} from './audit-integrity.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const log = (id: string, timestamp: string): AuditLog => ({
+  id,
+  userId: 'user-1',
+  action: 'UPDATE',
+  entity: 'Project',
+  entityId: 'project-1',
+  oldValues: { name: 'Old' },
+  newValues: { name: 'New' },
+  ipAddress: null,
+  userAgent: null,
+  sessionId: null,
+  metadata: null,
+  timestamp: new Date(timestamp),
+  chainHash: null,
+});
+
+describe('AuditIntegrityService', () => {
+  let service: AuditIntegrityService;
+  let logs: AuditLog[];
+  let seals: DailyAuditHash[];
+  let outbox: { status: AuditOutboxStatus; createdAt: Date }[];
+
+  const byDateAsc = () =>
+    [...seals].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // In-memory stand-in for the queries the service runs
+  const mockPrismaService = {
+    auditLog: {
+      findFirst: jest.fn(() =>
+        Promise.resolve(
+          [...logs].sort(
+            (a, b) => a.timestamp!.getTime() - b.timestamp!.getTime(),
+          )[0] ?? null,
+        ),
+      ),
+      findMany: jest.fn(({ where, cursor }) => {
+        const matching = logs
+          .filter(
+            (entry) =>
+              entry.timestamp! >= where.timestamp.gte &&
+              entry.timestamp! < where.timestamp.lt,
+          )
+          .sort(
+            (a, b) =>
+              a.timestamp!.getTime() - b.timestamp!.getTime() ||
+              a.id.localeCompare(b.id),
+          );
+        const start = cursor
+          ? matching.findIndex((entry) => entry.id === cursor.id) + 1
+          : 0;
+        return Promise.resolve(matching.slice(start));
+      }),
+      update: jest.fn(({ where, data }) => {
+        const entry = logs.find((candidate) => candidate.id === where.id)!;
+        Object.assign(entry, data);
+        return Promise.resolve(entry);
+      }),
+    },
+    dailyAuditHash: {
+      findUnique: jest.fn(({ where }) =>
+        Promise.resolve(
+          seals.find((seal) => seal.date.getTime() === where.date.getTime()) ??
+            null,
+        ),
+      ),
+      findFirst: jest.fn(({ where, orderBy }) => {
+        const sorted = byDateAsc().filter(
+          (seal) => !where?.date?.lt || seal.date < where.date.lt,
+        );
+        return Promise.resolve(
+          (orderBy.date === 'desc' ? sorted.reverse() : sorted)[0] ?? null,
+        );
+      }),
+      findMany: jest.fn(({ where }) =>
+        Promise.resolve(
+          byDateAsc().filter(
+            (seal) =>
+              seal.date >= where.date.gte && seal.date <= where.date.lte,
+          ),
+        ),
+      ),
+      create: jest.fn(({ data }) => {
+        const seal = { id: `seal-${seals.length}`, ...data };
+        seals.push(seal);
+        return Promise.resolve(seal);
+      }),
+    },
+    auditOutboxEntry: {
+      findFirst: jest.fn(({ where }) =>
+        Promise.resolve(
+          outbox
+            .filter((entry) => entry.status !== where.status.not)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] ??
+            null,
+        ),
+      ),
+    },
+    $transaction: jest.fn((operations: Promise<unknown>[]) =>
+      Promise.all(operations),
+    ),
+  };
+  const mockConfigService = { get: jest.fn() };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditIntegrityService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<AuditIntegrityService>(AuditIntegrityService);
+
+    logs = [
+      log('log-1', '2026-03-01T09:00:00Z'),
+      log('log-2', '2026-03-01T17:30:00Z'),
+      log('log-3', '2026-03-03T08:15:00Z'),
+    ];
+    seals = [];
+    outbox = [];
+    for (const date of ['2026-03-01', '2026-03-02', '2026-03-03']) {
+      await service.createDailyHashChain(day(date));
+    }
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createDailyHashChain', () => {
+    it('should link each day to the hash of the day before', () => {
+      expect(seals.map((seal) => seal.recordCount)).toEqual([2, 0, 1]);
+      expect(seals[0].previousHash).toBe(GENESIS_HASH);
+      expect(seals[1].previousHash).toBe(seals[0].hash);
+      expect(seals[2].previousHash).toBe(seals[1].hash);
+      expect(logs.every((entry) => entry.chainHash)).toBe(true);
+    });
+
+    it('should leave an already sealed day unchanged', async () => {
+      mockPrismaService.dailyAuditHash.create.mockClear();
+
+      const sealed = await service.createDailyHashChain(day('2026-03-02'));
+
+      expect(sealed).toBe(seals[1]);
+      expect(mockPrismaService.dailyAuditHash.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sealPendingDays', () => {
+    it('should not wait for outbox entries that failed for good', async () => {
+      outbox = [
+        {
+          status: AuditOutboxStatus.FAILED,
+          createdAt: new Date('2026-03-04T12:00:00Z'),
+        },
+        {
+          status: AuditOutboxStatus.PENDING,
+          createdAt: new Date('2026-03-05T12:00:00Z'),
+        },
+      ];
+
+      await expect(service.sealPendingDays()).resolves.toBe(1);
+      expect(byDateAsc().map((seal) => seal.date)).toContainEqual(
+        day('2026-03-04'),
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept an untouched chain', async () => {
+      await expect(service.verify()).resolves.toEqual({
+        valid: true,
+        from: '2026-03-01',
+        to: '2026-03-03',
+        daysChecked: 3,
+        recordsChecked: 3,
+        firstFailure: null,
+      });
+    });
+
+    it('should pinpoint the first tampered record', async () => {
+      logs[1].newValues = { name: 'Rewritten' };
+
+      const report = await service.verify();
+
+      expect(report.valid).toBe(false);
+      expect(report.firstFailure).toEqual(
+        expect.objectContaining({
+          date: '2026-03-01',
+          reason: 'record_tampered',
+          recordId: 'log-2',
+        }),
+      );
+    });
+
+    it('should report deleted records', async () => {
+      logs.splice(2, 1);
+
+      const report = await service.verify('2026-03-02', '2026-03-03');
+
+      expect(report.firstFailure).toEqual(
+        expect.objectContaining({
+          date: '2026-03-03',
+          reason: 'records_missing',
+        }),
+      );
+      expect(report.daysChecked).toBe(1);
+    });
+
+    it('should detect a day that no longer links to the previous one', async () => {
+      seals[1].previousHash = GENESIS_HASH;
+
+      const report = await service.verify();
+
+      expect(report.firstFailure).toEqual(
+        expect.objectContaining({ date: '2026-03-02', reason: 'chain_broken' }),
+      );
+    });
+
+    it('should reject malformed dates', async () => {
+      await expect(service.verify('03/01/2026')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('exportChain', () => {
+    it('should sign the chain with the configured key', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+      mockConfigService.get.mockReturnValue(
+        privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      );
+
+      const { signature, ...payload } = await service.exportChain();
+
+      expect(payload.chain.map((entry) => entry.hash)).toEqual(
+        seals.map((seal) => seal.hash),
+      );
+      expect(payload.publicKey).toBe(
+        publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      );
+      expect(
+        verify(
+          null,
+          Buffer.from(canonicalize(payload)),
+          publicKey,
+          Buffer.from(signature, 'base64'),
+        ),
+      ).toBe(true);
+    });
+
+    it('should refuse to export without a signing key', async () => {
+      mockConfigService.get.mockReturnValue(undefined);
+
+      await expect(service.exportChain()).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+  });
+});
@@ -1,40 +1,392 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AuditLog, AuditOutboxStatus } from '@prisma/client';
+import { createHash, createPrivateKey, createPublicKey, sign } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
-import { createHash } from 'crypto';
+import { LoggerService } from '../common/services/logger.service';
 
+/** Previous hash of the very first sealed day */
+export const GENESIS_HASH = '0'.repeat(64);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type IntegrityFailureReason =
+  | 'missing_day'
+  | 'chain_broken'
+  | 'record_tampered'
+  | 'record_unsealed'
+  | 'records_missing'
+  | 'day_hash_mismatch';
+
+export interface IntegrityFailure {
+  date: string;
+  reason: IntegrityFailureReason;
+  recordId?: string;
+  message: string;
+}
+
+export interface IntegrityReport {
+  valid: boolean;
+  from: string | null;
+  to: string | null;
+  daysChecked: number;
+  recordsChecked: number;
+  firstFailure: IntegrityFailure | null;
+}
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const startOfUtcDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+/** JSON with sorted object keys, so equal values always hash the same */
+export function canonicalize(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Hash of an audit record chained to the hash before it */
+export function hashRecord(previousHash: string, log: AuditLog): string {
+  // The stored chain hash is the output, not part of the record
+  return sha256(previousHash + canonicalize({ ...log, chainHash: undefined }));
+}
+
+/**
+ * Hash sealing a day. It covers the last record hash, or the previous day's
+ * hash when nothing was logged, so every day stays linked to the one before.
+ */
+export function hashDay(
+  date: string,
+  recordCount: number,
+  lastHash: string,
+): string {
+  return sha256(`${date}|${recordCount}|${lastHash}`);
+}
+
+/**
+ * Seals each UTC day of audit logs into a SHA-256 hash chain: every record is
+ * hashed together with the record before it, the first record of a day with
+ * the previous day's hash. Verification recomputes the chain to find the
+ * first record or day that no longer matches.
+ */
 @Injectable()
 export class AuditIntegrityService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+  ) {}
 
-  async createDailyHashChain() {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  /** Seals every completed day that is not sealed yet, oldest first */
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async sealPendingDays(): Promise<number> {
+    const [lastSealed, firstLog, oldestPending] = await Promise.all([
+      this.prisma.dailyAuditHash.findFirst({ orderBy: { date: 'desc' } }),
+      this.prisma.auditLog.findFirst({
+        where: { timestamp: { not: null } },
+        orderBy: { timestamp: 'asc' },
+        select: { timestamp: true },
+      }),
+      this.prisma.auditOutboxEntry.findFirst({
+        where: { status: { not: AuditOutboxStatus.FAILED } },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+    ]);
+    if (!lastSealed && !firstLog) return 0;
 
-    const auditLogs = await this.prisma.auditLog.findMany({
-      where: {
-        timestamp: {
-          gte: today,
-        },
-      },
-      orderBy: {
-        timestamp: 'asc',
-      },
+    // A day is only sealed once all of its events left the outbox, apart from
+    // those that failed for good
+    const yesterday =
+      startOfUtcDay(oldestPending?.createdAt ?? new Date()).getTime() - DAY_MS;
+    let day = lastSealed
+      ? lastSealed.date.getTime() + DAY_MS
+      : startOfUtcDay(firstLog!.timestamp!).getTime();
+
+    let sealed = 0;
+    for (; day <= yesterday; day += DAY_MS) {
+      await this.createDailyHashChain(new Date(day));
+      sealed++;
+    }
+    if (sealed > 0) {
+      this.logger.log(`Sealed ${sealed} days of audit logs`);
+    }
+    return sealed;
+  }
+
+  /**
+   * Hashes the audit logs of one UTC day onto the chain and stores the day's
+   * hash. Days must be sealed in order; an already sealed day is returned
+   * unchanged.
+   */
+  async createDailyHashChain(date: Date) {
+    const day = startOfUtcDay(date);
+    const existing = await this.prisma.dailyAuditHash.findUnique({
+      where: { date: day },
+    });
+    if (existing) return existing;
+
+    const previous = await this.prisma.dailyAuditHash.findFirst({
+      where: { date: { lt: day } },
+      orderBy: { date: 'desc' },
     });
+    const previousHash = previous?.hash ?? GENESIS_HASH;
 
-    let previousHash = '';
-    for (const log of auditLogs) {
-      const hash = createHash('sha256')
-        .update(JSON.stringify(log) + previousHash)
-        .digest('hex');
-      previousHash = hash;
+    let lastHash = previousHash;
+    let recordCount = 0;
+    for await (const batch of this.readDay(day)) {
+      const updates = batch.map((log) => {
+        lastHash = hashRecord(lastHash, log);
+        return this.prisma.auditLog.update({
+          where: { id: log.id },
+          data: { chainHash: lastHash },
+        });
+      });
+      await this.prisma.$transaction(updates);
+      recordCount += batch.length;
     }
 
-    // Store the final hash in a separate table for verification
-    await this.prisma.dailyAuditHash.create({
+    return this.prisma.dailyAuditHash.create({
       data: {
-        date: today,
-        hash: previousHash,
+        date: day,
+        previousHash,
+        recordCount,
+        hash: hashDay(formatDay(day), recordCount, lastHash),
       },
     });
   }
+
+  /**
+   * Recomputes the chain between two dates (YYYY-MM-DD, inclusive) and
+   * reports the first day or record that does not match what was sealed.
+   * Days after the last sealed day are not checked.
+   */
+  async verify(from?: string, to?: string): Promise<IntegrityReport> {
+    const range = await this.resolveRange(from, to);
+    const report: IntegrityReport = {
+      valid: true,
+      from: range ? formatDay(range.from) : null,
+      to: range ? formatDay(range.to) : null,
+      daysChecked: 0,
+      recordsChecked: 0,
+      firstFailure: null,
+    };
+    if (!range) return report;
+
+    const [seals, prior] = await Promise.all([
+      this.prisma.dailyAuditHash.findMany({
+        where: { date: { gte: range.from, lte: range.to } },
+        orderBy: { date: 'asc' },
+      }),
+      this.prisma.dailyAuditHash.findFirst({
+        where: { date: { lt: range.from } },
+        orderBy: { date: 'desc' },
+      }),
+    ]);
+    const sealsByDay = new Map(
+      seals.map((seal) => [formatDay(seal.date), seal]),
+    );
+    const lastSealed = seals[seals.length - 1]?.date.getTime() ?? -Infinity;
+
+    const fail = (failure: IntegrityFailure) => {
+      report.valid = false;
+      report.firstFailure = failure;
+      return report;
+    };
+
+    let expectedPrevious = prior?.hash ?? GENESIS_HASH;
+    for (
+      let time = range.from.getTime();
+      time <= Math.min(range.to.getTime(), lastSealed);
+      time += DAY_MS
+    ) {
+      const date = formatDay(new Date(time));
+      const seal = sealsByDay.get(date);
+      if (!seal) {
+        return fail({
+          date,
+          reason: 'missing_day',
+          message: `No hash was sealed for ${date}`,
+        });
+      }
+      if (seal.previousHash !== expectedPrevious) {
+        return fail({
+          date,
+          reason: 'chain_broken',
+          message: `The hash of ${date} does not link to the previous sealed day`,
+        });
+      }
+
+      let lastHash = seal.previousHash;
+      let recordCount = 0;
+      for await (const batch of this.readDay(new Date(time))) {
+        for (const log of batch) {
+          lastHash = hashRecord(lastHash, log);
+          recordCount++;
+          report.recordsChecked++;
+          if (log.chainHash === null) {
+            return fail({
+              date,
+              reason: 'record_unsealed',
+              recordId: log.id,
+              message: `Audit log ${log.id} was added after ${date} was sealed`,
+            });
+          }
+          if (log.chainHash !== lastHash) {
+            return fail({
+              date,
+              reason: 'record_tampered',
+              recordId: log.id,
+              message: `Audit log ${log.id}, or a record removed just before it, was changed after sealing`,
+            });
+          }
+        }
+      }
+
+      if (recordCount < seal.recordCount) {
+        return fail({
+          date,
+          reason: 'records_missing',
+          message: `${seal.recordCount - recordCount} audit logs of ${date} were removed after sealing`,
+        });
+      }
+      if (hashDay(date, recordCount, lastHash) !== seal.hash) {
+        return fail({
+          date,
+          reason: 'day_hash_mismatch',
+          message: `The sealed hash of ${date} was changed`,
+        });
+      }
+
+      expectedPrevious = seal.hash;
+      report.daysChecked++;
+    }
+
+    return report;
+  }
+
+  /**
+   * The sealed day hashes between two dates, signed with the Ed25519 key in
+   * AUDIT_SIGNING_PRIVATE_KEY. Auditors verify the signature over the
+   * canonical JSON of every field except `signature` with `publicKey`.
+   */
+  async exportChain(from?: string, to?: string) {
+    const privateKey = this.getSigningKey();
+    const range = await this.resolveRange(from, to);
+    const seals = range
+      ? await this.prisma.dailyAuditHash.findMany({
+          where: { date: { gte: range.from, lte: range.to } },
+          orderBy: { date: 'asc' },
+        })
+      : [];
+
+    const payload = {
+      algorithm: 'Ed25519',
+      hashAlgorithm: 'SHA-256',
+      genesisHash: GENESIS_HASH,
+      from: range ? formatDay(range.from) : null,
+      to: range ? formatDay(range.to) : null,
+      generatedAt: new Date().toISOString(),
+      publicKey: createPublicKey(privateKey)
+        .export({ type: 'spki', format: 'pem' })
+        .toString(),
+      chain: seals.map((seal) => ({
+        date: formatDay(seal.date),
+        previousHash: seal.previousHash,
+        hash: seal.hash,
+        recordCount: seal.recordCount,
+      })),
+    };
+
+    return {
+      ...payload,
+      signature: sign(
+        null,
+        Buffer.from(canonicalize(payload)),
+        privateKey,
+      ).toString('base64'),
+    };
+  }
+
+  /** Audit logs of one UTC day in chain order, a batch at a time */
+  private async *readDay(day: Date): AsyncGenerator<AuditLog[]> {
+    const where = {
+      timestamp: { gte: day, lt: new Date(day.getTime() + DAY_MS) },
+    };
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+      if (batch.length > 0) yield batch;
+      if (batch.length < BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  /** Requested dates, defaulting to the first and last sealed day */
+  private async resolveRange(from?: string, to?: string) {
+    for (const [name, value] of [
+      ['from', from],
+      ['to', to],
+    ] as const) {
+      if (value && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+        throw new BadRequestException(
+          `${name} must be a date formatted as YYYY-MM-DD`,
+        );
+      }
+    }
+
+    const [first, last] = await Promise.all([
+      this.prisma.dailyAuditHash.findFirst({ orderBy: { date: 'asc' } }),
+      this.prisma.dailyAuditHash.findFirst({ orderBy: { date: 'desc' } }),
+    ]);
+    if (!first || !last) return null;
+
+    // Days before the first seal were never part of the chain
+    const start = from ? new Date(`${from}T00:00:00Z`) : first.date;
+    const range = {
+      from: start < first.date ? first.date : start,
+      to: to ? new Date(`${to}T00:00:00Z`) : last.date,
+    };
+    if (range.from > range.to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    return range;
+  }
+
+  private getSigningKey() {
+    const pem = this.configService.get<string>('AUDIT_SIGNING_PRIVATE_KEY');
+    if (!pem) {
+      throw new ServiceUnavailableException(
+        'Audit export signing is not configured',
+      );
+    }
+    // Keys kept on one line in .env files use escaped newlines
+    return createPrivateKey(pem.replace(/\\n/g, '\n'));
+  }
 }
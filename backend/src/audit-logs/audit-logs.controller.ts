@@ -1,34 +1,62 @@
-import { Controller, Get, Query, UseGuards, Req } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+  Req,
+  StreamableFile,
+} from '@nestjs/common';
+import { Readable } from 'stream';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
-import { AuditLogsService } from './audit-logs.service';
+import {
+  AUDIT_EXPORT_CONTENT_TYPES,
+  AuditLogsService,
+} from './audit-logs.service';
+import { AuditIntegrityService } from './audit-integrity.service';
+import { AuditConsumerService } from './audit.consumer.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import {
+  ExportAuditLogsDto,
+  QueryAuditLogsDto,
+} from './dto/query-audit-logs.dto';
 
 @ApiTags('Audit Logs')
 @Controller('audit-logs')
 export class AuditLogsController {
-  constructor(private readonly auditLogs: AuditLogsService) {}
+  constructor(
+    private readonly auditLogs: AuditLogsService,
+    private readonly integrity: AuditIntegrityService,
+    private readonly consumer: AuditConsumerService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'List audit logs (admin)' })
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMIN')
-  async list(
-    @Query('take') take?: string,
-    @Query('cursor') cursor?: string,
-    @Query('userId') userId?: string,
-    @Query('action') action?: string,
-    @Query('entity') entity?: string,
-  ) {
-    return this.auditLogs.findAll({
-      take: take ? Number(take) : undefined,
-      cursor: cursor || null,
-      userId: userId || null,
-      action: action || null,
-      entity: entity || null,
-    });
+  async list(@Query() query: QueryAuditLogsDto) {
+    return this.auditLogs.findAll(query);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Stream matching audit logs as CSV or JSON Lines' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  export(@Query() query: ExportAuditLogsDto) {
+    const { format = 'csv', ...filters } = query;
+    const date = new Date().toISOString().slice(0, 10);
+    return new StreamableFile(
+      Readable.from(this.auditLogs.export(filters, format)),
+      {
+        type: AUDIT_EXPORT_CONTENT_TYPES[format],
+        disposition: `attachment; filename="audit-logs-${date}.${format}"`,
+      },
+    );
   }
 
   @Get('/me/activity')
@@ -45,4 +73,74 @@ export class AuditLogsController {
       cursor: cursor || null,
     });
   }
+
+  @Get('/integrity/verify')
+  @ApiOperation({
+    summary: 'Verify the audit hash chain and find the first tampered record',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async verifyIntegrity(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.integrity.verify(from || undefined, to || undefined);
+  }
+
+  @Get('/integrity/export')
+  @ApiOperation({ summary: 'Signed export of the daily audit hash chain' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async exportIntegrity(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.integrity.exportChain(from || undefined, to || undefined);
+  }
+
+  @Get('/dead-letters')
+  @ApiOperation({
+    summary: 'Audit logs that could not be streamed to the SIEM',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async deadLetters(
+    @Query('take') take?: string,
+    @Query('includeReplayed') includeReplayed?: string,
+  ) {
+    return this.consumer.findDeadLetters({
+      take: take ? Number(take) : undefined,
+      includeReplayed: includeReplayed === 'true',
+    });
+  }
+
+  @Post('/dead-letters/replay')
+  @ApiOperation({ summary: 'Stream every undelivered dead letter again' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async replayDeadLetters() {
+    return this.consumer.replayDeadLetters();
+  }
+
+  @Post('/dead-letters/:id/replay')
+  @ApiOperation({ summary: 'Stream one dead letter to the SIEM again' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async replayDeadLetter(@Param('id') id: string) {
+    return this.consumer.replayDeadLetter(id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Audit log with its field-level changes (admin)' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async findOne(@Param('id') id: string) {
+    return this.auditLogs.findOne(id);
+  }
 }
@@ -2,25 +2,24 @@ import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuditLogsService } from './audit-logs.service';
 import { AuditLogsController } from './audit-logs.controller';
-// import { BullModule } from '@nestjs/bullmq';
 import { AuditProducerService } from './audit.producer.service';
-// import { AuditConsumerService } from './audit.consumer.service';
+import { AuditConsumerService } from './audit.consumer.service';
 import { AuditIntegrityService } from './audit-integrity.service';
+import { AuditQueueRegistry } from './queue/audit-queue.registry';
+import { MemoryAuditQueue } from './queue/memory-audit.queue';
+import { PostgresAuditQueue } from './queue/postgres-audit.queue';
 import { SiemModule } from '../siem/siem.module';
 
 @Module({
-  imports: [
-    PrismaModule,
-    SiemModule,
-    // BullModule.registerQueue({
-    //   name: 'audit-log',
-    // }),
-  ],
+  imports: [PrismaModule, SiemModule],
   providers: [
     AuditLogsService,
     AuditProducerService,
-    // AuditConsumerService,
+    AuditConsumerService,
     AuditIntegrityService,
+    AuditQueueRegistry,
+    MemoryAuditQueue,
+    PostgresAuditQueue,
   ],
   controllers: [AuditLogsController],
   exports: [AuditLogsService, AuditProducerService],
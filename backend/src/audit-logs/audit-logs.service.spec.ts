@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { AuditLogsService } from './audit-logs.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditLogsService', () => {
+  let service: AuditLogsService;
+
+  const mockPrismaService = {
+    auditLog: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockLog = {
+    id: 'log-1',
+    userId: 'user-1',
+    action: 'User.update',
+    entity: 'User',
+    entityId: 'user-2',
+    oldValues: { title: 'Engineer', department: 'R&D' },
+    newValues: { title: 'Lead, Platform', department: 'R&D' },
+    ipAddress: '203.0.113.7',
+    userAgent: null,
+    sessionId: null,
+    metadata: { statusCode: 200 },
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+    chainHash: null,
+  };
+
+  const readAll = async (stream: AsyncGenerator<string>) => {
+    let text = '';
+    for await (const chunk of stream) text += chunk;
+    return text;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogsService>(AuditLogsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should filter on date range, IP, entity ID and status code', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([mockLog]);
+
+      await service.findAll({
+        entityId: 'user-2',
+        ipAddress: '203.0.113.7',
+        statusCode: 403,
+        from: '2025-03-01T00:00:00Z',
+        to: '2025-03-31T23:59:59Z',
+      });
+
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            entityId: 'user-2',
+            ipAddress: '203.0.113.7',
+            metadata: { path: ['statusCode'], equals: 403 },
+            timestamp: {
+              gte: new Date('2025-03-01T00:00:00Z'),
+              lte: new Date('2025-03-31T23:59:59Z'),
+            },
+          }),
+          take: 50,
+        }),
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return the changed fields only', async () => {
+      mockPrismaService.auditLog.findUnique.mockResolvedValue(mockLog);
+
+      const result = await service.findOne('log-1');
+
+      expect(result.changes).toEqual([
+        { field: 'title', oldValue: 'Engineer', newValue: 'Lead, Platform' },
+      ]);
+    });
+
+    it('should throw NotFoundException for an unknown log', async () => {
+      mockPrismaService.auditLog.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('export', () => {
+    it('should write a CSV header and one escaped line per log', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([mockLog]);
+
+      const lines = (await readAll(service.export({}, 'csv'))).split('\r\n');
+
+      expect(lines[0]).toBe(
+        '\uFEFFid,timestamp,userId,action,entity,entityId,ipAddress,userAgent,sessionId,oldValues,newValues,metadata',
+      );
+      expect(lines[1]).toContain(
+        'log-1,2025-03-01T10:00:00.000Z,user-1,User.update',
+      );
+      expect(lines[1]).toContain('"{""title"":""Lead, Platform""');
+    });
+
+    it('should page through logs as JSON Lines', async () => {
+      const batch = Array.from({ length: 500 }, (_, index) => ({
+        ...mockLog,
+        id: `log-${index}`,
+      }));
+      mockPrismaService.auditLog.findMany
+        .mockResolvedValueOnce(batch)
+        .mockResolvedValueOnce([{ ...mockLog, id: 'log-last' }]);
+
+      const lines = (await readAll(service.export({}, 'jsonl')))
+        .trim()
+        .split('\n');
+
+      expect(lines).toHaveLength(501);
+      expect(JSON.parse(lines[500])).toEqual(
+        expect.objectContaining({ id: 'log-last' }),
+      );
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ skip: 1, cursor: { id: 'log-499' } }),
+      );
+    });
+  });
+});
@@ -1,30 +1,66 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AuditLog, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { escapeCsvValue } from '../data-exports/export-writers';
+import { diffAuditValues } from './audit-diff';
+import {
+  AuditExportFormat,
+  AuditLogFiltersDto,
+} from './dto/query-audit-logs.dto';
+
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_COLUMNS: (keyof AuditLog)[] = [
+  'id',
+  'timestamp',
+  'userId',
+  'action',
+  'entity',
+  'entityId',
+  'ipAddress',
+  'userAgent',
+  'sessionId',
+  'oldValues',
+  'newValues',
+  'metadata',
+];
+
+export const AUDIT_EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson',
+};
 
 @Injectable()
 export class AuditLogsService {
   constructor(private readonly prisma: PrismaService) {}
 
-  async findAll(params: {
-    take?: number;
-    cursor?: string | null;
-    userId?: string | null;
-    action?: string | null;
-    entity?: string | null;
-  }) {
-    const { take = 50, cursor, userId, action, entity } = params;
+  async findAll(
+    params: AuditLogFiltersDto & { take?: number; cursor?: string | null },
+  ) {
+    const { take = 50, cursor, ...filters } = params;
     return this.prisma.auditLog.findMany({
-      where: {
-        userId: userId || undefined,
-        action: action || undefined,
-        entity: entity || undefined,
-      },
-      orderBy: { timestamp: 'desc' },
+      where: this.buildWhere(filters),
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
       take,
       ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
     });
   }
 
+  async findOne(id: string) {
+    const log = await this.prisma.auditLog.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+    });
+    if (!log) {
+      throw new NotFoundException(`Audit log with ID ${id} not found`);
+    }
+    return { ...log, changes: diffAuditValues(log.oldValues, log.newValues) };
+  }
+
   async findMine(
     userId: string,
     params: { take?: number; cursor?: string | null },
@@ -37,4 +73,82 @@ export class AuditLogsService {
       ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
     });
   }
+
+  /**
+   * Streams every log matching the filters, newest first, as CSV or JSON
+   * Lines. Logs are read in batches so large exports stay small in memory.
+   */
+  async *export(
+    filters: AuditLogFiltersDto,
+    format: AuditExportFormat,
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      // The BOM lets Excel detect UTF-8
+      yield `\ufeff${EXPORT_COLUMNS.join(',')}\r\n`;
+    }
+
+    const where = this.buildWhere(filters);
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+      if (batch.length > 0) {
+        yield batch
+          .map((log) =>
+            format === 'csv' ? this.toCsvLine(log) : `${JSON.stringify(log)}\n`,
+          )
+          .join('');
+      }
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private buildWhere(filters: AuditLogFiltersDto): Prisma.AuditLogWhereInput {
+    const {
+      userId,
+      action,
+      entity,
+      entityId,
+      ipAddress,
+      statusCode,
+      from,
+      to,
+    } = filters;
+    return {
+      userId: userId || undefined,
+      action: action || undefined,
+      entity: entity || undefined,
+      entityId: entityId || undefined,
+      ipAddress: ipAddress || undefined,
+      ...(statusCode && {
+        metadata: { path: ['statusCode'], equals: statusCode },
+      }),
+      ...((from || to) && {
+        timestamp: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      }),
+    };
+  }
+
+  private toCsvLine(log: AuditLog): string {
+    return (
+      EXPORT_COLUMNS.map((column) => {
+        const value = log[column];
+        return escapeCsvValue(
+          value !== null &&
+            typeof value === 'object' &&
+            !(value instanceof Date)
+            ? JSON.stringify(value)
+            : value,
+        );
+      }).join(',') + '\r\n'
+    );
+  }
 }
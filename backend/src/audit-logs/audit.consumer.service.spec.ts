@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { AuditOutboxStatus, Prisma } from '@prisma/client';
+import { AuditConsumerService } from './audit.consumer.service';
+import { AuditQueueRegistry } from './queue/audit-queue.registry';
+import { PrismaService } from '../prisma/prisma.service';
+import { SiemDeliveryError, SiemService } from '../siem/siem.service';
+import { LoggerService } from '../common/services/logger.service';
+
+describe('AuditConsumerService', () => {
+  let service: AuditConsumerService;
+
+  const mockPrismaService = {
+    auditLog: {
+      createMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    auditOutboxEntry: {
+      delete: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    auditDeadLetter: {
+      createMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+  const mockSiemService = {
+    streamAuditLog: jest.fn(),
+    destinations: ['elasticsearch', 'splunk'],
+  };
+  const mockQueue = {
+    driver: 'memory',
+    publish: jest.fn(),
+    subscribe: jest.fn(),
+    close: jest.fn(),
+  };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const mockEntry = {
+    id: 'entry-1',
+    payload: {
+      userId: 'user-1',
+      action: 'User.update',
+      entity: 'User',
+      entityId: 'user-2',
+      oldValues: null,
+      newValues: { title: 'Lead' },
+      metadata: { statusCode: 200 },
+      timestamp: '2025-03-01T10:00:00.000Z',
+    },
+    status: AuditOutboxStatus.PROCESSING,
+    attempts: 1,
+    lastError: null,
+    availableAt: new Date('2025-03-01T10:00:00Z'),
+    lockedAt: new Date('2025-03-01T10:00:00Z'),
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+  };
+  const mockAuditLog = {
+    id: 'entry-1',
+    action: 'User.update',
+    entity: 'User',
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditConsumerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SiemService, useValue: mockSiemService },
+        { provide: AuditQueueRegistry, useValue: { active: mockQueue } },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<AuditConsumerService>(AuditConsumerService);
+
+    mockPrismaService.auditLog.findUniqueOrThrow.mockResolvedValue(
+      mockAuditLog,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('process', () => {
+    it('should write the log under the entry ID and clear the entry', async () => {
+      mockSiemService.streamAuditLog.mockResolvedValue(undefined);
+
+      await service.process(mockEntry);
+      await service.settleDeliveries();
+
+      expect(mockPrismaService.auditLog.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            id: 'entry-1',
+            action: 'User.update',
+            oldValues: Prisma.DbNull,
+            newValues: { title: 'Lead' },
+            timestamp: new Date('2025-03-01T10:00:00.000Z'),
+          }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(mockPrismaService.auditOutboxEntry.delete).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+      });
+      expect(mockSiemService.streamAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'entry-1' }),
+        undefined,
+      );
+      expect(
+        mockPrismaService.auditDeadLetter.createMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should keep the entry for a later retry when the write fails', async () => {
+      mockPrismaService.auditLog.createMany.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await service.process(mockEntry);
+
+      expect(mockPrismaService.auditOutboxEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+        data: expect.objectContaining({
+          status: AuditOutboxStatus.PENDING,
+          lastError: 'connection lost',
+        }),
+      });
+      expect(mockSiemService.streamAuditLog).not.toHaveBeenCalled();
+    });
+
+    it('should mark the entry FAILED once it runs out of attempts', async () => {
+      mockPrismaService.auditLog.createMany.mockRejectedValueOnce(
+        new Error('invalid input syntax for type uuid'),
+      );
+
+      await service.process({ ...mockEntry, attempts: 10 });
+
+      expect(mockPrismaService.auditOutboxEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry-1' },
+        data: {
+          status: AuditOutboxStatus.FAILED,
+          lockedAt: null,
+          lastError: 'invalid input syntax for type uuid',
+        },
+      });
+    });
+
+    it('should retry only the failing destination and dead-letter it', async () => {
+      jest.useFakeTimers();
+      mockSiemService.streamAuditLog.mockRejectedValue(
+        new SiemDeliveryError({ splunk: 'HEC unavailable' }),
+      );
+
+      await service.process(mockEntry);
+      await jest.runAllTimersAsync();
+      await service.settleDeliveries();
+
+      expect(mockSiemService.streamAuditLog).toHaveBeenCalledTimes(3);
+      expect(mockSiemService.streamAuditLog).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'entry-1' }),
+        ['splunk'],
+      );
+      expect(mockPrismaService.auditDeadLetter.createMany).toHaveBeenCalledWith(
+        {
+          data: [
+            {
+              auditLogId: 'entry-1',
+              destination: 'splunk',
+              error: 'HEC unavailable',
+              attempts: 3,
+            },
+          ],
+        },
+      );
+    });
+  });
+
+  describe('sweepOutbox', () => {
+    it('should release stale claims and republish due entries', async () => {
+      mockPrismaService.auditOutboxEntry.findMany.mockResolvedValue([
+        { id: 'entry-1' },
+        { id: 'entry-2' },
+      ]);
+
+      const result = await service.sweepOutbox(
+        new Date('2025-03-01T10:10:00Z'),
+      );
+
+      expect(
+        mockPrismaService.auditOutboxEntry.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          status: AuditOutboxStatus.PROCESSING,
+          lockedAt: { lt: new Date('2025-03-01T10:05:00Z') },
+        },
+        data: { status: AuditOutboxStatus.PENDING, lockedAt: null },
+      });
+      expect(mockQueue.publish).toHaveBeenCalledWith('entry-1');
+      expect(mockQueue.publish).toHaveBeenCalledWith('entry-2');
+      expect(result).toEqual({ published: 2 });
+    });
+  });
+
+  describe('replayDeadLetter', () => {
+    it('should mark the dead letter replayed once delivered', async () => {
+      mockPrismaService.auditDeadLetter.findUnique.mockResolvedValue({
+        id: 'dead-1',
+        destination: 'splunk',
+        replayedAt: null,
+        auditLog: mockAuditLog,
+      });
+      mockSiemService.streamAuditLog.mockResolvedValue(undefined);
+
+      const result = await service.replayDeadLetter('dead-1');
+
+      expect(result).toEqual({ id: 'dead-1', delivered: true, error: null });
+      expect(mockSiemService.streamAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'entry-1' }),
+        ['splunk'],
+      );
+      expect(mockPrismaService.auditDeadLetter.update).toHaveBeenCalledWith({
+        where: { id: 'dead-1' },
+        data: {
+          replayCount: { increment: 1 },
+          replayedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should throw NotFoundException for an unknown dead letter', async () => {
+      mockPrismaService.auditDeadLetter.findUnique.mockResolvedValue(null);
+
+      await expect(service.replayDeadLetter('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -1,93 +1,287 @@
-import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  AuditLog,
+  AuditOutboxEntry,
+  AuditOutboxStatus,
+  Prisma,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { SiemService } from '../siem/siem.service';
+import { SiemDeliveryError, SiemService } from '../siem/siem.service';
 import { LoggerService } from '../common/services/logger.service';
+import { AuditQueueRegistry } from './queue/audit-queue.registry';
+import { AuditEvent } from './audit.producer.service';
 
+const SIEM_ATTEMPTS = 3;
+const OUTBOX_ATTEMPTS = 10;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 500;
+
+type OutboxPayload = AuditEvent & { timestamp: string };
+
+// Prisma only accepts SQL NULL for nullable JSON columns as DbNull
+const toJson = (value: unknown) =>
+  value === null || value === undefined
+    ? Prisma.DbNull
+    : (value as Prisma.InputJsonValue);
+
+const retryDelay = (attempt: number) =>
+  Math.min(Math.pow(2, attempt) * 1000, MAX_RETRY_DELAY_MS);
+
+/**
+ * Relays audit events from the outbox to the audit log, then streams them to
+ * the SIEM destinations. Events a destination rejects after retries are kept
+ * as dead letters for that destination until they are replayed. Entries that
+ * cannot be written to the audit log after retries are marked FAILED, so they
+ * no longer hold up sealing.
+ */
 @Injectable()
-@Processor('audit-log')
-export class AuditConsumerService extends WorkerHost {
+export class AuditConsumerService implements OnModuleInit, OnModuleDestroy {
+  private readonly deliveries = new Set<Promise<void>>();
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly siemService: SiemService,
     private readonly logger: LoggerService,
-  ) {
-    super();
+    private readonly queues: AuditQueueRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.queues.active.subscribe((entry) => this.process(entry));
   }
 
-  async process(job: Job<any, any, string>): Promise<any> {
-    const { data } = job;
-    
+  async onModuleDestroy() {
+    await this.queues.active.close();
+    await this.settleDeliveries();
+  }
+
+  /** Waits for the SIEM deliveries that are still retrying */
+  async settleDeliveries(): Promise<void> {
+    await Promise.all(this.deliveries);
+  }
+
+  /**
+   * Writes a claimed outbox entry to the audit log and removes it from the
+   * outbox in one transaction. The log reuses the entry ID, so an entry that
+   * is processed twice is only logged once. SIEM delivery continues in the
+   * background so slow destinations don't hold up the queue.
+   */
+  async process(entry: AuditOutboxEntry): Promise<void> {
+    const { timestamp, ...event } = entry.payload as unknown as OutboxPayload;
+    const data = {
+      id: entry.id,
+      userId: event.userId ?? null,
+      action: event.action,
+      entity: event.entity,
+      entityId: event.entityId ?? null,
+      oldValues: toJson(event.oldValues),
+      newValues: toJson(event.newValues),
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+      sessionId: event.sessionId ?? null,
+      metadata: toJson(event.metadata),
+      timestamp: new Date(timestamp),
+    };
+
+    let auditLog: AuditLog;
     try {
-      // Write to database first
-      const auditLog = await this.prisma.auditLog.create({ data });
-      
-      // Stream to SIEM with retry logic
-      await this.streamToSiem(auditLog, 3);
-      
-      return auditLog;
+      [, auditLog] = await this.prisma.$transaction([
+        this.prisma.auditLog.createMany({ data: [data], skipDuplicates: true }),
+        this.prisma.auditLog.findUniqueOrThrow({ where: { id: entry.id } }),
+        this.prisma.auditOutboxEntry.delete({ where: { id: entry.id } }),
+      ]);
     } catch (error) {
-      this.logger.error(`Failed to process audit log: ${error.message}`, error.stack, {
-        jobId: job.id,
-        data: data,
-        error: error.message,
+      const message = (error as Error).message;
+      const exhausted = entry.attempts >= OUTBOX_ATTEMPTS;
+      this.logger.error(
+        exhausted
+          ? `Failed to write audit outbox entry ${entry.id}, giving up`
+          : `Failed to write audit outbox entry ${entry.id}, retrying later`,
+        (error as Error).stack,
+        { attempts: entry.attempts },
+      );
+      await this.prisma.auditOutboxEntry.update({
+        where: { id: entry.id },
+        data: exhausted
+          ? {
+              status: AuditOutboxStatus.FAILED,
+              lockedAt: null,
+              lastError: message,
+            }
+          : {
+              status: AuditOutboxStatus.PENDING,
+              lockedAt: null,
+              lastError: message,
+              availableAt: new Date(Date.now() + retryDelay(entry.attempts)),
+            },
       });
-      throw error;
+      return;
     }
+
+    const delivery = this.deliver(auditLog).finally(() =>
+      this.deliveries.delete(delivery),
+    );
+    this.deliveries.add(delivery);
   }
 
   /**
-   * Stream audit log to SIEM with retry logic
+   * Releases entries claimed by a process that stopped before finishing them
+   * and republishes entries that are due, including those committed inside a
+   * caller's transaction.
    */
-  private async streamToSiem(auditLog: any, maxRetries: number = 3): Promise<void> {
-    let retries = 0;
-    
-    while (retries < maxRetries) {
-      try {
-        await this.siemService.streamAuditLog({
-          id: auditLog.id,
-          userId: auditLog.userId,
-          action: auditLog.action,
-          entity: auditLog.entity,
-          entityId: auditLog.entityId,
-          oldValues: auditLog.oldValues,
-          newValues: auditLog.newValues,
-          ipAddress: auditLog.ipAddress,
-          userAgent: auditLog.userAgent,
-          sessionId: auditLog.sessionId,
-          metadata: auditLog.metadata,
-          timestamp: auditLog.timestamp,
-        });
-        
-        this.logger.log(`Audit log streamed to SIEM successfully`, {
+  @Cron(CronExpression.EVERY_MINUTE)
+  async sweepOutbox(now = new Date()) {
+    await this.prisma.auditOutboxEntry.updateMany({
+      where: {
+        status: AuditOutboxStatus.PROCESSING,
+        lockedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) },
+      },
+      data: { status: AuditOutboxStatus.PENDING, lockedAt: null },
+    });
+
+    const due = await this.prisma.auditOutboxEntry.findMany({
+      where: { status: AuditOutboxStatus.PENDING, availableAt: { lte: now } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: SWEEP_BATCH_SIZE,
+    });
+    for (const entry of due) {
+      this.queues.active.publish(entry.id);
+    }
+    return { published: due.length };
+  }
+
+  async findDeadLetters(params: { take?: number; includeReplayed?: boolean }) {
+    const { take = 50, includeReplayed = false } = params;
+    return this.prisma.auditDeadLetter.findMany({
+      where: includeReplayed ? {} : { replayedAt: null },
+      include: { auditLog: true },
+      orderBy: { createdAt: 'desc' },
+      take,
+    });
+  }
+
+  /** Streams a dead-lettered audit log to the SIEM again */
+  async replayDeadLetter(id: string) {
+    const deadLetter = await this.prisma.auditDeadLetter.findUnique({
+      where: { id },
+      include: { auditLog: true },
+    });
+    if (!deadLetter) {
+      throw new NotFoundException(`Dead letter with ID ${id} not found`);
+    }
+    if (deadLetter.replayedAt) {
+      return { id, delivered: true, error: null };
+    }
+
+    const failures = await this.streamToSiem(deadLetter.auditLog, 1, [
+      deadLetter.destination,
+    ]);
+    const error = failures[deadLetter.destination] ?? null;
+    await this.prisma.auditDeadLetter.update({
+      where: { id },
+      data: {
+        replayCount: { increment: 1 },
+        ...(error ? { error } : { replayedAt: new Date() }),
+      },
+    });
+    return { id, delivered: !error, error };
+  }
+
+  /** Replays every dead letter that has not been delivered yet */
+  async replayDeadLetters() {
+    const pending = await this.prisma.auditDeadLetter.findMany({
+      where: { replayedAt: null },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let delivered = 0;
+    for (const { id } of pending) {
+      const result = await this.replayDeadLetter(id);
+      if (result.delivered) delivered++;
+    }
+    return { replayed: delivered, failed: pending.length - delivered };
+  }
+
+  private async deliver(auditLog: AuditLog) {
+    try {
+      const failures = await this.streamToSiem(auditLog, SIEM_ATTEMPTS);
+      if (Object.keys(failures).length === 0) return;
+
+      await this.prisma.auditDeadLetter.createMany({
+        data: Object.entries(failures).map(([destination, error]) => ({
           auditLogId: auditLog.id,
-          action: auditLog.action,
-          entity: auditLog.entity,
-        });
-        
-        return; // Success, exit retry loop
+          destination,
+          error,
+          attempts: SIEM_ATTEMPTS,
+        })),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record undelivered audit log ${auditLog.id}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Streams an audit log to the SIEM destinations, backing off between
+   * attempts and retrying only the destinations that failed. Returns the
+   * last error of each destination that never accepted it.
+   */
+  private async streamToSiem(
+    auditLog: AuditLog,
+    maxAttempts: number,
+    destinations?: string[],
+  ): Promise<Record<string, string>> {
+    let targets = destinations;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.siemService.streamAuditLog(
+          {
+            id: auditLog.id,
+            userId: auditLog.userId,
+            action: auditLog.action,
+            entity: auditLog.entity,
+            entityId: auditLog.entityId,
+            oldValues: auditLog.oldValues,
+            newValues: auditLog.newValues,
+            ipAddress: auditLog.ipAddress,
+            userAgent: auditLog.userAgent,
+            sessionId: auditLog.sessionId,
+            metadata: auditLog.metadata,
+            timestamp: auditLog.timestamp,
+          },
+          targets,
+        );
+        return {};
       } catch (error) {
-        retries++;
-        
-        this.logger.warn(`Failed to stream audit log to SIEM (attempt ${retries}/${maxRetries})`, {
-          auditLogId: auditLog.id,
-          error: error.message,
-          retries,
-        });
-        
-        if (retries >= maxRetries) {
-          this.logger.error(`Failed to stream audit log to SIEM after ${maxRetries} attempts`, error.stack, {
-            auditLogId: auditLog.id,
-            error: error.message,
-          });
-          // Don't throw error to avoid failing the entire audit job
-          return;
-        }
-        
-        // Exponential backoff: wait 2^retries seconds
-        const delay = Math.pow(2, retries) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay));
+        const failures =
+          error instanceof SiemDeliveryError
+            ? error.failures
+            : Object.fromEntries(
+                (targets ?? this.siemService.destinations).map((name) => [
+                  name,
+                  (error as Error).message,
+                ]),
+              );
+        this.logger.warn(
+          `Failed to stream audit log to SIEM (attempt ${attempt}/${maxAttempts})`,
+          { auditLogId: auditLog.id, failures },
+        );
+        if (attempt >= maxAttempts) return failures;
+
+        targets = Object.keys(failures);
+        await new Promise((resolve) =>
+          setTimeout(resolve, retryDelay(attempt)),
+        );
       }
     }
   }
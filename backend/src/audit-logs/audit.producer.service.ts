@@ -1,26 +1,69 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { isUUID } from 'class-validator';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/services/logger.service';
+import { AuditQueueRegistry } from './queue/audit-queue.registry';
+
+export interface AuditEvent {
+  userId?: string | null;
+  action: string;
+  entity: string;
+  entityId?: string | null;
+  oldValues?: unknown;
+  newValues?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  sessionId?: string | null;
+  metadata?: unknown;
+}
 
 @Injectable()
 export class AuditProducerService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
+    private readonly queues: AuditQueueRegistry,
   ) {}
 
-  async addToAuditLog(data: any) {
+  /**
+   * Records an audit event in the outbox, from where the consumer writes it
+   * to the audit log and streams it to the SIEM. Pass the transaction of the
+   * change being audited so the event is committed, or rolled back, with it;
+   * those events are picked up by the outbox sweep once committed.
+   */
+  async addToAuditLog(event: AuditEvent, tx?: Prisma.TransactionClient) {
     try {
-      // For now, directly write to database without queue
-      // TODO: Implement proper queue when BullMQ is available
-      await this.prisma.auditLog.create({ data });
-      this.logger.debug('Audit log created directly', { action: data.action, entity: data.entity });
-    } catch (error) {
-      this.logger.error('Failed to create audit log', error.stack, { 
-        action: data.action, 
-        entity: data.entity,
-        error: error.message 
+      const entry = await (tx ?? this.prisma).auditOutboxEntry.create({
+        data: {
+          payload: {
+            ...event,
+            // The audit log only stores UUIDs, so an ID taken from a bad
+            // request would never be written
+            userId: this.uuidOrNull(event.userId),
+            entityId: this.uuidOrNull(event.entityId),
+            timestamp: new Date().toISOString(),
+          } as Prisma.InputJsonValue,
+        },
       });
+      if (!tx) {
+        this.queues.active.publish(entry.id);
+      }
+      return entry;
+    } catch (error) {
+      this.logger.error(
+        'Failed to record audit event',
+        (error as Error).stack,
+        {
+          action: event.action,
+          entity: event.entity,
+        },
+      );
+      throw error;
     }
   }
+
+  private uuidOrNull(id?: string | null): string | null {
+    return id && isUUID(id) ? id : null;
+  }
 }
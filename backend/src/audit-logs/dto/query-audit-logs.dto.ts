@@ -0,0 +1,83 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class AuditLogFiltersDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: 'User.update' })
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @ApiPropertyOptional({ example: 'User' })
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  entityId?: string;
+
+  @ApiPropertyOptional({ example: '203.0.113.7' })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiPropertyOptional({
+    description: 'HTTP status code recorded in the log metadata',
+    example: 403,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(599)
+  statusCode?: number;
+
+  @ApiPropertyOptional({ example: '2025-01-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2025-01-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class QueryAuditLogsDto extends AuditLogFiltersDto {
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  take?: number;
+
+  @ApiPropertyOptional({
+    description: 'ID of the last log of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'jsonl'] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export class ExportAuditLogsDto extends AuditLogFiltersDto {
+  @ApiPropertyOptional({ enum: AUDIT_EXPORT_FORMATS, default: 'csv' })
+  @IsOptional()
+  @IsIn(AUDIT_EXPORT_FORMATS)
+  format?: AuditExportFormat;
+}
@@ -0,0 +1,24 @@
+import { AuditOutboxEntry } from '@prisma/client';
+
+export type AuditQueueDriver = 'memory' | 'postgres';
+
+export type AuditQueueHandler = (entry: AuditOutboxEntry) => Promise<void>;
+
+/**
+ * Hands committed audit outbox entries to the consumer. The outbox table is
+ * the source of truth, so a queue only decides when and where an entry is
+ * processed; entries a queue never delivers are picked up again by the
+ * outbox sweep.
+ */
+export interface AuditQueue {
+  readonly driver: AuditQueueDriver;
+
+  /** Signals that an outbox entry was committed and is ready to process */
+  publish(entryId: string): void;
+
+  /** Starts handing claimed entries to the handler, one at a time */
+  subscribe(handler: AuditQueueHandler): void;
+
+  /** Stops delivering and waits for the entry in progress */
+  close(): Promise<void>;
+}
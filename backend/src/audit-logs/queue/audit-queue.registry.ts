@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditQueue, AuditQueueDriver } from './audit-queue.interface';
+import { MemoryAuditQueue } from './memory-audit.queue';
+import { PostgresAuditQueue } from './postgres-audit.queue';
+import { LoggerService } from '../../common/services/logger.service';
+
+@Injectable()
+export class AuditQueueRegistry {
+  private readonly queues = new Map<AuditQueueDriver, AuditQueue>();
+
+  /** Queue chosen with AUDIT_QUEUE_DRIVER, the in-process queue by default */
+  readonly active: AuditQueue;
+
+  constructor(
+    configService: ConfigService,
+    logger: LoggerService,
+    memoryQueue: MemoryAuditQueue,
+    postgresQueue: PostgresAuditQueue,
+  ) {
+    for (const queue of [memoryQueue, postgresQueue]) {
+      this.queues.set(queue.driver, queue);
+    }
+
+    const driver =
+      configService.get<string>('AUDIT_QUEUE_DRIVER') || memoryQueue.driver;
+    const queue = this.queues.get(driver as AuditQueueDriver);
+    if (!queue) {
+      logger.warn(
+        `Unknown audit queue driver "${driver}", using the in-process queue. Supported: ${Array.from(this.queues.keys()).join(', ')}`,
+      );
+    }
+    this.active = queue ?? memoryQueue;
+  }
+}
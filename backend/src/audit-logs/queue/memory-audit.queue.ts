@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { AuditOutboxStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/services/logger.service';
+import { AuditQueue, AuditQueueHandler } from './audit-queue.interface';
+
+/**
+ * Processes entries in this process right after they are published. Entries
+ * are still claimed in the outbox, so a second instance never processes the
+ * same entry twice, but each instance only processes what it published.
+ */
+@Injectable()
+export class MemoryAuditQueue implements AuditQueue {
+  readonly driver = 'memory' as const;
+
+  private readonly pending = new Set<string>();
+  private handler: AuditQueueHandler | null = null;
+  private draining: Promise<void> | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  publish(entryId: string): void {
+    if (this.closed) return;
+    this.pending.add(entryId);
+    this.scheduleDrain();
+  }
+
+  subscribe(handler: AuditQueueHandler): void {
+    this.handler = handler;
+    this.scheduleDrain();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.draining;
+  }
+
+  private scheduleDrain() {
+    if (this.draining || !this.handler || this.pending.size === 0) return;
+    this.draining = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => this.drain())
+      .finally(() => {
+        this.draining = null;
+        if (!this.closed) this.scheduleDrain();
+      });
+  }
+
+  private async drain() {
+    for (const entryId of this.pending) {
+      if (this.closed) return;
+      this.pending.delete(entryId);
+      try {
+        const claimed = await this.prisma.auditOutboxEntry.updateMany({
+          where: { id: entryId, status: AuditOutboxStatus.PENDING },
+          data: {
+            status: AuditOutboxStatus.PROCESSING,
+            lockedAt: new Date(),
+            attempts: { increment: 1 },
+          },
+        });
+        if (claimed.count === 0) continue;
+
+        const entry = await this.prisma.auditOutboxEntry.findUnique({
+          where: { id: entryId },
+        });
+        if (entry) await this.handler!(entry);
+      } catch (error) {
+        this.logger.error(
+          `Failed to process audit outbox entry ${entryId}`,
+          (error as Error).stack,
+        );
+      }
+    }
+  }
+}
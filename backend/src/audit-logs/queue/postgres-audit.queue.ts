@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuditOutboxEntry } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoggerService } from '../../common/services/logger.service';
+import { AuditQueue, AuditQueueHandler } from './audit-queue.interface';
+
+const BATCH_SIZE = 50;
+const DEFAULT_POLL_MS = 1000;
+
+/**
+ * Polls the outbox table for due entries. Rows are claimed with
+ * `FOR UPDATE SKIP LOCKED`, so any number of instances can share the work
+ * without Redis.
+ */
+@Injectable()
+export class PostgresAuditQueue implements AuditQueue {
+  readonly driver = 'postgres' as const;
+
+  private readonly pollMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    configService: ConfigService,
+  ) {
+    this.pollMs =
+      Number(configService.get<string>('AUDIT_QUEUE_POLL_MS')) ||
+      DEFAULT_POLL_MS;
+  }
+
+  // Committed rows are found by the next poll
+  publish(): void {}
+
+  subscribe(handler: AuditQueueHandler): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.polling) return;
+      this.polling = this.poll(handler).finally(() => {
+        this.polling = null;
+      });
+    }, this.pollMs);
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.polling;
+  }
+
+  private async poll(handler: AuditQueueHandler) {
+    try {
+      for (;;) {
+        const entries = await this.claimBatch();
+        for (const entry of entries) {
+          await handler(entry);
+        }
+        if (entries.length < BATCH_SIZE || !this.timer) return;
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to poll the audit outbox',
+        (error as Error).stack,
+      );
+    }
+  }
+
+  private claimBatch() {
+    return this.prisma.$queryRaw<AuditOutboxEntry[]>`
+      UPDATE audit_outbox
+      SET status = 'PROCESSING', "lockedAt" = now(), attempts = attempts + 1
+      WHERE id IN (
+        SELECT id FROM audit_outbox
+        WHERE status = 'PENDING' AND "availableAt" <= now()
+        ORDER BY "createdAt"
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+  }
+}
@@ -132,14 +132,20 @@ describe('AuthController', () => {
       mockAuthService.refreshToken.mockResolvedValue({
         user: mockUser,
         token: mockToken,
+        refreshToken: 'new-refresh-token',
       });
 
-      const result = await controller.refreshToken({ user: { id: '1' } });
+      const result = await controller.refreshToken({
+        refreshToken: 'refresh-token',
+      });
 
-      expect(mockAuthService.refreshToken).toHaveBeenCalledWith('1');
+      expect(mockAuthService.refreshToken).toHaveBeenCalledWith(
+        'refresh-token',
+      );
       expect(result).toEqual({
         user: mockUser,
         token: mockToken,
+        refreshToken: 'new-refresh-token',
       });
     });
   });
@@ -151,11 +157,11 @@ describe('AuthController', () => {
       };
 
       const result = await controller.logout(
-        { user: { id: '1' } },
+        { user: { id: '1', sessionId: 'session-1' } },
         mockResponse as any,
       );
 
-      expect(mockAuthService.logout).toHaveBeenCalledWith('1');
+      expect(mockAuthService.logout).toHaveBeenCalledWith('1', 'session-1');
       expect(mockResponse.clearCookie).toHaveBeenCalledWith('jwt_token');
       expect(result).toEqual({
         message: 'Logged out successfully',
@@ -202,7 +208,7 @@ describe('AuthController', () => {
           organizationId: undefined,
         },
         token: 'test-token',
-        expiresIn: '24h',
+        expiresIn: '15m',
       });
     });
   });
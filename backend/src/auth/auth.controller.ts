@@ -13,6 +13,7 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import type { Response } from 'express';
 import { AuthService } from './auth.service';
 import { GoogleLoginDto } from './dto/google-login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Public } from './decorators/public.decorator';
@@ -38,13 +39,14 @@ export class AuthController {
   }
 
   @Post('refresh')
-  @UseGuards(JwtAuthGuard)
+  @Public()
   @Throttle({ default: { ttl: 60_000, limit: 30 } })
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Refresh JWT token' })
-  @ApiBearerAuth()
-  async refreshToken(@Request() req): Promise<AuthResponseDto> {
-    return this.authService.refreshToken(req.user.id);
+  @ApiOperation({ summary: 'Exchange a refresh token for new tokens' })
+  async refreshToken(
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ): Promise<AuthResponseDto> {
+    return this.authService.refreshToken(refreshTokenDto.refreshToken);
   }
 
   @Post('logout')
@@ -57,7 +59,7 @@ export class AuthController {
     @Request() req,
     @Res() res: Response,
   ): Promise<{ message: string }> {
-    await this.authService.logout?.(req.user.id);
+    await this.authService.logout?.(req.user.id, req.user.sessionId);
     res?.clearCookie?.('jwt_token');
     return { message: 'Logged out successfully' };
   }
@@ -82,7 +84,7 @@ export class AuthController {
         organizationId: user.organizationId || undefined,
       },
       token: req.headers?.authorization?.replace('Bearer ', '') || undefined,
-      expiresIn: '24h',
+      expiresIn: '15m',
     };
   }
 }
@@ -3,6 +3,7 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
+import { PermissionsExplainController } from './permissions-explain.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { FirebaseService } from './firebase.service';
@@ -10,6 +11,7 @@ import { UsersModule } from '../users/users.module';
 import { OrganizationsModule } from '../organizations/organizations.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { DeviceSessionsModule } from '../device-sessions/device-sessions.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
   imports: [
@@ -19,7 +21,7 @@ import { DeviceSessionsModule } from '../device-sessions/device-sessions.module'
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '24h'),
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '15m'),
         },
       }),
       inject: [ConfigService],
@@ -28,8 +30,9 @@ import { DeviceSessionsModule } from '../device-sessions/device-sessions.module'
     OrganizationsModule,
     PrismaModule,
     DeviceSessionsModule,
+    RealtimeModule,
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, PermissionsExplainController],
   providers: [AuthService, JwtStrategy, FirebaseService],
   exports: [AuthService, JwtStrategy, PassportModule],
 })
@@ -0,0 +1,335 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { AuthService } from './auth.service';
+import { FirebaseService } from './firebase.service';
+import { UsersService } from '../users/users.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { DeviceSessionsService } from '../device-sessions/device-sessions.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { RealtimeService } from '../realtime/realtime.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const mockPrismaService = {
+    authProvider: { findUnique: jest.fn(), upsert: jest.fn() },
+    userSession: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const mockJwtService = { sign: jest.fn() };
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+  };
+  const mockUsersService = {
+    findById: jest.fn(),
+    findByEmail: jest.fn(),
+    create: jest.fn(),
+  };
+  const mockOrganizationsService = { validateUserDomain: jest.fn() };
+  const mockEncryptionService = {
+    encrypt: jest.fn((value: string) => ({ encrypted: true, data: value })),
+  };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  const mockDeviceSessionsService = { revokeSession: jest.fn() };
+  const mockRealtimeService = { endSessions: jest.fn() };
+
+  const user = {
+    id: 'user-1',
+    email: 'test@example.com',
+    firstName: 'Test',
+    lastName: 'User',
+    isActive: true,
+    organizationId: 'org-1',
+    userRoles: [{ role: { name: 'EMPLOYEE' } }],
+  };
+  const session = {
+    id: 'token-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    deviceSessionId: 'device-1',
+    isActive: true,
+    rotatedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: FirebaseService, useValue: {} },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: DeviceSessionsService, useValue: mockDeviceSessionsService },
+        { provide: EncryptionService, useValue: mockEncryptionService },
+        { provide: RealtimeService, useValue: mockRealtimeService },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    mockPrismaService.$transaction.mockImplementation((callback) =>
+      callback(mockPrismaService),
+    );
+    mockJwtService.sign.mockReturnValue('access-token');
+    mockUsersService.findById.mockResolvedValue(user);
+    mockOrganizationsService.validateUserDomain.mockResolvedValue({
+      id: 'org-1',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('loginWithIdentity', () => {
+    const identity = {
+      provider: 'sso:idp-1',
+      subject: 'okta-123',
+      email: 'test@example.com',
+      emailVerified: true,
+      firstName: 'Test',
+      lastName: 'User',
+      accessToken: 'idp-access-token',
+    };
+
+    it('should link the provider account to the user with the same email', async () => {
+      mockPrismaService.authProvider.findUnique.mockResolvedValue(null);
+      mockUsersService.findByEmail.mockResolvedValue(user);
+
+      const result = await service.loginWithIdentity(identity, {
+        organizationId: 'org-1',
+        allowProvisioning: false,
+      });
+
+      expect(result.user.id).toBe('user-1');
+      expect(mockUsersService.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.authProvider.upsert).toHaveBeenCalledWith({
+        where: {
+          provider_providerId: {
+            provider: 'sso:idp-1',
+            providerId: 'okta-123',
+          },
+        },
+        create: {
+          userId: 'user-1',
+          provider: 'sso:idp-1',
+          providerId: 'okta-123',
+          accessToken: JSON.stringify({
+            encrypted: true,
+            data: 'idp-access-token',
+          }),
+          refreshToken: null,
+          expiresAt: null,
+        },
+        update: expect.objectContaining({ refreshToken: null }),
+      });
+    });
+
+    it('should sign in linked accounts without matching the email', async () => {
+      mockPrismaService.authProvider.findUnique.mockResolvedValue({ user });
+
+      await service.loginWithIdentity({ ...identity, emailVerified: false });
+
+      expect(mockUsersService.findByEmail).not.toHaveBeenCalled();
+      expect(mockPrismaService.userSession.create).toHaveBeenCalled();
+    });
+
+    it('should provision first-time users in the organization of their domain', async () => {
+      mockPrismaService.authProvider.findUnique.mockResolvedValue(null);
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockUsersService.create.mockResolvedValue(user);
+
+      await service.loginWithIdentity(identity, { organizationId: 'org-1' });
+
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'test@example.com',
+          firstName: 'Test',
+          lastName: 'User',
+          organizationId: 'org-1',
+        }),
+      );
+    });
+
+    it('should reject users the identity provider may not sign in', async () => {
+      mockPrismaService.authProvider.findUnique.mockResolvedValue(null);
+
+      mockOrganizationsService.validateUserDomain.mockResolvedValueOnce({
+        id: 'org-2',
+      });
+      await expect(
+        service.loginWithIdentity(identity, { organizationId: 'org-1' }),
+      ).rejects.toThrow(
+        'Your email domain does not belong to this organization.',
+      );
+
+      mockUsersService.findByEmail.mockResolvedValueOnce(null);
+      await expect(
+        service.loginWithIdentity(identity, { allowProvisioning: false }),
+      ).rejects.toThrow(
+        'No account exists for you yet. Please contact your administrator.',
+      );
+
+      mockUsersService.findByEmail.mockResolvedValueOnce(user);
+      await expect(
+        service.loginWithIdentity({ ...identity, emailVerified: false }),
+      ).rejects.toThrow(
+        'Your email address is not verified by your identity provider.',
+      );
+
+      mockUsersService.findByEmail.mockResolvedValueOnce(user);
+      await expect(
+        service.loginWithIdentity({ ...identity, emailVerified: undefined }),
+      ).rejects.toThrow(
+        'Your email address is not verified by your identity provider.',
+      );
+
+      expect(mockUsersService.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.authProvider.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should rotate the refresh token within the session', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue(session);
+      mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.refreshToken('old-token');
+
+      expect(mockPrismaService.userSession.findUnique).toHaveBeenCalledWith({
+        where: {
+          sessionToken: createHash('sha256').update('old-token').digest('hex'),
+        },
+      });
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', isActive: true, rotatedAt: null },
+        data: expect.objectContaining({ isActive: false }),
+      });
+      expect(result.token).toBe('access-token');
+      expect(result.refreshToken).toEqual(expect.any(String));
+      expect(result.refreshToken).not.toBe('old-token');
+      expect(mockPrismaService.userSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          familyId: 'family-1',
+          deviceSessionId: 'device-1',
+          sessionToken: createHash('sha256')
+            .update(result.refreshToken)
+            .digest('hex'),
+        }),
+      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: 'user-1' }),
+        { jwtid: 'family-1' },
+      );
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue({
+        ...session,
+        isActive: false,
+        rotatedAt: new Date(Date.now() - 60_000),
+      });
+
+      await expect(service.refreshToken('old-token')).rejects.toThrow(
+        'Refresh token has already been used',
+      );
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', isActive: true },
+        data: { isActive: false, revokedAt: expect.any(Date) },
+      });
+      expect(mockRealtimeService.endSessions).toHaveBeenCalledWith([
+        'family-1',
+      ]);
+      expect(mockPrismaService.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should not revoke the session for a concurrent refresh', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValue({
+        ...session,
+        isActive: false,
+        rotatedAt: new Date(),
+      });
+
+      await expect(service.refreshToken('old-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.userSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked and expired tokens', async () => {
+      mockPrismaService.userSession.findUnique.mockResolvedValueOnce(null);
+      await expect(service.refreshToken('unknown')).rejects.toThrow(
+        'Invalid refresh token',
+      );
+
+      mockPrismaService.userSession.findUnique.mockResolvedValueOnce({
+        ...session,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(service.refreshToken('expired')).rejects.toThrow(
+        'Session has expired or was revoked',
+      );
+      expect(mockPrismaService.userSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should look up an active, unexpired token of the session', async () => {
+      mockPrismaService.userSession.findFirst.mockResolvedValue(null);
+
+      await expect(service.isSessionActive('family-1', 'user-1')).resolves.toBe(
+        false,
+      );
+      expect(mockPrismaService.userSession.findFirst).toHaveBeenCalledWith({
+        where: {
+          familyId: 'family-1',
+          userId: 'user-1',
+          isActive: true,
+          expiresAt: { gt: expect.any(Date) },
+        },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session, its device and its live streams', async () => {
+      mockPrismaService.userSession.findFirst.mockResolvedValue({
+        deviceSessionId: 'device-1',
+      });
+
+      await service.logout('user-1', 'family-1');
+
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', isActive: true },
+        data: { isActive: false, revokedAt: expect.any(Date) },
+      });
+      expect(mockDeviceSessionsService.revokeSession).toHaveBeenCalledWith(
+        'user-1',
+        'device-1',
+      );
+      expect(mockRealtimeService.endSessions).toHaveBeenCalledWith([
+        'family-1',
+      ]);
+    });
+  });
+});
@@ -5,18 +5,75 @@ import {
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import { User } from '@prisma/client';
+import { Prisma, User } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { FirebaseService } from './firebase.service';
 import { UsersService } from '../users/users.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/services/logger.service';
+import { EncryptionService } from '../common/services/encryption.service';
 import { OrganizationsService } from '../organizations/organizations.service';
 import { DeviceSessionsService } from '../device-sessions/device-sessions.service';
+import { RealtimeService } from '../realtime/realtime.service';
 
 type UserWithRoles = User & { userRoles: { role: { name: string } }[] };
 
+interface DeviceInfo {
+  deviceId?: string;
+  platform?: string;
+  appVersion?: string;
+  deviceName?: string;
+  osVersion?: string;
+}
+
+/** A user signed in by Firebase or an organization's identity provider */
+export interface ExternalIdentity {
+  /** AuthProvider.provider, e.g. google or sso:<identity provider ID> */
+  provider: string;
+  /** Stable ID of the user at the provider */
+  subject: string;
+  email: string;
+  emailVerified?: boolean;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  avatarUrl?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  tokenExpiresAt?: Date;
+}
+
+export interface IdentityLoginOptions {
+  /** Organization the identity provider belongs to */
+  organizationId?: string;
+  /** Whether first-time users get an account; defaults to true */
+  allowProvisioning?: boolean;
+  deviceInfo?: DeviceInfo;
+}
+
+// A rotated token presented again this soon is most likely a refresh racing
+// in another tab, so it is refused without revoking the session
+const REUSE_GRACE_MS = 10_000;
+
+const DURATION_UNITS_MS = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Milliseconds in a duration such as 15m or 7d */
+const durationToMs = (duration: string) => {
+  const match = /^(\d+)([smhd])$/.exec(duration);
+  if (!match) {
+    throw new Error(`Invalid duration ${duration}`);
+  }
+  return (
+    Number(match[1]) *
+    DURATION_UNITS_MS[match[2] as keyof typeof DURATION_UNITS_MS]
+  );
+};
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
 @Injectable()
 export class AuthService {
   constructor(
@@ -28,6 +85,8 @@ export class AuthService {
     private readonly logger: LoggerService,
     private readonly organizationsService: OrganizationsService,
     private readonly deviceSessionsService: DeviceSessionsService,
+    private readonly encryption: EncryptionService,
+    private readonly realtimeService: RealtimeService,
   ) {}
 
   async validateFirebaseToken(idToken: string): Promise<any> {
@@ -40,43 +99,56 @@ export class AuthService {
   }
 
   async loginWithGoogle(
-    idToken: string, 
-    deviceInfo?: {
-      deviceId?: string;
-      platform?: string;
-      appVersion?: string;
-      deviceName?: string;
-      osVersion?: string;
-    }
+    idToken: string,
+    deviceInfo?: DeviceInfo,
   ): Promise<AuthResponseDto> {
     const firebaseUser = await this.validateFirebaseToken(idToken);
-    const organization = await this.organizationsService.validateUserDomain(
-      firebaseUser.email,
-    );
-    if (!organization) {
-      throw new UnauthorizedException('Your organization is not registered.');
-    }
-
-    let user: User | null = await this.usersService.findByEmail(
-      firebaseUser.email,
-    );
-    if (!user) {
-      const createUserDto: CreateUserDto = {
+    return this.loginWithIdentity(
+      {
+        provider: 'google',
+        subject: firebaseUser.uid,
         email: firebaseUser.email,
+        emailVerified: firebaseUser.email_verified,
         firstName: firebaseUser.name?.split(' ')[0] || '',
         lastName: firebaseUser.name?.split(' ').slice(1).join(' ') || '',
         displayName: firebaseUser.name,
         avatarUrl: firebaseUser.picture,
-        isActive: true,
-        emailVerified: firebaseUser.email_verified,
-        organizationId: organization.id,
-      };
-      user = await this.usersService.create(createUserDto);
+      },
+      { deviceInfo },
+    );
+  }
+
+  /**
+   * Signs in a user authenticated by an external provider. Known identities
+   * are found through AuthProvider; new ones are linked to the account with
+   * the same email or, when allowed, provisioned in the organization that
+   * owns the email domain.
+   */
+  async loginWithIdentity(
+    identity: ExternalIdentity,
+    options: IdentityLoginOptions = {},
+  ): Promise<AuthResponseDto> {
+    const organization = await this.organizationsService.validateUserDomain(
+      identity.email,
+    );
+    if (!organization) {
+      throw new UnauthorizedException('Your organization is not registered.');
+    }
+    if (options.organizationId && organization.id !== options.organizationId) {
+      throw new UnauthorizedException(
+        'Your email domain does not belong to this organization.',
+      );
     }
 
-    if (!user) {
-      throw new UnauthorizedException('Failed to create or retrieve user');
+    const user = await this.findOrProvisionUser(
+      identity,
+      organization.id,
+      options.allowProvisioning ?? true,
+    );
+    if (user.isActive === false) {
+      throw new UnauthorizedException('User account is inactive');
     }
+    await this.linkIdentity(user.id, identity);
 
     const userWithRoles = (await this.usersService.findById(user.id, user.id, {
       includeRoles: true,
@@ -91,13 +163,12 @@ export class AuthService {
       );
     }
 
-    const token = await this.generateToken(userWithRoles);
-    const primaryRole = userWithRoles.userRoles[0]?.role?.name || 'USER';
-
     // Record device session if device info is provided
+    let deviceSessionId: string | undefined;
+    const { deviceInfo } = options;
     if (deviceInfo?.deviceId) {
       try {
-        await this.deviceSessionsService.recordSession({
+        const deviceSession = await this.deviceSessionsService.recordSession({
           userId: user.id,
           deviceId: deviceInfo.deviceId,
           platform: deviceInfo.platform,
@@ -105,7 +176,8 @@ export class AuthService {
           deviceName: deviceInfo.deviceName,
           osVersion: deviceInfo.osVersion,
         });
-        
+        deviceSessionId = deviceSession.id;
+
         this.logger.log(`Device session recorded for user ${user.id}`, {
           userId: user.id,
           deviceId: deviceInfo.deviceId,
@@ -121,30 +193,207 @@ export class AuthService {
       }
     }
 
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        avatarUrl: user.avatar || undefined,
-        role: primaryRole,
-        organizationId: user.organizationId || undefined,
+    // Every login starts a new session, the family of its refresh tokens
+    const tokens = await this.issueTokens(
+      userWithRoles,
+      randomUUID(),
+      deviceSessionId,
+    );
+    return this.toAuthResponse(userWithRoles, tokens);
+  }
+
+  private async findOrProvisionUser(
+    identity: ExternalIdentity,
+    organizationId: string,
+    allowProvisioning: boolean,
+  ): Promise<User> {
+    const link = await this.prisma.authProvider.findUnique({
+      where: {
+        provider_providerId: {
+          provider: identity.provider,
+          providerId: identity.subject,
+        },
       },
-      token,
-      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN', '24h'),
+      include: { user: true },
+    });
+    if (link) {
+      return link.user;
+    }
+
+    const existing = await this.usersService.findByEmail(identity.email);
+    if (existing) {
+      // Linking trusts the provider's claim to the address, so it has to
+      // vouch for it
+      if (identity.emailVerified !== true) {
+        throw new UnauthorizedException(
+          'Your email address is not verified by your identity provider.',
+        );
+      }
+      if (
+        existing.organizationId &&
+        existing.organizationId !== organizationId
+      ) {
+        throw new UnauthorizedException(
+          'Your account belongs to a different organization.',
+        );
+      }
+      return existing;
+    }
+
+    if (!allowProvisioning) {
+      throw new UnauthorizedException(
+        'No account exists for you yet. Please contact your administrator.',
+      );
+    }
+    const createUserDto: CreateUserDto = {
+      email: identity.email,
+      firstName: identity.firstName || '',
+      lastName: identity.lastName || '',
+      displayName: identity.displayName,
+      avatarUrl: identity.avatarUrl,
+      isActive: true,
+      emailVerified: identity.emailVerified,
+      organizationId,
     };
+    return this.usersService.create(createUserDto);
   }
 
-  async refreshToken(userId: string): Promise<AuthResponseDto> {
-    const user = (await this.usersService.findById(userId, userId, {
-      includeRoles: true,
-    })) as UserWithRoles;
+  /** Records which provider account signs in as the user */
+  private async linkIdentity(userId: string, identity: ExternalIdentity) {
+    // Provider tokens are only kept encrypted
+    const encrypt = (token?: string) =>
+      token ? JSON.stringify(this.encryption.encrypt(token)) : null;
+    const tokens = {
+      accessToken: encrypt(identity.accessToken),
+      refreshToken: encrypt(identity.refreshToken),
+      expiresAt: identity.tokenExpiresAt ?? null,
+    };
+
+    await this.prisma.authProvider.upsert({
+      where: {
+        provider_providerId: {
+          provider: identity.provider,
+          providerId: identity.subject,
+        },
+      },
+      create: {
+        userId,
+        provider: identity.provider,
+        providerId: identity.subject,
+        ...tokens,
+      },
+      update: tokens,
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for a new access and refresh token. Refresh
+   * tokens work once; a rotated token presented again was most likely
+   * stolen, so the whole session is revoked.
+   */
+  async refreshToken(refreshToken: string): Promise<AuthResponseDto> {
+    const session = await this.prisma.userSession.findUnique({
+      where: { sessionToken: hashToken(refreshToken) },
+    });
+    if (!session) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (session.rotatedAt) {
+      if (Date.now() - session.rotatedAt.getTime() > REUSE_GRACE_MS) {
+        await this.revokeSession(session.familyId);
+        this.logger.warn(
+          `Refresh token reused, revoked session ${session.familyId}`,
+          { userId: session.userId },
+        );
+      }
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    if (!session.isActive || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Session has expired or was revoked');
+    }
+
+    const user = (await this.usersService.findById(
+      session.userId,
+      session.userId,
+      { includeRoles: true },
+    )) as UserWithRoles;
     if (!user || !user.userRoles) {
       throw new UnauthorizedException('User not found');
     }
+    if (!user.isActive) {
+      throw new UnauthorizedException('User account is inactive');
+    }
+
+    const tokens = await this.prisma.$transaction(async (tx) => {
+      // Only one of several concurrent refreshes can rotate the token
+      const now = new Date();
+      const rotated = await tx.userSession.updateMany({
+        where: { id: session.id, isActive: true, rotatedAt: null },
+        data: { isActive: false, rotatedAt: now, lastAccessedAt: now },
+      });
+      if (rotated.count === 0) {
+        throw new UnauthorizedException('Refresh token has already been used');
+      }
+      return this.issueTokens(
+        user,
+        session.familyId,
+        session.deviceSessionId ?? undefined,
+        tx,
+      );
+    });
+    return this.toAuthResponse(user, tokens);
+  }
+
+  /** Whether the session an access token was issued for is still active */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.prisma.userSession.findFirst({
+      where: {
+        familyId: sessionId,
+        userId,
+        isActive: true,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+    return !!session;
+  }
 
-    const token = await this.generateToken(user);
+  /**
+   * Stores a new refresh token for the session and signs an access token
+   * whose `jti` is the session ID, so revoking the session rejects it.
+   */
+  private async issueTokens(
+    user: UserWithRoles,
+    sessionId: string,
+    deviceSessionId?: string,
+    db: Prisma.TransactionClient = this.prisma,
+  ) {
+    const refreshToken = randomBytes(32).toString('base64url');
+    const refreshExpiresIn = this.configService.get<string>(
+      'JWT_REFRESH_EXPIRES_IN',
+      '7d',
+    );
+    await db.userSession.create({
+      data: {
+        userId: user.id,
+        familyId: sessionId,
+        deviceSessionId,
+        sessionToken: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + durationToMs(refreshExpiresIn)),
+      },
+    });
+
+    return {
+      token: await this.generateToken(user, sessionId),
+      refreshToken,
+    };
+  }
+
+  private toAuthResponse(
+    user: UserWithRoles,
+    tokens: { token: string; refreshToken: string },
+  ): AuthResponseDto {
     const primaryRole = user.userRoles[0]?.role?.name || 'USER';
 
     return {
@@ -157,12 +406,15 @@ export class AuthService {
         role: primaryRole,
         organizationId: user.organizationId || undefined,
       },
-      token,
-      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN', '24h'),
+      ...tokens,
+      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN', '15m'),
     };
   }
 
-  private async generateToken(user: UserWithRoles): Promise<string> {
+  private async generateToken(
+    user: UserWithRoles,
+    sessionId: string,
+  ): Promise<string> {
     const primaryRole = user.userRoles[0]?.role?.name || 'USER';
     const payload = {
       sub: user.id,
@@ -170,28 +422,37 @@ export class AuthService {
       role: primaryRole,
       organizationId: user.organizationId,
     };
-    return this.jwtService.sign(payload);
+    return this.jwtService.sign(payload, { jwtid: sessionId });
+  }
+
+  private async revokeSession(sessionId: string) {
+    await this.prisma.userSession.updateMany({
+      where: { familyId: sessionId, isActive: true },
+      data: { isActive: false, revokedAt: new Date() },
+    });
+    this.realtimeService.endSessions([sessionId]);
   }
 
   async validateUser(userId: string): Promise<User> {
     return this.usersService.findById(userId, userId, { includeRoles: true });
   }
 
-  async logout(userId: string): Promise<void> {
+  async logout(userId: string, sessionId: string): Promise<void> {
     try {
-      // Invalidate any active user sessions
-      await this.prisma.userSession.updateMany({
-        where: {
-          userId: userId,
-          isActive: true,
-        },
-        data: {
-          isActive: false,
-        },
+      // Invalidate the session the request was made with
+      const session = await this.prisma.userSession.findFirst({
+        where: { familyId: sessionId, userId, isActive: true },
+        select: { deviceSessionId: true },
       });
+      await this.revokeSession(sessionId);
 
-      // Deactivate device sessions
-      await this.deviceSessionsService.revokeAllSessions(userId);
+      // Deactivate the device session of the device logging out
+      if (session?.deviceSessionId) {
+        await this.deviceSessionsService.revokeSession(
+          userId,
+          session.deviceSessionId,
+        );
+      }
 
       this.logger.log(`User ${userId} logged out successfully`);
     } catch (error) {
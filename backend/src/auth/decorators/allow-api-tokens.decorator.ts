@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_API_TOKENS_KEY = 'allowApiTokens';
+export const AllowApiTokens = () => SetMetadata(ALLOW_API_TOKENS_KEY, true);
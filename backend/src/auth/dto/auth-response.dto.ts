@@ -61,8 +61,14 @@ export class AuthResponseDto {
   token: string;
 
   @ApiProperty({
-    description: 'Token expiration time',
-    example: '24h',
+    description: 'Opaque refresh token, valid for a single refresh',
+    example: 'Jx1QmVx7bZr3pX0sKk9hTqf2nE5wYcLd8uA4oGiRtMs',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Access token expiration time',
+    example: '15m',
   })
   expiresIn: string;
 }
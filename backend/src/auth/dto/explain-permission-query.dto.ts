@@ -0,0 +1,26 @@
+import { IsOptional, IsUUID, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ExplainPermissionQueryDto {
+  @ApiProperty({ example: 'projects' })
+  @Matches(/^[a-z_]+$/, { message: 'resource must be a permission resource' })
+  resource: string;
+
+  @ApiProperty({ example: 'update' })
+  @Matches(/^[a-z_]+$/, { message: 'action must be a permission action' })
+  action: string;
+
+  @ApiPropertyOptional({
+    description: 'Project to evaluate project-scoped grants against',
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Team to evaluate team-scoped grants against',
+  })
+  @IsOptional()
+  @IsUUID()
+  teamId?: string;
+}
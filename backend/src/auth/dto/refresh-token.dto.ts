@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token from the last login or refresh',
+    example: 'Jx1QmVx7bZr3pX0sKk9hTqf2nE5wYcLd8uA4oGiRtMs',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -1,14 +1,18 @@
 import {
   Injectable,
   ExecutionContext,
+  ForbiddenException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ALLOW_API_TOKENS_KEY } from '../decorators/allow-api-tokens.decorator';
+import { PERMISSIONS_KEY } from '../../common/guards/permission.guard';
 
+/** Accepts session JWTs as well as personal access and service account tokens */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['api-token', 'jwt']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -45,6 +49,22 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       );
     }
 
+    // API tokens only reach routes that name the permission they need, so a
+    // token's scopes always apply; routes without one are for sessions
+    if (user.apiTokenId && !this.acceptsApiTokens(context)) {
+      throw new ForbiddenException(
+        'API tokens cannot be used for this endpoint',
+      );
+    }
+
     return user;
   }
+
+  private acceptsApiTokens(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    return (
+      !!this.reflector.getAllAndOverride(ALLOW_API_TOKENS_KEY, targets) ||
+      !!this.reflector.getAllAndOverride(PERMISSIONS_KEY, targets)
+    );
+  }
 }
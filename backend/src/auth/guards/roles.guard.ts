@@ -1,12 +1,17 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { PrismaService } from '../../prisma/prisma.service';
+import { resolveGrantTarget } from '../../common/services/grant-scope';
+import {
+  applicableGrants,
+  PermissionSnapshotService,
+  SnapshotGrant,
+} from '../../common/services/permission-snapshot.service';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(
     private reflector: Reflector,
-    private prisma: PrismaService,
+    private permissionSnapshotService: PermissionSnapshotService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -25,15 +30,40 @@ export class RolesGuard implements CanActivate {
       return true;
     }
 
-    const { user } = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest();
+    const { user } = request;
 
     if (!user) {
       return false;
     }
 
+    // Unexpired grants that hold for the route's project or team. The `:id`
+    // of a route only names one when all its permissions share a resource
+    const resources = new Set(
+      requiredPermissions?.map((permission) => permission.split('.')[0]),
+    );
+    const grants = applicableGrants(
+      await this.permissionSnapshotService.get(user.id),
+      resolveGrantTarget(
+        request,
+        resources.size === 1 ? [...resources][0] : undefined,
+      ),
+    );
+
+    // API tokens act through scopes; roles alone never admit them
+    if (user.apiTokenId) {
+      return (
+        !!requiredPermissions?.length &&
+        requiredPermissions.every((permission) =>
+          user.scopes.includes(permission),
+        ) &&
+        this.checkUserPermissions(grants, requiredPermissions)
+      );
+    }
+
     // Check roles first
     if (requiredRoles && requiredRoles.length > 0) {
-      const hasRequiredRole = await this.checkUserRoles(user.id, requiredRoles);
+      const hasRequiredRole = this.checkUserRoles(grants, requiredRoles);
       if (hasRequiredRole) {
         return true;
       }
@@ -41,8 +71,8 @@ export class RolesGuard implements CanActivate {
 
     // Check permissions if roles check failed or no roles required
     if (requiredPermissions && requiredPermissions.length > 0) {
-      const hasRequiredPermissions = await this.checkUserPermissions(
-        user.id,
+      const hasRequiredPermissions = this.checkUserPermissions(
+        grants,
         requiredPermissions,
       );
       return hasRequiredPermissions;
@@ -51,91 +81,28 @@ export class RolesGuard implements CanActivate {
     return false;
   }
 
-  private async checkUserRoles(
-    userId: string,
+  private checkUserRoles(
+    grants: SnapshotGrant[],
     requiredRoles: string[],
-  ): Promise<boolean> {
-    // Get user's roles
-    const userRoles = await this.prisma.userRole.findMany({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-        },
-      },
-      include: {
-        role: true,
-      },
-    });
-
-    const userRoleNames = userRoles.map((ur) => ur.role.name);
+  ): boolean {
+    const userRoleNames = grants
+      .filter((grant) => grant.source === 'role')
+      .map((grant) => grant.name);
 
     // Check if user has any of the required roles
-    const hasRequiredRole = requiredRoles.some((role) =>
-      userRoleNames.includes(role),
-    );
-
-    return hasRequiredRole;
+    return requiredRoles.some((role) => userRoleNames.includes(role));
   }
 
-  private async checkUserPermissions(
-    userId: string,
+  private checkUserPermissions(
+    grants: SnapshotGrant[],
     requiredPermissions: string[],
-  ): Promise<boolean> {
-    // Get user's permissions from roles
-    const userRolePermissions = await this.prisma.userRole.findMany({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-        },
-      },
-      include: {
-        role: {
-          include: {
-            rolePermissions: {
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Get user's direct permissions
-    const userDirectPermissions = await this.prisma.userPermission.findMany({
-      where: {
-        userId,
-        isActive: true,
-      },
-      include: {
-        permission: true,
-      },
-    });
-
-    // Collect all permission names
-    const rolePermissionNames = userRolePermissions
-      .flatMap((ur) => ur.role.rolePermissions)
-      .map((rp) => rp.permission.name);
-
-    const directPermissionNames = userDirectPermissions.map(
-      (up) => up.permission.name,
-    );
-
-    const allPermissionNames = [
-      ...rolePermissionNames,
-      ...directPermissionNames,
-    ];
+  ): boolean {
+    // Collect the permissions of roles and direct grants
+    const allPermissionNames = grants.flatMap((grant) => grant.permissions);
 
     // Check if user has all required permissions
-    const hasAllPermissions = requiredPermissions.every((permission) => {
-      const hasPermission = allPermissionNames.includes(permission);
-      return hasPermission;
-    });
-
-    return hasAllPermissions;
+    return requiredPermissions.every((permission) =>
+      allPermissionNames.includes(permission),
+    );
   }
 }
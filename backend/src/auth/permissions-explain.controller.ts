@@ -0,0 +1,34 @@
+import { Controller, Get, Query, Request, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AllowApiTokens } from './decorators/allow-api-tokens.decorator';
+import { ExplainPermissionQueryDto } from './dto/explain-permission-query.dto';
+import { PermissionService } from '../common/services/permission.service';
+import { PermissionExplanation } from '../common/services/permission-snapshot.service';
+
+@ApiTags('Authentication')
+@Controller('auth/permissions')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PermissionsExplainController {
+  constructor(private readonly permissionService: PermissionService) {}
+
+  @Get('explain')
+  @AllowApiTokens()
+  @ApiOperation({
+    summary: 'Explain why the current user has or lacks a permission',
+  })
+  async explain(
+    @Query() query: ExplainPermissionQueryDto,
+    @Request() req,
+  ): Promise<PermissionExplanation> {
+    const { resource, action, projectId, teamId } = query;
+    return this.permissionService.explain(
+      req.user.id,
+      resource,
+      action,
+      { projectId, teamId },
+      req.user.scopes,
+    );
+  }
+}
@@ -33,6 +33,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User account is inactive');
     }
 
+    // Access tokens die with the session they were issued for
+    if (
+      !payload.jti ||
+      !(await this.authService.isSessionActive(payload.jti, user.id))
+    ) {
+      throw new UnauthorizedException('Session has expired or was revoked');
+    }
+
     const primaryRole = user.userRoles?.[0]?.role?.name || 'USER';
 
     return {
@@ -41,6 +49,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       role: primaryRole,
       organizationId: user.organizationId,
       isActive: user.isActive,
+      sessionId: payload.jti,
     };
   }
 }
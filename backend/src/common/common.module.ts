@@ -5,6 +5,8 @@ import { IdempotencyService } from './services/idempotency.service';
 import { LoggerService } from './services/logger.service';
 import { DataScopeService } from './services/data-scope.service';
 import { PermissionService } from './services/permission.service';
+import { PermissionSnapshotService } from './services/permission-snapshot.service';
+import { EncryptionService } from './services/encryption.service';
 import { CachingInterceptor } from './interceptors/caching.interceptor';
 import { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
 import { CacheInvalidationInterceptor } from './interceptors/cache-invalidation.interceptor';
@@ -20,6 +22,8 @@ import { PrismaModule } from '../prisma/prisma.module';
     IdempotencyService,
     DataScopeService,
     PermissionService,
+    PermissionSnapshotService,
+    EncryptionService,
     LoggingMiddleware,
     CachingInterceptor,
     IdempotencyInterceptor,
@@ -31,6 +35,8 @@ import { PrismaModule } from '../prisma/prisma.module';
     IdempotencyService,
     DataScopeService,
     PermissionService,
+    PermissionSnapshotService,
+    EncryptionService,
     LoggingMiddleware,
     CachingInterceptor,
     IdempotencyInterceptor,
@@ -5,7 +5,8 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { PrismaService } from '../../prisma/prisma.service';
+import { PermissionService } from '../services/permission.service';
+import { resolveGrantTarget } from '../services/grant-scope';
 
 export interface PermissionMetadata {
   resource: string;
@@ -29,7 +30,7 @@ export const RequirePermissions = (resource: string, action: string) => {
 export class PermissionGuard implements CanActivate {
   constructor(
     private reflector: Reflector,
-    private prisma: PrismaService,
+    private permissionService: PermissionService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -50,11 +51,20 @@ export class PermissionGuard implements CanActivate {
       throw new ForbiddenException('User not authenticated');
     }
 
+    // API tokens can only use the permissions they were scoped to
+    const scope = `${requiredPermission.resource}.${requiredPermission.action}`;
+    if (user.scopes && !user.scopes.includes(scope)) {
+      throw new ForbiddenException(
+        `Insufficient token scopes. Required: ${scope}`,
+      );
+    }
+
     // Check if user has the required permission
-    const hasPermission = await this.checkUserPermission(
+    const hasPermission = await this.permissionService.checkUserPermission(
       user.id,
       requiredPermission.resource,
       requiredPermission.action,
+      resolveGrantTarget(request, requiredPermission.resource),
     );
 
     if (!hasPermission) {
@@ -65,46 +75,4 @@ export class PermissionGuard implements CanActivate {
 
     return true;
   }
-
-  private async checkUserPermission(
-    userId: string,
-    resource: string,
-    action: string,
-  ): Promise<boolean> {
-    // Admin roles have implicit allow
-    const isAdmin = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: { name: { in: ['SUPER_ADMIN', 'ADMIN'] }, isActive: true },
-      },
-      select: { id: true },
-    });
-    if (isAdmin) return true;
-
-    // Check direct user permissions
-    const userPermission = await this.prisma.userPermission.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        permission: { resource, action },
-      },
-      select: { id: true },
-    });
-    if (userPermission) return true;
-
-    // Check role-based permissions
-    const rolePermission = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-          rolePermissions: { some: { permission: { resource, action } } },
-        },
-      },
-      select: { id: true },
-    });
-    return !!rolePermission;
-  }
 }
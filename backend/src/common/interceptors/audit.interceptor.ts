@@ -5,16 +5,34 @@ import {
   NestInterceptor,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Observable, tap } from 'rxjs';
+import { catchError, concatMap, from, Observable, switchMap } from 'rxjs';
 import { PrismaService } from '../../prisma/prisma.service';
-import { AUDIT_METADATA_KEY, AuditMetadata } from '../decorators/audit.decorator';
-import { AuditProducerService } from '../../audit-logs/audit.producer.service';
+import {
+  AUDIT_METADATA_KEY,
+  AuditMetadata,
+} from '../decorators/audit.decorator';
+import {
+  AuditEvent,
+  AuditProducerService,
+} from '../../audit-logs/audit.producer.service';
+import { LoggerService } from '../services/logger.service';
+
+type EntitySnapshot = Record<string, unknown>;
+
+interface SnapshotDelegate {
+  findUnique(args: { where: { id: string } }): Promise<EntitySnapshot | null>;
+}
+
+// Credentials never end up in audit snapshots
+const SENSITIVE_FIELD = /password|secret|token/i;
 
 @Injectable()
 export class AuditInterceptor implements NestInterceptor {
   constructor(
     private readonly producerService: AuditProducerService,
     private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
   ) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
@@ -23,108 +41,158 @@ export class AuditInterceptor implements NestInterceptor {
     const req = http.getRequest();
     const res = http.getResponse();
 
-    return next.handle().pipe(
-      tap({
-        next: async (data) => {
-          const method = req?.method as string;
-          if (
-            !method ||
-            ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method) === false
-          ) {
-            return;
-          }
+    // The before snapshot has to be read before the handler changes the row
+    return from(this.loadBeforeSnapshot(context)).pipe(
+      switchMap((oldValues) =>
+        this.handle(context, next, now, req, res, oldValues),
+      ),
+    );
+  }
 
-          const auditMetadata = this.reflector.get<AuditMetadata>(
-            AUDIT_METADATA_KEY,
-            context.getHandler(),
-          );
+  /**
+   * Records the outcome of a write request before the response is sent, so a
+   * client never sees a change the audit outbox does not have.
+   */
+  private handle(
+    context: ExecutionContext,
+    next: CallHandler,
+    now: number,
+    req: any,
+    res: any,
+    oldValues: EntitySnapshot | null,
+  ): Observable<any> {
+    const method = req?.method as string;
+    if (!method || !['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+      return next.handle();
+    }
 
-          const userId: string | undefined = req?.user?.id;
-          const path: string = req?.originalUrl || req?.url;
-          const userAgent: string | undefined = req?.get?.('user-agent');
-          const ipAddress: string | undefined =
-            req?.ip || req?.connection?.remoteAddress;
-          const sessionId: string | undefined = req?.headers?.[
-            'x-session-id'
-          ] as string;
+    const auditMetadata = this.reflector.get<AuditMetadata>(
+      AUDIT_METADATA_KEY,
+      context.getHandler(),
+    );
+    const entity = auditMetadata?.entity || 'http_request';
+    const action = `${entity}.${context.getHandler().name}`;
+    const paramId: string | null =
+      req.params?.[auditMetadata?.entityIdParam || ''] || null;
+    const path: string = req?.originalUrl || req?.url;
+    const request = {
+      userId: (req?.user?.id as string | undefined) || null,
+      ipAddress:
+        (req?.ip as string | undefined) ||
+        (req?.connection?.remoteAddress as string | undefined) ||
+        null,
+      userAgent: (req?.get?.('user-agent') as string | undefined) || null,
+      sessionId: (req?.headers?.['x-session-id'] as string | undefined) || null,
+    };
+    const correlationId = req?.headers?.['x-correlation-id'] || null;
 
-          let entityId: string | null = null;
-          if (auditMetadata?.entityIdParam && req.params?.[auditMetadata.entityIdParam]) {
-            entityId = req.params[auditMetadata.entityIdParam];
-          } else if (data?.id) {
-            // Fallback for POST requests where ID is in response body
-            entityId = String(data.id);
-          }
+    return next.handle().pipe(
+      concatMap(async (data) => {
+        // Fallback for POST requests where ID is in response body
+        const entityId = paramId ?? (data?.id ? String(data.id) : null);
+        await this.record(path, async () => ({
+          ...request,
+          action,
+          entity,
+          entityId,
+          oldValues,
+          newValues:
+            auditMetadata && entityId && method !== 'DELETE'
+              ? await this.loadSnapshot(auditMetadata.entity, entityId)
+              : null,
+          metadata: {
+            path,
+            statusCode: res.statusCode,
+            correlationId,
+            processingMs: Date.now() - now,
+          },
+        }));
+        return data;
+      }),
+      catchError(async (error) => {
+        await this.record(path, () => ({
+          ...request,
+          action: `failed:${action}`,
+          entity,
+          entityId: paramId,
+          oldValues,
+          metadata: {
+            path,
+            statusCode: error.status || 500,
+            error: error.message,
+            correlationId,
+            processingMs: Date.now() - now,
+          },
+        }));
+        throw error;
+      }),
+    );
+  }
 
-          setImmediate(async () => {
-            try {
-              await this.producerService.addToAuditLog({
-                userId: userId || null,
-                action: `${auditMetadata?.entity || 'http_request'}.${context.getHandler().name}`,
-                entity: auditMetadata?.entity || 'http_request',
-                entityId,
-                ipAddress: ipAddress || null,
-                userAgent: userAgent || null,
-                sessionId: sessionId || null,
-                metadata: {
-                  path,
-                  statusCode: res.statusCode,
-                  correlationId: req?.headers?.['x-correlation-id'] || null,
-                  processingMs: Date.now() - now,
-                },
-              });
-            } catch (err) {
-              console.error('Failed to write to audit log:', err);
-            }
-          });
-        },
-        error: async (error) => {
-          const method = req?.method as string;
-          if (
-            !method ||
-            !['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)
-          ) {
-            return;
-          }
+  /** Writes the event to the outbox; a failure is logged, not sent to the client */
+  private async record(
+    path: string,
+    build: () => AuditEvent | Promise<AuditEvent>,
+  ): Promise<void> {
+    try {
+      await this.producerService.addToAuditLog(await build());
+    } catch (err) {
+      this.logger.error(
+        `Failed to record audit event for ${path}`,
+        (err as Error).stack,
+      );
+    }
+  }
 
-          const auditMetadata = this.reflector.get<AuditMetadata>(
-            AUDIT_METADATA_KEY,
-            context.getHandler(),
-          );
+  private async loadBeforeSnapshot(
+    context: ExecutionContext,
+  ): Promise<EntitySnapshot | null> {
+    const req = context.switchToHttp().getRequest();
+    const auditMetadata = this.reflector.get<AuditMetadata>(
+      AUDIT_METADATA_KEY,
+      context.getHandler(),
+    );
+    const entityId = req?.params?.[auditMetadata?.entityIdParam || ''];
+    if (
+      !auditMetadata ||
+      !entityId ||
+      !['PUT', 'PATCH', 'DELETE'].includes(req?.method)
+    ) {
+      return null;
+    }
+    return this.loadSnapshot(auditMetadata.entity, entityId);
+  }
 
-          const userId: string | undefined = req?.user?.id;
-          const path: string = req?.originalUrl || req?.url;
-          const userAgent: string | undefined = req?.get?.('user-agent');
-          const ipAddress: string | undefined =
-            req?.ip || req?.connection?.remoteAddress;
-          const sessionId: string | undefined = req?.headers?.[
-            'x-session-id'
-          ] as string;
+  /**
+   * Reads the audited entity through the Prisma model of the same name, so
+   * `@Audit({ entity: 'User' })` snapshots `prisma.user`. Entities without a
+   * model of that name are logged without snapshots.
+   */
+  private async loadSnapshot(
+    entity: string,
+    id: string,
+  ): Promise<EntitySnapshot | null> {
+    const model = entity.charAt(0).toLowerCase() + entity.slice(1);
+    const delegate = (
+      this.prisma as unknown as Record<string, SnapshotDelegate | undefined>
+    )[model];
+    if (typeof delegate?.findUnique !== 'function') return null;
 
-          setImmediate(async () => {
-            try {
-              await this.producerService.addToAuditLog({
-                userId: userId || null,
-                action: `failed:${auditMetadata?.entity || 'http_request'}.${context.getHandler().name}`,
-                entity: auditMetadata?.entity || 'http_request',
-                entityId: req.params?.[auditMetadata?.entityIdParam || ''] || null,
-                ipAddress: ipAddress || null,
-                userAgent: userAgent || null,
-                sessionId: sessionId || null,
-                metadata: {
-                  path,
-                  statusCode: error.status || 500,
-                  error: error.message,
-                  correlationId: req?.headers?.['x-correlation-id'] || null,
-                  processingMs: Date.now() - now,
-                },
-              });
-            } catch (err) {
-              console.error('Failed to write to audit log on error:', err);
-            }
-          });
-        },
-      }),
-    );
+    try {
+      const record = await delegate.findUnique({ where: { id } });
+      if (!record) return null;
+      return Object.fromEntries(
+        Object.entries(record).map(([field, value]) => [
+          field,
+          SENSITIVE_FIELD.test(field) && value != null ? '[REDACTED]' : value,
+        ]),
+      );
+    } catch (err) {
+      this.logger.error(
+        `Failed to snapshot audited ${entity} ${id}`,
+        (err as Error).stack,
+      );
+      return null;
+    }
   }
 }
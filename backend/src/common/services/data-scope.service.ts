@@ -1,11 +1,14 @@
 import { Injectable } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
-import { PrismaService } from '../../prisma/prisma.service';
+import { PermissionSnapshotService } from './permission-snapshot.service';
 
-type ResourceType = 'work-log' | 'project' | 'team' | 'user';
+type ResourceType =
+  'work-log' | 'work-log-tombstone' | 'project' | 'team' | 'user';
 
 type WhereClauseMap = {
   'work-log': Prisma.WorkLogWhereInput;
+  // Tombstones keep the owner, project and organization of deleted work logs
+  'work-log-tombstone': Prisma.SyncTombstoneWhereInput;
   project: Prisma.ProjectWhereInput;
   team: Prisma.TeamWhereInput;
   user: Prisma.UserWhereInput;
@@ -13,40 +16,37 @@ type WhereClauseMap = {
 
 @Injectable()
 export class DataScopeService {
-  constructor(private prisma: PrismaService) {}
+  constructor(private permissionSnapshotService: PermissionSnapshotService) {}
 
   async getAccessScopeWhereClause<T extends ResourceType>(
     userId: string,
     resource: T,
   ): Promise<WhereClauseMap[T]> {
-    const accessLevels = await this.prisma.userAccessLevel.findMany({
-      where: { userId },
-      select: { level: true },
-    });
+    // Access levels and memberships come from the cached permission snapshot
+    const { organizationId, accessLevels, memberships } =
+      await this.permissionSnapshotService.get(userId);
 
-    const levels = new Set(accessLevels.map((al) => al.level));
+    const levels = new Set(accessLevels);
 
     if (levels.has('FULL_ACCESS') || levels.has('ORGANIZATION')) {
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-        select: { organizationId: true },
-      });
-      if (user?.organizationId) {
+      if (organizationId) {
         // Return resource-specific organization filters
         if (resource === 'work-log') {
           // WorkLog does not have organizationId; filter via related project
-          return { project: { organizationId: user.organizationId } } as any;
+          return { project: { organizationId } } as any;
         }
         if (
           resource === 'project' ||
           resource === 'team' ||
-          resource === 'user'
+          resource === 'user' ||
+          resource === 'work-log-tombstone'
         ) {
-          return { organizationId: user.organizationId } as any;
+          return { organizationId } as any;
         }
       }
       // Fallbacks when organization is missing
       if (resource === 'user') return { id: userId } as any;
+      if (resource === 'work-log-tombstone') return { id: { in: [] } } as any;
       return { id: '-1' } as any;
     }
 
@@ -68,41 +68,27 @@ export class DataScopeService {
     }
 
     if (levels.has('TEAM')) {
-      const teams = await this.prisma.team.findMany({
-        where: { members: { some: { userId } } },
-        select: { id: true, members: { select: { userId: true } } },
-      });
-      const teamIds = teams.map((t) => t.id);
-      const memberIds = teams.flatMap((t) => t.members.map((m) => m.userId));
+      const { teamIds, teamMemberIds: memberIds } = memberships;
 
       if (resource === 'team') {
         whereClauses.push({ id: { in: teamIds } });
       } else if (resource === 'user') {
         whereClauses.push({ id: { in: memberIds } });
-      } else if (resource === 'work-log') {
+      } else if (resource === 'work-log' || resource === 'work-log-tombstone') {
         whereClauses.push({ userId: { in: memberIds } });
       } else if (resource === 'project') {
-        const projectsInTeams = await this.prisma.project.findMany({
-          where: { teams: { some: { teamId: { in: teamIds } } } },
-          select: { id: true },
-        });
-        whereClauses.push({ id: { in: projectsInTeams.map((p) => p.id) } });
+        whereClauses.push({ id: { in: memberships.teamProjectIds } });
       }
     }
 
     if (levels.has('PROJECT')) {
-      const projects = await this.prisma.project.findMany({
-        where: { members: { some: { userId } } },
-        select: { id: true, members: { select: { userId: true } } },
-      });
-      const projectIds = projects.map((p) => p.id);
-      const memberIds = projects.flatMap((p) => p.members.map((m) => m.userId));
+      const { projectIds, projectMemberIds: memberIds } = memberships;
 
       if (resource === 'project') {
         whereClauses.push({ id: { in: projectIds } });
       } else if (resource === 'user') {
         whereClauses.push({ id: { in: memberIds } });
-      } else if (resource === 'work-log') {
+      } else if (resource === 'work-log' || resource === 'work-log-tombstone') {
         whereClauses.push({ projectId: { in: projectIds } });
       }
     }
@@ -111,6 +97,7 @@ export class DataScopeService {
       // Default to seeing nothing if no access levels provide visibility
       // For most resources, this means they must be part of a team or project.
       if (resource === 'user') return { id: userId } as any; // Always see self
+      if (resource === 'work-log-tombstone') return { id: { in: [] } } as any;
       return { id: '-1' } as any; // Return a condition that matches nothing
     }
 
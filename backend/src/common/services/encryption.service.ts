@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/** Shape stored in JSON columns holding an encrypted object */
+export interface EncryptedJson {
+  encrypted: true;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+@Injectable()
+export class EncryptionService {
+  private key?: Buffer;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  encrypt(plaintext: string): EncryptedJson {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(), iv);
+    const data = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return {
+      encrypted: true,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  decrypt(payload: EncryptedJson): string {
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      this.getKey(),
+      Buffer.from(payload.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(payload.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  encryptJson(value: Record<string, unknown>): Prisma.InputJsonObject {
+    return this.encrypt(
+      JSON.stringify(value),
+    ) as unknown as Prisma.InputJsonObject;
+  }
+
+  /**
+   * Decrypts a JSON column written by encryptJson. Values stored before
+   * encryption was introduced are returned unchanged.
+   */
+  decryptJson<T = Record<string, unknown>>(value: Prisma.JsonValue): T {
+    if (!this.isEncrypted(value)) {
+      return (value ?? {}) as T;
+    }
+    return JSON.parse(this.decrypt(value)) as T;
+  }
+
+  isEncrypted(value: unknown): value is EncryptedJson {
+    const candidate = value as Partial<EncryptedJson> | null;
+    return (
+      !!candidate &&
+      typeof candidate === 'object' &&
+      candidate.encrypted === true &&
+      typeof candidate.iv === 'string' &&
+      typeof candidate.tag === 'string' &&
+      typeof candidate.data === 'string'
+    );
+  }
+
+  private getKey(): Buffer {
+    if (!this.key) {
+      const secret = this.configService.get<string>('ENCRYPTION_KEY');
+      if (!secret) {
+        throw new Error('ENCRYPTION_KEY is not configured');
+      }
+      // Derive a fixed-length key so any configured secret length works
+      this.key = crypto.createHash('sha256').update(secret).digest();
+    }
+    return this.key;
+  }
+}
@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Limits a role or permission grant to some projects or teams, as stored in
+ * the `scope` column of `UserRole` and `UserPermission`.
+ */
+export interface GrantScope {
+  projectIds?: string[];
+  teamIds?: string[];
+}
+
+/** Project and team a request acts on */
+export interface GrantTarget {
+  projectId?: string;
+  teamId?: string;
+}
+
+interface TargetRequest {
+  params?: Record<string, unknown>;
+}
+
+const SCOPE_KEYS = ['projectIds', 'teamIds'] as const;
+
+/** Grants that are switched on and not past their expiry */
+export const activeGrantWhere = (now: Date = new Date()) => ({
+  isActive: true,
+  OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+});
+
+/** The stored scope, or null when it is not an object of ID lists */
+export function parseGrantScope(scope: Prisma.JsonValue): GrantScope | null {
+  if (!scope || typeof scope !== 'object' || Array.isArray(scope)) return null;
+
+  const parsed: GrantScope = {};
+  for (const key of SCOPE_KEYS) {
+    const ids = scope[key];
+    if (ids === undefined) continue;
+    if (
+      !Array.isArray(ids) ||
+      !ids.every((id): id is string => typeof id === 'string')
+    ) {
+      return null;
+    }
+    parsed[key] = ids;
+  }
+  return parsed;
+}
+
+/**
+ * Whether a grant counts for a request. Grants without a scope count
+ * everywhere; scoped grants only when the request targets one of their
+ * projects or teams. A scope that cannot be read never counts.
+ */
+export function grantAppliesTo(
+  scope: Prisma.JsonValue | null,
+  target: GrantTarget = {},
+): boolean {
+  if (scope === null) return true;
+
+  const parsed = parseGrantScope(scope);
+  if (!parsed) return false;
+  if (!parsed.projectIds && !parsed.teamIds) return true;
+
+  return (
+    (!!target.projectId && !!parsed.projectIds?.includes(target.projectId)) ||
+    (!!target.teamId && !!parsed.teamIds?.includes(target.teamId))
+  );
+}
+
+/**
+ * The project and team a route acts on: the `:id` of project and team routes,
+ * otherwise a `:projectId` or `:teamId` in the path. The query and body are
+ * ignored because the client controls them, so a scoped grant never counts
+ * on a route that does not name its project or team in the path.
+ */
+export function resolveGrantTarget(
+  request: TargetRequest,
+  resource?: string,
+): GrantTarget {
+  const param = (key: string) => {
+    const value = request.params?.[key];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+
+  return {
+    projectId: (resource === 'projects' && param('id')) || param('projectId'),
+    teamId: (resource === 'teams' && param('id')) || param('teamId'),
+  };
+}
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  explainPermission,
+  PermissionSnapshot,
+  PermissionSnapshotService,
+} from './permission-snapshot.service';
+import { CacheService } from './cache.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('PermissionSnapshotService', () => {
+  let service: PermissionSnapshotService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    userRole: { findMany: jest.fn() },
+    userPermission: { findMany: jest.fn() },
+    serviceAccount: { findUnique: jest.fn() },
+    userAccessLevel: { findMany: jest.fn() },
+    team: { findMany: jest.fn() },
+    teamMember: { findMany: jest.fn() },
+    project: { findMany: jest.fn() },
+  };
+  const mockCacheService = { get: jest.fn(), set: jest.fn(), del: jest.fn() };
+
+  const PROJECT_ID = '9a2e4d6b-1c3f-4e5a-8b7d-0f1e2d3c4b5a';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionSnapshotService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+      ],
+    }).compile();
+
+    service = module.get<PermissionSnapshotService>(PermissionSnapshotService);
+
+    mockCacheService.get.mockResolvedValue(null);
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      organizationId: 'org-1',
+    });
+    mockPrismaService.userRole.findMany.mockResolvedValue([]);
+    mockPrismaService.userPermission.findMany.mockResolvedValue([]);
+    mockPrismaService.serviceAccount.findUnique.mockResolvedValue(null);
+    mockPrismaService.userAccessLevel.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    it('should compile grants and memberships once and cache them', async () => {
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        {
+          id: 'grant-1',
+          scope: null,
+          expiresAt: null,
+          role: {
+            name: 'EMPLOYEE',
+            rolePermissions: [
+              { permission: { resource: 'work_logs', action: 'create' } },
+            ],
+          },
+        },
+      ]);
+      mockPrismaService.userAccessLevel.findMany.mockResolvedValue([
+        { level: 'TEAM' },
+      ]);
+      mockPrismaService.team.findMany.mockResolvedValue([
+        { id: 'team-1', members: [{ userId: 'user-1' }, { userId: 'user-2' }] },
+      ]);
+      mockPrismaService.project.findMany.mockResolvedValue([
+        { id: PROJECT_ID },
+      ]);
+
+      const snapshot = await service.get('user-1');
+
+      expect(snapshot).toEqual(
+        expect.objectContaining({
+          userId: 'user-1',
+          organizationId: 'org-1',
+          serviceAccountScopes: null,
+          accessLevels: ['TEAM'],
+          grants: [
+            {
+              source: 'role',
+              id: 'grant-1',
+              name: 'EMPLOYEE',
+              admin: false,
+              permissions: ['work_logs.create'],
+              scope: null,
+              expiresAt: null,
+            },
+          ],
+          memberships: {
+            teamIds: ['team-1'],
+            teamMemberIds: ['user-1', 'user-2'],
+            teamProjectIds: [PROJECT_ID],
+            projectIds: [],
+            projectMemberIds: [],
+          },
+        }),
+      );
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        'permissions:0:user-1',
+        snapshot,
+        300,
+      );
+
+      mockCacheService.get.mockImplementation((key: string) =>
+        key === 'permissions:0:user-1' ? snapshot : null,
+      );
+      await expect(service.get('user-1')).resolves.toBe(snapshot);
+      expect(mockPrismaService.userRole.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new cache generation when everything is invalidated', async () => {
+      await service.invalidateAll();
+      const [, generation] = mockCacheService.set.mock.calls[0];
+      mockCacheService.get.mockImplementation((key: string) =>
+        key === 'permissions:generation' ? generation : null,
+      );
+
+      await service.get('user-1');
+
+      expect(mockCacheService.set).toHaveBeenLastCalledWith(
+        `permissions:${generation}:user-1`,
+        expect.anything(),
+        300,
+      );
+    });
+  });
+
+  it('should invalidate everyone who was in the teams', async () => {
+    mockPrismaService.teamMember.findMany.mockResolvedValue([
+      { userId: 'user-1' },
+      { userId: 'user-2' },
+      { userId: 'user-1' },
+    ]);
+
+    await service.invalidateTeams(['team-1']);
+
+    expect(mockCacheService.del.mock.calls).toEqual([
+      ['permissions:0:user-1'],
+      ['permissions:0:user-2'],
+    ]);
+  });
+
+  describe('explainPermission', () => {
+    const snapshot = (
+      grants: Partial<PermissionSnapshot['grants'][number]>[],
+    ): PermissionSnapshot => ({
+      userId: 'user-1',
+      organizationId: 'org-1',
+      serviceAccountScopes: null,
+      accessLevels: [],
+      memberships: {
+        teamIds: [],
+        teamMemberIds: [],
+        teamProjectIds: [],
+        projectIds: [],
+        projectMemberIds: [],
+      },
+      compiledAt: '2025-03-01T09:00:00.000Z',
+      grants: grants.map((grant, index) => ({
+        source: 'role',
+        id: `grant-${index}`,
+        name: 'PROJECT_MANAGER',
+        admin: false,
+        permissions: ['projects.update'],
+        scope: null,
+        expiresAt: null,
+        ...grant,
+      })),
+    });
+    const now = new Date('2025-03-01T10:00:00Z');
+
+    it('should name the grant that gives access', () => {
+      expect(
+        explainPermission(
+          snapshot([{ name: 'ADMIN', admin: true, permissions: [] }, {}]),
+          'projects',
+          'update',
+          {},
+          now,
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          granted: true,
+          decision: 'admin_role',
+          reason: 'The ADMIN role implies every permission',
+        }),
+      );
+      expect(
+        explainPermission(snapshot([{}]), 'projects', 'update', {}, now),
+      ).toEqual(
+        expect.objectContaining({
+          granted: true,
+          decision: 'role',
+          reason: 'The PROJECT_MANAGER role includes projects.update',
+        }),
+      );
+    });
+
+    it('should say why matching grants do not count', () => {
+      const scoped = snapshot([{ scope: { projectIds: [PROJECT_ID] } }]);
+      expect(explainPermission(scoped, 'projects', 'update', {}, now)).toEqual(
+        expect.objectContaining({
+          granted: false,
+          decision: 'out_of_scope',
+          grants: [
+            expect.objectContaining({ appliesToTarget: false, expired: false }),
+          ],
+        }),
+      );
+      expect(
+        explainPermission(
+          scoped,
+          'projects',
+          'update',
+          { projectId: PROJECT_ID },
+          now,
+        ).granted,
+      ).toBe(true);
+
+      expect(
+        explainPermission(
+          snapshot([{ expiresAt: '2025-03-01T09:59:00.000Z' }]),
+          'projects',
+          'update',
+          {},
+          now,
+        ).decision,
+      ).toBe('expired');
+      expect(
+        explainPermission(snapshot([]), 'projects', 'delete', {}, now),
+      ).toEqual(
+        expect.objectContaining({
+          granted: false,
+          decision: 'not_granted',
+          reason: 'No role or direct grant includes projects.delete',
+          grants: [],
+        }),
+      );
+    });
+
+    it('should only use the scopes of a service account', () => {
+      const serviceAccount = {
+        ...snapshot([]),
+        serviceAccountScopes: ['work_logs.create'],
+      };
+      expect(
+        explainPermission(serviceAccount, 'work_logs', 'create', {}, now)
+          .decision,
+      ).toBe('service_account_scope');
+      expect(
+        explainPermission(serviceAccount, 'work_logs', 'delete', {}, now)
+          .granted,
+      ).toBe(false);
+    });
+  });
+});
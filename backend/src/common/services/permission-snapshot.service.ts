@@ -0,0 +1,378 @@
+import { Injectable } from '@nestjs/common';
+import { AccessLevel, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CacheService } from './cache.service';
+import { activeGrantWhere, grantAppliesTo, GrantTarget } from './grant-scope';
+
+const CACHE_PREFIX = 'permissions';
+const GENERATION_KEY = `${CACHE_PREFIX}:generation`;
+const CACHE_TTL = 300;
+const GENERATION_TTL = 24 * 60 * 60;
+
+export const ADMIN_ROLES = ['SUPER_ADMIN', 'ADMIN'];
+
+/** A role or direct permission held by the user */
+export interface SnapshotGrant {
+  source: 'role' | 'permission';
+  /** ID of the UserRole or UserPermission row */
+  id: string;
+  /** Role name, or `resource.action` of a direct permission */
+  name: string;
+  /** Admin roles imply every permission */
+  admin: boolean;
+  /** `resource.action` pairs the grant gives */
+  permissions: string[];
+  scope: Prisma.JsonValue | null;
+  expiresAt: string | null;
+}
+
+/** Teams and projects that DataScopeService opens up through access levels */
+export interface SnapshotMemberships {
+  teamIds: string[];
+  teamMemberIds: string[];
+  teamProjectIds: string[];
+  projectIds: string[];
+  projectMemberIds: string[];
+}
+
+/**
+ * Everything authorization needs to know about a user, compiled once and
+ * cached, so guards and services answer from memory instead of the database.
+ */
+export interface PermissionSnapshot {
+  userId: string;
+  organizationId: string | null;
+  grants: SnapshotGrant[];
+  /** Scopes of the service account acting as this user, null for people */
+  serviceAccountScopes: string[] | null;
+  accessLevels: AccessLevel[];
+  memberships: SnapshotMemberships;
+  compiledAt: string;
+}
+
+export type PermissionDecision =
+  | 'admin_role'
+  | 'role'
+  | 'direct_permission'
+  | 'service_account_scope'
+  | 'out_of_scope'
+  | 'expired'
+  | 'not_granted'
+  | 'token_scope';
+
+export interface GrantExplanation {
+  source: SnapshotGrant['source'];
+  id: string;
+  name: string;
+  admin: boolean;
+  scope: Prisma.JsonValue | null;
+  expiresAt: string | null;
+  appliesToTarget: boolean;
+  expired: boolean;
+}
+
+export interface PermissionExplanation {
+  permission: string;
+  target: GrantTarget;
+  granted: boolean;
+  decision: PermissionDecision;
+  reason: string;
+  /** Grants that include the permission, whether or not they count */
+  grants: GrantExplanation[];
+}
+
+const EMPTY_MEMBERSHIPS: SnapshotMemberships = {
+  teamIds: [],
+  teamMemberIds: [],
+  teamProjectIds: [],
+  projectIds: [],
+  projectMemberIds: [],
+};
+
+const unique = (values: string[]) => [...new Set(values)];
+
+/** Grants that have not expired and hold for the target */
+export function applicableGrants(
+  snapshot: PermissionSnapshot,
+  target?: GrantTarget,
+  now: Date = new Date(),
+): SnapshotGrant[] {
+  return snapshot.grants.filter(
+    (grant) =>
+      (!grant.expiresAt || new Date(grant.expiresAt) > now) &&
+      grantAppliesTo(grant.scope, target),
+  );
+}
+
+/**
+ * Whether the snapshot holds a permission for the target, and why. Admin
+ * roles come first, then roles, then direct grants; a service account only
+ * has its scopes.
+ */
+export function explainPermission(
+  snapshot: PermissionSnapshot,
+  resource: string,
+  action: string,
+  target: GrantTarget = {},
+  now: Date = new Date(),
+): PermissionExplanation {
+  const permission = `${resource}.${action}`;
+  const grants: GrantExplanation[] = snapshot.grants
+    .filter((grant) => grant.admin || grant.permissions.includes(permission))
+    .map((grant) => ({
+      source: grant.source,
+      id: grant.id,
+      name: grant.name,
+      admin: grant.admin,
+      scope: grant.scope,
+      expiresAt: grant.expiresAt,
+      appliesToTarget: grantAppliesTo(grant.scope, target),
+      expired: !!grant.expiresAt && new Date(grant.expiresAt) <= now,
+    }));
+  const result = (
+    granted: boolean,
+    decision: PermissionDecision,
+    reason: string,
+  ): PermissionExplanation => ({
+    permission,
+    target,
+    granted,
+    decision,
+    reason,
+    grants,
+  });
+
+  const counting = grants.filter(
+    (grant) => grant.appliesToTarget && !grant.expired,
+  );
+  const admin = counting.find((grant) => grant.admin);
+  if (admin) {
+    return result(
+      true,
+      'admin_role',
+      `The ${admin.name} role implies every permission`,
+    );
+  }
+  const role = counting.find((grant) => grant.source === 'role');
+  if (role) {
+    return result(true, 'role', `The ${role.name} role includes ${permission}`);
+  }
+  if (counting.length > 0) {
+    return result(
+      true,
+      'direct_permission',
+      `${permission} was granted directly`,
+    );
+  }
+
+  if (snapshot.serviceAccountScopes) {
+    return snapshot.serviceAccountScopes.includes(permission)
+      ? result(
+          true,
+          'service_account_scope',
+          `The service account is scoped to ${permission}`,
+        )
+      : result(
+          false,
+          'not_granted',
+          `The service account is not scoped to ${permission}`,
+        );
+  }
+
+  if (grants.some((grant) => grant.expired)) {
+    return result(false, 'expired', `Every grant of ${permission} has expired`);
+  }
+  if (grants.length > 0) {
+    return result(
+      false,
+      'out_of_scope',
+      `${permission} is only granted for other projects or teams`,
+    );
+  }
+  return result(
+    false,
+    'not_granted',
+    `No role or direct grant includes ${permission}`,
+  );
+}
+
+/**
+ * Compiles and caches a PermissionSnapshot per user. Snapshots live for a
+ * few minutes; anything that changes roles, permissions, access levels or
+ * memberships invalidates the users it affects, or every snapshot at once.
+ */
+@Injectable()
+export class PermissionSnapshotService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async get(userId: string): Promise<PermissionSnapshot> {
+    const key = await this.cacheKey(userId);
+    const cached = await this.cacheService.get<PermissionSnapshot>(key);
+    if (cached) return cached;
+
+    const snapshot = await this.compile(userId);
+    await this.cacheService.set(key, snapshot, CACHE_TTL);
+    return snapshot;
+  }
+
+  async invalidate(userIds: string | string[]): Promise<void> {
+    const ids = unique(Array.isArray(userIds) ? userIds : [userIds]);
+    for (const userId of ids) {
+      await this.cacheService.del(await this.cacheKey(userId));
+    }
+  }
+
+  /** Invalidates the snapshots of everyone who is or was in the teams */
+  async invalidateTeams(teamIds: string[]): Promise<void> {
+    if (teamIds.length === 0) return;
+    const members = await this.prisma.teamMember.findMany({
+      where: { teamId: { in: teamIds } },
+      select: { userId: true },
+    });
+    await this.invalidate(members.map((member) => member.userId));
+  }
+
+  /**
+   * Invalidates every snapshot by moving to a new cache generation, for
+   * changes to roles and permissions that can affect any number of users.
+   */
+  async invalidateAll(): Promise<void> {
+    await this.cacheService.set(GENERATION_KEY, Date.now(), GENERATION_TTL);
+  }
+
+  private async cacheKey(userId: string): Promise<string> {
+    const generation =
+      (await this.cacheService.get<number>(GENERATION_KEY)) ?? 0;
+    return `${CACHE_PREFIX}:${generation}:${userId}`;
+  }
+
+  private async compile(userId: string): Promise<PermissionSnapshot> {
+    const grantWhere = { userId, ...activeGrantWhere() };
+    const [user, userRoles, userPermissions, serviceAccount, accessLevels] =
+      await Promise.all([
+        this.prisma.user.findUnique({
+          where: { id: userId },
+          select: { organizationId: true },
+        }),
+        this.prisma.userRole.findMany({
+          where: { ...grantWhere, role: { isActive: true } },
+          select: {
+            id: true,
+            scope: true,
+            expiresAt: true,
+            role: {
+              select: {
+                name: true,
+                rolePermissions: {
+                  select: {
+                    permission: { select: { resource: true, action: true } },
+                  },
+                },
+              },
+            },
+          },
+        }),
+        this.prisma.userPermission.findMany({
+          where: grantWhere,
+          select: {
+            id: true,
+            scope: true,
+            expiresAt: true,
+            permission: { select: { resource: true, action: true } },
+          },
+        }),
+        this.prisma.serviceAccount.findUnique({
+          where: { userId },
+          select: { isActive: true, scopes: true },
+        }),
+        this.prisma.userAccessLevel.findMany({
+          where: { userId },
+          select: { level: true },
+        }),
+      ]);
+
+    const levels = accessLevels.map((al) => al.level);
+    const grants: SnapshotGrant[] = [
+      ...userRoles.map((ur) => ({
+        source: 'role' as const,
+        id: ur.id,
+        name: ur.role.name,
+        admin: ADMIN_ROLES.includes(ur.role.name),
+        permissions: ur.role.rolePermissions.map(
+          (rp) => `${rp.permission.resource}.${rp.permission.action}`,
+        ),
+        scope: ur.scope,
+        expiresAt: ur.expiresAt?.toISOString() ?? null,
+      })),
+      ...userPermissions.map((up) => {
+        const name = `${up.permission.resource}.${up.permission.action}`;
+        return {
+          source: 'permission' as const,
+          id: up.id,
+          name,
+          admin: false,
+          permissions: [name],
+          scope: up.scope,
+          expiresAt: up.expiresAt?.toISOString() ?? null,
+        };
+      }),
+    ];
+
+    return {
+      userId,
+      organizationId: user?.organizationId ?? null,
+      grants,
+      serviceAccountScopes: serviceAccount
+        ? serviceAccount.isActive
+          ? serviceAccount.scopes
+          : []
+        : null,
+      accessLevels: levels,
+      memberships: await this.compileMemberships(userId, levels),
+      compiledAt: new Date().toISOString(),
+    };
+  }
+
+  // Organization-wide access levels make memberships irrelevant
+  private async compileMemberships(
+    userId: string,
+    levels: AccessLevel[],
+  ): Promise<SnapshotMemberships> {
+    if (levels.includes('FULL_ACCESS') || levels.includes('ORGANIZATION')) {
+      return EMPTY_MEMBERSHIPS;
+    }
+    const memberships = { ...EMPTY_MEMBERSHIPS };
+
+    if (levels.includes('TEAM')) {
+      const teams = await this.prisma.team.findMany({
+        where: { members: { some: { userId } } },
+        select: { id: true, members: { select: { userId: true } } },
+      });
+      memberships.teamIds = teams.map((t) => t.id);
+      memberships.teamMemberIds = unique(
+        teams.flatMap((t) => t.members.map((m) => m.userId)),
+      );
+      const projectsInTeams = await this.prisma.project.findMany({
+        where: { teams: { some: { teamId: { in: memberships.teamIds } } } },
+        select: { id: true },
+      });
+      memberships.teamProjectIds = projectsInTeams.map((p) => p.id);
+    }
+
+    if (levels.includes('PROJECT')) {
+      const projects = await this.prisma.project.findMany({
+        where: { members: { some: { userId } } },
+        select: { id: true, members: { select: { userId: true } } },
+      });
+      memberships.projectIds = projects.map((p) => p.id);
+      memberships.projectMemberIds = unique(
+        projects.flatMap((p) => p.members.map((m) => m.userId)),
+      );
+    }
+
+    return memberships;
+  }
+}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PermissionService } from './permission.service';
+import { PermissionSnapshotService } from './permission-snapshot.service';
+import { CacheService } from './cache.service';
+import { resolveGrantTarget } from './grant-scope';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    userRole: { findMany: jest.fn() },
+    userPermission: { findMany: jest.fn() },
+    serviceAccount: { findUnique: jest.fn() },
+    userAccessLevel: { findMany: jest.fn() },
+    permission: { findMany: jest.fn() },
+  };
+  const mockCacheService = { get: jest.fn(), set: jest.fn() };
+
+  const PROJECT_ID = '9a2e4d6b-1c3f-4e5a-8b7d-0f1e2d3c4b5a';
+
+  const role = (
+    name: string,
+    permissions: string[],
+    grant: { scope?: unknown; expiresAt?: Date | null } = {},
+  ) => ({
+    id: `grant-${name}`,
+    scope: grant.scope ?? null,
+    expiresAt: grant.expiresAt ?? null,
+    role: {
+      name,
+      rolePermissions: permissions.map((permission) => {
+        const [resource, action] = permission.split('.');
+        return { permission: { resource, action } };
+      }),
+    },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionService,
+        PermissionSnapshotService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+      ],
+    }).compile();
+
+    service = module.get<PermissionService>(PermissionService);
+
+    mockCacheService.get.mockResolvedValue(null);
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      organizationId: 'org-1',
+    });
+    mockPrismaService.userRole.findMany.mockResolvedValue([]);
+    mockPrismaService.userPermission.findMany.mockResolvedValue([]);
+    mockPrismaService.serviceAccount.findUnique.mockResolvedValue(null);
+    mockPrismaService.userAccessLevel.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('checkUserPermission', () => {
+    it('should only load grants that have not expired', async () => {
+      await service.checkUserPermission('user-1', 'projects', 'update');
+
+      for (const delegate of ['userRole', 'userPermission'] as const) {
+        expect(mockPrismaService[delegate].findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: expect.objectContaining({
+              isActive: true,
+              OR: [
+                { expiresAt: null },
+                { expiresAt: { gt: expect.any(Date) } },
+              ],
+            }),
+          }),
+        );
+      }
+    });
+
+    it('should apply scoped grants only to their projects', async () => {
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        role('PROJECT_MANAGER', ['projects.update'], {
+          scope: { projectIds: [PROJECT_ID] },
+        }),
+      ]);
+
+      await expect(
+        service.checkUserPermission('user-1', 'projects', 'update', {
+          projectId: PROJECT_ID,
+        }),
+      ).resolves.toBe(true);
+      await expect(
+        service.checkUserPermission('user-1', 'projects', 'update', {
+          projectId: 'project-2',
+        }),
+      ).resolves.toBe(false);
+      await expect(
+        service.checkUserPermission('user-1', 'projects', 'update'),
+      ).resolves.toBe(false);
+    });
+
+    it('should apply unscoped grants everywhere and unreadable scopes nowhere', async () => {
+      mockPrismaService.userPermission.findMany.mockResolvedValue([
+        {
+          id: 'grant-1',
+          scope: null,
+          expiresAt: null,
+          permission: { resource: 'projects', action: 'read' },
+        },
+        {
+          id: 'grant-2',
+          scope: { projectIds: PROJECT_ID },
+          expiresAt: null,
+          permission: { resource: 'projects', action: 'update' },
+        },
+      ]);
+
+      await expect(
+        service.checkUserPermission('user-1', 'projects', 'read'),
+      ).resolves.toBe(true);
+      await expect(
+        service.checkUserPermission('user-1', 'projects', 'update', {
+          projectId: PROJECT_ID,
+        }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('explain', () => {
+    it('should limit API tokens to their scopes', async () => {
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        role('PROJECT_MANAGER', ['projects.read', 'projects.update']),
+      ]);
+
+      await expect(
+        service.explain('user-1', 'projects', 'read', undefined, [
+          'projects.read',
+        ]),
+      ).resolves.toEqual(expect.objectContaining({ granted: true }));
+      await expect(
+        service.explain('user-1', 'projects', 'update', undefined, [
+          'projects.read',
+        ]),
+      ).resolves.toEqual(
+        expect.objectContaining({
+          granted: false,
+          decision: 'token_scope',
+          reason: 'The API token is not scoped to projects.update',
+        }),
+      );
+    });
+  });
+
+  describe('getUserPermissions', () => {
+    it('should leave out grants limited to some projects or teams', async () => {
+      mockPrismaService.userPermission.findMany.mockResolvedValue([
+        {
+          id: 'grant-1',
+          scope: null,
+          expiresAt: null,
+          permission: { resource: 'projects', action: 'read' },
+        },
+        {
+          id: 'grant-2',
+          scope: { teamIds: ['team-1'] },
+          expiresAt: null,
+          permission: { resource: 'teams', action: 'update' },
+        },
+      ]);
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        role('PROJECT_MANAGER', ['projects.delete'], {
+          scope: { projectIds: [PROJECT_ID] },
+        }),
+      ]);
+
+      await expect(service.getUserPermissions('user-1')).resolves.toEqual([
+        'projects.read',
+      ]);
+    });
+
+    it('should not treat a scoped admin role as a global admin', async () => {
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        role('ADMIN', [], { scope: { projectIds: [PROJECT_ID] } }),
+      ]);
+
+      await expect(service.getUserPermissions('user-1')).resolves.toEqual([]);
+      expect(mockPrismaService.permission.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveGrantTarget', () => {
+    it('should read the target from the route path', () => {
+      expect(
+        resolveGrantTarget({ params: { id: PROJECT_ID } }, 'projects'),
+      ).toEqual({ projectId: PROJECT_ID, teamId: undefined });
+      expect(
+        resolveGrantTarget(
+          { params: { id: 'log-1', teamId: 'team-1' } },
+          'work_logs',
+        ),
+      ).toEqual({ projectId: undefined, teamId: 'team-1' });
+    });
+
+    it('should not let a spoofed projectId make a scoped grant count', async () => {
+      mockPrismaService.userRole.findMany.mockResolvedValue([
+        role('PROJECT_MANAGER', ['work_logs.update'], {
+          scope: { projectIds: [PROJECT_ID] },
+        }),
+      ]);
+      const request = {
+        params: { id: 'log-1' },
+        query: { projectId: PROJECT_ID },
+        body: { projectId: PROJECT_ID },
+      };
+
+      const target = resolveGrantTarget(request, 'work_logs');
+
+      expect(target).toEqual({ projectId: undefined, teamId: undefined });
+      await expect(
+        service.checkUserPermission('user-1', 'work_logs', 'update', target),
+      ).resolves.toBe(false);
+    });
+  });
+});
@@ -1,200 +1,85 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { GrantTarget } from './grant-scope';
+import {
+  applicableGrants,
+  explainPermission,
+  PermissionExplanation,
+  PermissionSnapshotService,
+} from './permission-snapshot.service';
 
 @Injectable()
 export class PermissionService {
-  constructor(private prisma: PrismaService) {}
-
+  constructor(
+    private prisma: PrismaService,
+    private permissionSnapshotService: PermissionSnapshotService,
+  ) {}
+
+  /**
+   * Whether the user holds a permission through an admin role, a role or a
+   * direct grant that has not expired. Grants scoped to projects or teams only
+   * count for that target.
+   */
   async checkUserPermission(
     userId: string,
     resource: string,
     action: string,
+    target?: GrantTarget,
   ): Promise<boolean> {
-    // Check direct user permissions
-    const userPermission = await this.prisma.userPermission.findFirst({
-      where: {
-        userId,
-        permission: {
-          resource,
-          action,
-        },
-        isActive: true,
-      },
-    });
+    const explanation = await this.explain(userId, resource, action, target);
+    return explanation.granted;
+  }
 
-    if (userPermission) {
-      return true;
+  /** Why the user does or does not hold a permission for the target */
+  async explain(
+    userId: string,
+    resource: string,
+    action: string,
+    target?: GrantTarget,
+    scopes?: string[],
+  ): Promise<PermissionExplanation> {
+    const snapshot = await this.permissionSnapshotService.get(userId);
+    const explanation = explainPermission(snapshot, resource, action, target);
+
+    if (scopes && !scopes.includes(explanation.permission)) {
+      return {
+        ...explanation,
+        granted: false,
+        decision: 'token_scope',
+        reason: `The API token is not scoped to ${explanation.permission}`,
+      };
     }
-
-    // Check role-based permissions
-    const rolePermission = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-          rolePermissions: {
-            some: {
-              permission: {
-                resource,
-                action,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    return !!rolePermission;
+    return explanation;
   }
 
+  /** Permissions the user holds everywhere, as `resource.action` pairs */
   async getUserPermissions(userId: string): Promise<string[]> {
+    const snapshot = await this.permissionSnapshotService.get(userId);
+    const grants = applicableGrants(snapshot);
+
     // Admin roles implicitly grant all permissions
-    const isAdmin = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: { name: { in: ['SUPER_ADMIN', 'ADMIN'] }, isActive: true },
-      },
-      select: { id: true },
-    });
-    if (isAdmin) {
+    if (grants.some((grant) => grant.admin)) {
       const allPermissions = await this.prisma.permission.findMany({
         select: { resource: true, action: true },
       });
       return allPermissions.map((p) => `${p.resource}.${p.action}`);
     }
 
-    const userPermissions = await this.prisma.userPermission.findMany({
-      where: {
-        userId,
-        isActive: true,
-      },
-      include: {
-        permission: true,
-      },
-    });
-
-    const rolePermissions = await this.prisma.userRole.findMany({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-        },
-      },
-      include: {
-        role: {
-          include: {
-            rolePermissions: {
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    const permissions = new Set<string>();
-
-    // Add direct user permissions
-    userPermissions.forEach((up) => {
-      permissions.add(`${up.permission.resource}.${up.permission.action}`);
-    });
-
-    // Add role-based permissions
-    rolePermissions.forEach((ur) => {
-      ur.role.rolePermissions.forEach((rp) => {
-        permissions.add(`${rp.permission.resource}.${rp.permission.action}`);
-      });
-    });
+    if (snapshot.serviceAccountScopes) {
+      return snapshot.serviceAccountScopes;
+    }
 
-    return Array.from(permissions);
+    return Array.from(new Set(grants.flatMap((grant) => grant.permissions)));
   }
 
   async getUserPermissionsByResource(
     userId: string,
     resource: string,
   ): Promise<string[]> {
-    // Admin roles implicitly grant all permissions for the resource
-    const isAdmin = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: { name: { in: ['SUPER_ADMIN', 'ADMIN'] }, isActive: true },
-      },
-      select: { id: true },
-    });
-    if (isAdmin) {
-      const allPermissions = await this.prisma.permission.findMany({
-        where: { resource },
-        select: { resource: true, action: true },
-      });
-      return allPermissions.map((p) => `${p.resource}.${p.action}`);
-    }
-
-    const userPermissions = await this.prisma.userPermission.findMany({
-      where: {
-        userId,
-        isActive: true,
-        permission: {
-          resource,
-        },
-      },
-      include: {
-        permission: true,
-      },
-    });
-
-    const rolePermissions = await this.prisma.userRole.findMany({
-      where: {
-        userId,
-        isActive: true,
-        role: {
-          isActive: true,
-          rolePermissions: {
-            some: {
-              permission: {
-                resource,
-              },
-            },
-          },
-        },
-      },
-      include: {
-        role: {
-          include: {
-            rolePermissions: {
-              where: {
-                permission: {
-                  resource,
-                },
-              },
-              include: {
-                permission: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    const permissions = new Set<string>();
-
-    // Add direct user permissions
-    userPermissions.forEach((up) => {
-      permissions.add(`${up.permission.resource}.${up.permission.action}`);
-    });
-
-    // Add role-based permissions
-    rolePermissions.forEach((ur) => {
-      ur.role.rolePermissions.forEach((rp) => {
-        permissions.add(`${rp.permission.resource}.${rp.permission.action}`);
-      });
-    });
-
-    return Array.from(permissions);
+    const permissions = await this.getUserPermissions(userId);
+    return permissions.filter((permission) =>
+      permission.startsWith(`${resource}.`),
+    );
   }
 
   async filterUsersByPermission(
@@ -330,25 +215,14 @@ export class PermissionService {
     team: boolean;
     individual: boolean;
   }> {
-    // Admin roles implicitly grant FULL_ACCESS
-    const adminRole = await this.prisma.userRole.findFirst({
-      where: {
-        userId,
-        isActive: true,
-        role: { name: { in: ['SUPER_ADMIN', 'ADMIN'] }, isActive: true },
-      },
-    });
+    const snapshot = await this.permissionSnapshotService.get(userId);
 
-    if (adminRole) {
+    // Admin roles implicitly grant FULL_ACCESS
+    if (applicableGrants(snapshot).some((grant) => grant.admin)) {
       return { fullAccess: true, project: true, team: true, individual: true };
     }
 
-    const levels = await this.prisma.userAccessLevel.findMany({
-      where: { userId },
-      select: { level: true },
-    });
-
-    const levelSet = new Set(levels.map((l) => l.level));
+    const levelSet = new Set(snapshot.accessLevels);
 
     const fullAccess = levelSet.has('FULL_ACCESS');
     const project = levelSet.has('PROJECT');
@@ -1,15 +1,29 @@
-import { Controller, Get } from '@nestjs/common';
-import { ApiTags, ApiOperation } from '@nestjs/swagger';
-import { ValidatedConfigService } from './config.service';
+import { Controller, Get, ParseUUIDPipe, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { SystemSettingsService } from '../system-settings/system-settings.service';
 
 @ApiTags('Config')
 @Controller('config')
 export class ConfigController {
-  constructor(private readonly configService: ValidatedConfigService) {}
+  constructor(private readonly systemSettingsService: SystemSettingsService) {}
 
   @Get()
   @ApiOperation({ summary: 'Get server-driven UI configuration' })
-  getConfig() {
-    return this.configService.getUiConfig();
+  @ApiQuery({
+    name: 'organizationId',
+    required: false,
+    description: 'Organization whose settings apply, global defaults otherwise',
+  })
+  async getConfig(
+    @Query('organizationId', new ParseUUIDPipe({ optional: true }))
+    organizationId?: string,
+  ) {
+    const settings =
+      await this.systemSettingsService.getPublicSettings(organizationId);
+    return {
+      featureFlags: settings['ui.featureFlags'],
+      minAppVersion: settings['ui.minAppVersion'],
+      settings,
+    };
   }
 }
@@ -2,10 +2,11 @@ import { Global, Module } from '@nestjs/common';
 import { ValidatedConfigService } from './config.service';
 import { ConfigController } from './config.controller';
 import { VaultModule } from '../vault/vault.module';
+import { SystemSettingsModule } from '../system-settings/system-settings.module';
 
 @Global()
 @Module({
-  imports: [VaultModule],
+  imports: [VaultModule, SystemSettingsModule],
   providers: [ValidatedConfigService],
   controllers: [ConfigController],
   exports: [ValidatedConfigService],
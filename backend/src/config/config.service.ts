@@ -69,13 +69,4 @@ export class ValidatedConfigService {
   get<T extends keyof AppEnv>(key: T): AppEnv[T] {
     return this.env[key];
   }
-
-  getUiConfig() {
-    return {
-      featureFlags: {
-        newOnboardingFlow: true,
-      },
-      minAppVersion: '1.2.0',
-    };
-  }
 }
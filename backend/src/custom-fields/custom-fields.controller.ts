@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CustomFieldsService } from './custom-fields.service';
+import {
+  CreateCustomFieldDto,
+  CustomFieldEntity,
+  CUSTOM_FIELD_ENTITIES,
+} from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('custom-fields')
+@ApiBearerAuth()
+@Controller('custom-fields')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  @Post()
+  @RequirePermissions('custom_fields', 'create')
+  @ApiOperation({ summary: 'Define a custom field' })
+  @ApiResponse({ status: 201, description: 'Custom field created' })
+  @ApiResponse({ status: 409, description: 'Key already used for the entity' })
+  create(@Body() createCustomFieldDto: CreateCustomFieldDto, @Request() req) {
+    return this.customFieldsService.create(
+      createCustomFieldDto,
+      req.user.organizationId,
+    );
+  }
+
+  // Open to every user so forms can render the fields
+  @Get()
+  @ApiOperation({
+    summary: "List the custom fields of the user's organization",
+  })
+  @ApiQuery({ name: 'entity', required: false, enum: CUSTOM_FIELD_ENTITIES })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Custom fields retrieved' })
+  findAll(
+    @Request() req,
+    @Query('entity') entity?: string,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    return this.customFieldsService.findAll(
+      req.user.organizationId,
+      entity as CustomFieldEntity | undefined,
+      includeInactive === 'true',
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get custom field by ID' })
+  @ApiResponse({ status: 200, description: 'Custom field retrieved' })
+  @ApiResponse({ status: 404, description: 'Custom field not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.customFieldsService.findOne(id, req.user.organizationId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('custom_fields', 'update')
+  @ApiOperation({ summary: 'Update a custom field' })
+  @ApiResponse({ status: 200, description: 'Custom field updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateCustomFieldDto: UpdateCustomFieldDto,
+    @Request() req,
+  ) {
+    return this.customFieldsService.update(
+      id,
+      updateCustomFieldDto,
+      req.user.organizationId,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions('custom_fields', 'delete')
+  @ApiOperation({ summary: 'Delete a custom field' })
+  @ApiResponse({ status: 200, description: 'Custom field deleted' })
+  remove(@Param('id') id: string, @Request() req) {
+    return this.customFieldsService.remove(id, req.user.organizationId);
+  }
+}
@@ -0,0 +1,291 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CustomFieldType, Prisma } from '@prisma/client';
+import { CustomFieldsService } from './custom-fields.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('CustomFieldsService', () => {
+  let service: CustomFieldsService;
+
+  const mockPrismaService = {
+    customField: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const field = (overrides: Record<string, unknown>) => ({
+    id: 'field-1',
+    entity: 'work-log',
+    options: null,
+    isRequired: false,
+    defaultValue: null,
+    isActive: true,
+    ...overrides,
+  });
+
+  const costCentre = field({
+    id: 'field-1',
+    name: 'Cost centre',
+    key: 'costCentre',
+    type: CustomFieldType.SELECT,
+    options: ['CC-100', 'CC-200'],
+    isRequired: true,
+    defaultValue: 'CC-100',
+  });
+  const hoursBudget = field({
+    id: 'field-2',
+    name: 'Hours budget',
+    key: 'hoursBudget',
+    type: CustomFieldType.NUMBER,
+  });
+  const labels = field({
+    id: 'field-3',
+    name: 'Labels',
+    key: 'labels',
+    type: CustomFieldType.MULTI_SELECT,
+    options: ['urgent', 'internal'],
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomFieldsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CustomFieldsService>(CustomFieldsService);
+    mockPrismaService.customField.findMany.mockResolvedValue([
+      costCentre,
+      hoursBudget,
+      labels,
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should require an organization', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'Cost centre',
+            key: 'costCentre',
+            type: CustomFieldType.TEXT,
+            entity: 'work-log',
+          },
+          null,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.customField.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key already used for the entity', async () => {
+      mockPrismaService.customField.findUnique.mockResolvedValue(costCentre);
+
+      await expect(
+        service.create(
+          {
+            name: 'Cost centre',
+            key: 'costCentre',
+            type: CustomFieldType.TEXT,
+            entity: 'work-log',
+          },
+          'org-1',
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.customField.findUnique).toHaveBeenCalledWith({
+        where: {
+          organizationId_entity_key: {
+            organizationId: 'org-1',
+            entity: 'work-log',
+            key: 'costCentre',
+          },
+        },
+      });
+    });
+
+    it('should require options for select fields', async () => {
+      mockPrismaService.customField.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          {
+            name: 'Contract type',
+            key: 'contractType',
+            type: CustomFieldType.SELECT,
+            entity: 'project',
+          },
+          'org-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should validate the default value against the type', async () => {
+      mockPrismaService.customField.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          {
+            name: 'Contract type',
+            key: 'contractType',
+            type: CustomFieldType.SELECT,
+            entity: 'project',
+            options: ['Fixed', 'T&M'],
+            defaultValue: 'Retainer',
+          },
+          'org-1',
+        ),
+      ).rejects.toThrow('Default value: Contract type must be one of');
+
+      await service.create(
+        {
+          name: 'Contract type',
+          key: 'contractType',
+          type: CustomFieldType.SELECT,
+          entity: 'project',
+          options: ['Fixed', 'T&M', 'Fixed'],
+          defaultValue: 'Fixed',
+        },
+        'org-1',
+      );
+      expect(mockPrismaService.customField.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          organizationId: 'org-1',
+          options: ['Fixed', 'T&M'],
+          defaultValue: 'Fixed',
+        }),
+      });
+    });
+  });
+
+  describe('validateValues', () => {
+    it('should apply defaults and normalize values on create', async () => {
+      const values = await service.validateValues('org-1', 'work-log', {
+        hoursBudget: '12.5',
+        labels: ['urgent', 'urgent'],
+      });
+
+      expect(values).toEqual({
+        costCentre: 'CC-100',
+        hoursBudget: 12.5,
+        labels: ['urgent'],
+      });
+      expect(mockPrismaService.customField.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: 'org-1',
+            entity: 'work-log',
+            isActive: true,
+          },
+        }),
+      );
+    });
+
+    it('should ignore fields when there is no organization', async () => {
+      await expect(
+        service.validateValues(null, 'work-log', undefined),
+      ).resolves.toEqual({});
+      expect(mockPrismaService.customField.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should report every invalid value at once', async () => {
+      const error = await service
+        .validateValues('org-1', 'work-log', {
+          costCentre: 'CC-999',
+          hoursBudget: 'lots',
+          region: 'EU',
+        })
+        .catch((e: BadRequestException) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toEqual(
+        expect.objectContaining({
+          message: [
+            'Unknown custom field "region"',
+            'Cost centre must be one of: CC-100, CC-200',
+            'Cost centre is required',
+            'Hours budget must be a number',
+          ],
+        }),
+      );
+    });
+
+    it('should merge updates over stored values without applying defaults', async () => {
+      const values = await service.validateValues(
+        'org-1',
+        'work-log',
+        { hoursBudget: null, labels: ['internal'] },
+        { costCentre: 'CC-200', hoursBudget: 4, legacy: 'kept' },
+      );
+
+      expect(values).toEqual({
+        costCentre: 'CC-200',
+        labels: ['internal'],
+        legacy: 'kept',
+      });
+    });
+
+    it('should reject clearing a required value', async () => {
+      await expect(
+        service.validateValues(
+          'org-1',
+          'work-log',
+          { costCentre: '' },
+          { costCentre: 'CC-200' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildFilters', () => {
+    it('should build JSON path filters by field type', async () => {
+      const filters = await service.buildFilters('org-1', 'work-log', {
+        costCentre: 'CC-200',
+        hoursBudget: '8',
+        labels: 'urgent',
+      });
+
+      expect(filters).toEqual([
+        { path: ['customFields', 'costCentre'], equals: 'CC-200' },
+        { path: ['customFields', 'hoursBudget'], equals: 8 },
+        { path: ['customFields', 'labels'], array_contains: ['urgent'] },
+      ]);
+    });
+
+    it('should reject filters on unknown fields', async () => {
+      await expect(
+        service.buildFilters('org-1', 'work-log', { region: 'EU' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should skip the lookup when there are no filters', async () => {
+      await expect(
+        service.buildFilters('org-1', 'work-log', undefined),
+      ).resolves.toEqual([]);
+      expect(mockPrismaService.customField.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readValues', () => {
+    it('should return the stored values or an empty object', () => {
+      expect(
+        service.readValues({ customFields: { costCentre: 'CC-100' } }),
+      ).toEqual({ costCentre: 'CC-100' });
+      expect(service.readValues(null)).toEqual({});
+      expect(
+        service.readValues(['unexpected'] as unknown as Prisma.JsonValue),
+      ).toEqual({});
+    });
+  });
+});
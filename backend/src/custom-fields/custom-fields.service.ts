@@ -0,0 +1,318 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CustomField, CustomFieldType, Prisma } from '@prisma/client';
+import { isEmail, isURL } from 'class-validator';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateCustomFieldDto,
+  CustomFieldEntity,
+} from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+
+/** Key under the entity's metadata or settings JSON that holds field values */
+export const CUSTOM_FIELDS_KEY = 'customFields';
+
+export type CustomFieldValues = Record<string, unknown>;
+
+type Normalized = { value: unknown } | { error: string };
+
+const SELECT_TYPES: CustomFieldType[] = [
+  CustomFieldType.SELECT,
+  CustomFieldType.MULTI_SELECT,
+];
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Custom fields belong to an organization and only apply to its records, so
+ * each organization decides which fields exist and which are required.
+ */
+@Injectable()
+export class CustomFieldsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    organizationId: string | null,
+    entity?: CustomFieldEntity,
+    includeInactive = false,
+  ): Promise<CustomField[]> {
+    if (!organizationId) return [];
+    return this.prisma.customField.findMany({
+      where: {
+        organizationId,
+        ...(entity && { entity }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      orderBy: [{ entity: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findOne(
+    id: string,
+    organizationId: string | null,
+  ): Promise<CustomField> {
+    const field =
+      organizationId &&
+      (await this.prisma.customField.findFirst({
+        where: { id, organizationId },
+      }));
+    if (!field) {
+      throw new NotFoundException(`Custom field with ID ${id} not found`);
+    }
+    return field;
+  }
+
+  async create(
+    createCustomFieldDto: CreateCustomFieldDto,
+    organizationId: string | null,
+  ) {
+    if (!organizationId) {
+      throw new ForbiddenException(
+        'User must belong to an organization to define custom fields.',
+      );
+    }
+    const { entity, key } = createCustomFieldDto;
+    const existing = await this.prisma.customField.findUnique({
+      where: {
+        organizationId_entity_key: { organizationId, entity, key },
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A custom field with key "${key}" already exists for ${entity}`,
+      );
+    }
+
+    const data = this.validateDefinition(createCustomFieldDto);
+    return this.prisma.customField.create({
+      data: { ...createCustomFieldDto, ...data, organizationId },
+    });
+  }
+
+  async update(
+    id: string,
+    updateCustomFieldDto: UpdateCustomFieldDto,
+    organizationId: string | null,
+  ) {
+    const field = await this.findOne(id, organizationId);
+    const data = this.validateDefinition({
+      name: updateCustomFieldDto.name ?? field.name,
+      type: updateCustomFieldDto.type ?? field.type,
+      options:
+        updateCustomFieldDto.options ?? (field.options as string[] | null),
+      defaultValue:
+        'defaultValue' in updateCustomFieldDto
+          ? updateCustomFieldDto.defaultValue
+          : field.defaultValue,
+    });
+
+    return this.prisma.customField.update({
+      where: { id },
+      data: { ...updateCustomFieldDto, ...data },
+    });
+  }
+
+  async remove(
+    id: string,
+    organizationId: string | null,
+  ): Promise<{ message: string }> {
+    await this.findOne(id, organizationId);
+    // Stored values are left in place and ignored once the field is gone
+    await this.prisma.customField.delete({ where: { id } });
+    return { message: 'Custom field deleted successfully' };
+  }
+
+  /** Reads the stored values from an entity's metadata or settings JSON. */
+  readValues(json: Prisma.JsonValue | null | undefined): CustomFieldValues {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) return {};
+    const values = json[CUSTOM_FIELDS_KEY];
+    return values && typeof values === 'object' && !Array.isArray(values)
+      ? values
+      : {};
+  }
+
+  /**
+   * Validates submitted values against the active fields the organization
+   * defined for the entity and merges them over the stored ones. Defaults
+   * apply only when nothing is stored yet, i.e. on create. Throws a
+   * BadRequestException listing every problem.
+   */
+  async validateValues(
+    organizationId: string | null,
+    entity: CustomFieldEntity,
+    input: CustomFieldValues | undefined,
+    existing?: CustomFieldValues,
+  ): Promise<CustomFieldValues> {
+    const fields = await this.findAll(organizationId, entity);
+    const byKey = new Map(fields.map((field) => [field.key, field]));
+    const errors: string[] = [];
+    const values: CustomFieldValues = { ...(existing ?? {}) };
+
+    for (const key of Object.keys(input ?? {})) {
+      if (!byKey.has(key)) errors.push(`Unknown custom field "${key}"`);
+    }
+
+    for (const field of fields) {
+      if (input && field.key in input) {
+        const value = input[field.key];
+        if (isEmpty(value)) {
+          delete values[field.key];
+        } else {
+          const result = this.normalize(field, value);
+          if ('error' in result) errors.push(result.error);
+          else values[field.key] = result.value;
+        }
+      } else if (!existing && !isEmpty(field.defaultValue)) {
+        values[field.key] = field.defaultValue;
+      }
+
+      if (field.isRequired && isEmpty(values[field.key])) {
+        errors.push(`${field.name} is required`);
+      }
+    }
+
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+    return values;
+  }
+
+  /**
+   * Turns `customFields[key]=value` query filters into JSON path filters on
+   * the column holding the values. Text matches by substring, multi-select by
+   * membership and everything else exactly.
+   */
+  async buildFilters(
+    organizationId: string | null,
+    entity: CustomFieldEntity,
+    filters: Record<string, unknown> | undefined,
+  ): Promise<Prisma.JsonNullableFilter[]> {
+    const entries = Object.entries(filters ?? {}).filter(
+      ([, value]) => !isEmpty(value),
+    );
+    if (entries.length === 0) return [];
+
+    const fields = await this.findAll(organizationId, entity, true);
+    const byKey = new Map(fields.map((field) => [field.key, field]));
+
+    return entries.map(([key, raw]) => {
+      const field = byKey.get(key);
+      if (!field) {
+        throw new BadRequestException(`Unknown custom field "${key}"`);
+      }
+      const path = [CUSTOM_FIELDS_KEY, key];
+      const value = String(raw);
+
+      switch (field.type) {
+        case CustomFieldType.TEXT:
+        case CustomFieldType.EMAIL:
+        case CustomFieldType.URL:
+          return { path, string_contains: value };
+        case CustomFieldType.MULTI_SELECT:
+          return { path, array_contains: [value] };
+        default: {
+          const result = this.normalize(field, value);
+          if ('error' in result) {
+            throw new BadRequestException(result.error);
+          }
+          return { path, equals: result.value as Prisma.InputJsonValue };
+        }
+      }
+    });
+  }
+
+  private validateDefinition(definition: {
+    name: string;
+    type: CustomFieldType;
+    options?: string[] | null;
+    defaultValue?: unknown;
+  }) {
+    const { type, options } = definition;
+    const isSelect = SELECT_TYPES.includes(type);
+    if (isSelect && !options?.length) {
+      throw new BadRequestException(
+        'SELECT and MULTI_SELECT fields need at least one option',
+      );
+    }
+
+    let defaultValue: unknown = null;
+    if (!isEmpty(definition.defaultValue)) {
+      const result = this.normalize(
+        { ...definition, options: options ?? null } as CustomField,
+        definition.defaultValue,
+      );
+      if ('error' in result) {
+        throw new BadRequestException(`Default value: ${result.error}`);
+      }
+      defaultValue = result.value;
+    }
+
+    return {
+      options: isSelect ? [...new Set(options)] : Prisma.DbNull,
+      defaultValue:
+        defaultValue === null
+          ? Prisma.DbNull
+          : (defaultValue as Prisma.InputJsonValue),
+    };
+  }
+
+  private normalize(field: CustomField, value: unknown): Normalized {
+    const options = (field.options as string[] | null) ?? [];
+    const name = field.name;
+
+    switch (field.type) {
+      case CustomFieldType.TEXT:
+        return typeof value === 'string'
+          ? { value: value.trim() }
+          : { error: `${name} must be text` };
+      case CustomFieldType.NUMBER: {
+        const number = typeof value === 'string' ? Number(value) : value;
+        return typeof number === 'number' && Number.isFinite(number)
+          ? { value: number }
+          : { error: `${name} must be a number` };
+      }
+      case CustomFieldType.DATE: {
+        const date =
+          typeof value === 'string' ? new Date(value) : new Date(NaN);
+        return isNaN(date.getTime())
+          ? { error: `${name} must be a date` }
+          : { value: date.toISOString().slice(0, 10) };
+      }
+      case CustomFieldType.BOOLEAN:
+        if (typeof value === 'boolean') return { value };
+        if (value === 'true' || value === 'false') {
+          return { value: value === 'true' };
+        }
+        return { error: `${name} must be true or false` };
+      case CustomFieldType.SELECT:
+        return typeof value === 'string' && options.includes(value)
+          ? { value }
+          : { error: `${name} must be one of: ${options.join(', ')}` };
+      case CustomFieldType.MULTI_SELECT:
+        return Array.isArray(value) &&
+          value.every(
+            (item) => typeof item === 'string' && options.includes(item),
+          )
+          ? { value: [...new Set(value as string[])] }
+          : { error: `${name} must only contain: ${options.join(', ')}` };
+      case CustomFieldType.EMAIL:
+        return typeof value === 'string' && isEmail(value)
+          ? { value }
+          : { error: `${name} must be an email address` };
+      case CustomFieldType.URL:
+        return typeof value === 'string' &&
+          isURL(value, { require_protocol: true })
+          ? { value }
+          : { error: `${name} must be a URL` };
+    }
+  }
+}
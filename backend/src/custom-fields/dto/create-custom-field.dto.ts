@@ -0,0 +1,70 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsIn,
+  IsArray,
+  IsBoolean,
+  ArrayNotEmpty,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CustomFieldType } from '@prisma/client';
+
+export const CUSTOM_FIELD_ENTITIES = ['work-log', 'project', 'user'] as const;
+export type CustomFieldEntity = (typeof CUSTOM_FIELD_ENTITIES)[number];
+
+export class CreateCustomFieldDto {
+  @ApiProperty({ description: 'Label shown in forms', example: 'Cost centre' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Key the value is stored under, unique per entity',
+    example: 'costCentre',
+  })
+  @Matches(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, {
+    message:
+      'key must start with a letter and contain only letters, numbers and underscores',
+  })
+  key: string;
+
+  @ApiProperty({ enum: CustomFieldType, description: 'Value type' })
+  @IsEnum(CustomFieldType)
+  type: CustomFieldType;
+
+  @ApiProperty({ enum: CUSTOM_FIELD_ENTITIES, example: 'work-log' })
+  @IsIn(CUSTOM_FIELD_ENTITIES)
+  entity: CustomFieldEntity;
+
+  @ApiPropertyOptional({
+    description: 'Allowed values for SELECT and MULTI_SELECT fields',
+    example: ['CC-100', 'CC-200'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({ description: 'Whether a value must be provided' })
+  @IsOptional()
+  @IsBoolean()
+  isRequired?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Value used when none is provided on create',
+    example: 'CC-100',
+  })
+  @IsOptional()
+  defaultValue?: unknown;
+
+  @ApiPropertyOptional({ description: 'Whether the field is shown in forms' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCustomFieldDto } from './create-custom-field.dto';
+
+// Stored values are keyed by entity and key, so neither can change
+export class UpdateCustomFieldDto extends PartialType(
+  OmitType(CreateCustomFieldDto, ['entity', 'key'] as const),
+) {}
@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { createReadStream } from 'fs';
+import { DataExportsService } from './data-exports.service';
+import { CreateExportDto } from './dto/create-export.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../common/guards/permission.guard';
+
+// Each export type checks the read permission of the data it exports
+@ApiTags('exports')
+@ApiBearerAuth()
+@Controller('exports')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class DataExportsController {
+  constructor(private readonly dataExportsService: DataExportsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Start an export job' })
+  @ApiResponse({ status: 201, description: 'Export job queued' })
+  @ApiResponse({ status: 403, description: 'Cannot read this data type' })
+  create(@Body() createExportDto: CreateExportDto, @Request() req) {
+    return this.dataExportsService.create(req.user.id, createExportDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my export jobs' })
+  @ApiResponse({ status: 200, description: 'Export jobs retrieved' })
+  findMine(@Request() req) {
+    return this.dataExportsService.findMine(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an export job' })
+  @ApiResponse({ status: 200, description: 'Export job retrieved' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.dataExportsService.findOne(id, req.user.id);
+  }
+
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download a completed export' })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 410, description: 'Export file has expired' })
+  async download(@Param('id') id: string, @Request() req) {
+    const file = await this.dataExportsService.getDownload(id, req.user.id);
+    return new StreamableFile(createReadStream(file.filePath), {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an export and its file' })
+  @ApiResponse({ status: 200, description: 'Export deleted' })
+  remove(@Param('id') id: string, @Request() req) {
+    return this.dataExportsService.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { DataExportsController } from './data-exports.controller';
+import { DataExportsService } from './data-exports.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { WorkLogsModule } from '../work-logs/work-logs.module';
+import { TimeSessionsModule } from '../time-sessions/time-sessions.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { UsersModule } from '../users/users.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CommonModule,
+    WorkLogsModule,
+    TimeSessionsModule,
+    ProjectsModule,
+    UsersModule,
+    NotificationsModule,
+  ],
+  controllers: [DataExportsController],
+  providers: [DataExportsService],
+  exports: [DataExportsService],
+})
+export class DataExportsModule {}
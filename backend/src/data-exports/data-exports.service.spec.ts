@@ -0,0 +1,345 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ExcelJS from 'exceljs';
+import { DataExportsService } from './data-exports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { TimeSessionsService } from '../time-sessions/time-sessions.service';
+import { ProjectsService } from '../projects/projects.service';
+import { UsersService } from '../users/users.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('DataExportsService', () => {
+  let service: DataExportsService;
+  let storageDir: string;
+
+  const mockPrismaService = {
+    exportSession: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    workLog: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockPermissionService = { checkUserPermission: jest.fn() };
+  const mockWorkLogsService = { buildWhere: jest.fn() };
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockLoggerService = { log: jest.fn(), error: jest.fn() };
+
+  const workLog = {
+    id: 'log-1',
+    description: 'Fix login, then "deploy"',
+    duration: 5400,
+    startTime: new Date('2025-03-03T09:00:00Z'),
+    endTime: new Date('2025-03-03T10:30:00Z'),
+    isBillable: true,
+    isApproved: false,
+    module: null,
+    taskCategory: null,
+    workCategory: null,
+    severityCategory: null,
+    sourceCategory: null,
+    ticketReference: null,
+    user: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+    project: { name: 'Platform', code: 'PLT' },
+    ticket: null,
+  };
+
+  const pendingSession = {
+    id: 'export-1',
+    userId: 'user-1',
+    type: 'work-logs',
+    format: 'csv',
+    filters: { projectId: 'project-1' },
+    status: 'PENDING',
+  };
+
+  beforeEach(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exports-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: PermissionService, useValue: mockPermissionService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: WorkLogsService, useValue: mockWorkLogsService },
+        { provide: TimeSessionsService, useValue: {} },
+        { provide: ProjectsService, useValue: {} },
+        { provide: UsersService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(storageDir) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DataExportsService>(DataExportsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  describe('create', () => {
+    it('should reject users who cannot read the exported data', async () => {
+      mockPermissionService.checkUserPermission.mockResolvedValue(false);
+
+      await expect(
+        service.create('user-1', { type: 'work-logs', format: 'csv' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPermissionService.checkUserPermission).toHaveBeenCalledWith(
+        'user-1',
+        'work_logs',
+        'read',
+      );
+      expect(mockPrismaService.exportSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the filters the list endpoint accepts', async () => {
+      const schedule = jest
+        .spyOn(global, 'setImmediate')
+        .mockImplementation((() => undefined) as any);
+      mockPermissionService.checkUserPermission.mockResolvedValue(true);
+      mockPrismaService.exportSession.create.mockResolvedValue(pendingSession);
+
+      const result = await service.create('user-1', {
+        type: 'work-logs',
+        format: 'csv',
+        filters: { projectId: 'project-1', sortBy: 'password', search: '' },
+      });
+
+      expect(result).toEqual(pendingSession);
+      expect(mockPrismaService.exportSession.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          type: 'work-logs',
+          format: 'csv',
+          filters: { projectId: 'project-1' },
+        },
+      });
+      expect(schedule).toHaveBeenCalled();
+    });
+
+    it('should mark the session failed when the job cannot load it', async () => {
+      let job: () => void = () => undefined;
+      jest.spyOn(global, 'setImmediate').mockImplementation(((
+        callback: () => void,
+      ) => {
+        job = callback;
+      }) as any);
+      mockPermissionService.checkUserPermission.mockResolvedValue(true);
+      mockPrismaService.exportSession.create.mockResolvedValue(pendingSession);
+      mockPrismaService.exportSession.findUnique.mockRejectedValue(
+        new Error('database unavailable'),
+      );
+
+      await service.create('user-1', { type: 'work-logs', format: 'csv' });
+      job();
+      await new Promise(process.nextTick);
+
+      expect(mockLoggerService.error).toHaveBeenCalledWith(
+        'Export export-1 failed',
+        expect.any(String),
+        { userId: 'user-1' },
+      );
+      expect(mockPrismaService.exportSession.update).toHaveBeenCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorMessage: 'database unavailable',
+        }),
+      });
+    });
+  });
+
+  describe('processExport', () => {
+    it('should write a scoped CSV file and complete the session', async () => {
+      const scope = { AND: [{ projectId: 'project-1' }] };
+      mockPrismaService.exportSession.findUnique.mockResolvedValue(
+        pendingSession,
+      );
+      mockWorkLogsService.buildWhere.mockResolvedValue(scope);
+      mockPrismaService.workLog.count.mockResolvedValue(1);
+      mockPrismaService.workLog.findMany.mockResolvedValue([workLog]);
+
+      await service.processExport('export-1');
+
+      expect(mockWorkLogsService.buildWhere).toHaveBeenCalledWith('user-1', {
+        projectId: 'project-1',
+      });
+      expect(mockPrismaService.workLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: scope, skip: 0 }),
+      );
+
+      const content = fs.readFileSync(
+        path.join(storageDir, 'export-1.csv'),
+        'utf8',
+      );
+      const [header, row] = content.replace(/^\uFEFF/, '').split('\r\n');
+      expect(header).toContain('User,Email,Project');
+      expect(row).toContain('Ada Lovelace,ada@example.com,Platform');
+      expect(row).toContain('"Fix login, then ""deploy"""');
+      expect(row).toContain(',1.5,');
+
+      expect(mockPrismaService.exportSession.update).toHaveBeenLastCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          progress: 100,
+          recordCount: 1,
+          downloadUrl: '/api/exports/export-1/download',
+          expiresAt: expect.any(Date),
+        }),
+      });
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ title: 'Export ready' }),
+      );
+    });
+
+    it('should write a JSON array', async () => {
+      mockPrismaService.exportSession.findUnique.mockResolvedValue({
+        ...pendingSession,
+        format: 'json',
+      });
+      mockWorkLogsService.buildWhere.mockResolvedValue({});
+      mockPrismaService.workLog.count.mockResolvedValue(1);
+      mockPrismaService.workLog.findMany.mockResolvedValue([workLog]);
+
+      await service.processExport('export-1');
+
+      const records = JSON.parse(
+        fs.readFileSync(path.join(storageDir, 'export-1.json'), 'utf8'),
+      );
+      expect(records).toEqual([
+        expect.objectContaining({
+          id: 'log-1',
+          user: 'Ada Lovelace',
+          hours: 1.5,
+          startTime: '2025-03-03T09:00:00.000Z',
+        }),
+      ]);
+    });
+
+    it('should write an XLSX workbook with a header row', async () => {
+      mockPrismaService.exportSession.findUnique.mockResolvedValue({
+        ...pendingSession,
+        format: 'xlsx',
+      });
+      mockWorkLogsService.buildWhere.mockResolvedValue({});
+      mockPrismaService.workLog.count.mockResolvedValue(1);
+      mockPrismaService.workLog.findMany.mockResolvedValue([workLog]);
+
+      await service.processExport('export-1');
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.readFile(path.join(storageDir, 'export-1.xlsx'));
+      const sheet = workbook.getWorksheet('Export')!;
+      expect(sheet.getRow(1).getCell(2).value).toBe('User');
+      expect(sheet.getRow(2).getCell(2).value).toBe('Ada Lovelace');
+      expect(sheet.rowCount).toBe(2);
+    });
+
+    it('should mark the session failed when loading data fails', async () => {
+      mockPrismaService.exportSession.findUnique.mockResolvedValue(
+        pendingSession,
+      );
+      mockWorkLogsService.buildWhere.mockRejectedValue(
+        new Error('database unavailable'),
+      );
+
+      await service.processExport('export-1');
+
+      expect(mockPrismaService.exportSession.update).toHaveBeenLastCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorMessage: 'database unavailable',
+        }),
+      });
+      expect(mockNotificationsService.notify).not.toHaveBeenCalled();
+      expect(fs.existsSync(path.join(storageDir, 'export-1.csv'))).toBe(false);
+    });
+
+    it('should skip sessions that are already being processed', async () => {
+      mockPrismaService.exportSession.findUnique.mockResolvedValue({
+        ...pendingSession,
+        status: 'PROCESSING',
+      });
+
+      await service.processExport('export-1');
+
+      expect(mockPrismaService.exportSession.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDownload', () => {
+    it('should reject exports that are still running', async () => {
+      mockPrismaService.exportSession.findFirst.mockResolvedValue({
+        ...pendingSession,
+        status: 'PROCESSING',
+      });
+
+      await expect(service.getDownload('export-1', 'user-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject expired exports', async () => {
+      mockPrismaService.exportSession.findFirst.mockResolvedValue({
+        ...pendingSession,
+        status: 'COMPLETED',
+        fileName: 'work-logs.csv',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.getDownload('export-1', 'user-1')).rejects.toThrow(
+        GoneException,
+      );
+    });
+  });
+
+  describe('cleanupExpired', () => {
+    it('should delete expired files and fail stale jobs', async () => {
+      const filePath = path.join(storageDir, 'export-1.csv');
+      fs.writeFileSync(filePath, 'id\r\n');
+      mockPrismaService.exportSession.findMany.mockResolvedValue([
+        { ...pendingSession, status: 'COMPLETED' },
+      ]);
+      mockPrismaService.exportSession.updateMany.mockResolvedValue({
+        count: 2,
+      });
+
+      const result = await service.cleanupExpired(new Date());
+
+      expect(result).toEqual({ removed: 1, failed: 2 });
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(mockPrismaService.exportSession.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['export-1'] } },
+      });
+    });
+  });
+});
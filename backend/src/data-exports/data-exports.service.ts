@@ -0,0 +1,425 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ExportSession, ExportStatus } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { TimeSessionsService } from '../time-sessions/time-sessions.service';
+import { ProjectsService } from '../projects/projects.service';
+import { UsersService } from '../users/users.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  CreateExportDto,
+  ExportFormat,
+  ExportType,
+} from './dto/create-export.dto';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportColumn,
+  createExportWriter,
+} from './export-writers';
+import {
+  projectColumns,
+  projectExportInclude,
+  timeSessionColumns,
+  timeSessionExportInclude,
+  userColumns,
+  userExportInclude,
+  workLogColumns,
+  workLogExportInclude,
+} from './export-columns';
+
+const BATCH_SIZE = 500;
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+// Jobs still running after this long were cut off by a restart
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+export type ExportFilters = Record<string, string>;
+
+interface ExportReader {
+  total: number;
+  read(skip: number, take: number): Promise<unknown[]>;
+}
+
+/** Loads the records of one export type that a user is allowed to see. */
+interface ExportSource {
+  /** Permission needed to export, matching the list endpoint */
+  permission: { resource: string; action: string };
+  /** Filters forwarded to the source; anything else is dropped */
+  filterKeys: string[];
+  columns: ExportColumn<any>[];
+  open(userId: string, filters: ExportFilters): Promise<ExportReader>;
+}
+
+export interface ExportDownload {
+  filePath: string;
+  fileName: string;
+  contentType: string;
+}
+
+@Injectable()
+export class DataExportsService {
+  private readonly sources: Record<ExportType, ExportSource>;
+  private readonly storageDir: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly permissionService: PermissionService,
+    private readonly notificationsService: NotificationsService,
+    configService: ConfigService,
+    workLogsService: WorkLogsService,
+    timeSessionsService: TimeSessionsService,
+    projectsService: ProjectsService,
+    usersService: UsersService,
+  ) {
+    this.storageDir =
+      configService.get<string>('EXPORTS_DIR') ||
+      path.join(process.cwd(), 'exports');
+
+    this.sources = {
+      'work-logs': {
+        permission: { resource: 'work_logs', action: 'read' },
+        filterKeys: [
+          'projectId',
+          'userId',
+          'startDate',
+          'endDate',
+          'isBillable',
+          'search',
+        ],
+        columns: workLogColumns,
+        open: async (userId, filters) => {
+          const where = await workLogsService.buildWhere(userId, filters);
+          return {
+            total: await prisma.workLog.count({ where }),
+            read: (skip, take) =>
+              prisma.workLog.findMany({
+                where,
+                include: workLogExportInclude,
+                orderBy: [{ startTime: 'desc' }, { id: 'asc' }],
+                skip,
+                take,
+              }),
+          };
+        },
+      },
+      'time-sessions': {
+        permission: { resource: 'time_sessions', action: 'read' },
+        filterKeys: ['status', 'projectId', 'search'],
+        columns: timeSessionColumns,
+        open: async (userId, filters) => {
+          const where = timeSessionsService.buildWhere(userId, filters);
+          return {
+            total: await prisma.timeSession.count({ where }),
+            read: (skip, take) =>
+              prisma.timeSession.findMany({
+                where,
+                include: timeSessionExportInclude,
+                orderBy: [{ startTime: 'desc' }, { id: 'asc' }],
+                skip,
+                take,
+              }),
+          };
+        },
+      },
+      projects: {
+        permission: { resource: 'projects', action: 'read' },
+        filterKeys: [],
+        columns: projectColumns,
+        open: async (userId) => {
+          const where = await projectsService.buildWhere(userId);
+          return {
+            total: await prisma.project.count({ where }),
+            read: (skip, take) =>
+              prisma.project.findMany({
+                where,
+                include: projectExportInclude,
+                orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+                skip,
+                take,
+              }),
+          };
+        },
+      },
+      users: {
+        permission: { resource: 'users', action: 'read' },
+        filterKeys: ['organizationId'],
+        columns: userColumns,
+        open: async (userId, filters) => {
+          const where = await usersService.buildWhere(
+            userId,
+            filters.organizationId,
+          );
+          return {
+            total: await prisma.user.count({ where }),
+            read: (skip, take) =>
+              prisma.user.findMany({
+                where,
+                include: userExportInclude,
+                orderBy: [{ lastName: 'asc' }, { id: 'asc' }],
+                skip,
+                take,
+              }),
+          };
+        },
+      },
+    };
+  }
+
+  async create(
+    userId: string,
+    createExportDto: CreateExportDto,
+  ): Promise<ExportSession> {
+    const { type, format } = createExportDto;
+    const source = this.sources[type];
+
+    const allowed = await this.permissionService.checkUserPermission(
+      userId,
+      source.permission.resource,
+      source.permission.action,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `Insufficient permissions. Required: ${source.permission.resource}.${source.permission.action}`,
+      );
+    }
+
+    const filters: ExportFilters = {};
+    for (const key of source.filterKeys) {
+      const value = createExportDto.filters?.[key];
+      if (value !== undefined && value !== '') filters[key] = String(value);
+    }
+
+    const session = await this.prisma.exportSession.create({
+      data: { userId, type, format, filters },
+    });
+
+    // Runs after the response is sent; progress is tracked on the session
+    setImmediate(() => {
+      this.processExport(session.id).catch((error: Error) =>
+        this.failExport(session.id, userId, error),
+      );
+    });
+    return session;
+  }
+
+  async findMine(userId: string): Promise<ExportSession[]> {
+    return this.prisma.exportSession.findMany({
+      where: { userId },
+      orderBy: { startedAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<ExportSession> {
+    const session = await this.prisma.exportSession.findFirst({
+      where: { id, userId },
+    });
+    if (!session) {
+      throw new NotFoundException(`Export with ID ${id} not found`);
+    }
+    return session;
+  }
+
+  async getDownload(id: string, userId: string): Promise<ExportDownload> {
+    const session = await this.findOne(id, userId);
+    if (session.status !== ExportStatus.COMPLETED || !session.fileName) {
+      throw new BadRequestException('Export is not ready for download');
+    }
+
+    const filePath = this.filePath(session);
+    if (
+      (session.expiresAt && session.expiresAt <= new Date()) ||
+      !fs.existsSync(filePath)
+    ) {
+      throw new GoneException('Export file has expired');
+    }
+
+    return {
+      filePath,
+      fileName: session.fileName,
+      contentType: EXPORT_CONTENT_TYPES[session.format as ExportFormat],
+    };
+  }
+
+  async remove(id: string, userId: string) {
+    const session = await this.findOne(id, userId);
+    await this.deleteFile(session);
+    await this.prisma.exportSession.delete({ where: { id } });
+    return { message: 'Export deleted successfully' };
+  }
+
+  /**
+   * Writes the export file in batches, updating progress as it goes. Failures
+   * are recorded on the session instead of being thrown.
+   */
+  async processExport(id: string): Promise<void> {
+    const session = await this.prisma.exportSession.findUnique({
+      where: { id },
+    });
+    if (!session || session.status !== ExportStatus.PENDING) return;
+
+    const source = this.sources[session.type as ExportType];
+    const format = session.format as ExportFormat;
+    const fileName = `${session.type}-${this.timestamp(new Date())}.${format}`;
+    const filePath = this.filePath(session);
+
+    try {
+      await this.prisma.exportSession.update({
+        where: { id },
+        data: { status: ExportStatus.PROCESSING, progress: 0 },
+      });
+
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      const reader = await source.open(
+        session.userId,
+        (session.filters ?? {}) as ExportFilters,
+      );
+      const writer = createExportWriter(format, filePath, source.columns);
+
+      let written = 0;
+      try {
+        while (written < reader.total) {
+          const records = await reader.read(written, BATCH_SIZE);
+          if (records.length === 0) break;
+
+          await writer.write(
+            records.map((record) =>
+              Object.fromEntries(
+                source.columns.map((column) => [
+                  column.key,
+                  column.value(record),
+                ]),
+              ),
+            ),
+          );
+          written += records.length;
+
+          await this.prisma.exportSession.update({
+            where: { id },
+            data: {
+              progress: Math.min(
+                99,
+                Math.floor((written / reader.total) * 100),
+              ),
+            },
+          });
+        }
+      } finally {
+        await writer.close();
+      }
+
+      const { size } = await fs.promises.stat(filePath);
+      const completedAt = new Date();
+      await this.prisma.exportSession.update({
+        where: { id },
+        data: {
+          status: ExportStatus.COMPLETED,
+          progress: 100,
+          fileName,
+          fileSize: size,
+          recordCount: written,
+          downloadUrl: `/api/exports/${id}/download`,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + EXPORT_TTL_MS),
+        },
+      });
+
+      await this.notificationsService.notify(session.userId, {
+        type: 'SYSTEM',
+        title: 'Export ready',
+        message: `Your ${session.type.replace('-', ' ')} export (${written} records) is ready to download.`,
+        data: { exportId: id, link: '/dashboard/exports' },
+      });
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      await this.failExport(id, session.userId, error as Error);
+    }
+  }
+
+  /**
+   * Logs an export failure and records it on the session. Exports run
+   * detached from the request, so this never throws.
+   */
+  private async failExport(
+    id: string,
+    userId: string,
+    error: Error,
+  ): Promise<void> {
+    this.logger.error(`Export ${id} failed`, error.stack, { userId });
+    try {
+      await this.prisma.exportSession.update({
+        where: { id },
+        data: {
+          status: ExportStatus.FAILED,
+          errorMessage: error.message,
+          completedAt: new Date(),
+        },
+      });
+    } catch (updateError) {
+      this.logger.error(
+        `Could not mark export ${id} as failed`,
+        (updateError as Error).stack,
+        { userId },
+      );
+    }
+  }
+
+  /** Deletes expired export files and fails jobs interrupted by a restart. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpired(now = new Date()) {
+    const expired = await this.prisma.exportSession.findMany({
+      where: { expiresAt: { lte: now } },
+    });
+    for (const session of expired) {
+      await this.deleteFile(session);
+    }
+    if (expired.length) {
+      await this.prisma.exportSession.deleteMany({
+        where: { id: { in: expired.map((session) => session.id) } },
+      });
+    }
+
+    const stale = await this.prisma.exportSession.updateMany({
+      where: {
+        status: { in: [ExportStatus.PENDING, ExportStatus.PROCESSING] },
+        startedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) },
+      },
+      data: {
+        status: ExportStatus.FAILED,
+        errorMessage: 'Export was interrupted',
+        completedAt: now,
+      },
+    });
+
+    if (expired.length || stale.count) {
+      this.logger.log(
+        `Removed ${expired.length} expired exports, failed ${stale.count} stale jobs`,
+      );
+    }
+    return { removed: expired.length, failed: stale.count };
+  }
+
+  private filePath(session: ExportSession) {
+    return path.join(this.storageDir, `${session.id}.${session.format}`);
+  }
+
+  private async deleteFile(session: ExportSession) {
+    await fs.promises.rm(this.filePath(session), { force: true });
+  }
+
+  private timestamp(date: Date) {
+    return date.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  }
+}
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsObject, IsOptional } from 'class-validator';
+
+export const EXPORT_TYPES = [
+  'work-logs',
+  'time-sessions',
+  'projects',
+  'users',
+] as const;
+export type ExportType = (typeof EXPORT_TYPES)[number];
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export class CreateExportDto {
+  @ApiProperty({ enum: EXPORT_TYPES, example: 'work-logs' })
+  @IsIn(EXPORT_TYPES)
+  type: ExportType;
+
+  @ApiProperty({ enum: EXPORT_FORMATS, example: 'csv' })
+  @IsIn(EXPORT_FORMATS)
+  format: ExportFormat;
+
+  @ApiPropertyOptional({
+    description:
+      'Filters accepted by the matching list endpoint, e.g. projectId, startDate, endDate or search',
+    example: { projectId: '8d7b…', startDate: '2025-01-01' },
+  })
+  @IsOptional()
+  @IsObject()
+  filters?: Record<string, string>;
+}
@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { ExportColumn } from './export-writers';
+
+export const workLogExportInclude = {
+  user: { select: { firstName: true, lastName: true, email: true } },
+  project: { select: { name: true, code: true } },
+  ticket: { select: { externalId: true, title: true } },
+} satisfies Prisma.WorkLogInclude;
+
+export const timeSessionExportInclude = {
+  user: { select: { firstName: true, lastName: true, email: true } },
+  project: { select: { name: true, code: true } },
+} satisfies Prisma.TimeSessionInclude;
+
+export const projectExportInclude = {
+  owner: { select: { firstName: true, lastName: true, email: true } },
+  _count: { select: { members: true, teams: true } },
+} satisfies Prisma.ProjectInclude;
+
+export const userExportInclude = {
+  manager: { select: { firstName: true, lastName: true, email: true } },
+  userRoles: {
+    where: { isActive: true },
+    select: { role: { select: { name: true } } },
+  },
+} satisfies Prisma.UserInclude;
+
+type WorkLogRecord = Prisma.WorkLogGetPayload<{
+  include: typeof workLogExportInclude;
+}>;
+type TimeSessionRecord = Prisma.TimeSessionGetPayload<{
+  include: typeof timeSessionExportInclude;
+}>;
+type ProjectRecord = Prisma.ProjectGetPayload<{
+  include: typeof projectExportInclude;
+}>;
+type UserRecord = Prisma.UserGetPayload<{
+  include: typeof userExportInclude;
+}>;
+
+const fullName = (
+  user: { firstName: string; lastName: string } | null | undefined,
+) => (user ? `${user.firstName} ${user.lastName}` : null);
+
+const toHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+const categoryColumns = <
+  T extends {
+    module: string | null;
+    taskCategory: string | null;
+    workCategory: string | null;
+    severityCategory: string | null;
+    sourceCategory: string | null;
+    ticketReference: string | null;
+  },
+>(): ExportColumn<T>[] => [
+  { key: 'module', header: 'Module', value: (r) => r.module },
+  {
+    key: 'taskCategory',
+    header: 'Task Category',
+    value: (r) => r.taskCategory,
+  },
+  {
+    key: 'workCategory',
+    header: 'Work Category',
+    value: (r) => r.workCategory,
+  },
+  {
+    key: 'severityCategory',
+    header: 'Severity Category',
+    value: (r) => r.severityCategory,
+  },
+  {
+    key: 'sourceCategory',
+    header: 'Source Category',
+    value: (r) => r.sourceCategory,
+  },
+  {
+    key: 'ticketReference',
+    header: 'Ticket Reference',
+    value: (r) => r.ticketReference,
+  },
+];
+
+export const workLogColumns: ExportColumn<WorkLogRecord>[] = [
+  { key: 'id', header: 'ID', value: (r) => r.id },
+  { key: 'user', header: 'User', value: (r) => fullName(r.user) },
+  { key: 'email', header: 'Email', value: (r) => r.user.email },
+  { key: 'project', header: 'Project', value: (r) => r.project.name },
+  { key: 'projectCode', header: 'Project Code', value: (r) => r.project.code },
+  { key: 'ticket', header: 'Ticket', value: (r) => r.ticket?.externalId },
+  { key: 'description', header: 'Description', value: (r) => r.description },
+  { key: 'startTime', header: 'Start Time', value: (r) => r.startTime },
+  { key: 'endTime', header: 'End Time', value: (r) => r.endTime },
+  { key: 'hours', header: 'Hours', value: (r) => toHours(r.duration) },
+  { key: 'billable', header: 'Billable', value: (r) => r.isBillable },
+  { key: 'approved', header: 'Approved', value: (r) => r.isApproved },
+  ...categoryColumns<WorkLogRecord>(),
+];
+
+export const timeSessionColumns: ExportColumn<TimeSessionRecord>[] = [
+  { key: 'id', header: 'ID', value: (r) => r.id },
+  { key: 'user', header: 'User', value: (r) => fullName(r.user) },
+  { key: 'project', header: 'Project', value: (r) => r.project.name },
+  { key: 'description', header: 'Description', value: (r) => r.description },
+  { key: 'status', header: 'Status', value: (r) => r.status },
+  { key: 'startTime', header: 'Start Time', value: (r) => r.startTime },
+  { key: 'endTime', header: 'End Time', value: (r) => r.endTime },
+  {
+    key: 'hours',
+    header: 'Hours',
+    value: (r) =>
+      r.endTime
+        ? toHours(
+            (r.endTime.getTime() -
+              r.startTime.getTime() -
+              (r.pausedDuration ?? 0)) /
+              1000,
+          )
+        : null,
+  },
+  ...categoryColumns<TimeSessionRecord>(),
+];
+
+export const projectColumns: ExportColumn<ProjectRecord>[] = [
+  { key: 'id', header: 'ID', value: (r) => r.id },
+  { key: 'code', header: 'Code', value: (r) => r.code },
+  { key: 'name', header: 'Name', value: (r) => r.name },
+  { key: 'status', header: 'Status', value: (r) => r.status },
+  { key: 'priority', header: 'Priority', value: (r) => r.priority },
+  { key: 'client', header: 'Client', value: (r) => r.clientName },
+  { key: 'owner', header: 'Owner', value: (r) => fullName(r.owner) },
+  { key: 'startDate', header: 'Start Date', value: (r) => r.startDate },
+  { key: 'endDate', header: 'End Date', value: (r) => r.endDate },
+  {
+    key: 'budget',
+    header: 'Budget',
+    value: (r) => (r.budget ? r.budget.toNumber() : null),
+  },
+  { key: 'currency', header: 'Currency', value: (r) => r.currency },
+  { key: 'teams', header: 'Teams', value: (r) => r._count.teams },
+  { key: 'members', header: 'Members', value: (r) => r._count.members },
+];
+
+export const userColumns: ExportColumn<UserRecord>[] = [
+  { key: 'id', header: 'ID', value: (r) => r.id },
+  { key: 'firstName', header: 'First Name', value: (r) => r.firstName },
+  { key: 'lastName', header: 'Last Name', value: (r) => r.lastName },
+  { key: 'email', header: 'Email', value: (r) => r.email },
+  { key: 'title', header: 'Title', value: (r) => r.title },
+  { key: 'department', header: 'Department', value: (r) => r.department },
+  { key: 'manager', header: 'Manager', value: (r) => fullName(r.manager) },
+  {
+    key: 'roles',
+    header: 'Roles',
+    value: (r) => r.userRoles.map((ur) => ur.role.name).join(', '),
+  },
+  { key: 'active', header: 'Active', value: (r) => r.isActive },
+  { key: 'lastLoginAt', header: 'Last Login', value: (r) => r.lastLoginAt },
+];
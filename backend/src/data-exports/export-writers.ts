@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import { once } from 'events';
+import * as ExcelJS from 'exceljs';
+import { ExportFormat } from './dto/create-export.dto';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (record: T) => ExportValue;
+}
+
+export type ExportRow = Record<string, ExportValue>;
+
+/** Appends rows to an export file in batches so large exports stay small in memory. */
+export interface ExportWriter {
+  write(rows: ExportRow[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+type WriterColumn = Pick<ExportColumn<unknown>, 'key' | 'header'>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function createExportWriter(
+  format: ExportFormat,
+  filePath: string,
+  columns: WriterColumn[],
+): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return new CsvExportWriter(filePath, columns);
+    case 'json':
+      return new JsonExportWriter(filePath, columns);
+    case 'xlsx':
+      return new XlsxExportWriter(filePath, columns);
+  }
+}
+
+const toText = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+export function escapeCsvValue(value: ExportValue): string {
+  let text = toText(value);
+  // Stop spreadsheet apps from evaluating user-entered text as a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+abstract class StreamExportWriter implements ExportWriter {
+  private readonly stream: fs.WriteStream;
+
+  constructor(filePath: string) {
+    this.stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+  }
+
+  abstract write(rows: ExportRow[]): Promise<void>;
+  abstract close(): Promise<void>;
+
+  protected async append(chunk: string): Promise<void> {
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  protected async end(chunk = ''): Promise<void> {
+    this.stream.end(chunk);
+    await once(this.stream, 'finish');
+  }
+}
+
+class CsvExportWriter extends StreamExportWriter {
+  private headerWritten = false;
+
+  constructor(
+    filePath: string,
+    private readonly columns: WriterColumn[],
+  ) {
+    super(filePath);
+  }
+
+  async write(rows: ExportRow[]): Promise<void> {
+    await this.writeHeader();
+    const lines = rows.map(
+      (row) =>
+        this.columns
+          .map((column) => escapeCsvValue(row[column.key]))
+          .join(',') + '\r\n',
+    );
+    await this.append(lines.join(''));
+  }
+
+  async close(): Promise<void> {
+    await this.writeHeader();
+    await this.end();
+  }
+
+  private async writeHeader() {
+    if (this.headerWritten) return;
+    this.headerWritten = true;
+    // The BOM lets Excel detect UTF-8
+    const header = this.columns.map((c) => escapeCsvValue(c.header)).join(',');
+    await this.append(`\ufeff${header}\r\n`);
+  }
+}
+
+class JsonExportWriter extends StreamExportWriter {
+  private count = 0;
+
+  constructor(
+    filePath: string,
+    private readonly columns: WriterColumn[],
+  ) {
+    super(filePath);
+  }
+
+  async write(rows: ExportRow[]): Promise<void> {
+    const chunks = rows.map((row) => {
+      const record: Record<string, ExportValue> = {};
+      for (const column of this.columns) {
+        record[column.key] = row[column.key] ?? null;
+      }
+      const prefix = this.count++ === 0 ? '[\n  ' : ',\n  ';
+      return prefix + JSON.stringify(record);
+    });
+    await this.append(chunks.join(''));
+  }
+
+  async close(): Promise<void> {
+    await this.end(this.count === 0 ? '[]\n' : '\n]\n');
+  }
+}
+
+class XlsxExportWriter implements ExportWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly worksheet: ExcelJS.Worksheet;
+
+  constructor(filePath: string, columns: WriterColumn[]) {
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      filename: filePath,
+    });
+    this.worksheet = this.workbook.addWorksheet('Export');
+    this.worksheet.columns = columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: Math.max(column.header.length + 2, 14),
+    }));
+  }
+
+  write(rows: ExportRow[]): Promise<void> {
+    for (const row of rows) {
+      this.worksheet.addRow(row).commit();
+    }
+    return Promise.resolve();
+  }
+
+  async close(): Promise<void> {
+    this.worksheet.commit();
+    await this.workbook.commit();
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Request,
+  StreamableFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import {
+  DataImportsService,
+  MAX_IMPORT_FILE_SIZE,
+} from './data-imports.service';
+import { CreateImportDto } from './dto/create-import.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionGuard } from '../common/guards/permission.guard';
+
+const fileUpload = FileInterceptor('file', {
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE },
+});
+
+// Each import type checks the create permission of the data it imports
+@ApiTags('imports')
+@ApiBearerAuth()
+@Controller('imports')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class DataImportsController {
+  constructor(private readonly dataImportsService: DataImportsService) {}
+
+  @Post('preview')
+  @UseInterceptors(fileUpload)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Validate an import file without saving it' })
+  @ApiResponse({ status: 201, description: 'Column mapping and row results' })
+  @ApiResponse({ status: 400, description: 'File could not be read' })
+  preview(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createImportDto: CreateImportDto,
+    @Request() req,
+  ) {
+    return this.dataImportsService.preview(req.user.id, file, createImportDto);
+  }
+
+  @Post()
+  @UseInterceptors(fileUpload)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Start an import job' })
+  @ApiResponse({ status: 201, description: 'Import job queued' })
+  @ApiResponse({ status: 403, description: 'Cannot create this data type' })
+  create(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createImportDto: CreateImportDto,
+    @Request() req,
+  ) {
+    return this.dataImportsService.create(req.user.id, file, createImportDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my import jobs' })
+  @ApiResponse({ status: 200, description: 'Import jobs retrieved' })
+  findMine(@Request() req) {
+    return this.dataImportsService.findMine(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an import job' })
+  @ApiResponse({ status: 200, description: 'Import job retrieved' })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.dataImportsService.findOne(id, req.user.id);
+  }
+
+  @Get(':id/errors')
+  @ApiOperation({ summary: 'Download the rejected rows of an import as CSV' })
+  @ApiResponse({ status: 200, description: 'Error report' })
+  async downloadErrors(@Param('id') id: string, @Request() req) {
+    const report = await this.dataImportsService.getErrorReport(
+      id,
+      req.user.id,
+    );
+    return new StreamableFile(Buffer.from(report.content, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${report.fileName}"`,
+    });
+  }
+}
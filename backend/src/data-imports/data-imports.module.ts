@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { DataImportsController } from './data-imports.controller';
+import { DataImportsService } from './data-imports.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { WorkLogsModule } from '../work-logs/work-logs.module';
+import { UsersModule } from '../users/users.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CommonModule,
+    WorkLogsModule,
+    UsersModule,
+    OrganizationsModule,
+    NotificationsModule,
+    CustomFieldsModule,
+  ],
+  controllers: [DataImportsController],
+  providers: [DataImportsService],
+  exports: [DataImportsService],
+})
+export class DataImportsModule {}
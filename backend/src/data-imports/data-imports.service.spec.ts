@@ -0,0 +1,394 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { DataImportsService } from './data-imports.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { UsersService } from '../users/users.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { parseImportFile } from './import-parsers';
+
+describe('DataImportsService', () => {
+  let service: DataImportsService;
+
+  const mockPrismaService = {
+    importSession: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    project: {
+      findFirst: jest.fn(),
+    },
+    workLog: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  const mockPermissionService = { checkUserPermission: jest.fn() };
+  const mockWorkLogsService = { assertCanLogWork: jest.fn() };
+  const mockUsersService = { findByEmail: jest.fn(), create: jest.fn() };
+  const mockOrganizationsService = { validateUserDomain: jest.fn() };
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockCustomFieldsService = { validateValues: jest.fn() };
+  const mockLoggerService = { log: jest.fn(), error: jest.fn() };
+
+  const csvFile = (content: string, originalname = 'timesheet.csv') =>
+    ({
+      originalname,
+      size: content.length,
+      buffer: Buffer.from(content, 'utf8'),
+    }) as Express.Multer.File;
+
+  const workLogCsv = [
+    'Project Code,Description,Start,Hours,Billable,External ID',
+    'PLT,Sprint planning,2025-03-03T09:00:00Z,1.5,yes,h-1',
+    'PLT,Code review,2025-03-03T10:00:00Z,1,maybe,h-2',
+    'NOPE,Support,2025-03-03T13:00:00Z,2,no,h-3',
+    'PLT,Sprint planning,2025-03-03T09:00:00Z,1.5,yes,h-1',
+  ].join('\n');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataImportsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: PermissionService, useValue: mockPermissionService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: WorkLogsService, useValue: mockWorkLogsService },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: CustomFieldsService, useValue: mockCustomFieldsService },
+      ],
+    }).compile();
+
+    service = module.get<DataImportsService>(DataImportsService);
+
+    mockPermissionService.checkUserPermission.mockResolvedValue(true);
+    mockPrismaService.project.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(where.code === 'PLT' ? { id: 'project-1' } : null),
+    );
+    mockPrismaService.workLog.findFirst.mockResolvedValue(null);
+    mockWorkLogsService.assertCanLogWork.mockResolvedValue('org-1');
+    mockCustomFieldsService.validateValues.mockResolvedValue({
+      costCentre: 'CC-100',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('preview', () => {
+    it('should detect the mapping and report each row without saving', async () => {
+      const result = await service.preview('user-1', csvFile(workLogCsv), {
+        type: 'work-logs',
+      });
+
+      expect(result.mapping).toEqual(
+        expect.objectContaining({
+          project: 'Project Code',
+          startTime: 'Start',
+          hours: 'Hours',
+          isBillable: 'Billable',
+          importId: 'External ID',
+        }),
+      );
+      expect(result.missingFields).toEqual([]);
+      expect(result).toEqual(
+        expect.objectContaining({
+          totalRecords: 4,
+          validRecords: 1,
+          duplicateRecords: 1,
+          errorRecords: 2,
+        }),
+      );
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          rowNumber: 3,
+          errors: ['Billable "maybe" must be yes or no'],
+        }),
+        expect.objectContaining({
+          rowNumber: 4,
+          errors: ['Project "NOPE" not found'],
+        }),
+      ]);
+      expect(mockWorkLogsService.assertCanLogWork).toHaveBeenCalledWith(
+        'user-1',
+        'project-1',
+        new Date('2025-03-03T09:00:00Z'),
+        new Date('2025-03-03T10:30:00Z'),
+      );
+      expect(mockPrismaService.workLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject rows missing a required custom field', async () => {
+      mockCustomFieldsService.validateValues.mockRejectedValue(
+        new BadRequestException(['Cost centre is required']),
+      );
+
+      const result = await service.preview('user-1', csvFile(workLogCsv), {
+        type: 'work-logs',
+      });
+
+      expect(result.validRecords).toBe(0);
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            rowNumber: 2,
+            errors: ['Cost centre is required'],
+          }),
+        ]),
+      );
+      expect(mockCustomFieldsService.validateValues).toHaveBeenCalledTimes(1);
+      expect(mockCustomFieldsService.validateValues).toHaveBeenCalledWith(
+        'org-1',
+        'work-log',
+        undefined,
+      );
+    });
+
+    it('should list required fields that have no column', async () => {
+      const result = await service.preview(
+        'user-1',
+        csvFile('Project,Notes\nPLT,Standup'),
+        { type: 'work-logs' },
+      );
+
+      expect(result.missingFields).toEqual(['Start Time']);
+      expect(result.validRecords).toBe(0);
+    });
+
+    it('should reject a mapping to a column that is not in the file', async () => {
+      await expect(
+        service.preview('user-1', csvFile(workLogCsv), {
+          type: 'work-logs',
+          mapping: { project: 'Client' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject users who cannot create the imported data', async () => {
+      mockPermissionService.checkUserPermission.mockResolvedValue(false);
+
+      await expect(
+        service.preview('user-1', csvFile(workLogCsv), { type: 'users' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPermissionService.checkUserPermission).toHaveBeenCalledWith(
+        'user-1',
+        'users',
+        'create',
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should mark the session failed when the job cannot load it', async () => {
+      mockPrismaService.importSession.create.mockResolvedValue({
+        id: 'import-1',
+      });
+      mockPrismaService.importSession.findUnique.mockRejectedValue(
+        new Error('database unavailable'),
+      );
+
+      await service.create('user-1', csvFile(workLogCsv), {
+        type: 'work-logs',
+      });
+      // The job runs once the current request has finished
+      await new Promise(setImmediate);
+      await new Promise(process.nextTick);
+
+      expect(mockLoggerService.error).toHaveBeenCalledWith(
+        'Import import-1 failed',
+        expect.any(String),
+        { userId: 'user-1' },
+      );
+      expect(mockPrismaService.importSession.update).toHaveBeenCalledWith({
+        where: { id: 'import-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorDetails: { message: 'database unavailable', rows: [] },
+        }),
+      });
+    });
+  });
+
+  describe('processImport', () => {
+    const session = {
+      id: 'import-1',
+      userId: 'user-1',
+      type: 'work-logs',
+      fileName: 'timesheet.csv',
+      status: 'PENDING',
+      settings: {
+        mapping: {
+          project: 'Project Code',
+          description: 'Description',
+          startTime: 'Start',
+          hours: 'Hours',
+          isBillable: 'Billable',
+          importId: 'External ID',
+        },
+        importSource: 'harvest',
+      },
+    };
+
+    it('should save valid rows, skip duplicates and record rejected rows', async () => {
+      const { rows } = await parseImportFile(Buffer.from(workLogCsv), 'csv');
+      mockPrismaService.importSession.findUnique.mockResolvedValue(session);
+
+      await service.processImport('import-1', rows);
+
+      expect(mockPrismaService.workLog.findFirst).toHaveBeenCalledWith({
+        where: { importSource: 'harvest', importId: 'h-1' },
+        select: { id: true },
+      });
+      expect(mockPrismaService.workLog.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.workLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          projectId: 'project-1',
+          duration: 5400,
+          isBillable: true,
+          importSource: 'harvest',
+          importId: 'h-1',
+          metadata: { customFields: { costCentre: 'CC-100' } },
+        }),
+      });
+      expect(mockPrismaService.importSession.update).toHaveBeenLastCalledWith({
+        where: { id: 'import-1' },
+        data: expect.objectContaining({
+          status: 'PARTIAL',
+          processedRecords: 4,
+          successRecords: 1,
+          skippedRecords: 1,
+          errorRecords: 2,
+          errorDetails: {
+            rows: [
+              expect.objectContaining({ rowNumber: 3 }),
+              expect.objectContaining({ rowNumber: 4 }),
+            ],
+          },
+        }),
+      });
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ title: 'Import finished' }),
+      );
+    });
+
+    it('should record the work log checks as row errors', async () => {
+      const { rows } = await parseImportFile(
+        Buffer.from(workLogCsv.split('\n').slice(0, 2).join('\n')),
+        'csv',
+      );
+      mockPrismaService.importSession.findUnique.mockResolvedValue(session);
+      mockWorkLogsService.assertCanLogWork.mockRejectedValue(
+        new BadRequestException('Time period overlaps with existing work log'),
+      );
+
+      await service.processImport('import-1', rows);
+
+      expect(mockPrismaService.workLog.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.importSession.update).toHaveBeenLastCalledWith({
+        where: { id: 'import-1' },
+        data: expect.objectContaining({
+          status: 'FAILED',
+          errorDetails: {
+            rows: [
+              expect.objectContaining({
+                errors: ['Time period overlaps with existing work log'],
+              }),
+            ],
+          },
+        }),
+      });
+    });
+
+    it('should skip users that already exist', async () => {
+      const { rows } = await parseImportFile(
+        Buffer.from(
+          'Email,First Name,Last Name\nada@example.com,Ada,Lovelace\nalan@example.com,Alan,Turing',
+        ),
+        'csv',
+      );
+      mockPrismaService.importSession.findUnique.mockResolvedValue({
+        ...session,
+        type: 'users',
+        settings: {
+          mapping: {
+            email: 'Email',
+            firstName: 'First Name',
+            lastName: 'Last Name',
+          },
+        },
+      });
+      mockUsersService.findByEmail.mockImplementation((email: string) =>
+        Promise.resolve(email === 'ada@example.com' ? { id: 'user-2' } : null),
+      );
+      mockOrganizationsService.validateUserDomain.mockResolvedValue({
+        id: 'org-1',
+      });
+
+      await service.processImport('import-1', rows);
+
+      expect(mockUsersService.create).toHaveBeenCalledTimes(1);
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'alan@example.com',
+          customFields: { costCentre: 'CC-100' },
+        }),
+      );
+      expect(mockCustomFieldsService.validateValues).toHaveBeenCalledWith(
+        'org-1',
+        'user',
+        undefined,
+      );
+      expect(mockPrismaService.importSession.update).toHaveBeenLastCalledWith({
+        where: { id: 'import-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          successRecords: 1,
+          skippedRecords: 1,
+        }),
+      });
+    });
+  });
+
+  describe('getErrorReport', () => {
+    it('should list rejected rows with their original values', async () => {
+      mockPrismaService.importSession.findFirst.mockResolvedValue({
+        id: 'import-1',
+        fileName: 'timesheet.csv',
+        settings: { headers: ['Project Code', 'Description'] },
+        errorDetails: {
+          rows: [
+            {
+              rowNumber: 4,
+              errors: ['Project "NOPE" not found'],
+              values: { 'Project Code': 'NOPE', Description: 'Support' },
+            },
+          ],
+        },
+      });
+
+      const report = await service.getErrorReport('import-1', 'user-1');
+
+      expect(report.fileName).toBe('timesheet-errors.csv');
+      expect(report.content.replace(/^\uFEFF/, '').split('\r\n')).toEqual([
+        'Row,Errors,Project Code,Description',
+        '4,"Project ""NOPE"" not found",NOPE,Support',
+        '',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,780 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ImportSession, ImportStatus, Prisma } from '@prisma/client';
+import { isEmail } from 'class-validator';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { UsersService } from '../users/users.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  CUSTOM_FIELDS_KEY,
+  CustomFieldValues,
+  CustomFieldsService,
+} from '../custom-fields/custom-fields.service';
+import { CustomFieldEntity } from '../custom-fields/dto/create-custom-field.dto';
+import { escapeCsvValue } from '../data-exports/export-writers';
+import { CreateImportDto, ImportType } from './dto/create-import.dto';
+import {
+  ImportField,
+  detectMapping,
+  userImportFields,
+  workLogImportFields,
+} from './import-fields';
+import {
+  ImportRow,
+  MAX_IMPORT_ROWS,
+  ParsedImport,
+  detectImportFormat,
+  parseImportFile,
+} from './import-parsers';
+
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+const DEFAULT_IMPORT_SOURCE = 'file-import';
+const PROGRESS_EVERY = 50;
+const PREVIEW_ROWS = 20;
+const PREVIEW_ERRORS = 200;
+// Rows live in memory while an import runs, so a restart cuts it off
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+type ImportValues = Record<string, string>;
+
+type RowResult =
+  | { status: 'valid'; data: unknown }
+  | { status: 'duplicate'; reason: string }
+  | { status: 'invalid'; errors: string[] };
+
+export interface ImportRowError {
+  rowNumber: number;
+  errors: string[];
+  values: Record<string, string>;
+}
+
+interface ImportErrorDetails {
+  message?: string;
+  rows: ImportRowError[];
+}
+
+/** State shared by the rows of one import, so checks can span the file. */
+interface ImportContext {
+  userId: string;
+  importSource: string;
+  seen: Set<string>;
+  projects: Map<string, string | null>;
+  /** Custom field values or errors per organization */
+  customFields: Map<string, CustomFieldResult>;
+  periods: { rowNumber: number; start: Date; end: Date }[];
+}
+
+type CustomFieldResult = { values: CustomFieldValues } | { errors: string[] };
+
+/** Validates and saves the rows of one import type. */
+interface ImportHandler {
+  /** Permission needed to import, matching the create endpoint */
+  permission: { resource: string; action: string };
+  fields: ImportField[];
+  validate(
+    values: ImportValues,
+    context: ImportContext,
+    rowNumber: number,
+  ): Promise<RowResult>;
+  insert(data: unknown, context: ImportContext): Promise<void>;
+}
+
+interface PreparedImport {
+  handler: ImportHandler;
+  parsed: ParsedImport;
+  mapping: Record<string, string>;
+  missingFields: string[];
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+@Injectable()
+export class DataImportsService {
+  private readonly handlers: Record<ImportType, ImportHandler>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly permissionService: PermissionService,
+    private readonly notificationsService: NotificationsService,
+    private readonly customFieldsService: CustomFieldsService,
+    workLogsService: WorkLogsService,
+    usersService: UsersService,
+    organizationsService: OrganizationsService,
+  ) {
+    this.handlers = {
+      'work-logs': {
+        permission: { resource: 'work_logs', action: 'create' },
+        fields: workLogImportFields,
+        validate: async (values, context, rowNumber) => {
+          const errors: string[] = [];
+
+          const projectId = await this.resolveProject(values.project, context);
+          if (!projectId) errors.push(`Project "${values.project}" not found`);
+
+          const start = new Date(values.startTime);
+          if (isNaN(start.getTime())) {
+            errors.push(`Start Time "${values.startTime}" is not a valid date`);
+          }
+          let end: Date | undefined;
+          if (values.endTime) {
+            end = new Date(values.endTime);
+            if (isNaN(end.getTime())) {
+              errors.push(`End Time "${values.endTime}" is not a valid date`);
+            }
+          } else if (values.hours) {
+            const hours = Number(values.hours);
+            if (isNaN(hours) || hours <= 0) {
+              errors.push(`Hours "${values.hours}" must be a positive number`);
+            } else {
+              end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+            }
+          } else {
+            errors.push('Either End Time or Hours is required');
+          }
+          if (end && end <= start) {
+            errors.push('End Time must be after Start Time');
+          }
+
+          const isBillable = this.parseBoolean(values.isBillable);
+          if (isBillable === null) {
+            errors.push(`Billable "${values.isBillable}" must be yes or no`);
+          }
+          if (errors.length) return { status: 'invalid', errors };
+
+          if (values.importId) {
+            const key = values.importId;
+            if (context.seen.has(key)) {
+              return {
+                status: 'duplicate',
+                reason: 'External ID appears earlier in the file',
+              };
+            }
+            const existing = await this.prisma.workLog.findFirst({
+              where: { importSource: context.importSource, importId: key },
+              select: { id: true },
+            });
+            if (existing) {
+              return { status: 'duplicate', reason: 'Already imported' };
+            }
+          }
+
+          const overlap = context.periods.find(
+            (period) => period.start < end! && period.end > start,
+          );
+          if (overlap) {
+            return {
+              status: 'invalid',
+              errors: [`Time period overlaps row ${overlap.rowNumber}`],
+            };
+          }
+          let organizationId: string;
+          try {
+            organizationId = await workLogsService.assertCanLogWork(
+              context.userId,
+              projectId!,
+              start,
+              end!,
+            );
+          } catch (error) {
+            return { status: 'invalid', errors: [(error as Error).message] };
+          }
+          const customFields = await this.validateCustomFields(
+            organizationId,
+            'work-log',
+            context,
+          );
+          if ('errors' in customFields) {
+            return { status: 'invalid', errors: customFields.errors };
+          }
+
+          if (values.importId) context.seen.add(values.importId);
+          context.periods.push({ rowNumber, start, end: end! });
+
+          const data: Prisma.WorkLogUncheckedCreateInput = {
+            userId: context.userId,
+            projectId: projectId!,
+            description: values.description,
+            startTime: start,
+            endTime: end!,
+            duration: Math.round((end!.getTime() - start.getTime()) / 1000),
+            isBillable: isBillable ?? true,
+            module: values.module || undefined,
+            taskCategory: values.taskCategory || undefined,
+            workCategory: values.workCategory || undefined,
+            severityCategory: values.severityCategory || undefined,
+            sourceCategory: values.sourceCategory || undefined,
+            ticketReference: values.ticketReference || undefined,
+            tags: values.tags
+              ? values.tags
+                  .split(/[;,]/)
+                  .map((tag) => tag.trim())
+                  .filter(Boolean)
+              : [],
+            importSource: context.importSource,
+            importId: values.importId || undefined,
+            metadata: {
+              [CUSTOM_FIELDS_KEY]:
+                customFields.values as Prisma.InputJsonObject,
+            },
+          };
+          return { status: 'valid', data };
+        },
+        insert: async (data) => {
+          await this.prisma.workLog.create({
+            data: data as Prisma.WorkLogUncheckedCreateInput,
+          });
+        },
+      },
+      users: {
+        permission: { resource: 'users', action: 'create' },
+        fields: userImportFields,
+        validate: async (values, context) => {
+          const email = values.email.toLowerCase();
+          if (!isEmail(email)) {
+            return {
+              status: 'invalid',
+              errors: [`Email "${values.email}" is not valid`],
+            };
+          }
+          if (context.seen.has(email)) {
+            return {
+              status: 'duplicate',
+              reason: 'Email appears earlier in the file',
+            };
+          }
+          if (await usersService.findByEmail(email)) {
+            return { status: 'duplicate', reason: 'User already exists' };
+          }
+          const organization =
+            await organizationsService.validateUserDomain(email);
+          if (!organization) {
+            return {
+              status: 'invalid',
+              errors: ['No organization is registered for this email domain'],
+            };
+          }
+          const customFields = await this.validateCustomFields(
+            organization.id,
+            'user',
+            context,
+          );
+          if ('errors' in customFields) {
+            return { status: 'invalid', errors: customFields.errors };
+          }
+
+          context.seen.add(email);
+          return {
+            status: 'valid',
+            data: {
+              email,
+              firstName: values.firstName,
+              lastName: values.lastName,
+              displayName: values.displayName || undefined,
+              title: values.title || undefined,
+              department: values.department || undefined,
+              phone: values.phone || undefined,
+              timezone: values.timezone || undefined,
+              locale: values.locale || undefined,
+              customFields: customFields.values,
+            },
+          };
+        },
+        insert: async (data) => {
+          await usersService.create(
+            data as Parameters<UsersService['create']>[0],
+          );
+        },
+      },
+    };
+  }
+
+  /** Validates a file without saving anything. */
+  async preview(
+    userId: string,
+    file: Express.Multer.File | undefined,
+    createImportDto: CreateImportDto,
+  ) {
+    const { handler, parsed, mapping, missingFields } = await this.prepare(
+      userId,
+      file,
+      createImportDto,
+    );
+
+    const context = this.createContext(userId, createImportDto);
+    const rows: (ImportRowError & { status: RowResult['status'] })[] = [];
+    const errors: ImportRowError[] = [];
+    let validRecords = 0;
+    let duplicateRecords = 0;
+
+    if (missingFields.length === 0) {
+      for (const row of parsed.rows) {
+        const result = await this.evaluateRow(handler, mapping, row, context);
+        const messages =
+          result.status === 'invalid'
+            ? result.errors
+            : result.status === 'duplicate'
+              ? [result.reason]
+              : [];
+        if (result.status === 'valid') validRecords++;
+        if (result.status === 'duplicate') duplicateRecords++;
+        if (result.status === 'invalid' && errors.length < PREVIEW_ERRORS) {
+          errors.push({
+            rowNumber: row.rowNumber,
+            errors: messages,
+            values: row.values,
+          });
+        }
+        if (rows.length < PREVIEW_ROWS) {
+          rows.push({
+            rowNumber: row.rowNumber,
+            status: result.status,
+            errors: messages,
+            values: this.mapValues(handler, mapping, row),
+          });
+        }
+      }
+    }
+
+    return {
+      headers: parsed.headers,
+      fields: handler.fields,
+      mapping,
+      missingFields,
+      totalRecords: parsed.rows.length,
+      validRecords,
+      duplicateRecords,
+      errorRecords:
+        parsed.rows.length && missingFields.length === 0
+          ? parsed.rows.length - validRecords - duplicateRecords
+          : 0,
+      rows,
+      errors,
+    };
+  }
+
+  async create(
+    userId: string,
+    file: Express.Multer.File | undefined,
+    createImportDto: CreateImportDto,
+  ): Promise<ImportSession> {
+    const { parsed, mapping, missingFields } = await this.prepare(
+      userId,
+      file,
+      createImportDto,
+    );
+    if (missingFields.length) {
+      throw new BadRequestException(
+        `Map a column to each required field: ${missingFields.join(', ')}`,
+      );
+    }
+
+    const session = await this.prisma.importSession.create({
+      data: {
+        userId,
+        type: createImportDto.type,
+        source: detectImportFormat(file!.originalname)!,
+        fileName: file!.originalname,
+        fileSize: file!.size,
+        totalRecords: parsed.rows.length,
+        settings: {
+          mapping,
+          headers: parsed.headers,
+          importSource: createImportDto.importSource || DEFAULT_IMPORT_SOURCE,
+        },
+      },
+    });
+
+    // Runs after the response is sent; counters are tracked on the session
+    setImmediate(() => {
+      this.processImport(session.id, parsed.rows).catch((error: Error) =>
+        this.failImport(session.id, userId, error),
+      );
+    });
+    return session;
+  }
+
+  async findMine(userId: string): Promise<ImportSession[]> {
+    return this.prisma.importSession.findMany({
+      where: { userId },
+      orderBy: { startedAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<ImportSession> {
+    const session = await this.prisma.importSession.findFirst({
+      where: { id, userId },
+    });
+    if (!session) {
+      throw new NotFoundException(`Import with ID ${id} not found`);
+    }
+    return session;
+  }
+
+  /** Builds a CSV of the rejected rows with their original values. */
+  async getErrorReport(
+    id: string,
+    userId: string,
+  ): Promise<{ fileName: string; content: string }> {
+    const session = await this.findOne(id, userId);
+    const details = (session.errorDetails ?? {
+      rows: [],
+    }) as unknown as ImportErrorDetails;
+    const headers = ((session.settings as Prisma.JsonObject)?.headers ??
+      []) as string[];
+
+    const lines = [['Row', 'Errors', ...headers].map(escapeCsvValue).join(',')];
+    if (details.message) {
+      lines.push(['', details.message].map(escapeCsvValue).join(','));
+    }
+    for (const row of details.rows) {
+      lines.push(
+        [
+          row.rowNumber,
+          row.errors.join('; '),
+          ...headers.map((header) => row.values[header]),
+        ]
+          .map(escapeCsvValue)
+          .join(','),
+      );
+    }
+
+    const baseName = session.fileName
+      .replace(/\.[^.]+$/, '')
+      .replace(/["\\\r\n]/g, '');
+    return {
+      fileName: `${baseName}-errors.csv`,
+      content: '\ufeff' + lines.join('\r\n') + '\r\n',
+    };
+  }
+
+  /**
+   * Validates and saves each row in file order. Rejected rows are collected in
+   * the session's error details instead of stopping the import.
+   */
+  async processImport(id: string, rows: ImportRow[]): Promise<void> {
+    const session = await this.prisma.importSession.findUnique({
+      where: { id },
+    });
+    if (!session || session.status !== ImportStatus.PENDING) return;
+
+    const handler = this.handlers[session.type as ImportType];
+    const settings = session.settings as {
+      mapping: Record<string, string>;
+      importSource: string;
+    };
+    const context = this.createContext(session.userId, settings);
+    const details: ImportErrorDetails = { rows: [] };
+    const counters = {
+      processedRecords: 0,
+      successRecords: 0,
+      errorRecords: 0,
+      skippedRecords: 0,
+    };
+
+    try {
+      await this.prisma.importSession.update({
+        where: { id },
+        data: { status: ImportStatus.PROCESSING },
+      });
+
+      for (const row of rows) {
+        const result = await this.evaluateRow(
+          handler,
+          settings.mapping,
+          row,
+          context,
+        );
+        if (result.status === 'valid') {
+          try {
+            await handler.insert(result.data, context);
+            counters.successRecords++;
+          } catch (error) {
+            counters.errorRecords++;
+            details.rows.push({
+              rowNumber: row.rowNumber,
+              errors: [(error as Error).message],
+              values: row.values,
+            });
+          }
+        } else if (result.status === 'duplicate') {
+          counters.skippedRecords++;
+        } else {
+          counters.errorRecords++;
+          details.rows.push({
+            rowNumber: row.rowNumber,
+            errors: result.errors,
+            values: row.values,
+          });
+        }
+        counters.processedRecords++;
+
+        if (counters.processedRecords % PROGRESS_EVERY === 0) {
+          await this.prisma.importSession.update({
+            where: { id },
+            data: counters,
+          });
+        }
+      }
+
+      const status =
+        counters.errorRecords === 0
+          ? ImportStatus.COMPLETED
+          : counters.successRecords > 0
+            ? ImportStatus.PARTIAL
+            : ImportStatus.FAILED;
+      await this.prisma.importSession.update({
+        where: { id },
+        data: {
+          ...counters,
+          status,
+          errorDetails: details as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+
+      await this.notificationsService.notify(session.userId, {
+        type: 'SYSTEM',
+        title: 'Import finished',
+        message: `${session.fileName}: ${counters.successRecords} imported, ${counters.skippedRecords} skipped, ${counters.errorRecords} failed.`,
+        data: { importId: id, link: '/dashboard/imports' },
+      });
+    } catch (error) {
+      await this.failImport(
+        id,
+        session.userId,
+        error as Error,
+        counters,
+        details,
+      );
+    }
+  }
+
+  /**
+   * Logs an import failure and records it on the session with the rows
+   * processed so far. Imports run detached from the request, so this never
+   * throws.
+   */
+  private async failImport(
+    id: string,
+    userId: string,
+    error: Error,
+    counters: Record<string, number> = {},
+    details: ImportErrorDetails = { rows: [] },
+  ): Promise<void> {
+    this.logger.error(`Import ${id} failed`, error.stack, { userId });
+    details.message = error.message;
+    try {
+      await this.prisma.importSession.update({
+        where: { id },
+        data: {
+          ...counters,
+          status: ImportStatus.FAILED,
+          errorDetails: details as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+    } catch (updateError) {
+      this.logger.error(
+        `Could not mark import ${id} as failed`,
+        (updateError as Error).stack,
+        { userId },
+      );
+    }
+  }
+
+  /** Fails imports that were cut off by a restart. */
+  @Cron(CronExpression.EVERY_HOUR)
+  async failStaleImports(now = new Date()) {
+    const stale = await this.prisma.importSession.updateMany({
+      where: {
+        status: { in: [ImportStatus.PENDING, ImportStatus.PROCESSING] },
+        startedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) },
+      },
+      data: {
+        status: ImportStatus.FAILED,
+        errorDetails: { message: 'Import was interrupted', rows: [] },
+        completedAt: now,
+      },
+    });
+    if (stale.count) {
+      this.logger.log(`Failed ${stale.count} stale imports`);
+    }
+    return { failed: stale.count };
+  }
+
+  private async prepare(
+    userId: string,
+    file: Express.Multer.File | undefined,
+    createImportDto: CreateImportDto,
+  ): Promise<PreparedImport> {
+    const handler = this.handlers[createImportDto.type];
+    const allowed = await this.permissionService.checkUserPermission(
+      userId,
+      handler.permission.resource,
+      handler.permission.action,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `Insufficient permissions. Required: ${handler.permission.resource}.${handler.permission.action}`,
+      );
+    }
+
+    if (!file) {
+      throw new BadRequestException('A CSV or XLSX file is required');
+    }
+    const format = detectImportFormat(file.originalname);
+    if (!format) {
+      throw new BadRequestException('Only CSV and XLSX files can be imported');
+    }
+
+    let parsed: ParsedImport;
+    try {
+      parsed = await parseImportFile(file.buffer, format);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read the file: ${(error as Error).message}`,
+      );
+    }
+    if (parsed.rows.length === 0) {
+      throw new BadRequestException('The file has no data rows');
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `Files can contain at most ${MAX_IMPORT_ROWS} rows`,
+      );
+    }
+
+    const mapping: Record<string, string> = {};
+    const requested =
+      createImportDto.mapping ?? detectMapping(handler.fields, parsed.headers);
+    for (const field of handler.fields) {
+      const header = requested[field.key];
+      if (!header) continue;
+      if (!parsed.headers.includes(header)) {
+        throw new BadRequestException(
+          `Column "${header}" was not found in the file`,
+        );
+      }
+      mapping[field.key] = header;
+    }
+    const missingFields = handler.fields
+      .filter((field) => field.required && !mapping[field.key])
+      .map((field) => field.label);
+
+    return { handler, parsed, mapping, missingFields };
+  }
+
+  private createContext(
+    userId: string,
+    options: { importSource?: string },
+  ): ImportContext {
+    return {
+      userId,
+      importSource: options.importSource || DEFAULT_IMPORT_SOURCE,
+      seen: new Set(),
+      projects: new Map(),
+      customFields: new Map(),
+      periods: [],
+    };
+  }
+
+  private async evaluateRow(
+    handler: ImportHandler,
+    mapping: Record<string, string>,
+    row: ImportRow,
+    context: ImportContext,
+  ): Promise<RowResult> {
+    const values = this.mapValues(handler, mapping, row);
+    const missing = handler.fields
+      .filter((field) => field.required && !values[field.key])
+      .map((field) => `${field.label} is required`);
+    if (missing.length) return { status: 'invalid', errors: missing };
+    return handler.validate(values, context, row.rowNumber);
+  }
+
+  private mapValues(
+    handler: ImportHandler,
+    mapping: Record<string, string>,
+    row: ImportRow,
+  ): ImportValues {
+    const values: ImportValues = {};
+    for (const field of handler.fields) {
+      const header = mapping[field.key];
+      values[field.key] = header ? (row.values[header] ?? '').trim() : '';
+    }
+    return values;
+  }
+
+  /**
+   * Checks the organization's custom fields for a row. Files have no custom
+   * field columns, so defaults apply and a required field without one
+   * rejects the row, as the create endpoints would.
+   */
+  private async validateCustomFields(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    context: ImportContext,
+  ): Promise<CustomFieldResult> {
+    if (!context.customFields.has(organizationId)) {
+      let result: CustomFieldResult;
+      try {
+        result = {
+          values: await this.customFieldsService.validateValues(
+            organizationId,
+            entity,
+            undefined,
+          ),
+        };
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) throw error;
+        const { message } = error.getResponse() as {
+          message: string | string[];
+        };
+        result = { errors: Array.isArray(message) ? message : [message] };
+      }
+      context.customFields.set(organizationId, result);
+    }
+    return context.customFields.get(organizationId)!;
+  }
+
+  /** Matches a project by code first, then by name. */
+  private async resolveProject(
+    value: string,
+    context: ImportContext,
+  ): Promise<string | null> {
+    if (!context.projects.has(value)) {
+      const project =
+        (await this.prisma.project.findFirst({
+          where: { code: value },
+          select: { id: true },
+        })) ??
+        (await this.prisma.project.findFirst({
+          where: { name: { equals: value, mode: 'insensitive' } },
+          select: { id: true },
+        }));
+      context.projects.set(value, project?.id ?? null);
+    }
+    return context.projects.get(value)!;
+  }
+
+  private parseBoolean(value: string): boolean | undefined | null {
+    if (!value) return undefined;
+    const normalized = value.toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) return true;
+    if (FALSE_VALUES.includes(normalized)) return false;
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export const IMPORT_TYPES = ['work-logs', 'users'] as const;
+export type ImportType = (typeof IMPORT_TYPES)[number];
+
+export const IMPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// Multipart forms send objects as JSON strings
+const parseJson = ({ value }: { value: unknown }) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+};
+
+export class CreateImportDto {
+  @ApiProperty({ enum: IMPORT_TYPES, example: 'work-logs' })
+  @IsIn(IMPORT_TYPES)
+  type: ImportType;
+
+  @ApiPropertyOptional({
+    description:
+      'Maps import fields to column headers in the file. Detected from the headers when omitted.',
+    example: { project: 'Project Code', startTime: 'Start' },
+  })
+  @IsOptional()
+  @Transform(parseJson)
+  @IsObject()
+  mapping?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      'System the records come from. Rows whose external ID was already imported from this source are skipped.',
+    example: 'harvest',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[\w.-]+$/, {
+    message:
+      'importSource may only contain letters, numbers, dots, dashes and underscores',
+  })
+  importSource?: string;
+}
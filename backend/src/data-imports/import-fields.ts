@@ -0,0 +1,71 @@
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  /** Other header names detected as this field, compared case-insensitively */
+  aliases?: string[];
+}
+
+export const workLogImportFields: ImportField[] = [
+  {
+    key: 'project',
+    label: 'Project',
+    required: true,
+    aliases: ['Project Code', 'Project Name'],
+  },
+  {
+    key: 'description',
+    label: 'Description',
+    required: true,
+    aliases: ['Notes', 'Task'],
+  },
+  {
+    key: 'startTime',
+    label: 'Start Time',
+    required: true,
+    aliases: ['Start', 'Started At', 'Date'],
+  },
+  { key: 'endTime', label: 'End Time', aliases: ['End', 'Ended At'] },
+  { key: 'hours', label: 'Hours', aliases: ['Duration', 'Duration (hours)'] },
+  { key: 'isBillable', label: 'Billable', aliases: ['Is Billable'] },
+  { key: 'module', label: 'Module' },
+  { key: 'taskCategory', label: 'Task Category' },
+  { key: 'workCategory', label: 'Work Category' },
+  { key: 'severityCategory', label: 'Severity Category' },
+  { key: 'sourceCategory', label: 'Source Category' },
+  { key: 'ticketReference', label: 'Ticket Reference' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'importId', label: 'External ID', aliases: ['ID', 'Import ID'] },
+];
+
+export const userImportFields: ImportField[] = [
+  { key: 'email', label: 'Email', required: true, aliases: ['Email Address'] },
+  { key: 'firstName', label: 'First Name', required: true },
+  { key: 'lastName', label: 'Last Name', required: true, aliases: ['Surname'] },
+  { key: 'displayName', label: 'Display Name' },
+  { key: 'title', label: 'Title', aliases: ['Job Title'] },
+  { key: 'department', label: 'Department' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'timezone', label: 'Timezone' },
+  { key: 'locale', label: 'Locale' },
+];
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Maps each field to the first header matching its key, label or an alias. */
+export function detectMapping(
+  fields: ImportField[],
+  headers: string[],
+): Record<string, string> {
+  const byName = new Map(headers.map((header) => [normalize(header), header]));
+  const mapping: Record<string, string> = {};
+  for (const field of fields) {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])];
+    const header = candidates
+      .map((candidate) => byName.get(normalize(candidate)))
+      .find(Boolean);
+    if (header) mapping[field.key] = header;
+  }
+  return mapping;
+}
@@ -0,0 +1,78 @@
+import { Readable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { ImportFormat } from './dto/create-import.dto';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRow {
+  /** Row number in the file, counting the header as row 1 */
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface ParsedImport {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'csv' || extension === 'xlsx' ? extension : null;
+}
+
+/** Reads the first sheet of a CSV or XLSX file into header-keyed rows of text. */
+export async function parseImportFile(
+  buffer: Buffer,
+  format: ImportFormat,
+): Promise<ParsedImport> {
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+  if (format === 'csv') {
+    // Keep values as text; type conversion happens during validation
+    sheet = await workbook.csv.read(Readable.from(buffer), {
+      map: (value: unknown) => value,
+    });
+  } else {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    sheet = workbook.worksheets[0];
+  }
+  if (!sheet || sheet.rowCount === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const headerRow = sheet.getRow(1);
+  const headers: string[] = [];
+  headerRow.eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column - 1] = cellToString(cell.value).replace(/^\uFEFF/, '');
+  });
+
+  const rows: ImportRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) values[header] = cellToString(row.getCell(index + 1).value);
+    });
+    if (Object.values(values).some((value) => value !== '')) {
+      rows.push({ rowNumber, values });
+    }
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      return cellToString(value.result);
+    }
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value).trim();
+}
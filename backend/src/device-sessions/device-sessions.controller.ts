@@ -132,6 +132,7 @@ export class DeviceSessionsController {
   async recordSession(@Request() req, @Body() body: RecordSessionRequestDto) {
     const session = await this.deviceSessionsService.recordSession({
       userId: req.user.id,
+      sessionId: req.user.sessionId,
       ...body
     });
     
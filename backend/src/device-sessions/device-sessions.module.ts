@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 import { DeviceSessionsService } from './device-sessions.service';
 import { DeviceSessionsController } from './device-sessions.controller';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, RealtimeModule],
   providers: [DeviceSessionsService],
   controllers: [DeviceSessionsController],
   exports: [DeviceSessionsService],
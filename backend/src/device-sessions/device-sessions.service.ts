@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
 
 interface RecordSessionDto {
   userId: string;
@@ -8,11 +9,16 @@ interface RecordSessionDto {
   appVersion?: string;
   deviceName?: string;
   osVersion?: string;
+  // Login session to link to the device, so revoking the device ends it
+  sessionId?: string;
 }
 
 @Injectable()
 export class DeviceSessionsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
 
   async findUserSessions(userId: string) {
     return this.prisma.deviceSession.findMany({
@@ -52,9 +58,9 @@ export class DeviceSessionsService {
   }
 
   async recordSession(data: RecordSessionDto) {
-    const { userId, deviceId, platform, appVersion, deviceName, osVersion } = data;
+    const { userId, deviceId, platform, appVersion, deviceName, osVersion, sessionId } = data;
 
-    return this.prisma.deviceSession.upsert({
+    const session = await this.prisma.deviceSession.upsert({
       where: { userId_deviceId: { userId, deviceId } },
       update: { 
         lastUsedAt: new Date(),
@@ -74,26 +80,62 @@ export class DeviceSessionsService {
         isActive: true,
       },
     });
+
+    if (sessionId) {
+      await this.prisma.userSession.updateMany({
+        where: { familyId: sessionId, userId, isActive: true },
+        data: { deviceSessionId: session.id },
+      });
+    }
+
+    return session;
   }
 
   async revokeSession(userId: string, sessionId: string) {
     // First check if session exists and belongs to user
     const session = await this.findSessionById(userId, sessionId);
     
-    return this.prisma.deviceSession.update({
-      where: { id: sessionId },
-      data: { isActive: false },
+    // Ending the login sessions of the device rejects its tokens right away
+    const loginSessions = await this.prisma.userSession.findMany({
+      where: { deviceSessionId: session.id, isActive: true },
+      select: { familyId: true },
     });
+    const [revoked] = await this.prisma.$transaction([
+      this.prisma.deviceSession.update({
+        where: { id: session.id },
+        data: { isActive: false },
+      }),
+      this.prisma.userSession.updateMany({
+        where: { deviceSessionId: session.id, isActive: true },
+        data: { isActive: false, revokedAt: new Date() },
+      }),
+    ]);
+    this.realtimeService.endSessions(loginSessions.map((s) => s.familyId));
+
+    return revoked;
   }
 
   async revokeAllSessions(userId: string) {
-    return this.prisma.deviceSession.updateMany({
-      where: { 
-        userId,
-        isActive: true 
-      },
-      data: { isActive: false },
+    const loginSessions = await this.prisma.userSession.findMany({
+      where: { userId, deviceSessionId: { not: null }, isActive: true },
+      select: { familyId: true },
     });
+    const [revoked] = await this.prisma.$transaction([
+      this.prisma.deviceSession.updateMany({
+        where: { 
+          userId,
+          isActive: true 
+        },
+        data: { isActive: false },
+      }),
+      this.prisma.userSession.updateMany({
+        where: { userId, deviceSessionId: { not: null }, isActive: true },
+        data: { isActive: false, revokedAt: new Date() },
+      }),
+    ]);
+    this.realtimeService.endSessions(loginSessions.map((s) => s.familyId));
+
+    return revoked;
   }
 
   async cleanupInactiveSessions(daysOld: number = 30) {
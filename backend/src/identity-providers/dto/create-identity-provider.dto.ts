@@ -0,0 +1,59 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsObject,
+  IsBoolean,
+  IsUUID,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IdentityProviderType } from '@prisma/client';
+
+export class CreateIdentityProviderDto {
+  @ApiProperty({ description: 'Organization whose users sign in with it' })
+  @IsUUID()
+  organizationId: string;
+
+  @ApiProperty({ description: 'Name shown on the login page', example: 'Okta' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ enum: IdentityProviderType, description: 'Protocol' })
+  @IsEnum(IdentityProviderType)
+  type: IdentityProviderType;
+
+  @ApiProperty({
+    description:
+      'Protocol settings. OIDC needs issuer, clientId and clientSecret; SAML needs entryPoint and idpCert. Stored encrypted and masked in responses.',
+    example: {
+      issuer: 'https://acme.okta.com',
+      clientId: '0oa1b2c3d4',
+      clientSecret: '***',
+    },
+  })
+  @IsObject()
+  config: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'Whether users can sign in with it' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Create accounts for first-time users instead of only linking existing ones',
+  })
+  @IsOptional()
+  @IsBoolean()
+  jitProvisioning?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Treat email addresses from this provider as verified when it sends no email_verified claim, as SAML providers do. Needed to link existing accounts.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  trustEmail?: boolean;
+}
@@ -0,0 +1,11 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SsoProvidersQueryDto {
+  @ApiProperty({
+    description: 'Email address of the user signing in',
+    example: 'jane@acme.com',
+  })
+  @IsEmail()
+  email: string;
+}
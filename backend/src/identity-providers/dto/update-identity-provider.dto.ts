@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateIdentityProviderDto } from './create-identity-provider.dto';
+
+export class UpdateIdentityProviderDto extends PartialType(
+  OmitType(CreateIdentityProviderDto, ['organizationId'] as const),
+) {}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { IdentityProvidersService } from './identity-providers.service';
+import { CreateIdentityProviderDto } from './dto/create-identity-provider.dto';
+import { UpdateIdentityProviderDto } from './dto/update-identity-provider.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('Identity Providers')
+@ApiBearerAuth()
+@Controller('identity-providers')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class IdentityProvidersController {
+  constructor(
+    private readonly identityProvidersService: IdentityProvidersService,
+  ) {}
+
+  @Post()
+  @RequirePermissions('organizations', 'update')
+  @ApiOperation({ summary: 'Configure an OIDC or SAML identity provider' })
+  @ApiResponse({ status: 201, description: 'Identity provider created' })
+  @ApiResponse({ status: 400, description: 'Invalid identity provider config' })
+  create(@Body() createIdentityProviderDto: CreateIdentityProviderDto) {
+    return this.identityProvidersService.create(createIdentityProviderDto);
+  }
+
+  @Get()
+  @RequirePermissions('organizations', 'read')
+  @ApiOperation({ summary: 'Get identity providers' })
+  @ApiQuery({ name: 'organizationId', required: false })
+  @ApiResponse({ status: 200, description: 'Identity providers retrieved' })
+  findAll(
+    @Query('organizationId', new ParseUUIDPipe({ optional: true }))
+    organizationId?: string,
+  ) {
+    return this.identityProvidersService.findAll(organizationId);
+  }
+
+  @Get(':id')
+  @RequirePermissions('organizations', 'read')
+  @ApiOperation({ summary: 'Get identity provider by ID' })
+  @ApiResponse({ status: 200, description: 'Identity provider retrieved' })
+  @ApiResponse({ status: 404, description: 'Identity provider not found' })
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.identityProvidersService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('organizations', 'update')
+  @ApiOperation({ summary: 'Update an identity provider' })
+  @ApiResponse({ status: 200, description: 'Identity provider updated' })
+  @ApiResponse({ status: 404, description: 'Identity provider not found' })
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateIdentityProviderDto: UpdateIdentityProviderDto,
+  ) {
+    return this.identityProvidersService.update(id, updateIdentityProviderDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('organizations', 'update')
+  @ApiOperation({
+    summary: 'Delete an identity provider and the accounts linked through it',
+  })
+  @ApiResponse({ status: 200, description: 'Identity provider deleted' })
+  @ApiResponse({ status: 404, description: 'Identity provider not found' })
+  remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.identityProvidersService.remove(id);
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { IdentityProvidersController } from './identity-providers.controller';
+import { IdentityProvidersService } from './identity-providers.service';
+import { SsoController } from './sso.controller';
+import { SsoService } from './sso.service';
+import { IdentityProtocolRegistry } from './protocols/identity-protocol.registry';
+import { OidcProtocol } from './protocols/oidc.protocol';
+import { SamlProtocol } from './protocols/saml.protocol';
+import { AuthModule } from '../auth/auth.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [
+    // ID tokens are verified with each provider's own keys
+    JwtModule.register({}),
+    AuthModule,
+    OrganizationsModule,
+    PrismaModule,
+  ],
+  controllers: [IdentityProvidersController, SsoController],
+  providers: [
+    IdentityProvidersService,
+    SsoService,
+    IdentityProtocolRegistry,
+    OidcProtocol,
+    SamlProtocol,
+  ],
+  exports: [IdentityProvidersService],
+})
+export class IdentityProvidersModule {}
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IdentityProvidersService,
+  MASKED_VALUE,
+} from './identity-providers.service';
+import { IdentityProtocolRegistry } from './protocols/identity-protocol.registry';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../common/services/encryption.service';
+
+describe('IdentityProvidersService', () => {
+  let service: IdentityProvidersService;
+  let encryption: EncryptionService;
+
+  const mockPrismaService = {
+    organization: { findUnique: jest.fn() },
+    identityProvider: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    authProvider: { deleteMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const mockProtocolRegistry = { validateConfig: jest.fn() };
+
+  const config = {
+    issuer: 'https://idp.acme.com',
+    clientId: 'alignzo',
+    clientSecret: 'client-secret',
+  };
+
+  const storedIdentityProvider = () => ({
+    id: 'idp-1',
+    organizationId: 'org-1',
+    name: 'Acme SSO',
+    type: 'OIDC',
+    config: encryption.encryptJson(config),
+    isActive: true,
+    jitProvisioning: true,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdentityProvidersService,
+        EncryptionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('test-encryption-key') },
+        },
+        { provide: IdentityProtocolRegistry, useValue: mockProtocolRegistry },
+      ],
+    }).compile();
+
+    service = module.get<IdentityProvidersService>(IdentityProvidersService);
+    encryption = module.get<EncryptionService>(EncryptionService);
+
+    mockPrismaService.identityProvider.update.mockImplementation(
+      async ({ data }) => ({ ...storedIdentityProvider(), ...data }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store the config encrypted and never return secrets', async () => {
+    mockPrismaService.organization.findUnique.mockResolvedValue({
+      id: 'org-1',
+    });
+    mockPrismaService.identityProvider.create.mockImplementation(
+      async ({ data }) => ({ id: 'idp-1', ...data }),
+    );
+
+    const result = await service.create({
+      organizationId: 'org-1',
+      name: 'Acme SSO',
+      type: 'OIDC',
+      config,
+    });
+
+    const { data } = mockPrismaService.identityProvider.create.mock.calls[0][0];
+    expect(JSON.stringify(data.config)).not.toContain('client-secret');
+    expect(encryption.decryptJson(data.config)).toEqual(config);
+    expect(result.config).toEqual({ ...config, clientSecret: MASKED_VALUE });
+    expect(mockProtocolRegistry.validateConfig).toHaveBeenCalledWith(
+      'OIDC',
+      config,
+    );
+  });
+
+  it('should keep stored secrets that come back masked', async () => {
+    mockPrismaService.identityProvider.findUnique.mockResolvedValue(
+      storedIdentityProvider(),
+    );
+
+    await service.update('idp-1', {
+      config: { ...config, clientId: 'web', clientSecret: MASKED_VALUE },
+    });
+
+    const { data } = mockPrismaService.identityProvider.update.mock.calls[0][0];
+    expect(encryption.decryptJson(data.config)).toEqual({
+      ...config,
+      clientId: 'web',
+    });
+  });
+
+  it('should unlink accounts when a provider is removed', async () => {
+    mockPrismaService.identityProvider.findUnique.mockResolvedValue(
+      storedIdentityProvider(),
+    );
+
+    await service.remove('idp-1');
+
+    expect(mockPrismaService.authProvider.deleteMany).toHaveBeenCalledWith({
+      where: { provider: 'sso:idp-1' },
+    });
+    expect(mockPrismaService.identityProvider.delete).toHaveBeenCalledWith({
+      where: { id: 'idp-1' },
+    });
+  });
+
+  it('should not sign in through disabled providers', async () => {
+    mockPrismaService.identityProvider.findUnique.mockResolvedValue({
+      ...storedIdentityProvider(),
+      isActive: false,
+    });
+
+    await expect(service.getActive('idp-1')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,150 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { IdentityProvider, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { IdentityProtocolRegistry } from './protocols/identity-protocol.registry';
+import { IdentityProviderConfig } from './protocols/identity-protocol.interface';
+import { CreateIdentityProviderDto } from './dto/create-identity-provider.dto';
+import { UpdateIdentityProviderDto } from './dto/update-identity-provider.dto';
+
+export const MASKED_VALUE = '********';
+
+// Config keys whose values never leave the server
+const SECRET_KEY_PATTERN = /(secret|password|privatekey)$/i;
+
+/** AuthProvider.provider of accounts linked through an identity provider */
+export const ssoProviderKey = (identityProviderId: string) =>
+  `sso:${identityProviderId}`;
+
+@Injectable()
+export class IdentityProvidersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryption: EncryptionService,
+    private readonly protocols: IdentityProtocolRegistry,
+  ) {}
+
+  async create(createIdentityProviderDto: CreateIdentityProviderDto) {
+    const { config, ...data } = createIdentityProviderDto;
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: data.organizationId },
+      select: { id: true },
+    });
+    if (!organization) {
+      throw new NotFoundException(
+        `Organization with ID ${data.organizationId} not found`,
+      );
+    }
+    this.protocols.validateConfig(data.type, config);
+
+    const identityProvider = await this.prisma.identityProvider.create({
+      data: { ...data, config: this.encryption.encryptJson(config) },
+    });
+    return this.toView(identityProvider);
+  }
+
+  async findAll(organizationId?: string) {
+    const identityProviders = await this.prisma.identityProvider.findMany({
+      where: organizationId ? { organizationId } : undefined,
+      orderBy: { createdAt: 'desc' },
+    });
+    return identityProviders.map((identityProvider) =>
+      this.toView(identityProvider),
+    );
+  }
+
+  async findOne(id: string) {
+    return this.toView(await this.getIdentityProvider(id));
+  }
+
+  async update(
+    id: string,
+    updateIdentityProviderDto: UpdateIdentityProviderDto,
+  ) {
+    const existing = await this.getIdentityProvider(id);
+    const { config, ...data } = updateIdentityProviderDto;
+
+    const updateData: Prisma.IdentityProviderUpdateInput = { ...data };
+    if (config) {
+      // Masked secrets sent back by the UI keep their stored value
+      const currentConfig = this.decryptConfig(existing);
+      const merged: IdentityProviderConfig = { ...config };
+      for (const [key, value] of Object.entries(merged)) {
+        if (value === MASKED_VALUE) merged[key] = currentConfig[key];
+      }
+      this.protocols.validateConfig(data.type ?? existing.type, merged);
+      updateData.config = this.encryption.encryptJson(merged);
+    } else if (data.type && data.type !== existing.type) {
+      this.protocols.validateConfig(data.type, this.decryptConfig(existing));
+    }
+
+    const identityProvider = await this.prisma.identityProvider.update({
+      where: { id },
+      data: updateData,
+    });
+    return this.toView(identityProvider);
+  }
+
+  async remove(id: string) {
+    await this.getIdentityProvider(id);
+    // Accounts linked through the provider can no longer sign in with it
+    await this.prisma.$transaction([
+      this.prisma.authProvider.deleteMany({
+        where: { provider: ssoProviderKey(id) },
+      }),
+      this.prisma.identityProvider.delete({ where: { id } }),
+    ]);
+    return { message: 'Identity provider deleted successfully' };
+  }
+
+  /** Enabled identity providers of an organization, for the login page */
+  async findActiveForOrganization(organizationId: string) {
+    return this.prisma.identityProvider.findMany({
+      where: { organizationId, isActive: true },
+      select: { id: true, name: true, type: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /** An enabled identity provider with its decrypted config */
+  async getActive(id: string) {
+    const identityProvider = await this.prisma.identityProvider.findUnique({
+      where: { id },
+    });
+    if (!identityProvider || !identityProvider.isActive) {
+      throw new NotFoundException(`Identity provider with ID ${id} not found`);
+    }
+    return {
+      ...identityProvider,
+      config: this.decryptConfig(identityProvider),
+    };
+  }
+
+  private async getIdentityProvider(id: string): Promise<IdentityProvider> {
+    const identityProvider = await this.prisma.identityProvider.findUnique({
+      where: { id },
+    });
+    if (!identityProvider) {
+      throw new NotFoundException(`Identity provider with ID ${id} not found`);
+    }
+    return identityProvider;
+  }
+
+  private decryptConfig(
+    identityProvider: IdentityProvider,
+  ): IdentityProviderConfig {
+    return this.encryption.decryptJson<IdentityProviderConfig>(
+      identityProvider.config,
+    );
+  }
+
+  private toView(identityProvider: IdentityProvider) {
+    const config = this.decryptConfig(identityProvider);
+    const maskedConfig: IdentityProviderConfig = {};
+    for (const [key, value] of Object.entries(config)) {
+      maskedConfig[key] =
+        SECRET_KEY_PATTERN.test(key) && value ? MASKED_VALUE : value;
+    }
+    return { ...identityProvider, config: maskedConfig };
+  }
+}
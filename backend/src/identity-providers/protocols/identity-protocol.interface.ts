@@ -0,0 +1,63 @@
+import { IdentityProviderType } from '@prisma/client';
+
+/** Decrypted protocol settings of an identity provider */
+export type IdentityProviderConfig = Record<string, unknown>;
+
+/** Who signed in, as asserted by the identity provider */
+export interface IdentityProfile {
+  /** Stable ID of the user at the provider */
+  subject: string;
+  email: string;
+  emailVerified?: boolean;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  tokenExpiresAt?: Date;
+}
+
+/** Our endpoints for one identity provider */
+export interface ServiceProviderUrls {
+  /** Where the provider sends the user back to */
+  callbackUrl: string;
+  /** Service provider metadata, also the SAML entity ID by default */
+  metadataUrl: string;
+}
+
+export interface LoginRedirect {
+  url: string;
+  /** Values the callback needs, kept server side with the login state */
+  flow?: Record<string, string>;
+}
+
+export interface IdentityProtocol {
+  readonly type: IdentityProviderType;
+
+  /** Config keys that must be present for this protocol */
+  readonly requiredConfig: string[];
+
+  /** Where to send the browser to sign in at the provider */
+  startLogin(
+    config: IdentityProviderConfig,
+    state: string,
+    urls: ServiceProviderUrls,
+  ): Promise<LoginRedirect>;
+
+  /**
+   * Verifies what the provider sent back to the callback and returns who
+   * signed in. Rejects with an UnauthorizedException.
+   */
+  completeLogin(
+    config: IdentityProviderConfig,
+    params: Record<string, string>,
+    flow: Record<string, string>,
+    urls: ServiceProviderUrls,
+  ): Promise<IdentityProfile>;
+
+  /** Service provider metadata to register at the provider, if any */
+  getMetadata?(
+    config: IdentityProviderConfig,
+    urls: ServiceProviderUrls,
+  ): string;
+}
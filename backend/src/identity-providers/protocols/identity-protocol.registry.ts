@@ -0,0 +1,43 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { IdentityProviderType } from '@prisma/client';
+import {
+  IdentityProtocol,
+  IdentityProviderConfig,
+} from './identity-protocol.interface';
+import { OidcProtocol } from './oidc.protocol';
+import { SamlProtocol } from './saml.protocol';
+
+@Injectable()
+export class IdentityProtocolRegistry {
+  private readonly protocols = new Map<
+    IdentityProviderType,
+    IdentityProtocol
+  >();
+
+  constructor(oidcProtocol: OidcProtocol, samlProtocol: SamlProtocol) {
+    for (const protocol of [oidcProtocol, samlProtocol]) {
+      this.protocols.set(protocol.type, protocol);
+    }
+  }
+
+  get(type: IdentityProviderType): IdentityProtocol {
+    const protocol = this.protocols.get(type);
+    if (!protocol) {
+      throw new BadRequestException(`Unsupported identity provider ${type}`);
+    }
+    return protocol;
+  }
+
+  /** Ensures an identity provider config is usable by its protocol. */
+  validateConfig(
+    type: IdentityProviderType,
+    config: IdentityProviderConfig,
+  ): void {
+    const missing = this.get(type).requiredConfig.filter((key) => !config[key]);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing ${type} config: ${missing.join(', ')}`,
+      );
+    }
+  }
+}
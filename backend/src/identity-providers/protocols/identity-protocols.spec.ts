@@ -0,0 +1,298 @@
+import { generateKeyPairSync, createHash } from 'crypto';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { SAML } from '@node-saml/node-saml';
+import { OidcProtocol } from './oidc.protocol';
+import { SamlProtocol } from './saml.protocol';
+import { CacheService } from '../../common/services/cache.service';
+
+const urls = {
+  callbackUrl: 'http://api.test/api/v1/auth/sso/idp-1/callback',
+  metadataUrl: 'http://api.test/api/v1/auth/sso/idp-1/metadata',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+/** An OIDC provider answering discovery, JWKS and token requests */
+class MockOidcProvider {
+  readonly issuer = 'https://idp.test/realms/acme';
+  readonly jwtService = new JwtService({});
+  keys = [this.createKey('key-1')];
+  tokenRequests: URLSearchParams[] = [];
+  claims: Record<string, unknown> = {};
+  signingKey = this.keys[0];
+
+  createKey(kid: string) {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    return {
+      kid,
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' },
+    };
+  }
+
+  fetch = async (input: string | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url === `${this.issuer}/.well-known/openid-configuration`) {
+      return jsonResponse({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/auth?kc_idp_hint=`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/certs`,
+      });
+    }
+    if (url === `${this.issuer}/certs`) {
+      return jsonResponse({ keys: this.keys.map((key) => key.jwk) });
+    }
+    if (url === `${this.issuer}/token`) {
+      const body = new URLSearchParams(String(init?.body));
+      this.tokenRequests.push(body);
+      if (body.get('code') !== 'valid-code') {
+        return jsonResponse({ error: 'invalid_grant' }, 400);
+      }
+      return jsonResponse({
+        access_token: 'idp-access-token',
+        expires_in: 300,
+        id_token: this.jwtService.sign(
+          {
+            sub: 'user-123',
+            email: 'Jane@Acme.com',
+            email_verified: true,
+            given_name: 'Jane',
+            family_name: 'Doe',
+            ...this.claims,
+          },
+          {
+            secret: this.signingKey.privateKey,
+            algorithm: 'RS256',
+            keyid: this.signingKey.kid,
+            issuer: this.issuer,
+            audience: 'alignzo',
+            expiresIn: '5m',
+          },
+        ),
+      });
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  };
+}
+
+describe('Identity protocols', () => {
+  describe('OidcProtocol', () => {
+    let idp: MockOidcProvider;
+    let protocol: OidcProtocol;
+    let fetchMock: jest.SpyInstance;
+
+    const config = () => ({
+      issuer: idp.issuer,
+      clientId: 'alignzo',
+      clientSecret: 'client-secret',
+    });
+
+    const signIn = async (code = 'valid-code') => {
+      const { url, flow } = await protocol.startLogin(
+        config(),
+        'state-1',
+        urls,
+      );
+      idp.claims.nonce ??= new URL(url).searchParams.get('nonce');
+      return protocol.completeLogin(
+        config(),
+        { code, state: 'state-1' },
+        flow!,
+        urls,
+      );
+    };
+
+    beforeEach(() => {
+      idp = new MockOidcProvider();
+      protocol = new OidcProtocol(new JwtService({}));
+      fetchMock = jest.spyOn(global, 'fetch').mockImplementation(idp.fetch);
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it('should send the user to the authorization endpoint with PKCE', async () => {
+      const { url, flow } = await protocol.startLogin(
+        config(),
+        'state-1',
+        urls,
+      );
+
+      const authorizeUrl = new URL(url);
+      expect(authorizeUrl.pathname).toBe('/realms/acme/auth');
+      expect(Object.fromEntries(authorizeUrl.searchParams)).toEqual({
+        kc_idp_hint: '',
+        response_type: 'code',
+        client_id: 'alignzo',
+        redirect_uri: urls.callbackUrl,
+        scope: 'openid email profile',
+        state: 'state-1',
+        nonce: flow!.nonce,
+        code_challenge: createHash('sha256')
+          .update(flow!.codeVerifier)
+          .digest('base64url'),
+        code_challenge_method: 'S256',
+      });
+    });
+
+    it('should exchange the code and return the verified identity', async () => {
+      const profile = await signIn();
+
+      expect(profile).toEqual({
+        subject: 'user-123',
+        email: 'jane@acme.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe',
+        displayName: undefined,
+        accessToken: 'idp-access-token',
+        refreshToken: undefined,
+        tokenExpiresAt: expect.any(Date),
+      });
+      expect(Object.fromEntries(idp.tokenRequests[0])).toEqual(
+        expect.objectContaining({
+          grant_type: 'authorization_code',
+          code: 'valid-code',
+          redirect_uri: urls.callbackUrl,
+          client_secret: 'client-secret',
+          code_verifier: expect.any(String),
+        }),
+      );
+    });
+
+    it('should pick up rotated signing keys', async () => {
+      await signIn();
+
+      idp.signingKey = idp.createKey('key-2');
+      idp.keys.push(idp.signingKey);
+      idp.claims.nonce = undefined;
+
+      await expect(signIn()).resolves.toEqual(
+        expect.objectContaining({ subject: 'user-123' }),
+      );
+    });
+
+    it('should reject tokens that were not issued for this login', async () => {
+      idp.claims.nonce = 'another-login';
+      await expect(signIn()).rejects.toThrow(
+        'ID token nonce does not match the login request',
+      );
+
+      idp.claims.nonce = undefined;
+      idp.signingKey = { ...idp.createKey('key-1'), kid: 'key-1' };
+      await expect(signIn()).rejects.toThrow(/Invalid ID token/);
+
+      await expect(signIn('stolen-code')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(
+        protocol.completeLogin(
+          config(),
+          { error: 'access_denied', error_description: 'User cancelled' },
+          {},
+          urls,
+        ),
+      ).rejects.toThrow(
+        'Sign-in was rejected by the identity provider: User cancelled',
+      );
+    });
+  });
+
+  describe('SamlProtocol', () => {
+    const cache = new Map<string, unknown>();
+    const cacheService = {
+      get: jest.fn(async (key: string) => cache.get(key) ?? null),
+      set: jest.fn(async (key: string, value: unknown) => {
+        cache.set(key, value);
+      }),
+      del: jest.fn(async (key: string) => {
+        cache.delete(key);
+      }),
+    };
+    const protocol = new SamlProtocol(cacheService as unknown as CacheService);
+    const config = {
+      entryPoint: 'https://idp.test/saml/sso',
+      idpCert: 'MIIC-test-certificate',
+    };
+
+    afterEach(() => {
+      cache.clear();
+      jest.restoreAllMocks();
+    });
+
+    it('should redirect with an AuthnRequest whose ID is remembered', async () => {
+      const { url } = await protocol.startLogin(config, 'state-1', urls);
+
+      const redirect = new URL(url);
+      expect(redirect.origin + redirect.pathname).toBe(config.entryPoint);
+      expect(redirect.searchParams.get('RelayState')).toBe('state-1');
+      expect(redirect.searchParams.get('SAMLRequest')).toBeTruthy();
+      expect([...cache.keys()]).toEqual([
+        expect.stringMatching(/^sso:saml-request:_/),
+      ]);
+    });
+
+    it('should map the asserted attributes', async () => {
+      jest
+        .spyOn(SAML.prototype, 'validatePostResponseAsync')
+        .mockResolvedValue({
+          profile: {
+            issuer: 'https://idp.test',
+            nameID: 'persistent-42',
+            nameIDFormat:
+              'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+            'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress':
+              'Jane@Acme.com',
+            givenName: ['Jane'],
+            department: 'Ops',
+            surname: 'Doe',
+          },
+          loggedOut: false,
+        });
+
+      const profile = await protocol.completeLogin(
+        { ...config, lastNameAttribute: 'surname' },
+        { SAMLResponse: 'PHNhbWxwOlJlc3BvbnNlPg==', RelayState: 'state-1' },
+        {},
+        urls,
+      );
+
+      expect(profile).toEqual({
+        subject: 'persistent-42',
+        email: 'jane@acme.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+      });
+    });
+
+    it('should reject responses that fail validation', async () => {
+      await expect(
+        protocol.completeLogin(
+          config,
+          { SAMLResponse: Buffer.from('<Response/>').toString('base64') },
+          {},
+          urls,
+        ),
+      ).rejects.toThrow(/Invalid SAML response/);
+      await expect(
+        protocol.completeLogin(config, {}, {}, urls),
+      ).rejects.toThrow('Missing SAML response');
+    });
+
+    it('should describe our endpoints in the service provider metadata', () => {
+      const metadata = protocol.getMetadata(config, urls);
+
+      expect(metadata).toContain(`entityID="${urls.metadataUrl}"`);
+      expect(metadata).toContain(`Location="${urls.callbackUrl}"`);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  BadGatewayException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { IdentityProviderType } from '@prisma/client';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import {
+  IdentityProfile,
+  IdentityProtocol,
+  IdentityProviderConfig,
+  LoginRedirect,
+  ServiceProviderUrls,
+} from './identity-protocol.interface';
+
+interface OidcConfig {
+  /** Issuer URL, e.g. https://login.microsoftonline.com/<tenant>/v2.0 */
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Space separated scopes, openid email profile by default */
+  scopes?: string;
+  /** Claim holding the email address, for providers not sending `email` */
+  emailClaim?: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface TokenResponse {
+  id_token?: string;
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+type Jwk = JsonWebKey & { kid?: string; use?: string };
+
+const DEFAULT_SCOPES = 'openid email profile';
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+] as const;
+
+const optionalString = (value: unknown) =>
+  typeof value === 'string' && value ? value : undefined;
+
+/**
+ * OpenID Connect authorization code flow with PKCE, as offered by Azure AD,
+ * Okta and Keycloak. Endpoints come from the issuer's discovery document and
+ * ID tokens are verified against its published signing keys.
+ */
+@Injectable()
+export class OidcProtocol implements IdentityProtocol {
+  readonly type = IdentityProviderType.OIDC;
+  readonly requiredConfig = ['issuer', 'clientId', 'clientSecret'];
+
+  private readonly discoveries = new Map<
+    string,
+    { value: OidcDiscovery; expiresAt: number }
+  >();
+  private readonly keySets = new Map<
+    string,
+    { keys: Jwk[]; expiresAt: number }
+  >();
+
+  constructor(private readonly jwtService: JwtService) {}
+
+  async startLogin(
+    config: IdentityProviderConfig,
+    state: string,
+    urls: ServiceProviderUrls,
+  ): Promise<LoginRedirect> {
+    const oidc = config as unknown as OidcConfig;
+    const discovery = await this.discover(oidc.issuer);
+    const nonce = randomBytes(16).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    const url = new URL(discovery.authorization_endpoint);
+    const params = {
+      response_type: 'code',
+      client_id: oidc.clientId,
+      redirect_uri: urls.callbackUrl,
+      scope: oidc.scopes || DEFAULT_SCOPES,
+      state,
+      nonce,
+      code_challenge: createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    };
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    return { url: url.toString(), flow: { nonce, codeVerifier } };
+  }
+
+  async completeLogin(
+    config: IdentityProviderConfig,
+    params: Record<string, string>,
+    flow: Record<string, string>,
+    urls: ServiceProviderUrls,
+  ): Promise<IdentityProfile> {
+    const oidc = config as unknown as OidcConfig;
+    if (params.error) {
+      throw new UnauthorizedException(
+        `Sign-in was rejected by the identity provider: ${params.error_description || params.error}`,
+      );
+    }
+    if (!params.code) {
+      throw new UnauthorizedException('Missing authorization code');
+    }
+
+    const discovery = await this.discover(oidc.issuer);
+    const tokens = await this.fetchJson<TokenResponse>(
+      discovery.token_endpoint,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: params.code,
+          redirect_uri: urls.callbackUrl,
+          code_verifier: flow.codeVerifier,
+          client_id: oidc.clientId,
+          client_secret: oidc.clientSecret,
+        }),
+      },
+    );
+    if (!tokens.id_token) {
+      throw new UnauthorizedException(
+        'The identity provider did not return an ID token',
+      );
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, oidc, discovery);
+    if (claims.nonce !== flow.nonce) {
+      throw new UnauthorizedException(
+        'ID token nonce does not match the login request',
+      );
+    }
+    const email = optionalString(claims[oidc.emailClaim || 'email']);
+    if (!email) {
+      throw new UnauthorizedException(
+        'The identity provider did not return an email address',
+      );
+    }
+
+    return {
+      subject: String(claims.sub),
+      email: email.toLowerCase(),
+      emailVerified:
+        typeof claims.email_verified === 'boolean'
+          ? claims.email_verified
+          : undefined,
+      firstName: optionalString(claims.given_name),
+      lastName: optionalString(claims.family_name),
+      displayName: optionalString(claims.name),
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      tokenExpiresAt: tokens.expires_in
+        ? new Date(Date.now() + tokens.expires_in * 1000)
+        : undefined,
+    };
+  }
+
+  private async verifyIdToken(
+    idToken: string,
+    config: OidcConfig,
+    discovery: OidcDiscovery,
+  ): Promise<Record<string, unknown>> {
+    const decoded = this.jwtService.decode<{
+      header: { alg?: string; kid?: string };
+    } | null>(idToken, { complete: true });
+    const algorithm = ALGORITHMS.find((alg) => alg === decoded?.header.alg);
+    if (!algorithm) {
+      throw new UnauthorizedException(
+        'ID token is not signed with a supported algorithm',
+      );
+    }
+
+    const key = await this.getSigningKey(
+      discovery.jwks_uri,
+      decoded?.header.kid,
+    );
+    try {
+      return await this.jwtService.verifyAsync<Record<string, unknown>>(
+        idToken,
+        {
+          secret: createPublicKey({ key, format: 'jwk' })
+            .export({ type: 'spki', format: 'pem' })
+            .toString(),
+          algorithms: [algorithm],
+          issuer: discovery.issuer,
+          audience: config.clientId,
+        },
+      );
+    } catch (error) {
+      throw new UnauthorizedException(
+        `Invalid ID token: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async discover(issuer: string): Promise<OidcDiscovery> {
+    const cached = this.discoveries.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const value = await this.fetchJson<OidcDiscovery>(
+      `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    );
+    this.discoveries.set(issuer, {
+      value,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return value;
+  }
+
+  private async getSigningKey(jwksUri: string, kid?: string): Promise<Jwk> {
+    const find = (keys: Jwk[]) =>
+      keys.find(
+        (key) =>
+          (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'),
+      );
+
+    const cached = this.keySets.get(jwksUri);
+    let key =
+      cached && cached.expiresAt > Date.now() ? find(cached.keys) : undefined;
+    if (!key) {
+      // Unknown key IDs usually mean the provider rotated its keys
+      const { keys } = await this.fetchJson<{ keys: Jwk[] }>(jwksUri);
+      this.keySets.set(jwksUri, { keys, expiresAt: Date.now() + CACHE_TTL_MS });
+      key = find(keys);
+    }
+    if (!key) {
+      throw new UnauthorizedException('ID token signing key is not published');
+    }
+    return key;
+  }
+
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...init?.headers },
+      });
+    } catch (error) {
+      throw new BadGatewayException(
+        `Identity provider at ${new URL(url).host} is unreachable: ${(error as Error).message}`,
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `${response.status} ${response.statusText} from ${new URL(url).host}${
+        detail ? `: ${detail.slice(0, 200)}` : ''
+      }`;
+      // A rejected code means the login failed, anything else is an outage
+      throw response.status === 400 || response.status === 401
+        ? new UnauthorizedException(message)
+        : new BadGatewayException(message);
+    }
+    return (await response.json()) as T;
+  }
+}
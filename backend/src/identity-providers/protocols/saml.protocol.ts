@@ -0,0 +1,188 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { IdentityProviderType } from '@prisma/client';
+import {
+  CacheItem,
+  CacheProvider,
+  Profile,
+  SAML,
+  ValidateInResponseTo,
+} from '@node-saml/node-saml';
+import { CacheService } from '../../common/services/cache.service';
+import {
+  IdentityProfile,
+  IdentityProtocol,
+  IdentityProviderConfig,
+  LoginRedirect,
+  ServiceProviderUrls,
+} from './identity-protocol.interface';
+
+interface SamlConfig {
+  /** Single sign-on URL of the identity provider */
+  entryPoint: string;
+  /** Certificate the identity provider signs assertions with */
+  idpCert: string;
+  /** Expected issuer of responses, any issuer when not set */
+  idpIssuer?: string;
+  /** Our entity ID at the identity provider, the metadata URL by default */
+  spEntityId?: string;
+  /** Require the whole response to be signed, not only the assertion */
+  wantAuthnResponseSigned?: boolean;
+  emailAttribute?: string;
+  firstNameAttribute?: string;
+  lastNameAttribute?: string;
+}
+
+// Requests have to be answered within this time
+const REQUEST_TTL_SECONDS = 10 * 60;
+
+// Where Azure AD, Okta and ADFS put the usual attributes by default
+const ATTRIBUTES = {
+  email: [
+    'email',
+    'mail',
+    'urn:oid:0.9.2342.19200300.100.1.3',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  ],
+  firstName: [
+    'firstName',
+    'givenName',
+    'urn:oid:2.5.4.42',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  ],
+  lastName: [
+    'lastName',
+    'sn',
+    'urn:oid:2.5.4.4',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+  ],
+};
+
+const EMAIL_NAME_ID_FORMAT =
+  'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+/** Keeps the IDs of sent AuthnRequests so responses can be matched to them */
+class SamlRequestCache implements CacheProvider {
+  constructor(private readonly cache: CacheService) {}
+
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    const item = { value, createdAt: Date.now() };
+    await this.cache.set(this.cacheKey(key), item, REQUEST_TTL_SECONDS);
+    return item;
+  }
+
+  async getAsync(key: string): Promise<string | null> {
+    const item = await this.cache.get<CacheItem>(this.cacheKey(key));
+    return item?.value ?? null;
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) return null;
+    const value = await this.getAsync(key);
+    await this.cache.del(this.cacheKey(key));
+    return value;
+  }
+
+  private cacheKey(key: string) {
+    return `sso:saml-request:${key}`;
+  }
+}
+
+/**
+ * SAML 2.0 web browser SSO: AuthnRequests over the redirect binding and
+ * signed assertions posted back to our assertion consumer service.
+ */
+@Injectable()
+export class SamlProtocol implements IdentityProtocol {
+  readonly type = IdentityProviderType.SAML;
+  readonly requiredConfig = ['entryPoint', 'idpCert'];
+
+  private readonly requestCache: SamlRequestCache;
+
+  constructor(cacheService: CacheService) {
+    this.requestCache = new SamlRequestCache(cacheService);
+  }
+
+  async startLogin(
+    config: IdentityProviderConfig,
+    state: string,
+    urls: ServiceProviderUrls,
+  ): Promise<LoginRedirect> {
+    const saml = this.createClient(config as unknown as SamlConfig, urls);
+    return { url: await saml.getAuthorizeUrlAsync(state, undefined, {}) };
+  }
+
+  async completeLogin(
+    config: IdentityProviderConfig,
+    params: Record<string, string>,
+    _flow: Record<string, string>,
+    urls: ServiceProviderUrls,
+  ): Promise<IdentityProfile> {
+    const samlConfig = config as unknown as SamlConfig;
+    if (!params.SAMLResponse) {
+      throw new UnauthorizedException('Missing SAML response');
+    }
+
+    let profile: Profile | null;
+    try {
+      ({ profile } = await this.createClient(
+        samlConfig,
+        urls,
+      ).validatePostResponseAsync({ SAMLResponse: params.SAMLResponse }));
+    } catch (error) {
+      throw new UnauthorizedException(
+        `Invalid SAML response: ${(error as Error).message}`,
+      );
+    }
+    if (!profile) {
+      throw new UnauthorizedException('SAML response did not sign anyone in');
+    }
+
+    const attribute = (names: string[], configured?: string) => {
+      for (const name of configured ? [configured] : names) {
+        const value = profile[name];
+        const first: unknown = Array.isArray(value) ? value[0] : value;
+        if (typeof first === 'string' && first) return first;
+      }
+      return undefined;
+    };
+    const email =
+      attribute(ATTRIBUTES.email, samlConfig.emailAttribute) ??
+      (profile.nameIDFormat === EMAIL_NAME_ID_FORMAT
+        ? profile.nameID
+        : undefined);
+    if (!email) {
+      throw new UnauthorizedException(
+        'The identity provider did not return an email address',
+      );
+    }
+
+    return {
+      subject: profile.nameID,
+      email: email.toLowerCase(),
+      firstName: attribute(ATTRIBUTES.firstName, samlConfig.firstNameAttribute),
+      lastName: attribute(ATTRIBUTES.lastName, samlConfig.lastNameAttribute),
+    };
+  }
+
+  getMetadata(config: IdentityProviderConfig, urls: ServiceProviderUrls) {
+    return this.createClient(
+      config as unknown as SamlConfig,
+      urls,
+    ).generateServiceProviderMetadata(null);
+  }
+
+  private createClient(config: SamlConfig, urls: ServiceProviderUrls) {
+    return new SAML({
+      entryPoint: config.entryPoint,
+      idpCert: config.idpCert,
+      idpIssuer: config.idpIssuer,
+      issuer: config.spEntityId || urls.metadataUrl,
+      callbackUrl: urls.callbackUrl,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: config.wantAuthnResponseSigned ?? false,
+      validateInResponseTo: ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: REQUEST_TTL_SECONDS * 1000,
+      cacheProvider: this.requestCache,
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  Res,
+  HttpException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import type { CookieOptions, Request, Response } from 'express';
+import { LOGIN_STATE_TTL_SECONDS, SsoService } from './sso.service';
+import { SsoProvidersQueryDto } from './dto/sso-providers-query.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { LoggerService } from '../common/services/logger.service';
+
+// Ties the login to the browser that started it. SAML posts the callback
+// from the identity provider's site, so the cookie must be sent cross-site.
+const STATE_COOKIE = 'sso_state';
+const STATE_COOKIE_OPTIONS: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'none',
+};
+
+@ApiTags('Authentication')
+@Controller('auth/sso')
+export class SsoController {
+  constructor(
+    private readonly ssoService: SsoService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  @Get('providers')
+  @Public()
+  @ApiOperation({
+    summary: 'Get the identity providers an email address can sign in with',
+  })
+  findProviders(@Query() query: SsoProvidersQueryDto) {
+    return this.ssoService.findProvidersForEmail(query.email);
+  }
+
+  @Get(':id/login')
+  @Public()
+  @Throttle({ default: { ttl: 60_000, limit: 10 } })
+  @ApiOperation({ summary: 'Redirect to the identity provider to sign in' })
+  @ApiResponse({
+    status: 302,
+    description: 'Redirect to the identity provider',
+  })
+  async login(@Param('id', ParseUUIDPipe) id: string, @Res() res: Response) {
+    const { url, state } = await this.ssoService.startLogin(id);
+    res.cookie(STATE_COOKIE, state, {
+      ...STATE_COOKIE_OPTIONS,
+      maxAge: LOGIN_STATE_TTL_SECONDS * 1000,
+    });
+    res.redirect(url);
+  }
+
+  @Get(':id/callback')
+  @Public()
+  @Throttle({ default: { ttl: 60_000, limit: 10 } })
+  @ApiOperation({ summary: 'OIDC redirect URI' })
+  @ApiResponse({ status: 302, description: 'Redirect to the app, signed in' })
+  oidcCallback(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: Record<string, string>,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.completeLogin(id, query, req, res);
+  }
+
+  @Post(':id/callback')
+  @Public()
+  @Throttle({ default: { ttl: 60_000, limit: 10 } })
+  @ApiOperation({ summary: 'SAML assertion consumer service' })
+  @ApiResponse({ status: 302, description: 'Redirect to the app, signed in' })
+  samlCallback(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: Record<string, string>,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    return this.completeLogin(id, body, req, res);
+  }
+
+  @Get(':id/metadata')
+  @Public()
+  @ApiOperation({ summary: 'SAML service provider metadata' })
+  async metadata(@Param('id', ParseUUIDPipe) id: string, @Res() res: Response) {
+    res.type('application/xml').send(await this.ssoService.getMetadata(id));
+  }
+
+  private async completeLogin(
+    id: string,
+    params: Record<string, string>,
+    req: Request,
+    res: Response,
+  ) {
+    const browserState = (req.cookies as Record<string, string>)[STATE_COOKIE];
+    res.clearCookie(STATE_COOKIE, STATE_COOKIE_OPTIONS);
+    try {
+      const { token, refreshToken, expiresIn } =
+        await this.ssoService.completeLogin(id, params, browserState);
+      res.redirect(
+        this.ssoService.getAppRedirectUrl({ token, refreshToken, expiresIn }),
+      );
+    } catch (error) {
+      // The browser is mid-redirect, so failures are shown by the app
+      if (!(error instanceof HttpException)) {
+        this.logger.error(
+          `SSO sign-in failed: ${(error as Error).message}`,
+          (error as Error).stack,
+          { identityProviderId: id },
+        );
+      }
+      res.redirect(
+        this.ssoService.getAppRedirectUrl({
+          error:
+            error instanceof HttpException
+              ? error.message
+              : 'Sign-in failed. Please try again.',
+        }),
+      );
+    }
+  }
+}
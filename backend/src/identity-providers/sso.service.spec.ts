@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SsoService } from './sso.service';
+import { IdentityProvidersService } from './identity-providers.service';
+import { IdentityProtocolRegistry } from './protocols/identity-protocol.registry';
+import { AuthService } from '../auth/auth.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { CacheService } from '../common/services/cache.service';
+
+describe('SsoService', () => {
+  let service: SsoService;
+
+  const cache = new Map<string, unknown>();
+  const mockCacheService = {
+    get: jest.fn(async (key: string) => cache.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      cache.set(key, value);
+    }),
+    del: jest.fn(async (key: string) => {
+      cache.delete(key);
+    }),
+  };
+  const mockProtocol = {
+    startLogin: jest.fn(),
+    completeLogin: jest.fn(),
+  };
+  const mockIdentityProvidersService = {
+    getActive: jest.fn(),
+    findActiveForOrganization: jest.fn(),
+  };
+  const mockProtocolRegistry = { get: jest.fn(() => mockProtocol) };
+  const mockAuthService = { loginWithIdentity: jest.fn() };
+  const mockOrganizationsService = { validateUserDomain: jest.fn() };
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'API_URL' ? 'https://api.acme.com/' : 'https://app.acme.com',
+    ),
+  };
+
+  const identityProvider = {
+    id: 'idp-1',
+    organizationId: 'org-1',
+    type: 'OIDC',
+    config: { issuer: 'https://idp.acme.com' },
+    jitProvisioning: false,
+    trustEmail: false,
+  };
+  const urls = {
+    callbackUrl: 'https://api.acme.com/api/v1/auth/sso/idp-1/callback',
+    metadataUrl: 'https://api.acme.com/api/v1/auth/sso/idp-1/metadata',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SsoService,
+        {
+          provide: IdentityProvidersService,
+          useValue: mockIdentityProvidersService,
+        },
+        { provide: IdentityProtocolRegistry, useValue: mockProtocolRegistry },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SsoService>(SsoService);
+
+    mockIdentityProvidersService.getActive.mockResolvedValue(identityProvider);
+    mockProtocol.startLogin.mockImplementation(
+      async (_config: unknown, state: string) => ({
+        url: `https://idp.acme.com/auth?state=${state}`,
+        flow: { nonce: 'nonce-1' },
+      }),
+    );
+    mockProtocol.completeLogin.mockResolvedValue({
+      subject: 'user-123',
+      email: 'jane@acme.com',
+    });
+    mockAuthService.loginWithIdentity.mockResolvedValue({
+      accessToken: 'access-token',
+    });
+  });
+
+  afterEach(() => {
+    cache.clear();
+    jest.clearAllMocks();
+  });
+
+  const startLogin = async () => {
+    const { url, state } = await service.startLogin('idp-1');
+    expect(new URL(url).searchParams.get('state')).toBe(state);
+    return state;
+  };
+
+  describe('completeLogin', () => {
+    it('should sign in the identity asserted for the started login', async () => {
+      const state = await startLogin();
+
+      await expect(
+        service.completeLogin('idp-1', { code: 'code-1', state }, state),
+      ).resolves.toEqual({ accessToken: 'access-token' });
+
+      expect(mockProtocol.startLogin).toHaveBeenCalledWith(
+        identityProvider.config,
+        state,
+        urls,
+      );
+      expect(mockProtocol.completeLogin).toHaveBeenCalledWith(
+        identityProvider.config,
+        { code: 'code-1', state },
+        { nonce: 'nonce-1' },
+        urls,
+      );
+      expect(mockAuthService.loginWithIdentity).toHaveBeenCalledWith(
+        {
+          provider: 'sso:idp-1',
+          subject: 'user-123',
+          email: 'jane@acme.com',
+          emailVerified: false,
+        },
+        { organizationId: 'org-1', allowProvisioning: false },
+      );
+    });
+
+    it('should treat emails as verified when the provider is trusted', async () => {
+      mockIdentityProvidersService.getActive.mockResolvedValue({
+        ...identityProvider,
+        trustEmail: true,
+      });
+      const state = await startLogin();
+
+      await service.completeLogin('idp-1', { code: 'code-1', state }, state);
+
+      expect(mockAuthService.loginWithIdentity).toHaveBeenCalledWith(
+        expect.objectContaining({ emailVerified: true }),
+        expect.anything(),
+      );
+    });
+
+    it('should accept each login state only once', async () => {
+      const state = await startLogin();
+      await service.completeLogin('idp-1', { RelayState: state }, state);
+
+      await expect(
+        service.completeLogin('idp-1', { RelayState: state }, state),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockProtocol.completeLogin).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject callbacks without a state started for the provider', async () => {
+      const state = await startLogin();
+
+      await expect(
+        service.completeLogin('idp-2', { code: 'code-1', state }, state),
+      ).rejects.toThrow(
+        'Sign-in expired or was not started here. Please try again.',
+      );
+      await expect(
+        service.completeLogin('idp-1', { code: 'code-1' }, undefined),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockProtocol.completeLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback for a login another browser started', async () => {
+      const attackerState = await startLogin();
+      const victimState = await startLogin();
+
+      await expect(
+        service.completeLogin(
+          'idp-1',
+          { code: 'code-1', state: attackerState },
+          victimState,
+        ),
+      ).rejects.toThrow(
+        'Sign-in was not started in this browser. Please try again.',
+      );
+      await expect(
+        service.completeLogin(
+          'idp-1',
+          { code: 'code-1', state: attackerState },
+          undefined,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockProtocol.completeLogin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findProvidersForEmail', () => {
+    it('should only list providers of the domain owner', async () => {
+      mockOrganizationsService.validateUserDomain.mockResolvedValue(null);
+      await expect(
+        service.findProvidersForEmail('jane@unknown.com'),
+      ).resolves.toEqual([]);
+
+      mockOrganizationsService.validateUserDomain.mockResolvedValue({
+        id: 'org-1',
+      });
+      mockIdentityProvidersService.findActiveForOrganization.mockResolvedValue([
+        { id: 'idp-1', name: 'Acme SSO', type: 'OIDC' },
+      ]);
+      await expect(
+        service.findProvidersForEmail('jane@acme.com'),
+      ).resolves.toEqual([{ id: 'idp-1', name: 'Acme SSO', type: 'OIDC' }]);
+      expect(
+        mockIdentityProvidersService.findActiveForOrganization,
+      ).toHaveBeenCalledWith('org-1');
+    });
+  });
+
+  it('should hand the result to the app in the URL fragment', () => {
+    expect(
+      service.getAppRedirectUrl({ accessToken: 'a b', refreshToken: 'r' }),
+    ).toBe('https://app.acme.com/login/sso#accessToken=a+b&refreshToken=r');
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { AuthService } from '../auth/auth.service';
+import { AuthResponseDto } from '../auth/dto/auth-response.dto';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { CacheService } from '../common/services/cache.service';
+import {
+  IdentityProvidersService,
+  ssoProviderKey,
+} from './identity-providers.service';
+import { IdentityProtocolRegistry } from './protocols/identity-protocol.registry';
+import { ServiceProviderUrls } from './protocols/identity-protocol.interface';
+
+// Time the user has to finish signing in at the identity provider
+export const LOGIN_STATE_TTL_SECONDS = 10 * 60;
+
+interface LoginState {
+  identityProviderId: string;
+  flow: Record<string, string>;
+}
+
+/**
+ * Signs users in through their organization's OIDC or SAML identity
+ * provider. The login state lives in the cache between the redirect to the
+ * provider and its callback, and can only be used once. The browser that
+ * started the login keeps a copy, so a callback for someone else's login is
+ * rejected.
+ */
+@Injectable()
+export class SsoService {
+  constructor(
+    private readonly identityProviders: IdentityProvidersService,
+    private readonly protocols: IdentityProtocolRegistry,
+    private readonly authService: AuthService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** Identity providers the owner of an email address can sign in with */
+  async findProvidersForEmail(email: string) {
+    const organization =
+      await this.organizationsService.validateUserDomain(email);
+    if (!organization) {
+      return [];
+    }
+    return this.identityProviders.findActiveForOrganization(organization.id);
+  }
+
+  /**
+   * URL of the identity provider's sign-in page, and the login state the
+   * browser must present again at the callback
+   */
+  async startLogin(
+    identityProviderId: string,
+  ): Promise<{ url: string; state: string }> {
+    const identityProvider =
+      await this.identityProviders.getActive(identityProviderId);
+    const state = randomBytes(32).toString('base64url');
+
+    const { url, flow } = await this.protocols
+      .get(identityProvider.type)
+      .startLogin(
+        identityProvider.config,
+        state,
+        this.getUrls(identityProviderId),
+      );
+    await this.cacheService.set(
+      this.stateKey(state),
+      { identityProviderId, flow: flow ?? {} } satisfies LoginState,
+      LOGIN_STATE_TTL_SECONDS,
+    );
+    return { url, state };
+  }
+
+  /**
+   * Verifies the identity provider's callback, OIDC query parameters or a
+   * posted SAML response, and signs the user in. `browserState` is the state
+   * the browser kept when it started the login.
+   */
+  async completeLogin(
+    identityProviderId: string,
+    params: Record<string, string>,
+    browserState: string | undefined,
+  ): Promise<AuthResponseDto> {
+    const state = params.state ?? params.RelayState ?? '';
+    if (!state || state !== browserState) {
+      throw new UnauthorizedException(
+        'Sign-in was not started in this browser. Please try again.',
+      );
+    }
+    const loginState = await this.cacheService.get<LoginState>(
+      this.stateKey(state),
+    );
+    if (!loginState || loginState.identityProviderId !== identityProviderId) {
+      throw new UnauthorizedException(
+        'Sign-in expired or was not started here. Please try again.',
+      );
+    }
+    await this.cacheService.del(this.stateKey(state));
+
+    const identityProvider =
+      await this.identityProviders.getActive(identityProviderId);
+    const profile = await this.protocols
+      .get(identityProvider.type)
+      .completeLogin(
+        identityProvider.config,
+        params,
+        loginState.flow,
+        this.getUrls(identityProviderId),
+      );
+
+    return this.authService.loginWithIdentity(
+      {
+        provider: ssoProviderKey(identityProviderId),
+        ...profile,
+        emailVerified: profile.emailVerified ?? identityProvider.trustEmail,
+      },
+      {
+        organizationId: identityProvider.organizationId,
+        allowProvisioning: identityProvider.jitProvisioning,
+      },
+    );
+  }
+
+  /** Service provider metadata to register at the identity provider */
+  async getMetadata(identityProviderId: string): Promise<string> {
+    const identityProvider =
+      await this.identityProviders.getActive(identityProviderId);
+    const protocol = this.protocols.get(identityProvider.type);
+    if (!protocol.getMetadata) {
+      throw new BadRequestException(
+        `${identityProvider.type} identity providers have no metadata`,
+      );
+    }
+    return protocol.getMetadata(
+      identityProvider.config,
+      this.getUrls(identityProviderId),
+    );
+  }
+
+  /** Frontend page finishing the sign-in, with the result in the fragment */
+  getAppRedirectUrl(result: Record<string, string>): string {
+    const appUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+    // The fragment is never sent to servers, keeping tokens out of logs
+    return `${appUrl.replace(/\/+$/, '')}/login/sso#${new URLSearchParams(result)}`;
+  }
+
+  private getUrls(identityProviderId: string): ServiceProviderUrls {
+    const apiUrl = this.configService.get<string>(
+      'API_URL',
+      'http://localhost:3001',
+    );
+    const base = `${apiUrl.replace(/\/+$/, '')}/api/v1/auth/sso/${identityProviderId}`;
+    return {
+      callbackUrl: `${base}/callback`,
+      metadataUrl: `${base}/metadata`,
+    };
+  }
+
+  private stateKey(state: string) {
+    return `sso:state:${state}`;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsObject,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IntegrationType } from '@prisma/client';
+
+export class CreateIntegrationDto {
+  @ApiProperty({ description: 'Integration name', example: 'Platform Jira' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ enum: IntegrationType, description: 'Integration type' })
+  @IsEnum(IntegrationType)
+  type: IntegrationType;
+
+  @ApiProperty({
+    description:
+      'Provider config including credentials. Stored encrypted and masked in responses.',
+    example: {
+      provider: 'jira',
+      projectId: '00000000-0000-0000-0000-000000000000',
+      baseUrl: 'https://acme.atlassian.net',
+      email: 'ops@acme.com',
+      apiToken: '***',
+      projectKey: 'OPS',
+    },
+  })
+  @IsObject()
+  config: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'Whether the integration is enabled' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between scheduled syncs, null for manual only',
+    minimum: 5,
+    maximum: 10080,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(10080)
+  syncIntervalMinutes?: number | null;
+}
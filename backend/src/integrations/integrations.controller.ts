@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { IntegrationsService } from './integrations.service';
+import { CreateIntegrationDto } from './dto/create-integration.dto';
+import { UpdateIntegrationDto } from './dto/update-integration.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('integrations')
+@ApiBearerAuth()
+@Controller('integrations')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class IntegrationsController {
+  constructor(private readonly integrationsService: IntegrationsService) {}
+
+  @Post()
+  @RequirePermissions('integrations', 'create')
+  @ApiOperation({ summary: 'Register an integration' })
+  @ApiResponse({ status: 201, description: 'Integration created' })
+  @ApiResponse({ status: 400, description: 'Invalid integration config' })
+  create(@Body() createIntegrationDto: CreateIntegrationDto) {
+    return this.integrationsService.create(createIntegrationDto);
+  }
+
+  @Get()
+  @RequirePermissions('integrations', 'read')
+  @ApiOperation({ summary: 'Get all integrations with their latest sync' })
+  @ApiResponse({ status: 200, description: 'Integrations retrieved' })
+  findAll() {
+    return this.integrationsService.findAll();
+  }
+
+  @Get(':id')
+  @RequirePermissions('integrations', 'read')
+  @ApiOperation({ summary: 'Get integration by ID' })
+  @ApiResponse({ status: 200, description: 'Integration retrieved' })
+  @ApiResponse({ status: 404, description: 'Integration not found' })
+  findOne(@Param('id') id: string) {
+    return this.integrationsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('integrations', 'update')
+  @ApiOperation({ summary: 'Update an integration' })
+  @ApiResponse({ status: 200, description: 'Integration updated' })
+  @ApiResponse({ status: 404, description: 'Integration not found' })
+  update(
+    @Param('id') id: string,
+    @Body() updateIntegrationDto: UpdateIntegrationDto,
+  ) {
+    return this.integrationsService.update(id, updateIntegrationDto);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('integrations', 'delete')
+  @ApiOperation({ summary: 'Delete an integration and its sync history' })
+  @ApiResponse({ status: 200, description: 'Integration deleted' })
+  @ApiResponse({ status: 404, description: 'Integration not found' })
+  remove(@Param('id') id: string) {
+    return this.integrationsService.remove(id);
+  }
+
+  @Post(':id/test')
+  @RequirePermissions('integrations', 'update')
+  @ApiOperation({ summary: 'Test the connection to the external system' })
+  @ApiResponse({ status: 201, description: 'Connection test result' })
+  testConnection(@Param('id') id: string) {
+    return this.integrationsService.testConnection(id);
+  }
+
+  @Post(':id/sync')
+  @RequirePermissions('integrations', 'sync')
+  @ApiOperation({ summary: 'Run a sync now' })
+  @ApiResponse({ status: 201, description: 'Sync finished, returns the log' })
+  @ApiResponse({ status: 409, description: 'A sync is already running' })
+  sync(@Param('id') id: string) {
+    return this.integrationsService.sync(id);
+  }
+
+  @Get(':id/logs')
+  @RequirePermissions('integrations', 'read')
+  @ApiOperation({ summary: 'Get the sync history of an integration' })
+  @ApiQuery({ name: 'take', required: false })
+  @ApiResponse({ status: 200, description: 'Sync logs retrieved' })
+  findSyncLogs(@Param('id') id: string, @Query('take') take?: string) {
+    return this.integrationsService.findSyncLogs(
+      id,
+      take ? Number(take) : undefined,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { IntegrationsController } from './integrations.controller';
+import { IntegrationsService } from './integrations.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { TicketsModule } from '../tickets/tickets.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, TicketsModule],
+  controllers: [IntegrationsController],
+  providers: [IntegrationsService],
+  exports: [IntegrationsService],
+})
+export class IntegrationsModule {}
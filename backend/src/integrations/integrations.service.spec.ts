@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IntegrationsService, MASKED_VALUE } from './integrations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { LoggerService } from '../common/services/logger.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { TicketProviderRegistry } from '../tickets/providers/ticket-provider.registry';
+
+describe('IntegrationsService', () => {
+  let service: IntegrationsService;
+  let encryption: EncryptionService;
+
+  const mockPrismaService = {
+    integration: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    integrationSyncLog: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockTicketsService = {
+    testConnection: jest.fn(),
+    syncTickets: jest.fn(),
+  };
+
+  const mockTicketProviderRegistry = {
+    validateConfig: jest.fn(),
+  };
+
+  const mockLoggerService = {
+    log: jest.fn(),
+  };
+
+  const config = {
+    provider: 'github',
+    projectId: 'project-1',
+    owner: 'acme',
+    repo: 'web',
+    token: 'ghp_secret',
+  };
+
+  const storedIntegration = () => ({
+    id: 'integration-1',
+    name: 'Web issues',
+    type: 'PROJECT_MANAGEMENT',
+    config: encryption.encryptJson(config),
+    isActive: true,
+    syncStatus: 'ACTIVE',
+    lastSyncAt: new Date('2024-03-01T00:00:00Z'),
+    syncIntervalMinutes: 60,
+    syncLogs: [],
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IntegrationsService,
+        EncryptionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('test-encryption-key') },
+        },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: TicketsService, useValue: mockTicketsService },
+        {
+          provide: TicketProviderRegistry,
+          useValue: mockTicketProviderRegistry,
+        },
+      ],
+    }).compile();
+
+    service = module.get<IntegrationsService>(IntegrationsService);
+    encryption = module.get<EncryptionService>(EncryptionService);
+
+    mockPrismaService.integration.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.integrationSyncLog.create.mockResolvedValue({
+      id: 'log-1',
+    });
+    mockPrismaService.integrationSyncLog.update.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'log-1', ...data }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the config encrypted and mask secrets in the response', async () => {
+      mockPrismaService.integration.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'integration-1', syncLogs: [], ...data }),
+      );
+
+      const result = await service.create({
+        name: 'Web issues',
+        type: 'PROJECT_MANAGEMENT',
+        config,
+      });
+
+      const stored =
+        mockPrismaService.integration.create.mock.calls[0][0].data.config;
+      expect(encryption.isEncrypted(stored)).toBe(true);
+      expect(JSON.stringify(stored)).not.toContain('ghp_secret');
+      expect(mockTicketProviderRegistry.validateConfig).toHaveBeenCalledWith(
+        config,
+      );
+      expect(result.config).toEqual({ ...config, token: MASKED_VALUE });
+    });
+  });
+
+  describe('update', () => {
+    it('should keep stored secrets when the masked value is sent back', async () => {
+      mockPrismaService.integration.findUnique.mockResolvedValue(
+        storedIntegration(),
+      );
+      mockPrismaService.integration.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...storedIntegration(), ...data }),
+      );
+
+      await service.update('integration-1', {
+        config: { ...config, repo: 'api', token: MASKED_VALUE },
+      });
+
+      const stored =
+        mockPrismaService.integration.update.mock.calls[0][0].data.config;
+      expect(encryption.decryptJson(stored)).toEqual({
+        ...config,
+        repo: 'api',
+        token: 'ghp_secret',
+      });
+    });
+  });
+
+  describe('sync', () => {
+    beforeEach(() => {
+      mockPrismaService.integration.findUnique.mockResolvedValue(
+        storedIntegration(),
+      );
+    });
+
+    it('should record a successful run and advance lastSyncAt', async () => {
+      mockTicketsService.syncTickets.mockResolvedValue({
+        processed: 3,
+        success: 3,
+        errors: [],
+      });
+
+      const log = await service.sync('integration-1');
+
+      expect(mockTicketsService.syncTickets).toHaveBeenCalledWith(
+        config,
+        new Date('2024-03-01T00:00:00Z'),
+      );
+      expect(log).toMatchObject({
+        status: 'success',
+        recordsProcessed: 3,
+        recordsSuccess: 3,
+        recordsError: 0,
+      });
+      expect(mockPrismaService.integration.update).toHaveBeenCalledWith({
+        where: { id: 'integration-1' },
+        data: {
+          syncStatus: 'ACTIVE',
+          errorMessage: null,
+          lastSyncAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should record a failed run and keep lastSyncAt', async () => {
+      mockTicketsService.syncTickets.mockRejectedValue(
+        new Error('401 Unauthorized from api.github.com'),
+      );
+
+      const log = await service.sync('integration-1');
+
+      expect(log).toMatchObject({
+        status: 'failed',
+        errorDetails: [{ message: '401 Unauthorized from api.github.com' }],
+      });
+      expect(mockPrismaService.integration.update).toHaveBeenCalledWith({
+        where: { id: 'integration-1' },
+        data: {
+          syncStatus: 'ERROR',
+          errorMessage: '401 Unauthorized from api.github.com',
+        },
+      });
+    });
+
+    it('should refuse to start while another sync is running', async () => {
+      mockPrismaService.integration.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.sync('integration-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(
+        mockPrismaService.integrationSyncLog.create,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runScheduledSyncs', () => {
+    it('should only sync integrations whose interval has elapsed', async () => {
+      const now = new Date('2024-03-05T12:00:00Z');
+      mockPrismaService.integration.findMany.mockResolvedValue([
+        {
+          ...storedIntegration(),
+          id: 'due',
+          syncLogs: [{ startedAt: new Date('2024-03-05T10:30:00Z') }],
+        },
+        {
+          ...storedIntegration(),
+          id: 'recent',
+          syncLogs: [{ startedAt: new Date('2024-03-05T11:30:00Z') }],
+        },
+      ]);
+      mockTicketsService.syncTickets.mockResolvedValue({
+        processed: 0,
+        success: 0,
+        errors: [],
+      });
+
+      const result = await service.runScheduledSyncs(now);
+
+      expect(result).toEqual({ started: 1 });
+      expect(mockPrismaService.integrationSyncLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            integrationId: 'due',
+            operation: 'scheduled_sync',
+          }),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Integration,
+  IntegrationStatus,
+  IntegrationSyncLog,
+  IntegrationType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EncryptionService } from '../common/services/encryption.service';
+import { LoggerService } from '../common/services/logger.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { TicketProviderRegistry } from '../tickets/providers/ticket-provider.registry';
+import { CreateIntegrationDto } from './dto/create-integration.dto';
+import { UpdateIntegrationDto } from './dto/update-integration.dto';
+
+export const MASKED_VALUE = '********';
+
+// Config keys whose values never leave the server
+const SECRET_KEY_PATTERN = /(token|secret|password|apikey|privatekey)$/i;
+
+export type IntegrationConfig = Record<string, unknown>;
+
+export interface IntegrationSyncResult {
+  processed: number;
+  success: number;
+  errors: Array<{ externalId?: string; message: string }>;
+}
+
+/** Runs an integration type against its external system. */
+interface IntegrationHandler {
+  validateConfig(config: IntegrationConfig): void;
+  testConnection(config: IntegrationConfig): Promise<void>;
+  sync(config: IntegrationConfig, since?: Date): Promise<IntegrationSyncResult>;
+}
+
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+}
+
+const latestSyncLog = {
+  syncLogs: { orderBy: { startedAt: 'desc' }, take: 1 },
+} satisfies Prisma.IntegrationInclude;
+
+@Injectable()
+export class IntegrationsService {
+  private readonly handlers: Partial<
+    Record<IntegrationType, IntegrationHandler>
+  >;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryption: EncryptionService,
+    private readonly logger: LoggerService,
+    ticketsService: TicketsService,
+    ticketProviders: TicketProviderRegistry,
+  ) {
+    this.handlers = {
+      [IntegrationType.PROJECT_MANAGEMENT]: {
+        validateConfig: (config) => ticketProviders.validateConfig(config),
+        testConnection: (config) => ticketsService.testConnection(config),
+        sync: (config, since) => ticketsService.syncTickets(config, since),
+      },
+    };
+  }
+
+  async create(createIntegrationDto: CreateIntegrationDto) {
+    const { config, ...data } = createIntegrationDto;
+    this.handlers[data.type]?.validateConfig(config);
+
+    const integration = await this.prisma.integration.create({
+      data: {
+        ...data,
+        config: this.encryption.encryptJson(config),
+      },
+      include: latestSyncLog,
+    });
+    return this.toView(integration);
+  }
+
+  async findAll() {
+    const integrations = await this.prisma.integration.findMany({
+      include: latestSyncLog,
+      orderBy: { createdAt: 'desc' },
+    });
+    return integrations.map((integration) => this.toView(integration));
+  }
+
+  async findOne(id: string) {
+    const integration = await this.prisma.integration.findUnique({
+      where: { id },
+      include: latestSyncLog,
+    });
+    if (!integration) {
+      throw new NotFoundException(`Integration with ID ${id} not found`);
+    }
+    return this.toView(integration);
+  }
+
+  async update(id: string, updateIntegrationDto: UpdateIntegrationDto) {
+    const existing = await this.getIntegration(id);
+    const { config, ...data } = updateIntegrationDto;
+
+    const updateData: Prisma.IntegrationUpdateInput = { ...data };
+    if (config) {
+      // Masked secrets sent back by the UI keep their stored value
+      const currentConfig = this.decryptConfig(existing);
+      const merged: IntegrationConfig = { ...config };
+      for (const [key, value] of Object.entries(merged)) {
+        if (value === MASKED_VALUE) merged[key] = currentConfig[key];
+      }
+      this.handlers[data.type ?? existing.type]?.validateConfig(merged);
+      updateData.config = this.encryption.encryptJson(merged);
+    }
+
+    const integration = await this.prisma.integration.update({
+      where: { id },
+      data: updateData,
+      include: latestSyncLog,
+    });
+    return this.toView(integration);
+  }
+
+  async remove(id: string) {
+    await this.getIntegration(id);
+    await this.prisma.integration.delete({ where: { id } });
+    return { message: 'Integration deleted successfully' };
+  }
+
+  async testConnection(id: string): Promise<ConnectionTestResult> {
+    const integration = await this.getIntegration(id);
+    const handler = this.getHandler(integration.type);
+
+    try {
+      const config = this.decryptConfig(integration);
+      handler.validateConfig(config);
+      await handler.testConnection(config);
+      return { success: true, message: 'Connection successful' };
+    } catch (error) {
+      return { success: false, message: (error as Error).message };
+    }
+  }
+
+  async sync(id: string): Promise<IntegrationSyncLog> {
+    const integration = await this.getIntegration(id);
+    if (!integration.isActive) {
+      throw new BadRequestException('Integration is not active');
+    }
+    return this.runSync(integration, 'manual');
+  }
+
+  async findSyncLogs(id: string, take?: number): Promise<IntegrationSyncLog[]> {
+    await this.getIntegration(id);
+    return this.prisma.integrationSyncLog.findMany({
+      where: { integrationId: id },
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(Math.max(take || 20, 1), 100),
+    });
+  }
+
+  /** Starts syncs for active integrations whose interval has elapsed. */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async runScheduledSyncs(now = new Date()) {
+    const integrations = await this.prisma.integration.findMany({
+      where: {
+        isActive: true,
+        syncIntervalMinutes: { not: null },
+        OR: [
+          { syncStatus: null },
+          { syncStatus: { not: IntegrationStatus.SYNCING } },
+        ],
+      },
+      include: latestSyncLog,
+    });
+
+    let started = 0;
+    for (const integration of integrations) {
+      if (!this.handlers[integration.type]) continue;
+
+      const lastRun = integration.syncLogs[0]?.startedAt;
+      const intervalMs = (integration.syncIntervalMinutes ?? 0) * 60 * 1000;
+      if (lastRun && now.getTime() - lastRun.getTime() < intervalMs) continue;
+
+      try {
+        await this.runSync(integration, 'scheduled');
+        started++;
+      } catch (error) {
+        // Another run claimed it first; the next tick picks it up again
+        if (!(error instanceof ConflictException)) throw error;
+      }
+    }
+    return { started };
+  }
+
+  private async runSync(
+    integration: Integration,
+    trigger: SyncTrigger,
+  ): Promise<IntegrationSyncLog> {
+    const handler = this.getHandler(integration.type);
+    const startedAt = new Date();
+
+    // Claim the integration so overlapping runs can't start
+    const claimed = await this.prisma.integration.updateMany({
+      where: {
+        id: integration.id,
+        OR: [
+          { syncStatus: null },
+          { syncStatus: { not: IntegrationStatus.SYNCING } },
+        ],
+      },
+      data: { syncStatus: IntegrationStatus.SYNCING },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException('A sync is already running');
+    }
+
+    const syncLog = await this.prisma.integrationSyncLog.create({
+      data: {
+        integrationId: integration.id,
+        operation: `${trigger}_sync`,
+        status: 'running',
+        startedAt,
+      },
+    });
+
+    let result: IntegrationSyncResult = {
+      processed: 0,
+      success: 0,
+      errors: [],
+    };
+    let failure: string | null = null;
+    try {
+      const config = this.decryptConfig(integration);
+      handler.validateConfig(config);
+      result = await handler.sync(config, integration.lastSyncAt ?? undefined);
+    } catch (error) {
+      failure = (error as Error).message;
+    }
+
+    const errorDetails = failure
+      ? [{ message: failure }, ...result.errors]
+      : result.errors;
+    const status = failure
+      ? 'failed'
+      : result.errors.length
+        ? 'partial'
+        : 'success';
+    const completedAt = new Date();
+
+    const completedLog = await this.prisma.integrationSyncLog.update({
+      where: { id: syncLog.id },
+      data: {
+        status,
+        recordsProcessed: result.processed,
+        recordsSuccess: result.success,
+        recordsError: result.errors.length,
+        errorDetails: errorDetails.length ? errorDetails : Prisma.DbNull,
+        completedAt,
+        duration: completedAt.getTime() - startedAt.getTime(),
+      },
+    });
+
+    await this.prisma.integration.update({
+      where: { id: integration.id },
+      data: failure
+        ? { syncStatus: IntegrationStatus.ERROR, errorMessage: failure }
+        : {
+            syncStatus: IntegrationStatus.ACTIVE,
+            errorMessage: result.errors.length
+              ? `${result.errors.length} of ${result.processed} records failed to sync`
+              : null,
+            // Only advance on success so failed windows are fetched again
+            lastSyncAt: startedAt,
+          },
+    });
+
+    this.logger.log(`Integration sync ${status}: ${integration.name}`, {
+      integrationId: integration.id,
+      trigger,
+      processed: result.processed,
+      errors: errorDetails.length,
+    });
+    return completedLog;
+  }
+
+  private async getIntegration(id: string): Promise<Integration> {
+    const integration = await this.prisma.integration.findUnique({
+      where: { id },
+    });
+    if (!integration) {
+      throw new NotFoundException(`Integration with ID ${id} not found`);
+    }
+    return integration;
+  }
+
+  private getHandler(type: IntegrationType): IntegrationHandler {
+    const handler = this.handlers[type];
+    if (!handler) {
+      throw new BadRequestException(
+        `${type} integrations do not support connection tests or syncs yet`,
+      );
+    }
+    return handler;
+  }
+
+  private decryptConfig(integration: Integration): IntegrationConfig {
+    return this.encryption.decryptJson<IntegrationConfig>(integration.config);
+  }
+
+  private toView<T extends Integration>(integration: T) {
+    const config = this.decryptConfig(integration);
+    const maskedConfig: IntegrationConfig = {};
+    for (const [key, value] of Object.entries(config)) {
+      maskedConfig[key] =
+        SECRET_KEY_PATTERN.test(key) && value ? MASKED_VALUE : value;
+    }
+    return { ...integration, config: maskedConfig };
+  }
+}
@@ -0,0 +1,66 @@
+import { DocumentType } from '@prisma/client';
+import { PDFParse } from 'pdf-parse';
+
+export type ExtractableDocumentType = Extract<
+  DocumentType,
+  'TEXT' | 'CODE' | 'PDF'
+>;
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'rst', 'csv', 'log', 'adoc'];
+const CODE_EXTENSIONS = [
+  'ts',
+  'tsx',
+  'js',
+  'jsx',
+  'json',
+  'py',
+  'java',
+  'kt',
+  'go',
+  'rb',
+  'rs',
+  'c',
+  'h',
+  'cpp',
+  'cs',
+  'php',
+  'sh',
+  'sql',
+  'yml',
+  'yaml',
+  'xml',
+  'html',
+  'css',
+  'scss',
+  'tf',
+];
+
+/** Document type of an uploaded file, or null when no text can be extracted */
+export function detectDocumentType(
+  fileName: string,
+): ExtractableDocumentType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'pdf') return DocumentType.PDF;
+  if (CODE_EXTENSIONS.includes(extension)) return DocumentType.CODE;
+  if (TEXT_EXTENSIONS.includes(extension)) return DocumentType.TEXT;
+  return null;
+}
+
+/** Reads the plain text of a TEXT, CODE or PDF file. */
+export async function extractDocumentText(
+  buffer: Buffer,
+  type: ExtractableDocumentType,
+): Promise<string> {
+  if (type !== DocumentType.PDF) {
+    // Strip a UTF-8 byte order mark left by some editors
+    return buffer.toString('utf8').replace(/^\uFEFF/, '');
+  }
+
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const { text } = await parser.getText();
+    return text.trim();
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DocumentType } from '@prisma/client';
+
+/** Longest text kept for a document, well below the tsvector size limit */
+export const MAX_DOCUMENT_LENGTH = 500_000;
+
+export const WRITABLE_DOCUMENT_TYPES = [
+  DocumentType.TEXT,
+  DocumentType.CODE,
+] as const;
+
+export class CreateDocumentDto {
+  @ApiProperty({ example: 'Deploying to production' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(300)
+  title: string;
+
+  @ApiProperty({ description: 'Plain text or Markdown content' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_DOCUMENT_LENGTH)
+  content: string;
+
+  @ApiPropertyOptional({
+    enum: WRITABLE_DOCUMENT_TYPES,
+    default: DocumentType.TEXT,
+  })
+  @IsOptional()
+  @IsIn(WRITABLE_DOCUMENT_TYPES)
+  type?: DocumentType;
+
+  @ApiPropertyOptional({
+    description: 'Where the content comes from, e.g. a URL or file name',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  source?: string;
+}
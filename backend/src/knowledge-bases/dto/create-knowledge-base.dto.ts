@@ -0,0 +1,46 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsUUID,
+  IsBoolean,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { KnowledgeBaseType } from '@prisma/client';
+
+export class CreateKnowledgeBaseDto {
+  @ApiProperty({ example: 'Platform runbooks' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: KnowledgeBaseType,
+    default: KnowledgeBaseType.GENERAL,
+  })
+  @IsOptional()
+  @IsEnum(KnowledgeBaseType)
+  type?: KnowledgeBaseType;
+
+  @ApiPropertyOptional({
+    description:
+      'Project the knowledge base belongs to, required for PROJECT_SPECIFIC',
+  })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
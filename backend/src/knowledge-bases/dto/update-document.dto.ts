@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateDocumentDto } from './create-document.dto';
+
+export class UpdateDocumentDto extends PartialType(CreateDocumentDto) {}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateKnowledgeBaseDto } from './create-knowledge-base.dto';
+
+export class UpdateKnowledgeBaseDto extends PartialType(
+  CreateKnowledgeBaseDto,
+) {}
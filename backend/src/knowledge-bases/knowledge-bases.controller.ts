@@ -0,0 +1,224 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Request,
+  Query,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { KnowledgeBaseType } from '@prisma/client';
+import {
+  KnowledgeBasesService,
+  MAX_DOCUMENT_FILE_SIZE,
+} from './knowledge-bases.service';
+import { CreateKnowledgeBaseDto } from './dto/create-knowledge-base.dto';
+import { UpdateKnowledgeBaseDto } from './dto/update-knowledge-base.dto';
+import { CreateDocumentDto } from './dto/create-document.dto';
+import { UpdateDocumentDto } from './dto/update-document.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+const fileUpload = FileInterceptor('file', {
+  limits: { fileSize: MAX_DOCUMENT_FILE_SIZE },
+});
+
+@ApiTags('knowledge-bases')
+@ApiBearerAuth()
+@Controller('knowledge-bases')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class KnowledgeBasesController {
+  constructor(private readonly knowledgeBasesService: KnowledgeBasesService) {}
+
+  @Post()
+  @RequirePermissions('knowledge_bases', 'create')
+  @ApiOperation({ summary: 'Create a knowledge base' })
+  @ApiResponse({ status: 201, description: 'Knowledge base created' })
+  @ApiResponse({ status: 400, description: 'Project missing' })
+  create(
+    @Body() createKnowledgeBaseDto: CreateKnowledgeBaseDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.create(
+      createKnowledgeBaseDto,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List knowledge bases' })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({ name: 'type', required: false, enum: KnowledgeBaseType })
+  @ApiResponse({ status: 200, description: 'Knowledge bases retrieved' })
+  findAll(
+    @Request() req,
+    @Query('projectId') projectId?: string,
+    @Query('type') type?: KnowledgeBaseType,
+  ) {
+    return this.knowledgeBasesService.findAll(req.user.id, {
+      projectId: projectId || undefined,
+      type: type || undefined,
+    });
+  }
+
+  @Get('search')
+  @ApiOperation({ summary: 'Search documents with full-text search' })
+  @ApiQuery({ name: 'q', required: true })
+  @ApiQuery({ name: 'knowledgeBaseId', required: false })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({ name: 'take', required: false })
+  @ApiResponse({ status: 200, description: 'Ranked matching documents' })
+  search(
+    @Request() req,
+    @Query('q') q: string,
+    @Query('knowledgeBaseId') knowledgeBaseId?: string,
+    @Query('projectId') projectId?: string,
+    @Query('take') take?: string,
+  ) {
+    return this.knowledgeBasesService.search(req.user.id, {
+      q,
+      knowledgeBaseId: knowledgeBaseId || undefined,
+      projectId: projectId || undefined,
+      take: take ? Number(take) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get knowledge base by ID' })
+  @ApiResponse({ status: 200, description: 'Knowledge base retrieved' })
+  @ApiResponse({ status: 404, description: 'Knowledge base not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.knowledgeBasesService.findOne(id, req.user.id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('knowledge_bases', 'update')
+  @ApiOperation({ summary: 'Update a knowledge base' })
+  @ApiResponse({ status: 200, description: 'Knowledge base updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateKnowledgeBaseDto: UpdateKnowledgeBaseDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.update(
+      id,
+      updateKnowledgeBaseDto,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions('knowledge_bases', 'delete')
+  @ApiOperation({ summary: 'Delete a knowledge base and its documents' })
+  @ApiResponse({ status: 200, description: 'Knowledge base deleted' })
+  remove(@Param('id') id: string, @Request() req) {
+    return this.knowledgeBasesService.remove(id, req.user.id);
+  }
+
+  @Get(':id/documents')
+  @ApiOperation({ summary: 'List the documents of a knowledge base' })
+  @ApiResponse({ status: 200, description: 'Documents retrieved' })
+  findDocuments(@Param('id') id: string, @Request() req) {
+    return this.knowledgeBasesService.findDocuments(id, req.user.id);
+  }
+
+  @Post(':id/documents')
+  @RequirePermissions('knowledge_bases', 'update')
+  @ApiOperation({ summary: 'Write a text or code document' })
+  @ApiResponse({ status: 201, description: 'Document created and indexed' })
+  createDocument(
+    @Param('id') id: string,
+    @Body() createDocumentDto: CreateDocumentDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.createDocument(
+      id,
+      createDocumentDto,
+      req.user.id,
+    );
+  }
+
+  @Post(':id/documents/upload')
+  @RequirePermissions('knowledge_bases', 'update')
+  @UseInterceptors(fileUpload)
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Upload a text, code or PDF file as a document' })
+  @ApiResponse({ status: 201, description: 'Document created and indexed' })
+  @ApiResponse({ status: 400, description: 'File type not supported' })
+  uploadDocument(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body('title') title: string | undefined,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.uploadDocument(
+      id,
+      file,
+      title,
+      req.user.id,
+    );
+  }
+
+  @Get(':id/documents/:documentId')
+  @ApiOperation({ summary: 'Get a document with its content' })
+  @ApiResponse({ status: 200, description: 'Document retrieved' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  findDocument(
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.findDocument(id, documentId, req.user.id);
+  }
+
+  @Patch(':id/documents/:documentId')
+  @RequirePermissions('knowledge_bases', 'update')
+  @ApiOperation({ summary: 'Update a document and re-index it' })
+  @ApiResponse({ status: 200, description: 'Document updated' })
+  updateDocument(
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Body() updateDocumentDto: UpdateDocumentDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.updateDocument(
+      id,
+      documentId,
+      updateDocumentDto,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id/documents/:documentId')
+  @RequirePermissions('knowledge_bases', 'update')
+  @ApiOperation({ summary: 'Delete a document' })
+  @ApiResponse({ status: 200, description: 'Document deleted' })
+  removeDocument(
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Request() req,
+  ) {
+    return this.knowledgeBasesService.removeDocument(
+      id,
+      documentId,
+      req.user.id,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import { KnowledgeBasesController } from './knowledge-bases.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [KnowledgeBasesController],
+  providers: [KnowledgeBasesService],
+  exports: [KnowledgeBasesService],
+})
+export class KnowledgeBasesModule {}
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import { detectDocumentType } from './document-text';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+
+describe('detectDocumentType', () => {
+  it('should map file extensions to document types', () => {
+    expect(detectDocumentType('Design.PDF')).toBe('PDF');
+    expect(detectDocumentType('service.ts')).toBe('CODE');
+    expect(detectDocumentType('README.md')).toBe('TEXT');
+    expect(detectDocumentType('diagram.png')).toBeNull();
+  });
+});
+
+describe('KnowledgeBasesService', () => {
+  let service: KnowledgeBasesService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    project: { findFirst: jest.fn() },
+    knowledgeBase: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    document: { create: jest.fn(), findUniqueOrThrow: jest.fn() },
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+  };
+
+  const mockDataScopeService = { getAccessScopeWhereClause: jest.fn() };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const projectScope = { members: { some: { userId: 'user-1' } } };
+  const knowledgeBase = { id: 'kb-1', name: 'Handbook', type: 'GENERAL' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KnowledgeBasesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: DataScopeService, useValue: mockDataScopeService },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<KnowledgeBasesService>(KnowledgeBasesService);
+
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      organizationId: 'org-1',
+    });
+    mockDataScopeService.getAccessScopeWhereClause.mockResolvedValue(
+      projectScope,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should limit results to the organization and visible projects', async () => {
+      mockPrismaService.knowledgeBase.findMany.mockResolvedValue([]);
+
+      await service.findAll('user-1', { type: 'PROJECT_SPECIFIC' });
+
+      expect(mockPrismaService.knowledgeBase.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {
+                OR: [
+                  { projectId: null, organizationId: 'org-1' },
+                  { project: projectScope },
+                ],
+              },
+              { type: 'PROJECT_SPECIFIC' },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should not show organization-wide results to users without an organization', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        organizationId: null,
+      });
+      mockPrismaService.knowledgeBase.findMany.mockResolvedValue([]);
+
+      await service.findAll('user-1');
+
+      expect(mockPrismaService.knowledgeBase.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { AND: [{ OR: [{ project: projectScope }] }, {}] },
+        }),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should require an organization for organization-wide knowledge bases', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        organizationId: null,
+      });
+
+      await expect(
+        service.create({ name: 'Handbook' }, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.knowledgeBase.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a project for project knowledge bases', async () => {
+      await expect(
+        service.create({ name: 'Specs', type: 'PROJECT_SPECIFIC' }, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.knowledgeBase.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject projects outside the user scope', async () => {
+      mockPrismaService.project.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          { name: 'Specs', type: 'PROJECT_SPECIFIC', projectId: 'project-9' },
+          'user-1',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.project.findFirst).toHaveBeenCalledWith({
+        where: { AND: [projectScope, { id: 'project-9' }] },
+        select: { organizationId: true },
+      });
+    });
+
+    it('should ignore the project of general knowledge bases', async () => {
+      mockPrismaService.knowledgeBase.create.mockResolvedValue(knowledgeBase);
+
+      await service.create(
+        { name: 'Handbook', projectId: 'project-1' },
+        'user-1',
+      );
+
+      expect(mockPrismaService.knowledgeBase.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'GENERAL',
+            projectId: null,
+            organizationId: 'org-1',
+            createdBy: 'user-1',
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('uploadDocument', () => {
+    const file = (originalname: string, content: string) =>
+      ({
+        originalname,
+        buffer: Buffer.from(content),
+        size: content.length,
+      }) as Express.Multer.File;
+
+    it('should reject files without extractable text', async () => {
+      await expect(
+        service.uploadDocument('kb-1', file('photo.png', 'x'), undefined, 'u'),
+      ).rejects.toThrow('Only text, code and PDF files can be uploaded');
+      expect(mockPrismaService.document.create).not.toHaveBeenCalled();
+    });
+
+    it('should store and index the text of uploaded files', async () => {
+      mockPrismaService.knowledgeBase.findFirst.mockResolvedValue(
+        knowledgeBase,
+      );
+      mockPrismaService.document.create.mockResolvedValue({ id: 'doc-1' });
+      mockPrismaService.document.findUniqueOrThrow.mockResolvedValue({
+        id: 'doc-1',
+        isIndexed: true,
+      });
+
+      const document = await service.uploadDocument(
+        'kb-1',
+        file('notes.md', '\uFEFF# Release notes'),
+        undefined,
+        'user-1',
+      );
+
+      expect(mockPrismaService.document.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          knowledgeBaseId: 'kb-1',
+          title: 'notes.md',
+          content: '# Release notes',
+          type: 'TEXT',
+          isIndexed: false,
+        }),
+      });
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalled();
+      expect(document).toEqual({ id: 'doc-1', isIndexed: true });
+    });
+  });
+
+  describe('search', () => {
+    it('should not query documents when no knowledge base is in scope', async () => {
+      mockPrismaService.knowledgeBase.findMany.mockResolvedValue([]);
+
+      const results = await service.search('user-1', { q: 'deployment' });
+
+      expect(results).toEqual([]);
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should attach knowledge base names to ranked results', async () => {
+      mockPrismaService.knowledgeBase.findMany.mockResolvedValue([
+        knowledgeBase,
+      ]);
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        {
+          id: 'doc-1',
+          title: 'Deploying',
+          type: 'TEXT',
+          knowledgeBaseId: 'kb-1',
+          rank: '0.6',
+          snippet: '<b>deployment</b> steps',
+        },
+      ]);
+
+      const results = await service.search('user-1', { q: 'deployment' });
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          id: 'doc-1',
+          rank: 0.6,
+          knowledgeBaseName: 'Handbook',
+        }),
+      ]);
+    });
+  });
+});
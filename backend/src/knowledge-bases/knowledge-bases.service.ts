@@ -0,0 +1,427 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DocumentType, KnowledgeBaseType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { CreateKnowledgeBaseDto } from './dto/create-knowledge-base.dto';
+import { UpdateKnowledgeBaseDto } from './dto/update-knowledge-base.dto';
+import {
+  CreateDocumentDto,
+  MAX_DOCUMENT_LENGTH,
+} from './dto/create-document.dto';
+import { UpdateDocumentDto } from './dto/update-document.dto';
+import { detectDocumentType, extractDocumentText } from './document-text';
+
+export const MAX_DOCUMENT_FILE_SIZE = 10 * 1024 * 1024;
+
+const INDEX_BATCH_SIZE = 100;
+
+export interface DocumentSearchQuery {
+  q: string;
+  knowledgeBaseId?: string;
+  projectId?: string;
+  take?: number;
+}
+
+export interface DocumentSearchResult {
+  id: string;
+  title: string;
+  type: DocumentType;
+  knowledgeBaseId: string;
+  knowledgeBaseName: string;
+  rank: number;
+  /** Matching fragments with the search terms wrapped in <b> tags */
+  snippet: string;
+}
+
+/** Document fields without the content, for listings */
+const documentSummarySelect = {
+  id: true,
+  knowledgeBaseId: true,
+  title: true,
+  type: true,
+  source: true,
+  metadata: true,
+  isIndexed: true,
+  indexedAt: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.DocumentSelect;
+
+const knowledgeBaseInclude = {
+  project: { select: { id: true, name: true, code: true } },
+  _count: { select: { documents: true } },
+} satisfies Prisma.KnowledgeBaseInclude;
+
+@Injectable()
+export class KnowledgeBasesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly dataScopeService: DataScopeService,
+  ) {}
+
+  async findAll(
+    userId: string,
+    filters: { projectId?: string; type?: KnowledgeBaseType } = {},
+  ) {
+    const scope = await this.buildScope(userId);
+    return this.prisma.knowledgeBase.findMany({
+      where: {
+        AND: [
+          scope,
+          {
+            ...(filters.projectId && { projectId: filters.projectId }),
+            ...(filters.type && { type: filters.type }),
+          },
+        ],
+      },
+      include: knowledgeBaseInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOne(id: string, userId: string) {
+    const scope = await this.buildScope(userId);
+    const knowledgeBase = await this.prisma.knowledgeBase.findFirst({
+      where: { AND: [scope, { id }] },
+      include: knowledgeBaseInclude,
+    });
+    if (!knowledgeBase) {
+      throw new NotFoundException(`Knowledge base with ID ${id} not found`);
+    }
+    return knowledgeBase;
+  }
+
+  async create(createKnowledgeBaseDto: CreateKnowledgeBaseDto, userId: string) {
+    const type = createKnowledgeBaseDto.type ?? KnowledgeBaseType.GENERAL;
+    const organizationId = await this.resolveOrganization(
+      userId,
+      type,
+      createKnowledgeBaseDto.projectId,
+    );
+
+    return this.prisma.knowledgeBase.create({
+      data: {
+        ...createKnowledgeBaseDto,
+        type,
+        projectId:
+          type === KnowledgeBaseType.PROJECT_SPECIFIC
+            ? createKnowledgeBaseDto.projectId
+            : null,
+        organizationId,
+        createdBy: userId,
+      },
+      include: knowledgeBaseInclude,
+    });
+  }
+
+  async update(
+    id: string,
+    updateKnowledgeBaseDto: UpdateKnowledgeBaseDto,
+    userId: string,
+  ) {
+    const knowledgeBase = await this.findOne(id, userId);
+    const type =
+      updateKnowledgeBaseDto.type ??
+      knowledgeBase.type ??
+      KnowledgeBaseType.GENERAL;
+    const projectId =
+      type === KnowledgeBaseType.PROJECT_SPECIFIC
+        ? (updateKnowledgeBaseDto.projectId ?? knowledgeBase.projectId)
+        : null;
+
+    const organizationId =
+      type !== knowledgeBase.type || projectId !== knowledgeBase.projectId
+        ? await this.resolveOrganization(userId, type, projectId ?? undefined)
+        : knowledgeBase.organizationId;
+
+    return this.prisma.knowledgeBase.update({
+      where: { id },
+      data: { ...updateKnowledgeBaseDto, type, projectId, organizationId },
+      include: knowledgeBaseInclude,
+    });
+  }
+
+  async remove(id: string, userId: string) {
+    await this.findOne(id, userId);
+    await this.prisma.knowledgeBase.delete({ where: { id } });
+    return { message: 'Knowledge base deleted successfully' };
+  }
+
+  async findDocuments(knowledgeBaseId: string, userId: string) {
+    await this.findOne(knowledgeBaseId, userId);
+    return this.prisma.document.findMany({
+      where: { knowledgeBaseId },
+      select: documentSummarySelect,
+      orderBy: { title: 'asc' },
+    });
+  }
+
+  async findDocument(knowledgeBaseId: string, id: string, userId: string) {
+    await this.findOne(knowledgeBaseId, userId);
+    const document = await this.prisma.document.findFirst({
+      where: { id, knowledgeBaseId },
+    });
+    if (!document) {
+      throw new NotFoundException(`Document with ID ${id} not found`);
+    }
+    return document;
+  }
+
+  async createDocument(
+    knowledgeBaseId: string,
+    createDocumentDto: CreateDocumentDto,
+    userId: string,
+  ) {
+    await this.findOne(knowledgeBaseId, userId);
+    const document = await this.prisma.document.create({
+      data: {
+        ...createDocumentDto,
+        knowledgeBaseId,
+        createdBy: userId,
+        isIndexed: false,
+      },
+    });
+    return this.indexDocument(document.id);
+  }
+
+  async uploadDocument(
+    knowledgeBaseId: string,
+    file: Express.Multer.File | undefined,
+    title: string | undefined,
+    userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+    const type = detectDocumentType(file.originalname);
+    if (!type) {
+      throw new BadRequestException(
+        'Only text, code and PDF files can be uploaded',
+      );
+    }
+    await this.findOne(knowledgeBaseId, userId);
+
+    let content: string;
+    try {
+      content = await extractDocumentText(file.buffer, type);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to extract text from ${file.originalname}: ${(error as Error).message}`,
+      );
+      throw new BadRequestException('The file could not be read');
+    }
+    if (!content.trim()) {
+      throw new BadRequestException('The file does not contain any text');
+    }
+    if (content.length > MAX_DOCUMENT_LENGTH) {
+      throw new BadRequestException(
+        `Document text must be at most ${MAX_DOCUMENT_LENGTH} characters`,
+      );
+    }
+
+    const document = await this.prisma.document.create({
+      data: {
+        knowledgeBaseId,
+        title: title?.trim() || file.originalname,
+        content,
+        type,
+        source: file.originalname,
+        metadata: { fileName: file.originalname, size: file.size },
+        createdBy: userId,
+        isIndexed: false,
+      },
+    });
+    return this.indexDocument(document.id);
+  }
+
+  async updateDocument(
+    knowledgeBaseId: string,
+    id: string,
+    updateDocumentDto: UpdateDocumentDto,
+    userId: string,
+  ) {
+    await this.findDocument(knowledgeBaseId, id, userId);
+    const reindex =
+      updateDocumentDto.title !== undefined ||
+      updateDocumentDto.content !== undefined;
+
+    await this.prisma.document.update({
+      where: { id },
+      data: {
+        ...updateDocumentDto,
+        ...(reindex && { isIndexed: false, indexedAt: null }),
+      },
+    });
+    return reindex
+      ? this.indexDocument(id)
+      : this.prisma.document.findUniqueOrThrow({ where: { id } });
+  }
+
+  async removeDocument(knowledgeBaseId: string, id: string, userId: string) {
+    await this.findDocument(knowledgeBaseId, id, userId);
+    await this.prisma.document.delete({ where: { id } });
+    return { message: 'Document deleted successfully' };
+  }
+
+  /** Full-text search over the documents of every knowledge base in scope */
+  async search(
+    userId: string,
+    query: DocumentSearchQuery,
+  ): Promise<DocumentSearchResult[]> {
+    const terms = query.q?.trim();
+    if (!terms) {
+      throw new BadRequestException('A search query is required');
+    }
+
+    const scope = await this.buildScope(userId);
+    const knowledgeBases = await this.prisma.knowledgeBase.findMany({
+      where: {
+        AND: [
+          scope,
+          {
+            isActive: true,
+            ...(query.knowledgeBaseId && { id: query.knowledgeBaseId }),
+            ...(query.projectId && { projectId: query.projectId }),
+          },
+        ],
+      },
+      select: { id: true, name: true },
+    });
+    if (knowledgeBases.length === 0) return [];
+
+    const names = new Map(knowledgeBases.map((kb) => [kb.id, kb.name]));
+    const take = Math.min(Math.max(query.take || 20, 1), 50);
+    const rows = await this.prisma.$queryRaw<
+      Omit<DocumentSearchResult, 'knowledgeBaseName'>[]
+    >`
+      SELECT d.id, d.title, d.type, d."knowledgeBaseId",
+        ts_rank(d."searchVector", query) AS rank,
+        ts_headline('english', d.content, query,
+          'MaxFragments=2, MaxWords=30, MinWords=10') AS snippet
+      FROM documents d, websearch_to_tsquery('english', ${terms}) query
+      WHERE d."knowledgeBaseId" = ANY(${[...names.keys()]}::uuid[])
+        AND d."searchVector" @@ query
+      ORDER BY rank DESC, d."updatedAt" DESC
+      LIMIT ${take}
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      rank: Number(row.rank),
+      knowledgeBaseName: names.get(row.knowledgeBaseId) ?? '',
+    }));
+  }
+
+  /** Retries documents whose indexing failed or was interrupted */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async indexPendingDocuments(): Promise<number> {
+    const pending = await this.prisma.document.findMany({
+      where: { OR: [{ isIndexed: false }, { isIndexed: null }] },
+      select: { id: true },
+      take: INDEX_BATCH_SIZE,
+    });
+    for (const { id } of pending) {
+      await this.indexDocument(id);
+    }
+    if (pending.length > 0) {
+      this.logger.log(`Indexed ${pending.length} pending documents`);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Rebuilds the search vector of a document, weighting the title above the
+   * content. Failures leave the document unindexed for the next retry.
+   */
+  private async indexDocument(id: string) {
+    try {
+      await this.prisma.$executeRaw`
+        UPDATE documents
+        SET "searchVector" =
+              setweight(to_tsvector('english', title), 'A') ||
+              setweight(to_tsvector('english', content), 'B'),
+            "isIndexed" = true,
+            "indexedAt" = now()
+        WHERE id = ${id}::uuid
+      `;
+    } catch (error) {
+      this.logger.error(
+        `Failed to index document ${id}`,
+        (error as Error).stack,
+      );
+    }
+    return this.prisma.document.findUniqueOrThrow({ where: { id } });
+  }
+
+  /**
+   * Organization-wide knowledge bases of the user's organization, plus the
+   * project knowledge bases of every project the user can see. Users without
+   * an organization see no organization-wide knowledge bases.
+   */
+  private async buildScope(
+    userId: string,
+  ): Promise<Prisma.KnowledgeBaseWhereInput> {
+    const [user, projectScope] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { organizationId: true },
+      }),
+      this.dataScopeService.getAccessScopeWhereClause(userId, 'project'),
+    ]);
+
+    return {
+      OR: [
+        ...(user?.organizationId
+          ? [{ projectId: null, organizationId: user.organizationId }]
+          : []),
+        { project: projectScope },
+      ],
+    };
+  }
+
+  private async resolveOrganization(
+    userId: string,
+    type: KnowledgeBaseType,
+    projectId?: string,
+  ): Promise<string | null> {
+    if (type !== KnowledgeBaseType.PROJECT_SPECIFIC) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { organizationId: true },
+      });
+      if (!user?.organizationId) {
+        throw new ForbiddenException(
+          'User must belong to an organization to create organization-wide knowledge bases.',
+        );
+      }
+      return user.organizationId;
+    }
+
+    if (!projectId) {
+      throw new BadRequestException(
+        'Project knowledge bases must be linked to a project',
+      );
+    }
+    const projectScope = await this.dataScopeService.getAccessScopeWhereClause(
+      userId,
+      'project',
+    );
+    const project = await this.prisma.project.findFirst({
+      where: { AND: [projectScope, { id: projectId }] },
+      select: { organizationId: true },
+    });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+    return project.organizationId;
+  }
+}
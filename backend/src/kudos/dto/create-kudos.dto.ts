@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsIn,
+  IsUUID,
+  IsArray,
+  IsBoolean,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const KUDOS_TYPES = [
+  'general',
+  'teamwork',
+  'helpfulness',
+  'innovation',
+  'leadership',
+  'quality',
+] as const;
+export type KudosType = (typeof KUDOS_TYPES)[number];
+
+export class CreateKudosDto {
+  @ApiProperty({ description: 'User receiving the kudos' })
+  @IsUUID()
+  receiverId: string;
+
+  @ApiProperty({
+    description: 'Why the kudos is given',
+    example: 'Thanks for jumping on the release issue!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  message: string;
+
+  @ApiPropertyOptional({ enum: KUDOS_TYPES, default: 'general' })
+  @IsOptional()
+  @IsIn(KUDOS_TYPES)
+  type?: KudosType;
+
+  @ApiPropertyOptional({
+    description: 'Whether the kudos shows up in the recognition feed',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isPublic?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Colleagues mentioned in the message, notified separately',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUUID('4', { each: true })
+  mentions?: string[];
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  Query,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import {
+  KudosService,
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+} from './kudos.service';
+import { CreateKudosDto } from './dto/create-kudos.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Everyone can recognise colleagues, so no permission is required
+@ApiTags('kudos')
+@ApiBearerAuth()
+@Controller('kudos')
+@UseGuards(JwtAuthGuard)
+export class KudosController {
+  constructor(private readonly kudosService: KudosService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Give kudos to a colleague' })
+  @ApiResponse({ status: 201, description: 'Kudos given' })
+  @ApiResponse({ status: 429, description: 'Daily kudos limit reached' })
+  create(@Body() createKudosDto: CreateKudosDto, @Request() req) {
+    return this.kudosService.create(createKudosDto, req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the public recognition feed' })
+  @ApiQuery({ name: 'teamId', required: false })
+  @ApiQuery({ name: 'take', required: false })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiResponse({ status: 200, description: 'Kudos retrieved' })
+  getFeed(
+    @Request() req,
+    @Query('teamId') teamId?: string,
+    @Query('take') take?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.kudosService.getFeed(req.user.id, {
+      teamId: teamId || undefined,
+      take: take ? Number(take) : undefined,
+      cursor: cursor || undefined,
+    });
+  }
+
+  @Get('leaderboard')
+  @ApiOperation({ summary: 'Get the most recognised users of a period' })
+  @ApiQuery({ name: 'period', required: false, enum: LEADERBOARD_PERIODS })
+  @ApiQuery({ name: 'teamId', required: false })
+  @ApiResponse({ status: 200, description: 'Leaderboard retrieved' })
+  getLeaderboard(
+    @Request() req,
+    @Query('period') period?: string,
+    @Query('teamId') teamId?: string,
+  ) {
+    if (period && !LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+      throw new BadRequestException(
+        `period must be one of ${LEADERBOARD_PERIODS.join(', ')}`,
+      );
+    }
+    return this.kudosService.getLeaderboard(
+      req.user.id,
+      period as LeaderboardPeriod | undefined,
+      teamId || undefined,
+    );
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get my kudos counts and remaining daily kudos' })
+  @ApiResponse({ status: 200, description: 'Summary retrieved' })
+  getSummary(@Request() req) {
+    return this.kudosService.getSummary(req.user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Withdraw kudos I gave' })
+  @ApiResponse({ status: 200, description: 'Kudos deleted' })
+  @ApiResponse({ status: 404, description: 'Kudos not found' })
+  remove(@Param('id') id: string, @Request() req) {
+    return this.kudosService.remove(id, req.user.id);
+  }
+}
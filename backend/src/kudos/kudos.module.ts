@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { KudosService } from './kudos.service';
+import { KudosController } from './kudos.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, NotificationsModule],
+  controllers: [KudosController],
+  providers: [KudosService],
+  exports: [KudosService],
+})
+export class KudosModule {}
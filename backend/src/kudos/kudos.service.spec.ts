@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KudosService, getPeriodStart } from './kudos.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('KudosService', () => {
+  let service: KudosService;
+
+  const mockPrismaService = {
+    kudos: {
+      count: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    team: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockLoggerService = { log: jest.fn(), error: jest.fn() };
+  const mockConfigService = { get: jest.fn().mockReturnValue('3') };
+
+  const giver = {
+    id: 'user-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    displayName: null,
+    organizationId: 'org-1',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KudosService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<KudosService>(KudosService);
+    mockPrismaService.user.findUnique.mockResolvedValue(giver);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    const dto = {
+      receiverId: 'user-2',
+      message: 'Great pairing session @Grace',
+      mentions: ['user-3', 'user-1'],
+    };
+
+    beforeEach(() => {
+      mockPrismaService.user.findFirst.mockResolvedValue({ id: 'user-2' });
+      mockPrismaService.kudos.count.mockResolvedValue(0);
+      mockPrismaService.user.findMany.mockResolvedValue([{ id: 'user-3' }]);
+      mockPrismaService.kudos.create.mockImplementation(({ data }) => ({
+        id: 'kudos-1',
+        ...data,
+        receiver: { firstName: 'Alan', lastName: 'Turing', displayName: null },
+      }));
+    });
+
+    it('should store the kudos and notify the receiver and mentions', async () => {
+      const result = await service.create(dto, 'user-1');
+
+      expect(result.mentions).toEqual(['user-3']);
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { in: ['user-3'] },
+            organizationId: 'org-1',
+          }),
+        }),
+      );
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        'user-2',
+        expect.objectContaining({ type: 'ACHIEVEMENT' }),
+      );
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        ['user-3'],
+        expect.objectContaining({
+          type: 'MENTION',
+          message: 'Ada Lovelace mentioned you in kudos for Alan Turing.',
+        }),
+      );
+    });
+
+    it('should reject kudos to yourself', async () => {
+      await expect(
+        service.create({ ...dto, receiverId: 'user-1' }, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject receivers outside the organization', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.create(dto, 'user-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.kudos.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the daily limit', async () => {
+      mockPrismaService.kudos.count.mockResolvedValue(3);
+
+      await expect(service.create(dto, 'user-1')).rejects.toThrow(
+        HttpException,
+      );
+      expect(mockPrismaService.kudos.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should rank receivers of the team within the period', async () => {
+      mockPrismaService.team.findFirst.mockResolvedValue({ id: 'team-1' });
+      mockPrismaService.kudos.groupBy.mockResolvedValue([
+        { receiverId: 'user-2', _count: { _all: 4 } },
+        { receiverId: 'user-3', _count: { _all: 2 } },
+      ]);
+      mockPrismaService.user.findMany.mockResolvedValue([
+        { id: 'user-3', firstName: 'Grace' },
+        { id: 'user-2', firstName: 'Alan' },
+      ]);
+
+      const result = await service.getLeaderboard(
+        'user-1',
+        'week',
+        'team-1',
+        new Date('2030-01-03T12:00:00Z'),
+      );
+
+      expect(mockPrismaService.kudos.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            receiver: {
+              organizationId: 'org-1',
+              teamMembers: { some: { teamId: 'team-1', isActive: true } },
+            },
+            createdAt: { gte: new Date('2029-12-31T00:00:00Z') },
+          },
+        }),
+      );
+      expect(result.entries).toEqual([
+        { rank: 1, user: { id: 'user-2', firstName: 'Alan' }, count: 4 },
+        { rank: 2, user: { id: 'user-3', firstName: 'Grace' }, count: 2 },
+      ]);
+    });
+  });
+
+  describe('getPeriodStart', () => {
+    it('should return the start of the period in UTC', () => {
+      const now = new Date('2030-05-15T08:00:00Z');
+
+      expect(getPeriodStart('month', now)).toEqual(
+        new Date('2030-05-01T00:00:00Z'),
+      );
+      expect(getPeriodStart('quarter', now)).toEqual(
+        new Date('2030-04-01T00:00:00Z'),
+      );
+      expect(getPeriodStart('all', now)).toBeNull();
+    });
+  });
+});
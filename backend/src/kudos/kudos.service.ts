@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateKudosDto } from './dto/create-kudos.dto';
+
+export const LEADERBOARD_PERIODS = [
+  'week',
+  'month',
+  'quarter',
+  'year',
+  'all',
+] as const;
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export interface KudosFeedQuery {
+  teamId?: string;
+  take?: number;
+  cursor?: string;
+}
+
+const DEFAULT_DAILY_LIMIT = 5;
+const LEADERBOARD_SIZE = 10;
+
+const userSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  displayName: true,
+  avatar: true,
+} satisfies Prisma.UserSelect;
+
+const kudosInclude = {
+  giver: { select: userSummarySelect },
+  receiver: { select: userSummarySelect },
+} satisfies Prisma.KudosInclude;
+
+const displayName = (user: {
+  firstName: string;
+  lastName: string;
+  displayName: string | null;
+}) => user.displayName || `${user.firstName} ${user.lastName}`.trim();
+
+const startOfUtcDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+/** Start of the leaderboard period containing `now`, in UTC */
+export const getPeriodStart = (
+  period: LeaderboardPeriod,
+  now: Date = new Date(),
+): Date | null => {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  switch (period) {
+    case 'week': {
+      const start = startOfUtcDay(now);
+      // Weeks start on Monday
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      return start;
+    }
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+    default:
+      return null;
+  }
+};
+
+@Injectable()
+export class KudosService {
+  private readonly dailyLimit: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly notificationsService: NotificationsService,
+    configService: ConfigService,
+  ) {
+    this.dailyLimit =
+      Number(configService.get<string>('KUDOS_DAILY_LIMIT')) ||
+      DEFAULT_DAILY_LIMIT;
+  }
+
+  async create(createKudosDto: CreateKudosDto, giverId: string) {
+    const { receiverId, message, type, isPublic } = createKudosDto;
+    if (receiverId === giverId) {
+      throw new BadRequestException('You cannot give kudos to yourself');
+    }
+
+    const giver = await this.getUser(giverId);
+    const receiver = await this.prisma.user.findFirst({
+      where: {
+        id: receiverId,
+        isActive: true,
+        organizationId: giver.organizationId,
+      },
+      select: { id: true },
+    });
+    if (!receiver) {
+      throw new NotFoundException(`User with ID ${receiverId} not found`);
+    }
+
+    const givenToday = await this.prisma.kudos.count({
+      where: { giverId, createdAt: { gte: startOfUtcDay(new Date()) } },
+    });
+    if (givenToday >= this.dailyLimit) {
+      throw new HttpException(
+        `You can give at most ${this.dailyLimit} kudos per day`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Only colleagues of the same organization can be mentioned
+    const mentioned = createKudosDto.mentions?.length
+      ? await this.prisma.user.findMany({
+          where: {
+            id: {
+              in: createKudosDto.mentions.filter(
+                (id) => id !== giverId && id !== receiverId,
+              ),
+            },
+            isActive: true,
+            organizationId: giver.organizationId,
+          },
+          select: { id: true },
+        })
+      : [];
+
+    const kudos = await this.prisma.kudos.create({
+      data: {
+        giverId,
+        receiverId,
+        message,
+        type: type ?? 'general',
+        isPublic: isPublic ?? true,
+        mentions: mentioned.map((user) => user.id),
+      },
+      include: kudosInclude,
+    });
+
+    const giverName = displayName(giver);
+    await this.notificationsService.notify(receiverId, {
+      type: 'ACHIEVEMENT',
+      title: 'You received kudos',
+      message: `${giverName}: ${message}`,
+      data: { kudosId: kudos.id, link: '/dashboard' },
+    });
+    await this.notificationsService.notify(kudos.mentions, {
+      type: 'MENTION',
+      title: 'You were mentioned in kudos',
+      message: `${giverName} mentioned you in kudos for ${displayName(kudos.receiver)}.`,
+      data: { kudosId: kudos.id, link: '/dashboard' },
+    });
+
+    this.logger.log(`Kudos given by ${giverId} to ${receiverId}`);
+    return kudos;
+  }
+
+  /** Public kudos of the user's organization, newest first */
+  async getFeed(userId: string, query: KudosFeedQuery = {}) {
+    const where = await this.buildScope(userId, query.teamId);
+    where.isPublic = true;
+
+    const take = Math.min(Math.max(query.take || 20, 1), 100);
+    const kudos = await this.prisma.kudos.findMany({
+      where,
+      include: kudosInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: take + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = kudos.length > take;
+    const data = hasMore ? kudos.slice(0, take) : kudos;
+    return {
+      data,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    };
+  }
+
+  /** Users who received the most kudos in the period, public or private */
+  async getLeaderboard(
+    userId: string,
+    period: LeaderboardPeriod = 'month',
+    teamId?: string,
+    now: Date = new Date(),
+  ) {
+    const where = await this.buildScope(userId, teamId);
+    const since = getPeriodStart(period, now);
+    if (since) {
+      where.createdAt = { gte: since };
+    }
+
+    const totals = await this.prisma.kudos.groupBy({
+      by: ['receiverId'],
+      where,
+      _count: { _all: true },
+      orderBy: [{ _count: { receiverId: 'desc' } }, { receiverId: 'asc' }],
+      take: LEADERBOARD_SIZE,
+    });
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: totals.map((total) => total.receiverId) } },
+      select: userSummarySelect,
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return {
+      period,
+      since,
+      entries: totals
+        .filter((total) => usersById.has(total.receiverId))
+        .map((total, index) => ({
+          rank: index + 1,
+          user: usersById.get(total.receiverId)!,
+          count: total._count._all,
+        })),
+    };
+  }
+
+  /** Kudos counts of the user and how many they can still give today */
+  async getSummary(userId: string) {
+    const [received, given, givenToday] = await Promise.all([
+      this.prisma.kudos.count({ where: { receiverId: userId } }),
+      this.prisma.kudos.count({ where: { giverId: userId } }),
+      this.prisma.kudos.count({
+        where: {
+          giverId: userId,
+          createdAt: { gte: startOfUtcDay(new Date()) },
+        },
+      }),
+    ]);
+    return {
+      received,
+      given,
+      dailyLimit: this.dailyLimit,
+      remainingToday: Math.max(this.dailyLimit - givenToday, 0),
+    };
+  }
+
+  async remove(id: string, userId: string) {
+    const kudos = await this.prisma.kudos.findFirst({
+      where: { id, giverId: userId },
+    });
+    if (!kudos) {
+      throw new NotFoundException(`Kudos with ID ${id} not found`);
+    }
+    await this.prisma.kudos.delete({ where: { id } });
+    return { message: 'Kudos deleted successfully' };
+  }
+
+  /**
+   * Restricts kudos to receivers of the user's organization and, when a team
+   * is given, to receivers who are active members of that team.
+   */
+  private async buildScope(
+    userId: string,
+    teamId?: string,
+  ): Promise<Prisma.KudosWhereInput> {
+    const user = await this.getUser(userId);
+    const receiver: Prisma.UserWhereInput = {
+      organizationId: user.organizationId,
+    };
+
+    if (teamId) {
+      const team = await this.prisma.team.findFirst({
+        where: { id: teamId, organizationId: user.organizationId ?? undefined },
+        select: { id: true },
+      });
+      if (!team) {
+        throw new NotFoundException(`Team with ID ${teamId} not found`);
+      }
+      receiver.teamMembers = { some: { teamId, isActive: true } };
+    }
+
+    return { receiver };
+  }
+
+  private async getUser(id: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        displayName: true,
+        organizationId: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  IsString,
+  IsNumber,
+  IsDateString,
+  IsOptional,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateLeaveRequestDto {
+  @ApiProperty({ description: 'Leave type ID' })
+  @IsUUID()
+  leaveTypeId: string;
+
+  @ApiProperty({ description: 'First day of leave' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day of leave (inclusive)' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of days requested (defaults to working days in range, use 0.5 steps for half days)',
+    example: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  days?: number;
+
+  @ApiPropertyOptional({ description: 'Reason for leave' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
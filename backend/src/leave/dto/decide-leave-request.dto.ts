@@ -0,0 +1,9 @@
+import { IsString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class DecideLeaveRequestDto {
+  @ApiPropertyOptional({ description: 'Approver comments' })
+  @IsOptional()
+  @IsString()
+  comments?: string;
+}
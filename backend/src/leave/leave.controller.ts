@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { LeaveStatus } from '@prisma/client';
+import { LeaveService } from './leave.service';
+import { CreateLeaveRequestDto } from './dto/create-leave-request.dto';
+import { DecideLeaveRequestDto } from './dto/decide-leave-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('leave')
+@ApiBearerAuth()
+@Controller('leave')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class LeaveController {
+  constructor(private readonly leaveService: LeaveService) {}
+
+  @Get('types')
+  @RequirePermissions('leave', 'read')
+  @ApiOperation({ summary: 'Get active leave types' })
+  @ApiResponse({ status: 200, description: 'Leave types retrieved' })
+  findLeaveTypes() {
+    return this.leaveService.findLeaveTypes();
+  }
+
+  @Get('balances')
+  @RequirePermissions('leave', 'read')
+  @ApiOperation({ summary: 'Get leave balances for the current user' })
+  @ApiQuery({ name: 'year', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Leave balances retrieved' })
+  getBalances(@Request() req, @Query('year') year?: string) {
+    return this.leaveService.getBalances(
+      req.user.id,
+      year ? Number(year) : undefined,
+    );
+  }
+
+  @Get('approvals/pending')
+  @RequirePermissions('leave', 'approve')
+  @ApiOperation({ summary: 'Get leave requests awaiting my approval' })
+  @ApiResponse({ status: 200, description: 'Pending approvals retrieved' })
+  findPendingApprovals(@Request() req) {
+    return this.leaveService.findPendingApprovals(req.user.id);
+  }
+
+  @Post('requests')
+  @RequirePermissions('leave', 'create')
+  @ApiOperation({ summary: 'Submit a leave request' })
+  @ApiResponse({ status: 201, description: 'Leave request submitted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid period, no manager assigned or insufficient balance',
+  })
+  create(@Body() createLeaveRequestDto: CreateLeaveRequestDto, @Request() req) {
+    return this.leaveService.create(createLeaveRequestDto, req.user.id);
+  }
+
+  @Get('requests')
+  @RequirePermissions('leave', 'read')
+  @ApiOperation({ summary: 'Get my leave requests' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'year', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Leave requests retrieved' })
+  findMine(
+    @Request() req,
+    @Query() query: { status?: LeaveStatus; year?: string },
+  ) {
+    return this.leaveService.findMine(req.user.id, query);
+  }
+
+  @Get('requests/:id')
+  @RequirePermissions('leave', 'read')
+  @ApiOperation({ summary: 'Get leave request by ID' })
+  @ApiResponse({ status: 200, description: 'Leave request retrieved' })
+  @ApiResponse({ status: 404, description: 'Leave request not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.leaveService.findOne(id, req.user.id);
+  }
+
+  @Post('requests/:id/cancel')
+  @RequirePermissions('leave', 'create')
+  @ApiOperation({ summary: 'Cancel my leave request' })
+  @ApiResponse({ status: 201, description: 'Leave request cancelled' })
+  @ApiResponse({ status: 404, description: 'Leave request not found' })
+  cancel(@Param('id') id: string, @Request() req) {
+    return this.leaveService.cancel(id, req.user.id);
+  }
+
+  @Post('requests/:id/approve')
+  @RequirePermissions('leave', 'approve')
+  @ApiOperation({ summary: 'Approve a leave request' })
+  @ApiResponse({ status: 201, description: 'Leave request approved' })
+  @ApiResponse({ status: 403, description: 'Not the assigned approver' })
+  approve(
+    @Param('id') id: string,
+    @Body() decideLeaveRequestDto: DecideLeaveRequestDto,
+    @Request() req,
+  ) {
+    return this.leaveService.approve(id, req.user.id, decideLeaveRequestDto);
+  }
+
+  @Post('requests/:id/reject')
+  @RequirePermissions('leave', 'approve')
+  @ApiOperation({ summary: 'Reject a leave request' })
+  @ApiResponse({ status: 201, description: 'Leave request rejected' })
+  @ApiResponse({ status: 403, description: 'Not the assigned approver' })
+  reject(
+    @Param('id') id: string,
+    @Body() decideLeaveRequestDto: DecideLeaveRequestDto,
+    @Request() req,
+  ) {
+    return this.leaveService.reject(id, req.user.id, decideLeaveRequestDto);
+  }
+}
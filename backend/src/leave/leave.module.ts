@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { LeaveController } from './leave.controller';
+import { LeaveService } from './leave.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [LeaveController],
+  providers: [LeaveService],
+  exports: [LeaveService],
+})
+export class LeaveModule {}
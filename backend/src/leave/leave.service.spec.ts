@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeaveService } from './leave.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('LeaveService', () => {
+  let service: LeaveService;
+
+  const mockPrismaService = {
+    leaveType: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    leaveRequest: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    leaveApproval: {
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const annualLeave = {
+    id: 'type-annual',
+    name: 'Annual Leave',
+    description: null,
+    maxDaysPerYear: 20,
+    isActive: true,
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaveService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LeaveService>(LeaveService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    // Monday 2024-03-04 to Friday 2024-03-08: 5 working days
+    const createDto = {
+      leaveTypeId: 'type-annual',
+      startDate: '2024-03-04',
+      endDate: '2024-03-10',
+      reason: 'Vacation',
+    };
+
+    it('should route the approval to the requester manager', async () => {
+      mockPrismaService.leaveType.findUnique.mockResolvedValue(annualLeave);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        managerId: 'manager-1',
+      });
+      mockPrismaService.leaveRequest.findFirst.mockResolvedValue(null);
+      mockPrismaService.leaveRequest.groupBy.mockResolvedValue([
+        { status: 'APPROVED', _sum: { days: 5 } },
+      ]);
+      mockPrismaService.leaveRequest.create.mockResolvedValue({ id: 'lr-1' });
+
+      await service.create(createDto, 'user-1');
+
+      expect(mockPrismaService.leaveRequest.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            userId: 'user-1',
+            days: 5,
+            approvals: { create: { approverId: 'manager-1' } },
+          }),
+        }),
+      );
+    });
+
+    it('should throw BadRequestException when user has no manager', async () => {
+      mockPrismaService.leaveType.findUnique.mockResolvedValue(annualLeave);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        managerId: null,
+      });
+
+      await expect(service.create(createDto, 'user-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.leaveRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when balance is insufficient', async () => {
+      mockPrismaService.leaveType.findUnique.mockResolvedValue(annualLeave);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        managerId: 'manager-1',
+      });
+      mockPrismaService.leaveRequest.findFirst.mockResolvedValue(null);
+      mockPrismaService.leaveRequest.groupBy.mockResolvedValue([
+        { status: 'APPROVED', _sum: { days: 14 } },
+        { status: 'PENDING', _sum: { days: 2 } },
+      ]);
+
+      await expect(service.create(createDto, 'user-1')).rejects.toThrow(
+        'Insufficient Annual Leave balance: 4 day(s) remaining',
+      );
+    });
+
+    it('should throw NotFoundException when leave type does not exist', async () => {
+      mockPrismaService.leaveType.findUnique.mockResolvedValue(null);
+
+      await expect(service.create(createDto, 'user-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('approve', () => {
+    it('should approve when called by the assigned approver', async () => {
+      mockPrismaService.leaveRequest.findUnique.mockResolvedValue({
+        id: 'lr-1',
+        status: 'PENDING',
+        approvals: [
+          { id: 'approval-1', approverId: 'manager-1', status: 'PENDING' },
+        ],
+      });
+      mockPrismaService.leaveRequest.update.mockResolvedValue({
+        id: 'lr-1',
+        status: 'APPROVED',
+      });
+
+      const result = await service.approve('lr-1', 'manager-1', {
+        comments: 'Enjoy',
+      });
+
+      expect(mockPrismaService.leaveApproval.update).toHaveBeenCalledWith({
+        where: { id: 'approval-1' },
+        data: expect.objectContaining({
+          status: 'APPROVED',
+          comments: 'Enjoy',
+        }),
+      });
+      expect(result.status).toBe('APPROVED');
+    });
+
+    it('should throw ForbiddenException for anyone else', async () => {
+      mockPrismaService.leaveRequest.findUnique.mockResolvedValue({
+        id: 'lr-1',
+        status: 'PENDING',
+        approvals: [
+          { id: 'approval-1', approverId: 'manager-1', status: 'PENDING' },
+        ],
+      });
+
+      await expect(service.reject('lr-1', 'user-2', {})).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('getBalances', () => {
+    it('should report unlimited leave types with a null remaining balance', async () => {
+      mockPrismaService.leaveType.findMany.mockResolvedValue([
+        { ...annualLeave, id: 'type-unpaid', maxDaysPerYear: null },
+      ]);
+      mockPrismaService.leaveRequest.groupBy.mockResolvedValue([
+        { status: 'APPROVED', _sum: { days: 3 } },
+      ]);
+
+      const [balance] = await service.getBalances('user-1', 2024);
+
+      expect(balance).toEqual(
+        expect.objectContaining({
+          year: 2024,
+          allowance: null,
+          used: 3,
+          pending: 0,
+          remaining: null,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { LeaveRequest, LeaveStatus, LeaveType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateLeaveRequestDto } from './dto/create-leave-request.dto';
+import { DecideLeaveRequestDto } from './dto/decide-leave-request.dto';
+
+export interface LeaveBalance {
+  leaveType: Pick<LeaveType, 'id' | 'name' | 'description' | 'maxDaysPerYear'>;
+  year: number;
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+const leaveRequestInclude = {
+  leaveType: true,
+  user: {
+    select: { id: true, displayName: true, email: true, managerId: true },
+  },
+  approvals: {
+    include: {
+      approver: { select: { id: true, displayName: true, email: true } },
+    },
+  },
+} satisfies Prisma.LeaveRequestInclude;
+
+@Injectable()
+export class LeaveService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findLeaveTypes(): Promise<LeaveType[]> {
+    return this.prisma.leaveType.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async create(
+    createLeaveRequestDto: CreateLeaveRequestDto,
+    userId: string,
+  ): Promise<LeaveRequest> {
+    const { leaveTypeId, reason } = createLeaveRequestDto;
+    const start = this.startOfDay(new Date(createLeaveRequestDto.startDate));
+    const end = this.startOfDay(new Date(createLeaveRequestDto.endDate));
+    if (end < start) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+    if (start.getUTCFullYear() !== end.getUTCFullYear()) {
+      throw new BadRequestException(
+        'Leave requests cannot span multiple calendar years',
+      );
+    }
+
+    const leaveType = await this.prisma.leaveType.findUnique({
+      where: { id: leaveTypeId },
+    });
+    if (!leaveType || leaveType.isActive === false) {
+      throw new NotFoundException('Leave type not found');
+    }
+
+    // Approvals are routed to the requester's manager
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, managerId: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (!user.managerId) {
+      throw new BadRequestException(
+        'You do not have a manager assigned to approve leave requests',
+      );
+    }
+
+    const workingDays = this.countWorkingDays(start, end);
+    if (workingDays === 0) {
+      throw new BadRequestException(
+        'Requested period does not contain any working days',
+      );
+    }
+    const days = createLeaveRequestDto.days ?? workingDays;
+    if (days > workingDays || (days * 2) % 1 !== 0) {
+      throw new BadRequestException(
+        `Requested days must be in half-day steps and at most ${workingDays}`,
+      );
+    }
+
+    const overlapping = await this.prisma.leaveRequest.findFirst({
+      where: {
+        userId,
+        status: { in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+        startDate: { lte: end },
+        endDate: { gte: start },
+      },
+    });
+    if (overlapping) {
+      throw new BadRequestException(
+        'Leave period overlaps with an existing leave request',
+      );
+    }
+
+    if (leaveType.maxDaysPerYear != null) {
+      const balance = await this.calculateBalance(
+        userId,
+        leaveType,
+        start.getUTCFullYear(),
+      );
+      if (days > (balance.remaining ?? 0)) {
+        throw new BadRequestException(
+          `Insufficient ${leaveType.name} balance: ${balance.remaining} day(s) remaining`,
+        );
+      }
+    }
+
+    return this.prisma.leaveRequest.create({
+      data: {
+        userId,
+        leaveTypeId,
+        startDate: start,
+        endDate: end,
+        days,
+        reason,
+        approvals: {
+          create: { approverId: user.managerId },
+        },
+      },
+      include: leaveRequestInclude,
+    });
+  }
+
+  async findMine(
+    userId: string,
+    query: { status?: LeaveStatus; year?: string },
+  ) {
+    const where: Prisma.LeaveRequestWhereInput = { userId };
+    if (query.status) where.status = query.status;
+    if (query.year) {
+      const year = Number(query.year);
+      where.startDate = {
+        gte: new Date(Date.UTC(year, 0, 1)),
+        lt: new Date(Date.UTC(year + 1, 0, 1)),
+      };
+    }
+
+    return this.prisma.leaveRequest.findMany({
+      where,
+      include: leaveRequestInclude,
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
+  async findPendingApprovals(approverId: string) {
+    return this.prisma.leaveRequest.findMany({
+      where: {
+        status: LeaveStatus.PENDING,
+        approvals: {
+          some: { approverId, status: LeaveStatus.PENDING },
+        },
+      },
+      include: leaveRequestInclude,
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  async findOne(id: string, userId: string) {
+    const leaveRequest = await this.prisma.leaveRequest.findFirst({
+      where: {
+        id,
+        OR: [{ userId }, { approvals: { some: { approverId: userId } } }],
+      },
+      include: leaveRequestInclude,
+    });
+    if (!leaveRequest) {
+      throw new NotFoundException('Leave request not found');
+    }
+    return leaveRequest;
+  }
+
+  async cancel(id: string, userId: string) {
+    const leaveRequest = await this.prisma.leaveRequest.findUnique({
+      where: { id },
+    });
+    if (!leaveRequest || leaveRequest.userId !== userId) {
+      throw new NotFoundException('Leave request not found');
+    }
+    if (
+      leaveRequest.status !== LeaveStatus.PENDING &&
+      leaveRequest.status !== LeaveStatus.APPROVED
+    ) {
+      throw new BadRequestException(
+        `Cannot cancel a leave request that is ${leaveRequest.status}`,
+      );
+    }
+    if (
+      leaveRequest.status === LeaveStatus.APPROVED &&
+      leaveRequest.startDate <= new Date()
+    ) {
+      throw new BadRequestException(
+        'Approved leave that has already started cannot be cancelled',
+      );
+    }
+
+    return this.prisma.$transaction(async (prisma) => {
+      await prisma.leaveApproval.updateMany({
+        where: { leaveRequestId: id, status: LeaveStatus.PENDING },
+        data: { status: LeaveStatus.CANCELLED, decidedAt: new Date() },
+      });
+      return prisma.leaveRequest.update({
+        where: { id },
+        data: { status: LeaveStatus.CANCELLED },
+        include: leaveRequestInclude,
+      });
+    });
+  }
+
+  async approve(
+    id: string,
+    approverId: string,
+    decideLeaveRequestDto: DecideLeaveRequestDto,
+  ) {
+    return this.decide(
+      id,
+      approverId,
+      LeaveStatus.APPROVED,
+      decideLeaveRequestDto.comments,
+    );
+  }
+
+  async reject(
+    id: string,
+    approverId: string,
+    decideLeaveRequestDto: DecideLeaveRequestDto,
+  ) {
+    return this.decide(
+      id,
+      approverId,
+      LeaveStatus.REJECTED,
+      decideLeaveRequestDto.comments,
+    );
+  }
+
+  async getBalances(userId: string, year?: number): Promise<LeaveBalance[]> {
+    const targetYear = year || new Date().getUTCFullYear();
+    const leaveTypes = await this.findLeaveTypes();
+
+    return Promise.all(
+      leaveTypes.map((leaveType) =>
+        this.calculateBalance(userId, leaveType, targetYear),
+      ),
+    );
+  }
+
+  private async decide(
+    id: string,
+    approverId: string,
+    status: typeof LeaveStatus.APPROVED | typeof LeaveStatus.REJECTED,
+    comments?: string,
+  ) {
+    const leaveRequest = await this.prisma.leaveRequest.findUnique({
+      where: { id },
+      include: { approvals: true },
+    });
+    if (!leaveRequest) {
+      throw new NotFoundException('Leave request not found');
+    }
+    if (leaveRequest.status !== LeaveStatus.PENDING) {
+      throw new BadRequestException(
+        `Leave request has already been ${leaveRequest.status?.toLowerCase()}`,
+      );
+    }
+
+    const approval = leaveRequest.approvals.find(
+      (a) => a.approverId === approverId && a.status === LeaveStatus.PENDING,
+    );
+    if (!approval) {
+      throw new ForbiddenException(
+        'You are not the approver for this leave request',
+      );
+    }
+
+    return this.prisma.$transaction(async (prisma) => {
+      await prisma.leaveApproval.update({
+        where: { id: approval.id },
+        data: { status, comments, decidedAt: new Date() },
+      });
+      return prisma.leaveRequest.update({
+        where: { id },
+        data: { status },
+        include: leaveRequestInclude,
+      });
+    });
+  }
+
+  private async calculateBalance(
+    userId: string,
+    leaveType: LeaveType,
+    year: number,
+  ): Promise<LeaveBalance> {
+    const yearRange = {
+      gte: new Date(Date.UTC(year, 0, 1)),
+      lt: new Date(Date.UTC(year + 1, 0, 1)),
+    };
+
+    const totals = await this.prisma.leaveRequest.groupBy({
+      by: ['status'],
+      where: {
+        userId,
+        leaveTypeId: leaveType.id,
+        startDate: yearRange,
+        status: { in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+      },
+      _sum: { days: true },
+    });
+
+    const sumFor = (status: LeaveStatus) =>
+      Number(totals.find((t) => t.status === status)?._sum.days ?? 0);
+    const used = sumFor(LeaveStatus.APPROVED);
+    const pending = sumFor(LeaveStatus.PENDING);
+    const allowance = leaveType.maxDaysPerYear ?? null;
+
+    return {
+      leaveType: {
+        id: leaveType.id,
+        name: leaveType.name,
+        description: leaveType.description,
+        maxDaysPerYear: leaveType.maxDaysPerYear,
+      },
+      year,
+      allowance,
+      used,
+      pending,
+      remaining:
+        allowance === null ? null : Math.max(allowance - used - pending, 0),
+    };
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  private countWorkingDays(start: Date, end: Date): number {
+    let count = 0;
+    const cursor = new Date(start);
+    while (cursor <= end) {
+      const day = cursor.getUTCDay();
+      if (day !== 0 && day !== 6) count++;
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return count;
+  }
+}
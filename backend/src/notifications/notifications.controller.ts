@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Param,
+  UseGuards,
+  Request,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Users only ever see their own notifications, so no permission is required
+@ApiTags('notifications')
+@ApiBearerAuth()
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my notifications with the unread count' })
+  @ApiQuery({ name: 'unreadOnly', required: false, type: Boolean })
+  @ApiQuery({ name: 'take', required: false })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiResponse({ status: 200, description: 'Notifications retrieved' })
+  findMine(
+    @Request() req,
+    @Query('unreadOnly') unreadOnly?: string,
+    @Query('take') take?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.notificationsService.findMine(req.user.id, {
+      unreadOnly: unreadOnly === 'true',
+      take: take ? Number(take) : undefined,
+      cursor: cursor || undefined,
+    });
+  }
+
+  @Patch('read-all')
+  @ApiOperation({ summary: 'Mark all my notifications as read' })
+  @ApiResponse({ status: 200, description: 'Notifications marked as read' })
+  markAllRead(@Request() req) {
+    return this.notificationsService.markAllRead(req.user.id);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  markRead(@Param('id') id: string, @Request() req) {
+    return this.notificationsService.markRead(id, req.user.id);
+  }
+}
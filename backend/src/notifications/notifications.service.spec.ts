@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { RealtimeService } from '../realtime/realtime.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+
+  const mockPrismaService = {
+    notification: {
+      createManyAndReturn: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockLoggerService = {
+    log: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const mockRealtimeService = {
+    emit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: RealtimeService, useValue: mockRealtimeService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('notify', () => {
+    const input = {
+      type: 'SYSTEM' as const,
+      title: 'Added to team',
+      message: 'You were added to the team "Core".',
+    };
+
+    it('should create one notification per distinct recipient', async () => {
+      const created = [
+        { id: 'n-1', userId: 'user-1', ...input },
+        { id: 'n-2', userId: 'user-2', ...input },
+      ];
+      mockPrismaService.notification.createManyAndReturn.mockResolvedValue(
+        created,
+      );
+
+      const count = await service.notify(['user-1', 'user-2', 'user-1'], input);
+
+      expect(count).toBe(2);
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user-1', ...input },
+          { userId: 'user-2', ...input },
+        ],
+      });
+    });
+
+    it('should push each notification to its recipient', async () => {
+      const created = { id: 'n-1', userId: 'user-1', ...input };
+      mockPrismaService.notification.createManyAndReturn.mockResolvedValue([
+        created,
+      ]);
+
+      await service.notify('user-1', input);
+
+      expect(mockRealtimeService.emit).toHaveBeenCalledWith(
+        'user-1',
+        'notification.created',
+        created,
+      );
+    });
+
+    it('should skip the query when there are no recipients', async () => {
+      const count = await service.notify([], input);
+
+      expect(count).toBe(0);
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should log instead of throwing when saving fails', async () => {
+      mockPrismaService.notification.createManyAndReturn.mockRejectedValue(
+        new Error('connection lost'),
+      );
+
+      await expect(service.notify('user-1', input)).resolves.toBe(0);
+      expect(mockLoggerService.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('findMine', () => {
+    it('should return a page with the unread count and next cursor', async () => {
+      const notifications = [{ id: 'n-2' }, { id: 'n-1' }];
+      mockPrismaService.notification.findMany.mockResolvedValue(notifications);
+      mockPrismaService.notification.count.mockResolvedValue(5);
+
+      const result = await service.findMine('user-1', { take: 2 });
+
+      expect(result).toEqual({
+        data: notifications,
+        unreadCount: 5,
+        nextCursor: 'n-1',
+      });
+      expect(mockPrismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'user-1' }),
+          take: 2,
+        }),
+      );
+    });
+
+    it('should only return unread notifications when asked', async () => {
+      mockPrismaService.notification.findMany.mockResolvedValue([]);
+      mockPrismaService.notification.count.mockResolvedValue(0);
+
+      const result = await service.findMine('user-1', {
+        unreadOnly: true,
+        cursor: 'n-9',
+      });
+
+      expect(result.nextCursor).toBeNull();
+      expect(mockPrismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ isRead: false }),
+          cursor: { id: 'n-9' },
+          skip: 1,
+        }),
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it("should throw NotFoundException for another user's notification", async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue(null);
+
+      await expect(service.markRead('n-1', 'user-2')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.notification.update).not.toHaveBeenCalled();
+    });
+
+    it('should set the read timestamp', async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue({
+        id: 'n-1',
+        isRead: false,
+      });
+      mockPrismaService.notification.update.mockResolvedValue({
+        id: 'n-1',
+        isRead: true,
+      });
+
+      await service.markRead('n-1', 'user-1');
+
+      expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'n-1' },
+        data: { isRead: true, readAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('markAllRead', () => {
+    it("should mark only the user's unread notifications", async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({
+        count: 3,
+      });
+
+      const result = await service.markAllRead('user-1');
+
+      expect(result).toEqual({ count: 3 });
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isRead: false },
+        data: { isRead: true, readAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Notification,
+  NotificationType,
+  Prisma,
+  Priority,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { RealtimeEvents, RealtimeService } from '../realtime/realtime.service';
+
+export interface CreateNotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  /** Extra context for the client, e.g. `link` to open on click */
+  data?: Prisma.InputJsonObject;
+  priority?: Priority;
+  channel?: string;
+  expiresAt?: Date;
+}
+
+export interface NotificationQuery {
+  unreadOnly?: boolean;
+  take?: number;
+  cursor?: string;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly realtimeService: RealtimeService,
+  ) {}
+
+  /**
+   * Sends a notification to each user. Failures are logged rather than thrown
+   * so that notifying never breaks the operation that triggered it.
+   */
+  async notify(
+    userIds: string | string[],
+    input: CreateNotificationInput,
+  ): Promise<number> {
+    const recipients = [
+      ...new Set(Array.isArray(userIds) ? userIds : [userIds]),
+    ].filter(Boolean);
+    if (recipients.length === 0) return 0;
+
+    try {
+      const notifications = await this.prisma.notification.createManyAndReturn({
+        data: recipients.map((userId) => ({ userId, ...input })),
+      });
+      for (const notification of notifications) {
+        this.realtimeService.emit(
+          notification.userId,
+          RealtimeEvents.NOTIFICATION_CREATED,
+          notification,
+        );
+      }
+      return notifications.length;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create ${input.type} notification`,
+        (error as Error).stack,
+        { recipients: recipients.length },
+      );
+      return 0;
+    }
+  }
+
+  async findMine(userId: string, query: NotificationQuery = {}) {
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    };
+
+    const take = Math.min(Math.max(query.take || 20, 1), 100);
+    const [data, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where: query.unreadOnly ? { ...where, isRead: false } : where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      }),
+      this.prisma.notification.count({ where: { ...where, isRead: false } }),
+    ]);
+
+    return {
+      data,
+      unreadCount,
+      nextCursor: data.length === take ? data[data.length - 1].id : null,
+    };
+  }
+
+  async markRead(id: string, userId: string): Promise<Notification> {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw new NotFoundException(`Notification with ID ${id} not found`);
+    }
+    if (notification.isRead) return notification;
+
+    return this.prisma.notification.update({
+      where: { id },
+      data: { isRead: true, readAt: new Date() },
+    });
+  }
+
+  async markAllRead(userId: string): Promise<{ count: number }> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true, readAt: new Date() },
+    });
+    return { count };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async removeExpired(now = new Date()): Promise<number> {
+    const { count } = await this.prisma.notification.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    if (count) {
+      this.logger.log(`Removed ${count} expired notifications`);
+    }
+    return count;
+  }
+}
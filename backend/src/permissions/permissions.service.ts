@@ -4,12 +4,16 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
 import { CreatePermissionDto } from './dto/create-permission.dto';
 import { UpdatePermissionDto } from './dto/update-permission.dto';
 
 @Injectable()
 export class PermissionsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionSnapshotService: PermissionSnapshotService,
+  ) {}
 
   async create(createPermissionDto: CreatePermissionDto) {
     const { resource, action } = createPermissionDto;
@@ -76,10 +80,14 @@ export class PermissionsService {
       }
     }
 
-    return this.prisma.permission.update({
+    const updated = await this.prisma.permission.update({
       where: { id },
       data: updatePermissionDto,
     });
+
+    // Snapshots name permissions by resource and action
+    await this.permissionSnapshotService.invalidateAll();
+    return updated;
   }
 
   async remove(id: string) {
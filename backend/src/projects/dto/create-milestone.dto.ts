@@ -0,0 +1,43 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsDateString,
+  IsNumber,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MilestoneStatus } from '@prisma/client';
+
+export class CreateMilestoneDto {
+  @ApiProperty({ example: 'Beta release' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'Planned delivery date' })
+  @IsDateString()
+  dueDate: string;
+
+  @ApiPropertyOptional({ enum: MilestoneStatus, default: 'PENDING' })
+  @IsOptional()
+  @IsEnum(MilestoneStatus)
+  status?: MilestoneStatus;
+
+  @ApiPropertyOptional({
+    description: 'Hours planned for the milestone, used by the burn-up chart',
+    example: 120,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  plannedHours?: number;
+}
@@ -7,6 +7,7 @@ import {
   IsBoolean,
   IsUUID,
   IsArray,
+  IsObject,
 } from 'class-validator';
 
 export enum ProjectStatus {
@@ -100,4 +101,8 @@ export class CreateProjectDto {
   @IsArray()
   @IsString({ each: true })
   sourceCategories?: string[];
+
+  @IsOptional()
+  @IsObject()
+  customFields?: Record<string, unknown>;
 }
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateMilestoneDto } from './create-milestone.dto';
+
+export class UpdateMilestoneDto extends PartialType(CreateMilestoneDto) {}
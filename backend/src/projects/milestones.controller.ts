@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { MilestonesService } from './milestones.service';
+import { CreateMilestoneDto } from './dto/create-milestone.dto';
+import { UpdateMilestoneDto } from './dto/update-milestone.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+// Milestones are part of the project, so they reuse the project permissions
+@ApiTags('projects')
+@ApiBearerAuth()
+@Controller('projects/:projectId/milestones')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class MilestonesController {
+  constructor(private readonly milestonesService: MilestonesService) {}
+
+  @Post()
+  @RequirePermissions('projects', 'update')
+  @ApiOperation({ summary: 'Add a milestone to a project' })
+  @ApiResponse({ status: 201, description: 'Milestone created' })
+  create(
+    @Param('projectId') projectId: string,
+    @Body() createMilestoneDto: CreateMilestoneDto,
+    @Request() req,
+  ) {
+    return this.milestonesService.create(
+      projectId,
+      createMilestoneDto,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @RequirePermissions('projects', 'read')
+  @ApiOperation({ summary: 'List project milestones with progress' })
+  @ApiResponse({ status: 200, description: 'Milestones retrieved' })
+  findAll(@Param('projectId') projectId: string, @Request() req) {
+    return this.milestonesService.findAll(projectId, req.user.id);
+  }
+
+  @Get(':id')
+  @RequirePermissions('projects', 'read')
+  @ApiOperation({ summary: 'Get a milestone with progress' })
+  @ApiResponse({ status: 404, description: 'Milestone not found' })
+  findOne(
+    @Param('projectId') projectId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ) {
+    return this.milestonesService.findOne(projectId, id, req.user.id);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('projects', 'update')
+  @ApiOperation({ summary: 'Update a milestone' })
+  @ApiResponse({ status: 200, description: 'Milestone updated' })
+  update(
+    @Param('projectId') projectId: string,
+    @Param('id') id: string,
+    @Body() updateMilestoneDto: UpdateMilestoneDto,
+    @Request() req,
+  ) {
+    return this.milestonesService.update(
+      projectId,
+      id,
+      updateMilestoneDto,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions('projects', 'update')
+  @ApiOperation({ summary: 'Delete a milestone' })
+  @ApiResponse({ status: 200, description: 'Milestone deleted' })
+  remove(
+    @Param('projectId') projectId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ) {
+    return this.milestonesService.remove(projectId, id, req.user.id);
+  }
+}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { MilestonesService } from './milestones.service';
+import { ProjectsService } from './projects.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('MilestonesService', () => {
+  let service: MilestonesService;
+
+  const mockPrismaService = {
+    milestone: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    workLog: {
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  };
+
+  const mockProjectsService = { findOne: jest.fn() };
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockLoggerService = { log: jest.fn(), error: jest.fn() };
+
+  const milestone = {
+    id: 'milestone-1',
+    projectId: 'project-1',
+    name: 'Beta release',
+    description: null,
+    dueDate: new Date('2030-03-01T00:00:00Z'),
+    status: 'IN_PROGRESS',
+    completedAt: null,
+    plannedHours: new Prisma.Decimal(40),
+    overdueNotifiedAt: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MilestonesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ProjectsService, useValue: mockProjectsService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<MilestonesService>(MilestonesService);
+    mockProjectsService.findOne.mockResolvedValue({ id: 'project-1' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should add logged hours and progress to each milestone', async () => {
+      mockPrismaService.milestone.findMany.mockResolvedValue([
+        milestone,
+        {
+          ...milestone,
+          id: 'milestone-2',
+          dueDate: new Date('2020-01-01T00:00:00Z'),
+          status: 'PENDING',
+          plannedHours: null,
+        },
+      ]);
+      mockPrismaService.workLog.groupBy.mockResolvedValue([
+        {
+          milestoneId: 'milestone-1',
+          _sum: { duration: 36000 },
+          _count: { _all: 4 },
+        },
+      ]);
+
+      const result = await service.findAll('project-1', 'user-1');
+
+      expect(mockProjectsService.findOne).toHaveBeenCalledWith(
+        'project-1',
+        'user-1',
+      );
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: 'milestone-1',
+          plannedHours: 40,
+          loggedHours: 10,
+          workLogCount: 4,
+          progress: 25,
+          isOverdue: false,
+        }),
+        expect.objectContaining({
+          id: 'milestone-2',
+          plannedHours: null,
+          loggedHours: 0,
+          workLogCount: 0,
+          progress: null,
+          isOverdue: true,
+        }),
+      ]);
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      mockPrismaService.milestone.findFirst.mockResolvedValue(milestone);
+      mockPrismaService.workLog.aggregate.mockResolvedValue({
+        _sum: { duration: null },
+        _count: { _all: 0 },
+      });
+    });
+
+    it('should record when a milestone is completed', async () => {
+      await service.update(
+        'project-1',
+        'milestone-1',
+        { status: 'COMPLETED' },
+        'user-1',
+      );
+
+      expect(mockPrismaService.milestone.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reset the overdue reminder when the due date moves', async () => {
+      await service.update(
+        'project-1',
+        'milestone-1',
+        { dueDate: '2030-04-01T00:00:00Z' },
+        'user-1',
+      );
+
+      expect(mockPrismaService.milestone.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: {
+          dueDate: new Date('2030-04-01T00:00:00Z'),
+          overdueNotifiedAt: null,
+        },
+      });
+    });
+
+    it('should reject milestones of another project', async () => {
+      mockPrismaService.milestone.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.update('project-2', 'milestone-1', { name: 'GA' }, 'user-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.milestone.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyOverdueMilestones', () => {
+    it('should notify the project once and mark the milestone', async () => {
+      const now = new Date('2030-03-02T00:00:00Z');
+      mockPrismaService.milestone.findMany.mockResolvedValue([
+        {
+          ...milestone,
+          project: {
+            id: 'project-1',
+            name: 'Platform',
+            ownerId: 'owner-1',
+            members: [{ userId: 'user-1' }, { userId: 'owner-1' }],
+          },
+        },
+      ]);
+
+      const notified = await service.notifyOverdueMilestones(now);
+
+      expect(notified).toBe(1);
+      expect(mockPrismaService.milestone.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            dueDate: { lt: now },
+            overdueNotifiedAt: null,
+          }),
+        }),
+      );
+      expect(mockNotificationsService.notify).toHaveBeenCalledWith(
+        ['owner-1', 'user-1', 'owner-1'],
+        expect.objectContaining({
+          title: 'Milestone overdue',
+          message: '"Beta release" in Platform was due on 2030-03-01.',
+        }),
+      );
+      expect(mockPrismaService.milestone.update).toHaveBeenCalledWith({
+        where: { id: 'milestone-1' },
+        data: { overdueNotifiedAt: now },
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Milestone, MilestoneStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ProjectsService } from './projects.service';
+import { CreateMilestoneDto } from './dto/create-milestone.dto';
+import { UpdateMilestoneDto } from './dto/update-milestone.dto';
+
+/** Statuses that still count towards delivery and can become overdue */
+export const OPEN_MILESTONE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.PENDING,
+  MilestoneStatus.IN_PROGRESS,
+];
+
+export interface MilestoneProgress extends Omit<Milestone, 'plannedHours'> {
+  plannedHours: number | null;
+  loggedHours: number;
+  workLogCount: number;
+  /** Logged hours as a percentage of planned hours, capped at 100 */
+  progress: number | null;
+  isOverdue: boolean;
+}
+
+const toHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+export const isMilestoneOverdue = (
+  milestone: Pick<Milestone, 'dueDate' | 'status'>,
+  now: Date = new Date(),
+) =>
+  milestone.dueDate < now &&
+  OPEN_MILESTONE_STATUSES.includes(milestone.status ?? MilestoneStatus.PENDING);
+
+@Injectable()
+export class MilestonesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly projectsService: ProjectsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async findAll(
+    projectId: string,
+    userId: string,
+  ): Promise<MilestoneProgress[]> {
+    await this.projectsService.findOne(projectId, userId); // Permission check
+    const milestones = await this.prisma.milestone.findMany({
+      where: { projectId },
+      orderBy: { dueDate: 'asc' },
+    });
+    if (milestones.length === 0) return [];
+
+    const totals = await this.prisma.workLog.groupBy({
+      by: ['milestoneId'],
+      where: { milestoneId: { in: milestones.map((m) => m.id) } },
+      _sum: { duration: true },
+      _count: { _all: true },
+    });
+    const byMilestone = new Map(totals.map((t) => [t.milestoneId, t]));
+
+    return milestones.map((milestone) => {
+      const total = byMilestone.get(milestone.id);
+      return this.withProgress(
+        milestone,
+        total?._sum.duration ?? 0,
+        total?._count._all ?? 0,
+      );
+    });
+  }
+
+  async findOne(
+    projectId: string,
+    id: string,
+    userId: string,
+  ): Promise<MilestoneProgress> {
+    await this.projectsService.findOne(projectId, userId); // Permission check
+    const milestone = await this.getMilestone(projectId, id);
+    const total = await this.prisma.workLog.aggregate({
+      where: { milestoneId: id },
+      _sum: { duration: true },
+      _count: { _all: true },
+    });
+    return this.withProgress(
+      milestone,
+      total._sum.duration ?? 0,
+      total._count._all,
+    );
+  }
+
+  async create(
+    projectId: string,
+    createMilestoneDto: CreateMilestoneDto,
+    userId: string,
+  ): Promise<MilestoneProgress> {
+    await this.projectsService.findOne(projectId, userId); // Permission check
+    const status = createMilestoneDto.status ?? MilestoneStatus.PENDING;
+
+    const milestone = await this.prisma.milestone.create({
+      data: {
+        ...createMilestoneDto,
+        projectId,
+        status,
+        dueDate: new Date(createMilestoneDto.dueDate),
+        completedAt: status === MilestoneStatus.COMPLETED ? new Date() : null,
+      },
+    });
+    return this.withProgress(milestone, 0, 0);
+  }
+
+  async update(
+    projectId: string,
+    id: string,
+    updateMilestoneDto: UpdateMilestoneDto,
+    userId: string,
+  ): Promise<MilestoneProgress> {
+    await this.projectsService.findOne(projectId, userId); // Permission check
+    const milestone = await this.getMilestone(projectId, id);
+    const data: Prisma.MilestoneUpdateInput = { ...updateMilestoneDto };
+
+    if (updateMilestoneDto.dueDate) {
+      data.dueDate = new Date(updateMilestoneDto.dueDate);
+      // A new due date gets a fresh overdue reminder
+      data.overdueNotifiedAt = null;
+    }
+    if (
+      updateMilestoneDto.status &&
+      updateMilestoneDto.status !== milestone.status
+    ) {
+      data.completedAt =
+        updateMilestoneDto.status === MilestoneStatus.COMPLETED
+          ? new Date()
+          : null;
+    }
+
+    await this.prisma.milestone.update({ where: { id }, data });
+    return this.findOne(projectId, id, userId);
+  }
+
+  async remove(
+    projectId: string,
+    id: string,
+    userId: string,
+  ): Promise<{ message: string }> {
+    await this.projectsService.findOne(projectId, userId); // Permission check
+    await this.getMilestone(projectId, id);
+    // Linked work logs keep their time and lose the milestone link
+    await this.prisma.milestone.delete({ where: { id } });
+    return { message: 'Milestone deleted successfully' };
+  }
+
+  /**
+   * Notifies the project owner and members once about each open milestone
+   * that passed its due date.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async notifyOverdueMilestones(now: Date = new Date()): Promise<number> {
+    const overdue = await this.prisma.milestone.findMany({
+      where: {
+        dueDate: { lt: now },
+        status: { in: OPEN_MILESTONE_STATUSES },
+        overdueNotifiedAt: null,
+        project: { isActive: true },
+      },
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+            ownerId: true,
+            members: { where: { isActive: true }, select: { userId: true } },
+          },
+        },
+      },
+    });
+
+    for (const milestone of overdue) {
+      const { project } = milestone;
+      await this.notificationsService.notify(
+        [project.ownerId, ...project.members.map((m) => m.userId)],
+        {
+          type: 'PROJECT_UPDATE',
+          title: 'Milestone overdue',
+          message: `"${milestone.name}" in ${project.name} was due on ${milestone.dueDate.toISOString().slice(0, 10)}.`,
+          data: {
+            projectId: project.id,
+            milestoneId: milestone.id,
+            link: '/dashboard/projects',
+          },
+        },
+      );
+      await this.prisma.milestone.update({
+        where: { id: milestone.id },
+        data: { overdueNotifiedAt: now },
+      });
+    }
+
+    if (overdue.length > 0) {
+      this.logger.log(`Notified ${overdue.length} overdue milestones`);
+    }
+    return overdue.length;
+  }
+
+  private async getMilestone(projectId: string, id: string) {
+    const milestone = await this.prisma.milestone.findFirst({
+      where: { id, projectId },
+    });
+    if (!milestone) {
+      throw new NotFoundException(`Milestone with ID ${id} not found`);
+    }
+    return milestone;
+  }
+
+  private withProgress(
+    milestone: Milestone,
+    loggedSeconds: number,
+    workLogCount: number,
+  ): MilestoneProgress {
+    const planned =
+      milestone.plannedHours === null ? null : Number(milestone.plannedHours);
+    const loggedHours = toHours(loggedSeconds);
+
+    return {
+      ...milestone,
+      plannedHours: planned,
+      loggedHours,
+      workLogCount,
+      progress:
+        planned && planned > 0
+          ? Math.min(100, Math.round((loggedHours / planned) * 100))
+          : milestone.status === MilestoneStatus.COMPLETED
+            ? 100
+            : null,
+      isOverdue: isMilestoneOverdue(milestone),
+    };
+  }
+}
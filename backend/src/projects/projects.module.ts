@@ -1,13 +1,17 @@
 import { Module } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
+import { MilestonesService } from './milestones.service';
+import { MilestonesController } from './milestones.controller';
 import { PrismaService } from '../prisma/prisma.service';
 import { CommonModule } from '../common/common.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
 
 @Module({
-  imports: [CommonModule],
-  controllers: [ProjectsController],
-  providers: [ProjectsService, PrismaService],
-  exports: [ProjectsService],
+  imports: [CommonModule, NotificationsModule, CustomFieldsModule],
+  controllers: [ProjectsController, MilestonesController],
+  providers: [ProjectsService, MilestonesService, PrismaService],
+  exports: [ProjectsService, MilestonesService],
 })
 export class ProjectsModule {}
@@ -8,12 +8,21 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { DataScopeService } from '../common/services/data-scope.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  CUSTOM_FIELDS_KEY,
+  CustomFieldsService,
+} from '../custom-fields/custom-fields.service';
 
 @Injectable()
 export class ProjectsService {
   constructor(
     private prisma: PrismaService,
     private dataScopeService: DataScopeService,
+    private notificationsService: NotificationsService,
+    private customFieldsService: CustomFieldsService,
+    private permissionSnapshotService: PermissionSnapshotService,
   ) {}
 
   async create(
@@ -26,11 +35,17 @@ export class ProjectsService {
         'User must belong to an organization to create a project.',
       );
     }
-    const { teamIds, ...projectData } = createProjectDto;
+    const { teamIds, customFields, ...projectData } = createProjectDto;
+    const values = await this.customFieldsService.validateValues(
+      user.organizationId,
+      'project',
+      customFields,
+    );
 
     const project = await this.prisma.project.create({
       data: {
         ...projectData,
+        settings: { [CUSTOM_FIELDS_KEY]: values as Prisma.InputJsonObject },
         organizationId: user.organizationId,
         ownerId: userId,
         code:
@@ -46,12 +61,29 @@ export class ProjectsService {
           teamId,
         })),
       });
+      await this.permissionSnapshotService.invalidateTeams(teamIds);
+      await this.notifyAssignedTeams(project, teamIds, userId);
     }
 
     return project;
   }
 
   async findAll(userId: string): Promise<Project[]> {
+    const finalWhere = await this.buildWhere(userId);
+
+    return this.prisma.project.findMany({
+      where: finalWhere,
+      include: {
+        owner: true,
+        organization: true,
+        teams: { include: { team: { include: { leader: true } } } },
+        members: { include: { user: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async buildWhere(userId: string): Promise<Prisma.ProjectWhereInput> {
     const whereScope = await this.dataScopeService.getAccessScopeWhereClause(
       userId,
       'project',
@@ -64,21 +96,10 @@ export class ProjectsService {
       ],
     };
 
-    const finalWhere: Prisma.ProjectWhereInput = {
+    return {
       OR: [whereScope, userOwnedOrMemberProjects],
       AND: [{ isActive: true }],
     };
-
-    return this.prisma.project.findMany({
-      where: finalWhere,
-      include: {
-        owner: true,
-        organization: true,
-        teams: { include: { team: { include: { leader: true } } } },
-        members: { include: { user: true } },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
   }
 
   async findOne(id: string, userId: string): Promise<Project> {
@@ -114,12 +135,25 @@ export class ProjectsService {
     updateProjectDto: UpdateProjectDto,
     userId: string,
   ): Promise<Project> {
-    await this.findOne(id, userId); // Permission check
-    const { teamIds, ...projectData } = updateProjectDto;
+    const project = await this.findOne(id, userId); // Permission check
+    const { teamIds, customFields, ...projectData } = updateProjectDto;
+
+    let settings: Prisma.InputJsonObject | undefined;
+    if (customFields) {
+      settings = {
+        ...(project.settings as Prisma.JsonObject | null),
+        [CUSTOM_FIELDS_KEY]: (await this.customFieldsService.validateValues(
+          project.organizationId,
+          'project',
+          customFields,
+          this.customFieldsService.readValues(project.settings),
+        )) as Prisma.InputJsonObject,
+      };
+    }
 
     return this.prisma.project.update({
       where: { id },
-      data: projectData,
+      data: { ...projectData, ...(settings && { settings }) },
     });
   }
 
@@ -134,6 +168,26 @@ export class ProjectsService {
     return { message: 'Project deleted successfully' };
   }
 
+  private async notifyAssignedTeams(
+    project: Project,
+    teamIds: string[],
+    assignedBy: string,
+  ): Promise<void> {
+    const members = await this.prisma.teamMember.findMany({
+      where: { teamId: { in: teamIds }, isActive: true },
+      select: { userId: true },
+    });
+    await this.notificationsService.notify(
+      members.map((m) => m.userId).filter((id) => id !== assignedBy),
+      {
+        type: 'PROJECT_UPDATE',
+        title: 'Assigned to project',
+        message: `Your team was assigned to the project "${project.name}".`,
+        data: { projectId: project.id, link: '/dashboard/projects' },
+      },
+    );
+  }
+
   private generateProjectCode(name: string): string {
     const code = name
       .toUpperCase()
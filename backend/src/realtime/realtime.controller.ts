@@ -0,0 +1,33 @@
+import {
+  Controller,
+  MessageEvent,
+  Request,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('realtime')
+@ApiBearerAuth()
+@Controller('realtime')
+@UseGuards(JwtAuthGuard)
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream live timer, notification and approval events',
+  })
+  @ApiResponse({ status: 200, description: 'Server-sent event stream' })
+  events(@Request() req): Observable<MessageEvent> {
+    return this.realtimeService.stream(req.user.id, req.user.sessionId);
+  }
+}
@@ -0,0 +1,91 @@
+import { MessageEvent } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { RealtimeEvents, RealtimeService } from './realtime.service';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let subscriptions: Subscription[];
+
+  const collect = (userId: string, sessionId = `session-${userId}`) => {
+    const received: MessageEvent[] = [];
+    subscriptions.push(
+      service
+        .stream(userId, sessionId)
+        .subscribe((event) => received.push(event)),
+    );
+    return received;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new RealtimeService();
+    subscriptions = [];
+  });
+
+  afterEach(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should open each stream with a connected event', () => {
+    const received = collect('user-1');
+
+    expect(received).toEqual([
+      expect.objectContaining({
+        type: 'connected',
+        data: { userId: 'user-1' },
+      }),
+    ]);
+  });
+
+  it('should only deliver events to the affected users', () => {
+    const first = collect('user-1');
+    const firstOtherTab = collect('user-1');
+    const second = collect('user-2');
+
+    service.emit('user-1', RealtimeEvents.TIME_SESSION_UPDATED, {
+      action: 'paused',
+    });
+
+    const expected = {
+      type: 'time-session.updated',
+      data: { action: 'paused' },
+    };
+    expect(first).toContainEqual(expected);
+    expect(firstOtherTab).toContainEqual(expected);
+    expect(second).not.toContainEqual(expected);
+  });
+
+  it('should deliver once per distinct recipient', () => {
+    const received = collect('user-1');
+
+    service.emit(['user-1', 'user-1'], RealtimeEvents.WORK_LOG_APPROVED, {
+      workLogId: 'log-1',
+    });
+
+    expect(
+      received.filter((event) => event.type === 'work-log.approved'),
+    ).toHaveLength(1);
+  });
+
+  it('should send heartbeats to keep idle streams open', () => {
+    const received = collect('user-1');
+
+    jest.advanceTimersByTime(25 * 1000);
+
+    expect(received).toContainEqual({ type: 'heartbeat', data: {} });
+  });
+
+  it('should close the streams of revoked sessions', () => {
+    collect('user-1', 'session-1');
+    collect('user-1', 'session-2');
+
+    service.endSessions(['session-1']);
+
+    expect(subscriptions.map((subscription) => subscription.closed)).toEqual([
+      true,
+      false,
+    ]);
+  });
+});
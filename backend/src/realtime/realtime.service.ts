@@ -0,0 +1,84 @@
+import { Injectable, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  filter,
+  interval,
+  map,
+  merge,
+  of,
+  takeUntil,
+} from 'rxjs';
+
+export const RealtimeEvents = {
+  TIME_SESSION_UPDATED: 'time-session.updated',
+  NOTIFICATION_CREATED: 'notification.created',
+  WORK_LOG_APPROVED: 'work-log.approved',
+} as const;
+
+export type RealtimeEventType =
+  (typeof RealtimeEvents)[keyof typeof RealtimeEvents];
+
+interface UserEvent {
+  userId: string;
+  type: RealtimeEventType;
+  data: object;
+}
+
+// Keeps idle connections open through proxies that drop silent streams
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * Fans out events to every open stream of the affected users. Streams live in
+ * this process only, so each API instance serves the clients connected to it.
+ * Each stream belongs to the login session it was opened with and ends when
+ * that session is revoked.
+ */
+@Injectable()
+export class RealtimeService implements OnModuleDestroy {
+  private readonly events$ = new Subject<UserEvent>();
+  private readonly endedSessions$ = new Subject<string>();
+
+  stream(userId: string, sessionId: string): Observable<MessageEvent> {
+    return merge(
+      of<MessageEvent>({
+        type: 'connected',
+        data: { userId },
+        retry: RECONNECT_DELAY_MS,
+      }),
+      this.events$.pipe(
+        filter((event) => event.userId === userId),
+        map(({ type, data }): MessageEvent => ({ type, data })),
+      ),
+      interval(HEARTBEAT_INTERVAL_MS).pipe(
+        map((): MessageEvent => ({ type: 'heartbeat', data: {} })),
+      ),
+    ).pipe(
+      takeUntil(this.endedSessions$.pipe(filter((id) => id === sessionId))),
+    );
+  }
+
+  /** Closes the streams opened with the given login sessions */
+  endSessions(sessionIds: string[]): void {
+    for (const sessionId of new Set(sessionIds)) {
+      this.endedSessions$.next(sessionId);
+    }
+  }
+
+  emit(
+    userIds: string | string[],
+    type: RealtimeEventType,
+    data: object,
+  ): void {
+    const recipients = new Set(Array.isArray(userIds) ? userIds : [userIds]);
+    for (const userId of recipients) {
+      if (userId) this.events$.next({ userId, type, data });
+    }
+  }
+
+  onModuleDestroy() {
+    this.events$.complete();
+    this.endedSessions$.complete();
+  }
+}
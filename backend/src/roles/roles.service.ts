@@ -4,13 +4,17 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
 import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 import { AssignPermissionsDto } from './dto/assign-permissions.dto';
 
 @Injectable()
 export class RolesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private permissionSnapshotService: PermissionSnapshotService,
+  ) {}
 
   async create(createRoleDto: CreateRoleDto) {
     const { permissions, level, ...roleData } = createRoleDto;
@@ -89,6 +93,9 @@ export class RolesService {
       }
     }
 
+    // Any user can hold the role, so every permission snapshot is stale
+    await this.permissionSnapshotService.invalidateAll();
+
     return this.findOne(id, true);
   }
 
@@ -142,6 +149,7 @@ export class RolesService {
 
     // Assign new permissions
     await this.assignPermissionsToRole(id, permissionIds);
+    await this.permissionSnapshotService.invalidateAll();
 
     return this.getRolePermissions(id);
   }
@@ -0,0 +1,33 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateShiftScheduleDto {
+  @ApiProperty({ description: 'Team ID' })
+  @IsUUID()
+  teamId: string;
+
+  @ApiProperty({ description: 'Schedule name', example: 'Support rota Q1' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Schedule description' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'First day covered by the schedule' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({ description: 'Last day covered by the schedule' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
@@ -0,0 +1,45 @@
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  IsInt,
+  Matches,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateShiftDto {
+  @ApiProperty({ description: 'Assigned user ID' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ description: 'Shift date', example: '2024-03-04' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ description: 'Start time (HH:mm, UTC)', example: '09:00' })
+  @Matches(TIME_PATTERN, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({
+    description:
+      'End time (HH:mm, UTC); earlier than start for overnight shifts',
+    example: '17:00',
+  })
+  @Matches(TIME_PATTERN, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+
+  @ApiPropertyOptional({ description: 'Unpaid break in minutes' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  breakMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Notes for the assignee' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateShiftScheduleDto } from './create-shift-schedule.dto';
+
+export class UpdateShiftScheduleDto extends PartialType(
+  OmitType(CreateShiftScheduleDto, ['teamId'] as const),
+) {}
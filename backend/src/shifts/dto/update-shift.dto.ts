@@ -0,0 +1,13 @@
+import { OmitType, PartialType, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { ShiftStatus } from '@prisma/client';
+import { CreateShiftDto } from './create-shift.dto';
+
+export class UpdateShiftDto extends PartialType(
+  OmitType(CreateShiftDto, ['userId'] as const),
+) {
+  @ApiPropertyOptional({ enum: ShiftStatus, description: 'Shift status' })
+  @IsOptional()
+  @IsEnum(ShiftStatus)
+  status?: ShiftStatus;
+}
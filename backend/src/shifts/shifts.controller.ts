@@ -0,0 +1,169 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ShiftsService } from './shifts.service';
+import { CreateShiftScheduleDto } from './dto/create-shift-schedule.dto';
+import { UpdateShiftScheduleDto } from './dto/update-shift-schedule.dto';
+import { CreateShiftDto } from './dto/create-shift.dto';
+import { UpdateShiftDto } from './dto/update-shift.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('shifts')
+@ApiBearerAuth()
+@Controller('shifts')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class ShiftsController {
+  constructor(private readonly shiftsService: ShiftsService) {}
+
+  @Post('schedules')
+  @RequirePermissions('shifts', 'create')
+  @ApiOperation({ summary: 'Create a shift schedule for a team' })
+  @ApiResponse({ status: 201, description: 'Shift schedule created' })
+  @ApiResponse({ status: 403, description: 'Not a lead of this team' })
+  createSchedule(
+    @Body() createShiftScheduleDto: CreateShiftScheduleDto,
+    @Request() req,
+  ) {
+    return this.shiftsService.createSchedule(
+      createShiftScheduleDto,
+      req.user.id,
+    );
+  }
+
+  @Get('schedules')
+  @RequirePermissions('shifts', 'read')
+  @ApiOperation({ summary: 'Get shift schedules for a team' })
+  @ApiQuery({ name: 'teamId', required: true })
+  @ApiResponse({ status: 200, description: 'Shift schedules retrieved' })
+  findSchedules(@Query('teamId') teamId: string, @Request() req) {
+    return this.shiftsService.findSchedules(teamId, req.user.id);
+  }
+
+  @Patch('schedules/:id')
+  @RequirePermissions('shifts', 'update')
+  @ApiOperation({ summary: 'Update a shift schedule' })
+  @ApiResponse({ status: 200, description: 'Shift schedule updated' })
+  @ApiResponse({ status: 404, description: 'Shift schedule not found' })
+  updateSchedule(
+    @Param('id') id: string,
+    @Body() updateShiftScheduleDto: UpdateShiftScheduleDto,
+    @Request() req,
+  ) {
+    return this.shiftsService.updateSchedule(
+      id,
+      updateShiftScheduleDto,
+      req.user.id,
+    );
+  }
+
+  @Delete('schedules/:id')
+  @RequirePermissions('shifts', 'delete')
+  @ApiOperation({ summary: 'Delete a shift schedule' })
+  @ApiResponse({ status: 200, description: 'Shift schedule deleted' })
+  @ApiResponse({ status: 404, description: 'Shift schedule not found' })
+  removeSchedule(@Param('id') id: string, @Request() req) {
+    return this.shiftsService.removeSchedule(id, req.user.id);
+  }
+
+  @Post('schedules/:id/shifts')
+  @RequirePermissions('shifts', 'create')
+  @ApiOperation({ summary: 'Assign a shift to a team member' })
+  @ApiResponse({ status: 201, description: 'Shift assigned' })
+  @ApiResponse({
+    status: 409,
+    description: 'User already has a shift on this day in this schedule',
+  })
+  assignShift(
+    @Param('id') scheduleId: string,
+    @Body() createShiftDto: CreateShiftDto,
+    @Request() req,
+  ) {
+    return this.shiftsService.assignShift(
+      scheduleId,
+      createShiftDto,
+      req.user.id,
+    );
+  }
+
+  @Get('mine')
+  @RequirePermissions('shifts', 'read')
+  @ApiOperation({ summary: 'Get my upcoming shifts' })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiResponse({ status: 200, description: 'Shifts retrieved' })
+  findMyShifts(
+    @Request() req,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.shiftsService.findMyShifts(req.user.id, from, to);
+  }
+
+  @Get('teams/:teamId/roster')
+  @RequirePermissions('shifts', 'read')
+  @ApiOperation({ summary: 'Get the weekly roster for a team' })
+  @ApiQuery({
+    name: 'weekStart',
+    required: false,
+    description: 'Any date in the requested week (defaults to this week)',
+  })
+  @ApiResponse({ status: 200, description: 'Roster retrieved' })
+  getRoster(
+    @Param('teamId') teamId: string,
+    @Request() req,
+    @Query('weekStart') weekStart?: string,
+  ) {
+    return this.shiftsService.getRoster(teamId, req.user.id, weekStart);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('shifts', 'update')
+  @ApiOperation({ summary: 'Update a shift' })
+  @ApiResponse({ status: 200, description: 'Shift updated' })
+  @ApiResponse({ status: 404, description: 'Shift not found' })
+  updateShift(
+    @Param('id') id: string,
+    @Body() updateShiftDto: UpdateShiftDto,
+    @Request() req,
+  ) {
+    return this.shiftsService.updateShift(id, updateShiftDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('shifts', 'delete')
+  @ApiOperation({ summary: 'Delete a shift' })
+  @ApiResponse({ status: 200, description: 'Shift deleted' })
+  @ApiResponse({ status: 404, description: 'Shift not found' })
+  removeShift(@Param('id') id: string, @Request() req) {
+    return this.shiftsService.removeShift(id, req.user.id);
+  }
+
+  @Post(':id/confirm')
+  @RequirePermissions('shifts', 'read')
+  @ApiOperation({ summary: 'Confirm one of my shifts' })
+  @ApiResponse({ status: 201, description: 'Shift confirmed' })
+  @ApiResponse({ status: 404, description: 'Shift not found' })
+  confirmShift(@Param('id') id: string, @Request() req) {
+    return this.shiftsService.confirmShift(id, req.user.id);
+  }
+}
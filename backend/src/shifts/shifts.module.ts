@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ShiftsController } from './shifts.controller';
+import { ShiftsService } from './shifts.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [ShiftsController],
+  providers: [ShiftsService],
+  exports: [ShiftsService],
+})
+export class ShiftsModule {}
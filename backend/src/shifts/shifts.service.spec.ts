@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ShiftsService } from './shifts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+
+describe('ShiftsService', () => {
+  let service: ShiftsService;
+
+  const mockPrismaService = {
+    team: {
+      findFirst: jest.fn(),
+    },
+    teamMember: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    userRole: {
+      findFirst: jest.fn(),
+    },
+    shiftSchedule: {
+      findUnique: jest.fn(),
+    },
+    shift: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    timeSession: {
+      count: jest.fn(),
+    },
+  };
+
+  const mockLoggerService = {
+    log: jest.fn(),
+  };
+
+  const schedule = {
+    id: 'schedule-1',
+    teamId: 'team-1',
+    startDate: new Date('2024-03-01T00:00:00Z'),
+    endDate: new Date('2024-03-31T00:00:00Z'),
+    isActive: true,
+  };
+
+  const createShiftDto = {
+    userId: 'user-2',
+    date: '2024-03-04',
+    startTime: '09:00',
+    endTime: '17:00',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShiftsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: LoggerService,
+          useValue: mockLoggerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShiftsService>(ShiftsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assignShift', () => {
+    beforeEach(() => {
+      mockPrismaService.shiftSchedule.findUnique.mockResolvedValue(schedule);
+      mockPrismaService.team.findFirst.mockResolvedValue({
+        id: 'team-1',
+        leaderId: 'lead-1',
+      });
+    });
+
+    it('should assign a shift when called by the team leader', async () => {
+      mockPrismaService.teamMember.findFirst.mockResolvedValue({ id: 'tm-1' });
+      mockPrismaService.shift.findUnique.mockResolvedValue(null);
+      mockPrismaService.shift.create.mockResolvedValue({ id: 'shift-1' });
+
+      await service.assignShift('schedule-1', createShiftDto, 'lead-1');
+
+      expect(mockPrismaService.shift.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            scheduleId: 'schedule-1',
+            userId: 'user-2',
+            date: new Date('2024-03-04T00:00:00Z'),
+            startTime: new Date('1970-01-01T09:00:00Z'),
+            endTime: new Date('1970-01-01T17:00:00Z'),
+          }),
+        }),
+      );
+    });
+
+    it('should throw ForbiddenException for non-leads', async () => {
+      mockPrismaService.teamMember.findFirst.mockResolvedValue(null);
+      mockPrismaService.userRole.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.assignShift('schedule-1', createShiftDto, 'user-3'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw ConflictException when the user already has a shift that day', async () => {
+      mockPrismaService.teamMember.findFirst.mockResolvedValue({ id: 'tm-1' });
+      mockPrismaService.shift.findUnique.mockResolvedValue({ id: 'shift-0' });
+
+      await expect(
+        service.assignShift('schedule-1', createShiftDto, 'lead-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.shift.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject dates outside the schedule period', async () => {
+      mockPrismaService.teamMember.findFirst.mockResolvedValue({ id: 'tm-1' });
+
+      await expect(
+        service.assignShift(
+          'schedule-1',
+          { ...createShiftDto, date: '2024-04-01' },
+          'lead-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('confirmShift', () => {
+    it('should confirm a scheduled shift for its assignee', async () => {
+      mockPrismaService.shift.findUnique.mockResolvedValue({
+        id: 'shift-1',
+        userId: 'user-2',
+        status: 'SCHEDULED',
+      });
+      mockPrismaService.shift.update.mockResolvedValue({
+        id: 'shift-1',
+        status: 'CONFIRMED',
+      });
+
+      const result = await service.confirmShift('shift-1', 'user-2');
+
+      expect(result.status).toBe('CONFIRMED');
+    });
+
+    it("should not let users confirm someone else's shift", async () => {
+      mockPrismaService.shift.findUnique.mockResolvedValue({
+        id: 'shift-1',
+        userId: 'user-2',
+        status: 'SCHEDULED',
+      });
+
+      await expect(service.confirmShift('shift-1', 'user-3')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('markNoShows', () => {
+    const dayShift = {
+      id: 'shift-day',
+      userId: 'user-2',
+      date: new Date('2024-03-04T00:00:00Z'),
+      startTime: new Date('1970-01-01T09:00:00Z'),
+      endTime: new Date('1970-01-01T17:00:00Z'),
+      status: 'CONFIRMED',
+    };
+
+    it('should mark NO_SHOW when no time session started during the window', async () => {
+      mockPrismaService.shift.findMany.mockResolvedValue([dayShift]);
+      mockPrismaService.timeSession.count.mockResolvedValue(0);
+
+      const result = await service.markNoShows(
+        new Date('2024-03-04T18:00:00Z'),
+      );
+
+      expect(mockPrismaService.timeSession.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-2',
+          startTime: {
+            gte: new Date('2024-03-04T08:45:00Z'),
+            lt: new Date('2024-03-04T17:00:00Z'),
+          },
+        },
+      });
+      expect(mockPrismaService.shift.update).toHaveBeenCalledWith({
+        where: { id: 'shift-day' },
+        data: { status: 'NO_SHOW' },
+      });
+      expect(result).toEqual({ completed: 0, noShows: 1 });
+    });
+
+    it('should mark COMPLETED when a time session started during the window', async () => {
+      mockPrismaService.shift.findMany.mockResolvedValue([dayShift]);
+      mockPrismaService.timeSession.count.mockResolvedValue(1);
+
+      const result = await service.markNoShows(
+        new Date('2024-03-04T18:00:00Z'),
+      );
+
+      expect(mockPrismaService.shift.update).toHaveBeenCalledWith({
+        where: { id: 'shift-day' },
+        data: { status: 'COMPLETED' },
+      });
+      expect(result).toEqual({ completed: 1, noShows: 0 });
+    });
+
+    it('should leave shifts alone until their window has ended', async () => {
+      const overnightShift = {
+        ...dayShift,
+        id: 'shift-night',
+        startTime: new Date('1970-01-01T22:00:00Z'),
+        endTime: new Date('1970-01-01T06:00:00Z'),
+      };
+      mockPrismaService.shift.findMany.mockResolvedValue([
+        dayShift,
+        overnightShift,
+      ]);
+      mockPrismaService.timeSession.count.mockResolvedValue(0);
+
+      await service.markNoShows(new Date('2024-03-05T01:00:00Z'));
+
+      expect(mockPrismaService.shift.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.shift.update).toHaveBeenCalledWith({
+        where: { id: 'shift-day' },
+        data: { status: 'NO_SHOW' },
+      });
+    });
+  });
+});
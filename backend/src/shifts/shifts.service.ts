@@ -0,0 +1,439 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, Shift, ShiftSchedule, ShiftStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { CreateShiftScheduleDto } from './dto/create-shift-schedule.dto';
+import { UpdateShiftScheduleDto } from './dto/update-shift-schedule.dto';
+import { CreateShiftDto } from './dto/create-shift.dto';
+import { UpdateShiftDto } from './dto/update-shift.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A time session started shortly before the shift still counts as attendance
+const EARLY_START_GRACE_MS = 15 * 60 * 1000;
+
+const shiftInclude = {
+  user: { select: { id: true, displayName: true, email: true } },
+  schedule: { select: { id: true, name: true, teamId: true } },
+} satisfies Prisma.ShiftInclude;
+
+@Injectable()
+export class ShiftsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async createSchedule(
+    createShiftScheduleDto: CreateShiftScheduleDto,
+    userId: string,
+  ): Promise<ShiftSchedule> {
+    const { teamId, name, description } = createShiftScheduleDto;
+    await this.assertCanManageTeam(teamId, userId);
+
+    const startDate = this.toDate(createShiftScheduleDto.startDate);
+    const endDate = createShiftScheduleDto.endDate
+      ? this.toDate(createShiftScheduleDto.endDate)
+      : null;
+    if (endDate && endDate < startDate) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+
+    return this.prisma.shiftSchedule.create({
+      data: { teamId, name, description, startDate, endDate },
+    });
+  }
+
+  async findSchedules(teamId: string, userId: string) {
+    await this.assertCanViewTeam(teamId, userId);
+
+    return this.prisma.shiftSchedule.findMany({
+      where: { teamId, isActive: true },
+      include: { _count: { select: { shifts: true } } },
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
+  async updateSchedule(
+    id: string,
+    updateShiftScheduleDto: UpdateShiftScheduleDto,
+    userId: string,
+  ): Promise<ShiftSchedule> {
+    const schedule = await this.findScheduleOrFail(id);
+    await this.assertCanManageTeam(schedule.teamId, userId);
+
+    const { startDate, endDate, ...scheduleData } = updateShiftScheduleDto;
+    const data: Prisma.ShiftScheduleUpdateInput = { ...scheduleData };
+    if (startDate) data.startDate = this.toDate(startDate);
+    if (endDate) data.endDate = this.toDate(endDate);
+
+    return this.prisma.shiftSchedule.update({ where: { id }, data });
+  }
+
+  async removeSchedule(
+    id: string,
+    userId: string,
+  ): Promise<{ message: string }> {
+    const schedule = await this.findScheduleOrFail(id);
+    await this.assertCanManageTeam(schedule.teamId, userId);
+
+    await this.prisma.shiftSchedule.update({
+      where: { id },
+      data: { isActive: false },
+    });
+    return { message: 'Shift schedule deleted successfully' };
+  }
+
+  async assignShift(
+    scheduleId: string,
+    createShiftDto: CreateShiftDto,
+    userId: string,
+  ): Promise<Shift> {
+    const schedule = await this.findScheduleOrFail(scheduleId);
+    await this.assertCanManageTeam(schedule.teamId, userId);
+
+    const assigneeId = createShiftDto.userId;
+    const isTeamMember = await this.prisma.teamMember.findFirst({
+      where: { teamId: schedule.teamId, userId: assigneeId, isActive: true },
+      select: { id: true },
+    });
+    if (!isTeamMember) {
+      throw new BadRequestException('User is not a member of this team');
+    }
+
+    const date = this.toDate(createShiftDto.date);
+    this.assertWithinSchedule(schedule, date);
+    await this.assertNoConflict(scheduleId, assigneeId, date);
+
+    return this.prisma.shift.create({
+      data: {
+        scheduleId,
+        userId: assigneeId,
+        date,
+        startTime: this.toTime(createShiftDto.startTime),
+        endTime: this.toTime(createShiftDto.endTime),
+        breakMinutes: createShiftDto.breakMinutes,
+        notes: createShiftDto.notes,
+      },
+      include: shiftInclude,
+    });
+  }
+
+  async updateShift(
+    id: string,
+    updateShiftDto: UpdateShiftDto,
+    userId: string,
+  ): Promise<Shift> {
+    const shift = await this.findShiftOrFail(id);
+    await this.assertCanManageTeam(shift.schedule.teamId, userId);
+
+    const { date, startTime, endTime, ...shiftData } = updateShiftDto;
+    const data: Prisma.ShiftUpdateInput = { ...shiftData };
+    if (date) {
+      const newDate = this.toDate(date);
+      if (newDate.getTime() !== shift.date.getTime()) {
+        this.assertWithinSchedule(shift.schedule, newDate);
+        await this.assertNoConflict(shift.scheduleId, shift.userId, newDate);
+      }
+      data.date = newDate;
+    }
+    if (startTime) data.startTime = this.toTime(startTime);
+    if (endTime) data.endTime = this.toTime(endTime);
+
+    return this.prisma.shift.update({
+      where: { id },
+      data,
+      include: shiftInclude,
+    });
+  }
+
+  async removeShift(id: string, userId: string): Promise<{ message: string }> {
+    const shift = await this.findShiftOrFail(id);
+    await this.assertCanManageTeam(shift.schedule.teamId, userId);
+
+    await this.prisma.shift.delete({ where: { id } });
+    return { message: 'Shift deleted successfully' };
+  }
+
+  async confirmShift(id: string, userId: string): Promise<Shift> {
+    const shift = await this.prisma.shift.findUnique({ where: { id } });
+    if (!shift || shift.userId !== userId) {
+      throw new NotFoundException('Shift not found');
+    }
+    if (shift.status !== ShiftStatus.SCHEDULED) {
+      throw new BadRequestException(
+        `Cannot confirm a shift that is ${shift.status}`,
+      );
+    }
+
+    return this.prisma.shift.update({
+      where: { id },
+      data: { status: ShiftStatus.CONFIRMED },
+      include: shiftInclude,
+    });
+  }
+
+  async findMyShifts(userId: string, from?: string, to?: string) {
+    const start = from ? this.toDate(from) : this.toDate(new Date());
+    const end = to ? this.toDate(to) : new Date(start.getTime() + 13 * DAY_MS);
+
+    return this.prisma.shift.findMany({
+      where: {
+        userId,
+        date: { gte: start, lte: end },
+        schedule: { isActive: true },
+      },
+      include: shiftInclude,
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  async getRoster(teamId: string, userId: string, weekStart?: string) {
+    const team = await this.assertCanViewTeam(teamId, userId);
+
+    // Rosters always start on Monday
+    const reference = weekStart
+      ? this.toDate(weekStart)
+      : this.toDate(new Date());
+    const monday = new Date(
+      reference.getTime() - ((reference.getUTCDay() + 6) % 7) * DAY_MS,
+    );
+    const sunday = new Date(monday.getTime() + 6 * DAY_MS);
+
+    const [members, shifts] = await Promise.all([
+      this.prisma.teamMember.findMany({
+        where: { teamId, isActive: true },
+        include: {
+          user: { select: { id: true, displayName: true, email: true } },
+        },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      this.prisma.shift.findMany({
+        where: {
+          date: { gte: monday, lte: sunday },
+          schedule: { teamId, isActive: true },
+        },
+        include: shiftInclude,
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+      }),
+    ]);
+
+    return {
+      team: { id: team.id, name: team.name },
+      weekStart: this.formatDate(monday),
+      weekEnd: this.formatDate(sunday),
+      days: Array.from({ length: 7 }, (_, i) =>
+        this.formatDate(new Date(monday.getTime() + i * DAY_MS)),
+      ),
+      members: members.map((member) => ({
+        ...member.user,
+        role: member.role,
+      })),
+      shifts,
+    };
+  }
+
+  /**
+   * Closes out shifts whose window has ended: shifts where the assignee
+   * started a time session during the window are marked COMPLETED, the
+   * rest NO_SHOW.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async markNoShows(
+    now: Date = new Date(),
+  ): Promise<{ completed: number; noShows: number }> {
+    const candidates = await this.prisma.shift.findMany({
+      where: {
+        status: { in: [ShiftStatus.SCHEDULED, ShiftStatus.CONFIRMED] },
+        date: {
+          gte: new Date(this.toDate(now).getTime() - 2 * DAY_MS),
+          lte: this.toDate(now),
+        },
+        schedule: { isActive: true },
+      },
+    });
+
+    let completed = 0;
+    let noShows = 0;
+    for (const shift of candidates) {
+      const window = this.getShiftWindow(shift);
+      if (window.end > now) continue;
+
+      const attended = await this.prisma.timeSession.count({
+        where: {
+          userId: shift.userId,
+          startTime: {
+            gte: new Date(window.start.getTime() - EARLY_START_GRACE_MS),
+            lt: window.end,
+          },
+        },
+      });
+
+      await this.prisma.shift.update({
+        where: { id: shift.id },
+        data: {
+          status: attended > 0 ? ShiftStatus.COMPLETED : ShiftStatus.NO_SHOW,
+        },
+      });
+      if (attended > 0) completed++;
+      else noShows++;
+    }
+
+    if (completed || noShows) {
+      this.logger.log(
+        `Closed ${completed + noShows} shifts (${noShows} no-show)`,
+        { completed, noShows },
+      );
+    }
+    return { completed, noShows };
+  }
+
+  private getShiftWindow(shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>) {
+    const dayStart = this.toDate(shift.date).getTime();
+    const start = new Date(dayStart + this.msSinceMidnight(shift.startTime));
+    let end = new Date(dayStart + this.msSinceMidnight(shift.endTime));
+    // Overnight shifts end on the following day
+    if (end <= start) end = new Date(end.getTime() + DAY_MS);
+    return { start, end };
+  }
+
+  private async findScheduleOrFail(id: string): Promise<ShiftSchedule> {
+    const schedule = await this.prisma.shiftSchedule.findUnique({
+      where: { id },
+    });
+    if (!schedule || schedule.isActive === false) {
+      throw new NotFoundException('Shift schedule not found');
+    }
+    return schedule;
+  }
+
+  private async findShiftOrFail(id: string) {
+    const shift = await this.prisma.shift.findUnique({
+      where: { id },
+      include: { schedule: true },
+    });
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+    return shift;
+  }
+
+  private async assertCanManageTeam(teamId: string, userId: string) {
+    const team = await this.prisma.team.findFirst({
+      where: { id: teamId, isActive: true },
+    });
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+    if (team.leaderId === userId) return team;
+
+    const [isLead, isAdmin] = await Promise.all([
+      this.prisma.teamMember.findFirst({
+        where: { teamId, userId, role: 'lead', isActive: true },
+        select: { id: true },
+      }),
+      this.isAdmin(userId),
+    ]);
+    if (!isLead && !isAdmin) {
+      throw new ForbiddenException(
+        'Only team leads can manage shifts for this team',
+      );
+    }
+    return team;
+  }
+
+  private async assertCanViewTeam(teamId: string, userId: string) {
+    const team = await this.prisma.team.findFirst({
+      where: { id: teamId, isActive: true },
+    });
+    if (!team) {
+      throw new NotFoundException('Team not found');
+    }
+    if (team.leaderId === userId) return team;
+
+    const [isMember, isAdmin] = await Promise.all([
+      this.prisma.teamMember.findFirst({
+        where: { teamId, userId, isActive: true },
+        select: { id: true },
+      }),
+      this.isAdmin(userId),
+    ]);
+    if (!isMember && !isAdmin) {
+      throw new NotFoundException('Team not found');
+    }
+    return team;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const adminRole = await this.prisma.userRole.findFirst({
+      where: {
+        userId,
+        isActive: true,
+        role: { name: { in: ['SUPER_ADMIN', 'ADMIN'] }, isActive: true },
+      },
+      select: { id: true },
+    });
+    return !!adminRole;
+  }
+
+  private assertWithinSchedule(
+    schedule: Pick<ShiftSchedule, 'startDate' | 'endDate'>,
+    date: Date,
+  ) {
+    const startsAfter = date < this.toDate(schedule.startDate);
+    const endsBefore = schedule.endDate && date > this.toDate(schedule.endDate);
+    if (startsAfter || endsBefore) {
+      throw new BadRequestException(
+        'Shift date is outside the schedule period',
+      );
+    }
+  }
+
+  private async assertNoConflict(
+    scheduleId: string,
+    userId: string,
+    date: Date,
+  ) {
+    const existing = await this.prisma.shift.findUnique({
+      where: { scheduleId_userId_date: { scheduleId, userId, date } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'User already has a shift on this day in this schedule',
+      );
+    }
+  }
+
+  /** Normalizes a date string or Date to midnight UTC. */
+  private toDate(value: string | Date): Date {
+    const date = new Date(value);
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  /** Converts an HH:mm string to the value Prisma expects for a TIME column. */
+  private toTime(value: string): Date {
+    const [hours, minutes] = value.split(':').map(Number);
+    return new Date(Date.UTC(1970, 0, 1, hours, minutes));
+  }
+
+  private msSinceMidnight(time: Date): number {
+    return (
+      (time.getUTCHours() * 60 + time.getUTCMinutes()) * 60 * 1000 +
+      time.getUTCSeconds() * 1000
+    );
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
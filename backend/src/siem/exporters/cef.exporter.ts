@@ -0,0 +1,89 @@
+import {
+  mapSiemEvent,
+  SiemDestinationOf,
+  SiemEvent,
+} from './siem-exporter.interface';
+import { isFailureEvent, SyslogExporter } from './syslog.exporter';
+
+/** CEF names for audit fields; a destination's fieldMap overrides them */
+const CEF_FIELD_MAP: Record<string, string> = {
+  id: 'externalId',
+  action: 'act',
+  userId: 'suid',
+  ipAddress: 'src',
+  userAgent: 'requestClientApplication',
+  entity: 'cs1',
+  entityId: 'cs2',
+  sessionId: 'cs3',
+  timestamp: 'rt',
+};
+
+const CEF_LABELS = {
+  cs1Label: 'entity',
+  cs2Label: 'entityId',
+  cs3Label: 'sessionId',
+};
+
+const escapeHeader = (value: string) => value.replace(/[\\|]/g, '\\$&');
+
+const escapeExtension = (value: string) =>
+  value.replace(/[\\=]/g, '\\$&').replace(/\r?\n|\r/g, '\\n');
+
+/**
+ * ArcSight Common Event Format carried over syslog. The action is the
+ * signature ID; fields without a CEF name keep their own name as extension
+ * key and objects are sent as JSON.
+ */
+export class CefExporter extends SyslogExporter {
+  constructor(protected readonly config: SiemDestinationOf<'cef'>) {
+    super(config);
+  }
+
+  protected format(event: SiemEvent): string {
+    return `${this.header(event)} - ${formatCef(event, this.config)}`;
+  }
+}
+
+export function formatCef(
+  event: SiemEvent,
+  config: Pick<
+    SiemDestinationOf<'cef'>,
+    'vendor' | 'product' | 'fields' | 'fieldMap'
+  >,
+): string {
+  const failed = isFailureEvent(event);
+  const mapped = mapSiemEvent(event, config, CEF_FIELD_MAP);
+
+  const extension: Record<string, unknown> = {
+    ...mapped,
+    outcome: failed ? 'failure' : 'success',
+  };
+  for (const [label, value] of Object.entries(CEF_LABELS)) {
+    const key = label.replace('Label', '');
+    if (key in extension) extension[label] = value;
+  }
+
+  const pairs = Object.entries(extension)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => {
+      // CEF timestamps are milliseconds since the epoch
+      const text =
+        key === 'rt'
+          ? String(new Date(value as string | Date).getTime())
+          : typeof value === 'string'
+            ? value
+            : JSON.stringify(value);
+      return `${key}=${escapeExtension(text)}`;
+    });
+
+  return [
+    'CEF:0',
+    escapeHeader(config.vendor),
+    escapeHeader(config.product),
+    escapeHeader(typeof event.version === 'string' ? event.version : '1.0'),
+    escapeHeader(event.action),
+    escapeHeader(`${event.entity} ${event.action.replace(/^failed:/, '')}`),
+    failed ? 7 : 3,
+    pairs.join(' '),
+  ].join('|');
+}
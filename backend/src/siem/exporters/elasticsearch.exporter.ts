@@ -0,0 +1,146 @@
+import {
+  mapSiemEvent,
+  SiemDestinationOf,
+  SiemEvent,
+  SiemExporter,
+  SiemExporterError,
+  SiemExporterHealth,
+} from './siem-exporter.interface';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const INDEX_MAPPINGS = {
+  properties: {
+    '@timestamp': { type: 'date' },
+    id: { type: 'keyword' },
+    userId: { type: 'keyword' },
+    action: { type: 'keyword' },
+    entity: { type: 'keyword' },
+    entityId: { type: 'keyword' },
+    ipAddress: { type: 'ip' },
+    userAgent: { type: 'text', analyzer: 'standard' },
+    sessionId: { type: 'keyword' },
+    oldValues: { type: 'object', enabled: false },
+    newValues: { type: 'object', enabled: false },
+    metadata: { type: 'object', enabled: false },
+    service: { type: 'keyword' },
+    environment: { type: 'keyword' },
+    version: { type: 'keyword' },
+    timestamp: { type: 'date' },
+  },
+};
+
+interface BulkResponse {
+  errors: boolean;
+  items: { index?: { status: number; error?: { reason?: string } } }[];
+}
+
+/**
+ * Indexes events through the Elasticsearch REST API. Documents use the audit
+ * log ID, so a redelivered event overwrites itself instead of duplicating.
+ */
+export class ElasticsearchExporter implements SiemExporter {
+  readonly type = 'elasticsearch' as const;
+  readonly name: string;
+
+  constructor(private readonly config: SiemDestinationOf<'elasticsearch'>) {
+    this.name = config.name;
+  }
+
+  async init(): Promise<void> {
+    const response = await this.request('HEAD', `/${this.config.index}`);
+    if (response.status !== 404) return;
+
+    await this.expectOk(
+      await this.request('PUT', `/${this.config.index}`, {
+        mappings: INDEX_MAPPINGS,
+      }),
+    );
+  }
+
+  async export(events: SiemEvent[]): Promise<void> {
+    const body = events
+      .map((event) => {
+        const document = {
+          '@timestamp': event.timestamp ?? new Date().toISOString(),
+          ...mapSiemEvent(event, this.config),
+        };
+        return `${JSON.stringify({ index: { _index: this.config.index, _id: event.id } })}\n${JSON.stringify(document)}\n`;
+      })
+      .join('');
+
+    const response = await this.expectOk(
+      await this.request('POST', '/_bulk', body, 'application/x-ndjson'),
+    );
+    const result = (await response.json()) as BulkResponse;
+    if (result.errors) {
+      const failed = result.items.filter(
+        (item) => (item.index?.status ?? 500) >= 300,
+      );
+      throw new SiemExporterError(
+        this.name,
+        `Elasticsearch rejected ${failed.length} of ${events.length} events: ${
+          failed[0]?.index?.error?.reason ?? 'unknown error'
+        }`,
+      );
+    }
+  }
+
+  async healthCheck(): Promise<SiemExporterHealth> {
+    try {
+      const response = await this.expectOk(
+        await this.request('GET', '/_cluster/health'),
+      );
+      const health = (await response.json()) as { status: string };
+      return {
+        healthy: health.status === 'green' || health.status === 'yellow',
+        detail: `Cluster status ${health.status}`,
+      };
+    } catch (error) {
+      return { healthy: false, detail: (error as Error).message };
+    }
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    body?: unknown,
+    contentType = 'application/json',
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (this.config.apiKey) {
+      headers.Authorization = `ApiKey ${this.config.apiKey}`;
+    } else if (this.config.username) {
+      const credentials = `${this.config.username}:${this.config.password ?? ''}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    try {
+      return await fetch(`${this.config.url.replace(/\/+$/, '')}${path}`, {
+        method,
+        headers,
+        body:
+          body === undefined || typeof body === 'string'
+            ? body
+            : JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SiemExporterError(
+        this.name,
+        `Request to Elasticsearch failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async expectOk(response: Response): Promise<Response> {
+    if (response.ok) return response;
+    const detail = await response.text().catch(() => '');
+    throw new SiemExporterError(
+      this.name,
+      `${response.status} ${response.statusText} from Elasticsearch${
+        detail ? `: ${detail.slice(0, 200)}` : ''
+      }`,
+    );
+  }
+}
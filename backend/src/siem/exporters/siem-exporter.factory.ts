@@ -0,0 +1,20 @@
+import { SiemDestinationConfig, SiemExporter } from './siem-exporter.interface';
+import { ElasticsearchExporter } from './elasticsearch.exporter';
+import { SyslogExporter } from './syslog.exporter';
+import { CefExporter } from './cef.exporter';
+import { WebhookExporter } from './webhook.exporter';
+
+export function createSiemExporter(
+  config: SiemDestinationConfig,
+): SiemExporter {
+  switch (config.type) {
+    case 'elasticsearch':
+      return new ElasticsearchExporter(config);
+    case 'syslog':
+      return new SyslogExporter(config);
+    case 'cef':
+      return new CefExporter(config);
+    case 'webhook':
+      return new WebhookExporter(config);
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+
+const fieldMapping = {
+  /** Event fields to send, every field when omitted */
+  fields: z.array(z.string()).optional(),
+  /** Renames event fields to the names the destination expects */
+  fieldMap: z.record(z.string(), z.string()).optional(),
+  batchSize: z.number().int().min(1).max(1000).default(50),
+  /** How long a partial batch waits before it is sent anyway */
+  flushIntervalMs: z.number().int().min(0).max(60_000).default(200),
+};
+
+const syslogTarget = {
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535).default(514),
+  protocol: z.enum(['tcp', 'udp']).default('tcp'),
+  /** Syslog facility, 13 (log audit) by default */
+  facility: z.number().int().min(0).max(23).default(13),
+  appName: z.string().default('alignzo'),
+};
+
+export const siemDestinationSchema = z.discriminatedUnion('type', [
+  z.object({
+    name: z.string().min(1),
+    type: z.literal('elasticsearch'),
+    url: z.string().url(),
+    index: z.string().default('audit-logs'),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    apiKey: z.string().optional(),
+    ...fieldMapping,
+  }),
+  z.object({
+    name: z.string().min(1),
+    type: z.literal('syslog'),
+    ...syslogTarget,
+    ...fieldMapping,
+  }),
+  z.object({
+    name: z.string().min(1),
+    type: z.literal('cef'),
+    ...syslogTarget,
+    vendor: z.string().default('Alignzo'),
+    product: z.string().default('Alignzo'),
+    ...fieldMapping,
+  }),
+  z.object({
+    name: z.string().min(1),
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    /** `splunk-hec` sends Splunk HTTP Event Collector envelopes */
+    format: z.enum(['json', 'splunk-hec']).default('json'),
+    token: z.string().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    sourcetype: z.string().default('alignzo:audit'),
+    healthUrl: z.string().url().optional(),
+    ...fieldMapping,
+  }),
+]);
+
+export type SiemDestinationConfig = z.infer<typeof siemDestinationSchema>;
+export type SiemDestinationType = SiemDestinationConfig['type'];
+export type SiemDestinationOf<T extends SiemDestinationType> = Extract<
+  SiemDestinationConfig,
+  { type: T }
+>;
+
+/** An audit log as it is sent to every destination, before field mapping */
+export interface SiemEvent {
+  id: string;
+  userId: string | null;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  oldValues: unknown;
+  newValues: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  sessionId: string | null;
+  metadata: unknown;
+  timestamp: Date | string | null;
+  [field: string]: unknown;
+}
+
+export interface SiemExporterHealth {
+  healthy: boolean;
+  detail?: string;
+}
+
+export interface SiemExporter {
+  readonly name: string;
+  readonly type: SiemDestinationType;
+
+  /** Prepares the destination, e.g. creates an index; failures are logged */
+  init?(): Promise<void>;
+
+  /** Delivers a batch; rejects when the destination did not accept all of it */
+  export(events: SiemEvent[]): Promise<void>;
+
+  healthCheck(): Promise<SiemExporterHealth>;
+
+  close?(): Promise<void>;
+}
+
+export class SiemExporterError extends Error {
+  constructor(
+    readonly destination: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SiemExporterError';
+  }
+}
+
+/** Applies a destination's field selection and renames to an event */
+export function mapSiemEvent(
+  event: SiemEvent,
+  mapping: { fields?: string[]; fieldMap?: Record<string, string> },
+  defaultFieldMap: Record<string, string> = {},
+): Record<string, unknown> {
+  const fieldMap = { ...defaultFieldMap, ...mapping.fieldMap };
+  const fields = mapping.fields ?? Object.keys(event);
+  const mapped: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (event[field] === undefined) continue;
+    mapped[fieldMap[field] ?? field] = event[field];
+  }
+  return mapped;
+}
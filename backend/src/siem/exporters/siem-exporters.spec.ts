@@ -0,0 +1,335 @@
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  Server,
+} from 'http';
+import { createServer as createTcpServer, AddressInfo } from 'net';
+import { createSocket } from 'dgram';
+import { once } from 'events';
+import { siemDestinationSchema, SiemEvent } from './siem-exporter.interface';
+import { SyslogExporter } from './syslog.exporter';
+import { CefExporter } from './cef.exporter';
+import { WebhookExporter } from './webhook.exporter';
+import { ElasticsearchExporter } from './elasticsearch.exporter';
+import { createSiemExporter } from './siem-exporter.factory';
+
+const event: SiemEvent = {
+  id: 'log-1',
+  userId: 'user-1',
+  action: 'User.update',
+  entity: 'User',
+  entityId: 'user-2',
+  oldValues: { title: 'Engineer' },
+  newValues: { title: 'Lead' },
+  ipAddress: '203.0.113.7',
+  userAgent: 'curl/8.0',
+  sessionId: null,
+  metadata: { statusCode: 200, path: '/api/v1/users/user-2?a=b' },
+  timestamp: new Date('2025-03-01T10:00:00Z'),
+};
+
+const failedEvent: SiemEvent = {
+  ...event,
+  id: 'log-2',
+  action: 'failed:User.remove',
+  metadata: { statusCode: 403 },
+};
+
+const destination = (config: Record<string, unknown>) =>
+  siemDestinationSchema.parse({ name: 'test', ...config });
+
+/** Splits an RFC 6587 octet-counted stream into messages */
+const splitFrames = (stream: string) => {
+  const messages: string[] = [];
+  let rest = Buffer.from(stream);
+  while (rest.length > 0) {
+    const space = rest.indexOf(' ');
+    const length = Number(rest.subarray(0, space).toString());
+    messages.push(rest.subarray(space + 1, space + 1 + length).toString());
+    rest = rest.subarray(space + 1 + length);
+  }
+  return messages;
+};
+
+/** A TCP listener standing in for a syslog collector */
+const listenTcp = async () => {
+  let received = '';
+  const server = createTcpServer((socket) =>
+    socket.on('data', (chunk) => (received += chunk.toString())),
+  );
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return {
+    port: (server.address() as AddressInfo).port,
+    received: () => received,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/** An HTTP listener that records requests and answers with the responder */
+const listenHttp = async (
+  respond: (request: RecordedRequest) => { status: number; body?: unknown },
+) => {
+  const requests: RecordedRequest[] = [];
+  const server: Server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = {
+        method: req.method!,
+        url: req.url!,
+        headers: req.headers,
+        body,
+      };
+      requests.push(request);
+      const response = respond(request);
+      res.writeHead(response.status, { 'content-type': 'application/json' });
+      res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+    });
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('SIEM exporters', () => {
+  describe('SyslogExporter', () => {
+    it('should send octet-counted RFC 5424 messages over TCP', async () => {
+      const listener = await listenTcp();
+      const exporter = new SyslogExporter(
+        destination({ type: 'syslog', host: '127.0.0.1', port: listener.port }),
+      );
+
+      await exporter.export([event, failedEvent]);
+      await waitFor(() => splitFrames(listener.received()).length === 2);
+      await exporter.close();
+      await listener.close();
+
+      const [first, second] = splitFrames(listener.received());
+      expect(first).toMatch(
+        /^<110>1 2025-03-01T10:00:00\.000Z \S+ alignzo \d+ audit \[audit@32473 /,
+      );
+      expect(first).toContain('action="User.update"');
+      expect(JSON.parse(first.slice(first.indexOf('] ') + 2))).toEqual(
+        expect.objectContaining({ id: 'log-1', newValues: { title: 'Lead' } }),
+      );
+      // Facility 13 with warning severity for failed requests
+      expect(second).toMatch(/^<108>1 /);
+    });
+
+    it('should send one datagram per message over UDP', async () => {
+      const server = createSocket('udp4');
+      const received: string[] = [];
+      server.on('message', (message) => received.push(message.toString()));
+      server.bind(0, '127.0.0.1');
+      await once(server, 'listening');
+      const exporter = new SyslogExporter(
+        destination({
+          type: 'syslog',
+          host: '127.0.0.1',
+          port: server.address().port,
+          protocol: 'udp',
+          fields: ['id', 'action'],
+          fieldMap: { action: 'event_action' },
+        }),
+      );
+
+      await exporter.export([event]);
+      await waitFor(() => received.length === 1);
+      await exporter.close();
+      server.close();
+
+      expect(received[0]).toContain(
+        '[audit@32473 id="log-1" event_action="User.update"] {"id":"log-1","event_action":"User.update"}',
+      );
+    });
+
+    it('should report a collector that refuses connections as unhealthy', async () => {
+      const listener = await listenTcp();
+      await listener.close();
+      const exporter = new SyslogExporter(
+        destination({ type: 'syslog', host: '127.0.0.1', port: listener.port }),
+      );
+
+      await expect(exporter.healthCheck()).resolves.toEqual(
+        expect.objectContaining({ healthy: false }),
+      );
+      await expect(exporter.export([event])).rejects.toThrow(
+        /Syslog delivery to 127\.0\.0\.1/,
+      );
+    });
+  });
+
+  describe('CefExporter', () => {
+    it('should send CEF events with escaped extensions over syslog', async () => {
+      const listener = await listenTcp();
+      const exporter = new CefExporter(
+        destination({
+          type: 'cef',
+          host: '127.0.0.1',
+          port: listener.port,
+          fieldMap: { userId: 'suser' },
+        }) as Parameters<typeof createSiemExporter>[0] & { type: 'cef' },
+      );
+
+      await exporter.export([{ ...event, version: '2.1.0' }, failedEvent]);
+      await waitFor(() => splitFrames(listener.received()).length === 2);
+      await exporter.close();
+      await listener.close();
+
+      const [first, second] = splitFrames(listener.received()).map((message) =>
+        message.slice(message.indexOf('CEF:')),
+      );
+      expect(first).toMatch(
+        /^CEF:0\|Alignzo\|Alignzo\|2\.1\.0\|User\.update\|User User\.update\|3\|/,
+      );
+      expect(first).toContain('act=User.update');
+      expect(first).toContain('suser=user-1');
+      expect(first).toContain('src=203.0.113.7');
+      expect(first).toContain('cs1=User');
+      expect(first).toContain('cs1Label=entity');
+      expect(first).toContain(`rt=${Date.parse('2025-03-01T10:00:00Z')}`);
+      expect(first).toContain('path":"/api/v1/users/user-2?a\\=b"');
+      expect(first).toContain('outcome=success');
+      expect(second).toMatch(/\|failed:User\.remove\|User User\.remove\|7\|/);
+      expect(second).toContain('outcome=failure');
+    });
+  });
+
+  describe('WebhookExporter', () => {
+    it('should post Splunk HEC envelopes with the HEC token', async () => {
+      const listener = await listenHttp(() => ({
+        status: 200,
+        body: { text: 'Success', code: 0 },
+      }));
+      const exporter = new WebhookExporter(
+        destination({
+          type: 'webhook',
+          url: `${listener.url}/services/collector/event`,
+          format: 'splunk-hec',
+          token: 'hec-token',
+        }) as Parameters<typeof createSiemExporter>[0] & { type: 'webhook' },
+      );
+
+      await exporter.export([event, failedEvent]);
+      const health = await exporter.healthCheck();
+      await listener.close();
+
+      const [post, healthRequest] = listener.requests;
+      expect(post.headers.authorization).toBe('Splunk hec-token');
+      const envelopes = post.body.split('\n').map((line) => JSON.parse(line));
+      expect(envelopes).toHaveLength(2);
+      expect(envelopes[0]).toEqual(
+        expect.objectContaining({
+          time: Date.parse('2025-03-01T10:00:00Z') / 1000,
+          sourcetype: 'alignzo:audit',
+          event: expect.objectContaining({ id: 'log-1' }),
+        }),
+      );
+      expect(healthRequest.url).toBe('/services/collector/health');
+      expect(health.healthy).toBe(true);
+    });
+
+    it('should reject batches the endpoint does not accept', async () => {
+      const listener = await listenHttp(() => ({
+        status: 503,
+        body: { text: 'Server is busy' },
+      }));
+      const exporter = createSiemExporter(
+        destination({ type: 'webhook', url: listener.url, token: 'secret' }),
+      );
+
+      await expect(exporter.export([event])).rejects.toThrow(
+        /503 Service Unavailable/,
+      );
+      await listener.close();
+
+      expect(listener.requests[0].headers.authorization).toBe('Bearer secret');
+      expect(JSON.parse(listener.requests[0].body)).toHaveLength(1);
+    });
+  });
+
+  describe('ElasticsearchExporter', () => {
+    it('should create the index and bulk index events by ID', async () => {
+      const listener = await listenHttp((request) => {
+        if (request.method === 'HEAD') return { status: 404 };
+        if (request.url === '/_bulk') {
+          return { status: 200, body: { errors: false, items: [] } };
+        }
+        return { status: 200, body: { acknowledged: true } };
+      });
+      const exporter = new ElasticsearchExporter(
+        destination({
+          type: 'elasticsearch',
+          url: listener.url,
+          index: 'audit',
+          username: 'elastic',
+          password: 'changeme',
+        }) as Parameters<typeof createSiemExporter>[0] & {
+          type: 'elasticsearch';
+        },
+      );
+
+      await exporter.init();
+      await exporter.export([event]);
+      await listener.close();
+
+      const [head, create, bulk] = listener.requests;
+      expect(head).toEqual(
+        expect.objectContaining({ method: 'HEAD', url: '/audit' }),
+      );
+      expect(create.method).toBe('PUT');
+      expect(bulk.headers.authorization).toBe(
+        `Basic ${Buffer.from('elastic:changeme').toString('base64')}`,
+      );
+      const [action, document] = bulk.body
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(action).toEqual({ index: { _index: 'audit', _id: 'log-1' } });
+      expect(document).toEqual(
+        expect.objectContaining({
+          '@timestamp': '2025-03-01T10:00:00.000Z',
+          action: 'User.update',
+        }),
+      );
+    });
+
+    it('should reject a bulk request with failed items', async () => {
+      const listener = await listenHttp(() => ({
+        status: 200,
+        body: {
+          errors: true,
+          items: [
+            { index: { status: 400, error: { reason: 'mapper_parsing' } } },
+          ],
+        },
+      }));
+      const exporter = createSiemExporter(
+        destination({ type: 'elasticsearch', url: listener.url }),
+      );
+
+      await expect(exporter.export([event])).rejects.toThrow(
+        'Elasticsearch rejected 1 of 1 events: mapper_parsing',
+      );
+      await listener.close();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { createSocket, Socket as UdpSocket } from 'dgram';
+import { lookup } from 'dns/promises';
+import { createConnection, isIPv6, Socket } from 'net';
+import { hostname } from 'os';
+import {
+  mapSiemEvent,
+  SiemDestinationOf,
+  SiemEvent,
+  SiemExporter,
+  SiemExporterError,
+  SiemExporterHealth,
+} from './siem-exporter.interface';
+
+const CONNECT_TIMEOUT_MS = 5_000;
+
+// Enterprise number 32473 is reserved for documentation (RFC 5612)
+const STRUCTURED_DATA_ID = 'audit@32473';
+
+const SEVERITY_WARNING = 4;
+const SEVERITY_INFO = 6;
+
+type SyslogConfig = SiemDestinationOf<'syslog'> | SiemDestinationOf<'cef'>;
+
+/** Failed requests are logged with a `failed:` action or an error status */
+export function isFailureEvent(event: SiemEvent): boolean {
+  const statusCode = (event.metadata as { statusCode?: number } | null)
+    ?.statusCode;
+  return event.action.startsWith('failed:') || (statusCode ?? 0) >= 400;
+}
+
+const escapeParamValue = (value: string) => value.replace(/["\\\]]/g, '\\$&');
+
+// SD-NAMEs are printable ASCII without '=', ' ', ']' and '"', at most 32 long
+const toParamName = (name: string) =>
+  name.replace(/[^\x21-\x7e]|[= \]"]/g, '_').slice(0, 32);
+
+/** Keeps header fields to the printable ASCII RFC 5424 allows */
+const toHeaderField = (value: string, maxLength: number) =>
+  value.replace(/[^\x21-\x7e]/g, '').slice(0, maxLength) || '-';
+
+interface SyslogTransport {
+  send(messages: string[]): Promise<void>;
+  check(): Promise<string>;
+  close(): Promise<void>;
+}
+
+/** RFC 6587 octet-counting framing over one reused connection */
+class TcpSyslogTransport implements SyslogTransport {
+  private socket: Promise<Socket> | null = null;
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+  ) {}
+
+  async send(messages: string[]): Promise<void> {
+    const frame = messages
+      .map((message) => `${Buffer.byteLength(message)} ${message}`)
+      .join('');
+    const socket = await this.getSocket();
+    await new Promise<void>((resolve, reject) =>
+      socket.write(frame, (error) => (error ? reject(error) : resolve())),
+    ).catch((error: Error) => {
+      socket.destroy();
+      throw error;
+    });
+  }
+
+  async check(): Promise<string> {
+    const socket = await this.connect();
+    socket.end();
+    return `Accepting TCP connections on ${this.host}:${this.port}`;
+  }
+
+  async close(): Promise<void> {
+    const socket = await this.socket?.catch(() => null);
+    socket?.end();
+    this.socket = null;
+  }
+
+  private getSocket(): Promise<Socket> {
+    if (!this.socket) {
+      this.socket = this.connect().then((socket) => {
+        // Reconnect on the next send once the connection is gone
+        socket.once('close', () => (this.socket = null));
+        socket.on('error', () => socket.destroy());
+        return socket;
+      });
+      this.socket.catch(() => (this.socket = null));
+    }
+    return this.socket;
+  }
+
+  private connect(): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(CONNECT_TIMEOUT_MS);
+      socket.once('connect', () => {
+        socket.setTimeout(0);
+        socket.removeListener('error', reject);
+        resolve(socket);
+      });
+      socket.once('error', reject);
+      socket.once('timeout', () => {
+        socket.destroy();
+        reject(new Error(`Connecting to ${this.host}:${this.port} timed out`));
+      });
+    });
+  }
+}
+
+/** One datagram per message; delivery is not acknowledged */
+class UdpSyslogTransport implements SyslogTransport {
+  private socket: UdpSocket | null = null;
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+  ) {}
+
+  async send(messages: string[]): Promise<void> {
+    if (!this.socket) {
+      this.socket = createSocket(isIPv6(this.host) ? 'udp6' : 'udp4');
+      this.socket.unref();
+    }
+    const socket = this.socket;
+    for (const message of messages) {
+      await new Promise<void>((resolve, reject) =>
+        socket.send(Buffer.from(message), this.port, this.host, (error) =>
+          error ? reject(error) : resolve(),
+        ),
+      );
+    }
+  }
+
+  async check(): Promise<string> {
+    await lookup(this.host);
+    return `Resolved ${this.host}; UDP delivery is not acknowledged`;
+  }
+
+  close(): Promise<void> {
+    this.socket?.close();
+    this.socket = null;
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Sends RFC 5424 syslog messages. Scalar fields go into structured data and
+ * the whole mapped event is the message, as JSON.
+ */
+export class SyslogExporter implements SiemExporter {
+  readonly type: 'syslog' | 'cef';
+  readonly name: string;
+
+  private readonly transport: SyslogTransport;
+  private readonly hostname = toHeaderField(hostname(), 255);
+
+  constructor(protected readonly config: SyslogConfig) {
+    this.type = config.type;
+    this.name = config.name;
+    this.transport =
+      config.protocol === 'udp'
+        ? new UdpSyslogTransport(config.host, config.port)
+        : new TcpSyslogTransport(config.host, config.port);
+  }
+
+  async export(events: SiemEvent[]): Promise<void> {
+    try {
+      await this.transport.send(events.map((event) => this.format(event)));
+    } catch (error) {
+      throw new SiemExporterError(
+        this.name,
+        `Syslog delivery to ${this.config.host}:${this.config.port} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async healthCheck(): Promise<SiemExporterHealth> {
+    try {
+      return { healthy: true, detail: await this.transport.check() };
+    } catch (error) {
+      return { healthy: false, detail: (error as Error).message };
+    }
+  }
+
+  close(): Promise<void> {
+    return this.transport.close();
+  }
+
+  protected format(event: SiemEvent): string {
+    const mapped = mapSiemEvent(event, this.config);
+    const params = Object.entries(mapped)
+      .filter(([, value]) =>
+        ['string', 'number', 'boolean'].includes(typeof value),
+      )
+      .map(
+        ([field, value]) =>
+          `${toParamName(field)}="${escapeParamValue(String(value))}"`,
+      );
+    const structuredData = params.length
+      ? `[${STRUCTURED_DATA_ID} ${params.join(' ')}]`
+      : '-';
+    return `${this.header(event)} ${structuredData} ${JSON.stringify(mapped)}`;
+  }
+
+  /** PRI, version, timestamp, hostname, app name, process ID and message ID */
+  protected header(event: SiemEvent): string {
+    const severity = isFailureEvent(event) ? SEVERITY_WARNING : SEVERITY_INFO;
+    const timestamp = new Date(event.timestamp ?? Date.now()).toISOString();
+    return [
+      `<${this.config.facility * 8 + severity}>1`,
+      timestamp,
+      this.hostname,
+      toHeaderField(this.config.appName, 48),
+      process.pid,
+      'audit',
+    ].join(' ');
+  }
+}
@@ -0,0 +1,107 @@
+import { hostname } from 'os';
+import {
+  mapSiemEvent,
+  SiemDestinationOf,
+  SiemEvent,
+  SiemExporter,
+  SiemExporterError,
+  SiemExporterHealth,
+} from './siem-exporter.interface';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts batches to an HTTPS endpoint, either as a JSON array or as Splunk
+ * HTTP Event Collector envelopes.
+ */
+export class WebhookExporter implements SiemExporter {
+  readonly type = 'webhook' as const;
+  readonly name: string;
+
+  private readonly hostname = hostname();
+
+  constructor(private readonly config: SiemDestinationOf<'webhook'>) {
+    this.name = config.name;
+  }
+
+  async export(events: SiemEvent[]): Promise<void> {
+    const mapped = events.map((event) => mapSiemEvent(event, this.config));
+    const body =
+      this.config.format === 'splunk-hec'
+        ? events
+            .map((event, index) =>
+              JSON.stringify({
+                time: new Date(event.timestamp ?? Date.now()).getTime() / 1000,
+                host: this.hostname,
+                source: 'alignzo',
+                sourcetype: this.config.sourcetype,
+                event: mapped[index],
+              }),
+            )
+            .join('\n')
+        : JSON.stringify(mapped);
+
+    const response = await this.request(this.config.url, 'POST', body);
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new SiemExporterError(
+        this.name,
+        `${response.status} ${response.statusText} from ${new URL(this.config.url).host}${
+          detail ? `: ${detail.slice(0, 200)}` : ''
+        }`,
+      );
+    }
+  }
+
+  async healthCheck(): Promise<SiemExporterHealth> {
+    const healthUrl =
+      this.config.healthUrl ??
+      (this.config.format === 'splunk-hec'
+        ? new URL('/services/collector/health', this.config.url).toString()
+        : null);
+    if (!healthUrl) {
+      return { healthy: true, detail: 'No health URL configured' };
+    }
+
+    try {
+      const response = await this.request(healthUrl, 'GET');
+      return {
+        healthy: response.ok,
+        detail: `${response.status} ${response.statusText} from ${new URL(healthUrl).host}`,
+      };
+    } catch (error) {
+      return { healthy: false, detail: (error as Error).message };
+    }
+  }
+
+  private async request(
+    url: string,
+    method: string,
+    body?: string,
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+    if (this.config.token) {
+      headers.Authorization =
+        this.config.format === 'splunk-hec'
+          ? `Splunk ${this.config.token}`
+          : `Bearer ${this.config.token}`;
+    }
+
+    try {
+      return await fetch(url, {
+        method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SiemExporterError(
+        this.name,
+        `Request to ${new URL(url).host} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { ConfigService } from '@nestjs/config';
+import { SiemDeliveryError, SiemService } from './siem.service';
+import { LoggerService } from '../common/services/logger.service';
+import { SiemDestinationConfig } from './exporters/siem-exporter.interface';
+import { createSiemExporter } from './exporters/siem-exporter.factory';
+
+jest.mock('./exporters/siem-exporter.factory');
+
+describe('SiemService', () => {
+  const exporters: Record<
+    string,
+    { export: jest.Mock; healthCheck: jest.Mock }
+  > = {};
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+
+  const createService = (config: Record<string, string | undefined>) =>
+    new SiemService(
+      {
+        get: (key: string, fallback?: string) => config[key] ?? fallback,
+      } as unknown as ConfigService,
+      mockLoggerService as unknown as LoggerService,
+    );
+
+  const log = (id: string) => ({
+    id,
+    action: 'User.update',
+    entity: 'User',
+    timestamp: new Date('2025-03-01T10:00:00Z'),
+  });
+
+  beforeEach(() => {
+    (createSiemExporter as jest.Mock).mockImplementation(
+      (destination: SiemDestinationConfig) => {
+        exporters[destination.name] = {
+          export: jest.fn().mockResolvedValue(undefined),
+          healthCheck: jest.fn().mockResolvedValue({ healthy: true }),
+        };
+        return {
+          name: destination.name,
+          type: destination.type,
+          ...exporters[destination.name],
+        };
+      },
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const destinations = JSON.stringify([
+    {
+      name: 'splunk',
+      type: 'webhook',
+      url: 'https://splunk.example.com:8088/services/collector/event',
+      format: 'splunk-hec',
+      batchSize: 2,
+      flushIntervalMs: 10000,
+    },
+    {
+      name: 'qradar',
+      type: 'cef',
+      host: 'qradar.example.com',
+      flushIntervalMs: 10,
+    },
+  ]);
+
+  it('should batch events per destination', async () => {
+    const service = createService({ SIEM_DESTINATIONS: destinations });
+
+    await Promise.all([
+      service.streamAuditLog(log('log-1')),
+      service.streamAuditLog(log('log-2')),
+    ]);
+
+    // A full batch is sent at once, the other destination after its interval
+    expect(exporters.splunk.export).toHaveBeenCalledTimes(1);
+    expect(exporters.splunk.export).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'log-1', service: 'alignzo' }),
+      expect.objectContaining({ id: 'log-2', service: 'alignzo' }),
+    ]);
+    expect(exporters.qradar.export).toHaveBeenCalledTimes(1);
+  });
+
+  it('should name the destinations that rejected an event', async () => {
+    const service = createService({ SIEM_DESTINATIONS: destinations });
+    exporters.qradar.export.mockRejectedValue(new Error('Connection refused'));
+
+    const error = await service
+      .streamAuditLog(log('log-1'), ['qradar'])
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SiemDeliveryError);
+    expect((error as SiemDeliveryError).failures).toEqual({
+      qradar: 'Connection refused',
+    });
+    expect(exporters.splunk.export).not.toHaveBeenCalled();
+  });
+
+  it('should report unhealthy destinations as degraded', async () => {
+    const service = createService({
+      SIEM_DESTINATIONS: destinations,
+      ELASTICSEARCH_URL: 'http://localhost:9200',
+    });
+    exporters.qradar.healthCheck.mockResolvedValue({
+      healthy: false,
+      detail: 'Connection refused',
+    });
+
+    await expect(service.getStatus()).resolves.toEqual({
+      enabled: true,
+      status: 'degraded',
+      destinations: [
+        expect.objectContaining({ name: 'splunk', healthy: true }),
+        expect.objectContaining({
+          name: 'qradar',
+          type: 'cef',
+          healthy: false,
+          detail: 'Connection refused',
+        }),
+        expect.objectContaining({ name: 'elasticsearch', queued: 0 }),
+      ],
+    });
+    await expect(service.isHealthy()).resolves.toBe(false);
+  });
+
+  it('should be disabled without destinations', async () => {
+    const service = createService({});
+
+    await service.streamAuditLog(log('log-1'));
+
+    await expect(service.getStatus()).resolves.toEqual({
+      enabled: false,
+      status: 'disabled',
+      destinations: [],
+    });
+  });
+
+  it('should reject invalid destination config', () => {
+    expect(() =>
+      createService({
+        SIEM_DESTINATIONS: JSON.stringify([{ name: 'siem', type: 'syslog' }]),
+      }),
+    ).toThrow(/Invalid SIEM_DESTINATIONS: 0\.host/);
+    expect(() =>
+      createService({
+        SIEM_DESTINATIONS: JSON.stringify([
+          { name: 'siem', type: 'syslog', host: 'a' },
+          { name: 'siem', type: 'cef', host: 'b' },
+        ]),
+      }),
+    ).toThrow('SIEM destination siem is configured twice');
+  });
+});
@@ -1,144 +1,174 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
 import { LoggerService } from '../common/services/logger.service';
+import {
+  SiemDestinationConfig,
+  siemDestinationSchema,
+  SiemEvent,
+  SiemExporter,
+} from './exporters/siem-exporter.interface';
+import { createSiemExporter } from './exporters/siem-exporter.factory';
 
-// Conditional import for Elasticsearch
-let Client: any;
-try {
-  const elasticsearch = require('@elastic/elasticsearch');
-  Client = elasticsearch.Client;
-} catch (error) {
-  // Elasticsearch not installed, use mock
-  Client = class MockClient {
-    async index() { return { result: 'created' }; }
-    async cluster() { return { health: () => ({ status: 'green' }) }; }
-    async indices() { 
-      return { 
-        exists: () => true, 
-        create: () => true, 
-        stats: () => ({ indices: {} }) 
-      }; 
+/** Thrown when some destinations did not accept an event */
+export class SiemDeliveryError extends Error {
+  constructor(readonly failures: Record<string, string>) {
+    super(
+      Object.entries(failures)
+        .map(([destination, error]) => `${destination}: ${error}`)
+        .join('; '),
+    );
+    this.name = 'SiemDeliveryError';
+  }
+}
+
+interface PendingEvent {
+  event: SiemEvent;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Collects the events for one destination and sends them once a batch is
+ * full or the flush interval passed. Batches are sent one after another.
+ */
+class SiemBatcher {
+  private pending: PendingEvent[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly exporter: SiemExporter,
+    private readonly batchSize: number,
+    private readonly flushIntervalMs: number,
+  ) {}
+
+  get queued(): number {
+    return this.pending.length;
+  }
+
+  add(event: SiemEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ event, resolve, reject });
+      if (this.pending.length >= this.batchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      }
+    });
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.batchSize);
+      this.sending = this.sending.then(async () => {
+        try {
+          await this.exporter.export(batch.map((entry) => entry.event));
+          batch.forEach((entry) => entry.resolve());
+        } catch (error) {
+          batch.forEach((entry) => entry.reject(error as Error));
+        }
+      });
     }
-  };
+    return this.sending;
+  }
 }
 
+/**
+ * Streams audit logs to every configured SIEM destination. Destinations are
+ * configured as a JSON array in SIEM_DESTINATIONS; ELASTICSEARCH_URL still
+ * adds an `elasticsearch` destination on its own.
+ */
 @Injectable()
-export class SiemService implements OnModuleInit {
-  private readonly client: any;
-  private readonly isEnabled: boolean;
-  private readonly indexName: string;
+export class SiemService implements OnModuleInit, OnModuleDestroy {
+  private readonly batchers = new Map<string, SiemBatcher>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly logger: LoggerService,
   ) {
-    const elasticsearchUrl = this.configService.get<string>('ELASTICSEARCH_URL');
-    this.isEnabled = !!elasticsearchUrl && elasticsearchUrl !== '';
-    this.indexName = this.configService.get<string>('ELASTICSEARCH_AUDIT_INDEX', 'audit-logs');
-
-    if (this.isEnabled) {
-      this.client = new Client({
-        node: elasticsearchUrl,
-        auth: {
-          username: this.configService.get<string>('ELASTICSEARCH_USERNAME', ''),
-          password: this.configService.get<string>('ELASTICSEARCH_PASSWORD', ''),
-        },
-        requestTimeout: 10000,
-        maxRetries: 3,
-      });
+    for (const destination of this.loadDestinations()) {
+      this.batchers.set(
+        destination.name,
+        new SiemBatcher(
+          createSiemExporter(destination),
+          destination.batchSize,
+          destination.flushIntervalMs,
+        ),
+      );
     }
   }
 
   async onModuleInit() {
-    if (this.isEnabled) {
-      await this.ensureIndexExists();
-      this.logger.log('SIEM service connected to Elasticsearch successfully');
-    } else {
-      this.logger.log('SIEM service disabled - no Elasticsearch URL configured');
-    }
-  }
-
-  async streamAuditLog(log: any): Promise<void> {
-    if (!this.isEnabled) {
-      this.logger.debug('SIEM streaming disabled, skipping audit log');
+    if (this.batchers.size === 0) {
+      this.logger.log('SIEM service disabled - no destinations configured');
       return;
     }
 
-    try {
-      const enrichedLog = {
-        ...log,
-        '@timestamp': log.timestamp || new Date().toISOString(),
-        service: 'alignzo',
-        environment: this.configService.get<string>('NODE_ENV', 'development'),
-        version: this.configService.get<string>('APP_VERSION', '1.0.0'),
-      };
-
-      await this.client.index({
-        index: this.indexName,
-        body: enrichedLog,
-      });
+    for (const { exporter } of this.batchers.values()) {
+      try {
+        await exporter.init?.();
+      } catch (error) {
+        this.logger.warn(
+          `Failed to prepare SIEM destination ${exporter.name}: ${(error as Error).message}`,
+        );
+      }
+    }
+    this.logger.log(
+      `SIEM streaming to ${Array.from(this.batchers.keys()).join(', ')}`,
+    );
+  }
 
-      this.logger.debug(`Audit log streamed to SIEM index ${this.indexName}`, {
-        auditLogId: log.id,
-        action: log.action,
-        entity: log.entity,
-      });
-    } catch (error) {
-      this.logger.error(`Failed to stream audit log to SIEM: ${error.message}`, error.stack, {
-        auditLogId: log.id,
-        error: error.message,
-      });
-      throw error;
+  async onModuleDestroy() {
+    for (const batcher of this.batchers.values()) {
+      await batcher.flush();
+      await batcher.exporter.close?.();
     }
   }
 
+  /** Names of the configured destinations */
+  get destinations(): string[] {
+    return Array.from(this.batchers.keys());
+  }
+
   /**
-   * Ensure the audit logs index exists with proper mapping
+   * Resolves once every destination, or only the given ones, accepted the
+   * batch holding the log. Throws a SiemDeliveryError naming the
+   * destinations that did not.
    */
-  private async ensureIndexExists(): Promise<void> {
-    try {
-      const exists = await this.client.indices.exists({
-        index: this.indexName,
-      });
+  async streamAuditLog(log: SiemEvent, destinations?: string[]): Promise<void> {
+    if (this.batchers.size === 0) {
+      this.logger.debug('SIEM streaming disabled, skipping audit log');
+      return;
+    }
 
-      if (!exists) {
-        await this.client.indices.create({
-          index: this.indexName,
-          body: {
-            mappings: {
-              properties: {
-                '@timestamp': { type: 'date' },
-                id: { type: 'keyword' },
-                userId: { type: 'keyword' },
-                action: { type: 'keyword' },
-                entity: { type: 'keyword' },
-                entityId: { type: 'keyword' },
-                ipAddress: { type: 'ip' },
-                userAgent: { type: 'text', analyzer: 'standard' },
-                sessionId: { type: 'keyword' },
-                oldValues: { type: 'object', enabled: false },
-                newValues: { type: 'object', enabled: false },
-                metadata: { type: 'object', enabled: false },
-                service: { type: 'keyword' },
-                environment: { type: 'keyword' },
-                version: { type: 'keyword' },
-                timestamp: { type: 'date' },
-              },
-            },
-            settings: {
-              number_of_shards: 1,
-              number_of_replicas: 1,
-              'index.lifecycle.name': 'audit-logs-policy',
-              'index.lifecycle.rollover_alias': 'audit-logs',
-            },
-          },
-        });
-
-        this.logger.log(`Created SIEM index: ${this.indexName}`);
+    const event: SiemEvent = {
+      ...log,
+      service: 'alignzo',
+      environment: this.configService.get<string>('NODE_ENV', 'development'),
+      version: this.configService.get<string>('APP_VERSION', '1.0.0'),
+    };
+    const targets = destinations ?? this.destinations;
+    const results = await Promise.allSettled(
+      targets.map((name) => {
+        const batcher = this.batchers.get(name);
+        return batcher
+          ? batcher.add(event)
+          : Promise.reject(new Error('Destination is not configured'));
+      }),
+    );
+
+    const failures: Record<string, string> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures[targets[index]] = (result.reason as Error).message;
       }
-    } catch (error) {
-      this.logger.warn(`Failed to ensure SIEM index exists: ${error.message}`);
-      throw error;
+    });
+    if (Object.keys(failures).length > 0) {
+      throw new SiemDeliveryError(failures);
     }
   }
 
@@ -146,57 +176,84 @@ export class SiemService implements OnModuleInit {
    * Health check for SIEM service
    */
   async isHealthy(): Promise<boolean> {
-    if (!this.isEnabled) {
-      return true; // Service is disabled, consider it healthy
-    }
-
-    try {
-      const health = await this.client.cluster.health();
-      return health.status === 'green' || health.status === 'yellow';
-    } catch (error) {
-      this.logger.warn(`SIEM health check failed: ${error.message}`);
-      return false;
-    }
+    const status = await this.getStatus();
+    return status.destinations.every((destination) => destination.healthy);
   }
 
   /**
    * Get SIEM service status
    */
-  async getStatus(): Promise<any> {
-    if (!this.isEnabled) {
-      return {
-        enabled: false,
-        status: 'disabled',
-        message: 'SIEM service is disabled',
-      };
+  async getStatus() {
+    const destinations = await Promise.all(
+      Array.from(this.batchers.values()).map(async (batcher) => ({
+        name: batcher.exporter.name,
+        type: batcher.exporter.type,
+        queued: batcher.queued,
+        ...(await batcher.exporter.healthCheck()),
+      })),
+    );
+
+    return {
+      enabled: destinations.length > 0,
+      status:
+        destinations.length === 0
+          ? 'disabled'
+          : destinations.every((destination) => destination.healthy)
+            ? 'healthy'
+            : 'degraded',
+      destinations,
+    };
+  }
+
+  private loadDestinations(): SiemDestinationConfig[] {
+    const raw = this.configService.get<string>('SIEM_DESTINATIONS');
+    let destinations: SiemDestinationConfig[] = [];
+    if (raw) {
+      let json: unknown;
+      try {
+        json = JSON.parse(raw);
+      } catch {
+        throw new Error('SIEM_DESTINATIONS must be a JSON array');
+      }
+      const parsed = z.array(siemDestinationSchema).safeParse(json);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid SIEM_DESTINATIONS: ${parsed.error.issues
+            .map((issue) => `${issue.path.join('.')} ${issue.message}`)
+            .join(', ')}`,
+        );
+      }
+      destinations = parsed.data;
     }
 
-    try {
-      const health = await this.client.cluster.health();
-      const indexStats = await this.client.indices.stats({
-        index: this.indexName,
-      });
+    const elasticsearchUrl =
+      this.configService.get<string>('ELASTICSEARCH_URL');
+    if (
+      elasticsearchUrl &&
+      !destinations.some((d) => d.name === 'elasticsearch')
+    ) {
+      destinations.push(
+        siemDestinationSchema.parse({
+          name: 'elasticsearch',
+          type: 'elasticsearch',
+          url: elasticsearchUrl,
+          index: this.configService.get<string>(
+            'ELASTICSEARCH_AUDIT_INDEX',
+            'audit-logs',
+          ),
+          username: this.configService.get<string>('ELASTICSEARCH_USERNAME'),
+          password: this.configService.get<string>('ELASTICSEARCH_PASSWORD'),
+        }),
+      );
+    }
 
-      return {
-        enabled: true,
-        status: health.status,
-        cluster: {
-          name: health.cluster_name,
-          status: health.status,
-          nodes: health.number_of_nodes,
-        },
-        index: {
-          name: this.indexName,
-          docs: indexStats.indices?.[this.indexName]?.total?.docs?.count || 0,
-          size: indexStats.indices?.[this.indexName]?.total?.store?.size_in_bytes || 0,
-        },
-      };
-    } catch (error) {
-      return {
-        enabled: true,
-        status: 'error',
-        error: error.message,
-      };
+    const names = destinations.map((destination) => destination.name);
+    const duplicate = names.find(
+      (name, index) => names.indexOf(name) !== index,
+    );
+    if (duplicate) {
+      throw new Error(`SIEM destination ${duplicate} is configured twice`);
     }
+    return destinations;
   }
 }
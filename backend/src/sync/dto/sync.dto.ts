@@ -0,0 +1,95 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+export const SYNC_ENTITIES = [
+  'project',
+  'team',
+  'time-session',
+  'work-log',
+] as const;
+export type SyncEntity = (typeof SYNC_ENTITIES)[number];
+
+export const SYNC_OPERATIONS = ['create', 'update', 'delete'] as const;
+export type SyncOperation = (typeof SYNC_OPERATIONS)[number];
+
+export class PullSyncDto {
+  @ApiPropertyOptional({
+    description:
+      'Cursor returned by the previous pull; omit it for a full first sync',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum changes per entity and deletions per page',
+    default: 100,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class SyncMutationDto {
+  @ApiProperty({
+    description:
+      'ID the client gave the change, echoed in its result; for creates the local ID of the new record',
+  })
+  @IsString()
+  clientId: string;
+
+  @ApiProperty({ enum: ['time-session', 'work-log'] })
+  @IsIn(SYNC_ENTITIES)
+  entity: SyncEntity;
+
+  @ApiProperty({ enum: SYNC_OPERATIONS })
+  @IsIn(SYNC_OPERATIONS)
+  operation: SyncOperation;
+
+  @ApiPropertyOptional({ description: 'Server ID of the record to change' })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'updatedAt of the record when the client last synced it, required to update or delete; the change is a conflict if the server copy is newer',
+  })
+  @ValidateIf((mutation: SyncMutationDto) => mutation.operation !== 'create')
+  @IsDateString()
+  baseUpdatedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fields accepted by the matching create or update endpoint',
+  })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, unknown>;
+}
+
+export class PushSyncDto {
+  @ApiProperty({ type: [SyncMutationDto] })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => SyncMutationDto)
+  mutations: SyncMutationDto[];
+}
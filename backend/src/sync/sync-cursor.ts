@@ -0,0 +1,43 @@
+import { BadRequestException } from '@nestjs/common';
+import { z } from 'zod';
+import { SYNC_ENTITIES } from './dto/sync.dto';
+
+const positionSchema = z.object({
+  at: z.string().datetime(),
+  id: z.string().uuid(),
+});
+
+const cursorSchema = z.object({
+  v: z.literal(1),
+  changes: z.record(z.enum(SYNC_ENTITIES), positionSchema),
+  deletions: positionSchema,
+});
+
+/** Last record a client received; records are read in (time, ID) order */
+export type SyncPosition = z.infer<typeof positionSchema>;
+
+export type SyncCursor = Omit<z.infer<typeof cursorSchema>, 'v'>;
+
+/**
+ * Cursors are opaque to clients: base64url JSON holding the position reached
+ * for every entity and for deletions, so an interrupted sync resumes where
+ * the last page ended.
+ */
+export function encodeSyncCursor(cursor: SyncCursor): string {
+  return Buffer.from(JSON.stringify({ v: 1, ...cursor })).toString('base64url');
+}
+
+export function decodeSyncCursor(value: string): SyncCursor {
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.from(value, 'base64url').toString());
+  } catch {
+    throw new BadRequestException('Invalid sync cursor');
+  }
+  const parsed = cursorSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new BadRequestException('Invalid sync cursor');
+  }
+  const { changes, deletions } = parsed.data;
+  return { changes, deletions };
+}
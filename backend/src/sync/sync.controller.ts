@@ -1,15 +1,53 @@
-import { Controller, Get, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { SyncService } from './sync.service';
+import { PullSyncDto, PushSyncDto } from './dto/sync.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 
 @ApiTags('Sync')
+@ApiBearerAuth()
 @Controller('sync')
+@UseGuards(JwtAuthGuard)
 export class SyncController {
   constructor(private readonly syncService: SyncService) {}
 
   @Get()
-  @ApiOperation({ summary: 'Sync data incrementally' })
-  sync(@Query('lastSync') lastSync: string) {
-    return this.syncService.sync(new Date(lastSync));
+  @ApiOperation({
+    summary: 'Pull changes and deletions since the last sync',
+  })
+  @ApiResponse({ status: 200, description: 'Page of changes with a cursor' })
+  @ApiResponse({ status: 400, description: 'Invalid sync cursor' })
+  pull(@Query() query: PullSyncDto, @Request() req) {
+    return this.syncService.pull(req.user.id, query.cursor, query.limit);
+  }
+
+  @Post('push')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Apply changes made offline',
+    description:
+      'Send an Idempotency-Key header so a retried push is not applied twice',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Result of every change: applied, conflict or rejected',
+  })
+  push(@Body() pushSyncDto: PushSyncDto, @Request() req) {
+    return this.syncService.push(req.user.id, pushSyncDto.mutations);
   }
 }
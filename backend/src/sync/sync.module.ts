@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { SyncController } from './sync.controller';
 import { SyncService } from './sync.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { WorkLogsModule } from '../work-logs/work-logs.module';
+import { TimeSessionsModule } from '../time-sessions/time-sessions.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, WorkLogsModule, TimeSessionsModule],
   controllers: [SyncController],
   providers: [SyncService],
 })
@@ -0,0 +1,396 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SyncService } from './sync.service';
+import { encodeSyncCursor } from './sync-cursor';
+import { PrismaService } from '../prisma/prisma.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { TimeSessionsService } from '../time-sessions/time-sessions.service';
+
+describe('SyncService', () => {
+  let service: SyncService;
+
+  const mockPrismaService = {
+    project: { findMany: jest.fn() },
+    team: { findMany: jest.fn() },
+    timeSession: { findMany: jest.fn() },
+    workLog: { findMany: jest.fn() },
+    syncTombstone: { findMany: jest.fn(), findFirst: jest.fn() },
+  };
+  const mockDataScopeService = { getAccessScopeWhereClause: jest.fn() };
+  const mockPermissionService = { checkUserPermission: jest.fn() };
+  const mockWorkLogsService = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+  const mockTimeSessionsService = {
+    buildWhere: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const at = (time: string) => new Date(`2025-03-01T${time}Z`);
+  const LOG_ID = '6f1c1c1e-8d3b-4c55-9d7a-2a4f0c6b1e01';
+  const PROJECT_ID = '9a2e4d6b-1c3f-4e5a-8b7d-0f1e2d3c4b5a';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: DataScopeService, useValue: mockDataScopeService },
+        { provide: PermissionService, useValue: mockPermissionService },
+        { provide: WorkLogsService, useValue: mockWorkLogsService },
+        { provide: TimeSessionsService, useValue: mockTimeSessionsService },
+      ],
+    }).compile();
+
+    service = module.get<SyncService>(SyncService);
+
+    mockPermissionService.checkUserPermission.mockResolvedValue(true);
+    mockDataScopeService.getAccessScopeWhereClause.mockResolvedValue({
+      organizationId: 'org-1',
+    });
+    mockTimeSessionsService.buildWhere.mockReturnValue({ userId: 'user-1' });
+    for (const delegate of ['project', 'team', 'timeSession', 'workLog']) {
+      mockPrismaService[delegate].findMany.mockResolvedValue([]);
+    }
+    mockPrismaService.syncTombstone.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('pull', () => {
+    it('should page changes and report soft-deleted records as deletions', async () => {
+      mockPermissionService.checkUserPermission.mockImplementation(
+        (_userId: string, resource: string) => resource !== 'teams',
+      );
+      mockPrismaService.project.findMany.mockResolvedValue([
+        { id: 'project-1', updatedAt: at('09:00:00'), isActive: true },
+        { id: PROJECT_ID, updatedAt: at('10:00:00'), isActive: false },
+        { id: 'project-3', updatedAt: at('11:00:00'), isActive: true },
+      ]);
+
+      const result = await service.pull('user-1', undefined, 2);
+
+      expect(result.changes).toEqual({
+        projects: [expect.objectContaining({ id: 'project-1' })],
+        teams: [],
+        timeSessions: [],
+        workLogs: [],
+      });
+      expect(result.deleted).toEqual([
+        { entity: 'project', id: PROJECT_ID, deletedAt: at('10:00:00') },
+      ]);
+      expect(result.hasMore).toBe(true);
+      expect(mockPrismaService.team.findMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.project.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+          take: 3,
+        }),
+      );
+
+      // The next page starts after the last record that was sent
+      await service.pull('user-1', result.cursor, 2);
+      expect(mockPrismaService.project.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              expect.anything(),
+              {
+                OR: [
+                  { updatedAt: { gt: at('10:00:00') } },
+                  { updatedAt: at('10:00:00'), id: { gt: PROJECT_ID } },
+                ],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should send tombstones of records deleted since the cursor to who could see them', async () => {
+      const cursor = encodeSyncCursor({
+        changes: {},
+        deletions: { at: '2025-03-01T08:00:00.000Z', id: LOG_ID },
+      });
+      mockPrismaService.syncTombstone.findMany.mockResolvedValue([
+        {
+          id: 'c2d1b7a0-5d0e-4b8f-8a43-0f2b1a9e7c11',
+          entity: 'work-log',
+          entityId: 'log-9',
+          deletedAt: at('09:30:00'),
+        },
+      ]);
+
+      const result = await service.pull('user-1', cursor);
+
+      expect(result.deleted).toEqual([
+        { entity: 'work-log', id: 'log-9', deletedAt: at('09:30:00') },
+      ]);
+      expect(mockPrismaService.syncTombstone.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {
+                OR: [
+                  { entity: 'time-session', userId: 'user-1' },
+                  {
+                    entity: 'work-log',
+                    OR: [{ userId: 'user-1' }, { organizationId: 'org-1' }],
+                  },
+                ],
+              },
+              {
+                OR: [
+                  { deletedAt: { gt: at('08:00:00') } },
+                  { deletedAt: at('08:00:00'), id: { gt: LOG_ID } },
+                ],
+              },
+            ],
+          },
+        }),
+      );
+      expect(
+        mockDataScopeService.getAccessScopeWhereClause,
+      ).toHaveBeenCalledWith('user-1', 'work-log-tombstone');
+    });
+
+    it('should reject cursors it did not issue', async () => {
+      await expect(service.pull('user-1', 'not-a-cursor')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('push', () => {
+    const workLog = {
+      id: LOG_ID,
+      description: 'Fix login',
+      updatedAt: at('10:00:00'),
+    };
+
+    it('should create records through the entity service', async () => {
+      mockWorkLogsService.create.mockResolvedValue(workLog);
+
+      const { results } = await service.push('user-1', [
+        {
+          clientId: 'local-1',
+          entity: 'work-log',
+          operation: 'create',
+          data: {
+            projectId: '0b6f7c52-3d1a-4e0c-9a51-7c3b2d1e4f60',
+            description: 'Fix login',
+            duration: 3600,
+            startTime: '2025-03-01T09:00:00Z',
+            endTime: '2025-03-01T10:00:00Z',
+          },
+        },
+      ]);
+
+      expect(results).toEqual([
+        { clientId: 'local-1', status: 'applied', id: LOG_ID, record: workLog },
+      ]);
+      expect(mockPermissionService.checkUserPermission).toHaveBeenCalledWith(
+        'user-1',
+        'work_logs',
+        'create',
+      );
+    });
+
+    it('should report a conflict when the server copy is newer', async () => {
+      mockWorkLogsService.findOne.mockResolvedValue(workLog);
+
+      const { results } = await service.push('user-1', [
+        {
+          clientId: 'change-1',
+          entity: 'work-log',
+          operation: 'update',
+          id: LOG_ID,
+          baseUpdatedAt: '2025-03-01T09:00:00Z',
+          data: { description: 'Fix login flow' },
+        },
+        {
+          clientId: 'change-2',
+          entity: 'work-log',
+          operation: 'update',
+          id: LOG_ID,
+          baseUpdatedAt: '2025-03-01T10:00:00Z',
+          data: { description: 'Fix login flow' },
+        },
+      ]);
+
+      expect(results[0]).toEqual({
+        clientId: 'change-1',
+        status: 'conflict',
+        id: LOG_ID,
+        reason: 'modified',
+        record: workLog,
+      });
+      expect(results[1].status).toBe('applied');
+      expect(mockWorkLogsService.update).toHaveBeenCalledTimes(1);
+      expect(mockWorkLogsService.update).toHaveBeenCalledWith(
+        LOG_ID,
+        expect.objectContaining({ description: 'Fix login flow' }),
+        'user-1',
+      );
+    });
+
+    it('should report a conflict when the client does not say which copy it changed', async () => {
+      mockWorkLogsService.findOne.mockResolvedValue(workLog);
+
+      const { results } = await service.push('user-1', [
+        {
+          clientId: 'change-1',
+          entity: 'work-log',
+          operation: 'delete',
+          id: LOG_ID,
+        },
+      ]);
+
+      expect(results[0]).toEqual(
+        expect.objectContaining({ status: 'conflict', reason: 'modified' }),
+      );
+      expect(mockWorkLogsService.remove).not.toHaveBeenCalled();
+    });
+
+    it('should treat records deleted on the server as conflicts for updates only', async () => {
+      mockTimeSessionsService.findOne.mockRejectedValue(
+        new NotFoundException(`Time session with ID ${LOG_ID} not found`),
+      );
+      mockPrismaService.syncTombstone.findFirst.mockResolvedValue({
+        entityId: LOG_ID,
+      });
+
+      const { results } = await service.push('user-1', [
+        {
+          clientId: 'change-1',
+          entity: 'time-session',
+          operation: 'update',
+          id: LOG_ID,
+          data: { description: 'Standup' },
+        },
+        {
+          clientId: 'change-2',
+          entity: 'time-session',
+          operation: 'delete',
+          id: LOG_ID,
+        },
+      ]);
+
+      expect(results).toEqual([
+        {
+          clientId: 'change-1',
+          status: 'conflict',
+          id: LOG_ID,
+          reason: 'deleted',
+        },
+        { clientId: 'change-2', status: 'applied', id: LOG_ID },
+      ]);
+      expect(mockTimeSessionsService.remove).not.toHaveBeenCalled();
+    });
+
+    it('should reject changes that fail permissions, validation or the service', async () => {
+      mockPermissionService.checkUserPermission.mockImplementation(
+        (_userId: string, resource: string, action: string) =>
+          !(resource === 'time_sessions' && action === 'delete'),
+      );
+      mockWorkLogsService.findOne.mockRejectedValue(
+        new BadRequestException('You do not have access to this work log'),
+      );
+
+      const { results } = await service.push('user-1', [
+        { clientId: 'change-1', entity: 'project', operation: 'create' },
+        {
+          clientId: 'change-2',
+          entity: 'time-session',
+          operation: 'delete',
+          id: LOG_ID,
+        },
+        {
+          clientId: 'change-3',
+          entity: 'work-log',
+          operation: 'create',
+          data: { duration: 'an hour' },
+        },
+        {
+          clientId: 'change-4',
+          entity: 'work-log',
+          operation: 'delete',
+          id: LOG_ID,
+        },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        'rejected',
+        'rejected',
+        'rejected',
+        'rejected',
+      ]);
+      expect(results[0].error).toBe(
+        'project records cannot be changed through sync',
+      );
+      expect(results[1].error).toBe(
+        'Insufficient permissions. Required: time_sessions.delete',
+      );
+      expect(results[2].error).toMatch(/duration must be/);
+      expect(results[3].error).toBe('You do not have access to this work log');
+      expect(mockWorkLogsService.create).not.toHaveBeenCalled();
+      expect(mockWorkLogsService.remove).not.toHaveBeenCalled();
+    });
+
+    it('should let unexpected errors through', async () => {
+      mockWorkLogsService.findOne.mockResolvedValue(workLog);
+      mockWorkLogsService.remove.mockRejectedValue(
+        new ForbiddenException('Nope'),
+      );
+      await expect(
+        service.push('user-1', [
+          {
+            clientId: 'change-1',
+            entity: 'work-log',
+            operation: 'delete',
+            id: LOG_ID,
+            baseUpdatedAt: '2025-03-01T10:00:00Z',
+          },
+        ]),
+      ).resolves.toEqual({
+        results: [
+          {
+            clientId: 'change-1',
+            status: 'rejected',
+            id: LOG_ID,
+            error: 'Nope',
+          },
+        ],
+      });
+
+      mockWorkLogsService.remove.mockRejectedValue(
+        new Error('Lost connection'),
+      );
+      await expect(
+        service.push('user-1', [
+          {
+            clientId: 'change-1',
+            entity: 'work-log',
+            operation: 'delete',
+            id: LOG_ID,
+            baseUpdatedAt: '2025-03-01T10:00:00Z',
+          },
+        ]),
+      ).rejects.toThrow('Lost connection');
+    });
+  });
+});
@@ -1,30 +1,442 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { PrismaService } from '../prisma/prisma.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { PermissionService } from '../common/services/permission.service';
+import { WorkLogsService } from '../work-logs/work-logs.service';
+import { TimeSessionsService } from '../time-sessions/time-sessions.service';
+import { CreateWorkLogDto } from '../work-logs/dto/create-work-log.dto';
+import { UpdateWorkLogDto } from '../work-logs/dto/update-work-log.dto';
+import { CreateTimeSessionDto } from '../time-sessions/dto/create-time-session.dto';
+import { UpdateTimeSessionDto } from '../time-sessions/dto/update-time-session.dto';
+import { SYNC_ENTITIES, SyncEntity, SyncMutationDto } from './dto/sync.dto';
+import {
+  decodeSyncCursor,
+  encodeSyncCursor,
+  SyncCursor,
+  SyncPosition,
+} from './sync-cursor';
 
+const DEFAULT_LIMIT = 100;
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+/** Fields every synced record has */
+interface SyncRecord {
+  id: string;
+  updatedAt: Date | null;
+  isActive?: boolean | null;
+}
+
+/** Applies client changes through the entity's own service. */
+interface SyncMutationHandler {
+  createDto: ClassConstructor<object>;
+  updateDto: ClassConstructor<object>;
+  findOne(id: string, userId: string): Promise<SyncRecord>;
+  create(data: object, userId: string): Promise<SyncRecord>;
+  update(id: string, data: object, userId: string): Promise<SyncRecord>;
+  remove(id: string, userId: string): Promise<unknown>;
+}
+
+/** Reads the changes of one entity that a user is allowed to see. */
+interface SyncSource {
+  /** Key of the entity's records in a pull */
+  collection: string;
+  /** Permission resource of the entity's endpoints */
+  resource: string;
+  read(
+    userId: string,
+    position: SyncPosition | undefined,
+    take: number,
+  ): Promise<SyncRecord[]>;
+  /** Tombstones sent to the user; soft-deleted entities have none */
+  tombstones?(
+    userId: string,
+  ): Prisma.SyncTombstoneWhereInput | Promise<Prisma.SyncTombstoneWhereInput>;
+  /** Set for entities clients can change while offline */
+  mutations?: SyncMutationHandler;
+}
+
+export interface SyncDeletion {
+  entity: SyncEntity;
+  id: string;
+  deletedAt: Date;
+}
+
+export interface SyncMutationResult {
+  clientId: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  id?: string;
+  /** The record after the change, or the server copy on a conflict */
+  record?: SyncRecord;
+  /** Why a change conflicted */
+  reason?: 'modified' | 'deleted';
+  error?: string;
+}
+
+/** Records changed after a position, in (updatedAt, id) order */
+const changedAfter = (position?: SyncPosition) => {
+  if (!position) return { updatedAt: { not: null } };
+  const at = new Date(position.at);
+  return {
+    OR: [{ updatedAt: { gt: at } }, { updatedAt: at, id: { gt: position.id } }],
+  };
+};
+
+const orderByChange = [{ updatedAt: 'asc' as const }, { id: 'asc' as const }];
+
+/**
+ * Incremental sync for offline clients. A pull returns the records changed
+ * since the client's cursor plus deletions, a page at a time; a push applies
+ * the changes made offline and reports conflicts with newer server copies.
+ */
 @Injectable()
 export class SyncService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly sources: Record<SyncEntity, SyncSource>;
 
-  async sync(lastSync: Date) {
-    const users = await this.prisma.user.findMany({
-      where: {
-        updatedAt: {
-          gt: lastSync,
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionService: PermissionService,
+    dataScopeService: DataScopeService,
+    workLogsService: WorkLogsService,
+    timeSessionsService: TimeSessionsService,
+  ) {
+    this.sources = {
+      project: {
+        collection: 'projects',
+        resource: 'projects',
+        read: async (userId, position, take) => {
+          const scope = await dataScopeService.getAccessScopeWhereClause(
+            userId,
+            'project',
+          );
+          return prisma.project.findMany({
+            where: {
+              AND: [
+                {
+                  OR: [
+                    scope,
+                    { ownerId: userId },
+                    { members: { some: { userId, isActive: true } } },
+                  ],
+                },
+                changedAfter(position),
+              ],
+            },
+            orderBy: orderByChange,
+            take,
+          });
         },
       },
-    });
-
-    const workLogs = await this.prisma.workLog.findMany({
-      where: {
-        updatedAt: {
-          gt: lastSync,
+      team: {
+        collection: 'teams',
+        resource: 'teams',
+        read: async (userId, position, take) => {
+          const scope = await dataScopeService.getAccessScopeWhereClause(
+            userId,
+            'team',
+          );
+          return prisma.team.findMany({
+            where: { AND: [scope, changedAfter(position)] },
+            orderBy: orderByChange,
+            take,
+          });
         },
       },
-    });
+      'time-session': {
+        collection: 'timeSessions',
+        resource: 'time_sessions',
+        read: (userId, position, take) =>
+          prisma.timeSession.findMany({
+            where: {
+              AND: [
+                timeSessionsService.buildWhere(userId),
+                changedAfter(position),
+              ],
+            },
+            orderBy: orderByChange,
+            take,
+          }),
+        tombstones: (userId) => ({ entity: 'time-session', userId }),
+        mutations: {
+          createDto: CreateTimeSessionDto,
+          updateDto: UpdateTimeSessionDto,
+          findOne: (id, userId) =>
+            timeSessionsService.findOne(id, userId, 'EMPLOYEE'),
+          create: (data, userId) => timeSessionsService.create(data, userId),
+          update: (id, data, userId) =>
+            timeSessionsService.update(id, data, userId),
+          remove: (id, userId) => timeSessionsService.remove(id, userId),
+        },
+      },
+      'work-log': {
+        collection: 'workLogs',
+        resource: 'work_logs',
+        read: async (userId, position, take) => {
+          const scope = await dataScopeService.getAccessScopeWhereClause(
+            userId,
+            'work-log',
+          );
+          return prisma.workLog.findMany({
+            where: { AND: [scope, changedAfter(position)] },
+            orderBy: orderByChange,
+            take,
+          });
+        },
+        // Deleted logs reach their owner and whoever the pull showed them to
+        tombstones: async (userId) => ({
+          entity: 'work-log',
+          OR: [
+            { userId },
+            await dataScopeService.getAccessScopeWhereClause(
+              userId,
+              'work-log-tombstone',
+            ),
+          ],
+        }),
+        mutations: {
+          createDto: CreateWorkLogDto,
+          updateDto: UpdateWorkLogDto,
+          findOne: (id, userId) => workLogsService.findOne(id, userId),
+          create: (data, userId) =>
+            workLogsService.create(data as CreateWorkLogDto, userId),
+          update: (id, data, userId) =>
+            workLogsService.update(id, data, userId),
+          remove: (id, userId) => workLogsService.remove(id, userId),
+        },
+      },
+    };
+  }
+
+  /**
+   * The next page of changes after the cursor. Records of every entity the
+   * user can read come oldest change first, with soft-deleted projects and
+   * teams and tombstones of removed records listed under `deleted`. Clients
+   * pull until `hasMore` is false and keep the last cursor for the next sync.
+   */
+  async pull(userId: string, cursor?: string, limit = DEFAULT_LIMIT) {
+    const serverTime = new Date();
+    // A first sync downloads everything, so older deletions do not matter
+    const state: SyncCursor = cursor
+      ? decodeSyncCursor(cursor)
+      : {
+          changes: {},
+          deletions: { at: serverTime.toISOString(), id: NIL_UUID },
+        };
+    const entities = await this.readableEntities(userId);
+
+    const changes: Record<string, SyncRecord[]> = {};
+    const deleted: SyncDeletion[] = [];
+    let hasMore = false;
+
+    for (const entity of SYNC_ENTITIES) {
+      const source = this.sources[entity];
+      changes[source.collection] = [];
+      if (!entities.includes(entity)) continue;
+
+      const records = await source.read(
+        userId,
+        state.changes[entity],
+        limit + 1,
+      );
+      hasMore ||= records.length > limit;
+      const page = records.slice(0, limit);
+      if (page.length === 0) continue;
+
+      const last = page[page.length - 1];
+      state.changes[entity] = {
+        at: last.updatedAt!.toISOString(),
+        id: last.id,
+      };
+      for (const record of page) {
+        if (record.isActive === false) {
+          deleted.push({ entity, id: record.id, deletedAt: record.updatedAt! });
+        } else {
+          changes[source.collection].push(record);
+        }
+      }
+    }
+
+    const visible = await Promise.all(
+      entities.flatMap((entity) => {
+        const { tombstones } = this.sources[entity];
+        return tombstones ? [tombstones(userId)] : [];
+      }),
+    );
+    if (visible.length > 0) {
+      const at = new Date(state.deletions.at);
+      const tombstones = await this.prisma.syncTombstone.findMany({
+        where: {
+          AND: [
+            { OR: visible },
+            {
+              OR: [
+                { deletedAt: { gt: at } },
+                { deletedAt: at, id: { gt: state.deletions.id } },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ deletedAt: 'asc' }, { id: 'asc' }],
+        take: limit + 1,
+      });
+      hasMore ||= tombstones.length > limit;
+      const page = tombstones.slice(0, limit);
+      if (page.length > 0) {
+        const last = page[page.length - 1];
+        state.deletions = { at: last.deletedAt.toISOString(), id: last.id };
+      }
+      deleted.push(
+        ...page.map((tombstone) => ({
+          entity: tombstone.entity as SyncEntity,
+          id: tombstone.entityId,
+          deletedAt: tombstone.deletedAt,
+        })),
+      );
+    }
 
     return {
-      users,
-      workLogs,
+      changes,
+      deleted,
+      cursor: encodeSyncCursor(state),
+      hasMore,
+      serverTime,
     };
   }
+
+  /**
+   * Applies changes made offline in order, each through the entity's own
+   * service so permissions and validation match the regular endpoints. An
+   * update or delete whose `baseUpdatedAt` is missing or older than the
+   * server copy is not applied and comes back as a conflict with that copy.
+   */
+  async push(userId: string, mutations: SyncMutationDto[]) {
+    const results: SyncMutationResult[] = [];
+    for (const mutation of mutations) {
+      results.push(await this.apply(userId, mutation));
+    }
+    return { results };
+  }
+
+  private async apply(
+    userId: string,
+    mutation: SyncMutationDto,
+  ): Promise<SyncMutationResult> {
+    const { clientId, entity, operation, id } = mutation;
+    const { resource, mutations: handler } = this.sources[entity];
+    const reject = (error: string): SyncMutationResult => ({
+      clientId,
+      status: 'rejected',
+      ...(id && { id }),
+      error,
+    });
+
+    if (!handler) {
+      return reject(`${entity} records cannot be changed through sync`);
+    }
+    const allowed = await this.permissionService.checkUserPermission(
+      userId,
+      resource,
+      operation,
+    );
+    if (!allowed) {
+      return reject(
+        `Insufficient permissions. Required: ${resource}.${operation}`,
+      );
+    }
+
+    try {
+      if (operation === 'create') {
+        const data = await this.validateData(handler.createDto, mutation.data);
+        const record = await handler.create(data, userId);
+        return { clientId, status: 'applied', id: record.id, record };
+      }
+      if (!id) {
+        return reject(`id is required to ${operation} a record`);
+      }
+
+      let current: SyncRecord;
+      try {
+        current = await handler.findOne(id, userId);
+      } catch (error) {
+        const tombstone =
+          error instanceof NotFoundException &&
+          (await this.prisma.syncTombstone.findFirst({
+            where: { entity, entityId: id },
+          }));
+        if (!tombstone) throw error;
+        // Deleting a record that is already gone changes nothing
+        return operation === 'delete'
+          ? { clientId, status: 'applied', id }
+          : { clientId, status: 'conflict', id, reason: 'deleted' };
+      }
+
+      if (
+        !mutation.baseUpdatedAt ||
+        (current.updatedAt &&
+          current.updatedAt > new Date(mutation.baseUpdatedAt))
+      ) {
+        return {
+          clientId,
+          status: 'conflict',
+          id,
+          reason: 'modified',
+          record: current,
+        };
+      }
+
+      if (operation === 'delete') {
+        await handler.remove(id, userId);
+        return { clientId, status: 'applied', id };
+      }
+      const data = await this.validateData(handler.updateDto, mutation.data);
+      const record = await handler.update(id, data, userId);
+      return { clientId, status: 'applied', id, record };
+    } catch (error) {
+      if (error instanceof HttpException) return reject(error.message);
+      throw error;
+    }
+  }
+
+  /** Entities whose read permission the user has */
+  private async readableEntities(userId: string): Promise<SyncEntity[]> {
+    const allowed = await Promise.all(
+      SYNC_ENTITIES.map((entity) =>
+        this.permissionService.checkUserPermission(
+          userId,
+          this.sources[entity].resource,
+          'read',
+        ),
+      ),
+    );
+    return SYNC_ENTITIES.filter((_, index) => allowed[index]);
+  }
+
+  /** Validates pushed fields the way the endpoint's validation pipe would */
+  private async validateData(
+    dto: ClassConstructor<object>,
+    data: Record<string, unknown> = {},
+  ) {
+    const instance = plainToInstance(dto, data, {
+      enableImplicitConversion: true,
+    });
+    const errors = await validate(instance, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        errors
+          .flatMap((error) => Object.values(error.constraints ?? {}))
+          .join(', '),
+      );
+    }
+    return instance;
+  }
 }
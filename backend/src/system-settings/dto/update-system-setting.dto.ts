@@ -0,0 +1,11 @@
+import { IsDefined } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateSystemSettingDto {
+  @ApiProperty({
+    description: 'New value, validated against the schema of the setting',
+    example: { newOnboardingFlow: false },
+  })
+  @IsDefined()
+  value: unknown;
+}
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SystemSettingsService } from './system-settings.service';
+import { UpdateSystemSettingDto } from './dto/update-system-setting.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('system-settings')
+@ApiBearerAuth()
+@Controller('system-settings')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class SystemSettingsController {
+  constructor(private readonly systemSettingsService: SystemSettingsService) {}
+
+  @Get()
+  @RequirePermissions('settings', 'read')
+  @ApiOperation({
+    summary:
+      "List system settings with their values in the user's organization",
+  })
+  @ApiResponse({ status: 200, description: 'System settings retrieved' })
+  findAll(@Request() req) {
+    return this.systemSettingsService.findAll(req.user.organizationId);
+  }
+
+  @Patch(':key')
+  @RequirePermissions('settings', 'update')
+  @ApiOperation({
+    summary: "Change a system setting for the user's organization",
+  })
+  @ApiResponse({ status: 200, description: 'System setting updated' })
+  @ApiResponse({ status: 400, description: 'Value does not match the schema' })
+  @ApiResponse({ status: 404, description: 'Unknown system setting' })
+  update(
+    @Param('key') key: string,
+    @Body() updateSystemSettingDto: UpdateSystemSettingDto,
+    @Request() req,
+  ) {
+    return this.systemSettingsService.update(
+      key,
+      updateSystemSettingDto.value,
+      req.user.id,
+      req.user.organizationId,
+    );
+  }
+
+  @Delete(':key')
+  @RequirePermissions('settings', 'update')
+  @ApiOperation({ summary: 'Reset a system setting to the global default' })
+  @ApiResponse({ status: 200, description: 'System setting reset' })
+  @ApiResponse({ status: 404, description: 'Unknown system setting' })
+  reset(@Param('key') key: string, @Request() req) {
+    return this.systemSettingsService.reset(
+      key,
+      req.user.id,
+      req.user.organizationId,
+    );
+  }
+}
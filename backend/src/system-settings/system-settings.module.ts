@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { SystemSettingsService } from './system-settings.service';
+import { SystemSettingsController } from './system-settings.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+import { AuditLogsModule } from '../audit-logs/audit-logs.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule, AuditLogsModule],
+  controllers: [SystemSettingsController],
+  providers: [SystemSettingsService],
+  exports: [SystemSettingsService],
+})
+export class SystemSettingsModule {}
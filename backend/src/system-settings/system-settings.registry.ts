@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+export interface SystemSettingDefinition<
+  T extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  schema: T;
+  defaultValue: z.infer<T>;
+  category: string;
+  description: string;
+  /** Public settings are served to every client through `/config` */
+  isPublic: boolean;
+}
+
+const defineSetting = <T extends z.ZodTypeAny>(
+  definition: SystemSettingDefinition<T>,
+) => definition;
+
+/**
+ * Every setting that can be stored in `system_settings`. Keys missing from
+ * the table use their default value.
+ */
+export const SYSTEM_SETTINGS = {
+  'ui.featureFlags': defineSetting({
+    schema: z.record(z.string().min(1), z.boolean()),
+    defaultValue: { newOnboardingFlow: true },
+    category: 'ui',
+    description: 'Feature flags the web and mobile apps read on start-up',
+    isPublic: true,
+  }),
+  'ui.minAppVersion': defineSetting({
+    schema: z.string().regex(/^\d+\.\d+\.\d+$/, 'must be a version like 1.2.0'),
+    defaultValue: '1.2.0',
+    category: 'ui',
+    description: 'Oldest mobile app version allowed to sign in',
+    isPublic: true,
+  }),
+};
+
+export type SystemSettingKey = keyof typeof SYSTEM_SETTINGS;
+
+export type SystemSettingValue<K extends SystemSettingKey> = z.infer<
+  (typeof SYSTEM_SETTINGS)[K]['schema']
+>;
+
+export type SystemSettingValues = {
+  [K in SystemSettingKey]: SystemSettingValue<K>;
+};
+
+export const isSystemSettingKey = (key: string): key is SystemSettingKey =>
+  Object.keys(SYSTEM_SETTINGS).includes(key);
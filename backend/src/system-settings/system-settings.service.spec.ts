@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SystemSettingsService } from './system-settings.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import { LoggerService } from '../common/services/logger.service';
+import { AuditProducerService } from '../audit-logs/audit.producer.service';
+
+describe('SystemSettingsService', () => {
+  let service: SystemSettingsService;
+
+  const mockPrismaService = {
+    systemSetting: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const mockCacheService = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+  const mockAuditProducer = { addToAuditLog: jest.fn() };
+  const mockLoggerService = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SystemSettingsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: AuditProducerService, useValue: mockAuditProducer },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<SystemSettingsService>(SystemSettingsService);
+
+    mockCacheService.get.mockResolvedValue(null);
+    mockPrismaService.systemSetting.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    it('should fall back to defaults and cache the values', async () => {
+      await expect(service.get('ui.minAppVersion')).resolves.toBe('1.2.0');
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        'system-settings:global',
+        expect.objectContaining({ 'ui.minAppVersion': '1.2.0' }),
+        300,
+      );
+    });
+
+    it("should prefer the organization's value over the global one", async () => {
+      mockPrismaService.systemSetting.findMany.mockResolvedValue([
+        { key: 'ui.minAppVersion', value: '1.5.0', organizationId: null },
+        { key: 'ui.minAppVersion', value: '2.0.0', organizationId: 'org-1' },
+        {
+          key: 'ui.featureFlags',
+          value: { darkMode: true },
+          organizationId: null,
+        },
+      ]);
+
+      await expect(service.getPublicSettings('org-1')).resolves.toEqual({
+        'ui.featureFlags': { darkMode: true },
+        'ui.minAppVersion': '2.0.0',
+      });
+      expect(mockPrismaService.systemSetting.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [{ organizationId: null }, { organizationId: 'org-1' }],
+          }),
+        }),
+      );
+      expect(mockCacheService.set).toHaveBeenCalledWith(
+        'system-settings:org-1',
+        expect.anything(),
+        300,
+      );
+    });
+
+    it('should ignore stored values that fail validation', async () => {
+      mockPrismaService.systemSetting.findMany.mockResolvedValue([
+        { key: 'ui.minAppVersion', value: 'latest', organizationId: null },
+        {
+          key: 'ui.featureFlags',
+          value: { darkMode: true },
+          organizationId: null,
+        },
+      ]);
+
+      const settings = await service.getPublicSettings();
+
+      expect(settings).toEqual({
+        'ui.featureFlags': { darkMode: true },
+        'ui.minAppVersion': '1.2.0',
+      });
+      expect(mockLoggerService.warn).toHaveBeenCalled();
+    });
+
+    it('should serve cached values without querying', async () => {
+      mockCacheService.get.mockResolvedValue({
+        'ui.featureFlags': {},
+        'ui.minAppVersion': '2.0.0',
+      });
+
+      await expect(service.get('ui.minAppVersion')).resolves.toBe('2.0.0');
+      expect(mockPrismaService.systemSetting.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should reject unknown keys and invalid values', async () => {
+      await expect(
+        service.update('ui.theme', 'dark', 'user-1', 'org-1'),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.update(
+          'ui.featureFlags',
+          { darkMode: 'yes' },
+          'user-1',
+          'org-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.systemSetting.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should not let users outside an organization change the global defaults', async () => {
+      await expect(
+        service.update('ui.minAppVersion', '2.0.0', 'user-1', null),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.reset('ui.minAppVersion', 'user-1', null),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.systemSetting.upsert).not.toHaveBeenCalled();
+      expect(mockPrismaService.systemSetting.delete).not.toHaveBeenCalled();
+    });
+
+    it('should store the value, invalidate the cache and audit the change', async () => {
+      mockPrismaService.systemSetting.upsert.mockResolvedValue({
+        id: 'setting-1',
+      });
+
+      await service.update('ui.minAppVersion', '2.0.0', 'user-1', 'org-1');
+
+      expect(mockPrismaService.systemSetting.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId_key: {
+              organizationId: 'org-1',
+              key: 'ui.minAppVersion',
+            },
+          },
+          update: expect.objectContaining({
+            value: '2.0.0',
+            updatedBy: 'user-1',
+          }),
+        }),
+      );
+      expect(mockCacheService.del).toHaveBeenCalledWith(
+        'system-settings:org-1',
+      );
+      expect(mockAuditProducer.addToAuditLog).toHaveBeenCalledWith({
+        userId: 'user-1',
+        action: 'SystemSetting.update',
+        entity: 'SystemSetting',
+        entityId: 'setting-1',
+        oldValues: { value: '1.2.0' },
+        newValues: { value: '2.0.0' },
+        metadata: { key: 'ui.minAppVersion' },
+      });
+    });
+  });
+
+  describe('reset', () => {
+    it('should delete the stored value and audit the reset', async () => {
+      mockPrismaService.systemSetting.findUnique.mockResolvedValue({
+        id: 'setting-1',
+        value: '2.0.0',
+      });
+
+      await service.reset('ui.minAppVersion', 'user-1', 'org-1');
+
+      expect(mockPrismaService.systemSetting.delete).toHaveBeenCalledWith({
+        where: { id: 'setting-1' },
+      });
+      expect(mockCacheService.del).toHaveBeenCalledWith(
+        'system-settings:org-1',
+      );
+      expect(mockAuditProducer.addToAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'SystemSetting.reset',
+          newValues: { value: '1.2.0' },
+        }),
+      );
+    });
+  });
+});
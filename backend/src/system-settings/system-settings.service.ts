@@ -0,0 +1,236 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService } from '../common/services/cache.service';
+import { LoggerService } from '../common/services/logger.service';
+import { AuditProducerService } from '../audit-logs/audit.producer.service';
+import {
+  SYSTEM_SETTINGS,
+  SystemSettingKey,
+  SystemSettingValue,
+  SystemSettingValues,
+  isSystemSettingKey,
+} from './system-settings.registry';
+
+const CACHE_KEY = 'system-settings';
+const CACHE_TTL = 300;
+
+const settingKeys = Object.keys(SYSTEM_SETTINGS) as SystemSettingKey[];
+
+const cacheKey = (organizationId: string | null) =>
+  `${CACHE_KEY}:${organizationId ?? 'global'}`;
+
+/**
+ * Settings are stored per organization. Rows without an organization are the
+ * global defaults, which apply wherever an organization has not set its own
+ * value; settings without any row use the registry default.
+ */
+@Injectable()
+export class SystemSettingsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly logger: LoggerService,
+    private readonly auditProducer: AuditProducerService,
+  ) {}
+
+  async get<K extends SystemSettingKey>(
+    key: K,
+    organizationId: string | null = null,
+  ): Promise<SystemSettingValue<K>> {
+    const values = await this.getValues(organizationId);
+    return values[key];
+  }
+
+  /** Values of the public settings, keyed by setting key */
+  async getPublicSettings(
+    organizationId: string | null = null,
+  ): Promise<Partial<SystemSettingValues>> {
+    const values = await this.getValues(organizationId);
+    return Object.fromEntries(
+      settingKeys
+        .filter((key) => SYSTEM_SETTINGS[key].isPublic)
+        .map((key) => [key, values[key]]),
+    );
+  }
+
+  /**
+   * Every registered setting with its current value in the organization, for
+   * administration. A setting is a default until the organization overrides it.
+   */
+  async findAll(organizationId: string | null) {
+    const [values, rows] = await Promise.all([
+      this.getValues(organizationId),
+      this.prisma.systemSetting.findMany({
+        where: { key: { in: settingKeys }, organizationId },
+        select: { key: true, updatedBy: true, updatedAt: true },
+      }),
+    ]);
+    const stored = new Map(rows.map((row) => [row.key, row]));
+
+    return settingKeys.map((key) => {
+      const { category, description, isPublic, defaultValue } =
+        SYSTEM_SETTINGS[key];
+      return {
+        key,
+        value: values[key],
+        defaultValue,
+        isDefault: !stored.has(key),
+        category,
+        description,
+        isPublic,
+        updatedBy: stored.get(key)?.updatedBy ?? null,
+        updatedAt: stored.get(key)?.updatedAt ?? null,
+      };
+    });
+  }
+
+  async update(
+    key: string,
+    value: unknown,
+    userId: string,
+    organizationId: string | null,
+  ) {
+    const definition = this.getDefinition(key);
+    this.assertOrganization(organizationId);
+    const parsed = definition.schema.safeParse(value);
+    if (!parsed.success) {
+      throw new BadRequestException(
+        parsed.error.issues
+          .map((issue) => `${[key, ...issue.path].join('.')} ${issue.message}`)
+          .join(', '),
+      );
+    }
+
+    const previous = await this.get(key as SystemSettingKey, organizationId);
+    const data = {
+      value: parsed.data as Prisma.InputJsonValue,
+      category: definition.category,
+      description: definition.description,
+      isPublic: definition.isPublic,
+      updatedBy: userId,
+    };
+    const setting = await this.prisma.systemSetting.upsert({
+      where: { organizationId_key: { organizationId, key } },
+      create: { organizationId, key, ...data },
+      update: data,
+    });
+
+    await this.cacheService.del(cacheKey(organizationId));
+    await this.audit('SystemSetting.update', setting.id, userId, key, {
+      oldValues: { value: previous },
+      newValues: { value: parsed.data },
+    });
+    return (await this.findAll(organizationId)).find(
+      (entry) => entry.key === key,
+    );
+  }
+
+  /**
+   * Removes the organization's value so the setting falls back to the global
+   * default
+   */
+  async reset(key: string, userId: string, organizationId: string | null) {
+    this.getDefinition(key);
+    this.assertOrganization(organizationId);
+    const setting = await this.prisma.systemSetting.findUnique({
+      where: { organizationId_key: { organizationId, key } },
+    });
+
+    if (setting) {
+      await this.prisma.systemSetting.delete({ where: { id: setting.id } });
+      await this.cacheService.del(cacheKey(organizationId));
+      await this.audit('SystemSetting.reset', setting.id, userId, key, {
+        oldValues: { value: setting.value },
+        newValues: {
+          value: await this.get(key as SystemSettingKey, organizationId),
+        },
+      });
+    }
+    return (await this.findAll(organizationId)).find(
+      (entry) => entry.key === key,
+    );
+  }
+
+  /**
+   * Current value of every setting in the organization. Stored values that no
+   * longer match their schema are skipped in favour of the next fallback.
+   */
+  private async getValues(
+    organizationId: string | null,
+  ): Promise<SystemSettingValues> {
+    const cached = await this.cacheService.get<SystemSettingValues>(
+      cacheKey(organizationId),
+    );
+    if (cached) return cached;
+
+    const rows = await this.prisma.systemSetting.findMany({
+      where: {
+        key: { in: settingKeys },
+        OR: [{ organizationId: null }, { organizationId }],
+      },
+      select: { key: true, value: true, organizationId: true },
+    });
+    // The organization's own value comes before the global default
+    rows.sort(
+      (a, b) =>
+        Number(a.organizationId === null) - Number(b.organizationId === null),
+    );
+
+    const values = Object.fromEntries(
+      settingKeys.map((key) => {
+        const { schema, defaultValue } = SYSTEM_SETTINGS[key];
+        for (const row of rows.filter((candidate) => candidate.key === key)) {
+          const parsed = schema.safeParse(row.value);
+          if (parsed.success) return [key, parsed.data];
+          this.logger.warn(
+            `Stored value of system setting ${key} is invalid, ignoring it`,
+          );
+        }
+        return [key, defaultValue];
+      }),
+    ) as SystemSettingValues;
+
+    await this.cacheService.set(cacheKey(organizationId), values, CACHE_TTL);
+    return values;
+  }
+
+  private getDefinition(key: string) {
+    if (!isSystemSettingKey(key)) {
+      throw new NotFoundException(`System setting ${key} not found`);
+    }
+    return SYSTEM_SETTINGS[key];
+  }
+
+  /** Global defaults are seeded, never changed through the API */
+  private assertOrganization(
+    organizationId: string | null,
+  ): asserts organizationId is string {
+    if (!organizationId) {
+      throw new BadRequestException(
+        'System settings can only be changed within an organization',
+      );
+    }
+  }
+
+  private audit(
+    action: string,
+    entityId: string,
+    userId: string,
+    key: string,
+    values: { oldValues: unknown; newValues: unknown },
+  ) {
+    return this.auditProducer.addToAuditLog({
+      userId,
+      action,
+      entity: 'SystemSetting',
+      entityId,
+      ...values,
+      metadata: { key },
+    });
+  }
+}
@@ -3,9 +3,10 @@ import { TeamsController } from './teams.controller';
 import { TeamsService } from './teams.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule],
+  imports: [PrismaModule, CommonModule, NotificationsModule],
   controllers: [TeamsController],
   providers: [TeamsService],
   exports: [TeamsService],
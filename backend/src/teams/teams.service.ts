@@ -7,6 +7,8 @@ import {
 import { Prisma, Team } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { DataScopeService } from '../common/services/data-scope.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+import { NotificationsService } from '../notifications/notifications.service';
 import { CreateTeamDto } from './dto/create-team.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
 
@@ -15,6 +17,8 @@ export class TeamsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly dataScopeService: DataScopeService,
+    private readonly notificationsService: NotificationsService,
+    private readonly permissionSnapshotService: PermissionSnapshotService,
   ) {}
 
   async create(
@@ -51,6 +55,7 @@ export class TeamsService {
         role: userId === leaderId ? 'lead' : 'member',
       })),
     });
+    await this.permissionSnapshotService.invalidateTeams([team.id]);
 
     return team;
   }
@@ -139,12 +144,26 @@ export class TeamsService {
     userId: string,
     requestingUserId: string,
   ): Promise<Team> {
-    await this.findOne(teamId, requestingUserId); // Permission check
+    const team = await this.findOne(teamId, requestingUserId); // Permission check
+    const existing = await this.prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+    });
     await this.prisma.teamMember.upsert({
       where: { teamId_userId: { teamId, userId } },
       update: { isActive: true },
       create: { teamId, userId, role: 'member' },
     });
+    // Teammates see each other's data, so all of their snapshots change
+    await this.permissionSnapshotService.invalidateTeams([teamId]);
+
+    if (!existing?.isActive && userId !== requestingUserId) {
+      await this.notificationsService.notify(userId, {
+        type: 'SYSTEM',
+        title: 'Added to team',
+        message: `You were added to the team "${team.name}".`,
+        data: { teamId, link: '/dashboard/teams' },
+      });
+    }
     return this.findOne(teamId, requestingUserId);
   }
 
@@ -158,6 +177,7 @@ export class TeamsService {
       where: { teamId_userId: { teamId, userId } },
       data: { isActive: false },
     });
+    await this.permissionSnapshotService.invalidateTeams([teamId]);
     return this.findOne(teamId, requestingUserId);
   }
 }
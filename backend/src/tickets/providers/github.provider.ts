@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExternalTicket,
+  TicketIntegrationConfig,
+  TicketProvider,
+} from './ticket-provider.interface';
+import { getJson, trimTrailingSlash } from './provider-http';
+
+interface GitHubConfig extends TicketIntegrationConfig {
+  owner: string;
+  repo: string;
+  token: string;
+  /** GitHub Enterprise API URL, defaults to api.github.com */
+  apiUrl?: string;
+}
+
+interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  html_url: string;
+  labels: Array<string | { name?: string }>;
+  updated_at: string;
+  pull_request?: unknown;
+}
+
+const PAGE_SIZE = 100;
+
+@Injectable()
+export class GitHubTicketProvider implements TicketProvider {
+  readonly source = 'github' as const;
+  readonly requiredConfig = ['owner', 'repo', 'token'];
+
+  async testConnection(config: TicketIntegrationConfig): Promise<void> {
+    const github = config as GitHubConfig;
+    await getJson(this.repoUrl(github), this.headers(github));
+  }
+
+  async fetchTickets(
+    config: TicketIntegrationConfig,
+    since?: Date,
+  ): Promise<ExternalTicket[]> {
+    const github = config as GitHubConfig;
+    const tickets: ExternalTicket[] = [];
+
+    for (let page = 1; ; page++) {
+      const params = new URLSearchParams({
+        state: 'all',
+        sort: 'updated',
+        direction: 'asc',
+        per_page: String(PAGE_SIZE),
+        page: String(page),
+      });
+      if (since) params.set('since', since.toISOString());
+
+      const { body } = await getJson<GitHubIssue[]>(
+        `${this.repoUrl(github)}/issues?${params}`,
+        this.headers(github),
+      );
+      // The issues endpoint also returns pull requests
+      tickets.push(
+        ...body
+          .filter((issue) => !issue.pull_request)
+          .map((issue) => this.toTicket(issue, github)),
+      );
+      if (body.length < PAGE_SIZE) break;
+    }
+
+    return tickets;
+  }
+
+  toTicket(
+    issue: GitHubIssue,
+    config: Pick<GitHubConfig, 'owner' | 'repo'>,
+  ): ExternalTicket {
+    const labels = issue.labels
+      .map((label) => (typeof label === 'string' ? label : label.name))
+      .filter((label): label is string => !!label);
+    const priorityLabel = labels.find((label) =>
+      label.toLowerCase().startsWith('priority:'),
+    );
+
+    return {
+      externalId: `${config.owner}/${config.repo}#${issue.number}`,
+      title: issue.title,
+      description: issue.body || null,
+      status: issue.state,
+      priority: priorityLabel
+        ? priorityLabel.slice('priority:'.length).trim()
+        : null,
+      type: 'issue',
+      labels,
+      estimatedHours: null,
+      url: issue.html_url,
+      updatedAt: issue.updated_at,
+      sourceData: { id: issue.id, number: issue.number },
+    };
+  }
+
+  private repoUrl(config: GitHubConfig): string {
+    const apiUrl = trimTrailingSlash(config.apiUrl || 'https://api.github.com');
+    return `${apiUrl}/repos/${encodeURIComponent(config.owner)}/${encodeURIComponent(config.repo)}`;
+  }
+
+  private headers(config: GitHubConfig): Record<string, string> {
+    return {
+      Authorization: `Bearer ${config.token}`,
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExternalTicket,
+  TicketIntegrationConfig,
+  TicketProvider,
+} from './ticket-provider.interface';
+import { getJson, trimTrailingSlash } from './provider-http';
+
+interface GitLabConfig extends TicketIntegrationConfig {
+  /** Numeric project ID or full path such as "group/project" */
+  projectPath: string;
+  token: string;
+  /** Self-managed instance URL, defaults to gitlab.com */
+  baseUrl?: string;
+}
+
+interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: string;
+  issue_type?: string;
+  labels: string[];
+  web_url: string;
+  updated_at: string;
+  references?: { full?: string };
+  time_stats?: { time_estimate?: number };
+}
+
+const PAGE_SIZE = 100;
+
+@Injectable()
+export class GitLabTicketProvider implements TicketProvider {
+  readonly source = 'gitlab' as const;
+  readonly requiredConfig = ['projectPath', 'token'];
+
+  async testConnection(config: TicketIntegrationConfig): Promise<void> {
+    const gitlab = config as GitLabConfig;
+    await getJson(this.projectUrl(gitlab), this.headers(gitlab));
+  }
+
+  async fetchTickets(
+    config: TicketIntegrationConfig,
+    since?: Date,
+  ): Promise<ExternalTicket[]> {
+    const gitlab = config as GitLabConfig;
+    const tickets: ExternalTicket[] = [];
+
+    for (let page = 1; ; page++) {
+      const params = new URLSearchParams({
+        order_by: 'updated_at',
+        sort: 'asc',
+        per_page: String(PAGE_SIZE),
+        page: String(page),
+      });
+      if (since) params.set('updated_after', since.toISOString());
+
+      const { body, headers } = await getJson<GitLabIssue[]>(
+        `${this.projectUrl(gitlab)}/issues?${params}`,
+        this.headers(gitlab),
+      );
+      tickets.push(...body.map((issue) => this.toTicket(issue, gitlab)));
+
+      const nextPage = headers.get('x-next-page');
+      if (nextPage === '' || body.length < PAGE_SIZE) break;
+    }
+
+    return tickets;
+  }
+
+  toTicket(
+    issue: GitLabIssue,
+    config: Pick<GitLabConfig, 'projectPath'>,
+  ): ExternalTicket {
+    const estimate = issue.time_stats?.time_estimate;
+    return {
+      externalId:
+        issue.references?.full ?? `${config.projectPath}#${issue.iid}`,
+      title: issue.title,
+      description: issue.description || null,
+      status: issue.state,
+      priority: null,
+      type: issue.issue_type ?? 'issue',
+      labels: issue.labels ?? [],
+      estimatedHours: estimate
+        ? Math.round((estimate / 3600) * 100) / 100
+        : null,
+      url: issue.web_url,
+      updatedAt: issue.updated_at,
+      sourceData: { id: issue.id, iid: issue.iid },
+    };
+  }
+
+  private projectUrl(config: GitLabConfig): string {
+    const baseUrl = trimTrailingSlash(config.baseUrl || 'https://gitlab.com');
+    return `${baseUrl}/api/v4/projects/${encodeURIComponent(config.projectPath)}`;
+  }
+
+  private headers(config: GitLabConfig): Record<string, string> {
+    return { 'PRIVATE-TOKEN': config.token };
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExternalTicket,
+  TicketIntegrationConfig,
+  TicketProvider,
+} from './ticket-provider.interface';
+import { getJson, trimTrailingSlash } from './provider-http';
+
+interface JiraConfig extends TicketIntegrationConfig {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+}
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary: string;
+    description?: unknown;
+    status?: { name: string };
+    priority?: { name: string } | null;
+    issuetype?: { name: string };
+    labels?: string[];
+    timeoriginalestimate?: number | null;
+    updated?: string;
+  };
+}
+
+interface JiraSearchResponse {
+  issues: JiraIssue[];
+  nextPageToken?: string;
+  isLast?: boolean;
+}
+
+const FIELDS = [
+  'summary',
+  'description',
+  'status',
+  'priority',
+  'issuetype',
+  'labels',
+  'timeoriginalestimate',
+  'updated',
+];
+
+@Injectable()
+export class JiraTicketProvider implements TicketProvider {
+  readonly source = 'jira' as const;
+  readonly requiredConfig = ['baseUrl', 'email', 'apiToken', 'projectKey'];
+
+  async testConnection(config: TicketIntegrationConfig): Promise<void> {
+    const jira = config as JiraConfig;
+    await getJson(
+      `${trimTrailingSlash(jira.baseUrl)}/rest/api/3/project/${encodeURIComponent(jira.projectKey)}`,
+      this.headers(jira),
+    );
+  }
+
+  async fetchTickets(
+    config: TicketIntegrationConfig,
+    since?: Date,
+  ): Promise<ExternalTicket[]> {
+    const jira = config as JiraConfig;
+    const baseUrl = trimTrailingSlash(jira.baseUrl);
+
+    let jql = `project = "${jira.projectKey}"`;
+    if (since) jql += ` AND updated >= "${this.formatJqlDate(since)}"`;
+    jql += ' ORDER BY updated ASC';
+
+    const tickets: ExternalTicket[] = [];
+    let nextPageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({
+        jql,
+        fields: FIELDS.join(','),
+        maxResults: '100',
+      });
+      if (nextPageToken) params.set('nextPageToken', nextPageToken);
+
+      const { body } = await getJson<JiraSearchResponse>(
+        `${baseUrl}/rest/api/3/search/jql?${params}`,
+        this.headers(jira),
+      );
+      tickets.push(
+        ...body.issues.map((issue) => this.toTicket(issue, baseUrl)),
+      );
+      nextPageToken = body.isLast ? undefined : body.nextPageToken;
+    } while (nextPageToken);
+
+    return tickets;
+  }
+
+  toTicket(issue: JiraIssue, baseUrl: string): ExternalTicket {
+    const { fields } = issue;
+    return {
+      externalId: issue.key,
+      title: fields.summary,
+      description: this.extractText(fields.description) || null,
+      status: fields.status?.name ?? 'Unknown',
+      priority: fields.priority?.name ?? null,
+      type: fields.issuetype?.name ?? null,
+      labels: fields.labels ?? [],
+      estimatedHours: fields.timeoriginalestimate
+        ? Math.round((fields.timeoriginalestimate / 3600) * 100) / 100
+        : null,
+      url: `${baseUrl}/browse/${issue.key}`,
+      updatedAt: fields.updated ?? null,
+      sourceData: { id: issue.id, key: issue.key },
+    };
+  }
+
+  private headers(config: JiraConfig): Record<string, string> {
+    const credentials = Buffer.from(
+      `${config.email}:${config.apiToken}`,
+    ).toString('base64');
+    return { Authorization: `Basic ${credentials}` };
+  }
+
+  /** Flattens an Atlassian Document Format node into plain text. */
+  private extractText(node: unknown): string {
+    if (!node) return '';
+    if (typeof node === 'string') return node;
+    const { type, text, content } = node as {
+      type?: string;
+      text?: string;
+      content?: unknown[];
+    };
+    if (text) return text;
+    const inner = (content ?? []).map((child) => this.extractText(child));
+    const isBlock = type === 'doc' || type === 'bulletList';
+    return inner.join(isBlock ? '\n' : '').trim();
+  }
+
+  /**
+   * JQL dates are "yyyy-MM-dd HH:mm" in the Jira user's timezone, so step back
+   * a day to cover any offset. Re-fetched issues are simply upserted again.
+   */
+  private formatJqlDate(date: Date): string {
+    const withMargin = new Date(date.getTime() - 24 * 60 * 60 * 1000);
+    return withMargin.toISOString().slice(0, 16).replace('T', ' ');
+  }
+}
@@ -0,0 +1,46 @@
+export class TicketProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'TicketProviderError';
+  }
+}
+
+export interface ProviderResponse<T> {
+  body: T;
+  headers: Headers;
+}
+
+export async function getJson<T>(
+  url: string,
+  headers: Record<string, string>,
+): Promise<ProviderResponse<T>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: 'application/json', ...headers },
+    });
+  } catch (error) {
+    throw new TicketProviderError(
+      `Request to ${new URL(url).host} failed: ${(error as Error).message}`,
+    );
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new TicketProviderError(
+      `${response.status} ${response.statusText} from ${new URL(url).host}${
+        detail ? `: ${detail.slice(0, 200)}` : ''
+      }`,
+      response.status,
+    );
+  }
+
+  return { body: (await response.json()) as T, headers: response.headers };
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -0,0 +1,42 @@
+export type TicketSource = 'jira' | 'github' | 'gitlab';
+
+/**
+ * Integration config shared by every ticket provider. Provider specific
+ * keys (credentials, repository, project key) live alongside these.
+ */
+export interface TicketIntegrationConfig {
+  provider: TicketSource;
+  /** Alignzo project that synced tickets are attached to */
+  projectId: string;
+  [key: string]: unknown;
+}
+
+export interface ExternalTicket {
+  externalId: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string | null;
+  type: string | null;
+  labels: string[];
+  estimatedHours: number | null;
+  url: string | null;
+  updatedAt: string | null;
+  sourceData: Record<string, unknown>;
+}
+
+export interface TicketProvider {
+  readonly source: TicketSource;
+
+  /** Config keys that must be present for this provider */
+  readonly requiredConfig: string[];
+
+  /** Resolves when the credentials can read the configured tracker */
+  testConnection(config: TicketIntegrationConfig): Promise<void>;
+
+  /** Fetches every ticket, or only those updated since the given date */
+  fetchTickets(
+    config: TicketIntegrationConfig,
+    since?: Date,
+  ): Promise<ExternalTicket[]>;
+}
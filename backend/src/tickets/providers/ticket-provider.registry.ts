@@ -0,0 +1,54 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  TicketIntegrationConfig,
+  TicketProvider,
+  TicketSource,
+} from './ticket-provider.interface';
+import { JiraTicketProvider } from './jira.provider';
+import { GitHubTicketProvider } from './github.provider';
+import { GitLabTicketProvider } from './gitlab.provider';
+
+@Injectable()
+export class TicketProviderRegistry {
+  private readonly providers = new Map<TicketSource, TicketProvider>();
+
+  constructor(
+    jiraProvider: JiraTicketProvider,
+    gitHubProvider: GitHubTicketProvider,
+    gitLabProvider: GitLabTicketProvider,
+  ) {
+    for (const provider of [jiraProvider, gitHubProvider, gitLabProvider]) {
+      this.providers.set(provider.source, provider);
+    }
+  }
+
+  get sources(): TicketSource[] {
+    return Array.from(this.providers.keys());
+  }
+
+  get(source: string): TicketProvider {
+    const provider = this.providers.get(source as TicketSource);
+    if (!provider) {
+      throw new BadRequestException(
+        `Unknown ticket provider "${source}". Supported: ${this.sources.join(', ')}`,
+      );
+    }
+    return provider;
+  }
+
+  /** Ensures a stored integration config is usable by its provider. */
+  validateConfig(config: unknown): TicketIntegrationConfig {
+    const candidate = (config ?? {}) as Partial<TicketIntegrationConfig>;
+    const provider = this.get(String(candidate.provider));
+
+    const missing = ['projectId', ...provider.requiredConfig].filter(
+      (key) => !candidate[key],
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing ${provider.source} config: ${missing.join(', ')}`,
+      );
+    }
+    return candidate as TicketIntegrationConfig;
+  }
+}
@@ -0,0 +1,224 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { JiraTicketProvider } from './jira.provider';
+import { GitHubTicketProvider } from './github.provider';
+import { GitLabTicketProvider } from './gitlab.provider';
+import { TicketProviderRegistry } from './ticket-provider.registry';
+import { TicketProviderError } from './provider-http';
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(join(__dirname, '__fixtures__', name), 'utf8'));
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+
+describe('Ticket providers', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const requestedUrl = (call: number) => new URL(fetchMock.mock.calls[call][0]);
+  const requestedHeaders = (call: number) =>
+    fetchMock.mock.calls[call][1].headers as Record<string, string>;
+
+  describe('JiraTicketProvider', () => {
+    const provider = new JiraTicketProvider();
+    const config = {
+      provider: 'jira' as const,
+      projectId: 'project-1',
+      baseUrl: 'https://acme.atlassian.net/',
+      email: 'ops@acme.test',
+      apiToken: 'secret',
+      projectKey: 'OPS',
+    };
+
+    it('should follow nextPageToken and map issues', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(fixture('jira-search-page-1.json')))
+        .mockResolvedValueOnce(
+          jsonResponse(fixture('jira-search-page-2.json')),
+        );
+
+      const tickets = await provider.fetchTickets(config);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(requestedUrl(0).pathname).toBe('/rest/api/3/search/jql');
+      expect(requestedUrl(0).searchParams.get('jql')).toBe(
+        'project = "OPS" ORDER BY updated ASC',
+      );
+      expect(requestedUrl(1).searchParams.get('nextPageToken')).toBe(
+        'CAEaAggD',
+      );
+      expect(requestedHeaders(0).Authorization).toBe(
+        `Basic ${Buffer.from('ops@acme.test:secret').toString('base64')}`,
+      );
+
+      expect(tickets).toHaveLength(2);
+      expect(tickets[0]).toEqual({
+        externalId: 'OPS-12',
+        title: 'Login page returns 500 for SSO users',
+        description:
+          'Users signing in with SSO get an error.\nStarted after the 2.3 release.',
+        status: 'In Progress',
+        priority: 'High',
+        type: 'Bug',
+        labels: ['auth', 'customer-reported'],
+        estimatedHours: 4,
+        url: 'https://acme.atlassian.net/browse/OPS-12',
+        updatedAt: '2024-03-04T10:15:22.123+0000',
+        sourceData: { id: '10042', key: 'OPS-12' },
+      });
+      expect(tickets[1]).toMatchObject({
+        externalId: 'OPS-13',
+        description: null,
+        priority: null,
+        estimatedHours: null,
+      });
+    });
+
+    it('should only request issues updated since the last sync', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(fixture('jira-search-page-2.json')),
+      );
+
+      await provider.fetchTickets(config, new Date('2024-03-05T06:30:00Z'));
+
+      expect(requestedUrl(0).searchParams.get('jql')).toBe(
+        'project = "OPS" AND updated >= "2024-03-04 06:30" ORDER BY updated ASC',
+      );
+    });
+  });
+
+  describe('GitHubTicketProvider', () => {
+    const provider = new GitHubTicketProvider();
+    const config = {
+      provider: 'github' as const,
+      projectId: 'project-1',
+      owner: 'acme',
+      repo: 'web',
+      token: 'ghp_secret',
+    };
+
+    it('should map issues and skip pull requests', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(fixture('github-issues.json')),
+      );
+
+      const tickets = await provider.fetchTickets(
+        config,
+        new Date('2024-03-01T00:00:00Z'),
+      );
+
+      expect(requestedUrl(0).pathname).toBe('/repos/acme/web/issues');
+      expect(requestedUrl(0).searchParams.get('state')).toBe('all');
+      expect(requestedUrl(0).searchParams.get('since')).toBe(
+        '2024-03-01T00:00:00.000Z',
+      );
+      expect(requestedHeaders(0).Authorization).toBe('Bearer ghp_secret');
+
+      expect(tickets.map((ticket) => ticket.externalId)).toEqual([
+        'acme/web#87',
+        'acme/web#64',
+      ]);
+      expect(tickets[0]).toMatchObject({
+        title: 'Dark mode toggle does not persist',
+        status: 'open',
+        priority: 'medium',
+        labels: ['bug', 'priority: medium'],
+        url: 'https://github.com/acme/web/issues/87',
+      });
+      expect(tickets[1]).toMatchObject({ status: 'closed', description: null });
+    });
+  });
+
+  describe('GitLabTicketProvider', () => {
+    const provider = new GitLabTicketProvider();
+    const config = {
+      provider: 'gitlab' as const,
+      projectId: 'project-1',
+      projectPath: 'acme/platform',
+      token: 'glpat-secret',
+    };
+
+    it('should map issues from the project issues endpoint', async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse(fixture('gitlab-issues.json'), { 'x-next-page': '' }),
+      );
+
+      const tickets = await provider.fetchTickets(config);
+
+      expect(requestedUrl(0).href).toContain(
+        '/api/v4/projects/acme%2Fplatform/issues?',
+      );
+      expect(requestedHeaders(0)['PRIVATE-TOKEN']).toBe('glpat-secret');
+
+      expect(tickets).toHaveLength(2);
+      expect(tickets[0]).toEqual({
+        externalId: 'acme/platform#7',
+        title: 'Nightly export job times out',
+        description:
+          'The export job exceeds the 30 minute limit for large orgs.',
+        status: 'opened',
+        priority: null,
+        type: 'incident',
+        labels: ['backend', 'performance'],
+        estimatedHours: 2.5,
+        url: 'https://gitlab.com/acme/platform/-/issues/7',
+        updatedAt: '2024-03-04T11:20:00.000Z',
+        sourceData: { id: 141592, iid: 7 },
+      });
+      expect(tickets[1]).toMatchObject({
+        status: 'closed',
+        description: null,
+        estimatedHours: null,
+      });
+    });
+
+    it('should surface API errors as TicketProviderError', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('{"message":"401 Unauthorized"}', {
+          status: 401,
+          statusText: 'Unauthorized',
+        }),
+      );
+
+      await expect(provider.testConnection(config)).rejects.toThrow(
+        TicketProviderError,
+      );
+    });
+  });
+
+  describe('TicketProviderRegistry', () => {
+    const registry = new TicketProviderRegistry(
+      new JiraTicketProvider(),
+      new GitHubTicketProvider(),
+      new GitLabTicketProvider(),
+    );
+
+    it('should reject unknown providers', () => {
+      expect(() =>
+        registry.validateConfig({ provider: 'trello', projectId: 'p-1' }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should report missing provider config keys', () => {
+      expect(() =>
+        registry.validateConfig({
+          provider: 'github',
+          projectId: 'p-1',
+          owner: 'acme',
+        }),
+      ).toThrow('Missing github config: repo, token');
+    });
+  });
+});
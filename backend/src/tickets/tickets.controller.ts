@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Param,
+  UseGuards,
+  Request,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { TicketsService } from './tickets.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  PermissionGuard,
+  RequirePermissions,
+} from '../common/guards/permission.guard';
+
+@ApiTags('tickets')
+@ApiBearerAuth()
+@Controller('tickets')
+@UseGuards(JwtAuthGuard, PermissionGuard)
+export class TicketsController {
+  constructor(private readonly ticketsService: TicketsService) {}
+
+  @Get()
+  @RequirePermissions('tickets', 'read')
+  @ApiOperation({ summary: 'Search synced tickets' })
+  @ApiQuery({ name: 'projectId', required: false })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Matches the ticket key or title',
+  })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiResponse({ status: 200, description: 'Tickets retrieved' })
+  findAll(
+    @Request() req,
+    @Query('projectId') projectId?: string,
+    @Query('search') search?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.ticketsService.findAll(req.user.id, {
+      projectId: projectId || undefined,
+      search,
+      limit: limit ? Number(limit) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @RequirePermissions('tickets', 'read')
+  @ApiOperation({ summary: 'Get a ticket by ID' })
+  @ApiResponse({ status: 200, description: 'Ticket retrieved' })
+  @ApiResponse({ status: 404, description: 'Ticket not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.ticketsService.findOne(id, req.user.id);
+  }
+}
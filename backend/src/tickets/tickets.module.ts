@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TicketsController } from './tickets.controller';
+import { TicketsService } from './tickets.service';
+import { TicketProviderRegistry } from './providers/ticket-provider.registry';
+import { JiraTicketProvider } from './providers/jira.provider';
+import { GitHubTicketProvider } from './providers/github.provider';
+import { GitLabTicketProvider } from './providers/gitlab.provider';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [PrismaModule, CommonModule],
+  controllers: [TicketsController],
+  providers: [
+    TicketsService,
+    TicketProviderRegistry,
+    JiraTicketProvider,
+    GitHubTicketProvider,
+    GitLabTicketProvider,
+  ],
+  exports: [TicketsService, TicketProviderRegistry],
+})
+export class TicketsModule {}
@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { TicketsService } from './tickets.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { LoggerService } from '../common/services/logger.service';
+import { TicketProviderRegistry } from './providers/ticket-provider.registry';
+
+describe('TicketsService', () => {
+  let service: TicketsService;
+
+  const mockPrismaService = {
+    project: {
+      findUnique: jest.fn(),
+    },
+    ticket: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  const mockProvider = {
+    source: 'github',
+    fetchTickets: jest.fn(),
+  };
+
+  const mockRegistry = {
+    validateConfig: jest.fn((config) => config),
+    get: jest.fn(() => mockProvider),
+  };
+
+  const mockDataScopeService = {
+    getAccessScopeWhereClause: jest.fn(),
+  };
+
+  const mockLoggerService = {
+    log: jest.fn(),
+  };
+
+  const config = {
+    provider: 'github',
+    projectId: 'project-1',
+    owner: 'acme',
+    repo: 'web',
+    token: 'secret',
+  };
+
+  const externalTicket = {
+    externalId: 'acme/web#87',
+    title: 'Dark mode toggle does not persist',
+    description: null,
+    status: 'open',
+    priority: null,
+    type: 'issue',
+    labels: [],
+    estimatedHours: null,
+    url: 'https://github.com/acme/web/issues/87',
+    updatedAt: '2024-03-04T09:30:00Z',
+    sourceData: { id: 1, number: 87 },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TicketsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: DataScopeService, useValue: mockDataScopeService },
+        { provide: TicketProviderRegistry, useValue: mockRegistry },
+        { provide: LoggerService, useValue: mockLoggerService },
+      ],
+    }).compile();
+
+    service = module.get<TicketsService>(TicketsService);
+
+    mockPrismaService.project.findUnique.mockResolvedValue({
+      id: 'project-1',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('syncTickets', () => {
+    it('should upsert fetched tickets into the configured project', async () => {
+      mockProvider.fetchTickets.mockResolvedValue([externalTicket]);
+      mockPrismaService.ticket.upsert.mockResolvedValue({ id: 'ticket-1' });
+      const since = new Date('2024-03-01T00:00:00Z');
+
+      const result = await service.syncTickets(config, since);
+
+      expect(mockProvider.fetchTickets).toHaveBeenCalledWith(config, since);
+      expect(mockPrismaService.ticket.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            projectId_externalId: {
+              projectId: 'project-1',
+              externalId: 'acme/web#87',
+            },
+          },
+          create: expect.objectContaining({
+            projectId: 'project-1',
+            source: 'github',
+            sourceData: expect.objectContaining({
+              url: 'https://github.com/acme/web/issues/87',
+            }),
+          }),
+        }),
+      );
+      expect(result).toEqual({ processed: 1, success: 1, errors: [] });
+    });
+
+    it('should keep going when individual tickets fail to save', async () => {
+      mockProvider.fetchTickets.mockResolvedValue([
+        externalTicket,
+        { ...externalTicket, externalId: 'acme/web#88' },
+      ]);
+      mockPrismaService.ticket.upsert
+        .mockResolvedValueOnce({ id: 'ticket-1' })
+        .mockRejectedValueOnce(new Error('value too long'));
+
+      const result = await service.syncTickets(config);
+
+      expect(result).toEqual({
+        processed: 2,
+        success: 1,
+        errors: [{ externalId: 'acme/web#88', message: 'value too long' }],
+      });
+    });
+
+    it('should reject configs pointing at a missing project', async () => {
+      mockPrismaService.project.findUnique.mockResolvedValue(null);
+
+      await expect(service.syncTickets(config)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockProvider.fetchTickets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should search by key or title within visible projects', async () => {
+      mockDataScopeService.getAccessScopeWhereClause.mockResolvedValue({
+        id: { in: ['project-1'] },
+      });
+      mockPrismaService.ticket.findMany.mockResolvedValue([]);
+
+      await service.findAll('user-1', {
+        projectId: 'project-1',
+        search: 'OPS',
+      });
+
+      expect(mockPrismaService.ticket.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            projectId: 'project-1',
+            OR: [
+              { externalId: { contains: 'OPS', mode: 'insensitive' } },
+              { title: { contains: 'OPS', mode: 'insensitive' } },
+            ],
+          }),
+          take: 20,
+        }),
+      );
+    });
+  });
+});
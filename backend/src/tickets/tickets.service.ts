@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Ticket } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DataScopeService } from '../common/services/data-scope.service';
+import { LoggerService } from '../common/services/logger.service';
+import { TicketProviderRegistry } from './providers/ticket-provider.registry';
+import { ExternalTicket } from './providers/ticket-provider.interface';
+
+export interface TicketQuery {
+  projectId?: string;
+  search?: string;
+  limit?: number;
+}
+
+export interface TicketSyncResult {
+  processed: number;
+  success: number;
+  errors: Array<{ externalId: string; message: string }>;
+}
+
+const ticketSelect = {
+  id: true,
+  projectId: true,
+  externalId: true,
+  title: true,
+  status: true,
+  priority: true,
+  type: true,
+  source: true,
+  sourceData: true,
+  updatedAt: true,
+} satisfies Prisma.TicketSelect;
+
+const MAX_LIMIT = 50;
+
+@Injectable()
+export class TicketsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dataScopeService: DataScopeService,
+    private readonly providers: TicketProviderRegistry,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /** Tickets from projects the user can see, for the work log ticket picker. */
+  async findAll(userId: string, query: TicketQuery = {}) {
+    const projectWhere = await this.visibleProjectsWhere(userId);
+    const where: Prisma.TicketWhereInput = {
+      project: projectWhere,
+      ...(query.projectId && { projectId: query.projectId }),
+    };
+
+    const search = query.search?.trim();
+    if (search) {
+      where.OR = [
+        { externalId: { contains: search, mode: 'insensitive' } },
+        { title: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    return this.prisma.ticket.findMany({
+      where,
+      select: ticketSelect,
+      orderBy: { updatedAt: 'desc' },
+      take: Math.min(Math.max(query.limit || 20, 1), MAX_LIMIT),
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<Ticket> {
+    const projectWhere = await this.visibleProjectsWhere(userId);
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id, project: projectWhere },
+    });
+    if (!ticket) {
+      throw new NotFoundException(`Ticket with ID ${id} not found`);
+    }
+    return ticket;
+  }
+
+  /** Resolves when the configured tracker accepts the integration's credentials. */
+  async testConnection(config: unknown): Promise<void> {
+    const ticketConfig = this.providers.validateConfig(config);
+    await this.providers
+      .get(ticketConfig.provider)
+      .testConnection(ticketConfig);
+  }
+
+  /**
+   * Pulls tickets from an issue tracker into the configured project. Only
+   * tickets updated since the given date are fetched. Tickets that fail to
+   * save are reported back instead of aborting the run.
+   */
+  async syncTickets(config: unknown, since?: Date): Promise<TicketSyncResult> {
+    const ticketConfig = this.providers.validateConfig(config);
+    const provider = this.providers.get(ticketConfig.provider);
+
+    const project = await this.prisma.project.findUnique({
+      where: { id: ticketConfig.projectId },
+      select: { id: true },
+    });
+    if (!project) {
+      throw new BadRequestException(
+        `Project ${ticketConfig.projectId} configured for this integration does not exist`,
+      );
+    }
+
+    const fetched = await provider.fetchTickets(ticketConfig, since);
+    const errors: TicketSyncResult['errors'] = [];
+    let success = 0;
+
+    for (const ticket of fetched) {
+      try {
+        await this.upsertTicket(
+          ticketConfig.projectId,
+          provider.source,
+          ticket,
+        );
+        success++;
+      } catch (error) {
+        errors.push({
+          externalId: ticket.externalId,
+          message: (error as Error).message,
+        });
+      }
+    }
+
+    this.logger.log(`Synced ${success} of ${fetched.length} tickets`, {
+      source: provider.source,
+      projectId: ticketConfig.projectId,
+      errors: errors.length,
+    });
+    return { processed: fetched.length, success, errors };
+  }
+
+  private upsertTicket(
+    projectId: string,
+    source: string,
+    ticket: ExternalTicket,
+  ): Promise<Ticket> {
+    const data = {
+      title: ticket.title,
+      description: ticket.description,
+      status: ticket.status,
+      priority: ticket.priority,
+      type: ticket.type,
+      labels: ticket.labels,
+      estimatedHours: ticket.estimatedHours,
+      source,
+      sourceData: {
+        ...ticket.sourceData,
+        url: ticket.url,
+        updatedAt: ticket.updatedAt,
+      } as Prisma.InputJsonObject,
+      lastSyncAt: new Date(),
+    };
+
+    return this.prisma.ticket.upsert({
+      where: {
+        projectId_externalId: { projectId, externalId: ticket.externalId },
+      },
+      create: { projectId, externalId: ticket.externalId, ...data },
+      update: data,
+    });
+  }
+
+  private async visibleProjectsWhere(
+    userId: string,
+  ): Promise<Prisma.ProjectWhereInput> {
+    const whereScope = await this.dataScopeService.getAccessScopeWhereClause(
+      userId,
+      'project',
+    );
+    return {
+      OR: [
+        whereScope,
+        { ownerId: userId },
+        { members: { some: { userId, isActive: true } } },
+      ],
+    };
+  }
+}
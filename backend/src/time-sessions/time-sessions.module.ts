@@ -2,8 +2,11 @@ import { Module } from '@nestjs/common';
 import { TimeSessionsService } from './time-sessions.service';
 import { TimeSessionsController } from './time-sessions.controller';
 import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AchievementsModule } from '../achievements/achievements.module';
 
 @Module({
+  imports: [RealtimeModule, AchievementsModule],
   controllers: [TimeSessionsController],
   providers: [TimeSessionsService, PrismaService],
   exports: [TimeSessionsService],
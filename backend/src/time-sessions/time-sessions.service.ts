@@ -2,15 +2,32 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  Optional,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateTimeSessionDto } from './dto/create-time-session.dto';
 import { UpdateTimeSessionDto } from './dto/update-time-session.dto';
 import { TimeSessionStatus } from './dto/create-time-session.dto';
+import { RealtimeEvents, RealtimeService } from '../realtime/realtime.service';
+import { AchievementsService } from '../achievements/achievements.service';
+
+type TimeSessionAction =
+  | 'started'
+  | 'paused'
+  | 'resumed'
+  | 'stopped'
+  | 'updated'
+  | 'converted'
+  | 'deleted';
 
 @Injectable()
 export class TimeSessionsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private realtimeService: RealtimeService,
+    @Optional() private achievementsService?: AchievementsService,
+  ) {}
 
   async create(createTimeSessionDto: CreateTimeSessionDto, userId: string) {
     // Remove the check for existing active session to allow multiple active timers
@@ -26,12 +43,19 @@ export class TimeSessionsService {
     // }
 
     // Prepare the data object, filtering out undefined values
+    // Clients that were offline send when the timer really started
     const sessionData: any = {
       userId: userId,
-      startTime: new Date(),
-      status: TimeSessionStatus.RUNNING,
+      startTime: createTimeSessionDto.startTime
+        ? new Date(createTimeSessionDto.startTime)
+        : new Date(),
+      status: createTimeSessionDto.status ?? TimeSessionStatus.RUNNING,
     };
 
+    if (createTimeSessionDto.endTime) {
+      sessionData.endTime = new Date(createTimeSessionDto.endTime);
+    }
+
     // Only add optional fields if they are provided
     if (createTimeSessionDto.projectId) {
       sessionData.projectId = createTimeSessionDto.projectId;
@@ -82,31 +106,17 @@ export class TimeSessionsService {
       },
     });
 
+    this.publish(timeSession, 'started');
     return timeSession;
   }
 
   async findAll(userId: string, userRole: string, query: any = {}) {
-    const { page = 1, limit = 20, status, projectId, search } = query;
+    const { page = 1, limit = 20 } = query;
 
     const skip = (page - 1) * parseInt(limit.toString());
     const take = parseInt(limit.toString());
 
-    // Build where clause - Always filter by user's own data
-    const where: any = {
-      userId: userId, // Only show user's own time sessions
-    };
-
-    if (status && status !== 'all') {
-      where.status = status;
-    }
-
-    if (projectId) {
-      where.projectId = projectId;
-    }
-
-    if (search) {
-      where.OR = [{ description: { contains: search, mode: 'insensitive' } }];
-    }
+    const where = this.buildWhere(userId, query);
 
     const [timeSessions, total] = await Promise.all([
       this.prisma.timeSession.findMany({
@@ -148,6 +158,29 @@ export class TimeSessionsService {
     };
   }
 
+  buildWhere(userId: string, query: any = {}): Prisma.TimeSessionWhereInput {
+    const { status, projectId, search } = query;
+
+    // Build where clause - Always filter by user's own data
+    const where: any = {
+      userId: userId, // Only show user's own time sessions
+    };
+
+    if (status && status !== 'all') {
+      where.status = status;
+    }
+
+    if (projectId) {
+      where.projectId = projectId;
+    }
+
+    if (search) {
+      where.OR = [{ description: { contains: search, mode: 'insensitive' } }];
+    }
+
+    return where;
+  }
+
   async findOne(id: string, userId: string, userRole: string) {
     // Always filter by user's own data
     const timeSession = await this.prisma.timeSession.findFirst({
@@ -230,6 +263,7 @@ export class TimeSessionsService {
       },
     });
 
+    this.publish(pausedSession, 'paused');
     return pausedSession;
   }
 
@@ -290,6 +324,7 @@ export class TimeSessionsService {
       },
     });
 
+    this.publish(resumedSession, 'resumed');
     return resumedSession;
   }
 
@@ -327,6 +362,11 @@ export class TimeSessionsService {
       },
     });
 
+    this.publish(stoppedSession, 'stopped');
+    this.achievementsService?.scheduleEvaluation(
+      stoppedSession.userId,
+      'time_session',
+    );
     return stoppedSession;
   }
 
@@ -401,9 +441,17 @@ export class TimeSessionsService {
     });
 
     // Delete the time session after conversion
-    await this.prisma.timeSession.delete({
-      where: { id: timeSession.id },
-    });
+    await this.prisma.$transaction([
+      this.prisma.timeSession.delete({
+        where: { id: timeSession.id },
+      }),
+      this.createTombstone(timeSession),
+    ]);
+    this.publish(timeSession, 'converted');
+    this.achievementsService?.scheduleEvaluation(
+      timeSession.userId,
+      'work_log',
+    );
 
     return workLog;
   }
@@ -480,19 +528,47 @@ export class TimeSessionsService {
       },
     });
 
+    this.publish(updatedSession, 'updated');
     return updatedSession;
   }
 
   async remove(id: string, userId: string) {
     // Check if time session exists and user has access
-    await this.findOne(id, userId, 'EMPLOYEE');
+    const timeSession = await this.findOne(id, userId, 'EMPLOYEE');
 
-    await this.prisma.timeSession.delete({
-      where: {
-        id: id,
+    await this.prisma.$transaction([
+      this.prisma.timeSession.delete({
+        where: {
+          id: id,
+        },
+      }),
+      this.createTombstone(timeSession),
+    ]);
+    this.publish(timeSession, 'deleted');
+
+    return { message: 'Time session deleted successfully' };
+  }
+
+  /** Tells offline clients that synced the session to drop their copy. */
+  private createTombstone(session: { id: string; userId: string }) {
+    return this.prisma.syncTombstone.create({
+      data: {
+        entity: 'time-session',
+        entityId: session.id,
+        userId: session.userId,
       },
     });
+  }
 
-    return { message: 'Time session deleted successfully' };
+  /** Pushes the change to the owner's other open tabs and devices. */
+  private publish(
+    session: { id: string; userId: string },
+    action: TimeSessionAction,
+  ) {
+    this.realtimeService.emit(
+      session.userId,
+      RealtimeEvents.TIME_SESSION_UPDATED,
+      { action, session },
+    );
   }
 }
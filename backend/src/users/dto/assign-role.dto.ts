@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDateString,
+  IsOptional,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
+import { GrantScope } from '../../common/services/grant-scope';
+
+export class GrantScopeDto implements GrantScope {
+  @ApiPropertyOptional({
+    description: 'Projects the grant is limited to',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  projectIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Teams the grant is limited to',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  teamIds?: string[];
+}
+
+export class AssignRoleDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @IsUUID()
+  roleId: string;
+
+  @ApiPropertyOptional({
+    description: 'Limits the role to some projects or teams',
+    type: GrantScopeDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GrantScopeDto)
+  scope?: GrantScopeDto;
+
+  @ApiPropertyOptional({
+    description: 'When the role is taken away again',
+    example: '2025-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -4,6 +4,7 @@ import {
   IsOptional,
   IsBoolean,
   IsUUID,
+  IsObject,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
@@ -153,4 +154,14 @@ export class CreateUserDto {
     reportingToId?: string;
     role?: string;
   }>;
+
+  @ApiProperty({
+    description:
+      'Values for the custom fields defined for users, keyed by field key',
+    example: { contractType: 'Full-time' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  customFields?: Record<string, unknown>;
 }
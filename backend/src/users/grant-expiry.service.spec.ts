@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GrantExpiryService } from './grant-expiry.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+
+describe('GrantExpiryService', () => {
+  let service: GrantExpiryService;
+
+  const mockPrismaService = {
+    userRole: { findMany: jest.fn(), updateMany: jest.fn() },
+    userPermission: { findMany: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const mockLoggerService = { log: jest.fn() };
+  const mockNotificationsService = { notify: jest.fn() };
+  const mockPermissionSnapshotService = { invalidate: jest.fn() };
+
+  const now = new Date('2025-03-01T10:00:00Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GrantExpiryService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LoggerService, useValue: mockLoggerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        {
+          provide: PermissionSnapshotService,
+          useValue: mockPermissionSnapshotService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<GrantExpiryService>(GrantExpiryService);
+
+    mockPrismaService.userRole.findMany.mockResolvedValue([]);
+    mockPrismaService.userPermission.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should deactivate expired grants and notify each grantee once', async () => {
+    mockPrismaService.userRole.findMany.mockResolvedValue([
+      { id: 'grant-1', userId: 'user-1', role: { name: 'PROJECT_MANAGER' } },
+    ]);
+    mockPrismaService.userPermission.findMany.mockResolvedValue([
+      {
+        id: 'grant-2',
+        userId: 'user-1',
+        permission: { resource: 'work_logs', action: 'approve' },
+      },
+      {
+        id: 'grant-3',
+        userId: 'user-2',
+        permission: { resource: 'reports', action: 'export' },
+      },
+    ]);
+
+    await expect(service.deactivateExpiredGrants(now)).resolves.toBe(3);
+
+    expect(mockPrismaService.userRole.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { isActive: true, expiresAt: { lte: now } },
+      }),
+    );
+    expect(mockPrismaService.userRole.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['grant-1'] } },
+      data: { isActive: false },
+    });
+    expect(mockPrismaService.userPermission.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['grant-2', 'grant-3'] } },
+      data: { isActive: false },
+    });
+    expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPermissionSnapshotService.invalidate).toHaveBeenCalledWith([
+      'user-1',
+      'user-2',
+    ]);
+    expect(mockNotificationsService.notify).toHaveBeenCalledTimes(2);
+    expect(mockNotificationsService.notify).toHaveBeenCalledWith('user-1', {
+      type: 'SYSTEM',
+      title: 'Access expired',
+      message:
+        'Your access through the PROJECT_MANAGER role, the work_logs.approve permission has expired.',
+    });
+  });
+
+  it('should do nothing when no grant expired', async () => {
+    await expect(service.deactivateExpiredGrants(now)).resolves.toBe(0);
+
+    expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    expect(mockNotificationsService.notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoggerService } from '../common/services/logger.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+/**
+ * Switches off role and permission grants once they pass their expiry.
+ * Authorization already ignores expired grants; the sweep keeps the stored
+ * state honest and tells each grantee what they lost.
+ */
+@Injectable()
+export class GrantExpiryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly notificationsService: NotificationsService,
+    private readonly permissionSnapshotService: PermissionSnapshotService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async deactivateExpiredGrants(now: Date = new Date()): Promise<number> {
+    const where = { isActive: true, expiresAt: { lte: now } };
+    const [roles, permissions] = await Promise.all([
+      this.prisma.userRole.findMany({
+        where,
+        select: { id: true, userId: true, role: { select: { name: true } } },
+      }),
+      this.prisma.userPermission.findMany({
+        where,
+        select: {
+          id: true,
+          userId: true,
+          permission: { select: { resource: true, action: true } },
+        },
+      }),
+    ]);
+    if (roles.length === 0 && permissions.length === 0) return 0;
+
+    await this.prisma.$transaction([
+      this.prisma.userRole.updateMany({
+        where: { id: { in: roles.map((grant) => grant.id) } },
+        data: { isActive: false },
+      }),
+      this.prisma.userPermission.updateMany({
+        where: { id: { in: permissions.map((grant) => grant.id) } },
+        data: { isActive: false },
+      }),
+    ]);
+
+    const expiredByUser = new Map<string, string[]>();
+    const add = (userId: string, name: string) =>
+      expiredByUser.set(userId, [...(expiredByUser.get(userId) ?? []), name]);
+    roles.forEach((grant) => add(grant.userId, `the ${grant.role.name} role`));
+    permissions.forEach((grant) =>
+      add(
+        grant.userId,
+        `the ${grant.permission.resource}.${grant.permission.action} permission`,
+      ),
+    );
+
+    await this.permissionSnapshotService.invalidate([...expiredByUser.keys()]);
+    for (const [userId, names] of expiredByUser) {
+      await this.notificationsService.notify(userId, {
+        type: 'SYSTEM',
+        title: 'Access expired',
+        message: `Your access through ${names.join(', ')} has expired.`,
+      });
+    }
+
+    const count = roles.length + permissions.length;
+    this.logger.log(`Deactivated ${count} expired grants`);
+    return count;
+  }
+}
@@ -21,6 +21,7 @@ import {
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { AssignRoleDto } from './dto/assign-role.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import {
   PermissionGuard,
@@ -138,8 +139,12 @@ export class UsersController {
   @Post(':id/roles')
   @RequirePermissions('users', 'assign_role')
   @ApiOperation({ summary: 'Assign role to user' })
-  assignRole(@Param('id') id: string, @Body() body: { roleId: string }) {
-    return this.usersService.assignRole(id, body.roleId);
+  assignRole(
+    @Param('id') id: string,
+    @Body() assignRoleDto: AssignRoleDto,
+    @Request() req,
+  ) {
+    return this.usersService.assignRole(id, assignRoleDto, req.user.id);
   }
 
   @Delete(':id/roles/:roleId')
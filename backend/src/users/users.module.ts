@@ -4,11 +4,20 @@ import { UsersController } from './users.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { OrganizationsModule } from '../organizations/organizations.module';
 import { CommonModule } from '../common/common.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { GrantExpiryService } from './grant-expiry.service';
 
 @Module({
-  imports: [PrismaModule, OrganizationsModule, CommonModule],
+  imports: [
+    PrismaModule,
+    OrganizationsModule,
+    CommonModule,
+    CustomFieldsModule,
+    NotificationsModule,
+  ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, GrantExpiryService],
   exports: [UsersService],
 })
 export class UsersModule {}
@@ -8,8 +8,14 @@ import { Prisma, User } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { AssignRoleDto } from './dto/assign-role.dto';
 import { OrganizationsService } from '../organizations/organizations.service';
 import { DataScopeService } from '../common/services/data-scope.service';
+import { PermissionSnapshotService } from '../common/services/permission-snapshot.service';
+import {
+  CUSTOM_FIELDS_KEY,
+  CustomFieldsService,
+} from '../custom-fields/custom-fields.service';
 
 @Injectable()
 export class UsersService {
@@ -17,6 +23,8 @@ export class UsersService {
     private readonly prisma: PrismaService,
     private readonly organizationsService: OrganizationsService,
     private readonly dataScopeService: DataScopeService,
+    private readonly customFieldsService: CustomFieldsService,
+    private readonly permissionSnapshotService: PermissionSnapshotService,
   ) {}
 
   async create(createUserDto: CreateUserDto): Promise<User> {
@@ -25,7 +33,8 @@ export class UsersService {
       throw new ConflictException('User with this email already exists');
     }
 
-    const { teamIds, projectAssignments, ...userData } = createUserDto;
+    const { teamIds, projectAssignments, customFields, ...userData } =
+      createUserDto;
     const organization = await this.organizationsService.validateUserDomain(
       userData.email,
     );
@@ -35,9 +44,16 @@ export class UsersService {
       );
     }
 
+    const values = await this.customFieldsService.validateValues(
+      organization.id,
+      'user',
+      customFields,
+    );
+
     return this.prisma.user.create({
       data: {
         ...userData,
+        metadata: { [CUSTOM_FIELDS_KEY]: values as Prisma.InputJsonObject },
         organizationId: organization.id,
         emailVerifiedAt: userData.emailVerified ? new Date() : null,
         avatar: userData.avatarUrl,
@@ -53,6 +69,25 @@ export class UsersService {
       throw new NotFoundException('A requesting user ID must be provided.');
     }
 
+    const finalWhere = await this.buildWhere(requestingUserId, organizationId);
+
+    return this.prisma.user.findMany({
+      where: finalWhere,
+      include: {
+        manager: true,
+        subordinates: true,
+        accessLevels: true,
+        userRoles: { include: { role: true } },
+        teamMembers: { include: { team: true } },
+        projectMembers: { include: { project: true, reportingTo: true } },
+      },
+    });
+  }
+
+  async buildWhere(
+    requestingUserId: string,
+    organizationId?: string,
+  ): Promise<Prisma.UserWhereInput> {
     const whereScope = await this.dataScopeService.getAccessScopeWhereClause(
       requestingUserId,
       'user',
@@ -70,6 +105,8 @@ export class UsersService {
 
     const finalWhere: Prisma.UserWhereInput = {
       OR: [whereScope, specialAccess],
+      // Service accounts are managed under Settings, not as people
+      serviceAccount: null,
     };
 
     if (organizationId) {
@@ -78,17 +115,7 @@ export class UsersService {
       (finalWhere.AND as Prisma.UserWhereInput[]).push({ organizationId });
     }
 
-    return this.prisma.user.findMany({
-      where: finalWhere,
-      include: {
-        manager: true,
-        subordinates: true,
-        accessLevels: true,
-        userRoles: { include: { role: true } },
-        teamMembers: { include: { team: true } },
-        projectMembers: { include: { project: true, reportingTo: true } },
-      },
-    });
+    return finalWhere;
   }
 
   async findById(
@@ -138,16 +165,30 @@ export class UsersService {
   }
 
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
-    await this.findById(id, id); // Use self as requesting user for permission check
-
-    const { accessLevels, ...userData } = updateUserDto;
+    const user = await this.findById(id, id); // Use self as requesting user for permission check
+
+    const { accessLevels, customFields, ...userData } = updateUserDto;
+
+    let metadata: Prisma.InputJsonObject | undefined;
+    if (customFields) {
+      metadata = {
+        ...(user.metadata as Prisma.JsonObject | null),
+        [CUSTOM_FIELDS_KEY]: (await this.customFieldsService.validateValues(
+          user.organizationId,
+          'user',
+          customFields,
+          this.customFieldsService.readValues(user.metadata),
+        )) as Prisma.InputJsonObject,
+      };
+    }
 
-    return this.prisma.$transaction(async (prisma) => {
+    const updated = await this.prisma.$transaction(async (prisma) => {
       const updatedUser = await prisma.user.update({
         where: { id },
         data: {
           ...userData,
           avatar: userData.avatarUrl,
+          ...(metadata && { metadata }),
         },
       });
 
@@ -163,11 +204,17 @@ export class UsersService {
 
       return updatedUser;
     });
+
+    // Organization and access levels are part of the permission snapshot
+    await this.permissionSnapshotService.invalidate(id);
+    return updated;
   }
 
   async remove(id: string, requestingUserId: string): Promise<User> {
     await this.findById(id, requestingUserId);
-    return this.prisma.user.delete({ where: { id } });
+    const user = await this.prisma.user.delete({ where: { id } });
+    await this.permissionSnapshotService.invalidate(id);
+    return user;
   }
 
   async searchUsers(query: string, organizationId?: string) {
@@ -206,20 +253,31 @@ export class UsersService {
     });
   }
 
-  async assignRole(userId: string, roleId: string) {
-    return this.prisma.$transaction(async (prisma) => {
+  async assignRole(userId: string, dto: AssignRoleDto, grantedBy?: string) {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : undefined;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const userRole = await this.prisma.$transaction(async (prisma) => {
       await prisma.userRole.deleteMany({ where: { userId } });
       return prisma.userRole.create({
         data: {
           userId,
-          roleId,
+          roleId: dto.roleId,
+          scope: dto.scope ? { ...dto.scope } : undefined,
+          expiresAt,
+          grantedBy,
         },
       });
     });
+
+    await this.permissionSnapshotService.invalidate(userId);
+    return userRole;
   }
 
   async removeRole(userId: string, roleId: string) {
-    return this.prisma.userRole.delete({
+    const userRole = await this.prisma.userRole.delete({
       where: {
         userId_roleId: {
           userId,
@@ -227,6 +285,9 @@ export class UsersService {
         },
       },
     });
+
+    await this.permissionSnapshotService.invalidate(userId);
+    return userRole;
   }
 
   async getUserRoles(userId: string) {
@@ -6,6 +6,7 @@ import {
   IsBoolean,
   IsArray,
   IsUUID,
+  IsObject,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
@@ -19,6 +20,13 @@ export class CreateWorkLogDto {
   @IsUUID()
   ticketId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Milestone of the same project the work counts towards',
+  })
+  @IsOptional()
+  @IsUUID()
+  milestoneId?: string | null;
+
   @ApiProperty({ description: 'Work description' })
   @IsString()
   description: string;
@@ -92,4 +100,13 @@ export class CreateWorkLogDto {
   @IsOptional()
   @IsString()
   ticketReference?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Values for the custom fields defined for work logs, keyed by field key',
+    example: { costCentre: 'CC-100' },
+  })
+  @IsOptional()
+  @IsObject()
+  customFields?: Record<string, unknown>;
 }
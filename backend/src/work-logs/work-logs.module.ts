@@ -3,9 +3,20 @@ import { WorkLogsController } from './work-logs.controller';
 import { WorkLogsService } from './work-logs.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CommonModule } from '../common/common.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { AchievementsModule } from '../achievements/achievements.module';
 
 @Module({
-  imports: [PrismaModule, CommonModule],
+  imports: [
+    PrismaModule,
+    CommonModule,
+    NotificationsModule,
+    RealtimeModule,
+    CustomFieldsModule,
+    AchievementsModule,
+  ],
   controllers: [WorkLogsController],
   providers: [WorkLogsService],
   exports: [WorkLogsService],
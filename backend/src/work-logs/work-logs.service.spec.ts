@@ -21,6 +21,12 @@ describe('WorkLogsService', () => {
     project: {
       findUnique: jest.fn(),
     },
+    ticket: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
     projectMember: {
       findMany: jest.fn(),
       findFirst: jest.fn(),
@@ -127,6 +133,38 @@ describe('WorkLogsService', () => {
       });
     });
 
+    it('should reject a ticket from another project or organization', async () => {
+      mockPrismaService.project.findUnique.mockResolvedValue({
+        id: 'project-123',
+        ownerId: 'user-123',
+        members: [],
+      });
+      mockPrismaService.workLog.findMany.mockResolvedValue([]);
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        organizationId: 'org-1',
+      });
+      const dto = { ...createWorkLogDto, ticketId: 'ticket-1' };
+
+      mockPrismaService.ticket.findUnique.mockResolvedValueOnce({
+        projectId: 'project-456',
+        project: { organizationId: 'org-1' },
+      });
+      await expect(service.create(dto, userId)).rejects.toThrow(
+        new BadRequestException(
+          'Ticket does not belong to the selected project',
+        ),
+      );
+
+      mockPrismaService.ticket.findUnique.mockResolvedValueOnce({
+        projectId: 'project-123',
+        project: { organizationId: 'org-2' },
+      });
+      await expect(service.create(dto, userId)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.workLog.create).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException when project not found', async () => {
       mockPrismaService.project.findUnique.mockResolvedValue(null);
 
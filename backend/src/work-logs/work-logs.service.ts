@@ -4,29 +4,103 @@ import {
   BadRequestException,
   Optional,
 } from '@nestjs/common';
-import { Prisma, WorkLog } from '@prisma/client';
+import { Prisma, Project, WorkLog } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateWorkLogDto } from './dto/create-work-log.dto';
 import { UpdateWorkLogDto } from './dto/update-work-log.dto';
 import { DataScopeService } from '../common/services/data-scope.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RealtimeEvents, RealtimeService } from '../realtime/realtime.service';
+import {
+  CUSTOM_FIELDS_KEY,
+  CustomFieldsService,
+} from '../custom-fields/custom-fields.service';
+import { AchievementsService } from '../achievements/achievements.service';
 
 @Injectable()
 export class WorkLogsService {
   constructor(
     private readonly prisma: PrismaService,
     @Optional() private readonly dataScopeService?: DataScopeService,
+    @Optional() private readonly notificationsService?: NotificationsService,
+    @Optional() private readonly realtimeService?: RealtimeService,
+    @Optional() private readonly customFieldsService?: CustomFieldsService,
+    @Optional() private readonly achievementsService?: AchievementsService,
   ) {}
 
   async create(
     createWorkLogDto: CreateWorkLogDto,
     userId: string,
   ): Promise<WorkLog> {
+    const { customFields, ...workLogData } = createWorkLogDto;
+    const start = new Date(createWorkLogDto.startTime);
+    const end = new Date(createWorkLogDto.endTime);
+    const organizationId = await this.assertCanLogWork(
+      userId,
+      createWorkLogDto.projectId,
+      start,
+      end,
+    );
+    if (createWorkLogDto.milestoneId) {
+      await this.assertMilestoneInProject(
+        createWorkLogDto.milestoneId,
+        createWorkLogDto.projectId,
+      );
+    }
+    if (createWorkLogDto.ticketId) {
+      await this.assertTicketInProject(
+        createWorkLogDto.ticketId,
+        createWorkLogDto.projectId,
+        userId,
+      );
+    }
+
+    const metadata = this.customFieldsService && {
+      [CUSTOM_FIELDS_KEY]: (await this.customFieldsService.validateValues(
+        organizationId,
+        'work-log',
+        customFields,
+      )) as Prisma.InputJsonObject,
+    };
+
+    const workLog = await this.prisma.workLog.create({
+      data: {
+        ...workLogData,
+        userId,
+        startTime: start,
+        endTime: end,
+        ...(metadata && { metadata }),
+      },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        project: { select: { id: true, name: true, code: true } },
+        ticket: { select: { id: true, title: true, externalId: true } },
+      },
+    });
+    this.achievementsService?.scheduleEvaluation(userId, 'work_log');
+    return workLog;
+  }
+
+  /**
+   * Checks that the user can log time on the project and that the period does
+   * not overlap their existing work logs, and returns the project's
+   * organization. Shared with bulk imports.
+   */
+  async assertCanLogWork(
+    userId: string,
+    projectId: string,
+    start: Date,
+    end: Date,
+  ): Promise<string> {
     // Ensure project exists and user has access (owner or member)
     const project = await this.prisma.project.findUnique({
-      where: { id: createWorkLogDto.projectId },
+      where: { id: projectId },
       select: {
         id: true,
         ownerId: true,
+        organizationId: true,
         members: { select: { userId: true } },
       },
     });
@@ -40,8 +114,6 @@ export class WorkLogsService {
     }
 
     // Overlap check
-    const start = new Date(createWorkLogDto.startTime);
-    const end = new Date(createWorkLogDto.endTime);
     const overlapping = await this.prisma.workLog.findMany({
       where: {
         userId,
@@ -57,34 +129,91 @@ export class WorkLogsService {
         'Time period overlaps with existing work log',
       );
     }
+    return project.organizationId;
+  }
 
-    return this.prisma.workLog.create({
-      data: {
-        ...createWorkLogDto,
-        userId,
-        startTime: start,
-        endTime: end,
-      },
-      include: {
-        user: {
-          select: { id: true, firstName: true, lastName: true, email: true },
-        },
-        project: { select: { id: true, name: true, code: true } },
-        ticket: { select: { id: true, title: true, externalId: true } },
-      },
+  private async assertMilestoneInProject(
+    milestoneId: string,
+    projectId: string,
+  ): Promise<void> {
+    const milestone = await this.prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      select: { projectId: true },
     });
+    if (!milestone || milestone.projectId !== projectId) {
+      throw new BadRequestException(
+        'Milestone does not belong to the selected project',
+      );
+    }
+  }
+
+  private async assertTicketInProject(
+    ticketId: string,
+    projectId: string,
+    userId: string,
+  ): Promise<void> {
+    const [ticket, user] = await Promise.all([
+      this.prisma.ticket.findUnique({
+        where: { id: ticketId },
+        select: {
+          projectId: true,
+          project: { select: { organizationId: true } },
+        },
+      }),
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { organizationId: true },
+      }),
+    ]);
+    if (
+      !ticket ||
+      ticket.projectId !== projectId ||
+      ticket.project.organizationId !== user?.organizationId
+    ) {
+      throw new BadRequestException(
+        'Ticket does not belong to the selected project',
+      );
+    }
   }
 
   async findAll(userId: string, query: any = {}) {
     const {
       page = 1,
       limit = 20,
-      search,
       sortBy = 'startTime',
       sortOrder = 'desc',
-      ...filters
     } = query;
     const skip = (page - 1) * limit;
+    const finalWhere = await this.buildWhere(userId, query);
+
+    const [workLogs, total] = await this.prisma.$transaction([
+      this.prisma.workLog.findMany({
+        where: finalWhere,
+        include: {
+          user: true,
+          project: true,
+          ticket: true,
+          milestone: { select: { id: true, name: true } },
+        },
+        orderBy: { [sortBy]: sortOrder },
+        skip,
+        take: limit,
+      }),
+      this.prisma.workLog.count({ where: finalWhere }),
+    ]);
+
+    return {
+      data: workLogs,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /** Scope and filter clause shared by the list endpoint and exports. */
+  async buildWhere(
+    userId: string,
+    query: any = {},
+  ): Promise<Prisma.WorkLogWhereInput> {
+    const { search, ...filters } = query;
 
     const whereScope = this.dataScopeService
       ? await this.dataScopeService.getAccessScopeWhereClause(
@@ -96,6 +225,7 @@ export class WorkLogsService {
     const filterWhere: Prisma.WorkLogWhereInput = {};
     if (filters.projectId) filterWhere.projectId = filters.projectId;
     if (filters.userId) filterWhere.userId = filters.userId;
+    if (filters.milestoneId) filterWhere.milestoneId = filters.milestoneId;
     if (filters.startDate)
       filterWhere.startTime = { gte: new Date(filters.startDate) };
     if (filters.endDate)
@@ -103,8 +233,27 @@ export class WorkLogsService {
     if (filters.isBillable)
       filterWhere.isBillable = filters.isBillable === 'true';
 
+    // customFields[key]=value query parameters, as the user's organization
+    // defines them
+    let customFieldFilters: Prisma.JsonNullableFilter[] = [];
+    if (this.customFieldsService && filters.customFields) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { organizationId: true },
+      });
+      customFieldFilters = await this.customFieldsService.buildFilters(
+        user?.organizationId ?? null,
+        'work-log',
+        filters.customFields,
+      );
+    }
+
     const finalWhere: Prisma.WorkLogWhereInput = {
-      AND: [whereScope, filterWhere],
+      AND: [
+        whereScope,
+        filterWhere,
+        ...customFieldFilters.map((metadata) => ({ metadata })),
+      ],
     };
 
     if (search) {
@@ -118,28 +267,22 @@ export class WorkLogsService {
       });
     }
 
-    const [workLogs, total] = await this.prisma.$transaction([
-      this.prisma.workLog.findMany({
-        where: finalWhere,
-        include: { user: true, project: true, ticket: true },
-        orderBy: { [sortBy]: sortOrder },
-        skip,
-        take: limit,
-      }),
-      this.prisma.workLog.count({ where: finalWhere }),
-    ]);
-
-    return {
-      data: workLogs,
-      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
-    };
+    return finalWhere;
   }
 
-  async findOne(id: string, userId: string): Promise<WorkLog> {
+  async findOne(
+    id: string,
+    userId: string,
+  ): Promise<WorkLog & { project: Project }> {
     // Fetch by ID first
     const workLog = await this.prisma.workLog.findUnique({
       where: { id },
-      include: { user: true, project: true, ticket: true },
+      include: {
+        user: true,
+        project: true,
+        ticket: true,
+        milestone: { select: { id: true, name: true } },
+      },
     });
     if (!workLog) {
       throw new NotFoundException('Work log not found');
@@ -166,11 +309,52 @@ export class WorkLogsService {
     updateWorkLogDto: UpdateWorkLogDto,
     userId: string,
   ): Promise<WorkLog> {
-    await this.findOne(id, userId); // Permission check
-    return this.prisma.workLog.update({
+    const workLog = await this.findOne(id, userId); // Permission check
+    const { customFields, ...workLogData } = updateWorkLogDto;
+
+    const milestoneId =
+      updateWorkLogDto.milestoneId !== undefined
+        ? updateWorkLogDto.milestoneId
+        : workLog.milestoneId;
+    if (
+      milestoneId &&
+      (updateWorkLogDto.milestoneId || updateWorkLogDto.projectId)
+    ) {
+      await this.assertMilestoneInProject(
+        milestoneId,
+        updateWorkLogDto.projectId ?? workLog.projectId,
+      );
+    }
+    const ticketId =
+      updateWorkLogDto.ticketId !== undefined
+        ? updateWorkLogDto.ticketId
+        : workLog.ticketId;
+    if (ticketId && (updateWorkLogDto.ticketId || updateWorkLogDto.projectId)) {
+      await this.assertTicketInProject(
+        ticketId,
+        updateWorkLogDto.projectId ?? workLog.projectId,
+        userId,
+      );
+    }
+
+    let metadata: Prisma.InputJsonObject | undefined;
+    if (customFields && this.customFieldsService) {
+      metadata = {
+        ...(workLog.metadata as Prisma.JsonObject | null),
+        [CUSTOM_FIELDS_KEY]: (await this.customFieldsService.validateValues(
+          workLog.project.organizationId,
+          'work-log',
+          customFields,
+          this.customFieldsService.readValues(workLog.metadata),
+        )) as Prisma.InputJsonObject,
+      };
+    }
+
+    const updated = await this.prisma.workLog.update({
       where: { id },
       data: {
-        ...updateWorkLogDto,
+        ...workLogData,
+        ...(metadata && { metadata }),
         ...(updateWorkLogDto.startTime && {
           startTime: new Date(updateWorkLogDto.startTime),
         }),
@@ -179,17 +363,31 @@ export class WorkLogsService {
         }),
       },
     });
+    this.achievementsService?.scheduleEvaluation(workLog.userId, 'work_log');
+    return updated;
   }
 
   async remove(id: string, userId: string): Promise<{ message: string }> {
-    await this.findOne(id, userId); // Permission check
-    await this.prisma.workLog.delete({ where: { id } });
+    const workLog = await this.findOne(id, userId); // Permission check
+    // The tombstone tells offline clients to drop their copy
+    await this.prisma.$transaction([
+      this.prisma.workLog.delete({ where: { id } }),
+      this.prisma.syncTombstone.create({
+        data: {
+          entity: 'work-log',
+          entityId: id,
+          organizationId: workLog.project.organizationId,
+          userId: workLog.userId,
+          projectId: workLog.projectId,
+        },
+      }),
+    ]);
     return { message: 'Work log deleted successfully' };
   }
 
   async approve(id: string, approverId: string): Promise<WorkLog> {
     await this.findOne(id, approverId); // Check if approver can see the log
-    return this.prisma.workLog.update({
+    const approved = await this.prisma.workLog.update({
       where: { id },
       data: {
         isApproved: true,
@@ -197,6 +395,29 @@ export class WorkLogsService {
         approvedAt: new Date(),
       },
     });
+
+    if (approved.userId !== approverId) {
+      const summary =
+        approved.description.length > 80
+          ? `${approved.description.slice(0, 77)}...`
+          : approved.description;
+      await this.notificationsService?.notify(approved.userId, {
+        type: 'PROJECT_UPDATE',
+        title: 'Work log approved',
+        message: `Your work log "${summary}" was approved.`,
+        data: {
+          workLogId: approved.id,
+          projectId: approved.projectId,
+          link: '/dashboard/work-logs',
+        },
+      });
+    }
+    this.realtimeService?.emit(
+      approved.userId,
+      RealtimeEvents.WORK_LOG_APPROVED,
+      { workLogId: approved.id, approvedBy: approverId },
+    );
+    return approved;
   }
 
   async getAnalytics(userId: string, query: any = {}) {
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Card, CardContent } from '@/components/ui';
+import { Bot, Loader2, MessageSquare, Plus, Send, Trash2, Wrench } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ChatSession {
+  id: string;
+  title: string | null;
+  updatedAt: string;
+}
+
+interface ChatMessage {
+  id?: string;
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  metadata: { toolCalls?: { id: string; name: string }[] } | null;
+  createdAt?: string;
+}
+
+const toolLabels: Record<string, string> = {
+  work_log_summary: 'work log totals',
+  time_tracking_breakdown: 'hours per person',
+  project_overview: 'project overview',
+};
+
+const suggestions = [
+  'How many hours did my team bill last month?',
+  'Who logged time this week?',
+  'How are my projects doing?',
+];
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export default function AssistantPage() {
+  const { apiCall } = useAuth();
+  const queryClient = useQueryClient();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<ChatSession[]>({
+    queryKey: ['assistant-sessions'],
+    queryFn: async () => {
+      const response = await apiCall('/api/assistant/sessions');
+      if (!response.ok) {
+        throw new Error('Failed to fetch conversations');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: messages = [] } = useQuery<ChatMessage[]>({
+    queryKey: ['assistant-sessions', selectedId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/assistant/sessions/${selectedId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch conversation');
+      }
+      const session = await response.json();
+      return session.messages;
+    },
+    enabled: !!selectedId,
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, pending]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      let sessionId = selectedId;
+      if (!sessionId) {
+        const response = await apiCall('/api/assistant/sessions', {
+          method: 'POST',
+          body: JSON.stringify({}),
+        });
+        if (!response.ok) {
+          throw new Error(await getErrorMessage(response, 'Failed to start conversation'));
+        }
+        sessionId = (await response.json()).id as string;
+        setSelectedId(sessionId);
+      }
+
+      const response = await apiCall(`/api/assistant/sessions/${sessionId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ content }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'The assistant could not answer'));
+      }
+      return response.json();
+    },
+    onMutate: (content) => setPending(content),
+    onSettled: () => {
+      setPending(null);
+      queryClient.invalidateQueries({ queryKey: ['assistant-sessions'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/assistant/sessions/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete conversation'));
+      }
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      if (id === selectedId) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['assistant-sessions'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const ask = (content: string) => {
+    if (!content.trim() || sendMutation.isPending) return;
+    sendMutation.mutate(content.trim());
+    setQuestion('');
+  };
+
+  // Tool results stay out of the transcript; only which lookups ran is shown
+  const visibleMessages = messages.filter((message) => message.role !== 'tool');
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Assistant</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Ask about logged hours, billable time and projects. Answers only use data you can access.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+          {/* Conversations */}
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full" onClick={() => setSelectedId(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New conversation
+            </Button>
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            ) : (
+              sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={`flex items-center justify-between p-2 rounded-md border ${
+                    session.id === selectedId ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(session.id)}
+                    className="flex items-center space-x-2 text-left min-w-0 flex-1"
+                  >
+                    <MessageSquare className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <span className="text-sm text-gray-900 truncate">{session.title || 'New conversation'}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteMutation.mutate(session.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete conversation"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Conversation */}
+          <Card className="lg:col-span-3">
+            <CardContent className="p-4 flex flex-col h-[32rem]">
+              <div className="flex-1 overflow-y-auto space-y-3">
+                {visibleMessages.length === 0 && !pending && (
+                  <div className="text-center py-12">
+                    <Bot className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-500 mb-4">What would you like to know?</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {suggestions.map((suggestion) => (
+                        <button
+                          key={suggestion}
+                          type="button"
+                          onClick={() => ask(suggestion)}
+                          className="px-3 py-1 text-sm text-indigo-700 bg-indigo-50 rounded-full hover:bg-indigo-100"
+                        >
+                          {suggestion}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {visibleMessages.map((message, index) =>
+                  message.metadata?.toolCalls?.length ? (
+                    <div key={message.id ?? index} className="flex items-center space-x-1 text-xs text-gray-500">
+                      <Wrench className="h-3 w-3" />
+                      <span>
+                        Looked up {message.metadata.toolCalls.map((call) => toolLabels[call.name] ?? call.name).join(', ')}
+                      </span>
+                    </div>
+                  ) : (
+                    <div
+                      key={message.id ?? index}
+                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[80%] px-4 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+                          message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-900'
+                        }`}
+                      >
+                        {message.content}
+                      </div>
+                    </div>
+                  )
+                )}
+                {pending && (
+                  <>
+                    <div className="flex justify-end">
+                      <div className="max-w-[80%] px-4 py-2 rounded-lg text-sm bg-indigo-600 text-white">{pending}</div>
+                    </div>
+                    <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+                  </>
+                )}
+                <div ref={bottomRef} />
+              </div>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  ask(question);
+                }}
+                className="flex items-center space-x-2 pt-4 border-t border-gray-200"
+              >
+                <input
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  maxLength={2000}
+                  placeholder="Ask a question"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <Button type="submit" disabled={!question.trim() || sendMutation.isPending} title="Send">
+                  <Send className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Card, CardContent, Input, Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui';
+import { AuditLog, AuditLogDetail } from '@/components/audit-logs/audit-log-detail';
+import { AlertTriangle, Download, Loader2, ScrollText, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AuditLogFilters {
+  from: string;
+  to: string;
+  action: string;
+  entity: string;
+  entityId: string;
+  userId: string;
+  ipAddress: string;
+  statusCode: string;
+}
+
+const emptyFilters: AuditLogFilters = {
+  from: '',
+  to: '',
+  action: '',
+  entity: '',
+  entityId: '',
+  userId: '',
+  ipAddress: '',
+  statusCode: '',
+};
+
+const filterFields: { key: keyof AuditLogFilters; label: string; type?: string; placeholder?: string }[] = [
+  { key: 'from', label: 'From', type: 'date' },
+  { key: 'to', label: 'To', type: 'date' },
+  { key: 'action', label: 'Action', placeholder: 'User.update' },
+  { key: 'entity', label: 'Entity', placeholder: 'User' },
+  { key: 'entityId', label: 'Entity ID' },
+  { key: 'userId', label: 'User ID' },
+  { key: 'ipAddress', label: 'IP address' },
+  { key: 'statusCode', label: 'Status code', type: 'number', placeholder: '403' },
+];
+
+const PAGE_SIZE = 50;
+
+/** Filters as query parameters; dates cover whole days in the browser's time zone */
+const toSearchParams = (filters: AuditLogFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (!value) return;
+    if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    else if (key === 'to') params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    else params.set(key, value.trim());
+  });
+  return params;
+};
+
+const statusStyle = (statusCode?: number) => {
+  if (!statusCode) return 'bg-gray-100 text-gray-800';
+  if (statusCode >= 500) return 'bg-red-100 text-red-800';
+  if (statusCode >= 400) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-green-100 text-green-800';
+};
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  const message = errorData.error?.message || errorData.message;
+  return (Array.isArray(message) ? message.join(', ') : message) || fallback;
+};
+
+export default function AuditLogsPage() {
+  const { apiCall } = useAuth();
+  const [draft, setDraft] = useState<AuditLogFilters>(emptyFilters);
+  const [filters, setFilters] = useState<AuditLogFilters>(emptyFilters);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<AuditLog[]>({
+    queryKey: ['audit-logs', filters],
+    queryFn: async ({ pageParam }) => {
+      const params = toSearchParams(filters);
+      params.set('take', String(PAGE_SIZE));
+      if (pageParam) params.set('cursor', pageParam as string);
+      const response = await apiCall(`/api/audit-logs?${params}`);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to fetch audit logs'));
+      }
+      return response.json();
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => (lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].id : undefined),
+  });
+
+  const logs = data?.pages.flat() ?? [];
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: 'csv' | 'jsonl') => {
+      const params = toSearchParams(filters);
+      params.set('format', format);
+      const response = await apiCall(`/api/audit-logs/export?${params}`);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to export audit logs'));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Logs</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Who changed what and when. Exports include every log matching the filters.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => exportMutation.mutate('csv')} disabled={exportMutation.isPending}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={() => exportMutation.mutate('jsonl')} disabled={exportMutation.isPending}>
+              <Download className="h-4 w-4 mr-2" />
+              JSONL
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="p-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                setFilters(draft);
+              }}
+              className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4"
+            >
+              {filterFields.map((field) => (
+                <div key={field.key}>
+                  <label htmlFor={`filter-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                  </label>
+                  <Input
+                    id={`filter-${field.key}`}
+                    type={field.type || 'text'}
+                    value={draft[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <div className="flex space-x-2 sm:col-span-2 lg:col-span-4 justify-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setDraft(emptyFilters);
+                    setFilters(emptyFilters);
+                  }}
+                >
+                  Clear
+                </Button>
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-12">
+                <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-500">{(error as Error).message}</p>
+              </div>
+            ) : logs.length === 0 ? (
+              <div className="text-center py-12">
+                <ScrollText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No audit logs match these filters.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>IP address</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log) => (
+                    <TableRow key={log.id} className="cursor-pointer hover:bg-gray-50" onClick={() => setSelectedId(log.id)}>
+                      <TableCell className="whitespace-nowrap">
+                        {log.timestamp ? new Date(log.timestamp).toLocaleString() : '—'}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{log.action}</TableCell>
+                      <TableCell>
+                        {log.entity}
+                        {log.entityId && <span className="block text-xs text-gray-500 font-mono">{log.entityId}</span>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{log.userId || 'System'}</TableCell>
+                      <TableCell>{log.ipAddress || '—'}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyle(log.metadata?.statusCode)}`}>
+                          {log.metadata?.statusCode ?? '—'}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {selectedId && <AuditLogDetail logId={selectedId} onClose={() => setSelectedId(null)} />}
+    </DashboardLayout>
+  );
+}
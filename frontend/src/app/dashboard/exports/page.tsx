@@ -0,0 +1,232 @@
+'use client';
+
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Card, CardContent, Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui';
+import { AlertTriangle, Download, FileDown, Loader2, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ExportStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+interface ExportJob {
+  id: string;
+  type: string;
+  format: string;
+  fileName: string | null;
+  fileSize: number | null;
+  recordCount: number | null;
+  progress: number | null;
+  status: ExportStatus | null;
+  errorMessage: string | null;
+  expiresAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+const typeLabels: Record<string, string> = {
+  'work-logs': 'Work Logs',
+  'time-sessions': 'Time Entries',
+  projects: 'Projects',
+  users: 'Users',
+};
+
+const statusStyles: Record<ExportStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  PROCESSING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const isRunning = (job: ExportJob) => job.status === 'PENDING' || job.status === 'PROCESSING';
+
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export default function ExportsPage() {
+  const { apiCall } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: exports = [], isLoading, error } = useQuery<ExportJob[]>({
+    queryKey: ['exports'],
+    queryFn: async () => {
+      const response = await apiCall('/api/exports');
+      if (!response.ok) {
+        throw new Error('Failed to fetch exports');
+      }
+      return response.json();
+    },
+    // Poll quickly only while a job is still running
+    refetchInterval: (query) => (query.state.data?.some(isRunning) ? 2000 : 30000),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (job: ExportJob) => {
+      const response = await apiCall(`/api/exports/${job.id}/download`);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to download export'));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = job.fileName || `${job.type}.${job.format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+      queryClient.invalidateQueries({ queryKey: ['exports'] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/exports/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete export'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exports'] });
+      toast.success('Export deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to load exports</h3>
+            <p className="text-gray-500 mb-4">There was an error loading your exports.</p>
+            <Button onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Exports</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Exports started from work logs, time entries, projects and users. Files are kept for 24 hours.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : exports.length === 0 ? (
+              <div className="text-center py-12">
+                <FileDown className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No exports yet</h3>
+                <p className="text-gray-500">Use the Export button on any list to start one.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Format</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Records</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {exports.map((job) => {
+                    const status = job.status ?? 'PENDING';
+                    const expired = job.expiresAt !== null && new Date(job.expiresAt) <= new Date();
+                    return (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{typeLabels[job.type] ?? job.type}</div>
+                          {job.fileName && <div className="text-xs text-gray-500">{job.fileName}</div>}
+                        </TableCell>
+                        <TableCell>{job.format.toUpperCase()}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[status]}`}
+                          >
+                            {status.charAt(0) + status.slice(1).toLowerCase()}
+                          </span>
+                          {isRunning(job) && (
+                            <div className="mt-2 w-32 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-indigo-600 transition-all"
+                                style={{ width: `${job.progress ?? 0}%` }}
+                              />
+                            </div>
+                          )}
+                          {status === 'FAILED' && job.errorMessage && (
+                            <p className="mt-1 text-xs text-red-600">{job.errorMessage}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{job.recordCount ?? '—'}</TableCell>
+                        <TableCell>{formatFileSize(job.fileSize)}</TableCell>
+                        <TableCell>
+                          <span className="text-sm text-gray-500">
+                            {job.startedAt ? new Date(job.startedAt).toLocaleString() : '—'}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            {status === 'COMPLETED' && !expired && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => downloadMutation.mutate(job)}
+                                disabled={downloadMutation.isPending}
+                                title="Download"
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(job.id)}
+                              disabled={deleteMutation.isPending || isRunning(job)}
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
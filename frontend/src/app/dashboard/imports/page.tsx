@@ -0,0 +1,481 @@
+'use client';
+
+import { useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import {
+  Button,
+  Input,
+  Card,
+  CardHeader,
+  CardContent,
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui';
+import { AlertTriangle, FileUp, FileWarning, Loader2, Play, SearchCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ImportType = 'work-logs' | 'users';
+type ImportStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'PARTIAL';
+type RowStatus = 'valid' | 'duplicate' | 'invalid';
+
+interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+interface ImportPreview {
+  headers: string[];
+  fields: ImportField[];
+  mapping: Record<string, string>;
+  missingFields: string[];
+  totalRecords: number;
+  validRecords: number;
+  duplicateRecords: number;
+  errorRecords: number;
+  rows: { rowNumber: number; status: RowStatus; errors: string[]; values: Record<string, string> }[];
+  errors: { rowNumber: number; errors: string[] }[];
+}
+
+interface ImportJob {
+  id: string;
+  type: ImportType;
+  fileName: string;
+  totalRecords: number | null;
+  processedRecords: number | null;
+  successRecords: number | null;
+  errorRecords: number | null;
+  skippedRecords: number | null;
+  status: ImportStatus | null;
+  errorDetails: { message?: string } | null;
+  startedAt: string | null;
+}
+
+const typeOptions: { value: ImportType; label: string; resource: string }[] = [
+  { value: 'work-logs', label: 'Work Logs', resource: 'work_logs' },
+  { value: 'users', label: 'Users', resource: 'users' },
+];
+
+const statusStyles: Record<ImportStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  PROCESSING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  PARTIAL: 'bg-yellow-100 text-yellow-800',
+  FAILED: 'bg-red-100 text-red-800',
+};
+
+const rowStatusStyles: Record<RowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-800',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const isRunning = (job: ImportJob) => job.status === 'PENDING' || job.status === 'PROCESSING';
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export default function ImportsPage() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+
+  const allowedTypes = typeOptions.filter((option) => hasPermission(option.resource, 'create'));
+  const [type, setType] = useState<ImportType>('work-logs');
+  const [file, setFile] = useState<File | null>(null);
+  const [importSource, setImportSource] = useState('');
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const selectedType = allowedTypes.some((option) => option.value === type)
+    ? type
+    : allowedTypes[0]?.value;
+
+  const { data: imports = [], isLoading, error } = useQuery<ImportJob[]>({
+    queryKey: ['imports'],
+    queryFn: async () => {
+      const response = await apiCall('/api/imports');
+      if (!response.ok) {
+        throw new Error('Failed to fetch imports');
+      }
+      return response.json();
+    },
+    // Poll quickly only while a job is still running
+    refetchInterval: (query) => (query.state.data?.some(isRunning) ? 2000 : 30000),
+  });
+
+  const buildForm = () => {
+    const form = new FormData();
+    form.append('file', file!);
+    form.append('type', selectedType!);
+    if (mapping) form.append('mapping', JSON.stringify(mapping));
+    if (importSource && selectedType === 'work-logs') form.append('importSource', importSource);
+    return form;
+  };
+
+  const resetPreview = () => {
+    setMapping(null);
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/imports/preview', { method: 'POST', body: buildForm() });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to validate file'));
+      }
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.mapping);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/imports', { method: 'POST', body: buildForm() });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to start import'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['imports'] });
+      toast.success('Import started');
+      setFile(null);
+      resetPreview();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const downloadErrors = async (job: ImportJob) => {
+    try {
+      const response = await apiCall(`/api/imports/${job.id}/errors`);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to download error report'));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${job.fileName.replace(/\.[^.]+$/, '')}-errors.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const updateMapping = (field: string, header: string) => {
+    const next = { ...(mapping ?? {}) };
+    if (header) next[field] = header;
+    else delete next[field];
+    setMapping(next);
+  };
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to load imports</h3>
+            <p className="text-gray-500 mb-4">There was an error loading your imports.</p>
+            <Button onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Imports</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Import work logs or users from CSV or Excel files. Validate the file first to check the column
+            mapping and see which rows would be rejected.
+          </p>
+        </div>
+
+        {selectedType && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-medium text-gray-900">New import</h2>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Data</label>
+                  <select
+                    value={selectedType}
+                    onChange={(e) => {
+                      setType(e.target.value as ImportType);
+                      resetPreview();
+                    }}
+                    className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    {allowedTypes.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] ?? null);
+                      resetPreview();
+                    }}
+                    className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                  />
+                </div>
+                {selectedType === 'work-logs' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Source system</label>
+                    <Input
+                      value={importSource}
+                      onChange={(e) => setImportSource(e.target.value)}
+                      placeholder="e.g. harvest"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Rows whose External ID was already imported from this source are skipped.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {preview && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">Column mapping</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {preview.fields.map((field) => (
+                      <div key={field.key}>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          {field.label}
+                          {field.required && <span className="text-red-500"> *</span>}
+                        </label>
+                        <select
+                          value={mapping?.[field.key] ?? ''}
+                          onChange={(e) => updateMapping(field.key, e.target.value)}
+                          className="block w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                          <option value="">Not imported</option>
+                          {preview.headers.map((header) => (
+                            <option key={header} value={header}>
+                              {header}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={!file || previewMutation.isPending}
+                >
+                  {previewMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <SearchCheck className="h-4 w-4 mr-2" />
+                  )}
+                  {preview ? 'Validate Again' : 'Validate'}
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => importMutation.mutate()}
+                  disabled={
+                    !preview ||
+                    preview.missingFields.length > 0 ||
+                    preview.validRecords === 0 ||
+                    importMutation.isPending
+                  }
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Start Import
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="space-y-4">
+                  {preview.missingFields.length > 0 ? (
+                    <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                      Choose a column for: {preview.missingFields.join(', ')}, then validate again.
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-700">
+                      {preview.totalRecords} rows: <span className="text-green-700">{preview.validRecords} ready</span>,{' '}
+                      {preview.duplicateRecords} already imported,{' '}
+                      <span className="text-red-700">{preview.errorRecords} with errors</span>.
+                    </p>
+                  )}
+
+                  {preview.rows.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>Status</TableHead>
+                          {preview.fields
+                            .filter((field) => mapping?.[field.key])
+                            .map((field) => (
+                              <TableHead key={field.key}>{field.label}</TableHead>
+                            ))}
+                          <TableHead>Messages</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.rows.map((row) => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            <TableCell>
+                              <span
+                                className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${rowStatusStyles[row.status]}`}
+                              >
+                                {row.status}
+                              </span>
+                            </TableCell>
+                            {preview.fields
+                              .filter((field) => mapping?.[field.key])
+                              .map((field) => (
+                                <TableCell key={field.key}>
+                                  <span className="text-sm text-gray-700">{row.values[field.key]}</span>
+                                </TableCell>
+                              ))}
+                            <TableCell>
+                              <span className="text-xs text-gray-500">{row.errors.join('; ')}</span>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  {preview.errors.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-900 mb-2">Rows with errors</h3>
+                      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 text-sm">
+                        {preview.errors.map((row) => (
+                          <li key={row.rowNumber} className="py-1.5">
+                            <span className="font-medium text-gray-900">Row {row.rowNumber}:</span>{' '}
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium text-gray-900">Recent imports</h2>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+              </div>
+            ) : imports.length === 0 ? (
+              <div className="text-center py-12">
+                <FileUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No imports yet</h3>
+                <p className="text-gray-500">Files you import will appear here.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Imported</TableHead>
+                    <TableHead>Skipped</TableHead>
+                    <TableHead>Errors</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {imports.map((job) => {
+                    const status = job.status ?? 'PENDING';
+                    const total = job.totalRecords ?? 0;
+                    const progress = total ? Math.round(((job.processedRecords ?? 0) / total) * 100) : 0;
+                    return (
+                      <TableRow key={job.id}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{job.fileName}</div>
+                          <div className="text-xs text-gray-500">
+                            {typeOptions.find((option) => option.value === job.type)?.label ?? job.type} · {total} rows
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[status]}`}
+                          >
+                            {status.charAt(0) + status.slice(1).toLowerCase()}
+                          </span>
+                          {isRunning(job) && (
+                            <div className="mt-2 w-32 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress}%` }} />
+                            </div>
+                          )}
+                          {job.errorDetails?.message && (
+                            <p className="mt-1 text-xs text-red-600">{job.errorDetails.message}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{job.successRecords ?? 0}</TableCell>
+                        <TableCell>{job.skippedRecords ?? 0}</TableCell>
+                        <TableCell>{job.errorRecords ?? 0}</TableCell>
+                        <TableCell>
+                          <span className="text-sm text-gray-500">
+                            {job.startedAt ? new Date(job.startedAt).toLocaleString() : '—'}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {!isRunning(job) && ((job.errorRecords ?? 0) > 0 || job.errorDetails?.message) && (
+                            <Button variant="ghost" size="sm" onClick={() => downloadErrors(job)} title="Download error report">
+                              <FileWarning className="h-4 w-4 mr-1" />
+                              Error report
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
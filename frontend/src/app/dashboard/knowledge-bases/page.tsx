@@ -0,0 +1,410 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Card, CardContent, Input } from '@/components/ui';
+import {
+  KnowledgeBase,
+  KnowledgeBaseForm,
+  knowledgeBaseTypeLabels,
+  getErrorMessage,
+} from '@/components/knowledge-bases/knowledge-base-form';
+import { DocumentForm, KnowledgeDocument } from '@/components/knowledge-bases/document-form';
+import { BookOpen, Edit, FileText, Loader2, Plus, Search, Trash2, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface SearchResult {
+  id: string;
+  title: string;
+  knowledgeBaseId: string;
+  knowledgeBaseName: string;
+  rank: number;
+  snippet: string;
+}
+
+const UPLOAD_ACCEPT = '.pdf,.txt,.md,.markdown,.rst,.csv,.log,.adoc,.ts,.tsx,.js,.jsx,.json,.py,.java,.kt,.go,.rb,.rs,.c,.h,.cpp,.cs,.php,.sh,.sql,.yml,.yaml,.xml,.html,.css,.scss,.tf';
+
+// Search snippets mark matches with <b> tags; render them as text to keep document content inert
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(<b>.*?<\/b>)/g).map((part, index) =>
+    part.startsWith('<b>') ? (
+      <mark key={index} className="bg-yellow-100 text-gray-900">
+        {part.slice(3, -4)}
+      </mark>
+    ) : (
+      part
+    )
+  );
+
+export default function KnowledgeBasesPage() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<KnowledgeBase | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [openDocument, setOpenDocument] = useState<{ knowledgeBaseId: string; id?: string } | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const canCreate = hasPermission('knowledge_bases', 'create');
+  const canUpdate = hasPermission('knowledge_bases', 'update');
+  const canDelete = hasPermission('knowledge_bases', 'delete');
+
+  const { data: knowledgeBases = [], isLoading } = useQuery<KnowledgeBase[]>({
+    queryKey: ['knowledge-bases'],
+    queryFn: async () => {
+      const response = await apiCall('/api/knowledge-bases');
+      if (!response.ok) {
+        throw new Error('Failed to fetch knowledge bases');
+      }
+      return response.json();
+    },
+  });
+
+  const selected = knowledgeBases.find((kb) => kb.id === selectedId) ?? knowledgeBases[0] ?? null;
+
+  const { data: documents = [], isLoading: documentsLoading } = useQuery<KnowledgeDocument[]>({
+    queryKey: ['knowledge-bases', selected?.id, 'documents'],
+    queryFn: async () => {
+      const response = await apiCall(`/api/knowledge-bases/${selected!.id}/documents`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch documents');
+      }
+      return response.json();
+    },
+    enabled: !!selected,
+  });
+
+  const { data: results = [], isFetching: searching } = useQuery<SearchResult[]>({
+    queryKey: ['knowledge-bases', 'search', searchTerm],
+    queryFn: async () => {
+      const response = await apiCall(`/api/knowledge-bases/search?q=${encodeURIComponent(searchTerm)}`);
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Search failed'));
+      }
+      return response.json();
+    },
+    enabled: !!searchTerm,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['knowledge-bases'] });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await apiCall(`/api/knowledge-bases/${selected!.id}/documents/upload`, {
+        method: 'POST',
+        body: form,
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to upload document'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document uploaded');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/knowledge-bases/${selected!.id}/documents/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete document'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Document deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/knowledge-bases/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete knowledge base'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      invalidate();
+      toast.success('Knowledge base deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleDelete = (knowledgeBase: KnowledgeBase) => {
+    if (confirm(`Delete "${knowledgeBase.name}" and all of its documents?`)) {
+      deleteMutation.mutate(knowledgeBase.id);
+    }
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadMutation.mutate(file);
+    e.target.value = '';
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Knowledge Base</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Documentation shared across your organization and your projects.
+            </p>
+          </div>
+          {canCreate && (
+            <Button
+              onClick={() => {
+                setEditing(null);
+                setShowForm(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Knowledge Base
+            </Button>
+          )}
+        </div>
+
+        {/* Search */}
+        <form onSubmit={handleSearch} className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search all documents"
+              className="pl-9"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={!searchInput.trim()}>
+            Search
+          </Button>
+          {searchTerm && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setSearchInput('');
+                setSearchTerm('');
+              }}
+              title="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </form>
+
+        {searchTerm && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <h2 className="text-sm font-medium text-gray-700">Results for &quot;{searchTerm}&quot;</h2>
+              {searching ? (
+                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+              ) : results.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents match your search.</p>
+              ) : (
+                results.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    onClick={() => setOpenDocument({ knowledgeBaseId: result.knowledgeBaseId, id: result.id })}
+                    className="block w-full text-left p-3 rounded-md border border-gray-200 hover:bg-gray-50"
+                  >
+                    <div className="font-medium text-gray-900">{result.title}</div>
+                    <div className="text-xs text-gray-500 mb-1">{result.knowledgeBaseName}</div>
+                    <p className="text-sm text-gray-600">{renderSnippet(result.snippet)}</p>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : knowledgeBases.length === 0 ? (
+          <div className="text-center py-12">
+            <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No knowledge bases yet</h3>
+            <p className="text-gray-500">Knowledge bases you can access will appear here.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            {/* Knowledge bases */}
+            <div className="space-y-2">
+              {knowledgeBases.map((kb) => (
+                <button
+                  key={kb.id}
+                  type="button"
+                  onClick={() => setSelectedId(kb.id)}
+                  className={`block w-full text-left p-3 rounded-md border ${
+                    kb.id === selected?.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">{kb.name}</span>
+                    <span className="text-xs text-gray-500">{kb._count.documents} docs</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {kb.project ? kb.project.name : knowledgeBaseTypeLabels[kb.type ?? 'GENERAL']}
+                    {kb.isActive === false && ' • Excluded from search'}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Documents */}
+            {selected && (
+              <Card className="lg:col-span-2">
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                      {selected.description && <p className="text-sm text-gray-500">{selected.description}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {canUpdate && (
+                        <>
+                          <input
+                            ref={fileInput}
+                            type="file"
+                            accept={UPLOAD_ACCEPT}
+                            className="hidden"
+                            onChange={handleUpload}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => fileInput.current?.click()}
+                            disabled={uploadMutation.isPending}
+                          >
+                            <Upload className="h-4 w-4 mr-1" />
+                            {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setOpenDocument({ knowledgeBaseId: selected.id })}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            Write
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditing(selected);
+                              setShowForm(true);
+                            }}
+                            title="Edit"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {canDelete && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(selected)}
+                          disabled={deleteMutation.isPending}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {documentsLoading ? (
+                    <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                  ) : documents.length === 0 ? (
+                    <p className="text-sm text-gray-500">This knowledge base has no documents yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {documents.map((doc) => (
+                        <li key={doc.id} className="flex items-center justify-between py-2">
+                          <button
+                            type="button"
+                            onClick={() => setOpenDocument({ knowledgeBaseId: selected.id, id: doc.id })}
+                            className="flex items-center space-x-2 text-left"
+                          >
+                            <FileText className="h-4 w-4 text-gray-400" />
+                            <span className="text-sm font-medium text-gray-900">{doc.title}</span>
+                            <span className="text-xs text-gray-500">{doc.type}</span>
+                            {!doc.isIndexed && <span className="text-xs text-yellow-700">Indexing…</span>}
+                          </button>
+                          {canUpdate && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteDocumentMutation.mutate(doc.id)}
+                              disabled={deleteDocumentMutation.isPending}
+                              title="Delete document"
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <KnowledgeBaseForm
+          knowledgeBase={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={(saved) => {
+            setShowForm(false);
+            setSelectedId(saved.id);
+            invalidate();
+          }}
+        />
+      )}
+
+      {openDocument && (
+        <DocumentForm
+          knowledgeBaseId={openDocument.knowledgeBaseId}
+          documentId={openDocument.id}
+          canEdit={canUpdate}
+          onClose={() => setOpenDocument(null)}
+          onSuccess={() => {
+            setOpenDocument(null);
+            invalidate();
+          }}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,630 @@
+'use client';
+
+import { useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { LeavePageGuard } from '@/components/auth/page-permission-guard';
+import {
+  Plus,
+  CalendarDays,
+  Check,
+  X,
+  Ban,
+  AlertTriangle,
+} from 'lucide-react';
+import {
+  Button,
+  Input,
+  Modal,
+  Card,
+  CardHeader,
+  CardContent,
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui';
+import toast from 'react-hot-toast';
+
+type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+interface LeaveType {
+  id: string;
+  name: string;
+  description?: string | null;
+  maxDaysPerYear?: number | null;
+}
+
+interface LeaveBalance {
+  leaveType: LeaveType;
+  year: number;
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+interface LeaveRequest {
+  id: string;
+  startDate: string;
+  endDate: string;
+  days: string | number;
+  reason?: string | null;
+  status: LeaveStatus;
+  submittedAt: string;
+  leaveType: LeaveType;
+  user: {
+    id: string;
+    displayName?: string;
+    email: string;
+  };
+  approvals: Array<{
+    id: string;
+    status: LeaveStatus;
+    comments?: string | null;
+    decidedAt?: string | null;
+    approver: {
+      id: string;
+      displayName?: string;
+      email: string;
+    };
+  }>;
+}
+
+const statusStyles: Record<LeaveStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+};
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export default function LeavePage() {
+  return (
+    <LeavePageGuard>
+      <LeavePageContent />
+    </LeavePageGuard>
+  );
+}
+
+function LeavePageContent() {
+  const [showRequestModal, setShowRequestModal] = useState(false);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+
+  const canRequest = hasPermission('leave', 'create');
+  const canApprove = hasPermission('leave', 'approve');
+
+  const { data: balances = [], isLoading: balancesLoading } = useQuery<LeaveBalance[]>({
+    queryKey: ['leaveBalances', year],
+    queryFn: async () => {
+      const response = await apiCall(`/api/leave/balances?year=${year}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch leave balances');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: requests = [], isLoading: requestsLoading, error } = useQuery<LeaveRequest[]>({
+    queryKey: ['leaveRequests', year],
+    queryFn: async () => {
+      const response = await apiCall(`/api/leave/requests?year=${year}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch leave requests');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: pendingApprovals = [] } = useQuery<LeaveRequest[]>({
+    queryKey: ['leaveApprovals'],
+    queryFn: async () => {
+      const response = await apiCall('/api/leave/approvals/pending');
+      if (!response.ok) {
+        throw new Error('Failed to fetch pending approvals');
+      }
+      return response.json();
+    },
+    enabled: canApprove,
+  });
+
+  const invalidateLeave = () => {
+    queryClient.invalidateQueries({ queryKey: ['leaveBalances'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveRequests'] });
+    queryClient.invalidateQueries({ queryKey: ['leaveApprovals'] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const response = await apiCall(`/api/leave/requests/${requestId}/cancel`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to cancel leave request'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateLeave();
+      toast.success('Leave request cancelled');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({
+      requestId,
+      decision,
+      comments,
+    }: {
+      requestId: string;
+      decision: 'approve' | 'reject';
+      comments?: string;
+    }) => {
+      const response = await apiCall(`/api/leave/requests/${requestId}/${decision}`, {
+        method: 'POST',
+        body: JSON.stringify({ comments }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, `Failed to ${decision} leave request`));
+      }
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateLeave();
+      toast.success(
+        variables.decision === 'approve' ? 'Leave request approved' : 'Leave request rejected'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleCancel = (request: LeaveRequest) => {
+    if (confirm(`Cancel your ${request.leaveType.name} request?`)) {
+      cancelMutation.mutate(request.id);
+    }
+  };
+
+  const handleReject = (request: LeaveRequest) => {
+    const comments = prompt(`Reason for rejecting ${request.user.displayName || request.user.email}'s request?`);
+    if (comments !== null) {
+      decideMutation.mutate({ requestId: request.id, decision: 'reject', comments });
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
+  const formatPeriod = (request: LeaveRequest) => {
+    const start = formatDate(request.startDate);
+    const end = formatDate(request.endDate);
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to load leave</h3>
+            <p className="text-gray-500 mb-4">There was an error loading your leave data.</p>
+            <Button onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Leave</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Request time off and track your remaining balance.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 flex space-x-3">
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {[year - 1, year, year + 1].map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                </option>
+              ))}
+            </select>
+            {canRequest && (
+              <Button onClick={() => setShowRequestModal(true)} variant="primary">
+                <Plus className="h-4 w-4 mr-2" />
+                Request Leave
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Balances */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {balancesLoading ? (
+            <div className="flex items-center justify-center py-8 md:col-span-3">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            balances.map((balance) => (
+              <Card key={balance.leaveType.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">{balance.leaveType.name}</p>
+                      <p className="text-2xl font-bold text-gray-900">
+                        {balance.remaining === null ? 'Unlimited' : `${balance.remaining} days`}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {balance.used} used · {balance.pending} pending
+                        {balance.allowance !== null && ` · ${balance.allowance} per year`}
+                      </p>
+                    </div>
+                    <CalendarDays className="h-8 w-8 text-indigo-500" />
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        {/* Pending approvals */}
+        {canApprove && pendingApprovals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-medium text-gray-900">
+                Awaiting your approval ({pendingApprovals.length})
+              </h2>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingApprovals.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">
+                          {request.user.displayName || request.user.email}
+                        </div>
+                      </TableCell>
+                      <TableCell>{request.leaveType.name}</TableCell>
+                      <TableCell>{formatPeriod(request)}</TableCell>
+                      <TableCell>{Number(request.days)}</TableCell>
+                      <TableCell>
+                        <span className="text-sm text-gray-500">{request.reason || '—'}</span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Approve"
+                            disabled={decideMutation.isPending}
+                            onClick={() => decideMutation.mutate({ requestId: request.id, decision: 'approve' })}
+                          >
+                            <Check className="h-4 w-4 text-green-600" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Reject"
+                            disabled={decideMutation.isPending}
+                            onClick={() => handleReject(request)}
+                          >
+                            <X className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* My requests */}
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium text-gray-900">My requests</h2>
+          </CardHeader>
+          <CardContent>
+            {requestsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+              </div>
+            ) : requests.length === 0 ? (
+              <div className="text-center py-8">
+                <CalendarDays className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No leave requests</h3>
+                <p className="text-gray-500">You have not requested any leave in {year}.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Approver</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => {
+                    const approval = request.approvals[0];
+                    const canCancel =
+                      request.status === 'PENDING' ||
+                      (request.status === 'APPROVED' && new Date(request.startDate) > new Date());
+                    return (
+                      <TableRow key={request.id}>
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{request.leaveType.name}</div>
+                          {request.reason && (
+                            <div className="text-sm text-gray-500">{request.reason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatPeriod(request)}</TableCell>
+                        <TableCell>{Number(request.days)}</TableCell>
+                        <TableCell>
+                          <span className={`text-xs px-2 py-1 rounded-full ${statusStyles[request.status]}`}>
+                            {request.status}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm text-gray-900">
+                            {approval?.approver.displayName || approval?.approver.email || '—'}
+                          </div>
+                          {approval?.comments && (
+                            <div className="text-xs text-gray-500">{approval.comments}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canRequest && canCancel && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Cancel request"
+                              disabled={cancelMutation.isPending}
+                              onClick={() => handleCancel(request)}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <LeaveRequestModal
+        isOpen={showRequestModal}
+        onClose={() => setShowRequestModal(false)}
+        balances={balances}
+        onSuccess={() => {
+          setShowRequestModal(false);
+          invalidateLeave();
+        }}
+      />
+    </DashboardLayout>
+  );
+}
+
+interface LeaveRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  balances: LeaveBalance[];
+}
+
+function LeaveRequestModal({ isOpen, onClose, onSuccess, balances }: LeaveRequestModalProps) {
+  const { apiCall } = useAuth();
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [halfDay, setHalfDay] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const { data: leaveTypes = [] } = useQuery<LeaveType[]>({
+    queryKey: ['leaveTypes'],
+    queryFn: async () => {
+      const response = await apiCall('/api/leave/types');
+      if (!response.ok) {
+        throw new Error('Failed to fetch leave types');
+      }
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const resetForm = () => {
+    setLeaveTypeId('');
+    setStartDate('');
+    setEndDate('');
+    setHalfDay(false);
+    setReason('');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/leave/requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          leaveTypeId,
+          startDate,
+          endDate: endDate || startDate,
+          ...(halfDay && { days: 0.5 }),
+          ...(reason && { reason }),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to submit leave request'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Leave request submitted for approval');
+      resetForm();
+      onSuccess();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const selectedBalance = balances.find((b) => b.leaveType.id === leaveTypeId);
+  const isSingleDay = !endDate || endDate === startDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!leaveTypeId || !startDate) {
+      toast.error('Please choose a leave type and start date');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error('End date must be on or after start date');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Request Leave">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="leaveType" className="block text-sm font-medium text-gray-700 mb-1">
+            Leave type
+          </label>
+          <select
+            id="leaveType"
+            value={leaveTypeId}
+            onChange={(e) => setLeaveTypeId(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            <option value="">Select a leave type</option>
+            {leaveTypes.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.name}
+              </option>
+            ))}
+          </select>
+          {selectedBalance && (
+            <p className="mt-1 text-xs text-gray-500">
+              {selectedBalance.remaining === null
+                ? 'No annual limit'
+                : `${selectedBalance.remaining} day(s) remaining this year`}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 mb-1">
+              Start date
+            </label>
+            <Input
+              id="startDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700 mb-1">
+              End date
+            </label>
+            <Input
+              id="endDate"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {isSingleDay && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={halfDay}
+              onChange={(e) => setHalfDay(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Half day</span>
+          </label>
+        )}
+
+        <div>
+          <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <textarea
+            id="reason"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            placeholder="Optional"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Submitting...' : 'Submit Request'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
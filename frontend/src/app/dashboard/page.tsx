@@ -2,6 +2,7 @@
 
 import { DashboardLayout } from '@/components/layout/dashboard-layout';
 import { useAuth } from '@/lib/auth-context';
+import { RecognitionFeed } from '@/components/kudos/recognition-feed';
 import {
   Users,
   FolderOpen,
@@ -248,6 +249,9 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Recognition */}
+        <RecognitionFeed />
+
         {/* Today's Schedule */}
         <div className="bg-white shadow rounded-lg">
           <div className="px-4 py-5 sm:p-6">
@@ -4,12 +4,12 @@ import { useState } from 'react';
 import { DashboardLayout } from '@/components/layout/dashboard-layout';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth-context';
-import { usePermissions } from '@/lib/permissions';
 import { ProjectForm } from '@/components/forms/project-form';
 import { ProjectViewModal } from '@/components/forms/project-view-modal';
 import { ProjectsPageGuard } from '@/components/auth/page-permission-guard';
 import { SmartActionButton } from '@/components/auth/smart-action-button';
 import { Button, Input, Card, CardContent, Table, TableHeader, TableBody, TableRow, TableHead, TableCell, Modal } from '@/components/ui';
+import { ExportMenu } from '@/components/exports/export-menu';
 import { 
   ProjectsPermissionGuard, 
   ProjectsCreatePermissionGuard, 
@@ -30,7 +30,6 @@ import {
   Calendar,
   DollarSign,
   Eye,
-  Download,
   Settings,
   AlertTriangle,
   Users,
@@ -90,7 +89,6 @@ export default function ProjectsPage() {
 
 function ProjectsPageContent() {
   const { apiCall } = useAuth();
-  const { hasPermission } = usePermissions();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -274,48 +272,6 @@ function ProjectsPageContent() {
     setSelectedProject(null);
   };
 
-  const handleExportProjects = () => {
-    // Enhanced export functionality with permission check
-    if (!hasPermission('projects', 'read')) {
-      toast.error('You do not have permission to export projects');
-      return;
-    }
-    
-    // Implement export functionality
-    const csvContent = generateCSV(filteredProjects);
-    downloadCSV(csvContent, 'projects-export.csv');
-    toast.success('Projects exported successfully');
-  };
-
-  const generateCSV = (projects: Project[]) => {
-    const headers = ['Name', 'Code', 'Client', 'Status', 'Priority', 'Start Date', 'End Date', 'Budget', 'Owner', 'Teams', 'Created'];
-    const rows = projects.map(project => [
-      project.name,
-      project.code,
-      project.clientName || '',
-      project.status.replace('_', ' '),
-      project.priority,
-      project.startDate ? new Date(project.startDate).toLocaleDateString() : '',
-      project.endDate ? new Date(project.endDate).toLocaleDateString() : '',
-      project.budget ? `${project.currency} ${project.budget.toLocaleString()}` : '',
-      project.owner ? `${project.owner.firstName} ${project.owner.lastName}` : '',
-      project.teams ? project.teams.map(t => t.team.name).join('; ') : '',
-      new Date(project.createdAt).toLocaleDateString()
-    ]);
-    
-    return [headers, ...rows].map(row => row.join(',')).join('\n');
-  };
-
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
   const handleProjectSelection = (projectId: string, checked: boolean) => {
     if (checked) {
       setSelectedProjects(prev => [...prev, projectId]);
@@ -378,10 +334,7 @@ function ProjectsPageContent() {
             </div>
             <div className="mt-4 sm:mt-0 flex space-x-3">
               <ProjectsExportPermissionGuard>
-                <Button onClick={handleExportProjects} variant="outline">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu type="projects" />
               </ProjectsExportPermissionGuard>
               <ProjectsCreatePermissionGuard>
                 <Button onClick={handleCreateProject} variant="primary">
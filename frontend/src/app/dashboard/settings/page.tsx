@@ -7,15 +7,21 @@ import {
   SettingsPermissionGuard,
   SettingsUpdatePermissionGuard
 } from '@/components/auth/permission-guard';
+import { IntegrationsSettings } from '@/components/settings/integrations-settings';
+import { CustomFieldsSettings } from '@/components/settings/custom-fields-settings';
+import { SystemSettings } from '@/components/settings/system-settings';
+import { ApiTokensSettings, ServiceAccountsSettings } from '@/components/settings/api-tokens-settings';
+import { usePermissions } from '@/lib/permissions';
 import {
   Settings,
   User,
   Shield,
   Bell,
   Globe,
-  Database,
   Key,
+  ListPlus,
   Save,
+  SlidersHorizontal,
 } from 'lucide-react';
 
 export default function SettingsPage() {
@@ -28,12 +34,15 @@ export default function SettingsPage() {
 
 function SettingsPageContent() {
   const [activeTab, setActiveTab] = useState('general');
+  const { hasPermission } = usePermissions();
 
   const tabs = [
     { id: 'general', name: 'General', icon: Settings },
     { id: 'security', name: 'Security', icon: Shield },
     { id: 'notifications', name: 'Notifications', icon: Bell },
     { id: 'integrations', name: 'Integrations', icon: Globe },
+    { id: 'custom-fields', name: 'Custom Fields', icon: ListPlus },
+    { id: 'system', name: 'System', icon: SlidersHorizontal },
   ];
 
   return (
@@ -167,6 +176,13 @@ function SettingsPageContent() {
               </SettingsPermissionGuard>
             )}
 
+            {activeTab === 'security' && (
+              <div className="space-y-8 mt-8 pt-8 border-t border-gray-200">
+                <ApiTokensSettings />
+                {hasPermission('service_accounts', 'read') && <ServiceAccountsSettings />}
+              </div>
+            )}
+
             {activeTab === 'notifications' && (
               <SettingsPermissionGuard>
                 <div className="space-y-6">
@@ -202,57 +218,33 @@ function SettingsPageContent() {
 
             {activeTab === 'integrations' && (
               <SettingsPermissionGuard>
-                <div className="space-y-6">
-                  <div>
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Integrations</h3>
-                    <div className="space-y-4">
-                      <div className="border border-gray-200 rounded-lg p-4">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center">
-                            <Globe className="h-5 w-5 text-gray-400 mr-3" />
-                            <div>
-                              <h4 className="text-sm font-medium text-gray-900">Slack Integration</h4>
-                              <p className="text-sm text-gray-500">Connect with Slack for notifications</p>
-                            </div>
-                          </div>
-                          <SettingsUpdatePermissionGuard>
-                            <button className="bg-indigo-600 text-white px-3 py-1 rounded-md text-sm hover:bg-indigo-700">
-                              Connect
-                            </button>
-                          </SettingsUpdatePermissionGuard>
-                        </div>
-                      </div>
-                      <div className="border border-gray-200 rounded-lg p-4">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center">
-                            <Database className="h-5 w-5 text-gray-400 mr-3" />
-                            <div>
-                              <h4 className="text-sm font-medium text-gray-900">Database Backup</h4>
-                              <p className="text-sm text-gray-500">Configure automated backups</p>
-                            </div>
-                          </div>
-                          <SettingsUpdatePermissionGuard>
-                            <button className="bg-indigo-600 text-white px-3 py-1 rounded-md text-sm hover:bg-indigo-700">
-                              Configure
-                            </button>
-                          </SettingsUpdatePermissionGuard>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
+                <IntegrationsSettings />
+              </SettingsPermissionGuard>
+            )}
+
+            {activeTab === 'custom-fields' && (
+              <SettingsPermissionGuard>
+                <CustomFieldsSettings />
+              </SettingsPermissionGuard>
+            )}
+
+            {activeTab === 'system' && (
+              <SettingsPermissionGuard>
+                <SystemSettings />
               </SettingsPermissionGuard>
             )}
 
             {/* Save Button */}
-            <SettingsUpdatePermissionGuard>
-              <div className="mt-6 flex justify-end">
-                <button className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 flex items-center">
-                  <Save className="h-4 w-4 mr-2" />
-                  Save Changes
-                </button>
-              </div>
-            </SettingsUpdatePermissionGuard>
+            {activeTab !== 'integrations' && activeTab !== 'custom-fields' && activeTab !== 'system' && (
+              <SettingsUpdatePermissionGuard>
+                <div className="mt-6 flex justify-end">
+                  <button className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 flex items-center">
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Changes
+                  </button>
+                </div>
+              </SettingsUpdatePermissionGuard>
+            )}
           </div>
         </div>
       </div>
@@ -8,6 +8,7 @@ import { usePermissions } from '@/lib/permissions';
 import { TeamForm } from '@/components/forms/team-form';
 import { TeamsPageGuard } from '@/components/auth/page-permission-guard';
 import { SmartActionButton } from '@/components/auth/smart-action-button';
+import { TeamRoster } from '@/components/teams/team-roster';
 import { Button, Input, Card, CardContent, Table, TableHeader, TableBody, TableRow, TableHead, TableCell, Modal } from '@/components/ui';
 import { 
   TeamsPermissionGuard, 
@@ -704,6 +705,9 @@ function TeamsPageContent() {
               )}
             </CardContent>
           </Card>
+
+          {/* Weekly Roster */}
+          {hasPermission('shifts', 'read') && <TeamRoster teams={teams} />}
         </div>
 
         {/* Team Form Modal */}
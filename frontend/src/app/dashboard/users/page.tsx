@@ -10,6 +10,7 @@ import { UserViewModal } from '@/components/forms/user-view-modal';
 import { UsersPageGuard } from '@/components/auth/page-permission-guard';
 import { SmartActionButton } from '@/components/auth/smart-action-button';
 import { Button, Input, Card, CardContent, Table, TableHeader, TableBody, TableRow, TableHead, TableCell, Modal } from '@/components/ui';
+import { ExportMenu } from '@/components/exports/export-menu';
 import { 
   UsersPermissionGuard, 
   UsersCreatePermissionGuard, 
@@ -32,7 +33,6 @@ import {
   Phone,
   Shield,
   Eye,
-  Download,
   Settings,
   AlertTriangle,
 } from 'lucide-react';
@@ -291,44 +291,6 @@ function UsersPageContent() {
     setSelectedUser(null);
   };
 
-  const handleExportUsers = () => {
-    // Enhanced export functionality with permission check
-    if (!hasPermission('users', 'read')) {
-      toast.error('You do not have permission to export users');
-      return;
-    }
-    
-    // Implement export functionality
-    const csvContent = generateCSV(filteredUsers);
-    downloadCSV(csvContent, 'users-export.csv');
-    toast.success('Users exported successfully');
-  };
-
-  const generateCSV = (users: User[]) => {
-    const headers = ['Name', 'Email', 'Role', 'Status', 'Department', 'Title', 'Created'];
-    const rows = users.map(user => [
-      `${user.firstName} ${user.lastName}`,
-      user.email,
-      user.userRoles?.[0]?.role.displayName || 'No role',
-      user.isActive ? 'Active' : 'Inactive',
-      user.department || '',
-      user.title || '',
-      new Date(user.createdAt).toLocaleDateString()
-    ]);
-    
-    return [headers, ...rows].map(row => row.join(',')).join('\n');
-  };
-
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
   const handleUserSelection = (userId: string, checked: boolean) => {
     if (checked) {
       setSelectedUsers(prev => [...prev, userId]);
@@ -377,10 +339,7 @@ function UsersPageContent() {
             </div>
             <div className="mt-4 sm:mt-0 flex space-x-3">
               <UsersExportPermissionGuard>
-                <Button onClick={handleExportUsers} variant="outline">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu type="users" />
               </UsersExportPermissionGuard>
               <UsersCreatePermissionGuard>
                 <Button onClick={handleCreateUser} variant="primary">
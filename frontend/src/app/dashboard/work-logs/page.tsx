@@ -4,7 +4,6 @@ import { useState, useEffect } from 'react';
 import { DashboardLayout } from '@/components/layout/dashboard-layout';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/lib/auth-context';
-import { usePermissions } from '@/lib/permissions';
 import { WorkLogsPageGuard } from '@/components/auth/page-permission-guard';
 import { SmartActionButton } from '@/components/auth/smart-action-button';
 import { 
@@ -15,6 +14,15 @@ import {
   WorkLogsExportPermissionGuard,
   WorkLogsBulkActionsPermissionGuard
 } from '@/components/auth/permission-guard';
+import { TicketPicker } from '@/components/forms/ticket-picker';
+import {
+  CustomFieldFilters,
+  CustomFieldInputs,
+  CustomFieldValues,
+  readCustomFields,
+} from '@/components/forms/custom-field-inputs';
+import { useProjectMilestones } from '@/components/projects/project-milestones';
+import { ExportMenu } from '@/components/exports/export-menu';
 import { Button, Input, Card, CardContent, Table, TableHeader, TableBody, TableRow, TableHead, TableCell, Modal } from '@/components/ui';
 import {
   FileText,
@@ -24,7 +32,6 @@ import {
   Clock,
   User,
   FolderOpen,
-  Download,
   Eye,
   Edit,
   Trash2,
@@ -57,7 +64,10 @@ interface WorkLog {
   workCategory?: string;
   severityCategory?: string;
   sourceCategory?: string;
+  ticketId?: string | null;
   ticketReference?: string;
+  milestoneId?: string | null;
+  customFields?: CustomFieldValues;
   user?: {
     id: string;
     firstName: string;
@@ -85,7 +95,10 @@ interface WorkLogFormData {
   workCategory?: string;
   severityCategory?: string;
   sourceCategory?: string;
+  ticketId?: string | null;
   ticketReference?: string;
+  milestoneId?: string | null;
+  customFields?: CustomFieldValues;
 }
 
 const mockWorkLogs: WorkLog[] = [
@@ -143,7 +156,6 @@ export default function WorkLogsPage() {
 
 function WorkLogsPageContent() {
   const { apiCall } = useAuth();
-  const { hasPermission } = usePermissions();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
   const [userFilter, setUserFilter] = useState<string>('all');
@@ -154,6 +166,7 @@ function WorkLogsPageContent() {
     endDate: ''
   });
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [selectedWorkLog, setSelectedWorkLog] = useState<WorkLog | null>(null);
@@ -164,10 +177,16 @@ function WorkLogsPageContent() {
 
   // Fetch work logs
   const { data: workLogsResponse, isLoading, error } = useQuery({
-    queryKey: ['workLogs'],
+    queryKey: ['workLogs', customFieldFilters],
     queryFn: async () => {
       try {
-        const response = await apiCall('/api/work-logs');
+        // Custom fields are filtered server-side, everything else in the table below
+        const params = new URLSearchParams();
+        Object.entries(customFieldFilters).forEach(([key, value]) => {
+          if (value) params.set(`customFields[${key}]`, value);
+        });
+        const query = params.toString();
+        const response = await apiCall(`/api/work-logs${query ? `?${query}` : ''}`);
         if (!response.ok) {
           throw new Error('Failed to fetch work logs');
         }
@@ -226,7 +245,10 @@ function WorkLogsPageContent() {
       workCategory: log.workCategory,
       severityCategory: log.severityCategory,
       sourceCategory: log.sourceCategory,
+      ticketId: log.ticketId,
       ticketReference: log.ticketReference,
+      milestoneId: log.milestoneId,
+      customFields: readCustomFields(log.metadata),
       user: log.user,
       project: log.project,
     };
@@ -331,31 +353,6 @@ function WorkLogsPageContent() {
     return `${hours}h ${minutes}m`;
   };
 
-  const formatDate = (dateString: string) => {
-    if (!dateString) return 'N/A';
-    try {
-      return new Date(dateString).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-      });
-    } catch (error) {
-      return 'Invalid Date';
-    }
-  };
-
-  const formatTime = (dateString: string) => {
-    if (!dateString) return 'N/A';
-    try {
-      return new Date(dateString).toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-    } catch (error) {
-      return 'Invalid Time';
-    }
-  };
-
   // Filter work logs based on search and filters
   const filteredWorkLogs = workLogs.filter((log: WorkLog) => {
     const searchLower = searchTerm.toLowerCase();
@@ -470,44 +467,6 @@ function WorkLogsPageContent() {
     }
   };
 
-  const handleExportWorkLogs = () => {
-    if (!hasPermission('work_logs', 'read')) {
-      toast.error('You do not have permission to export work logs');
-      return;
-    }
-    
-    const csvContent = generateCSV(filteredWorkLogs);
-    downloadCSV(csvContent, 'work-logs-export.csv');
-    toast.success('Work logs exported successfully');
-  };
-
-  const generateCSV = (workLogs: WorkLog[]) => {
-    const headers = ['User', 'Project', 'Description', 'Date', 'Start Time', 'End Time', 'Duration', 'Billable', 'Approved'];
-    const rows = workLogs.map((log: WorkLog) => [
-      log.userName,
-      log.projectName,
-      log.description,
-      formatDate(log.startTime),
-      formatTime(log.startTime),
-      formatTime(log.endTime),
-      formatDuration(log.duration),
-      log.isBillable ? 'Yes' : 'No',
-      log.isApproved ? 'Yes' : 'No'
-    ]);
-    
-    return [headers, ...rows].map(row => row.join(',')).join('\n');
-  };
-
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
   const handleFormSubmit = (formData: WorkLogFormData) => {
     if (selectedWorkLog) {
       updateWorkLogMutation.mutate({ id: selectedWorkLog.id, workLogData: formData });
@@ -550,6 +509,7 @@ function WorkLogsPageContent() {
     setDateFilter('all');
     setCustomDateRange({ startDate: '', endDate: '' });
     setStatusFilter('all');
+    setCustomFieldFilters({});
   };
 
   // Check if any filters are active
@@ -557,7 +517,8 @@ function WorkLogsPageContent() {
     userFilter !== 'all' || 
     projectFilter !== 'all' || 
     dateFilter !== 'all' || 
-    statusFilter !== 'all';
+    statusFilter !== 'all' ||
+    Object.values(customFieldFilters).some(Boolean);
 
   // Get filter summary text
   const getFilterSummary = () => {
@@ -586,6 +547,9 @@ function WorkLogsPageContent() {
       };
       filters.push(`Status: ${statusLabels[statusFilter as keyof typeof statusLabels]}`);
     }
+    Object.entries(customFieldFilters).forEach(([key, value]) => {
+      if (value) filters.push(`${key}: ${value}`);
+    });
     return filters.join(', ');
   };
 
@@ -621,10 +585,18 @@ function WorkLogsPageContent() {
             </div>
             <div className="mt-4 sm:mt-0 flex space-x-3">
               <WorkLogsExportPermissionGuard>
-                <Button onClick={handleExportWorkLogs} variant="outline">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu
+                  type="work-logs"
+                  filters={{
+                    search: searchTerm,
+                    projectId: workLogs.find((log: WorkLog) => log.projectName === projectFilter)?.projectId,
+                    userId: workLogs.find((log: WorkLog) => log.userName === userFilter)?.userId,
+                    isBillable:
+                      statusFilter === 'billable' ? 'true' : statusFilter === 'non-billable' ? 'false' : undefined,
+                    startDate: dateFilter === 'custom' ? customDateRange.startDate : undefined,
+                    endDate: dateFilter === 'custom' ? customDateRange.endDate : undefined,
+                  }}
+                />
               </WorkLogsExportPermissionGuard>
               <WorkLogsCreatePermissionGuard>
                 <Button onClick={handleCreateWorkLog} variant="primary">
@@ -795,6 +767,8 @@ function WorkLogsPageContent() {
                   </div>
                 </div>
               )}
+
+              <CustomFieldFilters entity="work-log" values={customFieldFilters} onChange={setCustomFieldFilters} />
               
               {/* Clear Filters Button */}
               {hasActiveFilters && (
@@ -1062,8 +1036,12 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
     workCategory: '',
     severityCategory: '',
     sourceCategory: '',
+    ticketId: null,
     ticketReference: '',
+    milestoneId: null,
+    customFields: {},
   });
+  const { data: milestones = [] } = useProjectMilestones(formData.projectId || undefined);
 
   // Helper function to calculate duration in seconds from start and end times
   const calculateDuration = (startTime: string, endTime: string): number => {
@@ -1112,7 +1090,10 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
         workCategory: workLog.workCategory,
         severityCategory: workLog.severityCategory,
         sourceCategory: workLog.sourceCategory,
+        ticketId: workLog.ticketId || null,
         ticketReference: workLog.ticketReference,
+        milestoneId: workLog.milestoneId || null,
+        customFields: workLog.customFields || {},
       });
     } else {
       setFormData({
@@ -1128,7 +1109,10 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
         workCategory: '',
         severityCategory: '',
         sourceCategory: '',
+        ticketId: null,
         ticketReference: '',
+        milestoneId: null,
+        customFields: {},
       });
     }
   }, [workLog]);
@@ -1167,7 +1151,7 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
             <select
               id="projectId"
               value={formData.projectId}
-              onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+              onChange={(e) => setFormData({ ...formData, projectId: e.target.value, milestoneId: null })}
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
               required
             >
@@ -1253,16 +1237,37 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
             <label htmlFor="ticketReference" className="block text-sm font-medium text-gray-700 mb-1">
               Ticket Reference ID / Email Subject
             </label>
-            <input
-              type="text"
-              id="ticketReference"
-              value={formData.ticketReference || ''}
-              onChange={(e) => setFormData({ ...formData, ticketReference: e.target.value })}
-              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-              placeholder="Enter ticket reference ID or email subject..."
+            <TicketPicker
+              projectId={formData.projectId}
+              ticketId={formData.ticketId}
+              ticketReference={formData.ticketReference || ''}
+              onChange={(selection) => setFormData({ ...formData, ...selection })}
+              placeholder="Search tickets or enter a reference ID / email subject..."
             />
           </div>
 
+          {/* Milestone - Only show if the project has milestones */}
+          {milestones.length > 0 && (
+            <div className="mb-4">
+              <label htmlFor="milestoneId" className="block text-sm font-medium text-gray-700 mb-1">
+                Milestone
+              </label>
+              <select
+                id="milestoneId"
+                value={formData.milestoneId || ''}
+                onChange={(e) => setFormData({ ...formData, milestoneId: e.target.value || null })}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              >
+                <option value="">No milestone</option>
+                {milestones.map((milestone) => (
+                  <option key={milestone.id} value={milestone.id}>
+                    {milestone.name} (due {new Date(milestone.dueDate).toLocaleDateString()})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Category Fields - Only show if project has configured categories */}
           {(() => {
             const selectedProject = projects.find(p => p.id === formData.projectId);
@@ -1394,6 +1399,12 @@ function WorkLogFormModal({ isOpen, onClose, onSubmit, workLog, projects, isLoad
           })()}
         </div>
 
+        <CustomFieldInputs
+          entity="work-log"
+          values={formData.customFields || {}}
+          onChange={(customFields) => setFormData({ ...formData, customFields })}
+        />
+
         <div className="flex justify-end space-x-3 pt-4">
           <Button
             type="button"
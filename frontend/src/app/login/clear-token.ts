@@ -1,6 +1,7 @@
 // Utility to clear localStorage tokens
 export function clearAuthTokens() {
   localStorage.removeItem('jwt_token');
+  localStorage.removeItem('refresh_token');
   localStorage.removeItem('user');
   console.log('Auth tokens cleared from localStorage');
   
@@ -3,12 +3,22 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { Loader2 } from 'lucide-react';
+import { buildApiUrl } from '@/configs/api';
+import { KeyRound, Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+interface SsoProvider {
+  id: string;
+  name: string;
+  type: 'OIDC' | 'SAML';
+}
+
 export default function LoginPage() {
   const { user, isLoading, loginWithGoogle } = useAuth();
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
+  const [ssoEmail, setSsoEmail] = useState('');
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[] | null>(null);
+  const [isSsoLoading, setIsSsoLoading] = useState(false);
   const router = useRouter();
 
   // Redirect if user is already authenticated
@@ -30,6 +40,35 @@ export default function LoginPage() {
     }
   };
 
+  const startSsoLogin = (provider: SsoProvider) => {
+    window.location.href = buildApiUrl(`/api/auth/sso/${provider.id}/login`);
+  };
+
+  // Finds the identity providers of the organization owning the email domain
+  const handleSsoLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSsoLoading(true);
+    try {
+      const response = await fetch(
+        buildApiUrl(`/api/auth/sso/providers?email=${encodeURIComponent(ssoEmail.trim())}`),
+      );
+      if (!response.ok) {
+        throw new Error('Failed to look up single sign-on');
+      }
+      const providers: SsoProvider[] = await response.json();
+      if (providers.length === 0) {
+        toast.error('Single sign-on is not set up for this email address.');
+      } else if (providers.length === 1) {
+        startSsoLogin(providers[0]);
+        return;
+      }
+      setSsoProviders(providers);
+    } catch {
+      toast.error('Could not look up single sign-on. Please try again.');
+    }
+    setIsSsoLoading(false);
+  };
+
   // Show loading while checking authentication
   if (isLoading) {
     return (
@@ -58,7 +97,7 @@ export default function LoginPage() {
             Welcome to Alignzo
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Sign in with your Google account to continue
+            Sign in with Google or your organization&apos;s single sign-on
           </p>
         </div>
 
@@ -103,6 +142,55 @@ export default function LoginPage() {
                 )}
               </button>
             </div>
+
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-200" />
+              </div>
+              <div className="relative flex justify-center text-xs">
+                <span className="bg-white px-2 text-gray-500">or use your organization&apos;s SSO</span>
+              </div>
+            </div>
+
+            {ssoProviders && ssoProviders.length > 1 ? (
+              <div className="space-y-3">
+                {ssoProviders.map((provider) => (
+                  <button
+                    key={provider.id}
+                    onClick={() => startSsoLogin(provider)}
+                    className="w-full inline-flex justify-center items-center py-3 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+                  >
+                    <KeyRound className="h-5 w-5" />
+                    <span className="ml-3">Continue with {provider.name}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <form onSubmit={handleSsoLogin} className="space-y-3">
+                <input
+                  type="email"
+                  required
+                  value={ssoEmail}
+                  onChange={(e) => setSsoEmail(e.target.value)}
+                  placeholder="you@company.com"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  type="submit"
+                  disabled={isSsoLoading}
+                  className="w-full inline-flex justify-center items-center py-3 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isSsoLoading ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <>
+                      <KeyRound className="h-5 w-5" />
+                      <span className="ml-3">Sign in with SSO</span>
+                    </>
+                  )}
+                </button>
+              </form>
+            )}
           </div>
         </div>
 
@@ -117,4 +205,4 @@ export default function LoginPage() {
       </div>
     </div>
   );
-} 
\ No newline at end of file
+} 
\ No newline at end of file
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { Loader2 } from 'lucide-react';
+
+export default function SsoCallbackPage() {
+  const { loginWithTokens } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const started = useRef(false);
+
+  // The backend sends the result in the fragment, which never reaches a server
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const token = params.get('token');
+    const refreshToken = params.get('refreshToken');
+    if (!token || !refreshToken) {
+      setError(params.get('error') || 'Sign-in failed. Please try again.');
+      return;
+    }
+
+    loginWithTokens(token, refreshToken).then((signedIn) => {
+      if (signedIn) {
+        router.replace('/dashboard');
+      } else {
+        setError('Sign-in failed. Please try again.');
+      }
+    });
+  }, [loginWithTokens, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      {error ? (
+        <div className="max-w-md w-full bg-white py-8 px-6 shadow-xl rounded-lg text-center">
+          <h2 className="text-lg font-semibold text-gray-900">Single sign-on failed</h2>
+          <p className="mt-2 text-sm text-gray-600">{error}</p>
+          <Link
+            href="/login"
+            className="mt-6 inline-block font-medium text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      ) : (
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600 mx-auto" />
+          <p className="mt-2 text-sm text-gray-600">Signing you in...</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Award } from 'lucide-react';
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string | null;
+  points: number | null;
+}
+
+interface UserAchievement {
+  id: string;
+  earnedAt: string;
+  achievement: Achievement;
+}
+
+interface UserAchievementsResponse {
+  points: number;
+  achievements: UserAchievement[];
+}
+
+export function UserAchievements({ userId }: { userId: string }) {
+  const { apiCall } = useAuth();
+
+  const { data, isLoading } = useQuery<UserAchievementsResponse>({
+    queryKey: ['achievements', 'user', userId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/achievements/users/${userId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch achievements');
+      }
+      return response.json();
+    },
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Achievements</label>
+        {data && data.achievements.length > 0 && (
+          <span className="text-sm text-gray-500">{data.points} points</span>
+        )}
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading achievements…</p>
+      ) : !data || data.achievements.length === 0 ? (
+        <p className="text-sm text-gray-500">No achievements earned yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {data.achievements.map(({ id, earnedAt, achievement }) => (
+            <div
+              key={id}
+              className="flex items-center gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md"
+              title={achievement.description}
+            >
+              <div className="w-8 h-8 bg-yellow-200 rounded-full flex items-center justify-center">
+                {achievement.icon ? (
+                  <span className="text-base">{achievement.icon}</span>
+                ) : (
+                  <Award className="h-4 w-4 text-yellow-700" />
+                )}
+              </div>
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 truncate">{achievement.name}</div>
+                <div className="text-xs text-gray-500">
+                  Earned {new Date(earnedAt).toLocaleDateString()}
+                  {achievement.points ? ` • ${achievement.points} points` : ''}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
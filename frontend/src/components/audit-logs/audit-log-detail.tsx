@@ -0,0 +1,127 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Modal } from '@/components/ui';
+import { Loader2 } from 'lucide-react';
+
+export interface AuditLog {
+  id: string;
+  userId: string | null;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  sessionId: string | null;
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+  metadata: { statusCode?: number; path?: string; error?: string; [key: string]: unknown } | null;
+  timestamp: string | null;
+}
+
+interface AuditFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+interface AuditLogWithChanges extends AuditLog {
+  user: { id: string; email: string; firstName: string; lastName: string } | null;
+  changes: AuditFieldChange[];
+}
+
+interface AuditLogDetailProps {
+  logId: string;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+};
+
+export function AuditLogDetail({ logId, onClose }: AuditLogDetailProps) {
+  const { apiCall } = useAuth();
+
+  const { data: log, isLoading } = useQuery<AuditLogWithChanges>({
+    queryKey: ['audit-logs', logId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/audit-logs/${logId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit log');
+      }
+      return response.json();
+    },
+  });
+
+  const details: [string, string][] = log
+    ? [
+        ['Time', log.timestamp ? new Date(log.timestamp).toLocaleString() : '—'],
+        ['User', log.user ? `${log.user.firstName} ${log.user.lastName} (${log.user.email})` : log.userId || 'System'],
+        ['Action', log.action],
+        ['Entity', log.entityId ? `${log.entity} ${log.entityId}` : log.entity],
+        ['Status', log.metadata?.statusCode ? String(log.metadata.statusCode) : '—'],
+        ['Path', log.metadata?.path || '—'],
+        ['IP address', log.ipAddress || '—'],
+        ['User agent', log.userAgent || '—'],
+      ]
+    : [];
+
+  return (
+    <Modal isOpen onClose={onClose} title="Audit Log" size="xl">
+      {isLoading || !log ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      ) : (
+        <div className="space-y-6 overflow-y-auto max-h-[70vh]">
+          <dl className="grid grid-cols-1 gap-x-4 gap-y-2 sm:grid-cols-2">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs font-medium text-gray-500">{label}</dt>
+                <dd className="text-sm text-gray-900 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {log.metadata?.error && (
+            <p className="text-sm text-red-700 bg-red-50 rounded-md p-3">{log.metadata.error}</p>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Changes</h4>
+            {log.changes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {log.oldValues || log.newValues ? 'No fields changed.' : 'No snapshots were recorded for this action.'}
+              </p>
+            ) : (
+              <table className="min-w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Field</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Before</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {log.changes.map((change) => (
+                    <tr key={change.field} className="border-t border-gray-200 align-top">
+                      <td className="px-3 py-2 font-mono text-gray-900">{change.field}</td>
+                      <td className="px-3 py-2 bg-red-50 text-red-800">
+                        <pre className="whitespace-pre-wrap break-all font-sans">{formatValue(change.oldValue)}</pre>
+                      </td>
+                      <td className="px-3 py-2 bg-green-50 text-green-800">
+                        <pre className="whitespace-pre-wrap break-all font-sans">{formatValue(change.newValue)}</pre>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -97,6 +97,16 @@ export function TimeTrackingPageGuard({ children }: { children: React.ReactNode
   );
 }
 
+export function LeavePageGuard({ children }: { children: React.ReactNode }) {
+  return (
+    <PagePermissionGuard
+      requiredPermissions={[{ resource: 'leave', action: 'read' }]}
+    >
+      {children}
+    </PagePermissionGuard>
+  );
+}
+
 // Time Sessions specific permission guards
 export function TimeSessionsCreatePermissionGuard({ children }: { children: React.ReactNode }) {
   return (
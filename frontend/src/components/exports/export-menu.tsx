@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button } from '@/components/ui';
+import { Download, ChevronDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export type ExportType = 'work-logs' | 'time-sessions' | 'projects' | 'users';
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const formatOptions: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+interface ExportMenuProps {
+  type: ExportType;
+  /** Same filters as the list being viewed; empty values are ignored */
+  filters?: Record<string, string | undefined>;
+}
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export function ExportMenu({ type, filters = {} }: ExportMenuProps) {
+  const { apiCall } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const activeFilters = Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value && value !== 'all'),
+      );
+      const response = await apiCall('/api/exports', {
+        method: 'POST',
+        body: JSON.stringify({ type, format, filters: activeFilters }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to start export'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['exports'] });
+      toast.success(
+        (t) => (
+          <span>
+            Export started.{' '}
+            <Link href="/dashboard/exports" className="underline" onClick={() => toast.dismiss(t.id)}>
+              View exports
+            </Link>
+          </span>
+        ),
+      );
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <div ref={containerRef} className="relative inline-block">
+      <Button
+        onClick={() => setOpen((value) => !value)}
+        variant="outline"
+        size="sm"
+        className="inline-flex items-center"
+        disabled={exportMutation.isPending}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        Export
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </Button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-40 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-20 py-1">
+          {formatOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => exportMutation.mutate(option.value)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
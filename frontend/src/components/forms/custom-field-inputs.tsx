@@ -0,0 +1,256 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Input } from '@/components/ui/input';
+
+export type CustomFieldEntity = 'work-log' | 'project' | 'user';
+
+export type CustomFieldType =
+  | 'TEXT'
+  | 'NUMBER'
+  | 'DATE'
+  | 'BOOLEAN'
+  | 'SELECT'
+  | 'MULTI_SELECT'
+  | 'EMAIL'
+  | 'URL';
+
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  key: string;
+  type: CustomFieldType;
+  entity: CustomFieldEntity;
+  options: string[] | null;
+  isRequired: boolean;
+  defaultValue: unknown;
+  isActive: boolean;
+}
+
+export type CustomFieldValues = Record<string, unknown>;
+
+const selectClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+/** Reads the values stored under `customFields` in a metadata or settings object. */
+export function readCustomFields(json: unknown): CustomFieldValues {
+  if (!json || typeof json !== 'object') return {};
+  const values = (json as { customFields?: unknown }).customFields;
+  return values && typeof values === 'object' && !Array.isArray(values)
+    ? (values as CustomFieldValues)
+    : {};
+}
+
+export function useCustomFields(entity: CustomFieldEntity) {
+  const { apiCall } = useAuth();
+
+  return useQuery({
+    queryKey: ['customFields', entity],
+    queryFn: async (): Promise<CustomFieldDefinition[]> => {
+      const response = await apiCall(`/api/custom-fields?entity=${entity}`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+interface CustomFieldInputsProps {
+  entity: CustomFieldEntity;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  title?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Renders an input for each active custom field of the entity. Defaults are
+ * applied by the server on create, so fields with one are not marked required.
+ */
+export function CustomFieldInputs({
+  entity,
+  values,
+  onChange,
+  title = 'Additional Fields',
+  disabled = false,
+}: CustomFieldInputsProps) {
+  const { data: fields = [] } = useCustomFields(entity);
+
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: unknown) => onChange({ ...values, [key]: value });
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const id = `custom-field-${field.key}`;
+    const value = values[field.key];
+    const required = field.isRequired && field.defaultValue == null;
+    const placeholder = field.defaultValue != null ? `Default: ${String(field.defaultValue)}` : undefined;
+
+    switch (field.type) {
+      case 'BOOLEAN':
+        return (
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id={id}
+              checked={value === true}
+              onChange={(e) => setValue(field.key, e.target.checked)}
+              className="rounded border-gray-300"
+              disabled={disabled}
+            />
+            <label htmlFor={id} className="ml-2 text-sm text-gray-700">
+              {field.name}
+            </label>
+          </div>
+        );
+      case 'SELECT':
+        return (
+          <select
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={selectClassName}
+            required={required}
+            disabled={disabled}
+          >
+            <option value="">{placeholder ?? `Select ${field.name.toLowerCase()}`}</option>
+            {(field.options ?? []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'MULTI_SELECT': {
+        const selected = Array.isArray(value) ? (value as string[]) : [];
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {(field.options ?? []).map((option) => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) =>
+                    setValue(
+                      field.key,
+                      e.target.checked ? [...selected, option] : selected.filter((item) => item !== option)
+                    )
+                  }
+                  className="mr-2 rounded border-gray-300"
+                  disabled={disabled}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default: {
+        const inputTypes: Partial<Record<CustomFieldType, string>> = {
+          NUMBER: 'number',
+          DATE: 'date',
+          EMAIL: 'email',
+          URL: 'url',
+        };
+        return (
+          <Input
+            id={id}
+            type={inputTypes[field.type] ?? 'text'}
+            step={field.type === 'NUMBER' ? 'any' : undefined}
+            value={value == null ? '' : String(value)}
+            onChange={(e) =>
+              setValue(
+                field.key,
+                field.type === 'NUMBER' && e.target.value !== '' ? Number(e.target.value) : e.target.value
+              )
+            }
+            placeholder={placeholder}
+            required={required}
+            disabled={disabled}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {fields.map((field) => (
+          <div key={field.id}>
+            {field.type !== 'BOOLEAN' && (
+              <label htmlFor={`custom-field-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                {field.name}
+                {field.isRequired && ' *'}
+              </label>
+            )}
+            {renderInput(field)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface CustomFieldFiltersProps {
+  entity: CustomFieldEntity;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+/** Filter inputs matching the `customFields[key]=value` query the API accepts. */
+export function CustomFieldFilters({ entity, values, onChange }: CustomFieldFiltersProps) {
+  const { data: fields = [] } = useCustomFields(entity);
+
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+      {fields.map((field) => {
+        const id = `custom-filter-${field.key}`;
+        const value = values[field.key] ?? '';
+        const options =
+          field.type === 'BOOLEAN'
+            ? ['true', 'false']
+            : field.type === 'SELECT' || field.type === 'MULTI_SELECT'
+              ? field.options ?? []
+              : null;
+
+        return (
+          <div key={field.id}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+              {field.name}
+            </label>
+            {options ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">All</option>
+                {options.map((option) => (
+                  <option key={option} value={option}>
+                    {field.type === 'BOOLEAN' ? (option === 'true' ? 'Yes' : 'No') : option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === 'NUMBER' ? 'number' : field.type === 'DATE' ? 'date' : 'text'}
+                value={value}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                placeholder={`Filter by ${field.name.toLowerCase()}`}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
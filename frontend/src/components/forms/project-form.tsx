@@ -9,6 +9,7 @@ import { useAuth } from '@/lib/auth-context';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Modal } from '@/components/ui/modal';
+import { CustomFieldInputs, CustomFieldValues, readCustomFields } from '@/components/forms/custom-field-inputs';
 import toast from 'react-hot-toast';
 import { FolderOpen, Users, Calendar, DollarSign, X, Plus } from 'lucide-react';
 
@@ -70,6 +71,7 @@ interface Project {
     id: string;
     team: Team;
   }>;
+  settings?: Record<string, unknown> | null;
 }
 
 interface ProjectFormProps {
@@ -86,6 +88,7 @@ export function ProjectForm({ project, isOpen, onClose, onSuccess }: ProjectForm
   const [workCategories, setWorkCategories] = useState<string[]>([]);
   const [severityCategories, setSeverityCategories] = useState<string[]>([]);
   const [sourceCategories, setSourceCategories] = useState<string[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldValues>({});
   const { apiCall } = useAuth();
   const queryClient = useQueryClient();
 
@@ -212,6 +215,7 @@ export function ProjectForm({ project, isOpen, onClose, onSuccess }: ProjectForm
       setWorkCategories(project.workCategories || []);
       setSeverityCategories(project.severityCategories || []);
       setSourceCategories(project.sourceCategories || []);
+      setCustomFields(readCustomFields(project.settings));
     } else if (isOpen) {
       // Reset form when opening modal for new project creation
       reset();
@@ -221,6 +225,7 @@ export function ProjectForm({ project, isOpen, onClose, onSuccess }: ProjectForm
       setWorkCategories([]);
       setSeverityCategories([]);
       setSourceCategories([]);
+      setCustomFields({});
     }
   }, [project, isOpen, setValue, reset]);
 
@@ -234,6 +239,7 @@ export function ProjectForm({ project, isOpen, onClose, onSuccess }: ProjectForm
         workCategories: workCategories,
         severityCategories: severityCategories,
         sourceCategories: sourceCategories,
+        customFields,
         // Convert date strings to ISO-8601 format
         startDate: data.startDate ? new Date(data.startDate).toISOString() : undefined,
         endDate: data.endDate ? new Date(data.endDate).toISOString() : undefined,
@@ -774,6 +780,8 @@ export function ProjectForm({ project, isOpen, onClose, onSuccess }: ProjectForm
           </div>
         </div>
 
+        <CustomFieldInputs entity="project" values={customFields} onChange={setCustomFields} />
+
         {/* Form Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button
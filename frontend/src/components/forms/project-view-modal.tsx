@@ -12,6 +12,7 @@ import {
   Clock,
   AlertTriangle
 } from 'lucide-react';
+import { ProjectMilestones } from '@/components/projects/project-milestones';
 
 interface Project {
   id: string;
@@ -231,6 +232,9 @@ export function ProjectViewModal({ project, isOpen, onClose }: ProjectViewModalP
           </div>
         )}
 
+        {/* Milestones */}
+        <ProjectMilestones projectId={project.id} />
+
                  {/* Assigned Teams */}
          {project.teams && project.teams.length > 0 && (
            <div className="space-y-3">
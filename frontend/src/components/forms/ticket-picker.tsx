@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Input } from '@/components/ui/input';
+import { Ticket as TicketIcon, X } from 'lucide-react';
+
+interface TicketOption {
+  id: string;
+  externalId: string;
+  title: string;
+  status: string;
+  source: string;
+}
+
+export interface TicketSelection {
+  ticketId: string | null;
+  ticketReference: string;
+}
+
+interface TicketPickerProps {
+  id?: string;
+  projectId?: string;
+  ticketId?: string | null;
+  ticketReference?: string;
+  onChange: (selection: TicketSelection) => void;
+  placeholder?: string;
+}
+
+/**
+ * Searches tickets synced from the project's issue tracker. Anything typed that
+ * is not picked from the list is kept as a free-text ticket reference.
+ */
+export function TicketPicker({
+  id = 'ticketReference',
+  projectId,
+  ticketId,
+  ticketReference = '',
+  onChange,
+  placeholder = 'Search tickets or enter a reference / email subject',
+}: TicketPickerProps) {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const canSearch = hasPermission('tickets', 'read');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(ticketReference.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [ticketReference]);
+
+  const { data: tickets = [], isFetching } = useQuery({
+    queryKey: ['tickets', projectId, search],
+    queryFn: async (): Promise<TicketOption[]> => {
+      const params = new URLSearchParams({ limit: '10' });
+      if (projectId) params.set('projectId', projectId);
+      if (search) params.set('search', search);
+      const response = await apiCall(`/api/tickets?${params}`);
+      if (!response.ok) return [];
+      return response.json();
+    },
+    enabled: canSearch && isOpen && !ticketId,
+    staleTime: 30 * 1000,
+  });
+
+  const handleSelect = (ticket: TicketOption) => {
+    onChange({ ticketId: ticket.id, ticketReference: ticket.externalId });
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    onChange({ ticketId: null, ticketReference: '' });
+  };
+
+  if (ticketId) {
+    return (
+      <div className="flex items-center justify-between px-3 py-2 border border-gray-300 rounded-md bg-gray-50 sm:text-sm">
+        <span className="flex items-center min-w-0">
+          <TicketIcon className="h-4 w-4 mr-2 flex-shrink-0 text-indigo-500" />
+          <span className="truncate font-medium text-gray-900">{ticketReference}</span>
+        </span>
+        <button
+          type="button"
+          onClick={handleClear}
+          className="ml-2 text-gray-400 hover:text-gray-600"
+          aria-label="Clear ticket"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={ticketReference}
+        onChange={(e) => onChange({ ticketId: null, ticketReference: e.target.value })}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {canSearch && isOpen && (tickets.length > 0 || isFetching) && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg">
+          {isFetching && tickets.length === 0 && (
+            <li className="px-3 py-2 text-sm text-gray-500">Searching tickets...</li>
+          )}
+          {tickets.map((ticket) => (
+            <li key={ticket.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(ticket)}
+                className="w-full px-3 py-2 text-left hover:bg-indigo-50"
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900">{ticket.externalId}</span>
+                  <span className="ml-2 text-xs text-gray-500">{ticket.status}</span>
+                </div>
+                <div className="text-xs text-gray-600 truncate">{ticket.title}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { TicketPicker } from '@/components/forms/ticket-picker';
 import { Play, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -34,6 +34,7 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
   const [workCategory, setWorkCategory] = useState<string>('');
   const [severityCategory, setSeverityCategory] = useState<string>('');
   const [sourceCategory, setSourceCategory] = useState<string>('');
+  const [ticketId, setTicketId] = useState<string | null>(null);
   const [ticketReference, setTicketReference] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -83,6 +84,7 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
           workCategory: workCategory || undefined,
           severityCategory: severityCategory || undefined,
           sourceCategory: sourceCategory || undefined,
+          ticketId: ticketId || undefined,
           ticketReference: ticketReference || undefined,
         }),
       });
@@ -97,6 +99,7 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
         setWorkCategory('');
         setSeverityCategory('');
         setSourceCategory('');
+        setTicketId(null);
         setTicketReference('');
         onSuccess();
         onClose();
@@ -120,6 +123,7 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
       setWorkCategory('');
       setSeverityCategory('');
       setSourceCategory('');
+      setTicketId(null);
       setTicketReference('');
       onClose();
     }
@@ -135,7 +139,10 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
           <select
             id="project"
             value={selectedProject}
-            onChange={(e) => setSelectedProject(e.target.value)}
+            onChange={(e) => {
+              setSelectedProject(e.target.value);
+              setTicketId(null);
+            }}
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
             required
           >
@@ -290,12 +297,15 @@ export function TimeEntryModal({ isOpen, onClose, onSuccess, projects, apiCall }
                 <label htmlFor="ticketReference" className="block text-sm font-medium text-gray-700 mb-1">
                   Ticket Reference ID / Email Subject
                 </label>
-                <Input
-                  id="ticketReference"
-                  value={ticketReference}
-                  onChange={(e) => setTicketReference(e.target.value)}
-                  placeholder="e.g., JIRA-123, RE: Bug Report"
-                  className="w-full"
+                <TicketPicker
+                  projectId={selectedProject}
+                  ticketId={ticketId}
+                  ticketReference={ticketReference}
+                  onChange={(selection) => {
+                    setTicketId(selection.ticketId);
+                    setTicketReference(selection.ticketReference);
+                  }}
+                  placeholder="Search tickets, or e.g. JIRA-123, RE: Bug Report"
                 />
               </div>
             </div>
@@ -9,6 +9,7 @@ import { useAuth } from '@/lib/auth-context';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Modal } from '@/components/ui/modal';
+import { CustomFieldInputs, CustomFieldValues, readCustomFields } from '@/components/forms/custom-field-inputs';
 import toast from 'react-hot-toast';
 import { User } from 'lucide-react';
 
@@ -62,6 +63,7 @@ interface User {
       displayName: string;
     };
   }>;
+  metadata?: Record<string, unknown> | null;
 }
 
 // Team and Project assignments are managed via Team/Project modals, not here
@@ -77,6 +79,7 @@ interface UserFormProps {
 export function UserForm({ user, isOpen, onClose, onSuccess, readOnly = false }: UserFormProps) {
   const { apiCall } = useAuth();
   const queryClient = useQueryClient();
+  const [customFields, setCustomFields] = useState<CustomFieldValues>({});
 
   const {
     register,
@@ -193,14 +196,15 @@ export function UserForm({ user, isOpen, onClose, onSuccess, readOnly = false }:
       setValue('phone', user.phone || '');
       setValue('managerId', user.managerId || '');
       setValue('accessLevels', user.accessLevels?.map(al => al.level) || []);
-      
+      setCustomFields(readCustomFields(user.metadata));
     } else {
       reset();
+      setCustomFields({});
     }
   }, [user, setValue, reset]);
 
   const onSubmit = (data: UserFormData) => {
-    const formData: any = { ...data };
+    const formData: any = { ...data, customFields };
     // Normalize optional fields that cannot be empty strings
     if (formData.managerId === '') {
       delete formData.managerId;
@@ -360,6 +364,8 @@ export function UserForm({ user, isOpen, onClose, onSuccess, readOnly = false }:
             </div>
         </div>
 
+        <CustomFieldInputs entity="user" values={customFields} onChange={setCustomFields} disabled={readOnly} />
+
         {/* Form Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button
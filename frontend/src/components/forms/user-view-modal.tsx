@@ -2,6 +2,7 @@
 
 import { Modal } from '@/components/ui/modal';
 import { Users, Building, Briefcase, Mail, Phone, User } from 'lucide-react';
+import { UserAchievements } from '@/components/achievements/user-achievements';
 
 interface User {
   id: string;
@@ -199,6 +200,9 @@ export function UserViewModal({ user, isOpen, onClose }: UserViewModalProps) {
           </div>
         )}
 
+        {/* Achievements */}
+        <UserAchievements userId={user.id} />
+
         {/* Close Button */}
         <div className="flex justify-end pt-4 border-t">
           <button
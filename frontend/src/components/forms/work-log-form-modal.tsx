@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { TicketPicker } from '@/components/forms/ticket-picker';
 
 interface WorkLog {
   id: string;
@@ -27,6 +28,7 @@ interface WorkLog {
   workCategory?: string;
   severityCategory?: string;
   sourceCategory?: string;
+  ticketId?: string | null;
   ticketReference?: string;
 }
 
@@ -43,6 +45,7 @@ interface WorkLogFormData {
   workCategory?: string;
   severityCategory?: string;
   sourceCategory?: string;
+  ticketId?: string | null;
   ticketReference?: string;
 }
 
@@ -88,6 +91,7 @@ export function WorkLogFormModal({
     workCategory: '',
     severityCategory: '',
     sourceCategory: '',
+    ticketId: null,
     ticketReference: '',
   });
 
@@ -125,6 +129,7 @@ export function WorkLogFormModal({
         workCategory: workLog.workCategory || '',
         severityCategory: workLog.severityCategory || '',
         sourceCategory: workLog.sourceCategory || '',
+        ticketId: workLog.ticketId || null,
         ticketReference: workLog.ticketReference || '',
       });
     } else {
@@ -141,6 +146,7 @@ export function WorkLogFormModal({
         workCategory: '',
         severityCategory: '',
         sourceCategory: '',
+        ticketId: null,
         ticketReference: '',
       });
     }
@@ -347,13 +353,12 @@ export function WorkLogFormModal({
               <label htmlFor="ticketReference" className="block text-sm font-medium text-gray-700 mb-1">
                 Ticket Reference
               </label>
-              <input
-                type="text"
-                id="ticketReference"
-                value={formData.ticketReference}
-                onChange={(e) => setFormData({ ...formData, ticketReference: e.target.value })}
-                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                placeholder="Ticket ID or email subject"
+              <TicketPicker
+                projectId={formData.projectId}
+                ticketId={formData.ticketId}
+                ticketReference={formData.ticketReference}
+                onChange={(selection) => setFormData({ ...formData, ...selection })}
+                placeholder="Search tickets or enter an email subject"
               />
             </div>
           </div>
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Input, Modal } from '@/components/ui';
+import { Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from './knowledge-base-form';
+
+export type DocumentType = 'TEXT' | 'PDF' | 'MARKDOWN' | 'CODE' | 'URL';
+
+export interface KnowledgeDocument {
+  id: string;
+  knowledgeBaseId: string;
+  title: string;
+  type: DocumentType | null;
+  source: string | null;
+  isIndexed: boolean | null;
+  indexedAt: string | null;
+  updatedAt: string;
+  content?: string;
+}
+
+interface DocumentFormProps {
+  knowledgeBaseId: string;
+  /** Opens the document for reading, or for editing when canEdit is set */
+  documentId?: string;
+  canEdit: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function DocumentForm({ knowledgeBaseId, documentId, canEdit, onClose, onSuccess }: DocumentFormProps) {
+  const { apiCall } = useAuth();
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [type, setType] = useState<'TEXT' | 'CODE'>('TEXT');
+
+  const { data: document, isLoading } = useQuery<KnowledgeDocument>({
+    queryKey: ['knowledge-bases', knowledgeBaseId, 'documents', documentId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/knowledge-bases/${knowledgeBaseId}/documents/${documentId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch document');
+      }
+      return response.json();
+    },
+    enabled: !!documentId,
+  });
+
+  useEffect(() => {
+    if (document) {
+      setTitle(document.title);
+      setContent(document.content || '');
+      setType(document.type === 'CODE' ? 'CODE' : 'TEXT');
+    }
+  }, [document]);
+
+  // Uploaded PDFs keep their extracted text read-only
+  const editable = canEdit && (!document || document.type === 'TEXT' || document.type === 'CODE');
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall(
+        documentId
+          ? `/api/knowledge-bases/${knowledgeBaseId}/documents/${documentId}`
+          : `/api/knowledge-bases/${knowledgeBaseId}/documents`,
+        {
+          method: documentId ? 'PATCH' : 'POST',
+          body: JSON.stringify({ title: title.trim(), content, type }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to save document'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success(documentId ? 'Document updated' : 'Document created');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !content.trim()) {
+      toast.error('Title and content are required');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const modalTitle = !documentId ? 'New Document' : editable ? 'Edit Document' : document?.title || 'Document';
+
+  return (
+    <Modal isOpen onClose={onClose} title={modalTitle} size="xl">
+      {documentId && isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      ) : !editable ? (
+        <div className="space-y-4">
+          {document?.source && <p className="text-sm text-gray-500">Source: {document.source}</p>}
+          <pre className="whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-4">
+            {document?.content}
+          </pre>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="sm:col-span-2">
+              <label htmlFor="documentTitle" className="block text-sm font-medium text-gray-700 mb-1">
+                Title *
+              </label>
+              <Input id="documentTitle" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="documentType" className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                id="documentType"
+                value={type}
+                onChange={(e) => setType(e.target.value as 'TEXT' | 'CODE')}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              >
+                <option value="TEXT">Text</option>
+                <option value="CODE">Code</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="documentContent" className="block text-sm font-medium text-gray-700 mb-1">
+              Content *
+            </label>
+            <textarea
+              id="documentContent"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={16}
+              className={`block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm ${
+                type === 'CODE' ? 'font-mono' : ''
+              }`}
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : documentId ? 'Update' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
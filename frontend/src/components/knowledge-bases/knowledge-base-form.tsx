@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Input, Modal } from '@/components/ui';
+import toast from 'react-hot-toast';
+
+export type KnowledgeBaseType = 'GENERAL' | 'PROJECT_SPECIFIC' | 'TECHNICAL' | 'PROCESS';
+
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description: string | null;
+  type: KnowledgeBaseType | null;
+  isActive: boolean | null;
+  projectId: string | null;
+  project: { id: string; name: string; code: string } | null;
+  _count: { documents: number };
+}
+
+export const knowledgeBaseTypeLabels: Record<KnowledgeBaseType, string> = {
+  GENERAL: 'General',
+  PROJECT_SPECIFIC: 'Project',
+  TECHNICAL: 'Technical',
+  PROCESS: 'Process',
+};
+
+export const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+interface KnowledgeBaseFormProps {
+  knowledgeBase?: KnowledgeBase | null;
+  onClose: () => void;
+  onSuccess: (knowledgeBase: KnowledgeBase) => void;
+}
+
+export function KnowledgeBaseForm({ knowledgeBase, onClose, onSuccess }: KnowledgeBaseFormProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState(knowledgeBase?.name || '');
+  const [description, setDescription] = useState(knowledgeBase?.description || '');
+  const [type, setType] = useState<KnowledgeBaseType>(knowledgeBase?.type || 'GENERAL');
+  const [projectId, setProjectId] = useState(knowledgeBase?.projectId || '');
+  const [isActive, setIsActive] = useState(knowledgeBase?.isActive ?? true);
+
+  const { data: projects = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const response = await apiCall('/api/projects');
+      if (!response.ok) {
+        throw new Error('Failed to fetch projects');
+      }
+      return response.json();
+    },
+    enabled: type === 'PROJECT_SPECIFIC',
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall(
+        knowledgeBase ? `/api/knowledge-bases/${knowledgeBase.id}` : '/api/knowledge-bases',
+        {
+          method: knowledgeBase ? 'PATCH' : 'POST',
+          body: JSON.stringify(body),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to save knowledge base'));
+      }
+      return response.json();
+    },
+    onSuccess: (saved: KnowledgeBase) => {
+      toast.success(knowledgeBase ? 'Knowledge base updated' : 'Knowledge base created');
+      onSuccess(saved);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (type === 'PROJECT_SPECIFIC' && !projectId) {
+      toast.error('Select the project this knowledge base belongs to');
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      type,
+      projectId: type === 'PROJECT_SPECIFIC' ? projectId : undefined,
+      isActive,
+    });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={knowledgeBase ? 'Edit Knowledge Base' : 'New Knowledge Base'} size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="knowledgeBaseName" className="block text-sm font-medium text-gray-700 mb-1">
+            Name *
+          </label>
+          <Input
+            id="knowledgeBaseName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Engineering handbook"
+          />
+        </div>
+        <div>
+          <label htmlFor="knowledgeBaseDescription" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <textarea
+            id="knowledgeBaseDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="knowledgeBaseType" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="knowledgeBaseType"
+              value={type}
+              onChange={(e) => setType(e.target.value as KnowledgeBaseType)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.entries(knowledgeBaseTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {type === 'PROJECT_SPECIFIC' && (
+            <div>
+              <label htmlFor="knowledgeBaseProject" className="block text-sm font-medium text-gray-700 mb-1">
+                Project *
+              </label>
+              <select
+                id="knowledgeBaseProject"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              >
+                <option value="">Select a project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+          <span>Include in search</span>
+        </label>
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,369 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Button, Modal } from '@/components/ui';
+import { Award, Heart, Trophy } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const KUDOS_TYPES = ['general', 'teamwork', 'helpfulness', 'innovation', 'leadership', 'quality'] as const;
+type KudosType = (typeof KUDOS_TYPES)[number];
+
+type LeaderboardPeriod = 'week' | 'month' | 'quarter' | 'year' | 'all';
+
+interface KudosUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  displayName: string | null;
+}
+
+interface Kudos {
+  id: string;
+  message: string;
+  type: KudosType | null;
+  createdAt: string;
+  giver: KudosUser;
+  receiver: KudosUser;
+}
+
+interface KudosFeed {
+  data: Kudos[];
+  nextCursor: string | null;
+}
+
+interface Leaderboard {
+  period: LeaderboardPeriod;
+  entries: { rank: number; user: KudosUser; count: number }[];
+}
+
+interface KudosSummary {
+  received: number;
+  given: number;
+  dailyLimit: number;
+  remainingToday: number;
+}
+
+const typeStyles: Record<KudosType, string> = {
+  general: 'bg-gray-100 text-gray-700',
+  teamwork: 'bg-blue-100 text-blue-800',
+  helpfulness: 'bg-green-100 text-green-800',
+  innovation: 'bg-purple-100 text-purple-800',
+  leadership: 'bg-yellow-100 text-yellow-800',
+  quality: 'bg-indigo-100 text-indigo-800',
+};
+
+const periodLabels: Record<LeaderboardPeriod, string> = {
+  week: 'This week',
+  month: 'This month',
+  quarter: 'This quarter',
+  year: 'This year',
+  all: 'All time',
+};
+
+const nameOf = (user: KudosUser) => user.displayName || `${user.firstName} ${user.lastName}`.trim();
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export function RecognitionFeed() {
+  const { apiCall } = useAuth();
+  const [period, setPeriod] = useState<LeaderboardPeriod>('month');
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: feed, isLoading } = useQuery<KudosFeed>({
+    queryKey: ['kudos', 'feed'],
+    queryFn: async () => {
+      const response = await apiCall('/api/kudos?take=10');
+      if (!response.ok) {
+        throw new Error('Failed to fetch kudos');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: leaderboard } = useQuery<Leaderboard>({
+    queryKey: ['kudos', 'leaderboard', period],
+    queryFn: async () => {
+      const response = await apiCall(`/api/kudos/leaderboard?period=${period}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch leaderboard');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: summary } = useQuery<KudosSummary>({
+    queryKey: ['kudos', 'me'],
+    queryFn: async () => {
+      const response = await apiCall('/api/kudos/me');
+      if (!response.ok) {
+        throw new Error('Failed to fetch kudos summary');
+      }
+      return response.json();
+    },
+  });
+
+  const kudos = feed?.data ?? [];
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Recognition</h3>
+          <div className="flex items-center space-x-3">
+            {summary && (
+              <span className="text-xs text-gray-500">
+                {summary.remainingToday} of {summary.dailyLimit} kudos left today
+              </span>
+            )}
+            <Button size="sm" onClick={() => setShowForm(true)} disabled={summary?.remainingToday === 0}>
+              <Heart className="h-4 w-4 mr-1" />
+              Give Kudos
+            </Button>
+          </div>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Feed */}
+          <div className="lg:col-span-2">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading recognition…</p>
+            ) : kudos.length === 0 ? (
+              <div className="flex items-center justify-center h-32 text-gray-500">
+                <Award className="h-8 w-8 mr-2" />
+                <span>No kudos yet. Be the first to recognise a colleague!</span>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {kudos.map((item) => (
+                  <li key={item.id} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-gray-500">
+                        <span className="font-medium text-gray-900">{nameOf(item.giver)}</span> recognised{' '}
+                        <span className="font-medium text-gray-900">{nameOf(item.receiver)}</span>
+                      </p>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {new Date(item.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-700">{item.message}</p>
+                    {item.type && (
+                      <span
+                        className={`mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-medium ${typeStyles[item.type] ?? typeStyles.general}`}
+                      >
+                        {item.type}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Leaderboard */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2">
+                <Trophy className="h-4 w-4 text-yellow-500" />
+                <span className="text-sm font-medium text-gray-700">Leaderboard</span>
+              </div>
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as LeaderboardPeriod)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label="Leaderboard period"
+              >
+                {Object.entries(periodLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {leaderboard && leaderboard.entries.length > 0 ? (
+              <ol className="space-y-2">
+                {leaderboard.entries.map((entry) => (
+                  <li key={entry.user.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-900">
+                      <span className="inline-block w-6 text-gray-400">{entry.rank}.</span>
+                      {nameOf(entry.user)}
+                    </span>
+                    <span className="font-medium text-gray-700">{entry.count}</span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-gray-500">No kudos in this period.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showForm && <GiveKudosModal onClose={() => setShowForm(false)} />}
+    </div>
+  );
+}
+
+function GiveKudosModal({ onClose }: { onClose: () => void }) {
+  const { apiCall, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [receiverId, setReceiverId] = useState('');
+  const [message, setMessage] = useState('');
+  const [type, setType] = useState<KudosType>('general');
+  const [isPublic, setIsPublic] = useState(true);
+  const [mentions, setMentions] = useState<string[]>([]);
+
+  const { data: users = [] } = useQuery<KudosUser[]>({
+    queryKey: ['users'],
+    queryFn: async () => {
+      const response = await apiCall('/api/users');
+      if (!response.ok) {
+        throw new Error('Failed to fetch users');
+      }
+      const data = await response.json();
+      return data || [];
+    },
+  });
+  const colleagues = users.filter((colleague) => colleague.id !== user?.id);
+
+  const giveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/kudos', {
+        method: 'POST',
+        body: JSON.stringify({ receiverId, message: message.trim(), type, isPublic, mentions }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to give kudos'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kudos'] });
+      toast.success('Kudos sent');
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiverId || !message.trim()) {
+      toast.error('Choose a colleague and write a message');
+      return;
+    }
+    giveMutation.mutate();
+  };
+
+  const selectClassName =
+    'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+  return (
+    <Modal isOpen onClose={onClose} title="Give Kudos" size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="kudosReceiver" className="block text-sm font-medium text-gray-700 mb-1">
+              Colleague *
+            </label>
+            <select
+              id="kudosReceiver"
+              value={receiverId}
+              onChange={(e) => {
+                setReceiverId(e.target.value);
+                setMentions(mentions.filter((id) => id !== e.target.value));
+              }}
+              className={selectClassName}
+            >
+              <option value="">Select a colleague</option>
+              {colleagues.map((colleague) => (
+                <option key={colleague.id} value={colleague.id}>
+                  {nameOf(colleague)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="kudosType" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="kudosType"
+              value={type}
+              onChange={(e) => setType(e.target.value as KudosType)}
+              className={selectClassName}
+            >
+              {KUDOS_TYPES.map((value) => (
+                <option key={value} value={value}>
+                  {value.charAt(0).toUpperCase() + value.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="kudosMessage" className="block text-sm font-medium text-gray-700 mb-1">
+            Message *
+          </label>
+          <textarea
+            id="kudosMessage"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={3}
+            maxLength={500}
+            className={selectClassName}
+            placeholder="What did they do that deserves recognition?"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="kudosMentions" className="block text-sm font-medium text-gray-700 mb-1">
+            Mention colleagues
+          </label>
+          <select
+            id="kudosMentions"
+            multiple
+            value={mentions}
+            onChange={(e) => setMentions(Array.from(e.target.selectedOptions, (option) => option.value))}
+            className={`${selectClassName} h-24`}
+          >
+            {colleagues
+              .filter((colleague) => colleague.id !== receiverId)
+              .map((colleague) => (
+                <option key={colleague.id} value={colleague.id}>
+                  {nameOf(colleague)}
+                </option>
+              ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">Mentioned colleagues are notified.</p>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="kudosIsPublic"
+            checked={isPublic}
+            onChange={(e) => setIsPublic(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <label htmlFor="kudosIsPublic" className="ml-2 text-sm text-gray-700">
+            Show in the recognition feed
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={giveMutation.isPending}>
+            {giveMutation.isPending ? 'Sending...' : 'Send Kudos'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: { link?: string } | null;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT' | null;
+  isRead: boolean | null;
+  createdAt: string;
+}
+
+interface NotificationPage {
+  data: Notification[];
+  unreadCount: number;
+  nextCursor: string | null;
+}
+
+const formatRelativeTime = (value: string) => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+export function NotificationBell() {
+  const { apiCall } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading } = useQuery<NotificationPage>({
+    queryKey: ['notifications'],
+    queryFn: async () => {
+      const response = await apiCall('/api/notifications?take=10');
+      if (!response.ok) {
+        throw new Error('Failed to fetch notifications');
+      }
+      return response.json();
+    },
+    // New notifications are pushed over the realtime stream; this is a fallback
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/notifications/${id}/read`, { method: 'PATCH' });
+      if (!response.ok) {
+        throw new Error('Failed to update notification');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/notifications/read-all', { method: 'PATCH' });
+      if (!response.ok) {
+        throw new Error('Failed to update notifications');
+      }
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.isRead) markReadMutation.mutate(notification.id);
+    const link = notification.data?.link;
+    if (link) {
+      setOpen(false);
+      router.push(link);
+    }
+  };
+
+  const notifications = data?.data ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="relative h-10 w-10 inline-flex items-center justify-center rounded-full text-gray-500 hover:text-gray-900 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <span className="sr-only">View notifications</span>
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-lg ring-1 ring-black ring-opacity-5 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllReadMutation.mutate()}
+                disabled={markAllReadMutation.isPending}
+                className="inline-flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+              >
+                <CheckCheck className="h-4 w-4 mr-1" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">You&apos;re all caught up.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      onClick={() => handleSelect(notification)}
+                      className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                        notification.isRead ? '' : 'bg-indigo-50/50'
+                      }`}
+                    >
+                      <div className="flex items-start gap-2">
+                        {!notification.isRead && (
+                          <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-indigo-600" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                          <p className="text-sm text-gray-600 line-clamp-2">{notification.message}</p>
+                          <p className="mt-1 text-xs text-gray-400">
+                            {formatRelativeTime(notification.createdAt)}
+                          </p>
+                        </div>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
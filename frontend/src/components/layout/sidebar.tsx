@@ -4,7 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { usePermissions, PERMISSIONS } from '@/lib/permissions';
+import { usePermissions, PERMISSIONS, ROLES } from '@/lib/permissions';
 import {
   Home,
   Users,
@@ -20,6 +20,12 @@ import {
   Shield,
   Key,
   Building2,
+  CalendarDays,
+  Download,
+  Upload,
+  BookOpen,
+  Bot,
+  ScrollText,
 } from 'lucide-react';
 
 // Navigation items with permission requirements
@@ -55,6 +61,12 @@ const navigation = [
     icon: Clock,
     permissions: [PERMISSIONS.TIME_SESSIONS_READ]
   },
+  { 
+    name: 'Leave', 
+    href: '/dashboard/leave', 
+    icon: CalendarDays,
+    permissions: [PERMISSIONS.LEAVE_READ]
+  },
   { 
     name: 'Work Logs', 
     href: '/dashboard/work-logs', 
@@ -67,6 +79,30 @@ const navigation = [
     icon: BarChart3,
     permissions: [PERMISSIONS.ANALYTICS_READ]
   },
+  { 
+    name: 'Knowledge Base', 
+    href: '/dashboard/knowledge-bases', 
+    icon: BookOpen,
+    permissions: [] // Each user sees the knowledge bases of their organization and projects
+  },
+  { 
+    name: 'Assistant', 
+    href: '/dashboard/assistant', 
+    icon: Bot,
+    permissions: [] // Answers are limited to what the user can already see
+  },
+  { 
+    name: 'Exports', 
+    href: '/dashboard/exports', 
+    icon: Download,
+    permissions: [] // Each user only sees their own exports
+  },
+  { 
+    name: 'Imports', 
+    href: '/dashboard/imports', 
+    icon: Upload,
+    permissions: [PERMISSIONS.WORK_LOGS_CREATE, PERMISSIONS.USERS_CREATE]
+  },
   { 
     name: 'Settings', 
     href: '/dashboard/settings', 
@@ -89,6 +125,13 @@ const rbacNavigation = [
     icon: Building2, 
     permissions: [PERMISSIONS.ORGANIZATIONS_READ]
   },
+  { 
+    name: 'Audit Logs', 
+    href: '/dashboard/audit-logs', 
+    icon: ScrollText, 
+    permissions: [],
+    roles: [ROLES.ADMIN, ROLES.SUPER_ADMIN] // Audit logs are only served to admins
+  },
 ];
 
 export function Sidebar() {
@@ -123,7 +166,7 @@ export function Sidebar() {
 
   // Filter RBAC navigation based on user permissions
   const visibleRbacItems = rbacNavigation.filter(item => 
-    hasAnyPermission(item.permissions)
+    item.roles ? item.roles.some(role => role === user?.role) : hasAnyPermission(item.permissions)
   );
 
 
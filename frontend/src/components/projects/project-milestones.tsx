@@ -0,0 +1,347 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input, Modal } from '@/components/ui';
+import { Flag, Plus, Edit, Trash2, Check, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export type MilestoneStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+export interface Milestone {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  dueDate: string;
+  status: MilestoneStatus;
+  completedAt: string | null;
+  plannedHours: number | null;
+  loggedHours: number;
+  workLogCount: number;
+  progress: number | null;
+  isOverdue: boolean;
+}
+
+const statusStyles: Record<MilestoneStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-700',
+  IN_PROGRESS: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-500 line-through',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export function useProjectMilestones(projectId?: string) {
+  const { apiCall } = useAuth();
+
+  return useQuery<Milestone[]>({
+    queryKey: ['milestones', projectId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/projects/${projectId}/milestones`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch milestones');
+      }
+      return response.json();
+    },
+    enabled: !!projectId,
+  });
+}
+
+export function ProjectMilestones({ projectId }: { projectId: string }) {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Milestone | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const canManage = hasPermission('projects', 'update');
+  const { data: milestones = [], isLoading } = useProjectMilestones(projectId);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['milestones', projectId] });
+
+  const completeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/projects/${projectId}/milestones/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'COMPLETED' }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to update milestone'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Milestone completed');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/projects/${projectId}/milestones/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete milestone'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Milestone deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleDelete = (milestone: Milestone) => {
+    if (window.confirm(`Delete "${milestone.name}"? Linked work logs are kept.`)) {
+      deleteMutation.mutate(milestone.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Flag className="h-4 w-4 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">Milestones</span>
+        </div>
+        {canManage && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setEditing(null);
+              setShowForm(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading milestones…</p>
+      ) : milestones.length === 0 ? (
+        <p className="text-sm text-gray-500">No milestones planned yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {milestones.map((milestone) => {
+            const isOpen = milestone.status === 'PENDING' || milestone.status === 'IN_PROGRESS';
+            return (
+              <div key={milestone.id} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900">{milestone.name}</p>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[milestone.status]}`}>
+                        {milestone.status.replace('_', ' ').toLowerCase()}
+                      </span>
+                      {milestone.isOverdue && (
+                        <span className="flex items-center text-xs font-medium text-red-600">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          overdue
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Due {formatDate(milestone.dueDate)}
+                      {milestone.completedAt && ` · Completed ${formatDate(milestone.completedAt)}`}
+                      {' · '}
+                      {milestone.loggedHours}h logged
+                      {milestone.plannedHours != null && ` of ${milestone.plannedHours}h planned`}
+                    </p>
+                    {milestone.description && <p className="text-xs text-gray-600 mt-1">{milestone.description}</p>}
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center space-x-1">
+                      {isOpen && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Mark complete"
+                          onClick={() => completeMutation.mutate(milestone.id)}
+                          disabled={completeMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 text-green-600" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Edit"
+                        onClick={() => {
+                          setEditing(milestone);
+                          setShowForm(true);
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(milestone)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {milestone.progress != null && (
+                  <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${milestone.isOverdue ? 'bg-red-500' : 'bg-indigo-600'}`}
+                      style={{ width: `${milestone.progress}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <MilestoneFormModal
+          projectId={projectId}
+          milestone={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false);
+            invalidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface MilestoneFormModalProps {
+  projectId: string;
+  milestone: Milestone | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function MilestoneFormModal({ projectId, milestone, onClose, onSuccess }: MilestoneFormModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState(milestone?.name || '');
+  const [description, setDescription] = useState(milestone?.description || '');
+  const [dueDate, setDueDate] = useState(milestone ? milestone.dueDate.slice(0, 10) : '');
+  const [status, setStatus] = useState<MilestoneStatus>(milestone?.status || 'PENDING');
+  const [plannedHours, setPlannedHours] = useState(
+    milestone?.plannedHours != null ? String(milestone.plannedHours) : ''
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall(
+        milestone ? `/api/projects/${projectId}/milestones/${milestone.id}` : `/api/projects/${projectId}/milestones`,
+        {
+          method: milestone ? 'PATCH' : 'POST',
+          body: JSON.stringify(body),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to save milestone'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success(milestone ? 'Milestone updated' : 'Milestone created');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !dueDate) {
+      toast.error('Name and due date are required');
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      dueDate: new Date(`${dueDate}T00:00:00Z`).toISOString(),
+      status,
+      plannedHours: plannedHours ? Number(plannedHours) : undefined,
+    });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={milestone ? 'Edit Milestone' : 'Add Milestone'} size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="milestoneName" className="block text-sm font-medium text-gray-700 mb-1">
+            Name *
+          </label>
+          <Input id="milestoneName" value={name} onChange={(e) => setName(e.target.value)} placeholder="Beta release" />
+        </div>
+        <div>
+          <label htmlFor="milestoneDescription" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <textarea
+            id="milestoneDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div>
+            <label htmlFor="milestoneDueDate" className="block text-sm font-medium text-gray-700 mb-1">
+              Due date *
+            </label>
+            <Input id="milestoneDueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="milestonePlannedHours" className="block text-sm font-medium text-gray-700 mb-1">
+              Planned hours
+            </label>
+            <Input
+              id="milestonePlannedHours"
+              type="number"
+              min="0"
+              step="0.5"
+              value={plannedHours}
+              onChange={(e) => setPlannedHours(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="milestoneStatus" className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              id="milestoneStatus"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as MilestoneStatus)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.keys(statusStyles).map((value) => (
+                <option key={value} value={value}>
+                  {value.replace('_', ' ').toLowerCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : milestone ? 'Update' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
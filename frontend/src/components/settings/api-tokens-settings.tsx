@@ -0,0 +1,621 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input, Modal } from '@/components/ui';
+import { Bot, Copy, KeyRound, Plus, Power, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ServiceAccount {
+  id: string;
+  name: string;
+  description: string | null;
+  scopes: string[];
+  isActive: boolean;
+  createdAt: string;
+  tokens: ApiToken[];
+}
+
+type CreatedToken = ApiToken & { token: string };
+
+const expiryOptions = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'No expiration' },
+];
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  const message = errorData.error?.message || errorData.message;
+  return (Array.isArray(message) ? message.join(', ') : message) || fallback;
+};
+
+const tokenStatus = (token: ApiToken) => {
+  if (token.revokedAt) return { label: 'revoked', className: 'bg-gray-100 text-gray-500' };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return { label: 'expired', className: 'bg-yellow-100 text-yellow-800' };
+  }
+  return { label: 'active', className: 'bg-green-100 text-green-800' };
+};
+
+/** Personal access tokens of the signed-in user */
+export function ApiTokensSettings() {
+  const { apiCall } = useAuth();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [created, setCreated] = useState<CreatedToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiToken[]>({
+    queryKey: ['api-tokens'],
+    queryFn: async () => {
+      const response = await apiCall('/api/api-tokens');
+      if (!response.ok) {
+        throw new Error('Failed to fetch API tokens');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: grantableScopes = [] } = useQuery<string[]>({
+    queryKey: ['api-token-scopes'],
+    queryFn: async () => {
+      const response = await apiCall('/api/api-tokens/scopes');
+      if (!response.ok) {
+        throw new Error('Failed to fetch scopes');
+      }
+      return response.json();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/api-tokens/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to revoke token'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+      toast.success('Token revoked');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleRevoke = (token: ApiToken) => {
+    if (window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      revokeMutation.mutate(token.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Personal Access Tokens</h3>
+          <p className="text-sm text-gray-500">
+            Use the API from scripts as yourself, limited to the scopes you pick.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setShowForm(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Token
+        </Button>
+      </div>
+
+      {created && <NewTokenNotice token={created} onDismiss={() => setCreated(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : tokens.length === 0 ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <KeyRound className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">You have no personal access tokens.</p>
+        </div>
+      ) : (
+        <TokenList tokens={tokens} onRevoke={handleRevoke} />
+      )}
+
+      {showForm && (
+        <TokenFormModal
+          title="New Personal Access Token"
+          endpoint="/api/api-tokens"
+          scopes={grantableScopes}
+          onClose={() => setShowForm(false)}
+          onCreated={(token) => {
+            setShowForm(false);
+            setCreated(token);
+            queryClient.invalidateQueries({ queryKey: ['api-tokens'] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Organization-level identities for CI jobs and other automation */
+export function ServiceAccountsSettings() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [tokenFor, setTokenFor] = useState<ServiceAccount | null>(null);
+  const [created, setCreated] = useState<CreatedToken | null>(null);
+
+  const canCreate = hasPermission('service_accounts', 'create');
+  const canUpdate = hasPermission('service_accounts', 'update');
+  const canDelete = hasPermission('service_accounts', 'delete');
+
+  const { data: serviceAccounts = [], isLoading } = useQuery<ServiceAccount[]>({
+    queryKey: ['service-accounts'],
+    queryFn: async () => {
+      const response = await apiCall('/api/service-accounts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch service accounts');
+      }
+      return response.json();
+    },
+  });
+
+  const { data: grantableScopes = [] } = useQuery<string[]>({
+    queryKey: ['api-token-scopes'],
+    queryFn: async () => {
+      const response = await apiCall('/api/api-tokens/scopes');
+      if (!response.ok) {
+        throw new Error('Failed to fetch scopes');
+      }
+      return response.json();
+    },
+    enabled: canCreate,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['service-accounts'] });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/service-accounts/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to deactivate service account'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Service account deactivated');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async ({ accountId, tokenId }: { accountId: string; tokenId: string }) => {
+      const response = await apiCall(`/api/service-accounts/${accountId}/tokens/${tokenId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to revoke token'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Token revoked');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleDeactivate = (serviceAccount: ServiceAccount) => {
+    if (window.confirm(`Deactivate "${serviceAccount.name}" and revoke all of its tokens?`)) {
+      deactivateMutation.mutate(serviceAccount.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Service Accounts</h3>
+          <p className="text-sm text-gray-500">
+            Identities for CI jobs and integrations. They can only do what their scopes allow.
+          </p>
+        </div>
+        {canCreate && (
+          <Button size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Service Account
+          </Button>
+        )}
+      </div>
+
+      {created && <NewTokenNotice token={created} onDismiss={() => setCreated(null)} />}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : serviceAccounts.length === 0 ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <Bot className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No service accounts yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {serviceAccounts.map((serviceAccount) => (
+            <div key={serviceAccount.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start">
+                  <Bot className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="text-sm font-medium text-gray-900">{serviceAccount.name}</h4>
+                      {!serviceAccount.isActive && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500">
+                          deactivated
+                        </span>
+                      )}
+                    </div>
+                    {serviceAccount.description && (
+                      <p className="text-sm text-gray-500">{serviceAccount.description}</p>
+                    )}
+                    <ScopeList scopes={serviceAccount.scopes} />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {canUpdate && serviceAccount.isActive && (
+                    <Button variant="ghost" size="sm" title="New token" onClick={() => setTokenFor(serviceAccount)}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canDelete && serviceAccount.isActive && (
+                    <Button variant="ghost" size="sm" title="Deactivate" onClick={() => handleDeactivate(serviceAccount)}>
+                      <Power className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {serviceAccount.tokens.length > 0 && (
+                <TokenList
+                  tokens={serviceAccount.tokens}
+                  onRevoke={
+                    canUpdate
+                      ? (token) => {
+                          if (window.confirm(`Revoke "${token.name}"?`)) {
+                            revokeMutation.mutate({ accountId: serviceAccount.id, tokenId: token.id });
+                          }
+                        }
+                      : undefined
+                  }
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <ServiceAccountFormModal
+          scopes={grantableScopes}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false);
+            invalidate();
+          }}
+        />
+      )}
+
+      {tokenFor && (
+        <TokenFormModal
+          title={`New Token for ${tokenFor.name}`}
+          endpoint={`/api/service-accounts/${tokenFor.id}/tokens`}
+          scopes={tokenFor.scopes}
+          onClose={() => setTokenFor(null)}
+          onCreated={(token) => {
+            setTokenFor(null);
+            setCreated(token);
+            invalidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ScopeList({ scopes }: { scopes: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {scopes.map((scope) => (
+        <code key={scope} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+          {scope}
+        </code>
+      ))}
+    </div>
+  );
+}
+
+interface TokenListProps {
+  tokens: ApiToken[];
+  onRevoke?: (token: ApiToken) => void;
+}
+
+function TokenList({ tokens, onRevoke }: TokenListProps) {
+  return (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {tokens.map((token) => {
+        const status = tokenStatus(token);
+        return (
+          <li key={token.id} className="flex items-start justify-between p-3">
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-900">{token.name}</span>
+                <code className="text-xs text-gray-500">{token.prefix}…</code>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+              </div>
+              <ScopeList scopes={token.scopes} />
+              <p className="text-xs text-gray-500 mt-1">
+                Expires: {token.expiresAt ? formatDateTime(token.expiresAt) : 'Never'}
+                {' · '}
+                Last used: {formatDateTime(token.lastUsedAt)}
+                {token.lastUsedIp && ` from ${token.lastUsedIp}`}
+              </p>
+            </div>
+            {onRevoke && !token.revokedAt && (
+              <Button variant="ghost" size="sm" title="Revoke" onClick={() => onRevoke(token)}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function NewTokenNotice({ token, onDismiss }: { token: CreatedToken; onDismiss: () => void }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(token.token);
+    toast.success('Token copied');
+  };
+
+  return (
+    <div className="border border-green-200 bg-green-50 rounded-lg p-4 space-y-2">
+      <p className="text-sm font-medium text-green-800">
+        Copy &quot;{token.name}&quot; now. It will not be shown again.
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 px-3 py-2 text-sm bg-white border border-green-200 rounded break-all">{token.token}</code>
+        <Button variant="outline" size="sm" title="Copy" onClick={handleCopy}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-green-700">
+        Send it as <code>Authorization: Bearer &lt;token&gt;</code>.{' '}
+        <button type="button" className="underline" onClick={onDismiss}>
+          Done
+        </button>
+      </p>
+    </div>
+  );
+}
+
+interface ScopePickerProps {
+  scopes: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function ScopePicker({ scopes, selected, onChange }: ScopePickerProps) {
+  const toggle = (scope: string) =>
+    onChange(selected.includes(scope) ? selected.filter((s) => s !== scope) : [...selected, scope]);
+
+  if (scopes.length === 0) {
+    return <p className="text-sm text-gray-500">There are no scopes you can grant.</p>;
+  }
+
+  return (
+    <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-md p-3 grid grid-cols-1 gap-1 sm:grid-cols-2">
+      {scopes.map((scope) => (
+        <label key={scope} className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(scope)}
+            onChange={() => toggle(scope)}
+            className="rounded border-gray-300 text-indigo-600 mr-2"
+          />
+          <code>{scope}</code>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface TokenFormModalProps {
+  title: string;
+  endpoint: string;
+  scopes: string[];
+  onClose: () => void;
+  onCreated: (token: CreatedToken) => void;
+}
+
+function TokenFormModal({ title, endpoint, scopes, onClose, onCreated }: TokenFormModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('30');
+
+  const createMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall(endpoint, { method: 'POST', body: JSON.stringify(body) });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to create token'));
+      }
+      return response.json() as Promise<CreatedToken>;
+    },
+    onSuccess: (token) => {
+      toast.success('Token created');
+      onCreated(token);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (selected.length === 0) {
+      toast.error('Pick at least one scope');
+      return;
+    }
+    createMutation.mutate({
+      name: name.trim(),
+      scopes: selected,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000).toISOString()
+        : undefined,
+    });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={title} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="tokenName" className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <Input id="tokenName" value={name} onChange={(e) => setName(e.target.value)} placeholder="CI work log upload" />
+          </div>
+          <div>
+            <label htmlFor="tokenExpiry" className="block text-sm font-medium text-gray-700 mb-1">
+              Expiration
+            </label>
+            <select
+              id="tokenExpiry"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {expiryOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">Scopes *</span>
+          <ScopePicker scopes={scopes} selected={selected} onChange={setSelected} />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={createMutation.isPending}>
+            Create Token
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+interface ServiceAccountFormModalProps {
+  scopes: string[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function ServiceAccountFormModal({ scopes, onClose, onSuccess }: ServiceAccountFormModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const createMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall('/api/service-accounts', { method: 'POST', body: JSON.stringify(body) });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to create service account'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Service account created');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    createMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      scopes: selected,
+    });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="New Service Account" size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="serviceAccountName" className="block text-sm font-medium text-gray-700 mb-1">
+            Name *
+          </label>
+          <Input
+            id="serviceAccountName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Deploy pipeline"
+          />
+        </div>
+        <div>
+          <label htmlFor="serviceAccountDescription" className="block text-sm font-medium text-gray-700 mb-1">
+            Description
+          </label>
+          <Input
+            id="serviceAccountDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Posts work logs from GitHub Actions"
+          />
+        </div>
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">Scopes</span>
+          <ScopePicker scopes={scopes} selected={selected} onChange={setSelected} />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={createMutation.isPending}>
+            Create Service Account
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input, Modal, Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui';
+import type { CustomFieldDefinition, CustomFieldEntity, CustomFieldType } from '@/components/forms/custom-field-inputs';
+import { ListPlus, Plus, Edit, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const entityLabels: Record<CustomFieldEntity, string> = {
+  'work-log': 'Work logs',
+  project: 'Projects',
+  user: 'Users',
+};
+
+const typeLabels: Record<CustomFieldType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Number',
+  DATE: 'Date',
+  BOOLEAN: 'Yes / No',
+  SELECT: 'Single choice',
+  MULTI_SELECT: 'Multiple choice',
+  EMAIL: 'Email',
+  URL: 'URL',
+};
+
+const selectTypes: CustomFieldType[] = ['SELECT', 'MULTI_SELECT'];
+
+const formatDefault = (value: unknown) =>
+  value == null ? '—' : Array.isArray(value) ? value.join(', ') : String(value);
+
+/** Suggests a key from the field name, e.g. "Cost centre" becomes "costCentre". */
+const toKey = (name: string) =>
+  name
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map((word, index) =>
+      index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase(),
+    )
+    .join('')
+    .replace(/^[0-9]+/, '');
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  const message = errorData.error?.message || errorData.message;
+  return (Array.isArray(message) ? message.join(', ') : message) || fallback;
+};
+
+export function CustomFieldsSettings() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const canCreate = hasPermission('custom_fields', 'create');
+  const canUpdate = hasPermission('custom_fields', 'update');
+  const canDelete = hasPermission('custom_fields', 'delete');
+
+  const { data: fields = [], isLoading } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ['customFields', 'all'],
+    queryFn: async () => {
+      const response = await apiCall('/api/custom-fields?includeInactive=true');
+      if (!response.ok) {
+        throw new Error('Failed to fetch custom fields');
+      }
+      return response.json();
+    },
+  });
+
+  // Refreshes the forms that render the fields as well as this list
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['customFields'] });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/custom-fields/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete custom field'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Custom field deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (window.confirm(`Delete "${field.name}"? Values already saved are kept but no longer shown.`)) {
+      deleteMutation.mutate(field.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Custom Fields</h3>
+          <p className="text-sm text-gray-500">Capture extra details on work logs, projects and users.</p>
+        </div>
+        {canCreate && (
+          <Button
+            size="sm"
+            onClick={() => {
+              setEditing(null);
+              setShowForm(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : fields.length === 0 ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <ListPlus className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No custom fields defined yet.</p>
+        </div>
+      ) : (
+        (Object.keys(entityLabels) as CustomFieldEntity[]).map((entity) => {
+          const entityFields = fields.filter((field) => field.entity === entity);
+          if (entityFields.length === 0) return null;
+
+          return (
+            <div key={entity}>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">{entityLabels[entity]}</h4>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Options</TableHead>
+                      <TableHead>Default</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entityFields.map((field) => (
+                      <TableRow key={field.id}>
+                        <TableCell>
+                          <span className="font-medium text-gray-900">{field.name}</span>
+                          {field.isRequired && <span className="ml-1 text-xs text-red-600">required</span>}
+                        </TableCell>
+                        <TableCell>
+                          <code className="text-xs text-gray-600">{field.key}</code>
+                        </TableCell>
+                        <TableCell>{typeLabels[field.type]}</TableCell>
+                        <TableCell>
+                          <span className="text-sm text-gray-600">{field.options?.join(', ') || '—'}</span>
+                        </TableCell>
+                        <TableCell>{formatDefault(field.defaultValue)}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              field.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                            }`}
+                          >
+                            {field.isActive ? 'active' : 'hidden'}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-1">
+                            {canUpdate && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Edit"
+                                onClick={() => {
+                                  setEditing(field);
+                                  setShowForm(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canDelete && (
+                              <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(field)}>
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      {showForm && (
+        <CustomFieldFormModal
+          field={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false);
+            invalidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CustomFieldFormModalProps {
+  field: CustomFieldDefinition | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function CustomFieldFormModal({ field, onClose, onSuccess }: CustomFieldFormModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState(field?.name || '');
+  const [key, setKey] = useState(field?.key || '');
+  const [keyEdited, setKeyEdited] = useState(!!field);
+  const [entity, setEntity] = useState<CustomFieldEntity>(field?.entity || 'work-log');
+  const [type, setType] = useState<CustomFieldType>(field?.type || 'TEXT');
+  const [options, setOptions] = useState(field?.options?.join('\n') || '');
+  const [defaultValue, setDefaultValue] = useState(
+    field?.defaultValue == null ? '' : formatDefault(field.defaultValue),
+  );
+  const [isRequired, setIsRequired] = useState(field?.isRequired ?? false);
+  const [isActive, setIsActive] = useState(field?.isActive ?? true);
+
+  const isSelect = selectTypes.includes(type);
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall(field ? `/api/custom-fields/${field.id}` : '/api/custom-fields', {
+        method: field ? 'PATCH' : 'POST',
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to save custom field'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success(field ? 'Custom field updated' : 'Custom field created');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!keyEdited) setKey(toKey(value));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const optionList = options
+      .split(/[\n,]/)
+      .map((option) => option.trim())
+      .filter(Boolean);
+    if (isSelect && optionList.length === 0) {
+      toast.error('Add at least one option');
+      return;
+    }
+
+    // The server converts the default to the field type, except lists
+    const trimmedDefault = defaultValue.trim();
+    const parsedDefault =
+      trimmedDefault === ''
+        ? null
+        : type === 'MULTI_SELECT'
+          ? trimmedDefault.split(',').map((value) => value.trim()).filter(Boolean)
+          : trimmedDefault;
+
+    saveMutation.mutate({
+      name: name.trim(),
+      ...(!field && { key, entity }),
+      type,
+      options: isSelect ? optionList : undefined,
+      defaultValue: parsedDefault,
+      isRequired,
+      isActive,
+    });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={field ? 'Edit Custom Field' : 'Add Custom Field'} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="customFieldName" className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <Input
+              id="customFieldName"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="Cost centre"
+            />
+          </div>
+          <div>
+            <label htmlFor="customFieldKey" className="block text-sm font-medium text-gray-700 mb-1">
+              Key *
+            </label>
+            <Input
+              id="customFieldKey"
+              value={key}
+              onChange={(e) => {
+                setKey(e.target.value);
+                setKeyEdited(true);
+              }}
+              placeholder="costCentre"
+              disabled={!!field}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="customFieldEntity" className="block text-sm font-medium text-gray-700 mb-1">
+              Applies to
+            </label>
+            <select
+              id="customFieldEntity"
+              value={entity}
+              onChange={(e) => setEntity(e.target.value as CustomFieldEntity)}
+              disabled={!!field}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="customFieldType" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="customFieldType"
+              value={type}
+              onChange={(e) => setType(e.target.value as CustomFieldType)}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isSelect && (
+          <div>
+            <label htmlFor="customFieldOptions" className="block text-sm font-medium text-gray-700 mb-1">
+              Options *
+            </label>
+            <textarea
+              id="customFieldOptions"
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+              rows={4}
+              placeholder={'One option per line'}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="customFieldDefault" className="block text-sm font-medium text-gray-700 mb-1">
+              Default value
+            </label>
+            <Input
+              id="customFieldDefault"
+              value={defaultValue}
+              onChange={(e) => setDefaultValue(e.target.value)}
+              placeholder={
+                type === 'BOOLEAN' ? 'true or false' : type === 'MULTI_SELECT' ? 'Comma separated options' : 'None'
+              }
+            />
+          </div>
+          <div className="flex items-end space-x-6">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={isRequired}
+                onChange={(e) => setIsRequired(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span className="ml-2 text-sm text-gray-700">Required</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span className="ml-2 text-sm text-gray-700">Shown in forms</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : field ? 'Update' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,656 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input, Modal, Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui';
+import { Globe, Plus, RefreshCw, PlugZap, Edit, Trash2, History, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type IntegrationType =
+  | 'PROJECT_MANAGEMENT'
+  | 'MONITORING'
+  | 'ANALYTICS'
+  | 'AUTHENTICATION'
+  | 'COMMUNICATION'
+  | 'FILE_STORAGE';
+
+type IntegrationStatus = 'INACTIVE' | 'ACTIVE' | 'ERROR' | 'SYNCING';
+
+interface SyncLog {
+  id: string;
+  operation: string;
+  status: string;
+  recordsProcessed: number | null;
+  recordsSuccess: number | null;
+  recordsError: number | null;
+  errorDetails: Array<{ externalId?: string; message: string }> | null;
+  startedAt: string;
+  completedAt: string | null;
+  duration: number | null;
+}
+
+interface Integration {
+  id: string;
+  name: string;
+  type: IntegrationType;
+  config: Record<string, unknown>;
+  isActive: boolean | null;
+  lastSyncAt: string | null;
+  syncStatus: IntegrationStatus | null;
+  errorMessage: string | null;
+  syncIntervalMinutes: number | null;
+  syncLogs: SyncLog[];
+}
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const typeLabels: Record<IntegrationType, string> = {
+  PROJECT_MANAGEMENT: 'Issue tracker',
+  MONITORING: 'Monitoring',
+  ANALYTICS: 'Analytics',
+  AUTHENTICATION: 'Authentication',
+  COMMUNICATION: 'Communication',
+  FILE_STORAGE: 'File storage',
+};
+
+const statusStyles: Record<IntegrationStatus, string> = {
+  INACTIVE: 'bg-gray-100 text-gray-700',
+  ACTIVE: 'bg-green-100 text-green-800',
+  ERROR: 'bg-red-100 text-red-800',
+  SYNCING: 'bg-blue-100 text-blue-800',
+};
+
+const logStatusStyles: Record<string, string> = {
+  running: 'text-blue-700',
+  success: 'text-green-700',
+  partial: 'text-yellow-700',
+  failed: 'text-red-700',
+};
+
+interface ProviderField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+const providerFields: Record<string, ProviderField[]> = {
+  jira: [
+    { key: 'baseUrl', label: 'Site URL', placeholder: 'https://acme.atlassian.net' },
+    { key: 'email', label: 'Account email' },
+    { key: 'apiToken', label: 'API token', secret: true },
+    { key: 'projectKey', label: 'Project key', placeholder: 'OPS' },
+  ],
+  github: [
+    { key: 'owner', label: 'Owner', placeholder: 'acme' },
+    { key: 'repo', label: 'Repository', placeholder: 'web' },
+    { key: 'token', label: 'Access token', secret: true },
+    { key: 'apiUrl', label: 'API URL', placeholder: 'https://api.github.com', optional: true },
+  ],
+  gitlab: [
+    { key: 'projectPath', label: 'Project path or ID', placeholder: 'acme/platform' },
+    { key: 'token', label: 'Access token', secret: true },
+    { key: 'baseUrl', label: 'Instance URL', placeholder: 'https://gitlab.com', optional: true },
+  ],
+};
+
+const intervalOptions = [
+  { value: '', label: 'Manual only' },
+  { value: '15', label: 'Every 15 minutes' },
+  { value: '60', label: 'Every hour' },
+  { value: '360', label: 'Every 6 hours' },
+  { value: '1440', label: 'Daily' },
+];
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export function IntegrationsSettings() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Integration | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const canCreate = hasPermission('integrations', 'create');
+  const canUpdate = hasPermission('integrations', 'update');
+  const canDelete = hasPermission('integrations', 'delete');
+  const canSync = hasPermission('integrations', 'sync');
+
+  const { data: integrations = [], isLoading } = useQuery<Integration[]>({
+    queryKey: ['integrations'],
+    queryFn: async () => {
+      const response = await apiCall('/api/integrations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch integrations');
+      }
+      return response.json();
+    },
+    // Poll quickly while a sync is running so the status stays live
+    refetchInterval: (query) =>
+      query.state.data?.some((integration) => integration.syncStatus === 'SYNCING') ? 3000 : 30000,
+  });
+
+  const invalidate = (id?: string) => {
+    queryClient.invalidateQueries({ queryKey: ['integrations'] });
+    if (id) queryClient.invalidateQueries({ queryKey: ['integration-logs', id] });
+  };
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/integrations/${id}/test`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to test connection'));
+      }
+      return response.json() as Promise<{ success: boolean; message: string }>;
+    },
+    onSuccess: (result) => {
+      if (result.success) toast.success(result.message);
+      else toast.error(`Connection failed: ${result.message}`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/integrations/${id}/sync`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to start sync'));
+      }
+      return response.json() as Promise<SyncLog>;
+    },
+    onMutate: () => {
+      // Pick up the SYNCING status while the request is in flight
+      setTimeout(() => invalidate(), 500);
+    },
+    onSuccess: (log, id) => {
+      invalidate(id);
+      if (log.status === 'failed') {
+        toast.error(log.errorDetails?.[0]?.message || 'Sync failed');
+      } else {
+        toast.success(
+          `Synced ${log.recordsSuccess ?? 0} of ${log.recordsProcessed ?? 0} records` +
+            (log.recordsError ? ` (${log.recordsError} failed)` : ''),
+        );
+      }
+    },
+    onError: (error: Error, id) => {
+      invalidate(id);
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiCall(`/api/integrations/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete integration'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Integration deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleDelete = (integration: Integration) => {
+    if (window.confirm(`Delete "${integration.name}" and its sync history?`)) {
+      deleteMutation.mutate(integration.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Integrations</h3>
+          <p className="text-sm text-gray-500">Connect external systems and keep their data in sync.</p>
+        </div>
+        {canCreate && (
+          <Button
+            size="sm"
+            onClick={() => {
+              setEditing(null);
+              setShowForm(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Integration
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : integrations.length === 0 ? (
+        <div className="border border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <Globe className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No integrations configured yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {integrations.map((integration) => {
+            const status = integration.syncStatus || 'INACTIVE';
+            const lastLog = integration.syncLogs[0];
+            return (
+              <div key={integration.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start">
+                    <Globe className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="text-sm font-medium text-gray-900">{integration.name}</h4>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+                          {status === 'SYNCING' ? 'Syncing…' : status.toLowerCase()}
+                        </span>
+                        {!integration.isActive && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-500">
+                            disabled
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {typeLabels[integration.type]}
+                        {typeof integration.config.provider === 'string' && ` · ${integration.config.provider}`}
+                        {' · '}
+                        {integration.syncIntervalMinutes
+                          ? intervalOptions.find((o) => o.value === String(integration.syncIntervalMinutes))?.label ||
+                            `Every ${integration.syncIntervalMinutes} minutes`
+                          : 'Manual sync'}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Last successful sync: {formatDateTime(integration.lastSyncAt)}
+                        {lastLog && ` · Last run ${lastLog.status} at ${formatDateTime(lastLog.startedAt)}`}
+                      </p>
+                      {integration.errorMessage && (
+                        <p className="flex items-center text-xs text-red-600 mt-1">
+                          <AlertCircle className="h-3 w-3 mr-1" />
+                          {integration.errorMessage}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {canUpdate && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Test connection"
+                        onClick={() => testMutation.mutate(integration.id)}
+                        disabled={testMutation.isPending}
+                      >
+                        <PlugZap className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canSync && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Sync now"
+                        onClick={() => syncMutation.mutate(integration.id)}
+                        disabled={status === 'SYNCING' || !integration.isActive}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${status === 'SYNCING' ? 'animate-spin' : ''}`} />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Sync history"
+                      onClick={() => setHistoryId(historyId === integration.id ? null : integration.id)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {canUpdate && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Edit"
+                        onClick={() => {
+                          setEditing(integration);
+                          setShowForm(true);
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(integration)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {historyId === integration.id && <SyncHistory integrationId={integration.id} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <IntegrationFormModal
+          integration={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false);
+            invalidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function SyncHistory({ integrationId }: { integrationId: string }) {
+  const { apiCall } = useAuth();
+
+  const { data: logs = [], isLoading } = useQuery<SyncLog[]>({
+    queryKey: ['integration-logs', integrationId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/integrations/${integrationId}/logs?take=20`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch sync history');
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="mt-4 text-sm text-gray-500">Loading sync history…</p>;
+  }
+  if (logs.length === 0) {
+    return <p className="mt-4 text-sm text-gray-500">No syncs have run yet.</p>;
+  }
+
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Started</TableHead>
+            <TableHead>Trigger</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Processed</TableHead>
+            <TableHead>Succeeded</TableHead>
+            <TableHead>Errors</TableHead>
+            <TableHead>Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {logs.map((log) => (
+            <TableRow key={log.id}>
+              <TableCell>{formatDateTime(log.startedAt)}</TableCell>
+              <TableCell>{log.operation.replace('_sync', '')}</TableCell>
+              <TableCell>
+                <span className={`font-medium ${logStatusStyles[log.status] || 'text-gray-700'}`}>{log.status}</span>
+                {log.errorDetails && log.errorDetails.length > 0 && (
+                  <p className="text-xs text-red-600 max-w-xs truncate" title={log.errorDetails.map((e) => e.message).join('\n')}>
+                    {log.errorDetails[0].externalId && `${log.errorDetails[0].externalId}: `}
+                    {log.errorDetails[0].message}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell>{log.recordsProcessed ?? 0}</TableCell>
+              <TableCell>{log.recordsSuccess ?? 0}</TableCell>
+              <TableCell>{log.recordsError ?? 0}</TableCell>
+              <TableCell>{log.duration != null ? `${(log.duration / 1000).toFixed(1)}s` : '—'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+interface IntegrationFormModalProps {
+  integration: Integration | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function IntegrationFormModal({ integration, onClose, onSuccess }: IntegrationFormModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState(integration?.name || '');
+  const [type, setType] = useState<IntegrationType>(integration?.type || 'PROJECT_MANAGEMENT');
+  const [isActive, setIsActive] = useState(integration?.isActive ?? true);
+  const [syncInterval, setSyncInterval] = useState(
+    integration?.syncIntervalMinutes ? String(integration.syncIntervalMinutes) : '',
+  );
+  const [config, setConfig] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(integration?.config || { provider: 'jira' }).map(([key, value]) => [key, String(value ?? '')]),
+    ),
+  );
+  const [rawConfig, setRawConfig] = useState(() => JSON.stringify(integration?.config || {}, null, 2));
+
+  const isTracker = type === 'PROJECT_MANAGEMENT';
+  const fields = providerFields[config.provider] || [];
+
+  const { data: projects = [] } = useQuery<ProjectOption[]>({
+    queryKey: ['projects'],
+    queryFn: async () => {
+      const response = await apiCall('/api/projects');
+      if (!response.ok) {
+        throw new Error('Failed to fetch projects');
+      }
+      return response.json();
+    },
+    enabled: isTracker,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const response = await apiCall(integration ? `/api/integrations/${integration.id}` : '/api/integrations', {
+        method: integration ? 'PATCH' : 'POST',
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to save integration'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success(integration ? 'Integration updated' : 'Integration created');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    let configBody: Record<string, unknown>;
+    if (isTracker) {
+      // Only send the fields that belong to the selected provider
+      configBody = { provider: config.provider, projectId: config.projectId };
+      for (const field of fields) {
+        if (config[field.key]) configBody[field.key] = config[field.key];
+      }
+    } else {
+      try {
+        configBody = JSON.parse(rawConfig || '{}');
+      } catch {
+        toast.error('Config must be valid JSON');
+        return;
+      }
+    }
+
+    saveMutation.mutate({
+      name: name.trim(),
+      type,
+      isActive,
+      syncIntervalMinutes: syncInterval ? Number(syncInterval) : null,
+      config: configBody,
+    });
+  };
+
+  const setConfigValue = (key: string, value: string) => setConfig((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Modal isOpen onClose={onClose} title={integration ? 'Edit Integration' : 'Add Integration'} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="integrationName" className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <Input id="integrationName" value={name} onChange={(e) => setName(e.target.value)} placeholder="Platform Jira" />
+          </div>
+          <div>
+            <label htmlFor="integrationType" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="integrationType"
+              value={type}
+              onChange={(e) => setType(e.target.value as IntegrationType)}
+              disabled={!!integration}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isTracker ? (
+          <div className="bg-gray-50 p-4 rounded-md space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="integrationProvider" className="block text-sm font-medium text-gray-700 mb-1">
+                  Provider
+                </label>
+                <select
+                  id="integrationProvider"
+                  value={config.provider}
+                  onChange={(e) => setConfigValue('provider', e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                  <option value="jira">Jira</option>
+                  <option value="github">GitHub</option>
+                  <option value="gitlab">GitLab</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="integrationProject" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sync tickets into project *
+                </label>
+                <select
+                  id="integrationProject"
+                  value={config.projectId || ''}
+                  onChange={(e) => setConfigValue('projectId', e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  required
+                >
+                  <option value="">Select a project</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {fields.map((field) => (
+                <div key={field.key}>
+                  <label htmlFor={`config-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                    {!field.optional && ' *'}
+                  </label>
+                  <Input
+                    id={`config-${field.key}`}
+                    type={field.secret ? 'password' : 'text'}
+                    value={config[field.key] || ''}
+                    onChange={(e) => setConfigValue(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                    required={!field.optional}
+                    autoComplete="off"
+                  />
+                </div>
+              ))}
+            </div>
+            {integration && (
+              <p className="text-xs text-gray-500">Saved secrets are hidden. Leave them unchanged to keep the stored value.</p>
+            )}
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="integrationConfig" className="block text-sm font-medium text-gray-700 mb-1">
+              Config (JSON)
+            </label>
+            <textarea
+              id="integrationConfig"
+              value={rawConfig}
+              onChange={(e) => setRawConfig(e.target.value)}
+              rows={6}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="integrationInterval" className="block text-sm font-medium text-gray-700 mb-1">
+              Sync schedule
+            </label>
+            <select
+              id="integrationInterval"
+              value={syncInterval}
+              onChange={(e) => setSyncInterval(e.target.value)}
+              disabled={!isTracker}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {intervalOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span className="ml-2 text-sm text-gray-700">Enabled</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : integration ? 'Update' : 'Create'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
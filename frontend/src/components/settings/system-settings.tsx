@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input } from '@/components/ui';
+import { RotateCcw, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface SystemSetting {
+  key: string;
+  value: unknown;
+  defaultValue: unknown;
+  isDefault: boolean;
+  category: string;
+  description: string;
+  isPublic: boolean;
+  updatedAt: string | null;
+}
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  const message = errorData.error?.message || errorData.message;
+  return (Array.isArray(message) ? message.join(', ') : message) || fallback;
+};
+
+/** Objects and arrays are edited as JSON, strings and numbers in a plain input */
+const toDraft = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value, null, 2) : String(value);
+
+const fromDraft = (draft: string, defaultValue: unknown): unknown => {
+  if (typeof defaultValue === 'number') return Number(draft);
+  if (typeof defaultValue === 'string') return draft;
+  return JSON.parse(draft);
+};
+
+export function SystemSettings() {
+  const { apiCall } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const canUpdate = hasPermission('settings', 'update');
+
+  const { data: settings = [], isLoading } = useQuery<SystemSetting[]>({
+    queryKey: ['system-settings'],
+    queryFn: async () => {
+      const response = await apiCall('/api/system-settings');
+      if (!response.ok) {
+        throw new Error('Failed to fetch system settings');
+      }
+      return response.json();
+    },
+  });
+
+  const onSaved = (key: string, message: string) => {
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+    queryClient.invalidateQueries({ queryKey: ['system-settings'] });
+    toast.success(message);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ key, value }: { key: string; value: unknown }) => {
+      const response = await apiCall(`/api/system-settings/${encodeURIComponent(key)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ value }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to update setting'));
+      }
+      return response.json();
+    },
+    onSuccess: (_, { key }) => onSaved(key, 'Setting updated'),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const response = await apiCall(`/api/system-settings/${encodeURIComponent(key)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to reset setting'));
+      }
+      return response.json();
+    },
+    onSuccess: (_, key) => onSaved(key, 'Setting reset to its default'),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSave = (setting: SystemSetting) => {
+    let value: unknown;
+    try {
+      value = fromDraft(drafts[setting.key], setting.defaultValue);
+    } catch {
+      toast.error('Enter valid JSON');
+      return;
+    }
+    updateMutation.mutate({ key: setting.key, value });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">System</h3>
+        <p className="text-sm text-gray-500">
+          Organization-wide settings. Public settings are also sent to the web and mobile apps.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        settings.map((setting) => {
+          const draft = drafts[setting.key] ?? toDraft(setting.value);
+          const isObject = typeof setting.defaultValue === 'object';
+          const changed = drafts[setting.key] !== undefined;
+
+          return (
+            <div key={setting.key} className="border border-gray-200 rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <code className="text-sm font-medium text-gray-900">{setting.key}</code>
+                    {setting.isPublic && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Public</span>
+                    )}
+                    {setting.isDefault && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Default</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">{setting.description}</p>
+                </div>
+                {setting.updatedAt && !setting.isDefault && (
+                  <span className="text-xs text-gray-400">
+                    Updated {new Date(setting.updatedAt).toLocaleString()}
+                  </span>
+                )}
+              </div>
+
+              {isObject ? (
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDrafts({ ...drafts, [setting.key]: e.target.value })}
+                  disabled={!canUpdate}
+                  rows={Math.min(draft.split('\n').length + 1, 10)}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              ) : (
+                <Input
+                  value={draft}
+                  type={typeof setting.defaultValue === 'number' ? 'number' : 'text'}
+                  onChange={(e) => setDrafts({ ...drafts, [setting.key]: e.target.value })}
+                  disabled={!canUpdate}
+                />
+              )}
+
+              {canUpdate && (
+                <div className="flex justify-end space-x-2">
+                  {!setting.isDefault && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => resetMutation.mutate(setting.key)}
+                      disabled={resetMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Reset
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => handleSave(setting)}
+                    disabled={!changed || updateMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,518 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth-context';
+import { usePermissions } from '@/lib/permissions';
+import { Button, Input, Modal, Card, CardHeader, CardContent } from '@/components/ui';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Check, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type ShiftStatus = 'SCHEDULED' | 'CONFIRMED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+
+interface RosterTeam {
+  id: string;
+  name: string;
+  leader?: { id: string };
+  members?: Array<{ role: string; user: { id: string } }>;
+}
+
+interface Shift {
+  id: string;
+  userId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes?: number;
+  notes?: string | null;
+  status: ShiftStatus;
+  schedule: { id: string; name: string };
+}
+
+interface Roster {
+  team: { id: string; name: string };
+  weekStart: string;
+  weekEnd: string;
+  days: string[];
+  members: Array<{ id: string; displayName?: string; email: string; role?: string }>;
+  shifts: Shift[];
+}
+
+interface ShiftSchedule {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate?: string | null;
+}
+
+const statusStyles: Record<ShiftStatus, string> = {
+  SCHEDULED: 'bg-blue-100 text-blue-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  IN_PROGRESS: 'bg-indigo-100 text-indigo-800',
+  COMPLETED: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-gray-100 text-gray-500 line-through',
+  NO_SHOW: 'bg-red-100 text-red-800',
+};
+
+// Shift dates and times are stored in UTC, so format straight from the ISO string
+const toDay = (iso: string) => iso.slice(0, 10);
+const toTime = (iso: string) => iso.slice(11, 16);
+
+const addDays = (day: string, amount: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().slice(0, 10);
+};
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.message || errorData.message || fallback;
+};
+
+export function TeamRoster({ teams }: { teams: RosterTeam[] }) {
+  const { apiCall, user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const queryClient = useQueryClient();
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [weekStart, setWeekStart] = useState(() => new Date().toISOString().slice(0, 10));
+  const [newShift, setNewShift] = useState<{ userId: string; date: string } | null>(null);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+
+  const teamId = selectedTeamId || teams[0]?.id || '';
+  const team = teams.find((t) => t.id === teamId);
+  const isLead =
+    !!user &&
+    (team?.leader?.id === user.id ||
+      !!team?.members?.some((m) => m.user.id === user.id && m.role === 'lead') ||
+      user.role === 'SUPER_ADMIN' ||
+      user.role === 'ADMIN');
+  const canManage = isLead && hasPermission('shifts', 'create');
+
+  const { data: roster, isLoading } = useQuery<Roster>({
+    queryKey: ['roster', teamId, weekStart],
+    queryFn: async () => {
+      const response = await apiCall(`/api/shifts/teams/${teamId}/roster?weekStart=${weekStart}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch roster');
+      }
+      return response.json();
+    },
+    enabled: !!teamId,
+  });
+
+  const { data: schedules = [] } = useQuery<ShiftSchedule[]>({
+    queryKey: ['shiftSchedules', teamId],
+    queryFn: async () => {
+      const response = await apiCall(`/api/shifts/schedules?teamId=${teamId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch shift schedules');
+      }
+      return response.json();
+    },
+    enabled: !!teamId && canManage,
+  });
+
+  const invalidateRoster = () => {
+    queryClient.invalidateQueries({ queryKey: ['roster', teamId] });
+    queryClient.invalidateQueries({ queryKey: ['shiftSchedules', teamId] });
+  };
+
+  const confirmMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      const response = await apiCall(`/api/shifts/${shiftId}/confirm`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to confirm shift'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRoster();
+      toast.success('Shift confirmed');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (shiftId: string) => {
+      const response = await apiCall(`/api/shifts/${shiftId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to delete shift'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRoster();
+      toast.success('Shift removed');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (teams.length === 0) {
+    return null;
+  }
+
+  const shiftsByCell = new Map<string, Shift[]>();
+  roster?.shifts.forEach((shift) => {
+    const key = `${shift.userId}:${toDay(shift.date)}`;
+    shiftsByCell.set(key, [...(shiftsByCell.get(key) || []), shift]);
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-indigo-500" />
+            <h2 className="text-lg font-medium text-gray-900">Weekly Roster</h2>
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            <select
+              value={teamId}
+              onChange={(e) => setSelectedTeamId(e.target.value)}
+              className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {teams.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Previous week"
+              onClick={() => setWeekStart(addDays(roster?.weekStart || weekStart, -7))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-700 whitespace-nowrap">
+              {roster ? `${formatDay(roster.weekStart)} – ${formatDay(roster.weekEnd)}` : '…'}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Next week"
+              onClick={() => setWeekStart(addDays(roster?.weekStart || weekStart, 7))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {canManage && (
+              <Button variant="outline" size="sm" onClick={() => setShowScheduleModal(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Schedule
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !roster ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Member</th>
+                  {roster.days.map((day) => (
+                    <th key={day} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">
+                      {formatDay(day)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {roster.members.map((member) => (
+                  <tr key={member.id}>
+                    <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">
+                      {member.displayName || member.email}
+                    </td>
+                    {roster.days.map((day) => {
+                      const cellShifts = shiftsByCell.get(`${member.id}:${day}`) || [];
+                      return (
+                        <td key={day} className="px-3 py-2 align-top">
+                          <div className="space-y-1">
+                            {cellShifts.map((shift) => (
+                              <div
+                                key={shift.id}
+                                title={[shift.schedule.name, shift.notes].filter(Boolean).join(' — ')}
+                                className={`group flex items-center justify-between gap-1 rounded px-2 py-1 text-xs ${statusStyles[shift.status]}`}
+                              >
+                                <span className="whitespace-nowrap">
+                                  {toTime(shift.startTime)}–{toTime(shift.endTime)}
+                                  {shift.status !== 'SCHEDULED' && shift.status !== 'CONFIRMED' && (
+                                    <span className="ml-1 font-semibold">{shift.status.replace('_', ' ')}</span>
+                                  )}
+                                </span>
+                                {shift.userId === user?.id && shift.status === 'SCHEDULED' && (
+                                  <button
+                                    title="Confirm shift"
+                                    disabled={confirmMutation.isPending}
+                                    onClick={() => confirmMutation.mutate(shift.id)}
+                                  >
+                                    <Check className="h-3 w-3" />
+                                  </button>
+                                )}
+                                {canManage && (
+                                  <button
+                                    title="Remove shift"
+                                    className="hidden group-hover:inline"
+                                    disabled={deleteMutation.isPending}
+                                    onClick={() => deleteMutation.mutate(shift.id)}
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                            {canManage && cellShifts.length === 0 && (
+                              <button
+                                title="Assign shift"
+                                className="text-gray-300 hover:text-indigo-600"
+                                onClick={() => setNewShift({ userId: member.id, date: day })}
+                              >
+                                <Plus className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {newShift && (
+        <AssignShiftModal
+          userId={newShift.userId}
+          date={newShift.date}
+          memberName={
+            roster?.members.find((m) => m.id === newShift.userId)?.displayName || ''
+          }
+          schedules={schedules.filter(
+            (s) =>
+              toDay(s.startDate) <= newShift.date &&
+              (!s.endDate || toDay(s.endDate) >= newShift.date)
+          )}
+          onClose={() => setNewShift(null)}
+          onSuccess={() => {
+            setNewShift(null);
+            invalidateRoster();
+          }}
+        />
+      )}
+
+      <CreateScheduleModal
+        isOpen={showScheduleModal}
+        teamId={teamId}
+        defaultStartDate={roster?.weekStart || weekStart}
+        onClose={() => setShowScheduleModal(false)}
+        onSuccess={() => {
+          setShowScheduleModal(false);
+          invalidateRoster();
+        }}
+      />
+    </Card>
+  );
+}
+
+interface AssignShiftModalProps {
+  userId: string;
+  date: string;
+  memberName: string;
+  schedules: ShiftSchedule[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function AssignShiftModal({ userId, date, memberName, schedules, onClose, onSuccess }: AssignShiftModalProps) {
+  const { apiCall } = useAuth();
+  const [scheduleId, setScheduleId] = useState(schedules[0]?.id || '');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [notes, setNotes] = useState('');
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall(`/api/shifts/schedules/${scheduleId}/shifts`, {
+        method: 'POST',
+        body: JSON.stringify({ userId, date, startTime, endTime, ...(notes && { notes }) }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to assign shift'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Shift assigned');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scheduleId) {
+      toast.error('Create a schedule covering this date first');
+      return;
+    }
+    assignMutation.mutate();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Assign shift${memberName ? ` to ${memberName}` : ''} on ${formatDay(date)}`}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="schedule" className="block text-sm font-medium text-gray-700 mb-1">
+            Schedule
+          </label>
+          <select
+            id="schedule"
+            value={scheduleId}
+            onChange={(e) => setScheduleId(e.target.value)}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            {schedules.length === 0 && <option value="">No schedule covers this date</option>}
+            {schedules.map((schedule) => (
+              <option key={schedule.id} value={schedule.id}>
+                {schedule.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="shiftStart" className="block text-sm font-medium text-gray-700 mb-1">
+              Start (UTC)
+            </label>
+            <Input id="shiftStart" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="shiftEnd" className="block text-sm font-medium text-gray-700 mb-1">
+              End (UTC)
+            </label>
+            <Input id="shiftEnd" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="shiftNotes" className="block text-sm font-medium text-gray-700 mb-1">
+            Notes
+          </label>
+          <Input id="shiftNotes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+        </div>
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={assignMutation.isPending}>
+            {assignMutation.isPending ? 'Assigning...' : 'Assign Shift'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+interface CreateScheduleModalProps {
+  isOpen: boolean;
+  teamId: string;
+  defaultStartDate: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function CreateScheduleModal({ isOpen, teamId, defaultStartDate, onClose, onSuccess }: CreateScheduleModalProps) {
+  const { apiCall } = useAuth();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiCall('/api/shifts/schedules', {
+        method: 'POST',
+        body: JSON.stringify({
+          teamId,
+          name,
+          startDate: startDate || defaultStartDate,
+          ...(endDate && { endDate }),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response, 'Failed to create schedule'));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast.success('Schedule created');
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      onSuccess();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Schedule name is required');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="New Shift Schedule">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="scheduleName" className="block text-sm font-medium text-gray-700 mb-1">
+            Name
+          </label>
+          <Input id="scheduleName" value={name} onChange={(e) => setName(e.target.value)} placeholder="Support rota" />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="scheduleStart" className="block text-sm font-medium text-gray-700 mb-1">
+              Start date
+            </label>
+            <Input
+              id="scheduleStart"
+              type="date"
+              value={startDate || defaultStartDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="scheduleEnd" className="block text-sm font-medium text-gray-700 mb-1">
+              End date
+            </label>
+            <Input id="scheduleEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Creating...' : 'Create Schedule'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
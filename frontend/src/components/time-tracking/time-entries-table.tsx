@@ -7,6 +7,7 @@ import { SmartActionButton } from '@/components/auth/smart-action-button';
 import { TimeSessionsUpdatePermissionGuard, TimeSessionsDeletePermissionGuard, TimeSessionsExportPermissionGuard, TimeSessionsBulkActionsPermissionGuard } from '@/components/auth/page-permission-guard';
 import { TimeSessionViewModal } from '@/components/forms/time-session-view-modal';
 import { TimeSessionEditModal } from '@/components/forms/time-session-edit-modal';
+import { ExportMenu } from '@/components/exports/export-menu';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -16,7 +17,6 @@ import {
   Square,
   Clock,
   Calendar,
-  Download,
   Search,
   Filter
 } from 'lucide-react';
@@ -281,62 +281,6 @@ export function TimeEntriesTable({
     return matchesSearch && matchesStatus;
   });
 
-  // Export functionality
-  const handleExport = () => {
-    const csvContent = generateCSV(filteredSessions);
-    downloadCSV(csvContent, 'time-sessions-export.csv');
-    toast.success('Time sessions exported successfully');
-  };
-
-  const generateCSV = (sessions: TimeSession[]) => {
-    const headers = [
-      'Description', 
-      'Project', 
-      'User', 
-      'Module',
-      'Task Category',
-      'Work Category',
-      'Severity Category',
-      'Source Category',
-      'Ticket Reference',
-      'Start Time', 
-      'End Time', 
-      'Duration', 
-      'Status', 
-      'Created'
-    ];
-    const rows = sessions.map(session => [
-      session.description || 'No description',
-      session.project?.name || `Project ${session.projectId}`,
-      `${session.user.firstName} ${session.user.lastName}`,
-      session.module || '',
-      session.taskCategory || '',
-      session.workCategory || '',
-      session.severityCategory || '',
-      session.sourceCategory || '',
-      session.ticketReference || '',
-      new Date(session.startTime).toLocaleString(),
-      session.endTime ? new Date(session.endTime).toLocaleString() : '',
-      formatDuration(session.startTime, session.endTime, session.pausedDuration),
-      session.status,
-      new Date(session.createdAt).toLocaleString()
-    ]);
-    
-    return [headers, ...rows].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
-  };
-
-  const downloadCSV = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
   if (isLoading) {
     return (
       <div className="bg-white shadow rounded-lg p-6">
@@ -391,16 +335,7 @@ export function TimeEntriesTable({
 
               {/* Export Button */}
               <TimeSessionsExportPermissionGuard>
-                <Button
-                  onClick={handleExport}
-                  variant="outline"
-                  size="sm"
-                  className="inline-flex items-center"
-                  title="Export Time Entries to CSV"
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
+                <ExportMenu type="time-sessions" filters={{ search: searchTerm, status: statusFilter }} />
               </TimeSessionsExportPermissionGuard>
             </div>
           </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import { auth, signInWithGoogle, signOut as firebaseSignOut } from '@/configs/firebase/firebase-config';
@@ -40,8 +40,9 @@ interface AuthContextType {
   token: string | null;
   isLoading: boolean;
   loginWithGoogle: () => Promise<void>;
+  loginWithTokens: (token: string, refreshToken: string) => Promise<boolean>;
   logout: () => Promise<void>;
-  refreshToken: () => Promise<void>;
+  refreshToken: () => Promise<string | null>;
   apiCall: (url: string, options?: RequestInit) => Promise<Response>;
 }
 
@@ -85,6 +86,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             
             // Store in localStorage for persistence
             localStorage.setItem('jwt_token', userData.token);
+            localStorage.setItem('refresh_token', userData.refreshToken);
             localStorage.setItem('user', JSON.stringify(userData.user));
             
             // Ensure redirect to dashboard after successful authentication
@@ -120,6 +122,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(null);
             setToken(null);
             localStorage.removeItem('jwt_token');
+            localStorage.removeItem('refresh_token');
             localStorage.removeItem('user');
           }
         } catch (error) {
@@ -127,13 +130,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(null);
           setToken(null);
           localStorage.removeItem('jwt_token');
+          localStorage.removeItem('refresh_token');
           localStorage.removeItem('user');
         }
+      } else if (isInitialLoad && localStorage.getItem('refresh_token')) {
+        // Organization SSO sessions have no Firebase user
+        await restoreSession();
       } else {
         // This block runs on logout
         setUser(null);
         setToken(null);
         localStorage.removeItem('jwt_token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user');
         queryClient.clear(); // Clear all query data
         router.push('/login'); // Redirect to login on logout
@@ -159,35 +167,96 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Signs in with the tokens of a finished organization SSO login
+  const loginWithTokens = async (newToken: string, newRefreshToken: string) => {
+    localStorage.setItem('jwt_token', newToken);
+    localStorage.setItem('refresh_token', newRefreshToken);
+    return restoreSession();
+  };
+
+  // Loads the user of the stored session, refreshing its token if needed
+  const restoreSession = async (): Promise<boolean> => {
+    const storedToken = localStorage.getItem('jwt_token');
+    if (storedToken) {
+      const response = await fetch(buildApiUrl('/api/auth/me'), {
+        headers: { 'Authorization': `Bearer ${storedToken}` },
+        credentials: 'include',
+      }).catch(() => null);
+      if (response?.ok) {
+        const userData = await response.json();
+        setUser(userData.user);
+        setToken(storedToken);
+        localStorage.setItem('user', JSON.stringify(userData.user));
+        return true;
+      }
+    }
+    return !!(await refreshToken());
+  };
+
   const logout = async () => {
     try {
+      // End the session on the server so its tokens stop working right away
+      const currentToken = localStorage.getItem('jwt_token');
+      if (currentToken) {
+        await fetch(buildApiUrl('/api/auth/logout'), {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${currentToken}` },
+          credentials: 'include',
+        }).catch((error) => console.error('Server logout failed', error));
+      }
+
       // Calling firebaseSignOut will trigger the onAuthStateChanged listener,
       // which will handle all the cleanup and redirection logic.
+      const hasFirebaseUser = !!auth.currentUser;
       await firebaseSignOut();
+
+      // SSO sessions have no Firebase user, so the listener is not called
+      if (!hasFirebaseUser) {
+        setUser(null);
+        setToken(null);
+        localStorage.removeItem('jwt_token');
+        localStorage.removeItem('refresh_token');
+        localStorage.removeItem('user');
+        queryClient.clear();
+        router.push('/login');
+      }
     } catch (error) {
       console.error('Logout failed', error);
     }
   };
 
-  const refreshToken = async () => {
+  // Refresh tokens work once, so concurrent refreshes share one request
+  const refreshPromise = useRef<Promise<string | null> | null>(null);
+
+  const requestRefresh = async (currentRefreshToken: string): Promise<Response> => {
+    const response = await fetch(buildApiUrl('/api/auth/refresh'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ refreshToken: currentRefreshToken }),
+    });
+
+    // Another tab may have rotated the token we sent; use the one it stored
+    const storedRefreshToken = localStorage.getItem('refresh_token');
+    if (response.status === 401 && storedRefreshToken && storedRefreshToken !== currentRefreshToken) {
+      return requestRefresh(storedRefreshToken);
+    }
+    return response;
+  };
+
+  const performRefresh = async (): Promise<string | null> => {
     try {
       console.log('AuthContext: Attempting to refresh token...');
       
-      // Use the existing JWT token for refresh, not Firebase ID token
-      const currentToken = localStorage.getItem('jwt_token');
-      if (!currentToken) {
-        console.log('AuthContext: No JWT token found for refresh');
+      const currentRefreshToken = localStorage.getItem('refresh_token');
+      if (!currentRefreshToken) {
+        console.log('AuthContext: No refresh token found');
         throw new Error('No token available for refresh');
       }
       
-      const response = await fetch(buildApiUrl('/api/auth/refresh'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${currentToken}`,
-        },
-        credentials: 'include',
-      });
+      const response = await requestRefresh(currentRefreshToken);
       
       if (response.ok) {
         const userData = await response.json();
@@ -195,7 +264,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(userData.user);
         setToken(userData.token);
         localStorage.setItem('jwt_token', userData.token);
+        localStorage.setItem('refresh_token', userData.refreshToken);
         localStorage.setItem('user', JSON.stringify(userData.user));
+        return userData.token;
       } else {
         const errorText = await response.text();
         console.error('AuthContext: Token refresh failed:', response.status, errorText);
@@ -203,17 +274,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(null);
         setToken(null);
         localStorage.removeItem('jwt_token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user');
         router.push('/login');
+        return null;
       }
     } catch (error) {
       console.error('AuthContext: Token refresh failed:', error);
       setUser(null);
       setToken(null);
       localStorage.removeItem('jwt_token');
+      localStorage.removeItem('refresh_token');
       localStorage.removeItem('user');
       router.push('/login');
+      return null;
+    }
+  };
+
+  const refreshToken = () => {
+    if (!refreshPromise.current) {
+      refreshPromise.current = performRefresh().finally(() => {
+        refreshPromise.current = null;
+      });
     }
+    return refreshPromise.current;
   };
 
   // Utility function to make authenticated API calls
@@ -222,18 +306,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const fullUrl = buildApiUrl(url);
     
     const headers = {
-      'Content-Type': 'application/json',
+      // Let the browser set the multipart boundary for file uploads
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    } else {
+    let accessToken = token;
+    if (!accessToken) {
       // Try to refresh token if we have a user but no token
       if (user) {
-        await refreshToken();
+        accessToken = await refreshToken();
         // If we still don't have a token after refresh, redirect to login
-        if (!token) {
+        if (!accessToken) {
           router.push('/login');
           throw new Error('Authentication required');
         }
@@ -242,6 +326,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         throw new Error('Authentication required');
       }
     }
+    headers['Authorization'] = `Bearer ${accessToken}`;
 
     const response = await fetch(fullUrl, {
       ...options,
@@ -251,11 +336,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     // If we get a 401, try to refresh the token and retry once
     if (response.status === 401) {
-      await refreshToken();
+      const newToken = await refreshToken();
       
       // Retry the request with the new token
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
+      if (newToken) {
+        headers['Authorization'] = `Bearer ${newToken}`;
         return fetch(fullUrl, {
           ...options,
           headers,
@@ -277,6 +362,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         token,
         isLoading,
         loginWithGoogle,
+        loginWithTokens,
         logout,
         refreshToken,
         apiCall,
@@ -296,4 +382,4 @@ export function useAuth() {
 
   
   return context;
-} 
\ No newline at end of file
+} 
\ No newline at end of file
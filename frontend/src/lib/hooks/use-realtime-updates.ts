@@ -0,0 +1,109 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/lib/auth-context';
+import { buildApiUrl } from '@/configs/api';
+
+interface RealtimeMessage {
+  type: string;
+  data: unknown;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+/** Splits a server-sent event stream chunk into complete messages. */
+const parseEvents = (buffer: string): { messages: RealtimeMessage[]; rest: string } => {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const messages: RealtimeMessage[] = [];
+
+  for (const block of blocks) {
+    let type = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) type = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) continue;
+    try {
+      messages.push({ type, data: JSON.parse(dataLines.join('\n')) });
+    } catch {
+      messages.push({ type, data: dataLines.join('\n') });
+    }
+  }
+  return { messages, rest };
+};
+
+/**
+ * Keeps one event stream open for the signed-in user and refreshes the
+ * affected queries when timers, notifications or approvals change elsewhere.
+ */
+export function useRealtimeUpdates() {
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = ({ type, data }: RealtimeMessage) => {
+      switch (type) {
+        case 'time-session.updated':
+          queryClient.invalidateQueries({ queryKey: ['timeSessions'] });
+          break;
+        case 'notification.created':
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+          toast((data as { title?: string }).title || 'New notification');
+          break;
+        case 'work-log.approved':
+          queryClient.invalidateQueries({ queryKey: ['workLogs'] });
+          break;
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const response = await fetch(buildApiUrl('/api/realtime/events'), {
+          headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream failed with status ${response.status}`);
+        }
+
+        // Catch up on anything missed while disconnected
+        queryClient.invalidateQueries({ queryKey: ['timeSessions'] });
+        queryClient.invalidateQueries({ queryKey: ['notifications'] });
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const { messages, rest } = parseEvents(buffer);
+          buffer = rest;
+          messages.forEach(handleMessage);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Realtime connection lost:', error);
+      }
+
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [token, queryClient]);
+}
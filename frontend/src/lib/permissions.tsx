@@ -174,6 +174,43 @@ export const PERMISSIONS = {
   WORK_LOGS_UPDATE: { resource: 'work_logs', action: 'update' },
   WORK_LOGS_DELETE: { resource: 'work_logs', action: 'delete' },
 
+  // Leave Management Permissions (3 permissions)
+  LEAVE_CREATE: { resource: 'leave', action: 'create' },
+  LEAVE_READ: { resource: 'leave', action: 'read' },
+  LEAVE_APPROVE: { resource: 'leave', action: 'approve' },
+
+  // Shift Scheduling Permissions (4 permissions)
+  SHIFTS_CREATE: { resource: 'shifts', action: 'create' },
+  SHIFTS_READ: { resource: 'shifts', action: 'read' },
+  SHIFTS_UPDATE: { resource: 'shifts', action: 'update' },
+  SHIFTS_DELETE: { resource: 'shifts', action: 'delete' },
+
+  // Ticket Permissions (1 permission)
+  TICKETS_READ: { resource: 'tickets', action: 'read' },
+
+  // Integration Permissions (5 permissions)
+  INTEGRATIONS_CREATE: { resource: 'integrations', action: 'create' },
+  INTEGRATIONS_READ: { resource: 'integrations', action: 'read' },
+  INTEGRATIONS_UPDATE: { resource: 'integrations', action: 'update' },
+  INTEGRATIONS_DELETE: { resource: 'integrations', action: 'delete' },
+  INTEGRATIONS_SYNC: { resource: 'integrations', action: 'sync' },
+
+  // Custom Field Permissions (3 permissions, every user can list fields)
+  CUSTOM_FIELDS_CREATE: { resource: 'custom_fields', action: 'create' },
+  CUSTOM_FIELDS_UPDATE: { resource: 'custom_fields', action: 'update' },
+  CUSTOM_FIELDS_DELETE: { resource: 'custom_fields', action: 'delete' },
+
+  // Knowledge Base Permissions (3 permissions, every user can read those in scope)
+  KNOWLEDGE_BASES_CREATE: { resource: 'knowledge_bases', action: 'create' },
+  KNOWLEDGE_BASES_UPDATE: { resource: 'knowledge_bases', action: 'update' },
+  KNOWLEDGE_BASES_DELETE: { resource: 'knowledge_bases', action: 'delete' },
+
+  // Service Account Permissions (4 permissions, every user manages their own tokens)
+  SERVICE_ACCOUNTS_CREATE: { resource: 'service_accounts', action: 'create' },
+  SERVICE_ACCOUNTS_READ: { resource: 'service_accounts', action: 'read' },
+  SERVICE_ACCOUNTS_UPDATE: { resource: 'service_accounts', action: 'update' },
+  SERVICE_ACCOUNTS_DELETE: { resource: 'service_accounts', action: 'delete' },
+
   // Analytics Permissions (4 permissions)
   ANALYTICS_CREATE: { resource: 'analytics', action: 'create' },
   ANALYTICS_READ: { resource: 'analytics', action: 'read' },